@@ -4,14 +4,17 @@ const prisma = new PrismaClient()
 async function main() {
   const sessions = await prisma.marketSession.findMany({
     where: { status: 'ACTIVE' },
-    include: { league: { select: { name: true } } }
+    include: {
+      league: { select: { name: true } },
+      _count: { select: { rubataBoardEntries: true } },
+      rubataParticipants: { where: { orderIndex: { not: null } }, select: { id: true } }
+    }
   })
   sessions.forEach(s => {
-    const board = s.rubataBoard as any[] | null
     console.log(`\n${s.league.name}:`)
     console.log(`  - rubataState: ${s.rubataState}`)
-    console.log(`  - rubataBoard: ${board ? board.length + ' giocatori' : 'NON GENERATO'}`)
-    console.log(`  - rubataOrder: ${s.rubataOrder ? 'impostato' : 'non impostato'}`)
+    console.log(`  - rubataBoard: ${s.rubataBoardGeneratedAt ? s._count.rubataBoardEntries + ' giocatori' : 'NON GENERATO'}`)
+    console.log(`  - rubataOrder: ${s.rubataParticipants.length > 0 ? 'impostato' : 'non impostato'}`)
   })
 }
 main().finally(() => prisma.$disconnect())
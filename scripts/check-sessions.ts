@@ -11,7 +11,8 @@ async function main() {
       currentPhase: true,
       rubataState: true,
       rubataBoardIndex: true,
-      rubataBoard: true
+      rubataBoardGeneratedAt: true,
+      _count: { select: { rubataBoardEntries: true } }
     },
     orderBy: { createdAt: 'desc' }
   });
@@ -26,9 +27,8 @@ async function main() {
     console.log('  Phase:', s.currentPhase);
     console.log('  RubataState:', s.rubataState);
     console.log('  RubataBoardIndex:', s.rubataBoardIndex);
-    const board = s.rubataBoard as any[] | null;
-    if (board) {
-      console.log('  RubataBoard length:', board.length);
+    if (s.rubataBoardGeneratedAt) {
+      console.log('  RubataBoard length:', s._count.rubataBoardEntries);
     }
   }
 }
@@ -0,0 +1,77 @@
+/**
+ * dedupe-watchlist-categories.ts - Unisce le categorie di sistema della
+ * watchlist duplicate (stessa lega e stesso code), create da chiamate
+ * concorrenti di ensureDefaultCategories prima del vincolo
+ * @@unique([leagueId, code]).
+ *
+ * Va eseguito prima di `npm run db:push`, che altrimenti fallisce sulle righe
+ * duplicate. Per ogni codice resta la categoria più vecchia: le voci delle
+ * copie vi vengono spostate, quelle già presenti (stesso manager e giocatore)
+ * vengono eliminate insieme alla copia.
+ *
+ * Uso: npm run db:dedupe-watchlist-categories [-- --dry-run]
+ */
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+const DRY_RUN = process.argv.includes('--dry-run')
+
+async function main() {
+  const categories = await prisma.watchlistCategory.findMany({
+    where: { code: { not: null } },
+    select: { id: true, leagueId: true, code: true },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  const byCode = new Map<string, string[]>()
+  for (const category of categories) {
+    const key = `${category.leagueId}|${category.code}`
+    byCode.set(key, [...(byCode.get(key) ?? []), category.id])
+  }
+
+  const duplicated = [...byCode.entries()].filter(([, ids]) => ids.length > 1)
+  console.log(`Categorie di sistema: ${categories.length}, codici duplicati: ${duplicated.length}${DRY_RUN ? ' (dry run)' : ''}`)
+
+  for (const [key, [keeperId, ...copyIds]] of duplicated) {
+    const [leagueId, code] = key.split('|')
+    const copyEntries = await prisma.watchlistEntry.count({ where: { categoryId: { in: copyIds } } })
+    console.log(`\nLega ${leagueId!.slice(0, 8)} - ${code}: ${copyIds.length} copie, ${copyEntries} voci da spostare`)
+
+    if (DRY_RUN) continue
+
+    await prisma.$transaction(async (tx) => {
+      const kept = await tx.watchlistEntry.findMany({
+        where: { categoryId: keeperId! },
+        select: { memberId: true, playerId: true },
+      })
+      const keptKeys = new Set(kept.map(e => `${e.memberId}|${e.playerId}`))
+
+      const entries = await tx.watchlistEntry.findMany({
+        where: { categoryId: { in: copyIds } },
+        select: { id: true, memberId: true, playerId: true },
+        orderBy: { addedAt: 'asc' },
+      })
+
+      for (const entry of entries) {
+        const entryKey = `${entry.memberId}|${entry.playerId}`
+        if (keptKeys.has(entryKey)) {
+          await tx.watchlistEntry.delete({ where: { id: entry.id } })
+        } else {
+          await tx.watchlistEntry.update({ where: { id: entry.id }, data: { categoryId: keeperId! } })
+          keptKeys.add(entryKey)
+        }
+      }
+
+      await tx.watchlistCategory.deleteMany({ where: { id: { in: copyIds } } })
+    })
+  }
+
+  console.log('\n✅ Deduplica categorie watchlist completata')
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
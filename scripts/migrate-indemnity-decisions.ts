@@ -0,0 +1,166 @@
+/**
+ * migrate-indemnity-decisions.ts - Copia le decisioni sui giocatori usciti
+ * (RETROCESSO/ESTERO) dal vecchio formato alle righe per giocatore di
+ * IndemnityDecision, nella fase indennizzi della sessione:
+ * - LegacyIndemnityDecision: JSON [{rosterId, decision}] per manager e sessione
+ * - PlayerContract.legacyDraftExitDecision: bozza della fase CONTRATTI in corso
+ *
+ * Idempotente: la fase viene creata solo se la sessione non ce l'ha e una riga
+ * già decisa non viene sovrascritta (le scelte fatte dopo la migrazione
+ * prevalgono sul vecchio formato).
+ *
+ * Uso: npm run db:migrate-indemnity-decisions [-- --dry-run]
+ */
+import { PrismaClient, Prisma, type IndemnityChoice, type PlayerExitReason } from '@prisma/client'
+
+const prisma = new PrismaClient()
+const DRY_RUN = process.argv.includes('--dry-run')
+
+const EXITED_REASONS: PlayerExitReason[] = ['RETROCESSO', 'ESTERO']
+
+interface LegacyChoice {
+  sessionId: string
+  rosterId: string
+  decision: IndemnityChoice
+  decidedAt: Date
+}
+
+function parseDecisions(value: Prisma.JsonValue): Array<{ rosterId: string; decision: IndemnityChoice }> {
+  if (!Array.isArray(value)) return []
+  return value.flatMap(item => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return []
+    const { rosterId, decision } = item
+    return typeof rosterId === 'string' && (decision === 'KEEP' || decision === 'RELEASE')
+      ? [{ rosterId, decision }]
+      : []
+  })
+}
+
+async function main() {
+  // Istante usato per le bozze, di cui il vecchio formato non conserva la data
+  const migratedAt = new Date()
+
+  // Una scelta per sessione e giocatore: la decisione confermata prevale sulla bozza
+  const choices = new Map<string, LegacyChoice>()
+
+  // ===== BOZZE SUI CONTRATTI (sessione attiva della lega) =====
+  const drafts = await prisma.playerContract.findMany({
+    where: { legacyDraftExitDecision: { in: ['KEEP', 'RELEASE'] } },
+    select: { rosterId: true, legacyDraftExitDecision: true, leagueMember: { select: { leagueId: true } } },
+  })
+  const activeSessions = await prisma.marketSession.findMany({
+    where: { status: 'ACTIVE', leagueId: { in: [...new Set(drafts.map(d => d.leagueMember.leagueId))] } },
+    select: { id: true, leagueId: true },
+  })
+  const activeByLeague = new Map(activeSessions.map(s => [s.leagueId, s.id]))
+
+  let draftsWithoutSession = 0
+  for (const draft of drafts) {
+    const sessionId = activeByLeague.get(draft.leagueMember.leagueId)
+    if (!sessionId) {
+      draftsWithoutSession++
+      continue
+    }
+    choices.set(`${sessionId}|${draft.rosterId}`, {
+      sessionId,
+      rosterId: draft.rosterId,
+      decision: draft.legacyDraftExitDecision as IndemnityChoice,
+      decidedAt: migratedAt,
+    })
+  }
+
+  // ===== VECCHIA TABELLA (decisioni confermate) =====
+  const legacyRows = await prisma.legacyIndemnityDecision.findMany({ orderBy: { decidedAt: 'asc' } })
+  for (const row of legacyRows) {
+    for (const { rosterId, decision } of parseDecisions(row.decisions)) {
+      choices.set(`${row.sessionId}|${rosterId}`, { sessionId: row.sessionId, rosterId, decision, decidedAt: row.decidedAt })
+    }
+  }
+
+  console.log(`Decisioni legacy: ${legacyRows.length} righe, ${drafts.length} bozze${DRY_RUN ? ' (dry run)' : ''}`)
+  if (draftsWithoutSession > 0) {
+    console.log(`  - bozze ignorate (nessuna sessione attiva): ${draftsWithoutSession}`)
+  }
+
+  const bySession = new Map<string, LegacyChoice[]>()
+  for (const choice of choices.values()) {
+    bySession.set(choice.sessionId, [...(bySession.get(choice.sessionId) ?? []), choice])
+  }
+
+  for (const [sessionId, sessionChoices] of bySession) {
+    const session = await prisma.marketSession.findUnique({
+      where: { id: sessionId },
+      select: { status: true, indemnityPhase: { select: { id: true } } },
+    })
+    if (!session) {
+      console.log(`\nSessione ${sessionId.slice(0, 8)}: non trovata, ${sessionChoices.length} decisioni ignorate`)
+      continue
+    }
+
+    const rosters = await prisma.playerRoster.findMany({
+      where: { id: { in: sessionChoices.map(c => c.rosterId) } },
+      select: { id: true, leagueMemberId: true, playerId: true, player: { select: { exitReason: true } } },
+    })
+    const rosterById = new Map(rosters.map(r => [r.id, r]))
+
+    // Solo giocatori ancora classificati come usciti: gli altri non hanno una scelta da fare
+    const rows = sessionChoices.flatMap(choice => {
+      const roster = rosterById.get(choice.rosterId)
+      const exitReason = roster?.player.exitReason
+      return roster && exitReason && EXITED_REASONS.includes(exitReason) ? [{ ...choice, roster, exitReason }] : []
+    })
+
+    console.log(`\nSessione ${sessionId.slice(0, 8)}:`)
+    console.log(`  - fase indennizzi: ${session.indemnityPhase ? 'esistente' : 'da creare'}`)
+    console.log(`  - decisioni da copiare: ${rows.length}`)
+    if (rows.length < sessionChoices.length) {
+      console.log(`  - ignorate (rosa non trovata o giocatore non più uscito): ${sessionChoices.length - rows.length}`)
+    }
+
+    if (DRY_RUN || rows.length === 0) continue
+
+    await prisma.$transaction(async (tx) => {
+      // Nelle sessioni chiuse le vecchie decisioni erano già applicate
+      const phaseId = session.indemnityPhase?.id ?? (await tx.indemnityPhase.create({
+        data: session.status === 'ACTIVE'
+          ? { sessionId, status: 'DECISIONS', decisionsOpenedAt: migratedAt }
+          : { sessionId, status: 'CONSOLIDATED', decisionsOpenedAt: migratedAt, consolidatedAt: migratedAt },
+      })).id
+
+      for (const row of rows) {
+        const existing = await tx.indemnityDecision.findUnique({
+          where: { phaseId_rosterId: { phaseId, rosterId: row.rosterId } },
+          select: { id: true, decision: true },
+        })
+
+        if (!existing) {
+          await tx.indemnityDecision.create({
+            data: {
+              phaseId,
+              memberId: row.roster.leagueMemberId,
+              rosterId: row.rosterId,
+              playerId: row.roster.playerId,
+              exitReason: row.exitReason,
+              decision: row.decision,
+              decidedAt: row.decidedAt,
+            },
+          })
+        } else if (existing.decision === null) {
+          await tx.indemnityDecision.update({
+            where: { id: existing.id },
+            data: { decision: row.decision, decidedAt: row.decidedAt },
+          })
+        }
+      }
+    })
+  }
+
+  console.log('\n✅ Migrazione decisioni indennizzi completata')
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,172 @@
+/**
+ * migrate-session-state.ts - Copia lo stato rubata/svincolati dalle vecchie
+ * colonne JSON di MarketSession alle tabelle normalizzate
+ * (RubataBoard, RubataParticipant, SvincolatiTurnOrder).
+ *
+ * Idempotente: tabellone e righe per-manager vengono copiati solo se la
+ * sessione non li ha già (le conferme scritte dopo la migrazione non vengono
+ * sovrascritte dal JSON).
+ *
+ * Uso: npm run db:migrate-session-state [-- --dry-run]
+ */
+import { PrismaClient, Prisma } from '@prisma/client'
+
+const prisma = new PrismaClient()
+const DRY_RUN = process.argv.includes('--dry-run')
+
+interface LegacyBoardItem {
+  rosterId: string
+  memberId: string
+  playerId: string
+  playerName: string
+  playerPosition: string
+  playerTeam: string
+  playerQuotation?: number | null
+  playerAge?: number | null
+  playerApiFootballId?: number | null
+  playerApiFootballStats?: unknown
+  ownerUsername: string
+  ownerTeamName?: string | null
+  rubataPrice: number
+  contractSalary: number
+  contractDuration: number
+  contractClause: number
+  stolenById?: string | null
+  stolenByUsername?: string | null
+  stolenPrice?: number | null
+}
+
+interface LegacyPendingAck {
+  acknowledgedMembers?: string[]
+  prophecies?: Array<{ memberId: string; content: string; createdAt: string }>
+}
+
+function asStringArray(value: Prisma.JsonValue | null): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : []
+}
+
+async function main() {
+  const sessions = await prisma.marketSession.findMany({
+    where: {
+      OR: [
+        { legacyRubataBoard: { not: Prisma.DbNull } },
+        { legacyRubataOrder: { not: Prisma.DbNull } },
+        { legacyRubataReadyMembers: { not: Prisma.DbNull } },
+        { rubataPendingAck: { not: Prisma.DbNull } },
+        { legacySvincolatiTurnOrder: { not: Prisma.DbNull } },
+        { legacySvincolatiReadyMembers: { not: Prisma.DbNull } },
+        { legacySvincolatiPassedMembers: { not: Prisma.DbNull } },
+        { legacySvincolatiFinishedMembers: { not: Prisma.DbNull } },
+        { svincolatiPendingAck: { not: Prisma.DbNull } },
+      ],
+    },
+    include: { _count: { select: { rubataBoardEntries: true, rubataParticipants: true, svincolatiTurns: true } } },
+  })
+  console.log(`Sessioni con stato JSON: ${sessions.length}${DRY_RUN ? ' (dry run)' : ''}`)
+
+  // Istante usato per tabellone e conferme di cui il JSON non conserva la data
+  const migratedAt = new Date()
+
+  for (const session of sessions) {
+    // ===== RUBATA =====
+    const board = Array.isArray(session.legacyRubataBoard)
+      ? (session.legacyRubataBoard as unknown as LegacyBoardItem[])
+      : null
+    const rubataOrder = asStringArray(session.legacyRubataOrder)
+    const rubataReady = asStringArray(session.legacyRubataReadyMembers)
+    const rubataAck = (session.rubataPendingAck as LegacyPendingAck | null) ?? {}
+    const rubataAcked = rubataAck.acknowledgedMembers ?? []
+    const prophecies = new Map((rubataAck.prophecies ?? []).map(p => [p.memberId, p]))
+
+    const copyBoard = board !== null && !session.rubataBoardGeneratedAt && session._count.rubataBoardEntries === 0
+    const rubataMembers = session._count.rubataParticipants === 0
+      ? new Set([...rubataOrder, ...rubataReady, ...rubataAcked])
+      : new Set<string>()
+
+    // ===== SVINCOLATI =====
+    const turnOrder = asStringArray(session.legacySvincolatiTurnOrder)
+    const svincolatiReady = asStringArray(session.legacySvincolatiReadyMembers)
+    const passed = asStringArray(session.legacySvincolatiPassedMembers)
+    const finished = asStringArray(session.legacySvincolatiFinishedMembers)
+    const svincolatiAcked = (session.svincolatiPendingAck as LegacyPendingAck | null)?.acknowledgedMembers ?? []
+    const svincolatiMembers = session._count.svincolatiTurns === 0
+      ? new Set([...turnOrder, ...svincolatiReady, ...passed, ...finished, ...svincolatiAcked])
+      : new Set<string>()
+
+    console.log(`\nSessione ${session.id.slice(0, 8)}:`)
+    console.log(`  - tabellone: ${board ? (copyBoard ? `${board.length} giocatori da copiare` : 'già migrato') : 'assente'}`)
+    console.log(`  - partecipanti rubata: ${rubataMembers.size}`)
+    console.log(`  - turni svincolati: ${svincolatiMembers.size}`)
+
+    if (DRY_RUN) continue
+
+    await prisma.$transaction(async (tx) => {
+      if (copyBoard) {
+        await tx.rubataBoard.createMany({
+          data: board.map((item, orderIndex) => ({
+            sessionId: session.id,
+            orderIndex,
+            rosterId: item.rosterId,
+            memberId: item.memberId,
+            playerId: item.playerId,
+            playerName: item.playerName,
+            playerPosition: item.playerPosition,
+            playerTeam: item.playerTeam,
+            playerQuotation: item.playerQuotation ?? null,
+            playerAge: item.playerAge ?? null,
+            playerApiFootballId: item.playerApiFootballId ?? null,
+            playerApiFootballStats: (item.playerApiFootballStats ?? undefined) as Prisma.InputJsonValue | undefined,
+            ownerUsername: item.ownerUsername,
+            ownerTeamName: item.ownerTeamName ?? null,
+            rubataPrice: item.rubataPrice,
+            contractSalary: item.contractSalary,
+            contractDuration: item.contractDuration,
+            contractClause: item.contractClause,
+            stolenById: item.stolenById ?? null,
+            stolenByUsername: item.stolenByUsername ?? null,
+            stolenPrice: item.stolenPrice ?? null,
+          })),
+        })
+        await tx.marketSession.update({
+          where: { id: session.id },
+          data: { rubataBoardGeneratedAt: migratedAt },
+        })
+      }
+
+      for (const memberId of rubataMembers) {
+        const orderIndex = rubataOrder.indexOf(memberId)
+        const prophecy = prophecies.get(memberId)
+        const data = {
+          orderIndex: orderIndex >= 0 ? orderIndex : null,
+          isReady: rubataReady.includes(memberId),
+          acknowledgedAt: rubataAcked.includes(memberId)
+            ? (prophecy ? new Date(prophecy.createdAt) : migratedAt)
+            : null,
+          prophecy: prophecy?.content ?? null,
+        }
+        await tx.rubataParticipant.create({ data: { sessionId: session.id, memberId, ...data } })
+      }
+
+      for (const memberId of svincolatiMembers) {
+        const orderIndex = turnOrder.indexOf(memberId)
+        const data = {
+          orderIndex: orderIndex >= 0 ? orderIndex : null,
+          isReady: svincolatiReady.includes(memberId),
+          hasPassed: passed.includes(memberId),
+          hasFinished: finished.includes(memberId),
+          acknowledgedAt: svincolatiAcked.includes(memberId) ? migratedAt : null,
+        }
+        await tx.svincolatiTurnOrder.create({ data: { sessionId: session.id, memberId, ...data } })
+      }
+    })
+  }
+
+  console.log('\n✅ Migrazione stato sessioni completata')
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
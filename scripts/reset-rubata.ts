@@ -11,7 +11,6 @@ async function main() {
       rubataState: 'WAITING',
       rubataBoardIndex: 0,
       rubataTimerStartedAt: null,
-      rubataReadyMembers: [],
       rubataPausedRemainingSeconds: null,
       rubataPausedFromState: null,
       rubataAuctionReadyInfo: null,
@@ -19,6 +18,11 @@ async function main() {
     }
   });
   
+  await prisma.rubataParticipant.updateMany({
+    where: { session: { leagueId: 'cmkc9hjn30001zwpfpe67zpbd', status: 'ACTIVE' } },
+    data: { isReady: false, readyAt: null, acknowledgedAt: null, prophecy: null }
+  });
+
   console.log('Rubata resettata. Records aggiornati:', result.count);
 }
 
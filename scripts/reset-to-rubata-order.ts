@@ -34,9 +34,8 @@ async function main() {
     data: {
       currentPhase: 'RUBATA',
       rubataState: 'WAITING',
-      rubataBoard: null,
+      rubataBoardGeneratedAt: null,
       rubataBoardIndex: null,
-      rubataReadyMembers: null,
       rubataAuctionReadyInfo: null,
       rubataPendingAck: null,
       rubataTimerStartedAt: null,
@@ -45,10 +44,17 @@ async function main() {
     },
   })
 
+  // Rimuovi tabellone e azzera pronti/conferme (l'ordine resta)
+  await prisma.rubataBoard.deleteMany({ where: { sessionId: session.id } })
+  await prisma.rubataParticipant.updateMany({
+    where: { sessionId: session.id },
+    data: { isReady: false, readyAt: null, acknowledgedAt: null, prophecy: null },
+  })
+
   console.log('\n✅ Sessione aggiornata:')
   console.log(`- Fase: ${updated.currentPhase}`)
   console.log(`- Stato rubata: ${updated.rubataState}`)
-  console.log(`- Tabellone: ${updated.rubataBoard ? 'presente' : 'da generare'}`)
+  console.log(`- Tabellone: ${updated.rubataBoardGeneratedAt ? 'presente' : 'da generare'}`)
 
   // Trova aste rubata esistenti
   const rubataAuctions = await prisma.auction.findMany({
@@ -25,10 +25,8 @@ async function main() {
     data: {
       currentPhase: 'RUBATA',
       rubataState: null,  // null = deve ancora impostare ordine
-      rubataBoard: null,
+      rubataBoardGeneratedAt: null,
       rubataBoardIndex: null,
-      rubataOrder: null,  // Rimuovi ordine
-      rubataReadyMembers: null,
       rubataAuctionReadyInfo: null,
       rubataPendingAck: null,
       rubataTimerStartedAt: null,
@@ -37,11 +35,15 @@ async function main() {
     }
   })
 
+  // Rimuovi tabellone, ordine, pronti e conferme
+  await prisma.rubataBoard.deleteMany({ where: { sessionId: session.id } })
+  await prisma.rubataParticipant.deleteMany({ where: { sessionId: session.id } })
+
   console.log(`\n✅ Sessione resettata:`)
   console.log(`- Fase: ${updated.currentPhase}`)
   console.log(`- rubataState: ${updated.rubataState}`)
-  console.log(`- rubataBoard: ${updated.rubataBoard ? 'presente' : 'da generare'}`)
-  console.log(`- rubataOrder: ${updated.rubataOrder ? 'impostato' : 'da impostare'}`)
+  console.log(`- rubataBoard: ${updated.rubataBoardGeneratedAt ? 'presente' : 'da generare'}`)
+  console.log(`- rubataOrder: da impostare`)
 
   // Reset anche rubataOrder sui membri
   await prisma.leagueMember.updateMany({
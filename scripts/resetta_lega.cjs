@@ -45,13 +45,14 @@ async function resetta_lega(leagueId) {
     ['Auction Appeals', () => prisma.auctionAppeal.deleteMany({ where: { auction: { leagueId } } })],
     ['Offerte aste', () => prisma.auctionBid.deleteMany({ where: { auction: { leagueId } } })],
     ['Aste', () => prisma.auction.deleteMany({ where: { leagueId } })],
+    ['Indemnity Decisions', () => prisma.indemnityDecision.deleteMany({ where: { phase: { session: { leagueId } } } })],
+    ['Indemnity Phases', () => prisma.indemnityPhase.deleteMany({ where: { session: { leagueId } } })],
     ['Draft Contracts', () => prisma.draftContract.deleteMany({ where: { member: { leagueId } } })],
     ['Contratti', () => prisma.playerContract.deleteMany({ where: { leagueMember: { leagueId } } })],
     ['Rose', () => prisma.playerRoster.deleteMany({ where: { leagueMember: { leagueId } } })],
     ['Trade Offers (unlink)', () => prisma.tradeOffer.updateMany({ where: { marketSession: { leagueId }, parentOfferId: { not: null } }, data: { parentOfferId: null } })],
     ['Trade Offers', () => prisma.tradeOffer.deleteMany({ where: { marketSession: { leagueId } } })],
     ['Consolidations', () => prisma.contractConsolidation.deleteMany({ where: { session: { leagueId } } })],
-    ['Indemnity Decisions', () => prisma.indemnityDecision.deleteMany({ where: { session: { leagueId } } })],
     ['Session Prizes', () => prisma.sessionPrize.deleteMany({ where: { prizeCategory: { marketSession: { leagueId } } } })],
     ['Prize Categories', () => prisma.prizeCategory.deleteMany({ where: { marketSession: { leagueId } } })],
     ['Prize Phase Configs', () => prisma.prizePhaseConfig.deleteMany({ where: { marketSession: { leagueId } } })],
@@ -22,11 +22,15 @@ async function main() {
   const updated = await prisma.marketSession.update({
     where: { id: session.id },
     data: {
-      rubataState: 'WAITING',
-      rubataReadyMembers: null
+      rubataState: 'WAITING'
     }
   })
 
+  await prisma.rubataParticipant.updateMany({
+    where: { sessionId: session.id },
+    data: { isReady: false, readyAt: null }
+  })
+
   console.log(`Nuovo stato: ${updated.rubataState}`)
 }
 main().finally(() => prisma.$disconnect())
@@ -24,9 +24,10 @@ async function main() {
     await prisma.prizeCategory.deleteMany({ where: { marketSession: { leagueId: 'test-league-indemnity' } } })
     await prisma.prizePhaseConfig.deleteMany({ where: { marketSession: { leagueId: 'test-league-indemnity' } } })
     await prisma.playerMovement.deleteMany({ where: { leagueId: 'test-league-indemnity' } })
+    await prisma.indemnityDecision.deleteMany({ where: { phase: { session: { leagueId: 'test-league-indemnity' } } } })
+    await prisma.indemnityPhase.deleteMany({ where: { session: { leagueId: 'test-league-indemnity' } } })
     await prisma.playerContract.deleteMany({ where: { leagueMember: { leagueId: 'test-league-indemnity' } } })
     await prisma.playerRoster.deleteMany({ where: { leagueMember: { leagueId: 'test-league-indemnity' } } })
-    await prisma.indemnityDecision.deleteMany({ where: { session: { leagueId: 'test-league-indemnity' } } })
     await prisma.marketSession.deleteMany({ where: { leagueId: 'test-league-indemnity' } })
     await prisma.leagueMember.deleteMany({ where: { leagueId: 'test-league-indemnity' } })
     await prisma.league.deleteMany({ where: { id: 'test-league-indemnity' } })
@@ -31,14 +31,17 @@ const AdminPanel = lazy(() => import('./pages/AdminPanel').then(m => ({ default:
 const Movements = lazy(() => import('./pages/Movements').then(m => ({ default: m.Movements })))
 const History = lazy(() => import('./pages/History').then(m => ({ default: m.History })))
 const Prophecies = lazy(() => import('./pages/Prophecies').then(m => ({ default: m.Prophecies })))
+const Matchdays = lazy(() => import('./pages/Matchdays').then(m => ({ default: m.Matchdays })))
 const PlayerStats = lazy(() => import('./pages/PlayerStats'))
 const LeagueFinancials = lazy(() => import('./pages/LeagueFinancials'))
 const SuperAdmin = lazy(() => import('./pages/SuperAdmin').then(m => ({ default: m.SuperAdmin })))
 const PrizePhasePage = lazy(() => import('./pages/PrizePhasePage').then(m => ({ default: m.PrizePhasePage })))
+const IndemnitySummary = lazy(() => import('./pages/IndemnitySummary').then(m => ({ default: m.IndemnitySummary })))
 const LatencyTest = lazy(() => import('./pages/LatencyTest'))
 const ApiFootballTest = lazy(() => import('./pages/ApiFootballTest'))
 const ForgotPassword = lazy(() => import('./pages/ForgotPassword').then(m => ({ default: m.ForgotPassword })))
 const ResetPassword = lazy(() => import('./pages/ResetPassword').then(m => ({ default: m.ResetPassword })))
+const VerifyEmail = lazy(() => import('./pages/VerifyEmail').then(m => ({ default: m.VerifyEmail })))
 const InviteDetail = lazy(() => import('./pages/InviteDetail').then(m => ({ default: m.InviteDetail })))
 const Rules = lazy(() => import('./pages/Rules').then(m => ({ default: m.Rules })))
 const PatchNotes = lazy(() => import('./pages/PatchNotes').then(m => ({ default: m.PatchNotes })))
@@ -188,6 +191,7 @@ function createLeagueNavigator(navigate: ReturnType<typeof useNavigate>, leagueI
       case 'strategie-rubata': void navigate(`/leagues/${lid}/strategie-rubata`); break
       case 'svincolati': void navigate(`/leagues/${lid}/svincolati`); break
       case 'prizes': void navigate(`/leagues/${lid}/prizes`); break
+      case 'indemnities': void navigate(`/leagues/${lid}/indemnities`); break
       case 'allPlayers':
         if (params?.team) void navigate(`/leagues/${lid}/players?team=${encodeURIComponent(params.team)}`)
         else void navigate(`/leagues/${lid}/players`)
@@ -201,9 +205,12 @@ function createLeagueNavigator(navigate: ReturnType<typeof useNavigate>, leagueI
       case 'movements': void navigate(`/leagues/${lid}/movements`); break
       case 'history': void navigate(`/leagues/${lid}/history`); break
       case 'prophecies': void navigate(`/leagues/${lid}/prophecies`); break
+      case 'matchdays': void navigate(`/leagues/${lid}/matchdays`); break
       case 'playerStats': void navigate(`/leagues/${lid}/stats`); break
       case 'financials': void navigate(`/leagues/${lid}/financials`); break
       case 'patchNotes': void navigate(`/leagues/${lid}/patch-notes`); break
+      // Regolamento con i numeri della lega corrente (se presente)
+      case 'rules': void navigate(lid ? `/rules?leagueId=${lid}` : '/rules'); break
       case 'feedbackHub':
         if (params?.feedbackId) void navigate(`/leagues/${lid}/feedback?id=${params.feedbackId}`)
         else void navigate(`/leagues/${lid}/feedback`)
@@ -351,6 +358,15 @@ function PrizePhasePageWrapper() {
   return <PrizePhasePage leagueId={leagueId} onNavigate={onNavigate} />
 }
 
+function IndemnitySummaryWrapper() {
+  const navigate = useNavigate()
+  const { leagueId } = useParams<{ leagueId: string }>()
+  const onNavigate = useCallback(createLeagueNavigator(navigate, leagueId), [navigate, leagueId])
+
+  if (!leagueId) return <Navigate to="/dashboard" replace />
+  return <IndemnitySummary leagueId={leagueId} onNavigate={onNavigate} />
+}
+
 function PropheciesWrapper() {
   const navigate = useNavigate()
   const { leagueId } = useParams<{ leagueId: string }>()
@@ -360,6 +376,15 @@ function PropheciesWrapper() {
   return <Prophecies leagueId={leagueId} onNavigate={onNavigate} />
 }
 
+function MatchdaysWrapper() {
+  const navigate = useNavigate()
+  const { leagueId } = useParams<{ leagueId: string }>()
+  const onNavigate = useCallback(createLeagueNavigator(navigate, leagueId), [navigate, leagueId])
+
+  if (!leagueId) return <Navigate to="/dashboard" replace />
+  return <Matchdays leagueId={leagueId} onNavigate={onNavigate} />
+}
+
 function PlayerStatsWrapper() {
   const navigate = useNavigate()
   const { leagueId } = useParams<{ leagueId: string }>()
@@ -445,6 +470,11 @@ function AppRoutes() {
           <ResetPassword />
         </Suspense>
       } />
+      <Route path="/verify-email" element={
+        <Suspense fallback={<PageLoader />}>
+          <VerifyEmail />
+        </Suspense>
+      } />
       <Route path="/test-latency" element={
         <Suspense fallback={<PageLoader />}>
           <LatencyTest />
@@ -582,6 +612,13 @@ function AppRoutes() {
           </Suspense>
         </ProtectedRoute>
       } />
+      <Route path="/leagues/:leagueId/matchdays" element={
+        <ProtectedRoute>
+          <Suspense fallback={<PageLoader />}>
+            <MatchdaysWrapper />
+          </Suspense>
+        </ProtectedRoute>
+      } />
       <Route path="/leagues/:leagueId/stats" element={
         <ProtectedRoute>
           <Suspense fallback={<PageLoader />}>
@@ -603,6 +640,13 @@ function AppRoutes() {
           </Suspense>
         </ProtectedRoute>
       } />
+      <Route path="/leagues/:leagueId/indemnities" element={
+        <ProtectedRoute>
+          <Suspense fallback={<PageLoader />}>
+            <IndemnitySummaryWrapper />
+          </Suspense>
+        </ProtectedRoute>
+      } />
       <Route path="/leagues/:leagueId/patch-notes" element={
         <ProtectedRoute>
           <Suspense fallback={<PageLoader />}>
@@ -70,6 +70,7 @@ let capturedPhasesProps: Record<string, unknown> = {}
 let capturedMembersProps: Record<string, unknown> = {}
 let capturedRequestsProps: Record<string, unknown> = {}
 let capturedExportProps: Record<string, unknown> = {}
+let capturedRulesProps: Record<string, unknown> = {}
 
 // Mock lazy-loaded tab components
 vi.mock('../components/admin/AdminPhasesTab', () => ({
@@ -104,6 +105,13 @@ vi.mock('../components/admin/AdminExportTab', () => ({
   },
 }))
 
+vi.mock('../components/admin/AdminContractRulesTab', () => ({
+  AdminContractRulesTab: (props: Record<string, unknown>) => {
+    capturedRulesProps = props
+    return <div data-testid="rules-tab">Rules Tab</div>
+  },
+}))
+
 // Mock API
 const mockGetById = vi.fn()
 const mockGetMembers = vi.fn()
@@ -112,6 +120,7 @@ const mockGetPending = vi.fn()
 const mockGetAllConsolidationStatus = vi.fn()
 const mockGetAppeals = vi.fn()
 const mockUpdateMember = vi.fn()
+const mockLeagueUpdate = vi.fn()
 const mockLeagueStart = vi.fn()
 const mockCreateSession = vi.fn()
 const mockCloseSession = vi.fn()
@@ -123,13 +132,18 @@ const mockExportRosters = vi.fn()
 const mockInviteCreate = vi.fn()
 const mockInviteCancel = vi.fn()
 const mockSimulateAllConsolidation = vi.fn()
+const mockGetContractRules = vi.fn()
+const mockUpdateContractRules = vi.fn()
 
 vi.mock('../services/api', () => ({
   leagueApi: {
     getById: (...args: unknown[]) => mockGetById(...args),
     getMembers: (...args: unknown[]) => mockGetMembers(...args),
     updateMember: (...args: unknown[]) => mockUpdateMember(...args),
+    update: (...args: unknown[]) => mockLeagueUpdate(...args),
     start: (...args: unknown[]) => mockLeagueStart(...args),
+    getContractRules: (...args: unknown[]) => mockGetContractRules(...args),
+    updateContractRules: (...args: unknown[]) => mockUpdateContractRules(...args),
   },
   auctionApi: {
     getSessions: (...args: unknown[]) => mockGetSessions(...args),
@@ -193,6 +207,7 @@ describe('AdminPanel', () => {
     capturedMembersProps = {}
     capturedRequestsProps = {}
     capturedExportProps = {}
+    capturedRulesProps = {}
 
     mockGetById.mockResolvedValue({
       success: true,
@@ -219,6 +234,7 @@ describe('AdminPanel', () => {
       data: { appeals: [] },
     })
     mockUpdateMember.mockResolvedValue({ success: true })
+    mockLeagueUpdate.mockResolvedValue({ success: true })
     mockLeagueStart.mockResolvedValue({ success: true })
     mockCreateSession.mockResolvedValue({ success: true })
     mockCloseSession.mockResolvedValue({ success: true })
@@ -504,6 +520,30 @@ describe('AdminPanel', () => {
     expect(invites).toHaveLength(1) // sampleInvites has 1
   })
 
+  it('toggles the verified email requirement from AdminRequestsTab', async () => {
+    const user = userEvent.setup()
+    render(<AdminPanel leagueId="league1" onNavigate={mockOnNavigate} />)
+
+    await waitFor(() => {
+      expect(screen.getByText('Richieste')).toBeInTheDocument()
+    })
+
+    await user.click(screen.getByText('Richieste'))
+
+    await waitFor(() => {
+      expect(screen.getByTestId('requests-tab')).toBeInTheDocument()
+    })
+    expect(capturedRequestsProps.requireVerifiedEmail).toBe(false)
+
+    const handleToggle = capturedRequestsProps.handleToggleVerifiedEmail as (value: boolean) => void
+    handleToggle(true)
+
+    await waitFor(() => {
+      expect(mockLeagueUpdate).toHaveBeenCalledWith('league1', { requireVerifiedEmail: true })
+      expect(capturedRequestsProps.requireVerifiedEmail).toBe(true)
+    })
+  })
+
   it('loads appeals when switching to members tab', async () => {
     const user = userEvent.setup()
     render(<AdminPanel leagueId="league1" onNavigate={mockOnNavigate} />)
@@ -683,6 +723,49 @@ describe('AdminPanel', () => {
     })
   })
 
+  it('loads contract rules when the rules tab is opened and saves changes', async () => {
+    const rules = {
+      durationMultipliers: { 4: 11, 3: 9, 2: 7, 1: 3 },
+      maxDuration: 4,
+      minSalaryPercent: 10,
+      defaultSalaryPercent: 10,
+      defaultDuration: 3,
+      releaseCostPercent: 50,
+      maxRosterSize: 29,
+    }
+    mockGetContractRules.mockResolvedValue({ success: true, data: { rules, isCustom: false } })
+    mockUpdateContractRules.mockResolvedValue({
+      success: true,
+      message: 'Regole contrattuali aggiornate',
+      data: { rules: { ...rules, maxRosterSize: 30 }, isCustom: true },
+    })
+    const user = userEvent.setup()
+    render(<AdminPanel leagueId="league1" onNavigate={mockOnNavigate} />)
+
+    await waitFor(() => {
+      expect(screen.getByText('Regole Contratti')).toBeInTheDocument()
+    })
+    expect(mockGetContractRules).not.toHaveBeenCalled()
+
+    await user.click(screen.getByText('Regole Contratti'))
+
+    await waitFor(() => {
+      expect(capturedRulesProps.rules).toEqual(rules)
+    })
+    expect(mockGetContractRules).toHaveBeenCalledWith('league1')
+    expect(capturedRulesProps.isCustom).toBe(false)
+    expect(capturedRulesProps.rosterSlots).toBe(25)
+
+    const handleSaveRules = capturedRulesProps.handleSaveRules as (r: typeof rules) => void
+    handleSaveRules({ ...rules, maxRosterSize: 30 })
+
+    await waitFor(() => {
+      expect(screen.getByText('Regole contrattuali aggiornate')).toBeInTheDocument()
+    })
+    expect(mockUpdateContractRules).toHaveBeenCalledWith('league1', { ...rules, maxRosterSize: 30 })
+    expect(capturedRulesProps.isCustom).toBe(true)
+  })
+
   it('handles export tab props are passed correctly', async () => {
     const user = userEvent.setup()
     render(<AdminPanel leagueId="league1" onNavigate={mockOnNavigate} />)
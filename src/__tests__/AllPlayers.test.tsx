@@ -66,6 +66,12 @@ const mockGetAllRosters = vi.fn()
 const mockGetAllPlayers = vi.fn()
 
 vi.mock('../services/api', () => ({
+  watchlistApi: {
+    get: vi.fn().mockResolvedValue({ success: true, data: { categories: [], entries: [] } }),
+    addEntry: vi.fn(),
+    removeEntry: vi.fn(),
+    createCategory: vi.fn(),
+  },
   playerApi: {
     getAll: (...args: unknown[]) => mockGetAllPlayers(...args),
   },
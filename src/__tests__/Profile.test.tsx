@@ -4,7 +4,7 @@ import userEvent from '@testing-library/user-event'
 import { Profile } from '../pages/Profile'
 
 // Import mocked APIs so we can control them
-import { userApi } from '../services/api'
+import { authApi, userApi } from '../services/api'
 
 // Mock useAuth hook
 vi.mock('../hooks/useAuth', () => ({
@@ -20,6 +20,38 @@ vi.mock('../hooks/useAuth', () => ({
 
 // Mock APIs
 vi.mock('../services/api', () => ({
+  authApi: {
+    resendVerification: vi.fn(),
+    getTwoFactorStatus: vi.fn().mockResolvedValue({
+      success: true,
+      data: { enabled: false, enabledAt: null, required: false, recoveryCodesRemaining: 0, trustedDevices: 0 },
+    }),
+    getSessions: vi.fn().mockResolvedValue({
+      success: true,
+      data: [
+        {
+          id: 'family-current',
+          device: 'Chrome su Windows',
+          userAgent: 'Mozilla/5.0',
+          ipAddress: '10.0.0.1',
+          lastUsedAt: '2026-10-18T10:00:00Z',
+          createdAt: '2026-10-10T10:00:00Z',
+          current: true,
+        },
+        {
+          id: 'family-other',
+          device: 'Safari su iOS',
+          userAgent: 'Mozilla/5.0',
+          ipAddress: '10.0.0.2',
+          lastUsedAt: '2026-10-17T10:00:00Z',
+          createdAt: '2026-10-01T10:00:00Z',
+          current: false,
+        },
+      ],
+    }),
+    revokeSession: vi.fn(),
+    revokeOtherSessions: vi.fn(),
+  },
   userApi: {
     getProfile: vi.fn(),
     updateProfile: vi.fn(),
@@ -377,4 +409,35 @@ describe('Profile Page', () => {
       expect(screen.getByText('Notifiche')).toBeInTheDocument()
     })
   })
+
+  it('lists active sessions and marks the current device', async () => {
+    render(<Profile onNavigate={mockOnNavigate} />)
+
+    await waitFor(() => {
+      expect(screen.getByText('Sessioni attive')).toBeInTheDocument()
+    })
+
+    expect(screen.getByText('Chrome su Windows')).toBeInTheDocument()
+    expect(screen.getByText('Safari su iOS')).toBeInTheDocument()
+    expect(screen.getByText('Questo dispositivo')).toBeInTheDocument()
+    // Only the other session can be revoked from here
+    expect(screen.getAllByRole('button', { name: 'Revoca' })).toHaveLength(1)
+  })
+
+  it('revokes another session', async () => {
+    vi.mocked(authApi.revokeSession).mockResolvedValue({ success: true, message: 'Sessione revocata' })
+    const user = userEvent.setup()
+    render(<Profile onNavigate={mockOnNavigate} />)
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Revoca' })).toBeInTheDocument()
+    })
+
+    await user.click(screen.getByRole('button', { name: 'Revoca' }))
+
+    await waitFor(() => {
+      expect(authApi.revokeSession).toHaveBeenCalledWith('family-other')
+    })
+    expect(await screen.findByText('Sessione revocata')).toBeInTheDocument()
+  })
 })
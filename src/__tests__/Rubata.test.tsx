@@ -127,6 +127,10 @@ vi.mock('../components/rubata/RubataActivityFeed', () => ({
   RubataActivityFeed: () => <div data-testid="rubata-activity-feed">ActivityFeed</div>,
 }))
 
+vi.mock('../components/chat/SessionChat', () => ({
+  SessionChat: () => <div data-testid="session-chat">SessionChat</div>,
+}))
+
 vi.mock('../components/rubata/RubataBidPanel', () => ({
   RubataBidPanel: () => <div data-testid="rubata-bid-panel">BidPanel</div>,
 }))
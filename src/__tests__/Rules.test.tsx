@@ -1,11 +1,20 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { render, screen } from '@testing-library/react'
+import { render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 
 // Mock react-router-dom
 const mockNavigate = vi.fn()
+let mockSearchParams = new URLSearchParams()
 vi.mock('react-router-dom', () => ({
   useNavigate: () => mockNavigate,
+  useSearchParams: () => [mockSearchParams],
+}))
+
+const mockGetContractRules = vi.fn()
+vi.mock('../services/api', () => ({
+  leagueApi: {
+    getContractRules: (...args: unknown[]) => mockGetContractRules(...args),
+  },
 }))
 
 // Control isAuthenticated per test
@@ -25,6 +34,7 @@ describe('Rules Page', () => {
   beforeEach(() => {
     vi.clearAllMocks()
     mockIsAuthenticated = true
+    mockSearchParams = new URLSearchParams()
   })
 
   it('renders without crashing', () => {
@@ -63,7 +73,38 @@ describe('Rules Page', () => {
     expect(screen.getByText(/×11/)).toBeInTheDocument()
     expect(screen.getByText(/×9/)).toBeInTheDocument()
     expect(screen.getByText(/×7/)).toBeInTheDocument()
-    expect(screen.getByText(/×4/)).toBeInTheDocument()
+    expect(screen.getByText(/×3/)).toBeInTheDocument()
+    expect(mockGetContractRules).not.toHaveBeenCalled()
+  })
+
+  it('renders the league contract ruleset when leagueId is provided', async () => {
+    mockSearchParams = new URLSearchParams('leagueId=league-1')
+    mockGetContractRules.mockResolvedValue({
+      success: true,
+      data: {
+        rules: {
+          durationMultipliers: { 5: 15, 4: 12, 3: 10, 2: 8, 1: 5 },
+          maxDuration: 5,
+          minSalaryPercent: 10,
+          defaultSalaryPercent: 10,
+          defaultDuration: 3,
+          releaseCostPercent: 100,
+          maxRosterSize: 30,
+        },
+        isCustom: true,
+      },
+    })
+
+    render(<Rules />)
+
+    await waitFor(() => {
+      expect(screen.getByText(/×15/)).toBeInTheDocument()
+    })
+    expect(mockGetContractRules).toHaveBeenCalledWith('league-1')
+    expect(screen.getByText(/×12/)).toBeInTheDocument()
+    expect(screen.queryByText(/×11/)).not.toBeInTheDocument()
+    expect(screen.getByText(/valori della tua lega/)).toBeInTheDocument()
+    expect(screen.getByText('Ingaggio × Durata residua')).toBeInTheDocument()
   })
 
   it('shows "Vai alla Dashboard" for authenticated users', () => {
@@ -80,6 +80,12 @@ const mockGetAllSvincolatiForStrategies = vi.fn()
 const mockSetPreference = vi.fn()
 
 vi.mock('../services/api', () => ({
+  watchlistApi: {
+    get: vi.fn().mockResolvedValue({ success: true, data: { categories: [], entries: [] } }),
+    addEntry: vi.fn(),
+    removeEntry: vi.fn(),
+    createCategory: vi.fn(),
+  },
   rubataApi: {
     getAllPlayersForStrategies: (...args: unknown[]) => mockGetAllPlayersForStrategies(...args),
     getAllSvincolatiForStrategies: (...args: unknown[]) => mockGetAllSvincolatiForStrategies(...args),
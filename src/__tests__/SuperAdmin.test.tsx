@@ -58,10 +58,13 @@ const mockGetApiFootballStatus = vi.fn()
 const mockGetMatchProposals = vi.fn()
 const mockGetMatchedPlayers = vi.fn()
 const mockGetTeams = vi.fn()
+const mockGetQuotationMovers = vi.fn()
 const mockDeleteAllPlayers = vi.fn()
 const mockImportQuotazioni = vi.fn()
+const mockRollbackLastUpload = vi.fn()
 const mockGetMemberRoster = vi.fn()
 const mockClassifyExitedPlayers = vi.fn()
+const mockGetExitProposals = vi.fn()
 const mockConfirmMatch = vi.fn()
 const mockRemoveMatch = vi.fn()
 const mockRefreshApiFootballCache = vi.fn()
@@ -76,6 +79,7 @@ vi.mock('../services/api', () => ({
     getUsers: (...args: unknown[]) => mockGetUsers(...args),
     getPlayersNeedingClassification: (...args: unknown[]) => mockGetPlayersNeedingClassification(...args),
     importQuotazioni: (...args: unknown[]) => mockImportQuotazioni(...args),
+    rollbackLastUpload: (...args: unknown[]) => mockRollbackLastUpload(...args),
     deleteAllPlayers: (...args: unknown[]) => mockDeleteAllPlayers(...args),
     getApiFootballStatus: (...args: unknown[]) => mockGetApiFootballStatus(...args),
     getMatchProposals: (...args: unknown[]) => mockGetMatchProposals(...args),
@@ -85,11 +89,13 @@ vi.mock('../services/api', () => ({
     getMatchedPlayers: (...args: unknown[]) => mockGetMatchedPlayers(...args),
     removeMatch: (...args: unknown[]) => mockRemoveMatch(...args),
     classifyExitedPlayers: (...args: unknown[]) => mockClassifyExitedPlayers(...args),
+    getExitProposals: (...args: unknown[]) => mockGetExitProposals(...args),
     getMemberRoster: (...args: unknown[]) => mockGetMemberRoster(...args),
     setAdmin: vi.fn().mockResolvedValue({ success: true }),
   },
   playerApi: {
     getTeams: (...args: unknown[]) => mockGetTeams(...args),
+    getQuotationMovers: (...args: unknown[]) => mockGetQuotationMovers(...args),
   },
 }))
 
@@ -194,10 +200,15 @@ describe('SuperAdmin', () => {
       success: true,
       data: [],
     })
+    mockGetQuotationMovers.mockResolvedValue({
+      success: true,
+      data: { latestUpload: null, previousUpload: null, risers: [], fallers: [] },
+    })
     mockDeleteAllPlayers.mockResolvedValue({ success: true, message: 'Giocatori eliminati' })
     mockImportQuotazioni.mockResolvedValue({ success: true, message: 'Importazione completata' })
     mockGetMemberRoster.mockResolvedValue({ success: true, data: null })
     mockClassifyExitedPlayers.mockResolvedValue({ success: true })
+    mockGetExitProposals.mockResolvedValue({ success: true, data: { proposals: [], lookedUp: 0, skipped: 0, apiCallsUsed: 0 } })
     mockConfirmMatch.mockResolvedValue({ success: true })
     mockRemoveMatch.mockResolvedValue({ success: true })
     mockRefreshApiFootballCache.mockResolvedValue({ success: true })
@@ -419,6 +430,26 @@ describe('SuperAdmin', () => {
     expect(screen.getByText('(160 totali)')).toBeInTheDocument()
   })
 
+  it('rolls back the last upload after confirmation', async () => {
+    const user = userEvent.setup()
+    mockGetUploadHistory.mockResolvedValue({
+      success: true,
+      data: { uploads: sampleUploadHistory, rollbackUploadId: 'up1' },
+    })
+    mockRollbackLastUpload.mockResolvedValue({ success: true, message: 'Caricamento "quotazioni.xlsx" annullato' })
+
+    render(<SuperAdmin onNavigate={mockOnNavigate} />)
+
+    await user.click(await screen.findByText('Annulla caricamento'))
+    expect(mockRollbackLastUpload).not.toHaveBeenCalled()
+    await user.click(screen.getByText('Conferma'))
+
+    await waitFor(() => {
+      expect(screen.getByText('Caricamento "quotazioni.xlsx" annullato')).toBeInTheDocument()
+    })
+    expect(mockRollbackLastUpload).toHaveBeenCalledTimes(1)
+  })
+
   it('displays "no upload history" message when history is empty', async () => {
     mockGetUploadHistory.mockResolvedValue({
       success: true,
@@ -1062,6 +1093,46 @@ describe('SuperAdmin', () => {
     expect(screen.getByText('Annulla')).toBeInTheDocument()
   })
 
+  it('shows automatic proposals and preselects the confident ones', async () => {
+    const user = userEvent.setup()
+    mockGetPlayersNeedingClassification.mockResolvedValue({
+      success: true,
+      data: {
+        players: [
+          { playerId: 'ep1', playerName: 'Carlo Verdi', position: 'A', team: 'Torino', lastQuotation: 20, contracts: [] },
+        ],
+      },
+    })
+    mockGetExitProposals.mockResolvedValue({
+      success: true,
+      data: {
+        proposals: [
+          { playerId: 'ep1', apiFootballId: 101, exitReason: 'ESTERO', confidence: 90, evidence: ['Gioca con Galatasaray (Süper Lig, Turkey)'] },
+        ],
+        lookedUp: 0,
+        skipped: 0,
+        apiCallsUsed: 0,
+      },
+    })
+
+    render(<SuperAdmin onNavigate={mockOnNavigate} />)
+
+    await waitFor(() => {
+      expect(screen.getByText('Classifica (1)')).toBeInTheDocument()
+    })
+    await user.click(screen.getByText('Classifica (1)'))
+
+    await waitFor(() => {
+      expect(screen.getByText('ESTERO · 90%')).toBeInTheDocument()
+    })
+    expect(mockGetExitProposals).toHaveBeenCalledWith(false)
+    expect(screen.getByText('Gioca con Galatasaray (Süper Lig, Turkey)')).toBeInTheDocument()
+    expect(screen.getByDisplayValue('Estero')).toBeInTheDocument()
+
+    await user.click(screen.getByText('Cerca club su API-Football'))
+    expect(mockGetExitProposals).toHaveBeenCalledWith(true)
+  })
+
   it('advances to confirm step from classification modal', async () => {
     const user = userEvent.setup()
     mockGetPlayersNeedingClassification.mockResolvedValue({
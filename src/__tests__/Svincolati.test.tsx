@@ -52,6 +52,10 @@ vi.mock('../components/ContractModifier', () => ({
   ContractModifierModal: () => <div data-testid="contract-modifier-modal">ContractModifier</div>,
 }))
 
+vi.mock('../components/chat/SessionChat', () => ({
+  SessionChat: () => <div data-testid="session-chat">SessionChat</div>,
+}))
+
 // Mock dnd-kit
 vi.mock('@dnd-kit/core', () => ({
   DndContext: ({ children }: { children: React.ReactNode }) => <div data-testid="dnd-context">{children}</div>,
@@ -104,6 +108,12 @@ vi.mock('../services/pusher.client', () => ({
 
 // Mock API
 vi.mock('../services/api', () => ({
+  watchlistApi: {
+    get: vi.fn().mockResolvedValue({ success: true, data: { categories: [], entries: [] } }),
+    addEntry: vi.fn(),
+    removeEntry: vi.fn(),
+    createCategory: vi.fn(),
+  },
   svincolatiApi: {
     getBoard: vi.fn().mockResolvedValue({ success: true, data: null }),
     getFreeAgents: vi.fn().mockResolvedValue({ success: true, data: [] }),
@@ -113,6 +113,7 @@ const mockGetReceived = vi.fn()
 const mockGetSent = vi.fn()
 const mockGetHistory = vi.fn()
 const mockGetOngoingIndicator = vi.fn()
+const mockGetMultiParty = vi.fn()
 const mockCreate = vi.fn()
 const mockAcceptTrade = vi.fn()
 const mockRejectTrade = vi.fn()
@@ -135,6 +136,7 @@ vi.mock('../services/api', () => ({
     reject: (...args: unknown[]) => mockRejectTrade(...args),
     cancel: (...args: unknown[]) => mockCancelTrade(...args),
     getOngoingIndicator: (...args: unknown[]) => mockGetOngoingIndicator(...args),
+    getMultiParty: (...args: unknown[]) => mockGetMultiParty(...args),
   },
   auctionApi: {
     getRoster: (...args: unknown[]) => mockGetRoster(...args),
@@ -164,6 +166,7 @@ function setupDefaultMocks() {
   mockGetSent.mockResolvedValue({ success: true, data: [] })
   mockGetHistory.mockResolvedValue({ success: true, data: [] })
   mockGetOngoingIndicator.mockResolvedValue({ success: true, data: { count: 0, pairs: [] } })
+  mockGetMultiParty.mockResolvedValue({ success: true, data: [] })
   mockGetMembers.mockResolvedValue({
     success: true,
     data: {
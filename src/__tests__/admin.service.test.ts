@@ -39,6 +39,7 @@ const { mockPrisma, MockPrismaClient } = vi.hoisted(() => {
     },
     marketSession: {
       findFirst: vi.fn(),
+      findUnique: vi.fn(),
       update: vi.fn(),
     },
     auctionAppeal: {
@@ -107,6 +108,7 @@ vi.mock('bcryptjs', () => ({
 
 // Import after mocking
 import * as adminService from '../services/admin.service'
+import { runWithRequestContext, type RequestContext } from '../shared/infrastructure/http/request-context'
 
 describe('Admin Service', () => {
   beforeEach(() => {
@@ -218,6 +220,33 @@ describe('Admin Service', () => {
         })
       )
     })
+
+    it('filters audit logs by actor, entity type, phase and date range', async () => {
+      mockPrisma.leagueMember.findFirst.mockResolvedValue({ id: 'admin-1', role: 'ADMIN' })
+      mockPrisma.auditLog.findMany.mockResolvedValue([])
+      const from = new Date('2026-10-01T00:00:00Z')
+      const to = new Date('2026-10-18T23:59:59Z')
+
+      await adminService.getAuditLog('league-1', 'admin-user', {
+        userId: 'user-2',
+        entityType: 'MarketSession',
+        phase: 'RUBATA',
+        from,
+        to,
+      })
+
+      expect(mockPrisma.auditLog.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            leagueId: 'league-1',
+            userId: 'user-2',
+            entityType: 'MarketSession',
+            phase: 'RUBATA',
+            createdAt: { gte: from, lte: to },
+          },
+        })
+      )
+    })
   })
 
   // ==================== logAction ====================
@@ -239,6 +268,42 @@ describe('Admin Service', () => {
       })
     })
 
+    it('records phase, IP and user agent of the current request', async () => {
+      mockPrisma.marketSession.findFirst.mockResolvedValue({ currentPhase: 'PREMI' })
+      mockPrisma.auditLog.create.mockResolvedValue({})
+      const context: RequestContext = { ipAddress: '10.0.0.1', userAgent: 'Mozilla/5.0', auditLogged: false }
+
+      await runWithRequestContext(context, () =>
+        adminService.logAction('user-1', 'league-1', 'PRIZE_CORRECTION', 'PrizeCategory', 'cat-1', { amount: 5 }, { amount: 8 })
+      )
+
+      expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          oldValues: { amount: 5 },
+          newValues: { amount: 8 },
+          phase: 'PREMI',
+          ipAddress: '10.0.0.1',
+          userAgent: 'Mozilla/5.0',
+        }),
+      })
+      expect(context.auditLogged).toBe(true)
+    })
+
+    it('resolves league and entity of admin routes from URL params', async () => {
+      mockPrisma.marketSession.findUnique.mockResolvedValue({ leagueId: 'league-1' })
+
+      await expect(adminService.resolveAuditTarget({ sessionId: 'session-1' })).resolves.toEqual({
+        leagueId: 'league-1',
+        entityType: 'MarketSession',
+        entityId: 'session-1',
+      })
+      await expect(adminService.resolveAuditTarget({ id: 'league-2', memberId: 'member-1' })).resolves.toEqual({
+        leagueId: 'league-2',
+        entityType: 'LeagueMember',
+        entityId: 'member-1',
+      })
+    })
+
     it('silently handles errors without throwing', async () => {
       mockPrisma.auditLog.create.mockRejectedValue(new Error('DB error'))
 
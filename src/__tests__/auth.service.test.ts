@@ -29,8 +29,10 @@ const { mockHashPassword, mockVerifyPassword } = vi.hoisted(() => ({
   mockVerifyPassword: vi.fn(),
 }))
 
-const { mockGenerateTokens } = vi.hoisted(() => ({
+const { mockGenerateTokens, mockGenerateChallengeToken, mockResolveTwoFactorStep } = vi.hoisted(() => ({
   mockGenerateTokens: vi.fn(),
+  mockGenerateChallengeToken: vi.fn(),
+  mockResolveTwoFactorStep: vi.fn(),
 }))
 
 // Mock Prisma
@@ -47,6 +49,12 @@ vi.mock('../utils/password', () => ({
 // Mock JWT utils
 vi.mock('../utils/jwt', () => ({
   generateTokens: mockGenerateTokens,
+  generateTwoFactorChallengeToken: mockGenerateChallengeToken,
+}))
+
+// Mock two-factor step (no second factor unless a test says otherwise)
+vi.mock('../services/two-factor.service', () => ({
+  resolveLoginTwoFactorStep: mockResolveTwoFactorStep,
 }))
 
 // Import after mocking
@@ -325,6 +333,38 @@ describe('Auth Service', () => {
       })
     })
 
+    it('returns a two-factor challenge instead of tokens when a code is required', async () => {
+      const user = {
+        id: 'user-1',
+        email: 'user@test.it',
+        username: 'testuser',
+        passwordHash: 'correct-hash',
+        lockedUntil: null,
+        failedLoginAttempts: 0,
+        isSuperAdmin: true,
+        twoFactorEnabledAt: new Date('2026-01-01'),
+      }
+      mockPrisma.user.findFirst.mockResolvedValue(user)
+      mockVerifyPassword.mockResolvedValue(true)
+      mockResolveTwoFactorStep.mockResolvedValueOnce('VERIFY')
+      mockGenerateChallengeToken.mockReturnValue('challenge-123')
+
+      const result = await authService.loginUser(
+        { emailOrUsername: 'testuser', password: 'CorrectPassword1!' },
+        { trustedDeviceToken: 'device-token' }
+      )
+
+      expect(result.success).toBe(true)
+      expect(result.tokens).toBeUndefined()
+      expect(result.twoFactor).toEqual({ step: 'VERIFY', challengeToken: 'challenge-123' })
+      expect(mockResolveTwoFactorStep).toHaveBeenCalledWith(user, 'device-token')
+      expect(mockGenerateChallengeToken).toHaveBeenCalledWith(
+        { userId: 'user-1', email: 'user@test.it', username: 'testuser' },
+        'VERIFY'
+      )
+      expect(mockGenerateTokens).not.toHaveBeenCalled()
+    })
+
     it('does not reset attempts when failedLoginAttempts is 0', async () => {
       mockPrisma.user.findFirst.mockResolvedValue({
         id: 'user-1',
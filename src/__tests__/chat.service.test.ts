@@ -0,0 +1,329 @@
+/**
+ * chat.service.test.ts - Unit Tests for Session Chat Service
+ *
+ * Tests for chat history pagination, sending, system messages and admin moderation.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// Hoist mock before imports
+const {
+  mockPrisma,
+  MockPrismaClient,
+  mockLogAction,
+  mockTriggerChatMessage,
+  mockTriggerChatMessageDeleted,
+  mockTriggerChatMuteChanged
+} = vi.hoisted(() => {
+  const mock = {
+    marketSession: {
+      findUnique: vi.fn()
+    },
+    chatMute: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+      deleteMany: vi.fn()
+    },
+    leagueMember: {
+      findFirst: vi.fn()
+    },
+    chatMessage: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      delete: vi.fn()
+    }
+  }
+
+  // Create a proper class constructor
+  const MockClass = function(this: typeof mock) {
+    Object.assign(this, mock)
+  } as unknown as new () => typeof mock
+
+  return {
+    mockPrisma: mock,
+    MockPrismaClient: MockClass,
+    mockLogAction: vi.fn(),
+    mockTriggerChatMessage: vi.fn(),
+    mockTriggerChatMessageDeleted: vi.fn(),
+    mockTriggerChatMuteChanged: vi.fn()
+  }
+})
+
+// Mock Prisma with hoisted mock
+vi.mock('@prisma/client', () => ({
+  PrismaClient: MockPrismaClient,
+  MemberRole: { ADMIN: 'ADMIN', MANAGER: 'MANAGER' },
+  MemberStatus: { ACTIVE: 'ACTIVE' },
+  SessionStatus: { ACTIVE: 'ACTIVE', COMPLETED: 'COMPLETED' }
+}))
+
+vi.mock('../services/admin.service', () => ({
+  logAction: mockLogAction
+}))
+
+vi.mock('../services/pusher.service', () => ({
+  triggerChatMessage: mockTriggerChatMessage,
+  triggerChatMessageDeleted: mockTriggerChatMessageDeleted,
+  triggerChatMuteChanged: mockTriggerChatMuteChanged
+}))
+
+// Import after mocking
+import * as chatService from '../services/chat.service'
+
+const activeSession = { id: 'session-1', leagueId: 'league-1', status: 'ACTIVE' }
+const manager = { id: 'member-1', userId: 'user-1', role: 'MANAGER' }
+const admin = { id: 'member-admin', userId: 'user-admin', role: 'ADMIN' }
+
+function makeMessage(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    marketSessionId: 'session-1',
+    memberId: 'member-1',
+    content: `Messaggio ${id}`,
+    isSystem: false,
+    createdAt: new Date('2026-10-18T10:00:00Z'),
+    member: { id: 'member-1', user: { username: 'mario' } },
+    ...overrides
+  }
+}
+
+describe('Chat Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockLogAction.mockResolvedValue(undefined)
+    mockTriggerChatMessage.mockResolvedValue(true)
+    mockTriggerChatMessageDeleted.mockResolvedValue(true)
+    mockTriggerChatMuteChanged.mockResolvedValue(true)
+    mockPrisma.chatMute.findMany.mockResolvedValue([])
+    mockPrisma.chatMute.findUnique.mockResolvedValue(null)
+  })
+
+  describe('getChatMessages', () => {
+    it('returns error when session not found', async () => {
+      mockPrisma.marketSession.findUnique.mockResolvedValue(null)
+
+      const result = await chatService.getChatMessages('session-1', 'user-1')
+
+      expect(result.success).toBe(false)
+      expect(result.message).toBe('Sessione non trovata')
+    })
+
+    it('returns error when user is not a member', async () => {
+      mockPrisma.marketSession.findUnique.mockResolvedValue(activeSession)
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(null)
+
+      const result = await chatService.getChatMessages('session-1', 'user-1')
+
+      expect(result.success).toBe(false)
+      expect(result.message).toBe('Non sei membro di questa lega')
+    })
+
+    it('returns messages in chronological order with next cursor when more exist', async () => {
+      mockPrisma.marketSession.findUnique.mockResolvedValue(activeSession)
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(manager)
+      // Query ordinata dal più recente: limit 2 + 1 per sapere se ci sono altri messaggi
+      mockPrisma.chatMessage.findMany.mockResolvedValue([
+        makeMessage('m3'),
+        makeMessage('m2'),
+        makeMessage('m1')
+      ])
+
+      const result = await chatService.getChatMessages('session-1', 'user-1', { limit: 2 })
+
+      expect(result.success).toBe(true)
+      const data = result.data as { messages: Array<{ id: string; username: string }>; nextCursor: string | null; isAdmin: boolean }
+      expect(data.messages.map(m => m.id)).toEqual(['m2', 'm3'])
+      expect(data.messages[0]?.username).toBe('mario')
+      expect(data.nextCursor).toBe('m2')
+      expect(data.isAdmin).toBe(false)
+      expect(mockPrisma.chatMessage.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ take: 3, where: { marketSessionId: 'session-1' } })
+      )
+    })
+
+    it('uses the cursor and returns null nextCursor at the end of history', async () => {
+      mockPrisma.marketSession.findUnique.mockResolvedValue(activeSession)
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(manager)
+      mockPrisma.chatMessage.findMany.mockResolvedValue([makeMessage('m1')])
+
+      const result = await chatService.getChatMessages('session-1', 'user-1', { cursor: 'm2', limit: 2 })
+
+      expect(result.success).toBe(true)
+      expect((result.data as { nextCursor: string | null }).nextCursor).toBeNull()
+      expect(mockPrisma.chatMessage.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ cursor: { id: 'm2' }, skip: 1 })
+      )
+    })
+  })
+
+  describe('sendChatMessage', () => {
+    it('rejects messages when the session is not active', async () => {
+      mockPrisma.marketSession.findUnique.mockResolvedValue({ ...activeSession, status: 'COMPLETED' })
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(manager)
+
+      const result = await chatService.sendChatMessage('session-1', 'user-1', 'Ciao')
+
+      expect(result.success).toBe(false)
+      expect(mockPrisma.chatMessage.create).not.toHaveBeenCalled()
+    })
+
+    it('rejects messages from muted members', async () => {
+      mockPrisma.marketSession.findUnique.mockResolvedValue(activeSession)
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(manager)
+      mockPrisma.chatMute.findUnique.mockResolvedValue({ marketSessionId: 'session-1', memberId: 'member-1' })
+
+      const result = await chatService.sendChatMessage('session-1', 'user-1', 'Ciao')
+
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('silenziato')
+      expect(mockPrisma.chatMessage.create).not.toHaveBeenCalled()
+    })
+
+    it('creates the message and broadcasts it via Pusher', async () => {
+      mockPrisma.marketSession.findUnique.mockResolvedValue(activeSession)
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(manager)
+      mockPrisma.chatMessage.create.mockResolvedValue(makeMessage('m1', { content: 'Ciao' }))
+
+      const result = await chatService.sendChatMessage('session-1', 'user-1', '  Ciao  ')
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.chatMessage.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: { marketSessionId: 'session-1', memberId: 'member-1', content: 'Ciao' }
+      }))
+      expect(mockTriggerChatMessage).toHaveBeenCalledWith('session-1', expect.objectContaining({
+        id: 'm1',
+        content: 'Ciao',
+        isSystem: false
+      }))
+    })
+  })
+
+  describe('postSystemMessage', () => {
+    it('creates a system message and broadcasts it', async () => {
+      mockPrisma.chatMessage.create.mockResolvedValue(makeMessage('m1', { isSystem: true, content: 'Asta aperta' }))
+
+      await chatService.postSystemMessage('session-1', 'member-1', 'Asta aperta')
+
+      expect(mockPrisma.chatMessage.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: { marketSessionId: 'session-1', memberId: 'member-1', content: 'Asta aperta', isSystem: true }
+      }))
+      expect(mockTriggerChatMessage).toHaveBeenCalledWith('session-1', expect.objectContaining({ isSystem: true }))
+    })
+
+    it('never throws when the database fails', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      mockPrisma.chatMessage.create.mockRejectedValue(new Error('DB down'))
+
+      await expect(chatService.postSystemMessage('session-1', 'member-1', 'Asta aperta')).resolves.toBeUndefined()
+
+      consoleSpy.mockRestore()
+    })
+  })
+
+  describe('deleteChatMessage', () => {
+    it('rejects non-admin members', async () => {
+      mockPrisma.marketSession.findUnique.mockResolvedValue(activeSession)
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(manager)
+
+      const result = await chatService.deleteChatMessage('session-1', 'm1', 'user-1')
+
+      expect(result.success).toBe(false)
+      expect(result.message).toBe('Non autorizzato')
+      expect(mockPrisma.chatMessage.delete).not.toHaveBeenCalled()
+    })
+
+    it('rejects messages from another session', async () => {
+      mockPrisma.marketSession.findUnique.mockResolvedValue(activeSession)
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(admin)
+      mockPrisma.chatMessage.findUnique.mockResolvedValue(makeMessage('m1', { marketSessionId: 'session-2' }))
+
+      const result = await chatService.deleteChatMessage('session-1', 'm1', 'user-admin')
+
+      expect(result.success).toBe(false)
+      expect(result.message).toBe('Messaggio non trovato')
+    })
+
+    it('deletes the message, logs the action and notifies clients', async () => {
+      mockPrisma.marketSession.findUnique.mockResolvedValue(activeSession)
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(admin)
+      mockPrisma.chatMessage.findUnique.mockResolvedValue(makeMessage('m1', { content: 'Insulto' }))
+      mockPrisma.chatMessage.delete.mockResolvedValue({})
+
+      const result = await chatService.deleteChatMessage('session-1', 'm1', 'user-admin')
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.chatMessage.delete).toHaveBeenCalledWith({ where: { id: 'm1' } })
+      expect(mockLogAction).toHaveBeenCalledWith(
+        'user-admin', 'league-1', 'CHAT_MESSAGE_DELETE', 'ChatMessage', 'm1',
+        expect.objectContaining({ content: 'Insulto', memberId: 'member-1' })
+      )
+      expect(mockTriggerChatMessageDeleted).toHaveBeenCalledWith('session-1', expect.objectContaining({ messageId: 'm1' }))
+    })
+  })
+
+  describe('setChatMute', () => {
+    it('rejects non-admin members', async () => {
+      mockPrisma.marketSession.findUnique.mockResolvedValue(activeSession)
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(manager)
+
+      const result = await chatService.setChatMute('session-1', 'user-1', 'member-2', true)
+
+      expect(result.success).toBe(false)
+      expect(result.message).toBe('Non autorizzato')
+    })
+
+    it('mutes a member, logs the action and broadcasts the change', async () => {
+      mockPrisma.marketSession.findUnique.mockResolvedValue(activeSession)
+      mockPrisma.leagueMember.findFirst
+        .mockResolvedValueOnce(admin)
+        .mockResolvedValueOnce({ id: 'member-1', leagueId: 'league-1' })
+      mockPrisma.chatMute.upsert.mockResolvedValue({})
+      mockPrisma.chatMute.findMany.mockResolvedValue([{ memberId: 'member-1' }])
+
+      const result = await chatService.setChatMute('session-1', 'user-admin', 'member-1', true)
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.chatMute.upsert).toHaveBeenCalledWith({
+        where: { marketSessionId_memberId: { marketSessionId: 'session-1', memberId: 'member-1' } },
+        create: { marketSessionId: 'session-1', memberId: 'member-1' },
+        update: {}
+      })
+      expect(mockLogAction).toHaveBeenCalledWith(
+        'user-admin', 'league-1', 'CHAT_MEMBER_MUTE', 'LeagueMember', 'member-1',
+        { muted: false }, { muted: true }
+      )
+      expect(mockTriggerChatMuteChanged).toHaveBeenCalledWith('session-1', expect.objectContaining({
+        memberId: 'member-1',
+        muted: true,
+        mutedMemberIds: ['member-1']
+      }))
+    })
+
+    it('unmutes a member', async () => {
+      mockPrisma.marketSession.findUnique.mockResolvedValue(activeSession)
+      mockPrisma.leagueMember.findFirst
+        .mockResolvedValueOnce(admin)
+        .mockResolvedValueOnce({ id: 'member-1', leagueId: 'league-1' })
+      mockPrisma.chatMute.findUnique.mockResolvedValue({ marketSessionId: 'session-1', memberId: 'member-1' })
+      mockPrisma.chatMute.deleteMany.mockResolvedValue({ count: 1 })
+      mockPrisma.chatMute.findMany.mockResolvedValue([{ memberId: 'member-2' }])
+
+      const result = await chatService.setChatMute('session-1', 'user-admin', 'member-1', false)
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.chatMute.deleteMany).toHaveBeenCalledWith({
+        where: { marketSessionId: 'session-1', memberId: 'member-1' }
+      })
+      expect((result.data as { mutedMemberIds: string[] }).mutedMemberIds).toEqual(['member-2'])
+      expect(mockLogAction).toHaveBeenCalledWith(
+        'user-admin', 'league-1', 'CHAT_MEMBER_UNMUTE', 'LeagueMember', 'member-1',
+        { muted: true }, { muted: false }
+      )
+      expect(mockTriggerChatMuteChanged).toHaveBeenCalledWith('session-1', expect.objectContaining({ muted: false }))
+    })
+  })
+})
@@ -0,0 +1,211 @@
+/**
+ * compensation.test.ts - Unit Tests for the compensating actions journal
+ *
+ * Tests the before/after snapshot diff, conflict detection in the rollback
+ * preview and the rollback itself (steps applied, audit log, guards).
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mock = {
+    leagueMember: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    playerRoster: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    playerContract: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+      create: vi.fn(),
+      delete: vi.fn(),
+    },
+    playerMovement: {
+      count: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    contractHistory: {
+      count: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    auction: {
+      update: vi.fn(),
+    },
+    compensatingAction: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  }
+  return { mockPrisma: mock }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+vi.mock('../services/admin.service', () => ({ logAction: vi.fn() }))
+
+import { applyCompensation, previewCompensation } from '../services/compensation.service'
+import { logAction } from '../services/admin.service'
+import { conflictingRows, diffSnapshots, type StateSnapshot } from '../utils/compensation'
+
+const roster = (leagueMemberId: string) => ({ id: 'roster-1', playerId: 'player-1', leagueMemberId, status: 'ACTIVE' })
+const contract = (leagueMemberId: string, salary: number) => ({ id: 'contract-1', rosterId: 'roster-1', leagueMemberId, salary, duration: 2 })
+
+const before: StateSnapshot = {
+  roster: { 'roster-1': roster('seller') },
+  contract: { 'contract-1': contract('seller', 10) },
+  budgets: { seller: 100, buyer: 100 },
+}
+const after: StateSnapshot = {
+  roster: { 'roster-1': roster('buyer') },
+  contract: { 'contract-1': contract('buyer', 10) },
+  budgets: { seller: 115, buyer: 85 },
+}
+
+describe('diffSnapshots', () => {
+  it('records changed rows and inverted budget deltas', () => {
+    expect(diffSnapshots(before, after)).toEqual([
+      { kind: 'ROW', table: 'roster', id: 'roster-1', before: roster('seller'), after: roster('buyer') },
+      { kind: 'ROW', table: 'contract', id: 'contract-1', before: contract('seller', 10), after: contract('buyer', 10) },
+      { kind: 'BUDGET', memberId: 'seller', delta: -15 },
+      { kind: 'BUDGET', memberId: 'buyer', delta: 15 },
+    ])
+  })
+
+  it('flags rows changed after the operation as conflicts', () => {
+    const steps = diffSnapshots(before, after)
+    const current = { ...after, contract: { 'contract-1': contract('buyer', 14) } }
+
+    expect(conflictingRows(steps, after)).toEqual([])
+    expect(conflictingRows(steps, current).map(s => s.id)).toEqual(['contract-1'])
+  })
+})
+
+describe('compensation rollback', () => {
+  const entry = {
+    id: 'entry-1',
+    leagueId: 'league-1',
+    operation: 'RUBATA_TRANSFER',
+    entityType: 'Auction',
+    entityId: 'auction-1',
+    description: 'Rubata di Dybala per 15',
+    steps: [
+      ...diffSnapshots(before, after),
+      { kind: 'RECORD', model: 'auction', id: 'auction-1', data: { status: 'NO_BIDS', winnerId: null } },
+      { kind: 'MOVEMENTS', filter: { auctionId: 'auction-1' } },
+    ],
+    createdAt: new Date('2026-10-01T10:00:00Z'),
+    reversedAt: null,
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.leagueMember.findFirst.mockResolvedValue({ id: 'admin-member' })
+    mockPrisma.compensatingAction.findFirst.mockResolvedValue(entry)
+    mockPrisma.compensatingAction.findMany.mockResolvedValue([])
+    mockPrisma.compensatingAction.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.leagueMember.findMany.mockResolvedValue([
+      { id: 'seller', teamName: 'Seller FC', currentBudget: 115, user: { username: 'seller' } },
+      { id: 'buyer', teamName: 'Buyer FC', currentBudget: 85, user: { username: 'buyer' } },
+    ])
+    mockPrisma.playerRoster.findMany.mockImplementation(({ select }: { select?: unknown }) =>
+      Promise.resolve(select
+        ? [{ id: 'roster-1', player: { name: 'Dybala' } }]
+        : [{ ...roster('buyer'), createdAt: new Date() }])
+    )
+    mockPrisma.playerContract.findMany.mockResolvedValue([contract('buyer', 10)])
+    mockPrisma.playerMovement.count.mockResolvedValue(2)
+    mockPrisma.$transaction.mockImplementation((fn: (tx: unknown) => Promise<unknown>) => fn(mockPrisma))
+  })
+
+  it('previews the inverse steps in readable form', async () => {
+    const result = await previewCompensation('league-1', 'entry-1', 'admin-user')
+
+    expect(result.success).toBe(true)
+    expect(result.data).toMatchObject({
+      canApply: true,
+      conflicts: [],
+      changes: [
+        'Riporta Dybala da Buyer FC a Seller FC',
+        'Riassegna il contratto di Dybala a Seller FC',
+        'Budget Seller FC: -15',
+        'Budget Buyer FC: +15',
+        "Annulla l'aggiudicazione dell'asta",
+        "Elimina 2 movimenti registrati dall'operazione",
+      ],
+    })
+  })
+
+  it('points to the later operation when rows were changed afterwards', async () => {
+    mockPrisma.playerContract.findMany.mockResolvedValue([contract('buyer', 14)])
+    mockPrisma.compensatingAction.findMany.mockResolvedValue([
+      { description: 'Consolidamento contratti di Buyer FC', steps: [{ kind: 'ROW', table: 'contract', id: 'contract-1', before: null, after: null }] },
+    ])
+
+    const result = await applyCompensation('league-1', 'entry-1', 'admin-user', 'Errore asta')
+
+    expect(result.success).toBe(false)
+    expect(result.data).toEqual({
+      conflicts: [
+        "Dybala: contratto modificato dopo l'operazione",
+        "Annulla prima l'operazione successiva: Consolidamento contratti di Buyer FC",
+      ],
+    })
+    expect(mockPrisma.playerRoster.update).not.toHaveBeenCalled()
+    expect(mockPrisma.playerMovement.deleteMany).not.toHaveBeenCalled()
+  })
+
+  it('applies the inverse steps and logs the rollback', async () => {
+    const result = await applyCompensation('league-1', 'entry-1', 'admin-user', 'Errore asta')
+
+    expect(result).toMatchObject({ success: true, message: 'Operazione annullata: Rubata di Dybala per 15' })
+    expect(mockPrisma.compensatingAction.updateMany).toHaveBeenCalledWith({
+      where: { id: 'entry-1', reversedAt: null },
+      data: expect.objectContaining({ reversedById: 'admin-user', reverseReason: 'Errore asta' }),
+    })
+    expect(mockPrisma.playerMovement.deleteMany).toHaveBeenCalledWith({ where: { auctionId: 'auction-1' } })
+    expect(mockPrisma.playerRoster.update).toHaveBeenCalledWith({ where: { id: 'roster-1' }, data: roster('seller') })
+    expect(mockPrisma.leagueMember.update).toHaveBeenCalledWith({ where: { id: 'seller' }, data: { currentBudget: { increment: -15 } } })
+    expect(mockPrisma.auction.update).toHaveBeenCalledWith({ where: { id: 'auction-1' }, data: { status: 'NO_BIDS', winnerId: null } })
+    expect(logAction).toHaveBeenCalledWith('admin-user', 'league-1', 'COMPENSATION_APPLIED', 'Auction', 'auction-1',
+      expect.anything(), expect.objectContaining({ compensationId: 'entry-1', reason: 'Errore asta' }))
+  })
+
+  it('deletes only the movements and history entries recorded by the operation', async () => {
+    mockPrisma.compensatingAction.findFirst.mockResolvedValue({
+      ...entry,
+      steps: [
+        ...diffSnapshots(before, after),
+        { kind: 'MOVEMENTS', ids: ['movement-1', 'movement-2'] },
+        { kind: 'HISTORY', ids: ['history-1'] },
+      ],
+    })
+    mockPrisma.contractHistory.count.mockResolvedValue(1)
+
+    const preview = await previewCompensation('league-1', 'entry-1', 'admin-user')
+    expect(preview.data).toMatchObject({ changes: expect.arrayContaining(['Elimina 1 voce dello storico contratti']) })
+
+    const result = await applyCompensation('league-1', 'entry-1', 'admin-user', 'Errore svincolo')
+
+    expect(result.success).toBe(true)
+    expect(mockPrisma.playerMovement.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['movement-1', 'movement-2'] } } })
+    expect(mockPrisma.contractHistory.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['history-1'] } } })
+  })
+
+  it('rejects non-admins and operations already reversed', async () => {
+    mockPrisma.compensatingAction.findFirst.mockResolvedValue({ ...entry, reversedAt: new Date() })
+    expect(await applyCompensation('league-1', 'entry-1', 'admin-user', 'Errore asta'))
+      .toEqual({ success: false, message: 'Operazione già annullata' })
+
+    mockPrisma.leagueMember.findFirst.mockResolvedValue(null)
+    expect(await applyCompensation('league-1', 'entry-1', 'user-1', 'Errore asta'))
+      .toEqual({ success: false, message: 'Non autorizzato' })
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+  })
+})
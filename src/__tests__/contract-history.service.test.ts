@@ -57,6 +57,7 @@ vi.mock('@prisma/client', () => ({
 vi.mock('../services/contract.service', () => ({
   calculateReleaseCost: (salary: number, duration: number) =>
     Math.ceil((salary * duration) / 2),
+  getContractRuleset: () => Promise.resolve({ releaseCostPercent: 50 }),
 }))
 
 // Import after mocking
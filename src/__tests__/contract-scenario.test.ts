@@ -0,0 +1,134 @@
+/**
+ * contract-scenario.test.ts - Unit Tests for the contract what-if simulator
+ *
+ * Tests the multi-semester projection (expiries, inflows, release costs,
+ * invalid renewals, negative balance) and the saved scenarios limits.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mock = {
+    leagueMember: {
+      findFirst: vi.fn(),
+    },
+    contractScenario: {
+      findFirst: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  }
+  return { mockPrisma: mock }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+
+import {
+  projectContractScenario,
+  saveContractScenario,
+  deleteContractScenario,
+  MAX_SAVED_SCENARIOS,
+} from '../services/contract-scenario.service'
+import { DEFAULT_CONTRACT_RULESET } from '../utils/contract-rules'
+
+const contract = (contractId: string, salary: number, duration: number) => ({
+  contractId,
+  playerName: contractId.toUpperCase(),
+  position: 'C',
+  team: 'Inter',
+  salary,
+  duration,
+  initialSalary: salary,
+})
+
+describe('projectContractScenario', () => {
+  const start = { budget: 100, contracts: [contract('a', 20, 1), contract('b', 10, 3)] }
+
+  it('expires contracts and adds the inflow every semester', () => {
+    const projection = projectContractScenario(start, { horizon: 2, inflowPerSemester: 15, actions: [] }, DEFAULT_CONTRACT_RULESET)
+
+    expect(projection.semesters.map(s => [s.budget, s.totalSalaries, s.balance])).toEqual([
+      [100, 30, 70],
+      [115, 10, 105],
+      [130, 10, 120],
+    ])
+    expect(projection.semesters[1]?.expired).toEqual(['A'])
+    expect(projection.semesters[0]?.totalClauses).toBe(20 * 3 + 10 * 9)
+    expect(projection.errors).toEqual([])
+  })
+
+  it('charges the release cost and applies renewals after releases', () => {
+    const projection = projectContractScenario(start, {
+      horizon: 1,
+      inflowPerSemester: 0,
+      actions: [
+        { type: 'RENEW', contractId: 'a', semester: 0, salary: 12, duration: 2 },
+        { type: 'RELEASE', contractId: 'b', semester: 0 },
+      ],
+    }, DEFAULT_CONTRACT_RULESET)
+
+    const now = projection.semesters[0]
+    expect(now).toMatchObject({ releaseCosts: 15, budget: 85, totalSalaries: 12, renewed: ['A'], released: ['B'] })
+    expect(projection.semesters[1]?.contracts).toMatchObject([{ contractId: 'a', duration: 1 }])
+  })
+
+  it('reports invalid renewals and negative balances', () => {
+    const projection = projectContractScenario(
+      { budget: 25, contracts: [contract('a', 20, 2), contract('b', 10, 3)] },
+      { horizon: 1, inflowPerSemester: 0, actions: [{ type: 'RENEW', contractId: 'a', semester: 0, salary: 15, duration: 2 }] },
+      DEFAULT_CONTRACT_RULESET
+    )
+
+    expect(projection.errors).toEqual([
+      'Ora: rinnovo di A non valido (Ingaggio non può diminuire: 15 < 20)',
+      'Ora: bilancio negativo (-5), il consolidamento sarebbe bloccato',
+      'Semestre +1: bilancio negativo (-5), il consolidamento sarebbe bloccato',
+    ])
+    expect(projection.minBalance).toBe(-5)
+  })
+})
+
+describe('saved contract scenarios', () => {
+  const input = { name: 'Rinnovo Lautaro', horizon: 3, inflowPerSemester: 50, actions: [] }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.leagueMember.findFirst.mockResolvedValue({ id: 'member-1', currentBudget: 100 })
+    mockPrisma.contractScenario.count.mockResolvedValue(0)
+    mockPrisma.contractScenario.create.mockResolvedValue({ id: 'scenario-1' })
+  })
+
+  it('saves a new scenario for the member', async () => {
+    const result = await saveContractScenario('league-1', 'user-1', input)
+
+    expect(result).toEqual({ success: true, message: 'Scenario salvato', data: { id: 'scenario-1' } })
+    expect(mockPrisma.contractScenario.create).toHaveBeenCalledWith({
+      data: { name: 'Rinnovo Lautaro', horizon: 3, inflowPerSemester: 50, actions: [], memberId: 'member-1' },
+    })
+  })
+
+  it('rejects new scenarios over the limit', async () => {
+    mockPrisma.contractScenario.count.mockResolvedValue(MAX_SAVED_SCENARIOS)
+
+    const result = await saveContractScenario('league-1', 'user-1', input)
+
+    expect(result.success).toBe(false)
+    expect(mockPrisma.contractScenario.create).not.toHaveBeenCalled()
+  })
+
+  it('does not update or delete scenarios of other members', async () => {
+    mockPrisma.contractScenario.findFirst.mockResolvedValue(null)
+    mockPrisma.contractScenario.deleteMany.mockResolvedValue({ count: 0 })
+
+    const updated = await saveContractScenario('league-1', 'user-1', input, 'scenario-2')
+    const deleted = await deleteContractScenario('league-1', 'user-1', 'scenario-2')
+
+    expect(updated).toEqual({ success: false, message: 'Scenario non trovato' })
+    expect(deleted).toEqual({ success: false, message: 'Scenario non trovato' })
+    expect(mockPrisma.contractScenario.update).not.toHaveBeenCalled()
+  })
+})
@@ -16,6 +16,9 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 // Hoist mock before imports
 const { mockPrisma, MockPrismaClient } = vi.hoisted(() => {
   const mock = {
+    league: {
+      findUnique: vi.fn(),
+    },
     leagueMember: {
       findFirst: vi.fn(),
       findMany: vi.fn(),
@@ -53,6 +56,9 @@ const { mockPrisma, MockPrismaClient } = vi.hoisted(() => {
       findFirst: vi.fn(),
       findMany: vi.fn(),
     },
+    indemnityDecision: {
+      findMany: vi.fn(),
+    },
     contractHistory: {
       findMany: vi.fn(),
     },
@@ -105,12 +111,27 @@ vi.mock('../services/player-stats.service', () => ({
   computeSeasonStatsBatch: vi.fn().mockResolvedValue(new Map()),
 }))
 
+vi.mock('../services/domain-events.service', () => ({
+  publishDomainEvent: vi.fn().mockResolvedValue(undefined),
+}))
+
+vi.mock('../services/compensation.service', () => ({
+  captureState: vi.fn(() => Promise.resolve({ roster: {}, contract: {}, budgets: {} })),
+  recordCompensation: vi.fn(() => Promise.resolve({ id: 'compensation-1' })),
+}))
+
 // Import after mocking
 import * as contractService from '../services/contract.service'
+import { publishDomainEvent } from '../services/domain-events.service'
+import { recordCompensation } from '../services/compensation.service'
 
 describe('Contract Service', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    // Lega con regole contrattuali di default
+    mockPrisma.league.findUnique.mockResolvedValue({ contractRuleset: null })
+    // Nessun giocatore uscito nella fase indennizzi
+    mockPrisma.indemnityDecision.findMany.mockResolvedValue([])
   })
 
   // ==================== PURE FUNCTIONS ====================
@@ -224,6 +245,66 @@ describe('Contract Service', () => {
     })
   })
 
+  // ==================== LEAGUE CONTRACT RULESET ====================
+
+  describe('league contract ruleset', () => {
+    const customRules = {
+      durationMultipliers: { 6: 15, 5: 13, 4: 11, 3: 9, 2: 6, 1: 2 },
+      maxDuration: 6,
+      minSalaryPercent: 20,
+      defaultSalaryPercent: 15,
+      defaultDuration: 2,
+      releaseCostPercent: 100,
+      maxRosterSize: 32,
+    }
+
+    it('should use the league multipliers for the rescission clause', () => {
+      expect(contractService.calculateRescissionClause(10, 6, customRules)).toBe(150)
+      expect(contractService.calculateRescissionClause(10, 2, customRules)).toBe(60)
+    })
+
+    it('should use the league percentages for default salary, min salary and release cost', () => {
+      expect(contractService.calculateDefaultSalary(100, customRules)).toBe(15)
+      expect(contractService.calculateMinSalary(100, customRules)).toBe(20)
+      expect(contractService.calculateReleaseCost(7, 3, customRules)).toBe(21)
+    })
+
+    it('should validate renewals against the league max duration', () => {
+      expect(contractService.isValidRenewal(10, 4, 15, 6, 10, customRules).valid).toBe(true)
+      const result = contractService.isValidRenewal(10, 4, 15, 7, 10, customRules)
+      expect(result.valid).toBe(false)
+      expect(result.reason).toBe('Durata massima: 6 semestri')
+    })
+
+    it('should resolve the stored league ruleset merging missing fields with defaults', async () => {
+      mockPrisma.league.findUnique.mockResolvedValue({ contractRuleset: { maxRosterSize: 35 } })
+
+      const rules = await contractService.getContractRuleset('league-1')
+
+      expect(rules.maxRosterSize).toBe(35)
+      expect(rules.maxDuration).toBe(4)
+      expect(rules.durationMultipliers[4]).toBe(11)
+    })
+
+    it('should return the league rules with contracts', async () => {
+      mockPrisma.league.findUnique.mockResolvedValue({ contractRuleset: customRules })
+      mockPrisma.leagueMember.findFirst.mockResolvedValue({
+        id: 'member-1',
+        currentBudget: 500,
+        preConsolidationBudget: null,
+      })
+      mockPrisma.marketSession.findFirst.mockResolvedValue(null)
+      mockPrisma.playerRoster.findMany.mockResolvedValue([])
+
+      const result = await contractService.getContracts('league-1', 'user-1')
+
+      expect(result.success).toBe(true)
+      const data = result.data as { rules: { maxDuration: number; maxRosterSize: number } }
+      expect(data.rules.maxDuration).toBe(6)
+      expect(data.rules.maxRosterSize).toBe(32)
+    })
+  })
+
   // ==================== validateBudgetNotNegative ====================
 
   describe('validateBudgetNotNegative', () => {
@@ -304,7 +385,6 @@ describe('Contract Service', () => {
             draftSalary: 12,
             draftDuration: 3,
             draftReleased: false,
-            draftExitDecision: null,
             preConsolidationSalary: null,
             preConsolidationDuration: null,
           },
@@ -441,6 +521,7 @@ describe('Contract Service', () => {
             leagueId: 'league-1',
             currentBudget: 500,
             user: { id: 'user-1', username: 'test' },
+            league: { contractRuleset: null },
           },
         },
       })
@@ -710,6 +791,42 @@ describe('Contract Service', () => {
 
   // ==================== consolidateContracts ====================
 
+  describe('releasePlayer', () => {
+    it('journals the release with the id of the movement written after commit', async () => {
+      mockPrisma.playerContract.findUnique.mockResolvedValue({
+        id: 'contract-1',
+        rosterId: 'roster-1',
+        salary: 10,
+        duration: 2,
+        roster: {
+          playerId: 'player-1',
+          player: { name: 'Dybala', listStatus: 'IN_LIST', exitReason: null },
+          leagueMember: {
+            id: 'member-1',
+            leagueId: 'league-1',
+            teamName: 'Team 1',
+            currentBudget: 100,
+            user: { id: 'user-1' },
+            league: { contractRuleset: null },
+          },
+        },
+      })
+      mockPrisma.marketSession.findFirst.mockResolvedValue({ id: 'session-1' })
+      mockPrisma.contractConsolidation.findUnique.mockResolvedValue(null)
+
+      const result = await contractService.releasePlayer('contract-1', 'user-1')
+
+      expect(result.success).toBe(true)
+      const { movement } = vi.mocked(publishDomainEvent).mock.calls[0]![1] as { movement: { id?: string } }
+      expect(movement.id).toEqual(expect.any(String))
+      expect(recordCompensation).toHaveBeenCalledWith(mockPrisma, expect.objectContaining({
+        operation: 'PLAYER_RELEASED',
+        entityId: 'roster-1',
+        steps: [{ kind: 'MOVEMENTS', ids: [movement.id] }],
+      }))
+    })
+  })
+
   describe('consolidateContracts', () => {
     it('should return error when user is not a member', async () => {
       mockPrisma.leagueMember.findFirst.mockResolvedValue(null)
@@ -752,9 +869,7 @@ describe('Contract Service', () => {
       // Transaction mocks
       mockPrisma.leagueMember.update.mockResolvedValue({})
       mockPrisma.playerContract.findMany
-        .mockResolvedValueOnce([]) // undecidedExited
         .mockResolvedValueOnce([]) // contractsToRelease
-        .mockResolvedValueOnce([]) // keptExitedPlayers
         .mockResolvedValueOnce([]) // postConsolidationContracts
       mockPrisma.prizeCategory.findFirst.mockResolvedValue(null)
       mockPrisma.prizeCategory.findMany.mockResolvedValue([])
@@ -779,9 +894,7 @@ describe('Contract Service', () => {
       // Transaction mocks
       mockPrisma.leagueMember.update.mockResolvedValue({})
       mockPrisma.playerContract.findMany
-        .mockResolvedValueOnce([]) // undecidedExited
         .mockResolvedValueOnce([]) // contractsToRelease
-        .mockResolvedValueOnce([]) // keptExitedPlayers
       mockPrisma.prizeCategory.findFirst.mockResolvedValue(null)
       mockPrisma.prizeCategory.findMany.mockResolvedValue([])
       // Roster has a player without contract
@@ -806,9 +919,7 @@ describe('Contract Service', () => {
 
       mockPrisma.leagueMember.update.mockResolvedValue({})
       mockPrisma.playerContract.findMany
-        .mockResolvedValueOnce([]) // undecidedExited
         .mockResolvedValueOnce([]) // contractsToRelease
-        .mockResolvedValueOnce([]) // keptExitedPlayers
       mockPrisma.prizeCategory.findFirst.mockResolvedValue(null)
       mockPrisma.prizeCategory.findMany.mockResolvedValue([])
 
@@ -826,7 +937,7 @@ describe('Contract Service', () => {
       expect(result.message).toContain('Rosa troppo grande')
     })
 
-    it('should fail if undecided exited players remain', async () => {
+    it('should fail while the indemnity phase is not consolidated', async () => {
       mockPrisma.leagueMember.findFirst.mockResolvedValue({
         id: 'member-1',
         currentBudget: 500,
@@ -835,16 +946,18 @@ describe('Contract Service', () => {
       mockPrisma.contractConsolidation.findUnique.mockResolvedValue(null)
 
       mockPrisma.leagueMember.update.mockResolvedValue({})
-      // First findMany call: undecidedExited returns a player
-      mockPrisma.playerContract.findMany.mockResolvedValueOnce([
-        { roster: { player: { name: 'Osimhen' } } },
+      mockPrisma.indemnityDecision.findMany.mockResolvedValue([
+        { player: { name: 'Osimhen' } },
       ])
 
       const result = await contractService.consolidateContracts('league-1', 'user-1')
 
       expect(result.success).toBe(false)
       expect(result.message).toContain('Osimhen')
-      expect(result.message).toContain('Devi decidere')
+      expect(result.message).toContain('non sono ancora stati consolidati')
+      expect(mockPrisma.indemnityDecision.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { memberId: 'member-1', phase: { sessionId: 'session-1', status: { not: 'CONSOLIDATED' } } },
+      }))
     })
   })
 
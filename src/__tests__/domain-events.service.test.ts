@@ -0,0 +1,389 @@
+/**
+ * domain-events.service.test.ts - Unit Tests for Domain Event Subscribers
+ *
+ * Tests that published domain events drive movement history, contract
+ * history, push notifications and Pusher broadcasts.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    league: {
+      findUnique: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+
+vi.mock('../services/movement.service', () => ({
+  recordMovement: vi.fn().mockResolvedValue('movement-1'),
+}))
+
+vi.mock('../services/contract-history.service', () => ({
+  createContractHistoryEntries: vi.fn().mockResolvedValue(1),
+}))
+
+vi.mock('../services/notification.service', () => ({
+  notifyTradeOffer: vi.fn().mockResolvedValue(undefined),
+  notifyTradeInvalidated: vi.fn().mockResolvedValue(undefined),
+}))
+
+vi.mock('../services/pusher.service', () => ({
+  triggerTradeOfferReceived: vi.fn().mockResolvedValue(true),
+  triggerTradeUpdated: vi.fn().mockResolvedValue(true),
+  triggerAuctionClosed: vi.fn().mockResolvedValue(true),
+  triggerRubataStealDeclared: vi.fn().mockResolvedValue(true),
+  triggerRubataBidPlaced: vi.fn().mockResolvedValue(true),
+  triggerRubataReadyChanged: vi.fn().mockResolvedValue(true),
+  triggerSvincolatiNomination: vi.fn().mockResolvedValue(true),
+  triggerSvincolatiBidPlaced: vi.fn().mockResolvedValue(true),
+  triggerSvincolatiReadyChanged: vi.fn().mockResolvedValue(true),
+  triggerSvincolatiTurnAdvanced: vi.fn().mockResolvedValue(true),
+  triggerSvincolatiAuctionClosed: vi.fn().mockResolvedValue(true),
+  triggerIndemnityDecisionSubmitted: vi.fn().mockResolvedValue(true),
+  triggerIndemnityAllDecided: vi.fn().mockResolvedValue(true),
+}))
+
+vi.mock('../services/app-log.service', () => ({
+  logError: vi.fn(),
+}))
+
+import { eventBus, DomainEventTypes } from '../shared/infrastructure/events'
+import type { PlayerMovement } from '../shared/infrastructure/events'
+import { publishDomainEvent, registerDomainEventHandlers } from '../services/domain-events.service'
+import { recordMovement } from '../services/movement.service'
+import { createContractHistoryEntries } from '../services/contract-history.service'
+import { notifyTradeOffer, notifyTradeInvalidated } from '../services/notification.service'
+import {
+  triggerTradeOfferReceived,
+  triggerTradeUpdated,
+  triggerAuctionClosed,
+  triggerRubataStealDeclared,
+  triggerRubataBidPlaced,
+  triggerSvincolatiBidPlaced,
+  triggerSvincolatiTurnAdvanced,
+  triggerIndemnityDecisionSubmitted,
+  triggerIndemnityAllDecided,
+} from '../services/pusher.service'
+import { logError } from '../services/app-log.service'
+
+const movement: PlayerMovement = {
+  leagueId: 'league-1',
+  playerId: 'player-1',
+  movementType: 'FIRST_MARKET',
+  toMemberId: 'member-1',
+  price: 20,
+  marketSessionId: 'session-1',
+}
+
+describe('Domain Events Service', () => {
+  let unregister: () => void
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    unregister = registerDomainEventHandlers()
+  })
+
+  afterEach(() => {
+    unregister()
+  })
+
+  describe('registerDomainEventHandlers', () => {
+    it('is idempotent', () => {
+      const before = eventBus.getHandlerCount(DomainEventTypes.TRADE_ACCEPTED)
+      registerDomainEventHandlers()
+      expect(eventBus.getHandlerCount(DomainEventTypes.TRADE_ACCEPTED)).toBe(before)
+    })
+
+    it('removes its handlers when unregistered', () => {
+      unregister()
+      expect(eventBus.getHandlerCount(DomainEventTypes.TRADE_ACCEPTED)).toBe(0)
+    })
+  })
+
+  describe('movement history', () => {
+    it('records the movement of a closed auction and broadcasts it', async () => {
+      await publishDomainEvent(DomainEventTypes.AUCTION_CLOSED, {
+        auctionId: 'auction-1',
+        sessionId: 'session-1',
+        leagueId: 'league-1',
+        playerId: 'player-1',
+        playerName: 'Rossi',
+        winnerId: 'member-1',
+        winnerName: 'mario',
+        finalAmount: 20,
+        movement,
+      })
+
+      expect(recordMovement).toHaveBeenCalledWith(movement)
+      expect(triggerAuctionClosed).toHaveBeenCalledWith('session-1', expect.objectContaining({
+        winnerId: 'member-1',
+        finalPrice: 20,
+        wasUnsold: false,
+      }))
+    })
+
+    it('does not record movements for unsold auctions', async () => {
+      await publishDomainEvent(DomainEventTypes.AUCTION_CLOSED, {
+        auctionId: 'auction-1',
+        sessionId: 'session-1',
+        leagueId: 'league-1',
+        playerId: 'player-1',
+        playerName: 'Rossi',
+        winnerId: null,
+        winnerName: null,
+        finalAmount: 0,
+        movement: null,
+      })
+
+      expect(recordMovement).not.toHaveBeenCalled()
+      expect(triggerAuctionClosed).toHaveBeenCalledWith('session-1', expect.objectContaining({
+        finalPrice: null,
+        wasUnsold: true,
+      }))
+    })
+
+    it('records every movement of an accepted trade', async () => {
+      await publishDomainEvent(DomainEventTypes.TRADE_ACCEPTED, {
+        tradeId: 'trade-1',
+        leagueId: 'league-1',
+        marketSessionId: 'session-1',
+        movements: [
+          { ...movement, movementType: 'TRADE', playerId: 'p1' },
+          { ...movement, movementType: 'TRADE', playerId: 'p2' },
+        ],
+      })
+
+      expect(recordMovement).toHaveBeenCalledTimes(2)
+      expect(triggerTradeUpdated).toHaveBeenCalledWith('league-1', expect.objectContaining({
+        tradeId: 'trade-1',
+        newStatus: 'ACCEPTED',
+      }))
+    })
+  })
+
+  describe('contract history', () => {
+    it('writes history entries and movements of a consolidation', async () => {
+      const entry = {
+        playerId: 'player-1',
+        leagueMemberId: 'member-1',
+        marketSessionId: 'session-1',
+        eventType: 'RELEASE_NORMAL' as const,
+        cost: 5,
+      }
+
+      await publishDomainEvent(DomainEventTypes.CONTRACT_CONSOLIDATED, {
+        leagueId: 'league-1',
+        sessionId: 'session-1',
+        memberId: 'member-1',
+        historyEntries: [entry],
+        movements: [{ ...movement, movementType: 'RELEASE', fromMemberId: 'member-1', toMemberId: null }],
+      })
+
+      expect(createContractHistoryEntries).toHaveBeenCalledWith([entry])
+      expect(recordMovement).toHaveBeenCalledWith(expect.objectContaining({ movementType: 'RELEASE' }))
+    })
+
+    it('skips empty history batches', async () => {
+      await publishDomainEvent(DomainEventTypes.CONTRACT_DURATIONS_DECREMENTED, {
+        leagueId: 'league-1',
+        sessionId: 'session-1',
+        historyEntries: [],
+        movements: [],
+      })
+
+      expect(createContractHistoryEntries).not.toHaveBeenCalled()
+      expect(recordMovement).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('rubata and svincolati broadcasts', () => {
+    it('broadcasts a stolen player on the rubata session channel', async () => {
+      await publishDomainEvent(DomainEventTypes.RUBATA_AUCTION_CLOSED, {
+        sessionId: 'session-1',
+        leagueId: 'league-1',
+        auctionId: 'auction-1',
+        playerId: 'player-1',
+        playerName: 'Barella',
+        sellerId: 'member-2',
+        winnerId: 'member-1',
+        winnerUsername: 'mario',
+        price: 30,
+        movement: { ...movement, movementType: 'RUBATA' },
+      })
+
+      expect(triggerAuctionClosed).toHaveBeenCalledWith('session-1', expect.objectContaining({
+        auctionId: 'auction-1',
+        winnerName: 'mario',
+        finalPrice: 30,
+        wasUnsold: false,
+      }))
+    })
+
+    it('broadcasts steals and bids of the rubata', async () => {
+      await publishDomainEvent(DomainEventTypes.RUBATA_OFFER_PLACED, {
+        sessionId: 'session-1',
+        playerId: 'player-1',
+        playerName: 'Barella',
+        playerTeam: 'Inter',
+        playerPosition: 'C',
+        offeredById: 'member-1',
+        offeredByUsername: 'mario',
+        ownerUsername: 'luigi',
+        basePrice: 25,
+      })
+      await publishDomainEvent(DomainEventTypes.RUBATA_BID_PLACED, {
+        sessionId: 'session-1',
+        auctionId: 'auction-1',
+        bidderId: 'member-3',
+        bidderUsername: 'peach',
+        playerName: 'Barella',
+        amount: 27,
+      })
+
+      expect(triggerRubataStealDeclared).toHaveBeenCalledWith('session-1', expect.objectContaining({
+        bidderId: 'member-1',
+        bidderUsername: 'mario',
+        basePrice: 25,
+      }))
+      expect(triggerRubataBidPlaced).toHaveBeenCalledWith('session-1', expect.objectContaining({ bidderId: 'member-3', amount: 27 }))
+    })
+
+    it('broadcasts svincolati bids on the auction channel outside a session', async () => {
+      const timerExpiresAt = new Date('2026-10-18T20:00:30.000Z')
+
+      await publishDomainEvent(DomainEventTypes.SVINCOLATI_BID_PLACED, {
+        sessionId: null,
+        auctionId: 'auction-2',
+        playerId: 'player-2',
+        playerName: 'Zaccagni',
+        bidderId: 'member-1',
+        bidderUsername: 'mario',
+        amount: 4,
+        timerExpiresAt,
+        timerSeconds: 30,
+      })
+
+      expect(triggerSvincolatiBidPlaced).toHaveBeenCalledWith('auction-2', expect.objectContaining({
+        sessionId: 'auction-2',
+        amount: 4,
+        timerExpiresAt: timerExpiresAt.toISOString(),
+      }))
+    })
+
+    it('broadcasts the svincolati turn', async () => {
+      await publishDomainEvent(DomainEventTypes.SVINCOLATI_TURN_ADVANCED, {
+        sessionId: 'session-1',
+        state: 'COMPLETED',
+        nextTurnMemberId: null,
+        nextTurnUsername: null,
+        completed: true,
+      })
+
+      expect(triggerSvincolatiTurnAdvanced).toHaveBeenCalledWith('session-1', expect.objectContaining({ state: 'COMPLETED', completed: true }))
+    })
+  })
+
+  describe('indemnity decisions', () => {
+    const submitted = {
+      leagueId: 'league-1',
+      sessionId: 'session-1',
+      memberId: 'member-1',
+      memberUsername: 'mario',
+      decidedCount: 2,
+      totalCount: 2,
+      allDecided: false,
+      totalMembers: 3,
+    }
+
+    it('broadcasts the decisions of a manager', async () => {
+      await publishDomainEvent(DomainEventTypes.INDEMNITY_DECISIONS_SUBMITTED, submitted)
+
+      expect(triggerIndemnityDecisionSubmitted).toHaveBeenCalledWith('session-1', expect.objectContaining({
+        memberId: 'member-1',
+        decidedCount: 2,
+        totalCount: 2,
+      }))
+      expect(triggerIndemnityAllDecided).not.toHaveBeenCalled()
+    })
+
+    it('broadcasts when every manager has decided', async () => {
+      await publishDomainEvent(DomainEventTypes.INDEMNITY_DECISIONS_SUBMITTED, { ...submitted, allDecided: true })
+
+      expect(triggerIndemnityAllDecided).toHaveBeenCalledWith('session-1', expect.objectContaining({ totalMembers: 3 }))
+    })
+  })
+
+  describe('trade notifications', () => {
+    it('notifies the receiver of a new offer', async () => {
+      mockPrisma.league.findUnique.mockResolvedValue({ name: 'Lega Test' })
+
+      await publishDomainEvent(DomainEventTypes.TRADE_OFFERED, {
+        tradeId: 'trade-1',
+        leagueId: 'league-1',
+        senderId: 'user-1',
+        senderUsername: 'mario',
+        receiverId: 'user-2',
+      })
+
+      expect(triggerTradeOfferReceived).toHaveBeenCalledWith('league-1', expect.objectContaining({
+        tradeId: 'trade-1',
+        receiverUserId: 'user-2',
+      }))
+      expect(notifyTradeOffer).toHaveBeenCalledWith('user-2', 'mario', 'Lega Test')
+    })
+
+    it('broadcasts every invalidated offer and notifies affected managers', async () => {
+      mockPrisma.league.findUnique.mockResolvedValue(null)
+
+      await publishDomainEvent(DomainEventTypes.TRADE_INVALIDATED, {
+        leagueId: 'league-1',
+        tradeIds: ['trade-2', 'trade-3'],
+        affectedUserIds: ['user-3'],
+      })
+
+      expect(triggerTradeUpdated).toHaveBeenCalledTimes(2)
+      expect(notifyTradeInvalidated).toHaveBeenCalledWith('user-3', 'Lega', 'PLAYER_TRADED')
+    })
+
+    it('broadcasts the status matching the sweeper reason', async () => {
+      mockPrisma.league.findUnique.mockResolvedValue({ name: 'Serie A Amici' })
+
+      await publishDomainEvent(DomainEventTypes.TRADE_INVALIDATED, {
+        leagueId: 'league-1',
+        tradeIds: ['trade-4'],
+        affectedUserIds: ['user-1', 'user-2'],
+        reason: 'EXPIRED',
+      })
+
+      expect(triggerTradeUpdated).toHaveBeenCalledWith('league-1', expect.objectContaining({ tradeId: 'trade-4', newStatus: 'EXPIRED' }))
+      expect(notifyTradeInvalidated).toHaveBeenCalledWith('user-1', 'Serie A Amici', 'EXPIRED')
+      expect(notifyTradeInvalidated).toHaveBeenCalledWith('user-2', 'Serie A Amici', 'EXPIRED')
+    })
+  })
+
+  describe('error isolation', () => {
+    it('logs subscriber failures without rejecting the publisher', async () => {
+      vi.mocked(recordMovement).mockRejectedValueOnce(new Error('db down'))
+
+      await expect(publishDomainEvent(DomainEventTypes.RUBATA_AUCTION_CLOSED, {
+        sessionId: 'session-1',
+        leagueId: 'league-1',
+        auctionId: 'auction-1',
+        playerId: 'player-1',
+        playerName: 'Barella',
+        sellerId: 'member-2',
+        winnerId: 'member-1',
+        winnerUsername: 'mario',
+        price: 30,
+        movement: { ...movement, movementType: 'RUBATA' },
+      })).resolves.toBeUndefined()
+
+      expect(logError).toHaveBeenCalledWith('ERROR', expect.stringContaining(DomainEventTypes.RUBATA_AUCTION_CLOSED), expect.any(Object))
+    })
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * exit-classification.test.ts - Unit Tests for automatic exit classification
+ *
+ * Tests the classifier rules (foreign league, Serie B or lower, no team and
+ * age), the confidence penalty for stale lookups and the proposals built by
+ * the superadmin service from API-Football cache and quotation list.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { mockPrisma, mockLookupCurrentClubs } = vi.hoisted(() => ({
+  mockPrisma: {
+    user: { findUnique: vi.fn() },
+    serieAPlayer: { findMany: vi.fn() },
+    apiFootballPlayerCache: { findMany: vi.fn() },
+  },
+  mockLookupCurrentClubs: vi.fn(),
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+vi.mock('../services/api-football.service', () => ({ lookupCurrentClubs: mockLookupCurrentClubs }))
+
+import { classifyExit, SERIE_B_LEAGUE_ID, type ExitProposalsData } from '../utils/exit-classifier'
+import { getExitClassificationProposals } from '../services/superadmin.service'
+
+const NOW = new Date('2026-10-18T10:00:00Z')
+const RECENT = new Date('2026-10-15T10:00:00Z')
+
+function club(overrides: Record<string, unknown> = {}) {
+  return { team: 'Galatasaray', leagueId: 203, leagueName: 'Süper Lig', leagueCountry: 'Turkey', lookedUpAt: RECENT, ...overrides }
+}
+
+describe('classifyExit', () => {
+  it('should propose ESTERO for a foreign league', () => {
+    const proposal = classifyExit({ age: 27, previousTeam: 'Napoli', previousTeamOutOfList: false, club: club() }, NOW)
+
+    expect(proposal.exitReason).toBe('ESTERO')
+    expect(proposal.confidence).toBe(90)
+    expect(proposal.evidence[0]).toContain('Galatasaray')
+  })
+
+  it('should propose RETROCESSO for Serie B, more confident when the team left the list', () => {
+    const serieB = club({ team: 'Empoli', leagueId: SERIE_B_LEAGUE_ID, leagueName: 'Serie B', leagueCountry: 'Italy' })
+
+    expect(classifyExit({ age: 25, previousTeam: 'Milan', previousTeamOutOfList: false, club: serieB }, NOW))
+      .toMatchObject({ exitReason: 'RETROCESSO', confidence: 90 })
+    expect(classifyExit({ age: 25, previousTeam: 'Empoli', previousTeamOutOfList: true, club: serieB }, NOW))
+      .toMatchObject({ exitReason: 'RETROCESSO', confidence: 95 })
+  })
+
+  it('should propose RETROCESSO with lower confidence for lower Italian leagues', () => {
+    const serieC = club({ team: 'Triestina', leagueId: 138, leagueName: 'Serie C', leagueCountry: 'Italy' })
+
+    expect(classifyExit({ age: 30, previousTeam: 'Udinese', previousTeamOutOfList: false, club: serieC }, NOW))
+      .toMatchObject({ exitReason: 'RETROCESSO', confidence: 75 })
+  })
+
+  it('should propose RITIRATO for an older player without a team', () => {
+    const noTeam = club({ team: null, leagueId: null, leagueName: null, leagueCountry: null })
+
+    expect(classifyExit({ age: 38, previousTeam: 'Lazio', previousTeamOutOfList: false, club: noTeam }, NOW))
+      .toMatchObject({ exitReason: 'RITIRATO', confidence: 80 })
+    expect(classifyExit({ age: 24, previousTeam: 'Lazio', previousTeamOutOfList: false, club: noTeam }, NOW).confidence)
+      .toBeLessThan(50)
+  })
+
+  it('should not propose anything for a player still in Serie A', () => {
+    const serieA = club({ team: 'Roma', leagueId: 135, leagueName: 'Serie A', leagueCountry: 'Italy' })
+
+    expect(classifyExit({ age: 29, previousTeam: 'Roma', previousTeamOutOfList: false, club: serieA }, NOW).exitReason)
+      .toBeNull()
+  })
+
+  it('should lower the confidence of stale lookups', () => {
+    const stale = club({ lookedUpAt: new Date('2026-08-01T10:00:00Z') })
+
+    const proposal = classifyExit({ age: 27, previousTeam: 'Napoli', previousTeamOutOfList: false, club: stale }, NOW)
+
+    expect(proposal.confidence).toBe(75)
+    expect(proposal.evidence).toHaveLength(2)
+  })
+
+  it('should fall back to the quotation list without API-Football data', () => {
+    expect(classifyExit({ age: 26, previousTeam: 'Monza', previousTeamOutOfList: true, club: null }, NOW))
+      .toMatchObject({ exitReason: 'RETROCESSO', confidence: 60 })
+    expect(classifyExit({ age: 26, previousTeam: 'Inter', previousTeamOutOfList: false, club: null }, NOW).exitReason)
+      .toBeNull()
+  })
+})
+
+describe('getExitClassificationProposals', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.user.findUnique.mockResolvedValue({ isSuperAdmin: true })
+  })
+
+  function mockPlayers() {
+    mockPrisma.serieAPlayer.findMany
+      // detectPlayersNeedingClassification
+      .mockResolvedValueOnce([
+        { id: 'p1', name: 'Osimhen', position: 'A', team: 'Napoli', quotation: 30, rosters: [] },
+        { id: 'p2', name: 'Colombo', position: 'A', team: 'Monza', quotation: 5, rosters: [] },
+      ])
+      // età e ID API-Football
+      .mockResolvedValueOnce([
+        { id: 'p1', age: 27, apiFootballId: 101 },
+        { id: 'p2', age: 24, apiFootballId: null },
+      ])
+      // squadre ancora in lista
+      .mockResolvedValueOnce([{ team: 'Napoli' }, { team: 'Inter' }])
+    mockPrisma.apiFootballPlayerCache.findMany.mockResolvedValue([
+      { id: 101, team: 'Galatasaray', leagueId: 203, leagueName: 'Süper Lig', leagueCountry: 'Turkey', age: 27, lookedUpAt: new Date() },
+    ])
+  }
+
+  it('should reject non superadmin users', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({ isSuperAdmin: false })
+
+    const result = await getExitClassificationProposals('user-1')
+
+    expect(result.success).toBe(false)
+  })
+
+  it('should build proposals from the cache and the quotation list', async () => {
+    mockPlayers()
+
+    const result = await getExitClassificationProposals('admin-1')
+    const data = result.data as ExitProposalsData
+
+    expect(mockLookupCurrentClubs).not.toHaveBeenCalled()
+    expect(data.proposals).toEqual([
+      expect.objectContaining({ playerId: 'p1', apiFootballId: 101, exitReason: 'ESTERO' }),
+      expect.objectContaining({ playerId: 'p2', apiFootballId: null, exitReason: 'RETROCESSO', confidence: 60 }),
+    ])
+  })
+
+  it('should look up current clubs only for matched players when requested', async () => {
+    mockPlayers()
+    mockLookupCurrentClubs.mockResolvedValue({ lookedUp: 1, skipped: 0, apiCallsUsed: 1 })
+
+    const result = await getExitClassificationProposals('admin-1', { lookup: true })
+
+    expect(mockLookupCurrentClubs).toHaveBeenCalledWith([101])
+    expect(result.data).toMatchObject({ lookedUp: 1, apiCallsUsed: 1 })
+    expect(result.message).toContain('1 giocatori cercati')
+  })
+})
@@ -6,7 +6,7 @@
  * Creato il: 19/02/2026
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 
 // Hoist mock before imports
 const { mockPrisma, MockPrismaClient } = vi.hoisted(() => {
@@ -65,6 +65,7 @@ vi.mock('@prisma/client', () => ({
 
 // Import after mocking
 import * as feedbackService from '../services/feedback.service'
+import { getIssueTracker, resetIssueTracker, type StubIssueTracker } from '../shared/infrastructure/issue-tracker'
 
 describe('Feedback Service', () => {
   beforeEach(() => {
@@ -615,4 +616,114 @@ describe('Feedback Service', () => {
       expect(data.byCategory.BUG).toBe(7)
     })
   })
+
+  // ==================== issue tracker bridge ====================
+
+  describe('issue tracker bridge', () => {
+    const linked = {
+      id: 'fb-1',
+      userId: 'user-1',
+      status: 'IN_LAVORAZIONE',
+      githubIssueId: 1,
+      issueState: 'open',
+      issueLinkedById: 'admin-1'
+    }
+
+    beforeEach(() => {
+      process.env.ISSUE_TRACKER_PROVIDER = 'stub'
+      resetIssueTracker()
+      mockPrisma.$transaction.mockResolvedValue([])
+      mockPrisma.feedbackNotification.upsert.mockResolvedValue({})
+    })
+
+    afterEach(() => {
+      delete process.env.ISSUE_TRACKER_PROVIDER
+      resetIssueTracker()
+    })
+
+    it('promotes feedback to an issue and puts it in progress', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ isSuperAdmin: true })
+      mockPrisma.userFeedback.findUnique.mockResolvedValue({
+        id: 'fb-1',
+        userId: 'user-1',
+        title: 'Rubata bloccata',
+        description: 'Il timer non parte',
+        category: 'BUG',
+        pageContext: 'rubata',
+        status: 'APERTA',
+        githubIssueId: null
+      })
+
+      const result = await feedbackService.promoteFeedbackToIssue('fb-1', 'admin-1')
+
+      expect(result).toMatchObject({
+        success: true,
+        message: 'Issue #1 creata',
+        data: { status: 'IN_LAVORAZIONE', githubIssueId: 1, githubIssueUrl: 'https://issues.local/1' }
+      })
+      const [issue] = (getIssueTracker() as StubIssueTracker).getCreatedIssues()
+      expect(issue?.input).toEqual({
+        title: 'Rubata bloccata',
+        body: 'Il timer non parte\n\n---\nCategoria: BUG\nPagina: rubata\nSegnalazione: fb-1',
+        labels: ['feedback', 'bug']
+      })
+      expect(mockPrisma.userFeedback.update).toHaveBeenCalledWith({
+        where: { id: 'fb-1' },
+        data: expect.objectContaining({ githubIssueId: 1, issueState: 'open', issueLinkedById: 'admin-1', status: 'IN_LAVORAZIONE' })
+      })
+      expect(mockPrisma.feedbackNotification.upsert).toHaveBeenCalledTimes(2)
+    })
+
+    it('rejects feedback already linked or without a configured tracker', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ isSuperAdmin: true })
+      mockPrisma.userFeedback.findUnique.mockResolvedValue({ id: 'fb-1', githubIssueId: 7 })
+
+      expect((await feedbackService.promoteFeedbackToIssue('fb-1', 'admin-1')).message)
+        .toBe("Segnalazione gia' collegata alla issue #7")
+
+      delete process.env.ISSUE_TRACKER_PROVIDER
+      resetIssueTracker()
+      mockPrisma.userFeedback.findUnique.mockResolvedValue({ id: 'fb-1', githubIssueId: null })
+
+      expect((await feedbackService.promoteFeedbackToIssue('fb-1', 'admin-1')).message)
+        .toBe('Issue tracker non configurato')
+    })
+
+    it('resolves the feedback when the linked issue is closed', async () => {
+      const tracker = getIssueTracker() as StubIssueTracker
+      await tracker.createIssue({ title: 'Bug', body: '', labels: [] })
+      tracker.setIssueState(1, 'closed')
+      mockPrisma.userFeedback.findMany.mockResolvedValue([linked])
+
+      const result = await feedbackService.syncFeedbackIssues()
+
+      expect(result.data).toEqual({ checked: 1, updated: 1, failed: 0 })
+      expect(mockPrisma.userFeedback.update).toHaveBeenCalledWith({
+        where: { id: 'fb-1' },
+        data: expect.objectContaining({ issueState: 'closed', status: 'RISOLTA', resolvedAt: expect.any(Date) })
+      })
+      expect(mockPrisma.feedbackResponse.create).toHaveBeenCalledWith({
+        data: { feedbackId: 'fb-1', adminId: 'admin-1', content: 'Issue #1 chiusa: problema risolto', statusChange: 'RISOLTA' }
+      })
+      expect(mockPrisma.feedbackNotification.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: { userId: 'user-1', feedbackId: 'fb-1', type: 'STATUS_CHANGE', isRead: false }
+      }))
+    })
+
+    it('only touches the sync date when the issue is unchanged', async () => {
+      await getIssueTracker()!.createIssue({ title: 'Bug', body: '', labels: [] })
+      mockPrisma.user.findUnique.mockResolvedValue({ isSuperAdmin: true })
+      mockPrisma.userFeedback.findUnique.mockResolvedValue(linked)
+
+      const result = await feedbackService.syncFeedbackIssue('fb-1', 'admin-1')
+
+      expect(result).toMatchObject({ success: true, message: 'Nessuna modifica dalla issue', data: { updated: false } })
+      expect(mockPrisma.userFeedback.update).toHaveBeenCalledWith({
+        where: { id: 'fb-1' },
+        data: { issueSyncedAt: expect.any(Date) }
+      })
+      expect(mockPrisma.feedbackResponse.create).not.toHaveBeenCalled()
+      expect(mockPrisma.feedbackNotification.upsert).not.toHaveBeenCalled()
+    })
+  })
 })
@@ -47,6 +47,9 @@ const { mockPrisma, MockPrismaClient } = vi.hoisted(() => {
     prizeCategory: {
       findMany: vi.fn(),
     },
+    proxyBid: {
+      findMany: vi.fn(),
+    },
   }
 
   // Create a proper class constructor
@@ -120,6 +123,8 @@ interface RubataHistoryData {
     wasStolen: boolean
     noBids: boolean
     player: { id: string }
+    topBids: Array<{ amount: number; isProxy: boolean }>
+    proxyCeilings: Array<{ username: string; teamName: string | null; maxAmount: number }>
   }>
   stats: { total: number; stolen: number; retained: number; noBids: number }
 }
@@ -195,6 +200,7 @@ function makePlayer(id: string, overrides?: Record<string, unknown>) {
 describe('History Service', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    mockPrisma.proxyBid.findMany.mockResolvedValue([])
   })
 
   // ==================== getSessionsOverview ====================
@@ -552,6 +558,40 @@ describe('History Service', () => {
       expect(data.stats.noBids).toBe(1)
     })
 
+    it('reveals proxy ceilings and marks automatic bids once the auction is over', async () => {
+      mockActiveMember()
+      mockPrisma.auction.findMany.mockResolvedValue([
+        {
+          id: 'auc-1',
+          playerId: 'p-1',
+          player: makePlayer('p-1'),
+          basePrice: 10,
+          currentPrice: 21,
+          status: 'COMPLETED',
+          seller: { id: 'm-1', teamName: 'Team Alpha', user: { username: 'alice' } },
+          winner: { id: 'm-2', teamName: 'Team Beta', user: { username: 'bob' } },
+          bids: [
+            { amount: 21, isProxy: true, bidder: { id: 'm-2', teamName: 'Team Beta', user: { username: 'bob' } } },
+            { amount: 20, isProxy: false, bidder: { id: 'm-3', teamName: 'Team Gamma', user: { username: 'carl' } } },
+          ],
+          endsAt: new Date('2025-02-01'),
+        },
+      ])
+      mockPrisma.proxyBid.findMany.mockResolvedValue([
+        { playerId: 'p-1', maxAmount: 30, member: { teamName: 'Team Beta', user: { username: 'bob' } } },
+      ])
+
+      const result = await historyService.getSessionRubataHistory(LEAGUE_ID, SESSION_ID, USER_ID)
+
+      expect(result.success).toBe(true)
+      const auction = (result.data as RubataHistoryData).auctions[0] as RubataHistoryData['auctions'][number]
+      expect(auction.topBids.map(b => b.isProxy)).toEqual([true, false])
+      expect(auction.proxyCeilings).toEqual([{ username: 'bob', teamName: 'Team Beta', maxAmount: 30 }])
+      expect(mockPrisma.proxyBid.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { sessionId: SESSION_ID, playerId: { in: ['p-1'] } } })
+      )
+    })
+
     it('returns empty list when no rubata auctions exist', async () => {
       mockActiveMember()
       mockPrisma.auction.findMany.mockResolvedValue([])
@@ -0,0 +1,339 @@
+/**
+ * indemnity-phase.service.test.ts - Unit Tests for the indemnity phase workflow
+ *
+ * Tests the phase opening and row sync, manager decisions (visibility,
+ * deadline, automatic review), admin consolidation with budget credits and
+ * the deadline job with push reminders.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { mockPrisma, mockPublish, mockRecordCompensation, mockNotify } = vi.hoisted(() => {
+  const mock = {
+    marketSession: { findUnique: vi.fn() },
+    leagueMember: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      update: vi.fn(),
+    },
+    prizeCategory: { findFirst: vi.fn() },
+    playerRoster: { findMany: vi.fn(), update: vi.fn() },
+    playerContract: { delete: vi.fn() },
+    indemnityPhase: {
+      upsert: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    indemnityDecision: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+      count: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  }
+  mock.$transaction.mockImplementation((arg: unknown) =>
+    typeof arg === 'function'
+      ? (arg as (tx: typeof mock) => Promise<unknown>)(mock)
+      : Promise.all(arg as Promise<unknown>[])
+  )
+
+  return {
+    mockPrisma: mock,
+    mockPublish: vi.fn(),
+    mockRecordCompensation: vi.fn(),
+    mockNotify: vi.fn(),
+  }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+vi.mock('../services/domain-events.service', () => ({ publishDomainEvent: mockPublish }))
+vi.mock('../services/compensation.service', () => ({
+  captureState: vi.fn(() => Promise.resolve({ roster: {}, contract: {}, budgets: {} })),
+  recordCompensation: mockRecordCompensation,
+}))
+vi.mock('../services/notification.service', () => ({ notifyIndemnityDeadline: mockNotify }))
+
+import {
+  consolidateIndemnityPhase,
+  getIndemnityPhase,
+  openIndemnityPhase,
+  processIndemnityDeadlines,
+  recordIndemnityDecisions,
+} from '../services/indemnity-phase.service'
+import { DomainEventTypes } from '@/shared/infrastructure/events'
+
+function decisionRow(overrides: Record<string, unknown>) {
+  return {
+    id: 'dec-1',
+    phaseId: 'phase-1',
+    memberId: 'member-1',
+    rosterId: 'roster-1',
+    playerId: 'player-1',
+    exitReason: 'ESTERO',
+    decision: null,
+    decidedAt: null,
+    decidedByAdmin: false,
+    compensation: null,
+    compensationPaid: null,
+    player: { id: 'player-1', name: 'Osimhen' },
+    ...overrides,
+  }
+}
+
+describe('indemnity-phase.service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.prizeCategory.findFirst.mockResolvedValue(null)
+    mockNotify.mockResolvedValue(undefined)
+  })
+
+  describe('openIndemnityPhase', () => {
+    it('should create rows for new exited players and drop players no longer under contract', async () => {
+      mockPrisma.indemnityPhase.upsert.mockResolvedValue({ id: 'phase-1', status: 'OPEN' })
+      mockPrisma.playerRoster.findMany.mockResolvedValue([
+        { id: 'roster-1', leagueMemberId: 'member-1', playerId: 'player-1', player: { exitReason: 'ESTERO' } },
+        { id: 'roster-2', leagueMemberId: 'member-2', playerId: 'player-2', player: { exitReason: 'RETROCESSO' } },
+      ])
+      mockPrisma.indemnityDecision.findMany.mockResolvedValue([
+        { id: 'dec-1', rosterId: 'roster-1', exitReason: 'ESTERO' },
+      ])
+
+      const result = await openIndemnityPhase('league-1', 'session-1')
+
+      expect(result).toEqual({ phaseId: 'phase-1', players: 2 })
+      expect(mockPrisma.indemnityDecision.deleteMany).toHaveBeenCalledWith({
+        where: { phaseId: 'phase-1', rosterId: { notIn: ['roster-1', 'roster-2'] } },
+      })
+      expect(mockPrisma.indemnityDecision.create).toHaveBeenCalledTimes(1)
+      expect(mockPrisma.indemnityDecision.create).toHaveBeenCalledWith({
+        data: { phaseId: 'phase-1', rosterId: 'roster-2', memberId: 'member-2', playerId: 'player-2', exitReason: 'RETROCESSO' },
+      })
+    })
+
+    it('should reset the decision of a reclassified player', async () => {
+      mockPrisma.indemnityPhase.upsert.mockResolvedValue({ id: 'phase-1', status: 'DECISIONS' })
+      mockPrisma.playerRoster.findMany.mockResolvedValue([
+        { id: 'roster-1', leagueMemberId: 'member-1', playerId: 'player-1', player: { exitReason: 'ESTERO' } },
+      ])
+      mockPrisma.indemnityDecision.findMany.mockResolvedValue([
+        { id: 'dec-1', rosterId: 'roster-1', exitReason: 'RETROCESSO' },
+      ])
+
+      await openIndemnityPhase('league-1', 'session-1')
+
+      expect(mockPrisma.indemnityDecision.update).toHaveBeenCalledWith({
+        where: { id: 'dec-1' },
+        data: { exitReason: 'ESTERO', decision: null, decidedAt: null, decidedByAdmin: false },
+      })
+    })
+
+    it('should not touch the rows once the phase is in review', async () => {
+      mockPrisma.indemnityPhase.upsert.mockResolvedValue({ id: 'phase-1', status: 'ADMIN_REVIEW' })
+      mockPrisma.indemnityDecision.count.mockResolvedValue(3)
+
+      const result = await openIndemnityPhase('league-1', 'session-1')
+
+      expect(result.players).toBe(3)
+      expect(mockPrisma.playerRoster.findMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getIndemnityPhase', () => {
+    it('should hide the choices of other managers while decisions are open', async () => {
+      mockPrisma.marketSession.findUnique.mockResolvedValue({ id: 'session-1', leagueId: 'league-1', league: { name: 'Lega' } })
+      mockPrisma.leagueMember.findFirst.mockResolvedValue({ id: 'member-1', role: 'MANAGER' })
+      mockPrisma.indemnityPhase.findUnique.mockResolvedValue({
+        id: 'phase-1',
+        status: 'DECISIONS',
+        decisions: [
+          decisionRow({ decision: 'KEEP', member: { id: 'member-1', teamName: 'A', user: { username: 'mario' } }, roster: { contract: null } }),
+          decisionRow({
+            id: 'dec-2', memberId: 'member-2', rosterId: 'roster-2', decision: 'RELEASE',
+            member: { id: 'member-2', teamName: 'B', user: { username: 'luigi' } }, roster: { contract: null },
+          }),
+        ],
+      })
+
+      const result = await getIndemnityPhase('session-1', 'user-1')
+      const data = result.data as { players: Array<{ decision: string | null; hasDecided: boolean }>; totals: { released: number; kept: number } }
+
+      expect(data.players[0]!.decision).toBe('KEEP')
+      expect(data.players[1]).toMatchObject({ decision: null, hasDecided: true })
+      expect(data.totals).toMatchObject({ kept: 1, released: 0 })
+    })
+  })
+
+  describe('recordIndemnityDecisions', () => {
+    const phase = {
+      id: 'phase-1',
+      sessionId: 'session-1',
+      status: 'DECISIONS',
+      decisionDeadline: null,
+      session: { leagueId: 'league-1' },
+      decisions: [decisionRow({ decision: 'KEEP' })],
+    }
+
+    it('should accept unchanged decisions even after the phase is closed', async () => {
+      mockPrisma.indemnityPhase.findUnique.mockResolvedValue({ ...phase, status: 'ADMIN_REVIEW' })
+
+      const result = await recordIndemnityDecisions('session-1', 'member-1', [{ rosterId: 'roster-1', decision: 'KEEP' }])
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.indemnityDecision.update).not.toHaveBeenCalled()
+    })
+
+    it('should reject changes after the deadline', async () => {
+      mockPrisma.indemnityPhase.findUnique.mockResolvedValue({ ...phase, decisionDeadline: new Date(Date.now() - 60_000) })
+
+      const result = await recordIndemnityDecisions('session-1', 'member-1', [{ rosterId: 'roster-1', decision: 'RELEASE' }])
+
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('scadenza')
+    })
+
+    it('should reject players not in the phase', async () => {
+      mockPrisma.indemnityPhase.findUnique.mockResolvedValue(phase)
+
+      const result = await recordIndemnityDecisions('session-1', 'member-1', [{ rosterId: 'roster-x', decision: 'RELEASE' }])
+
+      expect(result.success).toBe(false)
+    })
+
+    it('should save changes and move to admin review when everyone has decided', async () => {
+      mockPrisma.indemnityPhase.findUnique.mockResolvedValue(phase)
+      mockPrisma.indemnityDecision.update.mockResolvedValue({})
+      mockPrisma.leagueMember.findUniqueOrThrow.mockResolvedValue({ id: 'member-1', user: { username: 'mario' } })
+      mockPrisma.indemnityDecision.findMany.mockResolvedValue([
+        { memberId: 'member-1', decision: 'RELEASE' },
+        { memberId: 'member-2', decision: 'KEEP' },
+      ])
+
+      const result = await recordIndemnityDecisions('session-1', 'member-1', [{ rosterId: 'roster-1', decision: 'RELEASE' }])
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.indemnityDecision.update).toHaveBeenCalledWith({
+        where: { id: 'dec-1' },
+        data: expect.objectContaining({ decision: 'RELEASE', decidedByAdmin: false }),
+      })
+      expect(mockPrisma.indemnityPhase.updateMany).toHaveBeenCalledWith({
+        where: { id: 'phase-1', status: 'DECISIONS' },
+        data: expect.objectContaining({ status: 'ADMIN_REVIEW' }),
+      })
+      expect(mockPublish).toHaveBeenCalledWith(DomainEventTypes.INDEMNITY_DECISIONS_SUBMITTED, expect.objectContaining({
+        memberId: 'member-1',
+        decidedCount: 1,
+        totalCount: 1,
+        allDecided: true,
+        totalMembers: 2,
+      }))
+    })
+  })
+
+  describe('consolidateIndemnityPhase', () => {
+    beforeEach(() => {
+      mockPrisma.marketSession.findUnique.mockResolvedValue({ id: 'session-1', leagueId: 'league-1' })
+      mockPrisma.leagueMember.findFirst.mockResolvedValue({ id: 'admin-member', role: 'ADMIN' })
+      mockPrisma.indemnityPhase.findUnique.mockResolvedValue({ id: 'phase-1', status: 'ADMIN_REVIEW' })
+    })
+
+    it('should require the admin review status', async () => {
+      mockPrisma.indemnityPhase.findUnique.mockResolvedValue({ id: 'phase-1', status: 'DECISIONS' })
+
+      const result = await consolidateIndemnityPhase('session-1', 'admin-1')
+
+      expect(result.success).toBe(false)
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should release with compensation, keep the others and journal the operation', async () => {
+      const contract = { id: 'contract-1', salary: 10, duration: 2, rescissionClause: 70 }
+      mockPrisma.indemnityDecision.findMany.mockResolvedValue([
+        decisionRow({ decision: 'RELEASE', compensation: 80, roster: { status: 'ACTIVE', contract } }),
+        decisionRow({
+          id: 'dec-2', rosterId: 'roster-2', playerId: 'player-2', exitReason: 'RETROCESSO', decision: 'KEEP',
+          player: { id: 'player-2', name: 'Zapata' },
+          roster: { status: 'ACTIVE', contract: { ...contract, id: 'contract-2' } },
+        }),
+      ])
+      mockPrisma.leagueMember.findMany.mockResolvedValue([
+        { id: 'member-1', currentBudget: 200, preConsolidationBudget: null },
+      ])
+
+      const result = await consolidateIndemnityPhase('session-1', 'admin-1')
+
+      expect(result.success).toBe(true)
+      expect(result.data).toEqual({ released: 1, kept: 1, totalCompensation: 80 })
+      expect(mockPrisma.leagueMember.update).toHaveBeenCalledWith({
+        where: { id: 'member-1' },
+        data: { preConsolidationBudget: 200 },
+      })
+      expect(mockPrisma.leagueMember.update).toHaveBeenCalledWith({
+        where: { id: 'member-1' },
+        data: { currentBudget: { increment: 80 } },
+      })
+      expect(mockPrisma.playerContract.delete).toHaveBeenCalledWith({ where: { id: 'contract-1' } })
+      expect(mockPrisma.playerContract.delete).toHaveBeenCalledTimes(1)
+      expect(mockPrisma.indemnityPhase.update).toHaveBeenCalledWith({
+        where: { id: 'phase-1' },
+        data: expect.objectContaining({ status: 'CONSOLIDATED' }),
+      })
+      expect(mockRecordCompensation).toHaveBeenCalledWith(mockPrisma, expect.objectContaining({
+        operation: 'INDEMNITIES_CONSOLIDATED',
+        entityId: 'phase-1',
+      }))
+      expect(mockPublish).toHaveBeenCalledWith(DomainEventTypes.INDEMNITIES_CONSOLIDATED, expect.objectContaining({
+        movements: [
+          expect.objectContaining({ movementType: 'ABROAD_COMPENSATION', price: 80 }),
+          expect.objectContaining({ movementType: 'RELEGATION_KEEP', toMemberId: 'member-1' }),
+        ],
+      }))
+    })
+
+    it('should refuse to consolidate with missing decisions', async () => {
+      mockPrisma.indemnityDecision.findMany.mockResolvedValue([decisionRow({ roster: { status: 'ACTIVE', contract: null } })])
+
+      const result = await consolidateIndemnityPhase('session-1', 'admin-1')
+
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('Osimhen')
+    })
+  })
+
+  describe('processIndemnityDeadlines', () => {
+    it('should close expired phases and remind managers with pending decisions once', async () => {
+      const now = new Date('2026-10-18T10:00:00Z')
+      const deadline = new Date('2026-10-18T20:00:00Z')
+      mockPrisma.indemnityPhase.updateMany.mockResolvedValue({ count: 1 })
+      mockPrisma.indemnityPhase.findMany.mockResolvedValue([{
+        id: 'phase-2',
+        decisionDeadline: deadline,
+        session: { league: { name: 'Lega' } },
+        decisions: [
+          { player: { name: 'Osimhen' }, member: { userId: 'user-1' } },
+          { player: { name: 'Lukaku' }, member: { userId: 'user-1' } },
+          { player: { name: 'Zapata' }, member: { userId: 'user-2' } },
+        ],
+      }])
+
+      const result = await processIndemnityDeadlines(now)
+
+      expect(result.data).toEqual({ reminded: 2, closed: 1 })
+      expect(mockPrisma.indemnityPhase.updateMany).toHaveBeenCalledWith({
+        where: { status: 'DECISIONS', decisionDeadline: { lte: now } },
+        data: { status: 'ADMIN_REVIEW', reviewStartedAt: now },
+      })
+      expect(mockNotify).toHaveBeenCalledWith('user-1', 'Lega', ['Osimhen', 'Lukaku'], deadline)
+      expect(mockPrisma.indemnityPhase.update).toHaveBeenCalledWith({
+        where: { id: 'phase-2' },
+        data: { reminderSentAt: now },
+      })
+    })
+  })
+})
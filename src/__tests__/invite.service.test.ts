@@ -423,6 +423,24 @@ describe('Invite Service', () => {
       expect(result.message).toBe('La lega ha raggiunto il numero massimo di partecipanti')
     })
 
+    it('returns error when league requires a verified email and user is not verified', async () => {
+      mockPrisma.leagueInvite.findUnique.mockResolvedValue({
+        id: 'invite-1',
+        status: 'PENDING',
+        expiresAt: new Date('2099-01-01'),
+        email: 'test@email.com',
+        leagueId: 'league-1',
+        league: { status: 'DRAFT', requireVerifiedEmail: true, members: [], maxParticipants: 8, initialBudget: 200, name: 'Liga' },
+      })
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'user-1', email: 'test@email.com', emailVerified: false })
+
+      const result = await inviteService.acceptInvite('token-1', 'user-1', 'My Team')
+
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('email verificata')
+      expect(mockPrisma.leagueMember.create).not.toHaveBeenCalled()
+    })
+
     it('accepts invite successfully and creates member', async () => {
       mockPrisma.leagueInvite.findUnique.mockResolvedValue({
         id: 'invite-1',
@@ -73,6 +73,12 @@ vi.mock('@prisma/client', () => ({
   },
   JoinType: { CREATOR: 'CREATOR', INVITE: 'INVITE', REQUEST: 'REQUEST' },
   TradeStatus: { ACCEPTED: 'ACCEPTED' },
+  Prisma: { DbNull: 'DbNull' },
+}))
+
+// Mock audit log
+vi.mock('../services/admin.service', () => ({
+  logAction: vi.fn().mockResolvedValue(undefined),
 }))
 
 // Mock player-stats.service to avoid real DB calls
@@ -380,6 +386,42 @@ describe('League Service', () => {
       expect(result.success).toBe(false)
       expect(result.message).toContain('nome della squadra')
     })
+
+    it('should reject unverified users when the league requires a verified email', async () => {
+      mockPrisma.league.findUnique.mockResolvedValue({
+        id: 'league-1',
+        status: 'DRAFT',
+        isPublic: true,
+        requireVerifiedEmail: true,
+        maxParticipants: 10,
+        members: [{ role: 'ADMIN', user: { email: 'admin@test.it' } }],
+      })
+      mockPrisma.user.findUnique.mockResolvedValue({ emailVerified: false })
+
+      const result = await leagueService.requestJoinLeague('league-1', 'user-2', 'My Team')
+
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('email verificata')
+      expect(mockPrisma.leagueMember.create).not.toHaveBeenCalled()
+    })
+
+    it('should accept verified users when the league requires a verified email', async () => {
+      mockPrisma.league.findUnique.mockResolvedValue({
+        id: 'league-1',
+        status: 'DRAFT',
+        isPublic: true,
+        requireVerifiedEmail: true,
+        maxParticipants: 10,
+        members: [{ role: 'ADMIN', user: { email: 'admin@test.it' } }],
+      })
+      mockPrisma.user.findUnique.mockResolvedValue({ emailVerified: true })
+      mockPrisma.leagueMember.findUnique.mockResolvedValue(null)
+      mockPrisma.leagueMember.create.mockResolvedValue({ id: 'member-2', status: 'PENDING' })
+
+      const result = await leagueService.requestJoinLeague('league-1', 'user-2', 'My Team')
+
+      expect(result.success).toBe(true)
+    })
   })
 
   // ==================== updateMemberStatus ====================
@@ -560,6 +602,132 @@ describe('League Service', () => {
       expect(result.success).toBe(false)
       expect(result.message).toBe('La lega è già stata avviata')
     })
+
+    it('should return error when the contract ruleset is not valid', async () => {
+      mockPrisma.leagueMember.findFirst.mockResolvedValue({
+        id: 'admin-1',
+        role: 'ADMIN',
+        status: 'ACTIVE',
+      })
+      mockPrisma.league.findUnique.mockResolvedValue({
+        id: 'league-1',
+        status: 'DRAFT',
+        maxParticipants: 10,
+        requireEvenNumber: false,
+        goalkeeperSlots: 3,
+        defenderSlots: 8,
+        midfielderSlots: 8,
+        forwardSlots: 6,
+        contractRuleset: { maxRosterSize: 20 },
+        members: Array.from({ length: 6 }, (_, i) => ({ id: `member-${i}` })),
+      })
+
+      const result = await leagueService.startLeague('league-1', 'admin-user')
+
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('Regole contrattuali non valide')
+      expect(result.message).toContain('Rosa massima (20) inferiore agli slot della lega (25)')
+      expect(mockPrisma.league.update).not.toHaveBeenCalled()
+    })
+  })
+
+  // ==================== contract rules ====================
+
+  describe('updateLeagueContractRules', () => {
+    const adminWithLeague = {
+      id: 'admin-1',
+      role: 'ADMIN',
+      status: 'ACTIVE',
+      league: {
+        id: 'league-1',
+        goalkeeperSlots: 3,
+        defenderSlots: 8,
+        midfielderSlots: 8,
+        forwardSlots: 6,
+        contractRuleset: null,
+      },
+    }
+
+    const customRules = {
+      durationMultipliers: { '5': 13, '4': 11, '3': 9, '2': 7, '1': 3 },
+      maxDuration: 5,
+      minSalaryPercent: 10,
+      defaultSalaryPercent: 10,
+      defaultDuration: 3,
+      releaseCostPercent: 100,
+      maxRosterSize: 30,
+    }
+
+    it('should return error when not admin', async () => {
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(null)
+
+      const result = await leagueService.updateLeagueContractRules('league-1', 'user-1', { rules: customRules })
+
+      expect(result.success).toBe(false)
+      expect(result.message).toBe('Non autorizzato')
+    })
+
+    it('should reject changes during CONTRATTI phase', async () => {
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(adminWithLeague)
+      mockPrisma.marketSession.findFirst.mockResolvedValue({ id: 'session-1', currentPhase: 'CONTRATTI' })
+
+      const result = await leagueService.updateLeagueContractRules('league-1', 'admin-user', { rules: customRules })
+
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('fase CONTRATTI')
+      expect(mockPrisma.league.update).not.toHaveBeenCalled()
+    })
+
+    it('should reject an inconsistent ruleset', async () => {
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(adminWithLeague)
+      mockPrisma.marketSession.findFirst.mockResolvedValue(null)
+
+      const result = await leagueService.updateLeagueContractRules('league-1', 'admin-user', {
+        rules: { ...customRules, durationMultipliers: { '4': 11, '3': 9, '2': 7, '1': 3 } },
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('Moltiplicatore clausola per 5 semestri')
+      expect(mockPrisma.league.update).not.toHaveBeenCalled()
+    })
+
+    it('should save a valid ruleset', async () => {
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(adminWithLeague)
+      mockPrisma.marketSession.findFirst.mockResolvedValue(null)
+      mockPrisma.league.update.mockResolvedValue({})
+
+      const result = await leagueService.updateLeagueContractRules('league-1', 'admin-user', { rules: customRules })
+
+      expect(result.success).toBe(true)
+      const data = result.data as { rules: { maxDuration: number; durationMultipliers: Record<number, number> }; isCustom: boolean }
+      expect(data.isCustom).toBe(true)
+      expect(data.rules.maxDuration).toBe(5)
+      expect(data.rules.durationMultipliers[5]).toBe(13)
+      expect(mockPrisma.league.update).toHaveBeenCalledWith({
+        where: { id: 'league-1' },
+        data: { contractRuleset: expect.objectContaining({ maxDuration: 5, releaseCostPercent: 100 }) },
+      })
+    })
+
+    it('should reset to default rules when rules is null', async () => {
+      mockPrisma.leagueMember.findFirst.mockResolvedValue({
+        ...adminWithLeague,
+        league: { ...adminWithLeague.league, contractRuleset: customRules },
+      })
+      mockPrisma.marketSession.findFirst.mockResolvedValue(null)
+      mockPrisma.league.update.mockResolvedValue({})
+
+      const result = await leagueService.updateLeagueContractRules('league-1', 'admin-user', { rules: null })
+
+      expect(result.success).toBe(true)
+      const data = result.data as { rules: { maxDuration: number }; isCustom: boolean }
+      expect(data.isCustom).toBe(false)
+      expect(data.rules.maxDuration).toBe(4)
+      expect(mockPrisma.league.update).toHaveBeenCalledWith({
+        where: { id: 'league-1' },
+        data: { contractRuleset: 'DbNull' },
+      })
+    })
   })
 
   // ==================== leaveLeague ====================
@@ -0,0 +1,346 @@
+/**
+ * multi-party-trade.service.test.ts - Unit Tests for multi-party trades
+ *
+ * Tests proposal validation, the anti-reverse trade rule, all-party acceptance,
+ * atomic execution with one movement per transferred player, concurrent last
+ * acceptances, counter-offers restarting acceptance, rejection and cancellation.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mock = {
+    leagueMember: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    playerRoster: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    playerContract: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    marketSession: {
+      findFirst: vi.fn(),
+    },
+    tradeOffer: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    multiPartyTrade: {
+      create: vi.fn(),
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    multiPartyTradeParticipant: {
+      update: vi.fn(),
+      count: vi.fn(),
+    },
+    $transaction: vi.fn((cb: unknown) => (cb as (tx: typeof mock) => unknown)(mock)),
+  }
+  return { mockPrisma: mock }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+
+vi.mock('../services/domain-events.service', () => ({
+  publishDomainEvent: vi.fn().mockResolvedValue(undefined),
+}))
+
+vi.mock('../services/compensation.service', () => ({
+  captureState: vi.fn(() => Promise.resolve({ roster: {}, contract: {}, budgets: {} })),
+  recordCompensation: vi.fn(() => Promise.resolve({ id: 'compensation-1' })),
+}))
+
+vi.mock('../services/trade.service', () => ({
+  isInTradePhase: vi.fn().mockResolvedValue(true),
+}))
+
+import {
+  createMultiPartyTrade,
+  acceptMultiPartyTrade,
+  rejectMultiPartyTrade,
+  cancelMultiPartyTrade,
+  counterMultiPartyTrade,
+} from '../services/multi-party-trade.service'
+import { publishDomainEvent } from '../services/domain-events.service'
+import { recordCompensation } from '../services/compensation.service'
+import { DomainEventTypes } from '../shared/infrastructure/events'
+
+const MEMBERS = [
+  { id: 'member-a', userId: 'user-a', teamName: 'Team A', currentBudget: 100, user: { username: 'alice' } },
+  { id: 'member-b', userId: 'user-b', teamName: 'Team B', currentBudget: 50, user: { username: 'bob' } },
+  { id: 'member-c', userId: 'user-c', teamName: 'Team C', currentBudget: 20, user: { username: 'carla' } },
+]
+
+const ROSTERS = [
+  { id: 'roster-a', leagueMemberId: 'member-a' },
+  { id: 'roster-b', leagueMemberId: 'member-b' },
+  { id: 'roster-c', leagueMemberId: 'member-c' },
+]
+
+// A -> B -> C -> A, plus 10 credits from B to C
+const TRANSFERS = [
+  { fromMemberId: 'member-a', toMemberId: 'member-b', rosterId: 'roster-a' },
+  { fromMemberId: 'member-b', toMemberId: 'member-c', rosterId: 'roster-b' },
+  { fromMemberId: 'member-c', toMemberId: 'member-a', rosterId: 'roster-c' },
+  { fromMemberId: 'member-b', toMemberId: 'member-c', rosterId: null, budget: 10 },
+]
+
+function makeTrade(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'mp-1',
+    marketSessionId: 'session-1',
+    proposerId: 'member-a',
+    status: 'PENDING',
+    expiresAt: new Date(Date.now() + 3600000),
+    parentTradeId: null,
+    marketSession: { leagueId: 'league-1' },
+    participants: MEMBERS.map((m, i) => ({
+      id: `part-${i}`,
+      memberId: m.id,
+      acceptedAt: m.id === 'member-a' ? new Date() : null,
+      member: { id: m.id, userId: m.userId, teamName: m.teamName, user: m.user },
+    })),
+    transfers: TRANSFERS.map((t, i) => ({ id: `tr-${i}`, budget: 0, ...t })),
+    ...overrides,
+  }
+}
+
+describe('multi-party-trade.service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.leagueMember.findFirst.mockResolvedValue({ id: 'member-a', userId: 'user-a' })
+    mockPrisma.leagueMember.findMany.mockResolvedValue(MEMBERS)
+    mockPrisma.playerRoster.findMany.mockResolvedValue(ROSTERS)
+    mockPrisma.playerContract.findMany.mockResolvedValue([])
+    mockPrisma.marketSession.findFirst.mockResolvedValue({ id: 'session-1' })
+    mockPrisma.multiPartyTrade.create.mockImplementation(() => Promise.resolve(makeTrade({ id: 'mp-new' })))
+    mockPrisma.multiPartyTrade.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.multiPartyTrade.findMany.mockResolvedValue([])
+    mockPrisma.tradeOffer.findMany.mockResolvedValue([])
+    mockPrisma.tradeOffer.findFirst.mockResolvedValue(null)
+    mockPrisma.multiPartyTrade.findFirst.mockResolvedValue(null)
+  })
+
+  describe('createMultiPartyTrade', () => {
+    it('creates the proposal with the proposer already accepted', async () => {
+      const result = await createMultiPartyTrade('league-1', 'user-a', ['member-b', 'member-c'], TRANSFERS)
+
+      expect(result.success).toBe(true)
+      const data = mockPrisma.multiPartyTrade.create.mock.calls[0]![0].data
+      expect(data.involvedPlayers).toEqual(['roster-a', 'roster-b', 'roster-c'])
+      expect(data.participants.create).toEqual([
+        { memberId: 'member-a', acceptedAt: expect.any(Date) },
+        { memberId: 'member-b', acceptedAt: null },
+        { memberId: 'member-c', acceptedAt: null },
+      ])
+      // One notification per other participant
+      expect(publishDomainEvent).toHaveBeenCalledTimes(2)
+    })
+
+    it('rejects proposals with fewer than three parties', async () => {
+      const result = await createMultiPartyTrade('league-1', 'user-a', ['member-b'], TRANSFERS.slice(0, 1))
+
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('almeno 3 partecipanti')
+      expect(mockPrisma.multiPartyTrade.create).not.toHaveBeenCalled()
+    })
+
+    it('rejects players not owned by the giving party', async () => {
+      mockPrisma.playerRoster.findMany.mockResolvedValue([
+        { id: 'roster-a', leagueMemberId: 'member-c' },
+        ROSTERS[1],
+        ROSTERS[2],
+      ])
+
+      const result = await createMultiPartyTrade('league-1', 'user-a', ['member-b', 'member-c'], TRANSFERS)
+
+      expect(result.success).toBe(false)
+      expect(result.message).toBe('Alcuni giocatori non sono nella rosa di chi li cede')
+    })
+
+    it('rejects outgoing budget above the available budget', async () => {
+      const result = await createMultiPartyTrade('league-1', 'user-a', ['member-b', 'member-c'], [
+        ...TRANSFERS.slice(0, 3),
+        { fromMemberId: 'member-c', toMemberId: 'member-b', budget: 30 },
+      ])
+
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('Team C: budget insufficiente')
+    })
+
+    it('rejects a reverse trade with a manager already traded with in the session', async () => {
+      mockPrisma.leagueMember.findMany
+        .mockResolvedValueOnce(MEMBERS)
+        .mockResolvedValueOnce(MEMBERS.slice(1))
+      mockPrisma.tradeOffer.findFirst.mockResolvedValue({ id: 'trade-1', status: 'ACCEPTED' })
+
+      const result = await createMultiPartyTrade('league-1', 'user-a', ['member-b', 'member-c'], TRANSFERS)
+
+      expect(result.success).toBe(false)
+      expect(result.message).toBe('Non puoi fare uno scambio inverso nella stessa sessione di mercato')
+      expect(mockPrisma.tradeOffer.findFirst).toHaveBeenCalledWith({
+        where: expect.objectContaining({ senderId: { in: ['user-b', 'user-c'] }, receiverId: 'user-a' }),
+      })
+      expect(mockPrisma.multiPartyTrade.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('acceptMultiPartyTrade', () => {
+    it('records the acceptance and waits for the other parties', async () => {
+      mockPrisma.multiPartyTrade.findUnique.mockResolvedValue(makeTrade())
+      mockPrisma.multiPartyTradeParticipant.count.mockResolvedValue(1)
+
+      const result = await acceptMultiPartyTrade('mp-1', 'user-b')
+
+      expect(result.success).toBe(true)
+      expect(result.data).toEqual({ executed: false, pendingCount: 1 })
+      expect(mockPrisma.multiPartyTradeParticipant.update).toHaveBeenCalledWith({
+        where: { id: 'part-1' },
+        data: { acceptedAt: expect.any(Date) },
+      })
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('executes the trade atomically once every party has accepted', async () => {
+      mockPrisma.multiPartyTrade.findUnique.mockResolvedValue(makeTrade())
+      mockPrisma.multiPartyTradeParticipant.count.mockResolvedValue(0)
+      mockPrisma.playerRoster.findMany
+        .mockResolvedValueOnce(ROSTERS)
+        .mockResolvedValueOnce(ROSTERS.map(r => ({
+          ...r,
+          playerId: `player-${r.id}`,
+          contract: { salary: 5, duration: 2, rescissionClause: 35 },
+        })))
+
+      const result = await acceptMultiPartyTrade('mp-1', 'user-c')
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.multiPartyTrade.updateMany).toHaveBeenCalledWith({
+        where: { id: 'mp-1', status: 'PENDING' },
+        data: { status: 'ACCEPTED', respondedAt: expect.any(Date) },
+      })
+      expect(mockPrisma.playerRoster.update).toHaveBeenCalledTimes(3)
+      expect(mockPrisma.playerRoster.update).toHaveBeenCalledWith({
+        where: { id: 'roster-a' },
+        data: { leagueMemberId: 'member-b', acquisitionType: 'TRADE' },
+      })
+      expect(mockPrisma.leagueMember.update).toHaveBeenCalledWith({
+        where: { id: 'member-b' },
+        data: { currentBudget: { decrement: 10 } },
+      })
+      expect(mockPrisma.leagueMember.update).toHaveBeenCalledWith({
+        where: { id: 'member-c' },
+        data: { currentBudget: { increment: 10 } },
+      })
+
+      const acceptedCall = vi.mocked(publishDomainEvent).mock.calls.find(c => c[0] === DomainEventTypes.TRADE_ACCEPTED)
+      const payload = acceptedCall?.[1] as { movements: Array<{ fromMemberId: string; toMemberId: string }> }
+      expect(payload.movements).toHaveLength(3)
+      expect(payload.movements[0]).toMatchObject({ fromMemberId: 'member-a', toMemberId: 'member-b', tradeId: 'mp-1' })
+      expect(recordCompensation).toHaveBeenCalledWith(mockPrisma, expect.objectContaining({
+        operation: 'MULTI_PARTY_TRADE_ACCEPTED',
+        entityId: 'mp-1',
+        steps: [
+          { kind: 'RECORD', model: 'multiPartyTrade', id: 'mp-1', data: { status: 'CANCELLED' } },
+          { kind: 'MOVEMENTS', filter: { tradeId: 'mp-1', movementTypes: ['TRADE'] } },
+        ],
+      }))
+    })
+
+    it('invalidates the proposal when a player changed owner in the meantime', async () => {
+      mockPrisma.multiPartyTrade.findUnique.mockResolvedValue(makeTrade())
+      mockPrisma.multiPartyTradeParticipant.count.mockResolvedValue(0)
+      mockPrisma.playerRoster.findMany.mockResolvedValue([ROSTERS[0], ROSTERS[1]])
+
+      const result = await acceptMultiPartyTrade('mp-1', 'user-c')
+
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('La proposta è stata invalidata')
+      // Validated inside the transaction, before any transfer
+      expect(mockPrisma.playerRoster.update).not.toHaveBeenCalled()
+      expect(mockPrisma.multiPartyTrade.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'mp-1', status: 'PENDING' },
+        data: { status: 'INVALIDATED', respondedAt: expect.any(Date) },
+      })
+    })
+
+    it('reports success to a last acceptance that lost the race to execute', async () => {
+      mockPrisma.multiPartyTrade.findUnique
+        .mockResolvedValueOnce(makeTrade())
+        .mockResolvedValueOnce({ status: 'ACCEPTED' })
+      mockPrisma.multiPartyTradeParticipant.count.mockResolvedValue(0)
+      mockPrisma.multiPartyTrade.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      const result = await acceptMultiPartyTrade('mp-1', 'user-c')
+
+      expect(result.success).toBe(true)
+      expect(result.data).toEqual({ executed: true })
+      expect(mockPrisma.playerRoster.update).not.toHaveBeenCalled()
+    })
+
+    it('rejects users who are not participants', async () => {
+      mockPrisma.multiPartyTrade.findUnique.mockResolvedValue(makeTrade())
+
+      const result = await acceptMultiPartyTrade('mp-1', 'user-z')
+
+      expect(result.success).toBe(false)
+      expect(result.message).toBe('Non partecipi a questo scambio')
+    })
+  })
+
+  describe('counterMultiPartyTrade', () => {
+    it('creates a new proposal accepted only by the counter-party', async () => {
+      mockPrisma.multiPartyTrade.findUnique.mockResolvedValue(makeTrade())
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(null)
+
+      const result = await counterMultiPartyTrade('mp-1', 'user-b', TRANSFERS.slice(0, 3))
+
+      expect(result.success).toBe(true)
+      const data = mockPrisma.multiPartyTrade.create.mock.calls[0]![0].data
+      expect(data.parentTradeId).toBe('mp-1')
+      expect(data.proposerId).toBe('member-b')
+      expect(data.participants.create).toEqual([
+        { memberId: 'member-b', acceptedAt: expect.any(Date) },
+        { memberId: 'member-a', acceptedAt: null },
+        { memberId: 'member-c', acceptedAt: null },
+      ])
+      expect(mockPrisma.multiPartyTrade.update).toHaveBeenCalledWith({
+        where: { id: 'mp-1' },
+        data: { status: 'COUNTERED', respondedAt: expect.any(Date) },
+      })
+    })
+  })
+
+  describe('rejectMultiPartyTrade / cancelMultiPartyTrade', () => {
+    it('lets any participant reject the proposal', async () => {
+      mockPrisma.multiPartyTrade.findUnique.mockResolvedValue(makeTrade())
+
+      const result = await rejectMultiPartyTrade('mp-1', 'user-c')
+
+      expect(result.success).toBe(true)
+      expect(publishDomainEvent).toHaveBeenCalledWith(DomainEventTypes.TRADE_REJECTED, { tradeId: 'mp-1', leagueId: 'league-1' })
+    })
+
+    it('only lets the proposer cancel', async () => {
+      mockPrisma.multiPartyTrade.findUnique.mockResolvedValue(makeTrade())
+
+      const denied = await cancelMultiPartyTrade('mp-1', 'user-b')
+      const allowed = await cancelMultiPartyTrade('mp-1', 'user-a')
+
+      expect(denied.success).toBe(false)
+      expect(allowed.success).toBe(true)
+      expect(mockPrisma.multiPartyTrade.update).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -0,0 +1,81 @@
+/**
+ * presence.service.test.ts - Unit Tests for room presence
+ *
+ * Tests that heartbeats from the three auction rooms share the presence store
+ * and that disconnect/reconnect transitions are broadcast once to the session.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+const { mockPrisma, mockTrigger } = vi.hoisted(() => ({
+  mockPrisma: {
+    marketSession: {
+      findFirst: vi.fn(),
+    },
+  },
+  mockTrigger: vi.fn(),
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+
+vi.mock('../services/pusher.service', () => ({
+  triggerMemberConnectionChanged: mockTrigger,
+}))
+
+import { registerPresence, getPresenceStatus, isAllPresent } from '../services/presence.service'
+import { InMemoryPresenceStore, PRESENCE_TIMEOUT_MS, setPresenceStore } from '../shared/infrastructure/presence'
+
+describe('presence.service', () => {
+  let now: number
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    setPresenceStore(new InMemoryPresenceStore())
+    now = 1_000_000
+    vi.spyOn(Date, 'now').mockImplementation(() => now)
+    mockPrisma.marketSession.findFirst.mockResolvedValue({ id: 'session-1' })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('broadcasts a connection only on the first heartbeat', async () => {
+    await registerPresence('AUCTION', 'session-1', 'member-1')
+    await registerPresence('AUCTION', 'session-1', 'member-1')
+
+    expect(mockTrigger).toHaveBeenCalledTimes(1)
+    expect(mockTrigger).toHaveBeenCalledWith('session-1', expect.objectContaining({
+      memberId: 'member-1',
+      scope: 'AUCTION',
+      isConnected: true,
+    }))
+    expect(mockPrisma.marketSession.findFirst).not.toHaveBeenCalled()
+  })
+
+  it('broadcasts a disconnection to the active session of a league room', async () => {
+    await registerPresence('RUBATA', 'league-1', 'member-1')
+    mockTrigger.mockClear()
+    now += PRESENCE_TIMEOUT_MS
+
+    const status = await getPresenceStatus('RUBATA', 'league-1')
+    await getPresenceStatus('RUBATA', 'league-1')
+
+    expect(status.get('member-1')).toBe(false)
+    expect(mockTrigger).toHaveBeenCalledTimes(1)
+    expect(mockTrigger).toHaveBeenCalledWith('session-1', expect.objectContaining({
+      memberId: 'member-1',
+      scope: 'RUBATA',
+      isConnected: false,
+    }))
+  })
+
+  it('requires every member to be connected', async () => {
+    await registerPresence('SVINCOLATI', 'league-1', 'member-1')
+
+    expect(await isAllPresent('SVINCOLATI', 'league-1', ['member-1'])).toBe(true)
+    expect(await isAllPresent('SVINCOLATI', 'league-1', ['member-1', 'member-2'])).toBe(false)
+  })
+})
@@ -0,0 +1,222 @@
+/**
+ * prize-rules.test.ts - Unit Tests for rule-based prize categories
+ *
+ * Tests ranking and tie handling of prize rules, and the preview/apply
+ * flow that aligns session prizes to the rules before finalization.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mock = {
+    marketSession: {
+      findUnique: vi.fn(),
+    },
+    leagueMember: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+    },
+    prizePhaseConfig: {
+      findUnique: vi.fn(),
+    },
+    prizeCategory: {
+      findMany: vi.fn(),
+    },
+    sessionPrize: {
+      upsert: vi.fn(),
+    },
+    playerContract: {
+      findMany: vi.fn(),
+    },
+    playerRoster: {
+      findMany: vi.fn(),
+    },
+    playerMatchRating: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+    },
+    matchdayScore: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  }
+  return { mockPrisma: mock }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+
+vi.mock('../services/admin.service', () => ({ logAction: vi.fn() }))
+
+vi.mock('../services/domain-events.service', () => ({ publishDomainEvent: vi.fn() }))
+
+vi.mock('../services/scoring.service', () => ({ getSeasonStandings: vi.fn() }))
+
+vi.mock('../services/standings-import.service', () => ({ getImportedStandings: vi.fn() }))
+
+import { previewPrizeRules, applyPrizeRules } from '../services/prize-phase.service'
+import { getSeasonStandings } from '../services/scoring.service'
+import { getImportedStandings } from '../services/standings-import.service'
+import { publishDomainEvent } from '../services/domain-events.service'
+import { DomainEventTypes } from '../shared/infrastructure/events'
+import { applyPrizeRule, parsePrizeRule, validatePrizeAmount, validatePrizeRule } from '../utils/prize-rules'
+
+describe('applyPrizeRule', () => {
+  it('assigns amounts by position, skipping members without data', () => {
+    const result = applyPrizeRule(
+      { metric: 'STANDINGS', direction: 'TOP', amounts: [80, 60] },
+      [{ memberId: 'a', value: 50 }, { memberId: 'b', value: 70 }, { memberId: 'c', value: null }]
+    )
+
+    expect([...result]).toEqual([['b', 80], ['a', 60]])
+  })
+
+  it('averages the amounts of tied positions', () => {
+    const result = applyPrizeRule(
+      { metric: 'BALANCE', direction: 'BOTTOM', amounts: [-30, -10, -5] },
+      [{ memberId: 'a', value: 10 }, { memberId: 'b', value: 10 }, { memberId: 'c', value: 20 }, { memberId: 'd', value: 30 }]
+    )
+
+    expect(Object.fromEntries(result)).toEqual({ a: -20, b: -20, c: -5 })
+  })
+
+  it('rejects out-of-range amounts and ignores malformed stored rules', () => {
+    expect(validatePrizeRule({ metric: 'BUDGET', direction: 'TOP', amounts: [1000] })).toHaveLength(1)
+    expect(validatePrizeAmount(-10)).toBeNull()
+    expect(validatePrizeAmount(2.5)).not.toBeNull()
+    expect(parsePrizeRule({ metric: 'UNKNOWN', direction: 'TOP', amounts: [10] })).toBeNull()
+    expect(parsePrizeRule(null)).toBeNull()
+  })
+})
+
+describe('prize rules preview and apply', () => {
+  const members = [
+    { id: 'm1', teamName: 'Alfa', currentBudget: 100, user: { username: 'alfa' } },
+    { id: 'm2', teamName: 'Beta', currentBudget: 100, user: { username: 'beta' } },
+  ]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.marketSession.findUnique.mockResolvedValue({ id: 'session-1', leagueId: 'league-1' })
+    mockPrisma.leagueMember.findFirst.mockResolvedValue({ id: 'm1', role: 'ADMIN' })
+    mockPrisma.prizePhaseConfig.findUnique.mockResolvedValue({ baseReincrement: 100, isFinalized: false })
+    mockPrisma.leagueMember.findMany.mockResolvedValue(members)
+    mockPrisma.matchdayScore.findFirst.mockResolvedValue({ season: '2025-2026' })
+    mockPrisma.prizeCategory.findMany.mockResolvedValue([{
+      id: 'cat-1',
+      name: 'Campione',
+      isSystemPrize: false,
+      rule: { metric: 'STANDINGS', direction: 'TOP', amounts: [50] },
+      managerPrizes: [{ leagueMemberId: 'm1', amount: 50 }],
+    }])
+    vi.mocked(getSeasonStandings).mockResolvedValue([
+      { memberId: 'm2', teamName: 'Beta', username: 'beta', total: 120, roundsPlayed: 3, rank: 1 },
+      { memberId: 'm1', teamName: 'Alfa', username: 'alfa', total: 100, roundsPlayed: 3, rank: 2 },
+    ])
+    vi.mocked(getImportedStandings).mockResolvedValue(null)
+    mockPrisma.$transaction.mockImplementation((fn: (tx: typeof mockPrisma) => unknown) => fn(mockPrisma))
+    mockPrisma.sessionPrize.upsert.mockImplementation(({ create }: { create: { leagueMemberId: string } }) =>
+      Promise.resolve({ id: `prize-${create.leagueMemberId}` }))
+  })
+
+  it('returns the per-category diff and the changed member totals', async () => {
+    const result = await previewPrizeRules('session-1', 'admin-1')
+
+    expect(result.success).toBe(true)
+    expect(result.data).toMatchObject({
+      hasChanges: true,
+      categories: [{ categoryId: 'cat-1', noData: false, changes: [
+        { memberId: 'm1', current: 50, proposed: 0 },
+        { memberId: 'm2', current: 0, proposed: 50 },
+      ] }],
+      members: [
+        { memberId: 'm1', currentTotal: 150, proposedTotal: 100 },
+        { memberId: 'm2', currentTotal: 100, proposedTotal: 150 },
+      ],
+    })
+  })
+
+  it('prefers the imported standings over computed matchdays', async () => {
+    vi.mocked(getImportedStandings).mockResolvedValue({
+      importId: 'import-1',
+      kind: 'STANDINGS',
+      season: 1,
+      fileName: 'classifica.xlsx',
+      importedAt: new Date(),
+      entries: [{ memberId: 'm1', teamName: 'Alfa', username: 'alfa', points: 80, rank: 1, roundsPlayed: 0 }],
+    })
+
+    const result = await previewPrizeRules('session-1', 'admin-1')
+
+    expect(result.data).toMatchObject({ hasChanges: false })
+    expect(getSeasonStandings).not.toHaveBeenCalled()
+  })
+
+  it('keeps manual amounts when the metric has no data', async () => {
+    mockPrisma.matchdayScore.findFirst.mockResolvedValue(null)
+
+    const result = await previewPrizeRules('session-1', 'admin-1')
+
+    expect(result.data).toMatchObject({ hasChanges: false, members: [], categories: [{ noData: true, changes: [] }] })
+  })
+
+  it('writes proposed amounts through the prize path and publishes PRIZE_ASSIGNED', async () => {
+    const result = await applyPrizeRules('session-1', 'admin-1')
+
+    expect(result.success).toBe(true)
+    expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1)
+    expect(mockPrisma.sessionPrize.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { prizeCategoryId_leagueMemberId: { prizeCategoryId: 'cat-1', leagueMemberId: 'm1' } },
+      update: { amount: 0 },
+    }))
+    expect(mockPrisma.sessionPrize.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      update: { amount: 50 },
+    }))
+    expect(publishDomainEvent).toHaveBeenCalledWith(DomainEventTypes.PRIZE_ASSIGNED, {
+      prizeId: 'prize-m2', memberId: 'm2', categoryId: 'cat-1', amount: 50,
+    })
+    expect(publishDomainEvent).toHaveBeenCalledTimes(2)
+  })
+
+  it('ranks the top scorer team by season goals of rostered players', async () => {
+    mockPrisma.prizeCategory.findMany.mockResolvedValue([{
+      id: 'cat-2',
+      name: 'Capocannoniere',
+      isSystemPrize: false,
+      rule: { metric: 'TOP_SCORER', direction: 'TOP', amounts: [20] },
+      managerPrizes: [],
+    }])
+    mockPrisma.playerMatchRating.findFirst.mockResolvedValue({ season: '2025-2026' })
+    mockPrisma.playerRoster.findMany.mockResolvedValue([
+      { leagueMemberId: 'm1', playerId: 'p1' },
+      { leagueMemberId: 'm2', playerId: 'p2' },
+      { leagueMemberId: 'm2', playerId: 'p3' },
+    ])
+    mockPrisma.playerMatchRating.findMany.mockResolvedValue([
+      { playerId: 'p1', goals: 3 },
+      { playerId: 'p2', goals: 2 },
+      { playerId: 'p3', goals: 2 },
+      { playerId: 'p3', goals: null },
+    ])
+
+    const result = await previewPrizeRules('session-1', 'admin-1')
+
+    expect(mockPrisma.playerMatchRating.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { season: '2025-2026', playerId: { in: ['p1', 'p2', 'p3'] } },
+    }))
+    expect(result.data).toMatchObject({
+      categories: [{ categoryId: 'cat-2', changes: [{ memberId: 'm2', current: 0, proposed: 20 }] }],
+    })
+  })
+
+  it('rejects non-admin users', async () => {
+    mockPrisma.leagueMember.findFirst.mockResolvedValue(null)
+
+    const result = await applyPrizeRules('session-1', 'user-2')
+
+    expect(result).toEqual({ success: false, message: 'Non autorizzato' })
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+  })
+})
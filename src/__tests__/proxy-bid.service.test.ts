@@ -0,0 +1,209 @@
+/**
+ * proxy-bid.service.test.ts - Unit Tests for proxy (auto) bidding
+ *
+ * Tests the proxy war planner (leader without proxy, highest ceiling wins,
+ * earliest ceiling wins ties), the resolution loop that places automatic bids
+ * through the regular bid functions, and ceiling validation.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { mockPrisma, mockPlaceBid, mockGetMyRosterSlots } = vi.hoisted(() => {
+  const mock = {
+    leagueMember: {
+      findFirst: vi.fn(),
+    },
+    marketSession: {
+      findFirst: vi.fn(),
+    },
+    serieAPlayer: {
+      findUnique: vi.fn(),
+    },
+    playerContract: {
+      aggregate: vi.fn(),
+    },
+    auction: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+    },
+    proxyBid: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+  }
+  return { mockPrisma: mock, mockPlaceBid: vi.fn(), mockGetMyRosterSlots: vi.fn() }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+
+vi.mock('../services/app-log.service', () => ({ logError: vi.fn() }))
+
+vi.mock('../services/auction.service', () => ({
+  placeBid: mockPlaceBid,
+  getMyRosterSlots: mockGetMyRosterSlots,
+}))
+
+import { planProxyBids, runProxyBidding, setProxyBid, type ProxyContender } from '../services/proxy-bid.service'
+
+function contender(memberId: string, maxAmount: number, setAt: string): ProxyContender {
+  return { memberId, userId: `user-${memberId}`, maxAmount, ceilingSetAt: new Date(setAt) }
+}
+
+describe('planProxyBids', () => {
+  it('outbids a leader without proxy by the minimum increment', () => {
+    const plan = planProxyBids(10, 'member-x', [contender('a', 30, '2026-01-01')])
+
+    expect(plan).toEqual([{ memberId: 'a', userId: 'user-a', amount: 11 }])
+  })
+
+  it('resolves a proxy war at the runner-up ceiling plus one', () => {
+    const plan = planProxyBids(10, 'member-x', [
+      contender('a', 30, '2026-01-01'),
+      contender('b', 20, '2026-01-01'),
+    ])
+
+    expect(plan).toEqual([
+      { memberId: 'b', userId: 'user-b', amount: 20 },
+      { memberId: 'a', userId: 'user-a', amount: 21 },
+    ])
+  })
+
+  it('gives an equal ceiling to whoever set it first', () => {
+    const plan = planProxyBids(10, 'member-x', [
+      contender('late', 25, '2026-01-02'),
+      contender('early', 25, '2026-01-01'),
+    ])
+
+    expect(plan).toEqual([
+      { memberId: 'late', userId: 'user-late', amount: 24 },
+      { memberId: 'early', userId: 'user-early', amount: 25 },
+    ])
+  })
+
+  it('does nothing when no challenger ceiling exceeds the current price', () => {
+    expect(planProxyBids(20, 'a', [contender('a', 30, '2026-01-01'), contender('b', 20, '2026-01-01')])).toEqual([])
+  })
+})
+
+describe('runProxyBidding', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('places automatic bids through the regular bid function', async () => {
+    const base = {
+      id: 'auction-1',
+      type: 'FREE_BID',
+      status: 'ACTIVE',
+      leagueId: 'league-1',
+      playerId: 'player-1',
+      sellerId: null,
+      marketSessionId: 'session-1',
+      marketSession: { currentPhase: 'ASTA_LIBERA' },
+    }
+    mockPrisma.auction.findUnique
+      .mockResolvedValueOnce({ ...base, currentPrice: 10, bids: [{ bidderId: 'member-x' }] })
+      .mockResolvedValueOnce({ ...base, currentPrice: 21, bids: [{ bidderId: 'a' }] })
+    mockPrisma.proxyBid.findMany.mockResolvedValue([
+      { memberId: 'a', maxAmount: 30, ceilingSetAt: new Date('2026-01-01'), member: { userId: 'user-a', status: 'ACTIVE' } },
+      { memberId: 'b', maxAmount: 20, ceilingSetAt: new Date('2026-01-01'), member: { userId: 'user-b', status: 'ACTIVE' } },
+    ])
+    mockPlaceBid.mockResolvedValue({ success: true })
+
+    const placed = await runProxyBidding('auction-1')
+
+    expect(placed).toBe(2)
+    expect(mockPlaceBid).toHaveBeenNthCalledWith(1, 'auction-1', 'user-b', 20, true)
+    expect(mockPlaceBid).toHaveBeenNthCalledWith(2, 'auction-1', 'user-a', 21, true)
+  })
+
+  it('skips the seller and stops a proxy whose bid is rejected', async () => {
+    mockPrisma.auction.findUnique.mockResolvedValue({
+      id: 'auction-1',
+      type: 'FREE_BID',
+      status: 'ACTIVE',
+      leagueId: 'league-1',
+      playerId: 'player-1',
+      sellerId: 'seller',
+      currentPrice: 10,
+      marketSessionId: 'session-1',
+      marketSession: { currentPhase: 'ASTA_LIBERA' },
+      bids: [{ bidderId: 'member-x' }],
+    })
+    mockPrisma.proxyBid.findMany.mockResolvedValue([
+      { memberId: 'seller', maxAmount: 50, ceilingSetAt: new Date('2026-01-01'), member: { userId: 'user-seller', status: 'ACTIVE' } },
+      { memberId: 'a', maxAmount: 30, ceilingSetAt: new Date('2026-01-01'), member: { userId: 'user-a', status: 'ACTIVE' } },
+    ])
+    mockPlaceBid.mockResolvedValue({ success: false, message: 'Budget insufficiente' })
+
+    const placed = await runProxyBidding('auction-1')
+
+    expect(placed).toBe(0)
+    expect(mockPlaceBid).toHaveBeenCalledTimes(1)
+    expect(mockPlaceBid).toHaveBeenCalledWith('auction-1', 'user-a', 11, true)
+  })
+})
+
+describe('setProxyBid', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.leagueMember.findFirst.mockResolvedValue({ id: 'member-1', currentBudget: 100 })
+    mockPrisma.marketSession.findFirst.mockResolvedValue({ id: 'session-1', currentPhase: 'ASTA_LIBERA' })
+    mockPrisma.serieAPlayer.findUnique.mockResolvedValue({ id: 'player-1', position: 'C' })
+    mockPrisma.playerContract.aggregate.mockResolvedValue({ _sum: { salary: 30 } })
+    mockGetMyRosterSlots.mockResolvedValue({ success: true, data: { slots: { C: { filled: 3, total: 8 } } } })
+    mockPrisma.auction.findFirst.mockResolvedValue(null)
+  })
+
+  it('rejects a ceiling above the available balance', async () => {
+    const result = await setProxyBid('league-1', 'user-1', 'player-1', 80)
+
+    expect(result.success).toBe(false)
+    expect(result.message).toContain('bilancio')
+    expect(mockPrisma.proxyBid.create).not.toHaveBeenCalled()
+  })
+
+  it('rejects a ceiling when the role slots are full', async () => {
+    mockGetMyRosterSlots.mockResolvedValue({ success: true, data: { slots: { C: { filled: 8, total: 8 } } } })
+
+    const result = await setProxyBid('league-1', 'user-1', 'player-1', 40)
+
+    expect(result.success).toBe(false)
+    expect(mockPrisma.proxyBid.create).not.toHaveBeenCalled()
+  })
+
+  it('rejects a ceiling not above the live price', async () => {
+    mockPrisma.auction.findFirst.mockResolvedValue({ id: 'auction-1', currentPrice: 40 })
+
+    const result = await setProxyBid('league-1', 'user-1', 'player-1', 40)
+
+    expect(result.success).toBe(false)
+    expect(mockPrisma.proxyBid.create).not.toHaveBeenCalled()
+  })
+
+  it('keeps the original ceiling time when the amount is unchanged', async () => {
+    mockPrisma.proxyBid.findUnique.mockResolvedValue({ id: 'proxy-1', maxAmount: 40 })
+    mockPrisma.proxyBid.update.mockResolvedValue({ id: 'proxy-1', maxAmount: 40 })
+
+    const result = await setProxyBid('league-1', 'user-1', 'player-1', 40)
+
+    expect(result.success).toBe(true)
+    expect(mockPrisma.proxyBid.update).toHaveBeenCalledWith({ where: { id: 'proxy-1' }, data: {} })
+  })
+
+  it('creates a new ceiling', async () => {
+    mockPrisma.proxyBid.findUnique.mockResolvedValue(null)
+    mockPrisma.proxyBid.create.mockResolvedValue({ id: 'proxy-1', maxAmount: 40 })
+
+    const result = await setProxyBid('league-1', 'user-1', 'player-1', 40)
+
+    expect(result.success).toBe(true)
+    expect(mockPrisma.proxyBid.create).toHaveBeenCalledWith({
+      data: { sessionId: 'session-1', memberId: 'member-1', playerId: 'player-1', maxAmount: 40 },
+    })
+  })
+})
@@ -0,0 +1,97 @@
+/**
+ * quotation-history.test.ts - Unit Tests for per-player quotation history
+ *
+ * Tests the chronological history of a player's quotation and the
+ * risers/fallers report between the last two quotazioni uploads.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mock = {
+    quotazioniUpload: {
+      findMany: vi.fn(),
+    },
+    playerQuotationHistory: {
+      findMany: vi.fn(),
+    },
+    playerRoster: {
+      findMany: vi.fn(),
+    },
+  }
+  return { mockPrisma: mock }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+
+import { getQuotationHistory, getQuotationMovers } from '../services/player.service'
+
+const uploads = [
+  { id: 'upload-2', createdAt: new Date('2026-10-15') },
+  { id: 'upload-1', createdAt: new Date('2026-09-01') },
+]
+
+function entry(playerId: string, uploadId: string, quotation: number) {
+  return { playerId, uploadId, quotation, player: { name: playerId, team: 'Inter', position: 'A' } }
+}
+
+describe('getQuotationHistory', () => {
+  it('returns the player history in chronological order', async () => {
+    mockPrisma.playerQuotationHistory.findMany.mockResolvedValue([])
+
+    await getQuotationHistory('player-1')
+
+    expect(mockPrisma.playerQuotationHistory.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { playerId: 'player-1' },
+      orderBy: { recordedAt: 'asc' },
+    }))
+  })
+})
+
+describe('getQuotationMovers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.quotazioniUpload.findMany.mockResolvedValue(uploads)
+    mockPrisma.playerQuotationHistory.findMany.mockResolvedValue([
+      entry('lautaro', 'upload-1', 30), entry('lautaro', 'upload-2', 36),
+      entry('thuram', 'upload-1', 25), entry('thuram', 'upload-2', 21),
+      entry('barella', 'upload-1', 15), entry('barella', 'upload-2', 15),
+      entry('nuovo', 'upload-2', 5),
+      entry('dimarco', 'upload-1', 12), entry('dimarco', 'upload-2', 14),
+    ])
+  })
+
+  it('ranks risers and fallers, skipping unchanged and new players', async () => {
+    const result = await getQuotationMovers({ limit: 5 })
+
+    expect(result.previousUpload?.id).toBe('upload-1')
+    expect(result.risers.map(m => [m.playerId, m.delta])).toEqual([['lautaro', 6], ['dimarco', 2]])
+    expect(result.fallers).toMatchObject([{ playerId: 'thuram', previousQuotation: 25, quotation: 21, delta: -4, owner: null }])
+    expect(mockPrisma.playerRoster.findMany).not.toHaveBeenCalled()
+  })
+
+  it('limits the league report to rostered players and attaches the owner', async () => {
+    mockPrisma.playerRoster.findMany.mockResolvedValue([
+      { playerId: 'lautaro', leagueMember: { id: 'm1', teamName: 'Alfa', user: { username: 'mario' } } },
+    ])
+
+    const result = await getQuotationMovers({ leagueId: 'league-1', limit: 1 })
+
+    expect(mockPrisma.playerQuotationHistory.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { uploadId: { in: ['upload-2', 'upload-1'] }, playerId: { in: ['lautaro'] } },
+    }))
+    expect(result.risers).toHaveLength(1)
+    expect(result.risers[0]?.owner).toEqual({ memberId: 'm1', teamName: 'Alfa', username: 'mario' })
+  })
+
+  it('returns an empty report until there are two uploads', async () => {
+    mockPrisma.quotazioniUpload.findMany.mockResolvedValue([uploads[0]])
+
+    const result = await getQuotationMovers()
+
+    expect(result).toMatchObject({ previousUpload: null, risers: [], fallers: [] })
+    expect(mockPrisma.playerQuotationHistory.findMany).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,200 @@
+/**
+ * quotazioni-rollback.test.ts - Unit Tests for quotazioni import dry-run and rollback
+ *
+ * Tests the diff returned by a dry-run import (nothing written), the previous
+ * state saved by a committed import, and the in-app rollback of the last upload.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as XLSX from 'xlsx'
+
+const { mockPrisma, mockTx } = vi.hoisted(() => {
+  const tx = {
+    serieAPlayer: {
+      createManyAndReturn: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      findMany: vi.fn(),
+    },
+    quotazioniUpload: {
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    playerQuotationHistory: {
+      createMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  }
+  const mock = {
+    user: {
+      findUnique: vi.fn(),
+    },
+    serieAPlayer: {
+      findMany: vi.fn(),
+    },
+    playerRoster: {
+      findMany: vi.fn(),
+    },
+    quotazioniUpload: {
+      findFirst: vi.fn(),
+    },
+    playerMovement: {
+      findMany: vi.fn(),
+    },
+    indemnityDecision: {
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn(async (fn: (t: typeof tx) => Promise<unknown>) => fn(tx)),
+  }
+  return { mockPrisma: mock, mockTx: tx }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+
+import { importQuotazioni, rollbackLastQuotazioniUpload } from '../services/superadmin.service'
+
+function quotazioniFile(rows: unknown[][]): Buffer {
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Id', 'R', 'Nome', 'Squadra', 'Qt.A'], ...rows]), 'Tutti')
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer
+}
+
+const existing = [
+  { id: 'p1', externalId: '1', name: 'Lautaro', team: 'Inter', position: 'A', quotation: 30, listStatus: 'IN_LIST', exitReason: null, exitDate: null },
+  { id: 'p2', externalId: '2', name: 'Barella', team: 'Inter', position: 'C', quotation: 15, listStatus: 'IN_LIST', exitReason: null, exitDate: null },
+  { id: 'p3', externalId: '3', name: 'Arnautovic', team: 'Inter', position: 'A', quotation: 5, listStatus: 'IN_LIST', exitReason: null, exitDate: null },
+]
+
+const file = quotazioniFile([
+  [1, 'A', 'Lautaro', 'Inter', 34],
+  [2, 'C', 'Barella', 'Inter', 15],
+  [4, 'D', 'Bastoni', 'Inter', 12],
+])
+
+describe('importQuotazioni dry-run', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.user.findUnique.mockResolvedValue({ id: 'super-1', isSuperAdmin: true })
+    mockPrisma.serieAPlayer.findMany.mockResolvedValue(existing)
+    mockPrisma.playerRoster.findMany.mockResolvedValue([{ playerId: 'p3' }])
+  })
+
+  it('returns new, changed and exiting players without writing', async () => {
+    const result = await importQuotazioni('super-1', file, 'Tutti', 'q.xlsx', true)
+
+    expect(result.success).toBe(true)
+    expect(result.data).toMatchObject({
+      dryRun: true,
+      newPlayers: [{ name: 'Bastoni', team: 'Inter', position: 'D', quotation: 12 }],
+      changedPlayers: [{ playerId: 'p1', changes: { quotation: { from: 30, to: 34 } } }],
+      notInListPlayers: [{ playerId: 'p3', name: 'Arnautovic', activeContracts: 1 }],
+      unchangedCount: 1,
+    })
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('saves the previous values of touched players when committing', async () => {
+    mockTx.serieAPlayer.createManyAndReturn.mockResolvedValue([{ id: 'p4' }])
+    mockTx.serieAPlayer.updateMany.mockResolvedValue({ count: 1 })
+    mockTx.serieAPlayer.findMany.mockResolvedValue([])
+    mockTx.quotazioniUpload.create.mockResolvedValue({ id: 'upload-1', createdAt: new Date() })
+    mockPrisma.serieAPlayer.findMany.mockResolvedValueOnce(existing).mockResolvedValue([])
+
+    const result = await importQuotazioni('super-1', file, 'Tutti', 'q.xlsx')
+
+    expect(result.success).toBe(true)
+    const { previousState } = mockTx.quotazioniUpload.create.mock.calls[0]![0].data as {
+      previousState: { createdIds: string[]; players: Array<{ id: string; quotation: number }> }
+    }
+    expect(previousState.createdIds).toEqual(['p4'])
+    expect(previousState.players.map(p => [p.id, p.quotation])).toEqual([['p1', 30], ['p2', 15], ['p3', 5]])
+  })
+})
+
+describe('rollbackLastQuotazioniUpload', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.user.findUnique.mockResolvedValue({ id: 'super-1', isSuperAdmin: true })
+    mockPrisma.serieAPlayer.findMany.mockResolvedValue([])
+    mockPrisma.playerMovement.findMany.mockResolvedValue([])
+    mockPrisma.indemnityDecision.findMany.mockResolvedValue([])
+  })
+
+  it('restores previous values and takes created players out of the list', async () => {
+    mockPrisma.quotazioniUpload.findFirst.mockResolvedValue({
+      id: 'upload-2',
+      fileName: 'q.xlsx',
+      createdAt: new Date('2026-10-01'),
+      previousState: {
+        createdIds: ['p4'],
+        players: [{ ...existing[2], exitDate: null }],
+      },
+    })
+
+    const result = await rollbackLastQuotazioniUpload('super-1')
+
+    expect(result).toMatchObject({ success: true, data: { restored: 1, removed: 1 } })
+    expect(mockTx.serieAPlayer.updateMany).toHaveBeenCalledWith({
+      where: { id: 'p3' },
+      data: expect.objectContaining({ listStatus: 'IN_LIST', quotation: 5, exitReason: null, exitDate: null }) as unknown,
+    })
+    expect(mockTx.serieAPlayer.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['p4'] } },
+      data: { listStatus: 'NOT_IN_LIST' },
+    })
+    expect(mockTx.playerQuotationHistory.deleteMany).toHaveBeenCalledWith({ where: { uploadId: 'upload-2' } })
+    expect(mockTx.quotazioniUpload.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'upload-2' } }))
+  })
+
+  it('refuses the rollback and lists players classified, released or indemnified after the upload', async () => {
+    const uploadedAt = new Date('2026-10-01')
+    mockPrisma.quotazioniUpload.findFirst.mockResolvedValue({
+      id: 'upload-2',
+      fileName: 'q.xlsx',
+      createdAt: uploadedAt,
+      previousState: {
+        createdIds: ['p4'],
+        players: [{ ...existing[2], exitDate: null }, { ...existing[0], exitDate: null }],
+      },
+    })
+    mockPrisma.serieAPlayer.findMany.mockResolvedValue([{ id: 'p3', name: 'Arnautovic' }])
+    mockPrisma.playerMovement.findMany.mockResolvedValue([
+      { playerId: 'p3', movementType: 'RELEASE', player: { name: 'Arnautovic' } },
+    ])
+    mockPrisma.indemnityDecision.findMany.mockResolvedValue([{ playerId: 'p1', player: { name: 'Lautaro' } }])
+
+    const result = await rollbackLastQuotazioniUpload('super-1')
+
+    expect(result.success).toBe(false)
+    expect(result.data).toEqual({
+      uploadId: 'upload-2',
+      affectedPlayers: [
+        { playerId: 'p3', name: 'Arnautovic', changes: ['classificato', 'svincolato'] },
+        { playerId: 'p1', name: 'Lautaro', changes: ['indennizzo deciso'] },
+      ],
+    })
+    expect(mockPrisma.playerMovement.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ playerId: { in: ['p3', 'p1', 'p4'] }, createdAt: { gt: uploadedAt } }) as unknown,
+    }))
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('refuses uploads saved without their previous state', async () => {
+    mockPrisma.quotazioniUpload.findFirst.mockResolvedValue({ id: 'upload-1', fileName: 'q.xlsx', previousState: null })
+
+    const result = await rollbackLastQuotazioniUpload('super-1')
+
+    expect(result.success).toBe(false)
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('rejects non-superadmin users', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({ id: 'user-1', isSuperAdmin: false })
+
+    const result = await rollbackLastQuotazioniUpload('user-1')
+
+    expect(result.message).toContain('Non autorizzato')
+  })
+})
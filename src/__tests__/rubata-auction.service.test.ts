@@ -16,7 +16,9 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 
 const mockPrisma = {
   leagueMember: { findFirst: vi.fn(), findMany: vi.fn(), update: vi.fn(), findUnique: vi.fn() },
-  marketSession: { findFirst: vi.fn(), update: vi.fn() },
+  marketSession: { findFirst: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+  rubataBoard: { deleteMany: vi.fn(), createMany: vi.fn(), update: vi.fn() },
+  rubataParticipant: { findMany: vi.fn(), upsert: vi.fn(), updateMany: vi.fn() },
   playerRoster: { findMany: vi.fn(), findFirst: vi.fn(), update: vi.fn() },
   playerContract: { findFirst: vi.fn(), update: vi.fn(), aggregate: vi.fn() },
   auction: { findFirst: vi.fn(), create: vi.fn(), update: vi.fn(), findMany: vi.fn() },
@@ -31,12 +33,19 @@ vi.mock('@/lib/prisma', () => ({
 }))
 
 vi.mock('./movement.service', () => ({ recordMovement: vi.fn() }))
+vi.mock('../services/compensation.service', () => ({
+  captureState: vi.fn(() => Promise.resolve({ roster: {}, contract: {}, budgets: {} })),
+  recordCompensation: vi.fn(() => Promise.resolve({ id: 'compensation-1' })),
+}))
 vi.mock('./pusher.service', () => ({
   triggerRubataBidPlaced: vi.fn().mockReturnValue(Promise.resolve()),
   triggerRubataStealDeclared: vi.fn().mockReturnValue(Promise.resolve()),
   triggerRubataReadyChanged: vi.fn().mockReturnValue(Promise.resolve()),
   triggerAuctionClosed: vi.fn().mockReturnValue(Promise.resolve()),
 }))
+vi.mock('../services/proxy-bid.service', () => ({
+  triggerProxyBidding: vi.fn().mockResolvedValue(undefined),
+}))
 vi.mock('./player-stats.service', () => ({
   computeSeasonStatsBatch: vi.fn().mockResolvedValue([]),
   computeAutoTagsBatch: vi.fn().mockResolvedValue([]),
@@ -99,20 +108,29 @@ function makeBoardItem(overrides: Record<string, unknown> = {}) {
   }
 }
 
+// Board as RubataBoard rows (null = not generated)
+function makeBoardState(board: Array<Record<string, unknown>> | null) {
+  return {
+    rubataBoardGeneratedAt: board ? new Date() : null,
+    rubataBoardEntries: (board ?? []).map((item, orderIndex) => ({ orderIndex, ...item })),
+  }
+}
+
 function makeSession(overrides: Record<string, unknown> = {}) {
+  const { rubataBoard = [makeBoardItem()], ...rest } = overrides
   return {
     id: SESSION_ID,
     leagueId: LEAGUE_ID,
     status: 'ACTIVE',
     currentPhase: 'RUBATA',
     rubataState: 'OFFERING',
-    rubataBoard: [makeBoardItem()],
+    ...makeBoardState(rubataBoard as Array<Record<string, unknown>> | null),
+    rubataParticipants: [],
     rubataBoardIndex: 0,
     rubataTimerStartedAt: null,
     rubataOfferTimerSeconds: 30,
     rubataAuctionTimerSeconds: 30,
-    rubataReadyMembers: [],
-    ...overrides,
+    ...rest,
   }
 }
 
@@ -143,7 +161,9 @@ beforeEach(() => {
   mockPrisma.$transaction.mockImplementation(async (fn: (tx: typeof mockPrisma) => Promise<unknown>) => {
     const txMock = {
       leagueMember: { findFirst: vi.fn(), findMany: vi.fn(), findUnique: vi.fn(), update: vi.fn() },
-      marketSession: { update: vi.fn() },
+      marketSession: { update: vi.fn(), updateMany: vi.fn().mockResolvedValue({ count: 1 }) },
+      rubataBoard: { deleteMany: vi.fn(), createMany: vi.fn(), update: vi.fn() },
+      rubataParticipant: { findMany: vi.fn().mockResolvedValue([]), upsert: vi.fn(), updateMany: vi.fn() },
       playerRoster: { findFirst: vi.fn(), update: vi.fn() },
       playerContract: { findFirst: vi.fn(), update: vi.fn() },
       auction: { create: vi.fn().mockResolvedValue({ id: AUCTION_ID }), update: vi.fn(), findFirst: vi.fn() },
@@ -435,10 +455,12 @@ describe('closeCurrentRubataAuction', () => {
       playerId: PLAYER_ID,
       status: 'ACTIVE',
       contract: { id: CONTRACT_ID, salary: 5, duration: 3, rescissionClause: 45 },
+      player: { name: 'Dybala' },
     })
 
     mockPrisma.$transaction.mockImplementation(async (fn: (tx: unknown) => Promise<unknown>) => {
       return fn({
+        ...mockPrisma,
         leagueMember: { findUnique: txFindUniqueSeller, update: txUpdateMember },
         playerRoster: { findFirst: txFindRoster, update: txUpdateRoster },
         playerContract: { update: txUpdateContract },
@@ -570,10 +592,12 @@ describe('closeCurrentRubataAuction', () => {
       playerId: PLAYER_ID,
       status: 'ACTIVE',
       contract: { id: CONTRACT_ID, salary: 8, duration: 3, rescissionClause: 72 },
+      player: { name: 'Dybala' },
     })
 
     mockPrisma.$transaction.mockImplementation(async (fn: (tx: unknown) => Promise<unknown>) => {
       return fn({
+        ...mockPrisma,
         leagueMember: { findUnique: txFindUniqueSeller, update: txUpdateMember },
         playerRoster: { findFirst: txFindRoster, update: vi.fn() },
         playerContract: { update: vi.fn() },
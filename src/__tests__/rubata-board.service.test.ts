@@ -13,52 +13,60 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 
 // ---- Mocks ----
 
-const prismaMock = vi.hoisted(() => ({
-  leagueMember: {
-    findFirst: vi.fn(),
-    findMany: vi.fn(),
-    findUnique: vi.fn(),
-    update: vi.fn(),
-  },
-  marketSession: {
-    findFirst: vi.fn(),
-    update: vi.fn(),
-  },
-  playerRoster: {
-    findMany: vi.fn(),
-    findFirst: vi.fn(),
-    update: vi.fn(),
-  },
-  playerContract: {
-    findMany: vi.fn(),
-    update: vi.fn(),
-  },
-  auction: {
-    findFirst: vi.fn(),
-    create: vi.fn(),
-    update: vi.fn(),
-  },
-  auctionBid: {
-    findFirst: vi.fn(),
-    findMany: vi.fn(),
-    create: vi.fn(),
-  },
-  rubataPreference: {
-    findMany: vi.fn(),
-  },
-  serieAPlayer: {
-    findMany: vi.fn(),
-  },
-  $transaction: vi.fn((fn: (tx: unknown) => Promise<unknown>) =>
-    fn({
-      marketSession: { update: vi.fn() },
-      leagueMember: { update: vi.fn(), findMany: vi.fn(), findUnique: vi.fn() },
-      playerRoster: { update: vi.fn(), findFirst: vi.fn() },
-      playerContract: { update: vi.fn() },
-      auction: { update: vi.fn() },
-    })
-  ),
-}))
+const prismaMock = vi.hoisted(() => {
+  const mock = {
+    leagueMember: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    marketSession: {
+      findFirst: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    rubataBoard: {
+      deleteMany: vi.fn(),
+      createMany: vi.fn(),
+      update: vi.fn(),
+    },
+    rubataParticipant: {
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    playerRoster: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      update: vi.fn(),
+    },
+    playerContract: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    auction: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    auctionBid: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+    },
+    rubataPreference: {
+      findMany: vi.fn(),
+    },
+    serieAPlayer: {
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  }
+  // Transactions run on the same mock so state writes can be asserted
+  mock.$transaction.mockImplementation((fn: (tx: unknown) => Promise<unknown>) => fn(mock))
+  return mock
+})
 
 vi.mock('@/lib/prisma', () => ({
   prisma: prismaMock,
@@ -118,25 +126,46 @@ function makeMember(overrides?: Record<string, unknown>) {
   }
 }
 
-function makeSession(overrides?: Record<string, unknown>) {
+// Rubata order as RubataParticipant rows
+function makeParticipants(order: string[] | null) {
+  return (order ?? []).map((memberId, orderIndex) => ({
+    sessionId: SESSION_ID,
+    memberId,
+    orderIndex,
+    isReady: false,
+    readyAt: null,
+    acknowledgedAt: null,
+    prophecy: null,
+  }))
+}
+
+// Board as RubataBoard rows (null = not generated)
+function makeBoardState(board: Array<Record<string, unknown>> | null) {
+  return {
+    rubataBoardGeneratedAt: board ? new Date() : null,
+    rubataBoardEntries: (board ?? []).map((item, orderIndex) => ({ orderIndex, ...item })),
+  }
+}
+
+function makeSession(overrides: Record<string, unknown> = {}) {
+  const { rubataOrder = ['member-1', 'member-2'], rubataBoard = null, ...rest } = overrides
   return {
     id: SESSION_ID,
     leagueId: LEAGUE_ID,
     status: 'ACTIVE',
     currentPhase: 'RUBATA',
-    rubataOrder: ['member-1', 'member-2'],
-    rubataBoard: null,
+    rubataParticipants: makeParticipants(rubataOrder as string[] | null),
+    ...makeBoardState(rubataBoard as Array<Record<string, unknown>> | null),
     rubataBoardIndex: 0,
     rubataState: null,
     rubataTimerStartedAt: null,
     rubataOfferTimerSeconds: 60,
     rubataAuctionTimerSeconds: 30,
-    rubataReadyMembers: [],
     rubataPendingAck: null,
     rubataPausedRemainingSeconds: null,
     rubataPausedFromState: null,
     rubataAuctionReadyInfo: null,
-    ...overrides,
+    ...rest,
   }
 }
 
@@ -390,10 +419,13 @@ describe('generateRubataBoard', () => {
         data: expect.objectContaining({
           rubataState: 'READY_CHECK',
           rubataBoardIndex: 0,
-          rubataReadyMembers: [],
         }),
       })
     )
+    expect(prismaMock.rubataParticipant.updateMany).toHaveBeenCalledWith({
+      where: { sessionId: SESSION_ID, isReady: true },
+      data: { isReady: false, readyAt: null },
+    })
   })
 
   it('should skip members that are not found', async () => {
@@ -614,10 +646,13 @@ describe('getRubataBoard', () => {
           rubataBoardIndex: 1,
           rubataState: 'READY_CHECK',
           rubataTimerStartedAt: null,
-          rubataReadyMembers: [],
         }),
       })
     )
+    expect(prismaMock.rubataParticipant.updateMany).toHaveBeenCalledWith({
+      where: { sessionId: SESSION_ID, isReady: true },
+      data: { isReady: false, readyAt: null },
+    })
   })
 
   it('should set COMPLETED when OFFERING timer expires on last player', async () => {
@@ -10,7 +10,9 @@ import { Prisma } from '@prisma/client'
 vi.mock('@/lib/prisma', () => {
   const p = {
     leagueMember: { findFirst: vi.fn(), findMany: vi.fn(), findUnique: vi.fn(), update: vi.fn() },
-    marketSession: { findFirst: vi.fn(), update: vi.fn() },
+    marketSession: { findFirst: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    rubataBoard: { deleteMany: vi.fn(), createMany: vi.fn(), update: vi.fn() },
+    rubataParticipant: { findMany: vi.fn(), upsert: vi.fn(), updateMany: vi.fn() },
     playerRoster: { findMany: vi.fn(), findFirst: vi.fn(), update: vi.fn() },
     playerContract: { findFirst: vi.fn(), findMany: vi.fn(), update: vi.fn(), aggregate: vi.fn() },
     auction: { findFirst: vi.fn(), create: vi.fn(), update: vi.fn(), findMany: vi.fn() },
@@ -20,6 +22,8 @@ vi.mock('@/lib/prisma', () => {
     $transaction: vi.fn(),
   }
   p.$transaction.mockImplementation((fn: (tx: typeof p) => Promise<unknown>) => fn(p))
+  p.marketSession.updateMany.mockResolvedValue({ count: 1 })
+  p.rubataParticipant.findMany.mockResolvedValue([])
   return { prisma: p }
 })
 
@@ -45,7 +49,9 @@ import type { Mock } from 'vitest'
 // Cast all prisma methods as mocks for test assertions
 const mockPrisma = prisma as unknown as {
   leagueMember: { findFirst: Mock; findMany: Mock; findUnique: Mock; update: Mock }
-  marketSession: { findFirst: Mock; update: Mock }
+  marketSession: { findFirst: Mock; update: Mock; updateMany: Mock }
+  rubataBoard: { deleteMany: Mock; createMany: Mock; update: Mock }
+  rubataParticipant: { findMany: Mock; upsert: Mock; updateMany: Mock }
   playerRoster: { findMany: Mock; findFirst: Mock; update: Mock }
   playerContract: { findFirst: Mock; findMany: Mock; update: Mock; aggregate: Mock }
   auction: { findFirst: Mock; create: Mock; update: Mock; findMany: Mock }
@@ -111,6 +117,41 @@ function makeAdminMember(overrides: Record<string, unknown> = {}) {
   }
 }
 
+// Per-member rubata state as RubataParticipant rows
+function makeParticipants({
+  ready = [],
+  acknowledged = [],
+  prophecies = {},
+}: {
+  ready?: string[]
+  acknowledged?: string[]
+  prophecies?: Record<string, string>
+} = {}) {
+  const memberIds = [...new Set([...ready, ...acknowledged])]
+  return memberIds.map(memberId => ({
+    sessionId: SESSION_ID,
+    memberId,
+    orderIndex: null,
+    isReady: ready.includes(memberId),
+    readyAt: ready.includes(memberId) ? new Date() : null,
+    acknowledgedAt: acknowledged.includes(memberId) ? new Date() : null,
+    prophecy: prophecies[memberId] ?? null,
+  }))
+}
+
+// Board as RubataBoard rows (null = not generated)
+function makeBoardState(board: Array<Record<string, unknown>> | null) {
+  return {
+    rubataBoardGeneratedAt: board ? new Date() : null,
+    rubataBoardEntries: (board ?? []).map((item, orderIndex) => ({ orderIndex, ...item })),
+  }
+}
+
+const RESET_READY_CALL = {
+  where: { sessionId: SESSION_ID, isReady: true },
+  data: { isReady: false, readyAt: null },
+}
+
 function makeSession(overrides: Record<string, unknown> = {}) {
   return {
     id: SESSION_ID,
@@ -118,13 +159,12 @@ function makeSession(overrides: Record<string, unknown> = {}) {
     status: 'ACTIVE',
     currentPhase: 'RUBATA',
     rubataState: 'READY_CHECK',
-    rubataReadyMembers: [],
+    rubataParticipants: [],
     rubataOfferTimerSeconds: 30,
     rubataAuctionTimerSeconds: 30,
     rubataTimerStartedAt: null,
-    rubataBoard: null,
+    ...makeBoardState(null),
     rubataBoardIndex: 0,
-    rubataOrder: [],
     rubataPendingAck: null,
     rubataPausedFromState: null,
     rubataPausedRemainingSeconds: null,
@@ -170,7 +210,7 @@ describe('getRubataReadyStatus', () => {
     const member1 = makeMember()
     const member2 = makeMember({ id: 'member-2', userId: 'user-2', user: { id: 'user-2', username: 'manager2' } })
     const session = makeSession({
-      rubataReadyMembers: [MEMBER_ID],
+      rubataParticipants: makeParticipants({ ready: [MEMBER_ID] }),
       league: { members: [member1, member2] },
     })
 
@@ -205,7 +245,7 @@ describe('getRubataReadyStatus', () => {
     const member1 = makeMember()
     const member2 = makeMember({ id: 'member-2', userId: 'user-2', user: { id: 'user-2', username: 'manager2' } })
     const session = makeSession({
-      rubataReadyMembers: [MEMBER_ID, 'member-2'],
+      rubataParticipants: makeParticipants({ ready: [MEMBER_ID, 'member-2'] }),
       league: { members: [member1, member2] },
     })
 
@@ -253,31 +293,42 @@ describe('setRubataReady', () => {
   it('should return already ready if member is already in the list', async () => {
     mockPrisma.leagueMember.findFirst.mockResolvedValueOnce(makeMember())
     mockPrisma.marketSession.findFirst.mockResolvedValueOnce(
-      makeSession({ rubataReadyMembers: [MEMBER_ID] })
+      makeSession({ rubataParticipants: makeParticipants({ ready: [MEMBER_ID] }) })
     )
 
     const result = await setRubataReady(LEAGUE_ID, USER_ID)
     expect(result.success).toBe(true)
     expect(result.message).toBe('Già pronto')
+    expect(mockPrisma.rubataParticipant.upsert).not.toHaveBeenCalled()
   })
 
   it('should add member to ready list when not all ready yet', async () => {
     const member = makeMember()
     mockPrisma.leagueMember.findFirst.mockResolvedValueOnce(member)
     mockPrisma.marketSession.findFirst.mockResolvedValueOnce(
-      makeSession({ rubataReadyMembers: [] })
+      makeSession()
     )
     mockPrisma.leagueMember.findUnique.mockResolvedValueOnce(member)
     mockPrisma.leagueMember.findMany.mockResolvedValueOnce([
       member,
       makeMember({ id: 'member-2' }),
     ])
-    mockPrisma.marketSession.update.mockResolvedValueOnce({})
+    mockPrisma.rubataParticipant.findMany.mockResolvedValueOnce(makeParticipants({ ready: [MEMBER_ID] }))
 
     const result = await setRubataReady(LEAGUE_ID, USER_ID)
     expect(result.success).toBe(true)
     expect(result.message).toBe('Pronto!')
 
+    // Only the member's own row is written
+    expect(mockPrisma.rubataParticipant.upsert).toHaveBeenCalledTimes(1)
+    expect(mockPrisma.rubataParticipant.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { sessionId_memberId: { sessionId: SESSION_ID, memberId: MEMBER_ID } },
+        update: expect.objectContaining({ isReady: true }),
+      })
+    )
+    expect(mockPrisma.marketSession.update).not.toHaveBeenCalled()
+
     const data = result.data as { allReady: boolean; readyCount: number; totalMembers: number }
     expect(data.allReady).toBe(false)
     expect(data.readyCount).toBe(1)
@@ -291,11 +342,11 @@ describe('setRubataReady', () => {
     const member2 = makeMember({ id: 'member-2', userId: 'user-2' })
     mockPrisma.leagueMember.findFirst.mockResolvedValueOnce(member)
     mockPrisma.marketSession.findFirst.mockResolvedValueOnce(
-      makeSession({ rubataState: 'READY_CHECK', rubataReadyMembers: ['member-2'] })
+      makeSession({ rubataState: 'READY_CHECK', rubataParticipants: makeParticipants({ ready: ['member-2'] }) })
     )
     mockPrisma.leagueMember.findUnique.mockResolvedValueOnce(member)
     mockPrisma.leagueMember.findMany.mockResolvedValueOnce([member, member2])
-    mockPrisma.marketSession.update.mockResolvedValueOnce({})
+    mockPrisma.rubataParticipant.findMany.mockResolvedValueOnce(makeParticipants({ ready: ['member-2', MEMBER_ID] }))
 
     const result = await setRubataReady(LEAGUE_ID, USER_ID)
     expect(result.success).toBe(true)
@@ -310,11 +361,11 @@ describe('setRubataReady', () => {
     const member2 = makeMember({ id: 'member-2', userId: 'user-2' })
     mockPrisma.leagueMember.findFirst.mockResolvedValueOnce(member)
     mockPrisma.marketSession.findFirst.mockResolvedValueOnce(
-      makeSession({ rubataState: 'AUCTION_READY_CHECK', rubataReadyMembers: ['member-2'] })
+      makeSession({ rubataState: 'AUCTION_READY_CHECK', rubataParticipants: makeParticipants({ ready: ['member-2'] }) })
     )
     mockPrisma.leagueMember.findUnique.mockResolvedValueOnce(member)
     mockPrisma.leagueMember.findMany.mockResolvedValueOnce([member, member2])
-    mockPrisma.marketSession.update.mockResolvedValueOnce({})
+    mockPrisma.rubataParticipant.findMany.mockResolvedValueOnce(makeParticipants({ ready: ['member-2', MEMBER_ID] }))
 
     const result = await setRubataReady(LEAGUE_ID, USER_ID)
     expect(result.success).toBe(true)
@@ -324,16 +375,35 @@ describe('setRubataReady', () => {
     expect(data.allReady).toBe(true)
     expect(data.auctionStarted).toBe(true)
 
-    // Verify session was updated to AUCTION
-    expect(mockPrisma.marketSession.update).toHaveBeenCalledWith(
+    // Verify session was moved to AUCTION only if still in AUCTION_READY_CHECK
+    expect(mockPrisma.marketSession.updateMany).toHaveBeenCalledWith(
       expect.objectContaining({
+        where: { id: SESSION_ID, rubataState: 'AUCTION_READY_CHECK' },
         data: expect.objectContaining({
           rubataState: 'AUCTION',
-          rubataReadyMembers: [],
           rubataAuctionReadyInfo: Prisma.DbNull,
         }),
       })
     )
+    expect(mockPrisma.rubataParticipant.updateMany).toHaveBeenCalledWith(RESET_READY_CALL)
+  })
+
+  it('should not start the auction twice when another ready already did', async () => {
+    const member = makeMember()
+    const member2 = makeMember({ id: 'member-2', userId: 'user-2' })
+    mockPrisma.leagueMember.findFirst.mockResolvedValueOnce(member)
+    mockPrisma.marketSession.findFirst.mockResolvedValueOnce(
+      makeSession({ rubataState: 'AUCTION_READY_CHECK', rubataParticipants: makeParticipants({ ready: ['member-2'] }) })
+    )
+    mockPrisma.leagueMember.findUnique.mockResolvedValueOnce(member)
+    mockPrisma.leagueMember.findMany.mockResolvedValueOnce([member, member2])
+    mockPrisma.rubataParticipant.findMany.mockResolvedValueOnce(makeParticipants({ ready: ['member-2', MEMBER_ID] }))
+    mockPrisma.marketSession.updateMany.mockResolvedValueOnce({ count: 0 })
+
+    const result = await setRubataReady(LEAGUE_ID, USER_ID)
+    expect(result.success).toBe(true)
+    // The state already moved on: the ready list must not be reset again
+    expect(mockPrisma.rubataParticipant.updateMany).not.toHaveBeenCalled()
   })
 
   it('should transition from PENDING_ACK to OFFERING when all ready', async () => {
@@ -341,17 +411,17 @@ describe('setRubataReady', () => {
     const member2 = makeMember({ id: 'member-2', userId: 'user-2' })
     mockPrisma.leagueMember.findFirst.mockResolvedValueOnce(member)
     mockPrisma.marketSession.findFirst.mockResolvedValueOnce(
-      makeSession({ rubataState: 'PENDING_ACK', rubataReadyMembers: ['member-2'] })
+      makeSession({ rubataState: 'PENDING_ACK', rubataParticipants: makeParticipants({ ready: ['member-2'] }) })
     )
     mockPrisma.leagueMember.findUnique.mockResolvedValueOnce(member)
     mockPrisma.leagueMember.findMany.mockResolvedValueOnce([member, member2])
-    mockPrisma.marketSession.update.mockResolvedValueOnce({})
+    mockPrisma.rubataParticipant.findMany.mockResolvedValueOnce(makeParticipants({ ready: ['member-2', MEMBER_ID] }))
 
     const result = await setRubataReady(LEAGUE_ID, USER_ID)
     expect(result.success).toBe(true)
     expect(result.message).toBe('Tutti pronti! Si riparte.')
 
-    expect(mockPrisma.marketSession.update).toHaveBeenCalledWith(
+    expect(mockPrisma.marketSession.updateMany).toHaveBeenCalledWith(
       expect.objectContaining({
         data: expect.objectContaining({
           rubataState: 'OFFERING',
@@ -368,7 +438,7 @@ describe('setRubataReady', () => {
     mockPrisma.marketSession.findFirst.mockResolvedValueOnce(
       makeSession({
         rubataState: 'PAUSED',
-        rubataReadyMembers: ['member-2'],
+        rubataParticipants: makeParticipants({ ready: ['member-2'] }),
         rubataPausedFromState: 'OFFERING',
         rubataPausedRemainingSeconds: 15,
         rubataOfferTimerSeconds: 30,
@@ -376,7 +446,7 @@ describe('setRubataReady', () => {
     )
     mockPrisma.leagueMember.findUnique.mockResolvedValueOnce(member)
     mockPrisma.leagueMember.findMany.mockResolvedValueOnce([member, member2])
-    mockPrisma.marketSession.update.mockResolvedValueOnce({})
+    mockPrisma.rubataParticipant.findMany.mockResolvedValueOnce(makeParticipants({ ready: ['member-2', MEMBER_ID] }))
 
     const result = await setRubataReady(LEAGUE_ID, USER_ID)
     expect(result.success).toBe(true)
@@ -387,7 +457,7 @@ describe('setRubataReady', () => {
     expect(data.resumed).toBe(true)
     expect(data.remainingSeconds).toBe(15)
 
-    expect(mockPrisma.marketSession.update).toHaveBeenCalledWith(
+    expect(mockPrisma.marketSession.updateMany).toHaveBeenCalledWith(
       expect.objectContaining({
         data: expect.objectContaining({
           rubataState: 'OFFERING',
@@ -403,14 +473,15 @@ describe('setRubataReady', () => {
     const member2 = makeMember({ id: 'member-2', userId: 'user-2' })
     mockPrisma.leagueMember.findFirst.mockResolvedValueOnce(member)
     mockPrisma.marketSession.findFirst.mockResolvedValueOnce(
-      makeSession({ rubataState: 'READY_CHECK', auctionMode: 'IN_PRESENCE', rubataReadyMembers: [] })
+      makeSession({ rubataState: 'READY_CHECK', auctionMode: 'IN_PRESENCE' })
     )
     mockPrisma.leagueMember.findUnique.mockResolvedValueOnce(member)
     mockPrisma.leagueMember.findMany.mockResolvedValueOnce([member, member2])
-    mockPrisma.marketSession.update.mockResolvedValueOnce({})
+    mockPrisma.rubataParticipant.findMany.mockResolvedValueOnce(makeParticipants({ ready: [MEMBER_ID, 'member-2'] }))
 
     const result = await setRubataReady(LEAGUE_ID, USER_ID)
     expect(result.success).toBe(true)
+    expect(mockPrisma.rubataParticipant.upsert).toHaveBeenCalledTimes(2)
     // In IN_PRESENCE mode, all members auto-marked ready, so allReady should be true
     const data = result.data as { allReady: boolean }
     expect(data.allReady).toBe(true)
@@ -467,13 +538,12 @@ describe('forceAllRubataReady', () => {
       makeSession({ rubataState: 'AUCTION_READY_CHECK' })
     )
     mockPrisma.leagueMember.findMany.mockResolvedValueOnce([makeMember()])
-    mockPrisma.marketSession.update.mockResolvedValueOnce({})
 
     const result = await forceAllRubataReady(LEAGUE_ID, ADMIN_USER_ID)
     expect(result.success).toBe(true)
     expect(result.message).toBe('Tutti pronti forzati! Asta avviata.')
 
-    expect(mockPrisma.marketSession.update).toHaveBeenCalledWith(
+    expect(mockPrisma.marketSession.updateMany).toHaveBeenCalledWith(
       expect.objectContaining({
         data: expect.objectContaining({
           rubataState: 'AUCTION',
@@ -489,13 +559,12 @@ describe('forceAllRubataReady', () => {
       makeSession({ rubataState: 'PENDING_ACK' })
     )
     mockPrisma.leagueMember.findMany.mockResolvedValueOnce([makeMember()])
-    mockPrisma.marketSession.update.mockResolvedValueOnce({})
 
     const result = await forceAllRubataReady(LEAGUE_ID, ADMIN_USER_ID)
     expect(result.success).toBe(true)
     expect(result.message).toBe('Tutti pronti forzati! Si riparte.')
 
-    expect(mockPrisma.marketSession.update).toHaveBeenCalledWith(
+    expect(mockPrisma.marketSession.updateMany).toHaveBeenCalledWith(
       expect.objectContaining({
         data: expect.objectContaining({
           rubataState: 'OFFERING',
@@ -522,7 +591,7 @@ describe('forceAllRubataReady', () => {
     expect(result.success).toBe(true)
     expect(result.message).toContain('20 secondi rimanenti')
 
-    expect(mockPrisma.marketSession.update).toHaveBeenCalledWith(
+    expect(mockPrisma.marketSession.updateMany).toHaveBeenCalledWith(
       expect.objectContaining({
         data: expect.objectContaining({
           rubataState: 'AUCTION',
@@ -579,8 +648,6 @@ describe('getRubataPendingAck', () => {
       sellerId: 'member-2',
       sellerUsername: 'manager2',
       finalPrice: 50,
-      acknowledgedMembers: [],
-      prophecies: [],
     }
 
     mockPrisma.leagueMember.findFirst.mockResolvedValueOnce(member)
@@ -639,13 +706,11 @@ describe('getRubataPendingAck', () => {
       sellerId: 'member-3',
       sellerUsername: 'manager3',
       finalPrice: 50,
-      acknowledgedMembers: [MEMBER_ID],
-      prophecies: [],
     }
 
     mockPrisma.leagueMember.findFirst.mockResolvedValueOnce(member)
     mockPrisma.marketSession.findFirst.mockResolvedValueOnce(
-      makeSession({ rubataPendingAck: pendingAck })
+      makeSession({ rubataPendingAck: pendingAck, rubataParticipants: makeParticipants({ acknowledged: [MEMBER_ID] }) })
     )
     mockPrisma.serieAPlayer.findUnique.mockResolvedValueOnce({ apiFootballId: null })
 
@@ -690,12 +755,14 @@ describe('acknowledgeRubataTransaction', () => {
       playerName: 'Leao',
       winnerId: 'member-2',
       finalPrice: 50,
-      acknowledgedMembers: [MEMBER_ID],
-      prophecies: [],
     }
     mockPrisma.leagueMember.findFirst.mockResolvedValueOnce(makeMember())
     mockPrisma.marketSession.findFirst.mockResolvedValueOnce(
-      makeSession({ rubataState: 'PENDING_ACK', rubataPendingAck: pendingAck })
+      makeSession({
+        rubataState: 'PENDING_ACK',
+        rubataPendingAck: pendingAck,
+        rubataParticipants: makeParticipants({ acknowledged: [MEMBER_ID] }),
+      })
     )
 
     const result = await acknowledgeRubataTransaction(LEAGUE_ID, USER_ID)
@@ -703,7 +770,7 @@ describe('acknowledgeRubataTransaction', () => {
     expect(result.message).toBe('Già confermato')
   })
 
-  it('should acknowledge without prophecy and update pending ack', async () => {
+  it('should acknowledge without prophecy on the member row', async () => {
     const member = makeMember()
     const pendingAck = {
       auctionId: 'auction-1',
@@ -711,30 +778,35 @@ describe('acknowledgeRubataTransaction', () => {
       playerName: 'Leao',
       winnerId: 'member-2',
       finalPrice: 50,
-      acknowledgedMembers: [],
-      prophecies: [],
     }
     mockPrisma.leagueMember.findFirst.mockResolvedValueOnce(member)
     mockPrisma.marketSession.findFirst.mockResolvedValueOnce(
       makeSession({ rubataState: 'PENDING_ACK', rubataPendingAck: pendingAck })
     )
-    mockPrisma.leagueMember.findUnique.mockResolvedValueOnce(member)
+    mockPrisma.rubataParticipant.findMany.mockResolvedValueOnce(makeParticipants({ acknowledged: [MEMBER_ID] }))
     mockPrisma.leagueMember.findMany.mockResolvedValueOnce([
       member,
       makeMember({ id: 'member-2' }),
     ])
-    mockPrisma.marketSession.update.mockResolvedValueOnce({})
 
     const result = await acknowledgeRubataTransaction(LEAGUE_ID, USER_ID)
     expect(result.success).toBe(true)
     expect(result.message).toBe('Confermato!')
 
+    expect(mockPrisma.rubataParticipant.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { sessionId_memberId: { sessionId: SESSION_ID, memberId: MEMBER_ID } },
+        update: expect.objectContaining({ prophecy: null }),
+      })
+    )
+    expect(mockPrisma.marketSession.update).not.toHaveBeenCalled()
+
     const data = result.data as { allAcknowledged: boolean; acknowledgedCount: number }
     expect(data.allAcknowledged).toBe(false)
     expect(data.acknowledgedCount).toBe(1)
   })
 
-  it('should acknowledge with prophecy and include it in updated ack', async () => {
+  it('should acknowledge with prophecy and store it on the member row', async () => {
     const member = makeMember()
     const pendingAck = {
       auctionId: 'auction-1',
@@ -742,29 +814,26 @@ describe('acknowledgeRubataTransaction', () => {
       playerName: 'Leao',
       winnerId: 'member-2',
       finalPrice: 50,
-      acknowledgedMembers: [],
-      prophecies: [],
     }
     mockPrisma.leagueMember.findFirst.mockResolvedValueOnce(member)
     mockPrisma.marketSession.findFirst.mockResolvedValueOnce(
       makeSession({ rubataState: 'PENDING_ACK', rubataPendingAck: pendingAck })
     )
-    mockPrisma.leagueMember.findUnique.mockResolvedValueOnce(member)
     mockPrisma.leagueMember.findMany.mockResolvedValueOnce([
       member,
       makeMember({ id: 'member-2' }),
     ])
-    mockPrisma.marketSession.update.mockResolvedValueOnce({})
 
-    const result = await acknowledgeRubataTransaction(LEAGUE_ID, USER_ID, 'Questo lo rubano tutti!')
+    const result = await acknowledgeRubataTransaction(LEAGUE_ID, USER_ID, '  Questo lo rubano tutti!  ')
     expect(result.success).toBe(true)
 
-    // Verify the update call includes the prophecy
-    const updateCall = mockPrisma.marketSession.update.mock.calls[0] as Array<{ data: { rubataPendingAck: { prophecies: Array<{ content: string }> } } }>
-    const updatedAck = updateCall[0] as { data: { rubataPendingAck: { prophecies: Array<{ content: string }> } } }
-    expect(updatedAck.data.rubataPendingAck.prophecies).toHaveLength(1)
-    const firstProphecy = updatedAck.data.rubataPendingAck.prophecies[0] as { content: string }
-    expect(firstProphecy.content).toBe('Questo lo rubano tutti!')
+    // Verify the prophecy is trimmed and written with the acknowledgment
+    expect(mockPrisma.rubataParticipant.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { sessionId_memberId: { sessionId: SESSION_ID, memberId: MEMBER_ID } },
+        update: expect.objectContaining({ prophecy: 'Questo lo rubano tutti!' }),
+      })
+    )
   })
 
   it('should advance to READY_CHECK when all acknowledged and not last player', async () => {
@@ -775,8 +844,6 @@ describe('acknowledgeRubataTransaction', () => {
       playerName: 'Leao',
       winnerId: 'member-2',
       finalPrice: 50,
-      acknowledgedMembers: ['member-2'],
-      prophecies: [],
     }
     // board has 3 players, index is 0 → not last
     const board = [
@@ -789,16 +856,18 @@ describe('acknowledgeRubataTransaction', () => {
       makeSession({
         rubataState: 'PENDING_ACK',
         rubataPendingAck: pendingAck,
-        rubataBoard: board,
+        rubataParticipants: makeParticipants({ acknowledged: ['member-2'] }),
+        ...makeBoardState(board),
         rubataBoardIndex: 0,
       })
     )
-    mockPrisma.leagueMember.findUnique.mockResolvedValueOnce(member)
+    mockPrisma.rubataParticipant.findMany.mockResolvedValueOnce(
+      makeParticipants({ acknowledged: ['member-2', MEMBER_ID] })
+    )
     mockPrisma.leagueMember.findMany.mockResolvedValueOnce([
       member,
       makeMember({ id: 'member-2' }),
     ])
-    mockPrisma.marketSession.update.mockResolvedValueOnce({})
 
     const result = await acknowledgeRubataTransaction(LEAGUE_ID, USER_ID)
     expect(result.success).toBe(true)
@@ -807,8 +876,9 @@ describe('acknowledgeRubataTransaction', () => {
     const data = result.data as { allAcknowledged: boolean }
     expect(data.allAcknowledged).toBe(true)
 
-    expect(mockPrisma.marketSession.update).toHaveBeenCalledWith(
+    expect(mockPrisma.marketSession.updateMany).toHaveBeenCalledWith(
       expect.objectContaining({
+        where: { id: SESSION_ID, rubataState: 'PENDING_ACK' },
         data: expect.objectContaining({
           rubataState: 'READY_CHECK',
           rubataPendingAck: Prisma.DbNull,
@@ -825,8 +895,6 @@ describe('acknowledgeRubataTransaction', () => {
       playerName: 'Leao',
       winnerId: 'member-2',
       finalPrice: 50,
-      acknowledgedMembers: ['member-2'],
-      prophecies: [],
     }
     // board has 2 players, index is 1 → last player (1+1 >= 2)
     const board = [
@@ -838,16 +906,18 @@ describe('acknowledgeRubataTransaction', () => {
       makeSession({
         rubataState: 'PENDING_ACK',
         rubataPendingAck: pendingAck,
-        rubataBoard: board,
+        rubataParticipants: makeParticipants({ acknowledged: ['member-2'] }),
+        ...makeBoardState(board),
         rubataBoardIndex: 1,
       })
     )
-    mockPrisma.leagueMember.findUnique.mockResolvedValueOnce(member)
+    mockPrisma.rubataParticipant.findMany.mockResolvedValueOnce(
+      makeParticipants({ acknowledged: ['member-2', MEMBER_ID] })
+    )
     mockPrisma.leagueMember.findMany.mockResolvedValueOnce([
       member,
       makeMember({ id: 'member-2' }),
     ])
-    mockPrisma.marketSession.update.mockResolvedValueOnce({})
 
     const result = await acknowledgeRubataTransaction(LEAGUE_ID, USER_ID)
     expect(result.success).toBe(true)
@@ -857,7 +927,7 @@ describe('acknowledgeRubataTransaction', () => {
     expect(data.allAcknowledged).toBe(true)
     expect(data.completed).toBe(true)
 
-    expect(mockPrisma.marketSession.update).toHaveBeenCalledWith(
+    expect(mockPrisma.marketSession.updateMany).toHaveBeenCalledWith(
       expect.objectContaining({
         data: expect.objectContaining({
           rubataState: 'COMPLETED',
@@ -894,21 +964,20 @@ describe('forceAllRubataAcknowledge', () => {
     mockPrisma.marketSession.findFirst.mockResolvedValueOnce(
       makeSession({ rubataState: 'PENDING_ACK' })
     )
-    mockPrisma.marketSession.update.mockResolvedValueOnce({})
 
     const result = await forceAllRubataAcknowledge(LEAGUE_ID, ADMIN_USER_ID)
     expect(result.success).toBe(true)
     expect(result.message).toContain('Conferme forzate')
 
-    expect(mockPrisma.marketSession.update).toHaveBeenCalledWith(
+    expect(mockPrisma.marketSession.updateMany).toHaveBeenCalledWith(
       expect.objectContaining({
         data: expect.objectContaining({
           rubataState: 'READY_CHECK',
           rubataPendingAck: Prisma.DbNull,
-          rubataReadyMembers: [],
         }),
       })
     )
+    expect(mockPrisma.rubataParticipant.updateMany).toHaveBeenCalledWith(RESET_READY_CALL)
   })
 })
 
@@ -970,10 +1039,10 @@ describe('pauseRubata', () => {
           rubataState: 'PAUSED',
           rubataPausedFromState: 'OFFERING',
           rubataTimerStartedAt: null,
-          rubataReadyMembers: [],
         }),
       })
     )
+    expect(mockPrisma.rubataParticipant.updateMany).toHaveBeenCalledWith(RESET_READY_CALL)
   })
 
   it('should pause from AUCTION and save remaining time', async () => {
@@ -1070,13 +1139,7 @@ describe('resumeRubata', () => {
     expect(data.pausedFromState).toBe('OFFERING')
     expect(data.requiresReadyCheck).toBe(true)
 
-    expect(mockPrisma.marketSession.update).toHaveBeenCalledWith(
-      expect.objectContaining({
-        data: expect.objectContaining({
-          rubataReadyMembers: [],
-        }),
-      })
-    )
+    expect(mockPrisma.rubataParticipant.updateMany).toHaveBeenCalledWith(RESET_READY_CALL)
   })
 })
 
@@ -1448,7 +1511,7 @@ describe('completeRubataWithTransactions', () => {
     const board = [{ playerId: 'p1' }, { playerId: 'p2' }]
     mockPrisma.leagueMember.findFirst.mockResolvedValueOnce(makeAdminMember())
     mockPrisma.marketSession.findFirst.mockResolvedValueOnce(
-      makeSession({ rubataBoard: board, rubataBoardIndex: 2 })
+      makeSession({ ...makeBoardState(board), rubataBoardIndex: 2 })
     )
 
     const result = await completeRubataWithTransactions(LEAGUE_ID, ADMIN_USER_ID)
@@ -1474,7 +1537,7 @@ describe('completeRubataWithTransactions', () => {
     ]
     mockPrisma.leagueMember.findFirst.mockResolvedValueOnce(makeAdminMember())
     mockPrisma.marketSession.findFirst.mockResolvedValueOnce(
-      makeSession({ rubataBoard: board, rubataBoardIndex: 0 })
+      makeSession({ ...makeBoardState(board), rubataBoardIndex: 0 })
     )
     // With 0% steal probability, no steals happen
     mockPrisma.leagueMember.findMany.mockResolvedValueOnce([makeMember()])
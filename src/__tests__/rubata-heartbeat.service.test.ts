@@ -2,7 +2,7 @@
  * Unit tests for rubata heartbeat, connection status, and setup/config functions.
  *
  * Covers:
- * - registerRubataHeartbeat (in-memory Map)
+ * - registerRubataHeartbeat (in-memory presence store)
  * - getRubataConnectionStatus (timeout logic at 45s)
  * - clearRubataHeartbeats (cleanup)
  * - setRubataOrder (admin-only, order validation, DB transaction)
@@ -26,6 +26,10 @@ const { mockPrisma, MockPrismaClient } = vi.hoisted(() => {
       findFirst: vi.fn(),
       update: vi.fn(),
     },
+    rubataParticipant: {
+      upsert: vi.fn(),
+      updateMany: vi.fn(),
+    },
     auction: {
       findFirst: vi.fn(),
     },
@@ -47,6 +51,7 @@ vi.mock('@prisma/client', () => ({
 
 vi.mock('../services/movement.service', () => ({ recordMovement: vi.fn() }))
 vi.mock('../services/pusher.service', () => ({
+  triggerMemberConnectionChanged: vi.fn(),
   triggerRubataBidPlaced: vi.fn(),
   triggerRubataStealDeclared: vi.fn(),
   triggerRubataReadyChanged: vi.fn(),
@@ -115,7 +120,15 @@ const activeSession = {
   leagueId: LEAGUE_ID,
   status: 'ACTIVE',
   currentPhase: 'RUBATA',
-  rubataOrder: [MEMBER_1_ID, MEMBER_2_ID, ADMIN_MEMBER_ID],
+  rubataParticipants: [MEMBER_1_ID, MEMBER_2_ID, ADMIN_MEMBER_ID].map((memberId, orderIndex) => ({
+    sessionId: 'session-1',
+    memberId,
+    orderIndex,
+    isReady: false,
+    readyAt: null,
+    acknowledgedAt: null,
+    prophecy: null,
+  })),
   rubataOfferTimerSeconds: 30,
   rubataAuctionTimerSeconds: 60,
 }
@@ -123,42 +136,42 @@ const activeSession = {
 // ==================== HEARTBEAT FUNCTIONS ====================
 
 describe('registerRubataHeartbeat', () => {
-  beforeEach(() => {
-    clearRubataHeartbeats(LEAGUE_ID)
-    clearRubataHeartbeats('other-league')
+  beforeEach(async () => {
+    await clearRubataHeartbeats(LEAGUE_ID)
+    await clearRubataHeartbeats('other-league')
   })
 
-  it('should register a heartbeat for a member in a league', () => {
-    registerRubataHeartbeat(LEAGUE_ID, MEMBER_1_ID)
+  it('should register a heartbeat for a member in a league', async () => {
+    await registerRubataHeartbeat(LEAGUE_ID, MEMBER_1_ID)
 
-    const status = getRubataConnectionStatus(LEAGUE_ID)
+    const status = await getRubataConnectionStatus(LEAGUE_ID)
     expect(status.get(MEMBER_1_ID)).toBe(true)
   })
 
-  it('should create a new league map if it does not exist', () => {
-    registerRubataHeartbeat('new-league', MEMBER_1_ID)
+  it('should create a new league map if it does not exist', async () => {
+    await registerRubataHeartbeat('new-league', MEMBER_1_ID)
 
-    const status = getRubataConnectionStatus('new-league')
+    const status = await getRubataConnectionStatus('new-league')
     expect(status.size).toBe(1)
     expect(status.get(MEMBER_1_ID)).toBe(true)
 
-    clearRubataHeartbeats('new-league')
+    await clearRubataHeartbeats('new-league')
   })
 
-  it('should update the timestamp when called multiple times', () => {
-    registerRubataHeartbeat(LEAGUE_ID, MEMBER_1_ID)
-    registerRubataHeartbeat(LEAGUE_ID, MEMBER_1_ID)
+  it('should update the timestamp when called multiple times', async () => {
+    await registerRubataHeartbeat(LEAGUE_ID, MEMBER_1_ID)
+    await registerRubataHeartbeat(LEAGUE_ID, MEMBER_1_ID)
 
-    const status = getRubataConnectionStatus(LEAGUE_ID)
+    const status = await getRubataConnectionStatus(LEAGUE_ID)
     expect(status.size).toBe(1)
     expect(status.get(MEMBER_1_ID)).toBe(true)
   })
 
-  it('should track multiple members independently', () => {
-    registerRubataHeartbeat(LEAGUE_ID, MEMBER_1_ID)
-    registerRubataHeartbeat(LEAGUE_ID, MEMBER_2_ID)
+  it('should track multiple members independently', async () => {
+    await registerRubataHeartbeat(LEAGUE_ID, MEMBER_1_ID)
+    await registerRubataHeartbeat(LEAGUE_ID, MEMBER_2_ID)
 
-    const status = getRubataConnectionStatus(LEAGUE_ID)
+    const status = await getRubataConnectionStatus(LEAGUE_ID)
     expect(status.size).toBe(2)
     expect(status.get(MEMBER_1_ID)).toBe(true)
     expect(status.get(MEMBER_2_ID)).toBe(true)
@@ -166,61 +179,61 @@ describe('registerRubataHeartbeat', () => {
 })
 
 describe('getRubataConnectionStatus', () => {
-  beforeEach(() => {
-    clearRubataHeartbeats(LEAGUE_ID)
+  beforeEach(async () => {
+    await clearRubataHeartbeats(LEAGUE_ID)
   })
 
-  it('should return empty map for unknown league', () => {
-    const status = getRubataConnectionStatus('nonexistent-league')
+  it('should return empty map for unknown league', async () => {
+    const status = await getRubataConnectionStatus('nonexistent-league')
     expect(status.size).toBe(0)
   })
 
-  it('should return true for recently registered heartbeats', () => {
-    registerRubataHeartbeat(LEAGUE_ID, MEMBER_1_ID)
+  it('should return true for recently registered heartbeats', async () => {
+    await registerRubataHeartbeat(LEAGUE_ID, MEMBER_1_ID)
 
-    const status = getRubataConnectionStatus(LEAGUE_ID)
+    const status = await getRubataConnectionStatus(LEAGUE_ID)
     expect(status.get(MEMBER_1_ID)).toBe(true)
   })
 
-  it('should return false for heartbeats older than 45 seconds', () => {
-    registerRubataHeartbeat(LEAGUE_ID, MEMBER_1_ID)
+  it('should return false for heartbeats older than 45 seconds', async () => {
+    await registerRubataHeartbeat(LEAGUE_ID, MEMBER_1_ID)
 
     // Advance Date.now() by 46 seconds to exceed the 45s threshold
     const originalNow = Date.now
     const frozenTime = originalNow()
     vi.spyOn(Date, 'now').mockReturnValue(frozenTime + 46000)
 
-    const status = getRubataConnectionStatus(LEAGUE_ID)
+    const status = await getRubataConnectionStatus(LEAGUE_ID)
     expect(status.get(MEMBER_1_ID)).toBe(false)
 
     // Restore
     vi.spyOn(Date, 'now').mockRestore()
   })
 
-  it('should return true for heartbeats within 45 seconds', () => {
-    registerRubataHeartbeat(LEAGUE_ID, MEMBER_1_ID)
+  it('should return true for heartbeats within 45 seconds', async () => {
+    await registerRubataHeartbeat(LEAGUE_ID, MEMBER_1_ID)
 
     const originalNow = Date.now()
     vi.spyOn(Date, 'now').mockReturnValue(originalNow + 44000)
 
-    const status = getRubataConnectionStatus(LEAGUE_ID)
+    const status = await getRubataConnectionStatus(LEAGUE_ID)
     expect(status.get(MEMBER_1_ID)).toBe(true)
 
     vi.spyOn(Date, 'now').mockRestore()
   })
 
-  it('should show mixed connected/disconnected status', () => {
+  it('should show mixed connected/disconnected status', async () => {
     // Register member1 first, then advance time, then register member2
-    registerRubataHeartbeat(LEAGUE_ID, MEMBER_1_ID)
+    await registerRubataHeartbeat(LEAGUE_ID, MEMBER_1_ID)
 
     const baseTime = Date.now()
     vi.spyOn(Date, 'now').mockReturnValue(baseTime + 46000)
 
     // Member2 registers after the time shift (so it's "recent" at the shifted time)
     // We need to mock Date.now for registerRubataHeartbeat to use the shifted time
-    registerRubataHeartbeat(LEAGUE_ID, MEMBER_2_ID)
+    await registerRubataHeartbeat(LEAGUE_ID, MEMBER_2_ID)
 
-    const status = getRubataConnectionStatus(LEAGUE_ID)
+    const status = await getRubataConnectionStatus(LEAGUE_ID)
     expect(status.get(MEMBER_1_ID)).toBe(false)
     expect(status.get(MEMBER_2_ID)).toBe(true)
 
@@ -229,33 +242,31 @@ describe('getRubataConnectionStatus', () => {
 })
 
 describe('clearRubataHeartbeats', () => {
-  it('should remove all heartbeats for a league', () => {
-    registerRubataHeartbeat(LEAGUE_ID, MEMBER_1_ID)
-    registerRubataHeartbeat(LEAGUE_ID, MEMBER_2_ID)
+  it('should remove all heartbeats for a league', async () => {
+    await registerRubataHeartbeat(LEAGUE_ID, MEMBER_1_ID)
+    await registerRubataHeartbeat(LEAGUE_ID, MEMBER_2_ID)
 
-    clearRubataHeartbeats(LEAGUE_ID)
+    await clearRubataHeartbeats(LEAGUE_ID)
 
-    const status = getRubataConnectionStatus(LEAGUE_ID)
+    const status = await getRubataConnectionStatus(LEAGUE_ID)
     expect(status.size).toBe(0)
   })
 
-  it('should not affect other leagues', () => {
-    registerRubataHeartbeat(LEAGUE_ID, MEMBER_1_ID)
-    registerRubataHeartbeat('other-league', MEMBER_2_ID)
+  it('should not affect other leagues', async () => {
+    await registerRubataHeartbeat(LEAGUE_ID, MEMBER_1_ID)
+    await registerRubataHeartbeat('other-league', MEMBER_2_ID)
 
-    clearRubataHeartbeats(LEAGUE_ID)
+    await clearRubataHeartbeats(LEAGUE_ID)
 
-    const status = getRubataConnectionStatus('other-league')
+    const status = await getRubataConnectionStatus('other-league')
     expect(status.size).toBe(1)
     expect(status.get(MEMBER_2_ID)).toBe(true)
 
-    clearRubataHeartbeats('other-league')
+    await clearRubataHeartbeats('other-league')
   })
 
-  it('should be safe to call on nonexistent league', () => {
-    expect(() => {
-      clearRubataHeartbeats('nonexistent')
-    }).not.toThrow()
+  it('should be safe to call on nonexistent league', async () => {
+    await expect(clearRubataHeartbeats('nonexistent')).resolves.toBeUndefined()
   })
 })
 
@@ -341,13 +352,15 @@ describe('setRubataOrder', () => {
     await setRubataOrder(LEAGUE_ID, ADMIN_USER_ID, order)
 
     expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1)
-    // Verify session update was called with the order
-    expect(mockPrisma.marketSession.update).toHaveBeenCalledWith(
-      expect.objectContaining({
-        where: { id: activeSession.id },
-        data: { rubataOrder: order },
+    // Verify each member got their position in the session order (0-based)
+    expect(mockPrisma.rubataParticipant.upsert).toHaveBeenCalledTimes(3)
+    order.forEach((memberId, orderIndex) => {
+      expect(mockPrisma.rubataParticipant.upsert).toHaveBeenCalledWith({
+        where: { sessionId_memberId: { sessionId: activeSession.id, memberId } },
+        create: { sessionId: activeSession.id, memberId, orderIndex },
+        update: { orderIndex },
       })
-    )
+    })
     // Verify each member got their rubataOrder index (1-based)
     expect(mockPrisma.leagueMember.update).toHaveBeenCalledTimes(3)
     expect(mockPrisma.leagueMember.update).toHaveBeenCalledWith({
@@ -463,7 +476,7 @@ describe('getCurrentRubataTurn', () => {
 
   it('should reject when rubata order is not set', async () => {
     mockPrisma.leagueMember.findFirst.mockResolvedValue(member1)
-    const sessionNoOrder = { ...activeSession, rubataOrder: null }
+    const sessionNoOrder = { ...activeSession, rubataParticipants: [] }
     mockPrisma.marketSession.findFirst
       .mockResolvedValueOnce(activeSession) // isInRubataPhase
       .mockResolvedValueOnce(sessionNoOrder) // main query
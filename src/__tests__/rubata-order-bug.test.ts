@@ -18,6 +18,10 @@ const { mockPrisma, MockPrismaClient } = vi.hoisted(() => {
       findFirst: vi.fn(),
       update: vi.fn(),
     },
+    rubataParticipant: {
+      upsert: vi.fn(),
+      updateMany: vi.fn(),
+    },
     $transaction: vi.fn((cb: (tx: typeof mock) => Promise<unknown>) => cb(mock)),
   }
   const MockClass = function (this: typeof mock) {
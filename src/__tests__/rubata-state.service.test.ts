@@ -0,0 +1,239 @@
+/**
+ * rubata-state.service.test.ts - Unit Tests for normalized rubata state
+ *
+ * Tests for board/participant mappers and per-row writers.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { RubataBoard, RubataParticipant } from '@prisma/client'
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    rubataBoard: {
+      deleteMany: vi.fn(),
+      createMany: vi.fn(),
+      update: vi.fn(),
+    },
+    rubataParticipant: {
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: mockPrisma,
+}))
+
+import {
+  toRubataBoard,
+  toRubataOrder,
+  toRubataReadyMembers,
+  toRubataAcknowledgedMembers,
+  toRubataProphecies,
+  saveRubataBoard,
+  markRubataBoardEntryStolen,
+  saveRubataOrder,
+  setRubataMembersReady,
+  resetRubataReadyMembers,
+  acknowledgeRubataMember,
+  resetRubataAcknowledgements,
+} from '../services/rubata-state.service'
+
+const SESSION_ID = 'session-1'
+
+function makeParticipant(overrides: Partial<RubataParticipant> = {}): RubataParticipant {
+  return {
+    id: `p-${overrides.memberId ?? 'member-1'}`,
+    sessionId: SESSION_ID,
+    memberId: 'member-1',
+    orderIndex: null,
+    isReady: false,
+    readyAt: null,
+    acknowledgedAt: null,
+    prophecy: null,
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+function makeEntry(orderIndex: number, playerName: string): RubataBoard {
+  return {
+    id: `entry-${orderIndex}`,
+    sessionId: SESSION_ID,
+    orderIndex,
+    rosterId: `roster-${orderIndex}`,
+    memberId: 'member-1',
+    playerId: `player-${orderIndex}`,
+    playerName,
+    playerPosition: 'A',
+    playerTeam: 'Milan',
+    playerQuotation: 20,
+    playerAge: 25,
+    playerApiFootballId: null,
+    playerApiFootballStats: null,
+    ownerUsername: 'owner',
+    ownerTeamName: 'Owner FC',
+    rubataPrice: 30,
+    contractSalary: 5,
+    contractDuration: 2,
+    contractClause: 25,
+    stolenById: null,
+    stolenByUsername: null,
+    stolenPrice: null,
+    createdAt: new Date(),
+  }
+}
+
+describe('rubata-state mappers', () => {
+  it('toRubataBoard returns null when the board was never generated', () => {
+    expect(toRubataBoard({ rubataBoardGeneratedAt: null, rubataBoardEntries: [] })).toBeNull()
+  })
+
+  it('toRubataBoard returns an empty board when generated with no players', () => {
+    expect(toRubataBoard({ rubataBoardGeneratedAt: new Date(), rubataBoardEntries: [] })).toEqual([])
+  })
+
+  it('toRubataBoard sorts entries by orderIndex', () => {
+    const board = toRubataBoard({
+      rubataBoardGeneratedAt: new Date(),
+      rubataBoardEntries: [makeEntry(1, 'Leao'), makeEntry(0, 'Maignan')],
+    })
+
+    expect(board?.map(b => b.playerName)).toEqual(['Maignan', 'Leao'])
+    expect(board?.[0]).not.toHaveProperty('orderIndex')
+  })
+
+  it('toRubataOrder skips members out of order and sorts by position', () => {
+    const order = toRubataOrder([
+      makeParticipant({ memberId: 'm-2', orderIndex: 1 }),
+      makeParticipant({ memberId: 'admin', orderIndex: null }),
+      makeParticipant({ memberId: 'm-1', orderIndex: 0 }),
+    ])
+
+    expect(order).toEqual(['m-1', 'm-2'])
+  })
+
+  it('derives ready and acknowledged members from the rows', () => {
+    const participants = [
+      makeParticipant({ memberId: 'm-1', isReady: true }),
+      makeParticipant({ memberId: 'm-2', acknowledgedAt: new Date() }),
+    ]
+
+    expect(toRubataReadyMembers(participants)).toEqual(['m-1'])
+    expect(toRubataAcknowledgedMembers(participants)).toEqual(['m-2'])
+  })
+
+  it('toRubataProphecies returns acknowledged prophecies in acknowledgment order', () => {
+    const prophecies = toRubataProphecies([
+      makeParticipant({ memberId: 'm-2', acknowledgedAt: new Date('2026-10-18T10:05:00Z'), prophecy: 'Secondo' }),
+      makeParticipant({ memberId: 'm-1', acknowledgedAt: new Date('2026-10-18T10:00:00Z'), prophecy: 'Primo' }),
+      makeParticipant({ memberId: 'm-3', acknowledgedAt: new Date(), prophecy: null }),
+    ])
+
+    expect(prophecies).toEqual([
+      { memberId: 'm-1', content: 'Primo', createdAt: '2026-10-18T10:00:00.000Z' },
+      { memberId: 'm-2', content: 'Secondo', createdAt: '2026-10-18T10:05:00.000Z' },
+    ])
+  })
+})
+
+describe('rubata-state writers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('saveRubataBoard replaces the board keeping the given order', async () => {
+    const { orderIndex: _o, id: _i, sessionId: _s, createdAt: _c, ...item } = makeEntry(0, 'Maignan')
+
+    await saveRubataBoard(SESSION_ID, [item, { ...item, playerName: 'Leao' }])
+
+    expect(mockPrisma.rubataBoard.deleteMany).toHaveBeenCalledWith({ where: { sessionId: SESSION_ID } })
+    const data = mockPrisma.rubataBoard.createMany.mock.calls[0]?.[0].data as Array<{ orderIndex: number; playerName: string }>
+    expect(data.map(d => [d.orderIndex, d.playerName])).toEqual([[0, 'Maignan'], [1, 'Leao']])
+  })
+
+  it('saveRubataBoard skips createMany for an empty board', async () => {
+    await saveRubataBoard(SESSION_ID, [])
+
+    expect(mockPrisma.rubataBoard.deleteMany).toHaveBeenCalled()
+    expect(mockPrisma.rubataBoard.createMany).not.toHaveBeenCalled()
+  })
+
+  it('markRubataBoardEntryStolen updates only the entry at the index', async () => {
+    const stolen = { stolenById: 'm-2', stolenByUsername: 'user2', stolenPrice: 40 }
+
+    await markRubataBoardEntryStolen(SESSION_ID, 3, stolen)
+
+    expect(mockPrisma.rubataBoard.update).toHaveBeenCalledWith({
+      where: { sessionId_orderIndex: { sessionId: SESSION_ID, orderIndex: 3 } },
+      data: stolen,
+    })
+  })
+
+  it('saveRubataOrder removes other members from the order and upserts positions', async () => {
+    await saveRubataOrder(SESSION_ID, ['m-2', 'm-1'])
+
+    expect(mockPrisma.rubataParticipant.updateMany).toHaveBeenCalledWith({
+      where: { sessionId: SESSION_ID, memberId: { notIn: ['m-2', 'm-1'] } },
+      data: { orderIndex: null },
+    })
+    expect(mockPrisma.rubataParticipant.upsert).toHaveBeenCalledWith({
+      where: { sessionId_memberId: { sessionId: SESSION_ID, memberId: 'm-1' } },
+      create: { sessionId: SESSION_ID, memberId: 'm-1', orderIndex: 1 },
+      update: { orderIndex: 1 },
+    })
+  })
+
+  it('setRubataMembersReady writes one row per member', async () => {
+    await setRubataMembersReady(SESSION_ID, ['m-1', 'm-2'])
+
+    expect(mockPrisma.rubataParticipant.upsert).toHaveBeenCalledTimes(2)
+    expect(mockPrisma.rubataParticipant.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { sessionId_memberId: { sessionId: SESSION_ID, memberId: 'm-2' } },
+        update: expect.objectContaining({ isReady: true }),
+      })
+    )
+  })
+
+  it('resetRubataReadyMembers clears only ready rows', async () => {
+    await resetRubataReadyMembers(SESSION_ID)
+
+    expect(mockPrisma.rubataParticipant.updateMany).toHaveBeenCalledWith({
+      where: { sessionId: SESSION_ID, isReady: true },
+      data: { isReady: false, readyAt: null },
+    })
+  })
+
+  it('acknowledgeRubataMember stores the prophecy with the acknowledgment', async () => {
+    await acknowledgeRubataMember(SESSION_ID, 'm-1', 'Lo rubano tutti')
+
+    expect(mockPrisma.rubataParticipant.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({ prophecy: 'Lo rubano tutti', acknowledgedAt: expect.any(Date) }),
+      })
+    )
+  })
+
+  it('resetRubataAcknowledgements clears acknowledgments and prophecies', async () => {
+    await resetRubataAcknowledgements(SESSION_ID)
+
+    expect(mockPrisma.rubataParticipant.updateMany).toHaveBeenCalledWith({
+      where: { sessionId: SESSION_ID },
+      data: { acknowledgedAt: null, prophecy: null },
+    })
+  })
+
+  it('uses the transaction client when provided', async () => {
+    const tx = { rubataParticipant: { updateMany: vi.fn() } }
+
+    await resetRubataReadyMembers(SESSION_ID, tx as never)
+
+    expect(tx.rubataParticipant.updateMany).toHaveBeenCalled()
+    expect(mockPrisma.rubataParticipant.updateMany).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,230 @@
+/**
+ * scoring.service.test.ts - Unit Tests for the fantasy matchday engine
+ *
+ * Tests fantavoto bonus/malus, automatic substitutions from the bench,
+ * lineup validation against formation and active roster, and the
+ * matchday computation that produces the round standings.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mock = {
+    leagueMember: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+    },
+    playerRoster: {
+      findMany: vi.fn(),
+    },
+    playerMatchRating: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+    },
+    matchdayLineup: {
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+    },
+    matchdayLineupPlayer: {
+      deleteMany: vi.fn(),
+      createMany: vi.fn(),
+    },
+    matchdayScore: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  }
+  mock.$transaction.mockImplementation((fn: (tx: typeof mock) => Promise<unknown>) => fn(mock))
+  return { mockPrisma: mock }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+
+vi.mock('../services/admin.service', () => ({ logAction: vi.fn() }))
+
+import { submitLineup, computeMatchday } from '../services/scoring.service'
+import {
+  computeFantavoto,
+  scoreLineup,
+  resolveScoringRuleset,
+  validateScoringRuleset,
+  DEFAULT_SCORING_RULESET,
+  type MatchStats,
+} from '../utils/scoring-rules'
+
+function stats(overrides: Partial<MatchStats> = {}): MatchStats {
+  return {
+    rating: 6,
+    minutesPlayed: 90,
+    goals: 0,
+    assists: 0,
+    goalsConceded: 1,
+    yellowCards: 0,
+    redCards: 0,
+    ...overrides,
+  }
+}
+
+describe('computeFantavoto', () => {
+  it('adds goal, assist and card bonus/malus to the rating', () => {
+    const vote = computeFantavoto(stats({ rating: 7, goals: 1, assists: 1, yellowCards: 1 }), 'A', DEFAULT_SCORING_RULESET)
+
+    expect(vote).toEqual({ baseRating: 7, bonus: 3.5, fantavoto: 10.5 })
+  })
+
+  it('applies conceded goals and clean sheet only where configured', () => {
+    expect(computeFantavoto(stats({ goalsConceded: 2 }), 'P', DEFAULT_SCORING_RULESET)?.bonus).toBe(-2)
+    expect(computeFantavoto(stats({ goalsConceded: 0 }), 'P', DEFAULT_SCORING_RULESET)?.bonus).toBe(1)
+    expect(computeFantavoto(stats({ goalsConceded: 0 }), 'D', DEFAULT_SCORING_RULESET)?.bonus).toBe(0)
+    expect(computeFantavoto(stats({ goalsConceded: 0, minutesPlayed: 30 }), 'P', DEFAULT_SCORING_RULESET)?.bonus).toBe(0)
+  })
+
+  it('returns null for a player without a rating', () => {
+    expect(computeFantavoto(stats({ rating: null }), 'C', DEFAULT_SCORING_RULESET)).toBeNull()
+    expect(computeFantavoto(undefined, 'C', DEFAULT_SCORING_RULESET)).toBeNull()
+  })
+})
+
+describe('scoreLineup', () => {
+  it('replaces a starter without a rating with the first bench player of the same role', () => {
+    const ratings = new Map([
+      ['d1', stats({ rating: 6 })],
+      ['c-bench', stats({ rating: 7 })],
+      ['d-bench-1', stats({ rating: null })],
+      ['d-bench-2', stats({ rating: 5.5 })],
+    ])
+
+    const score = scoreLineup(
+      [{ playerId: 'd1', role: 'D' }, { playerId: 'd2', role: 'D' }],
+      [{ playerId: 'c-bench', role: 'C' }, { playerId: 'd-bench-1', role: 'D' }, { playerId: 'd-bench-2', role: 'D' }],
+      ratings,
+      DEFAULT_SCORING_RULESET
+    )
+
+    expect(score.total).toBe(11.5)
+    expect(score.players[1]).toMatchObject({ playerId: 'd-bench-2', substituteFor: 'd2' })
+    expect(score.missing).toEqual([])
+  })
+
+  it('stops substituting after the configured maximum', () => {
+    const rules = { ...DEFAULT_SCORING_RULESET, maxSubstitutions: 1 }
+    const ratings = new Map([['a-bench-1', stats()], ['a-bench-2', stats()]])
+
+    const score = scoreLineup(
+      [{ playerId: 'a1', role: 'A' }, { playerId: 'a2', role: 'A' }],
+      [{ playerId: 'a-bench-1', role: 'A' }, { playerId: 'a-bench-2', role: 'A' }],
+      ratings,
+      rules
+    )
+
+    expect(score.players).toHaveLength(1)
+    expect(score.missing).toEqual(['a2'])
+  })
+})
+
+describe('scoring ruleset', () => {
+  it('falls back to defaults for missing fields and rejects invalid formations', () => {
+    const rules = resolveScoringRuleset({ assistBonus: 2, formations: ['4-4-2', '4-4-3'] })
+
+    expect(rules.assistBonus).toBe(2)
+    expect(rules.goalBonus).toEqual(DEFAULT_SCORING_RULESET.goalBonus)
+    expect(validateScoringRuleset(rules)).toEqual(['Moduli non validi: 4-4-3'])
+  })
+})
+
+describe('submitLineup', () => {
+  const roster = [
+    { playerId: 'p1', player: { id: 'p1', position: 'P' } },
+    ...['d1', 'd2', 'd3', 'd4'].map(id => ({ playerId: id, player: { id, position: 'D' } })),
+    ...['c1', 'c2', 'c3', 'c4'].map(id => ({ playerId: id, player: { id, position: 'C' } })),
+    ...['a1', 'a2', 'a3'].map(id => ({ playerId: id, player: { id, position: 'A' } })),
+  ]
+  const starters = ['p1', 'd1', 'd2', 'd3', 'd4', 'c1', 'c2', 'c3', 'c4', 'a1', 'a2']
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.leagueMember.findFirst.mockResolvedValue({ id: 'member-1', league: { scoringRuleset: null } })
+    mockPrisma.playerMatchRating.findFirst.mockResolvedValue(null)
+    mockPrisma.matchdayScore.findFirst.mockResolvedValue(null)
+    mockPrisma.playerRoster.findMany.mockResolvedValue(roster)
+    mockPrisma.matchdayLineup.upsert.mockResolvedValue({ id: 'lineup-1' })
+  })
+
+  const input = { season: '2025-2026', round: 'Regular Season - 10', formation: '4-4-2', starters, bench: ['a3'] }
+
+  it('saves starters and bench in order', async () => {
+    const result = await submitLineup('league-1', 'user-1', input)
+
+    expect(result.success).toBe(true)
+    expect(mockPrisma.matchdayLineupPlayer.createMany).toHaveBeenCalledWith({
+      data: expect.arrayContaining([
+        { lineupId: 'lineup-1', playerId: 'a3', isStarter: false, sortOrder: 0 },
+      ]) as unknown,
+    })
+  })
+
+  it('rejects starters that do not match the formation', async () => {
+    const result = await submitLineup('league-1', 'user-1', { ...input, formation: '3-4-3' })
+
+    expect(result.success).toBe(false)
+    expect(result.message).toContain('3-4-3')
+    expect(mockPrisma.matchdayLineup.upsert).not.toHaveBeenCalled()
+  })
+
+  it('rejects players outside the active roster', async () => {
+    mockPrisma.playerRoster.findMany.mockResolvedValue(roster.filter(r => r.playerId !== 'a3'))
+
+    const result = await submitLineup('league-1', 'user-1', input)
+
+    expect(result.success).toBe(false)
+    expect(mockPrisma.matchdayLineup.upsert).not.toHaveBeenCalled()
+  })
+
+  it('rejects changes once the round has ratings', async () => {
+    mockPrisma.playerMatchRating.findFirst.mockResolvedValue({ id: 'rating-1' })
+
+    const result = await submitLineup('league-1', 'user-1', input)
+
+    expect(result.success).toBe(false)
+    expect(mockPrisma.matchdayLineup.upsert).not.toHaveBeenCalled()
+  })
+})
+
+describe('computeMatchday', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.leagueMember.findFirst.mockResolvedValue({ id: 'admin-member', league: { scoringRuleset: null } })
+  })
+
+  it('fails when the round has no ratings', async () => {
+    mockPrisma.playerMatchRating.findMany.mockResolvedValue([])
+
+    const result = await computeMatchday('league-1', 'admin-1', '2025-2026', 'Regular Season - 10')
+
+    expect(result.success).toBe(false)
+    expect(mockPrisma.matchdayScore.upsert).not.toHaveBeenCalled()
+  })
+
+  it('scores every active member, with zero for missing lineups', async () => {
+    mockPrisma.playerMatchRating.findMany.mockResolvedValue([
+      { playerId: 'a1', ...stats({ rating: 7, goals: 1 }) },
+    ])
+    mockPrisma.leagueMember.findMany.mockResolvedValue([{ id: 'member-1' }, { id: 'member-2' }])
+    mockPrisma.matchdayLineup.findMany.mockResolvedValue([{
+      memberId: 'member-1',
+      players: [{ playerId: 'a1', isStarter: true, player: { name: 'Striker', position: 'A' } }],
+    }])
+
+    const result = await computeMatchday('league-1', 'admin-1', '2025-2026', 'Regular Season - 10')
+
+    expect(result.success).toBe(true)
+    expect(result.data).toMatchObject({ scores: [{ memberId: 'member-1', total: 10 }, { memberId: 'member-2', total: 0 }] })
+    expect(mockPrisma.matchdayScore.upsert).toHaveBeenCalledTimes(2)
+    // Tutti i punteggi della giornata in un'unica transazione
+    expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1)
+  })
+})
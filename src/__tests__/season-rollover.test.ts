@@ -0,0 +1,259 @@
+/**
+ * season-rollover.test.ts - Unit Tests for the season rollover wizard
+ *
+ * Tests the budget policy and contract plan helpers, the preview blockers and
+ * the rollover itself (archive, SEASON_END snapshots, budgets, next market).
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mock = {
+    leagueMember: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    league: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    playerContract: {
+      findMany: vi.fn(),
+    },
+    marketSession: {
+      findFirst: vi.fn(),
+    },
+    matchdayScore: {
+      findFirst: vi.fn(),
+    },
+    seasonArchive: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    managerSessionSnapshot: {
+      create: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  }
+  return { mockPrisma: mock }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+vi.mock('../services/admin.service', () => ({ logAction: vi.fn() }))
+vi.mock('../services/auction.service', () => ({ createAuctionSession: vi.fn() }))
+vi.mock('../services/scoring.service', () => ({ getSeasonStandings: vi.fn() }))
+vi.mock('../services/standings-import.service', () => ({ getImportedStandings: vi.fn() }))
+
+import {
+  applySeasonRollover,
+  getSeasonArchives,
+  previewSeasonRollover,
+  retrySeasonRolloverMarket,
+} from '../services/season-rollover.service'
+import { logAction } from '../services/admin.service'
+import { createAuctionSession } from '../services/auction.service'
+import { getImportedStandings } from '../services/standings-import.service'
+import {
+  nextSeasonBudget,
+  planContractRollover,
+  resolveSeasonBudgetPolicy,
+  type SeasonBudgetPolicy,
+} from '../utils/season-rollover'
+
+describe('season budget policy', () => {
+  it('merges the stored policy with the defaults', () => {
+    expect(resolveSeasonBudgetPolicy(null)).toEqual({ mode: 'CARRY_OVER', carryOverPercent: 100, seasonBonus: 0 })
+    expect(resolveSeasonBudgetPolicy({ mode: 'RESET', carryOverPercent: 150, seasonBonus: 20 }))
+      .toEqual({ mode: 'RESET', carryOverPercent: 100, seasonBonus: 20 })
+  })
+
+  it('carries over a share of the budget or resets it', () => {
+    const carry: SeasonBudgetPolicy = { mode: 'CARRY_OVER', carryOverPercent: 50, seasonBonus: 10 }
+    expect(nextSeasonBudget(95, 500, carry)).toBe(57)
+    expect(nextSeasonBudget(-20, 500, carry)).toBe(-10)
+    expect(nextSeasonBudget(95, 500, { ...carry, mode: 'RESET' })).toBe(510)
+  })
+
+  it('decrements contracts and expires the last semester', () => {
+    const contract = (contractId: string, duration: number) => ({ contractId, memberId: 'm1', playerName: contractId, salary: 5, duration })
+    const plan = planContractRollover([contract('c1', 3), contract('c2', 1)])
+
+    expect(plan.decremented).toEqual([{ ...contract('c1', 3), newDuration: 2 }])
+    expect(plan.expiring).toEqual([contract('c2', 1)])
+  })
+})
+
+describe('season rollover wizard', () => {
+  const policy: SeasonBudgetPolicy = { mode: 'CARRY_OVER', carryOverPercent: 100, seasonBonus: 25 }
+  const league = { id: 'league-1', status: 'ACTIVE', currentSeason: 2, initialBudget: 500, requireEvenNumber: true, seasonBudgetPolicy: null }
+  const members = Array.from({ length: 6 }, (_, i) => ({
+    id: `member-${i}`,
+    teamName: `Team ${i}`,
+    currentBudget: 100 + i,
+    user: { username: `user${i}` },
+  }))
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.leagueMember.findFirst.mockResolvedValue({ id: 'admin-member' })
+    mockPrisma.league.findUnique.mockResolvedValue(league)
+    mockPrisma.league.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.leagueMember.findMany.mockResolvedValue(members)
+    mockPrisma.playerContract.findMany.mockResolvedValue([
+      { id: 'c1', leagueMemberId: 'member-0', salary: 10, duration: 2, roster: { player: { name: 'Lautaro' } } },
+      { id: 'c2', leagueMemberId: 'member-0', salary: 4, duration: 1, roster: { player: { name: 'Zapata' } } },
+    ])
+    // Nessuna sessione attiva né della stagione successiva: l'ultima è session-4
+    mockPrisma.marketSession.findFirst.mockImplementation(({ where }: { where: { status?: string; season?: number } }) =>
+      Promise.resolve(where.status || where.season ? null : { id: 'session-4' }))
+    mockPrisma.seasonArchive.findUnique.mockResolvedValue(null)
+    mockPrisma.seasonArchive.create.mockResolvedValue({ id: 'archive-1' })
+    mockPrisma.matchdayScore.findFirst.mockResolvedValue(null)
+    vi.mocked(getImportedStandings).mockResolvedValue(null)
+    vi.mocked(createAuctionSession).mockResolvedValue({
+      success: true,
+      data: { session: { id: 'session-5' }, contractsDecremented: 1, playersReleased: ['Zapata'] },
+    })
+    mockPrisma.$transaction.mockImplementation((fn: (tx: unknown) => Promise<unknown>) => fn(mockPrisma))
+  })
+
+  it('previews budgets, expiring contracts and the saved policy', async () => {
+    const result = await previewSeasonRollover('league-1', 'admin-user')
+
+    expect(result.success).toBe(true)
+    expect(getImportedStandings).toHaveBeenCalledWith('league-1', 2)
+    expect(result.data).toMatchObject({
+      season: 2,
+      nextSeason: 3,
+      policy: { mode: 'CARRY_OVER', carryOverPercent: 100, seasonBonus: 0 },
+      standingsSource: 'NONE',
+      contractsToDecrement: 1,
+      expiringContracts: [{ contractId: 'c2', playerName: 'Zapata', salary: 4 }],
+      blockers: [],
+      canApply: true,
+    })
+    expect((result.data as { members: unknown[] }).members[0]).toEqual({
+      memberId: 'member-0', teamName: 'Team 0', username: 'user0',
+      budget: 100, newBudget: 100, totalSalaries: 14, contractCount: 2, expiringCount: 1,
+    })
+  })
+
+  it('blocks the rollover while a session is active or the season is archived', async () => {
+    mockPrisma.marketSession.findFirst.mockResolvedValue({ id: 'session-4' })
+    mockPrisma.seasonArchive.findUnique.mockResolvedValue({ id: 'archive-0' })
+    mockPrisma.leagueMember.findMany.mockResolvedValue(members.slice(0, 5))
+
+    const result = await applySeasonRollover('league-1', 'admin-user', policy)
+
+    expect(result).toMatchObject({
+      success: false,
+      message: 'Chiudi la sessione di mercato attiva prima di cambiare stagione',
+      data: {
+        blockers: [
+          'Chiudi la sessione di mercato attiva prima di cambiare stagione',
+          'La stagione 2 è già stata archiviata',
+          'Servono almeno 6 partecipanti per aprire il nuovo mercato. Attualmente: 5',
+        ],
+      },
+    })
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    expect(createAuctionSession).not.toHaveBeenCalled()
+  })
+
+  it('archives the season, applies budgets and opens the next market', async () => {
+    const result = await applySeasonRollover('league-1', 'admin-user', policy)
+
+    expect(result).toMatchObject({ success: true, message: 'Stagione 2 chiusa. Mercato della stagione 3 aperto' })
+    expect(mockPrisma.league.updateMany).toHaveBeenCalledWith({
+      where: { id: 'league-1', currentSeason: 2 },
+      data: { currentSeason: 3, seasonBudgetPolicy: policy },
+    })
+    expect(mockPrisma.managerSessionSnapshot.create).toHaveBeenCalledTimes(6)
+    expect(mockPrisma.managerSessionSnapshot.create).toHaveBeenCalledWith({
+      data: {
+        leagueMemberId: 'member-0', marketSessionId: 'session-4', snapshotType: 'SEASON_END',
+        budget: 100, totalSalaries: 14, balance: 86, contractCount: 2,
+      },
+    })
+    expect(mockPrisma.leagueMember.update).toHaveBeenCalledWith({ where: { id: 'member-0' }, data: { currentBudget: { increment: 25 } } })
+    expect(createAuctionSession).toHaveBeenCalledWith('league-1', 'admin-user', true)
+    expect(mockPrisma.seasonArchive.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ season: 2, report: expect.objectContaining({ nextSessionId: null, snapshotsCreated: 6 }) }),
+    })
+    expect(mockPrisma.seasonArchive.updateMany).toHaveBeenCalledWith({
+      where: { id: 'archive-1', nextSessionId: null },
+      data: expect.objectContaining({
+        nextSessionId: 'session-5',
+        report: expect.objectContaining({ contractsDecremented: 1, playersReleased: ['Zapata'], nextSessionError: null }),
+      }),
+    })
+    expect(logAction).toHaveBeenCalledWith('admin-user', 'league-1', 'SEASON_ROLLOVER', 'League', 'league-1',
+      expect.objectContaining({ season: 2 }), expect.objectContaining({ season: 3, nextSessionId: 'session-5' }))
+  })
+
+  it('retries the market step without opening a second session', async () => {
+    mockPrisma.league.findUnique.mockResolvedValue({ ...league, currentSeason: 3 })
+    mockPrisma.seasonArchive.findUnique.mockResolvedValue({ id: 'archive-1', season: 2, nextSessionId: null, report: { season: 2 } })
+
+    const result = await retrySeasonRolloverMarket('league-1', 'admin-user')
+
+    expect(result).toMatchObject({ success: true, data: { nextSessionId: 'session-5' } })
+    expect(mockPrisma.seasonArchive.findUnique).toHaveBeenCalledWith({ where: { leagueId_season: { leagueId: 'league-1', season: 2 } } })
+    expect(mockPrisma.seasonArchive.updateMany).toHaveBeenCalledWith({
+      where: { id: 'archive-1', nextSessionId: null },
+      data: { nextSessionId: 'session-5', report: expect.objectContaining({ season: 2, nextSessionId: 'session-5' }) },
+    })
+
+    // La sessione della stagione 3 esiste già (tentativo interrotto): viene collegata
+    vi.mocked(createAuctionSession).mockClear()
+    mockPrisma.marketSession.findFirst.mockResolvedValue({ id: 'session-5' })
+    expect(await retrySeasonRolloverMarket('league-1', 'admin-user')).toMatchObject({ success: true, data: { nextSessionId: 'session-5' } })
+    expect(createAuctionSession).not.toHaveBeenCalled()
+
+    // Archivio già collegato: nessun effetto
+    mockPrisma.seasonArchive.findUnique.mockResolvedValue({ id: 'archive-1', season: 2, nextSessionId: 'session-5', report: {} })
+    mockPrisma.seasonArchive.updateMany.mockClear()
+    expect(await retrySeasonRolloverMarket('league-1', 'admin-user')).toMatchObject({ success: true, message: 'Mercato della stagione 3 già aperto' })
+    expect(mockPrisma.seasonArchive.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('maps the stored archive to the summary', async () => {
+    mockPrisma.seasonArchive.findMany.mockResolvedValue([{
+      id: 'archive-1',
+      season: 2,
+      standingsSource: 'IMPORT',
+      standings: [{ memberId: 'member-0', teamName: 'Team 0', username: 'user0', rank: 1, points: 70 }, 'invalid'],
+      budgetPolicy: { mode: 'RESET' },
+      report: { nextSessionError: 'Esiste già una sessione attiva' },
+      nextSessionId: null,
+      closedBy: { username: 'admin' },
+      createdAt: new Date('2026-06-01T10:00:00Z'),
+    }])
+
+    const result = await getSeasonArchives('league-1', 'admin-user')
+
+    expect(result.data).toEqual([{
+      id: 'archive-1',
+      season: 2,
+      standingsSource: 'IMPORT',
+      standings: [{ memberId: 'member-0', teamName: 'Team 0', username: 'user0', rank: 1, points: 70 }],
+      policy: { mode: 'RESET', carryOverPercent: 100, seasonBonus: 0 },
+      nextSessionId: null,
+      nextSessionError: 'Esiste già una sessione attiva',
+      closedBy: { username: 'admin' },
+      createdAt: '2026-06-01T10:00:00.000Z',
+    }])
+  })
+
+  it('rejects non-admins', async () => {
+    mockPrisma.leagueMember.findFirst.mockResolvedValue(null)
+
+    expect(await applySeasonRollover('league-1', 'user-1', policy)).toEqual({ success: false, message: 'Non autorizzato' })
+    expect(await previewSeasonRollover('league-1', 'user-1')).toEqual({ success: false, message: 'Non autorizzato' })
+  })
+})
@@ -0,0 +1,201 @@
+/**
+ * session.service.test.ts - Unit Tests for active session management
+ *
+ * Tests the user agent description, the session list built from refresh token
+ * families, revocation of one or all other sessions, new device detection and
+ * the security alert email.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { mockPrisma, mockEmailService } = vi.hoisted(() => ({
+  mockPrisma: {
+    refreshToken: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    user: {
+      findUnique: vi.fn(),
+    },
+  },
+  mockEmailService: {
+    sendSecurityAlertEmail: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+vi.mock('../modules/identity/infrastructure/services/email.factory', () => ({
+  createEmailService: () => mockEmailService,
+}))
+
+import {
+  isNewDevice,
+  listActiveSessions,
+  revokeOtherSessions,
+  revokeSession,
+  sendSecurityAlert,
+  type ActiveSession,
+} from '../services/session.service'
+import { describeUserAgent, UNKNOWN_DEVICE } from '../utils/user-agent'
+
+const CHROME_WINDOWS = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36'
+const SAFARI_IPHONE = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1'
+const EDGE_WINDOWS = `${CHROME_WINDOWS} Edg/129.0.0.0`
+
+function token(overrides: Record<string, unknown>) {
+  return {
+    id: 'token-1',
+    userId: 'user-1',
+    familyId: 'family-1',
+    isRevoked: false,
+    userAgent: CHROME_WINDOWS,
+    ipAddress: '10.0.0.1',
+    createdAt: new Date('2026-10-18T10:00:00Z'),
+    sessionStartedAt: new Date('2026-10-10T10:00:00Z'),
+    ...overrides,
+  }
+}
+
+describe('describeUserAgent', () => {
+  it('should recognize common browsers and systems', () => {
+    expect(describeUserAgent(CHROME_WINDOWS)).toBe('Chrome su Windows')
+    expect(describeUserAgent(SAFARI_IPHONE)).toBe('Safari su iOS')
+    expect(describeUserAgent(EDGE_WINDOWS)).toBe('Edge su Windows')
+  })
+
+  it('should fall back for missing or unknown user agents', () => {
+    expect(describeUserAgent(null)).toBe(UNKNOWN_DEVICE)
+    expect(describeUserAgent('curl/8.0')).toBe(UNKNOWN_DEVICE)
+  })
+})
+
+describe('session.service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('listActiveSessions', () => {
+    it('should return one session per family and mark the current one', async () => {
+      mockPrisma.refreshToken.findMany.mockResolvedValue([
+        token({ id: 'a', familyId: 'family-1' }),
+        token({ id: 'b', familyId: 'family-2', userAgent: SAFARI_IPHONE, ipAddress: null }),
+        // Token più vecchio della stessa famiglia (refresh concorrente): ignorato
+        token({ id: 'c', familyId: 'family-1', createdAt: new Date('2026-10-17T10:00:00Z') }),
+      ])
+
+      const result = await listActiveSessions('user-1', 'family-2')
+      const sessions = result.data as ActiveSession[]
+
+      expect(result.success).toBe(true)
+      expect(sessions).toHaveLength(2)
+      expect(sessions[0]).toMatchObject({
+        id: 'family-1',
+        device: 'Chrome su Windows',
+        lastUsedAt: new Date('2026-10-18T10:00:00Z'),
+        createdAt: new Date('2026-10-10T10:00:00Z'),
+        current: false,
+      })
+      expect(sessions[1]).toMatchObject({ id: 'family-2', device: 'Safari su iOS', ipAddress: null, current: true })
+    })
+  })
+
+  describe('revokeSession', () => {
+    it('should refuse to revoke the current session', async () => {
+      const result = await revokeSession('user-1', 'family-1', 'family-1')
+
+      expect(result.success).toBe(false)
+      expect(mockPrisma.refreshToken.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('should revoke only tokens of the user', async () => {
+      mockPrisma.refreshToken.updateMany.mockResolvedValue({ count: 1 })
+
+      const result = await revokeSession('user-1', 'family-2', 'family-1')
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', familyId: 'family-2', isRevoked: false },
+        data: { isRevoked: true, revokedReason: 'USER_REVOKED' },
+      })
+    })
+
+    it('should fail for unknown sessions', async () => {
+      mockPrisma.refreshToken.updateMany.mockResolvedValue({ count: 0 })
+
+      const result = await revokeSession('user-1', 'family-x', 'family-1')
+
+      expect(result.success).toBe(false)
+      expect(result.message).toBe('Sessione non trovata')
+    })
+  })
+
+  describe('revokeOtherSessions', () => {
+    it('should revoke every family except the current one', async () => {
+      mockPrisma.refreshToken.findMany.mockResolvedValue([{ familyId: 'family-2' }, { familyId: 'family-3' }])
+      mockPrisma.refreshToken.updateMany.mockResolvedValue({ count: 2 })
+
+      const result = await revokeOtherSessions('user-1', 'family-1')
+
+      expect(result.data).toEqual({ revoked: 2 })
+      expect(mockPrisma.refreshToken.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ userId: 'user-1', familyId: { not: 'family-1' } }),
+      }))
+      expect(mockPrisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', familyId: { in: ['family-2', 'family-3'] }, isRevoked: false },
+        data: { isRevoked: true, revokedReason: 'USER_REVOKED' },
+      })
+    })
+
+    it('should do nothing when there are no other sessions', async () => {
+      mockPrisma.refreshToken.findMany.mockResolvedValue([])
+
+      const result = await revokeOtherSessions('user-1', 'family-1')
+
+      expect(result.data).toEqual({ revoked: 0 })
+      expect(mockPrisma.refreshToken.updateMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('isNewDevice', () => {
+    it('should flag a user agent never seen for the user', async () => {
+      mockPrisma.refreshToken.findMany.mockResolvedValue([{ userAgent: CHROME_WINDOWS }])
+
+      expect(await isNewDevice('user-1', SAFARI_IPHONE)).toBe(true)
+      expect(await isNewDevice('user-1', CHROME_WINDOWS)).toBe(false)
+    })
+
+    it('should not flag the first tracked login or a missing user agent', async () => {
+      mockPrisma.refreshToken.findMany.mockResolvedValue([])
+
+      expect(await isNewDevice('user-1', CHROME_WINDOWS)).toBe(false)
+      expect(await isNewDevice('user-1', undefined)).toBe(false)
+    })
+  })
+
+  describe('sendSecurityAlert', () => {
+    it('should email the user with the device description', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ email: 'mario@test.it' })
+
+      await sendSecurityAlert('user-1', 'NEW_DEVICE', { userAgent: SAFARI_IPHONE, ipAddress: '10.0.0.9' })
+
+      expect(mockEmailService.sendSecurityAlertEmail).toHaveBeenCalledWith(
+        'mario@test.it',
+        'NEW_DEVICE',
+        'Safari su iOS',
+        '10.0.0.9',
+        expect.any(Date),
+        expect.stringMatching(/\/profile$/)
+      )
+    })
+
+    it('should not throw when sending fails', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ email: 'mario@test.it' })
+      mockEmailService.sendSecurityAlertEmail.mockRejectedValue(new Error('SMTP down'))
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      await expect(sendSecurityAlert('user-1', 'TOKEN_REUSE', {})).resolves.toBeUndefined()
+    })
+  })
+})
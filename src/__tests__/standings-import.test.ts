@@ -0,0 +1,237 @@
+/**
+ * standings-import.test.ts - Unit Tests for standings/results file import
+ *
+ * Tests column mapping suggestions, fuzzy matching of team names to league
+ * members, the validation report, and the import/aggregation service.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as XLSX from 'xlsx'
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mock = {
+    leagueMember: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+    },
+    league: {
+      findUnique: vi.fn(),
+    },
+    standingsImport: {
+      create: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+    },
+  }
+  return { mockPrisma: mock }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+
+vi.mock('../services/admin.service', () => ({ logAction: vi.fn() }))
+
+import { importStandingsFile, getImportedStandings } from '../services/standings-import.service'
+import { buildImportReport, matchTeam, suggestColumnMapping } from '../utils/standings-import'
+
+const candidates = [
+  { memberId: 'm1', teamName: 'Atletico Ma Non Troppo', username: 'mario' },
+  { memberId: 'm2', teamName: 'Real Mandrake', username: 'luigi' },
+  { memberId: 'm3', teamName: 'Dinamo Mosca', username: 'anna' },
+]
+
+function csvBuffer(rows: unknown[][]): Buffer {
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Classifica')
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'csv' }) as Buffer
+}
+
+describe('suggestColumnMapping', () => {
+  it('recognizes common Italian headers', () => {
+    expect(suggestColumnMapping(['Pos.', 'Squadra', 'G', 'Pt.'])).toEqual({ rank: 'Pos.', team: 'Squadra', points: 'Pt.' })
+  })
+})
+
+describe('matchTeam', () => {
+  it('matches exact names, contained names and typos', () => {
+    expect(matchTeam('REAL MANDRAKE', candidates)).toEqual({ memberId: 'm2', confidence: 'EXACT' })
+    expect(matchTeam('Atletico Ma Non Troppo FC', candidates)).toEqual({ memberId: 'm1', confidence: 'HIGH' })
+    expect(matchTeam('Dinamo Moska', candidates)).toEqual({ memberId: 'm3', confidence: 'LOW' })
+  })
+
+  it('returns null when nothing is close enough', () => {
+    expect(matchTeam('Sporting Lisbona', candidates)).toBeNull()
+  })
+})
+
+describe('buildImportReport', () => {
+  const mapping = { team: 'Squadra', points: 'Punti' }
+
+  it('reports invalid, unmatched and duplicate rows and applies manual overrides', () => {
+    const report = buildImportReport([
+      { Squadra: 'Real Mandrake', Punti: '72,5' },
+      { Squadra: 'Sporting Lisbona', Punti: 60 },
+      { Squadra: 'Dinamo Mosca', Punti: 'n.d.' },
+      { Squadra: 'real mandrake', Punti: 70 },
+      { Squadra: 'Atletico', Punti: 55 },
+    ], mapping, 'STANDINGS', candidates, { 'Sporting Lisbona': 'm3' })
+
+    expect(report.rows.map(r => [r.memberId, r.points, r.confidence])).toEqual([
+      ['m2', 72.5, 'EXACT'],
+      ['m3', 60, 'MANUAL'],
+      ['m1', 55, 'HIGH'],
+    ])
+    expect(report.errors).toEqual([
+      'Riga 4: punti non validi per Dinamo Mosca',
+      'Riga 5: real mandrake compare più volte',
+    ])
+    expect(report.missingMembers).toEqual([])
+  })
+})
+
+describe('standings import service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.leagueMember.findFirst.mockResolvedValue({ id: 'admin-member' })
+    mockPrisma.leagueMember.findMany.mockResolvedValue(
+      candidates.map(c => ({ id: c.memberId, teamName: c.teamName, user: { username: c.username } }))
+    )
+    mockPrisma.standingsImport.create.mockResolvedValue({ id: 'import-1' })
+    mockPrisma.league.findUnique.mockResolvedValue({ currentSeason: 3 })
+    mockPrisma.standingsImport.findFirst.mockResolvedValue(null)
+    mockPrisma.standingsImport.findMany.mockResolvedValue([])
+  })
+
+  it('imports results rows below a title line with the suggested mapping', async () => {
+    const file = csvBuffer([
+      ['Risultati Lega Amici'],
+      ['Giornata', 'Squadra', 'Punteggio'],
+      ['1', 'Real Mandrake', 74],
+      ['1', 'Dinamo Mosca', 68.5],
+      ['', 'Atletico Ma Non Troppo', 70],
+    ])
+
+    const result = await importStandingsFile('league-1', 'user-1', file, { kind: 'RESULTS', fileName: 'risultati.csv' })
+
+    expect(result.success).toBe(true)
+    expect(result.data).toMatchObject({ rowsImported: 2, totalProcessed: 3, errors: ['Riga 5: giornata mancante per Atletico Ma Non Troppo'] })
+    expect(mockPrisma.standingsImport.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        kind: 'RESULTS',
+        season: 3,
+        columnMapping: { team: 'Squadra', points: 'Punteggio', round: 'Giornata' },
+        entries: { create: [
+          { memberId: 'm2', sourceTeam: 'Real Mandrake', round: '1', points: 74, rank: null },
+          { memberId: 'm3', sourceTeam: 'Dinamo Mosca', round: '1', points: 68.5, rank: null },
+        ] },
+      }) as unknown,
+    })
+  })
+
+  it('rejects files without the required columns', async () => {
+    const file = csvBuffer([['Nome', 'Totale'], ['Real Mandrake', 70]])
+
+    const result = await importStandingsFile('league-1', 'user-1', file, { kind: 'STANDINGS', fileName: 'classifica.csv' })
+
+    expect(result).toEqual({ success: false, message: 'Colonne non mappate: Squadra' })
+    expect(mockPrisma.standingsImport.create).not.toHaveBeenCalled()
+  })
+
+  it('rejects non-admin users', async () => {
+    mockPrisma.leagueMember.findFirst.mockResolvedValue(null)
+
+    const result = await importStandingsFile('league-1', 'user-2', csvBuffer([['Squadra', 'Punti']]), { kind: 'STANDINGS', fileName: 'x.csv' })
+
+    expect(result).toEqual({ success: false, message: 'Non autorizzato' })
+  })
+
+  it('requires confirmation of fuzzy team matches before importing', async () => {
+    const file = csvBuffer([['Squadra', 'Punti'], ['Real Mandrake', 70], ['Dinamo Moska', 65]])
+
+    const result = await importStandingsFile('league-1', 'user-1', file, { kind: 'STANDINGS', fileName: 'classifica.csv' })
+
+    expect(result).toMatchObject({ success: false, message: 'Conferma gli abbinamenti da verificare: Dinamo Moska' })
+    expect(mockPrisma.standingsImport.create).not.toHaveBeenCalled()
+
+    const confirmed = await importStandingsFile('league-1', 'user-1', file, {
+      kind: 'STANDINGS',
+      fileName: 'classifica.csv',
+      overrides: { 'Dinamo Moska': 'm3' },
+    })
+
+    expect(confirmed.success).toBe(true)
+  })
+
+  it('rejects seasons after the current league season', async () => {
+    const file = csvBuffer([['Squadra', 'Punti'], ['Real Mandrake', 70]])
+
+    const result = await importStandingsFile('league-1', 'user-1', file, { kind: 'STANDINGS', season: 4, fileName: 'x.csv' })
+
+    expect(result).toEqual({ success: false, message: 'Stagione non valida: la stagione corrente è la 3' })
+  })
+
+  it('sums the results imports of the season, later files replacing the same round', async () => {
+    const member = (teamName: string) => ({ teamName, status: 'ACTIVE', user: { username: teamName } })
+    mockPrisma.standingsImport.findMany.mockResolvedValue([
+      {
+        id: 'import-1',
+        kind: 'RESULTS',
+        season: 3,
+        fileName: 'giornata-1.csv',
+        createdAt: new Date('2026-10-11'),
+        entries: [
+          { memberId: 'm1', round: '1', points: 60, rank: null, member: member('Alfa') },
+          { memberId: 'm2', round: '1', points: 74, rank: null, member: member('Beta') },
+        ],
+      },
+      {
+        id: 'import-2',
+        kind: 'RESULTS',
+        season: 3,
+        fileName: 'giornate-1-2.csv',
+        createdAt: new Date('2026-10-18'),
+        entries: [
+          { memberId: 'm1', round: '1', points: 70, rank: null, member: member('Alfa') },
+          { memberId: 'm1', round: '2', points: 72, rank: null, member: member('Alfa') },
+          { memberId: 'm2', round: '2', points: 60, rank: null, member: member('Beta') },
+        ],
+      },
+    ])
+
+    const standings = await getImportedStandings('league-1')
+
+    expect(mockPrisma.standingsImport.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { leagueId: 'league-1', season: 3, kind: 'STANDINGS' },
+    }))
+    expect(mockPrisma.standingsImport.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { leagueId: 'league-1', season: 3, kind: 'RESULTS' },
+    }))
+    expect(standings).toMatchObject({ importId: 'import-2', kind: 'RESULTS', season: 3 })
+    expect(standings?.entries.map(e => [e.memberId, e.points, e.rank, e.roundsPlayed])).toEqual([
+      ['m1', 142, 1, 2],
+      ['m2', 134, 2, 2],
+    ])
+  })
+
+  it('prefers the latest standings import of the requested season', async () => {
+    const member = (teamName: string) => ({ teamName, status: 'ACTIVE', user: { username: teamName } })
+    mockPrisma.standingsImport.findFirst.mockResolvedValue({
+      id: 'import-3',
+      kind: 'STANDINGS',
+      season: 2,
+      fileName: 'classifica.csv',
+      createdAt: new Date('2026-05-30'),
+      entries: [
+        { memberId: 'm1', round: null, points: 80, rank: 2, member: member('Alfa') },
+        { memberId: 'm2', round: null, points: 82, rank: 1, member: member('Beta') },
+      ],
+    })
+
+    const standings = await getImportedStandings('league-1', 2)
+
+    expect(mockPrisma.league.findUnique).not.toHaveBeenCalled()
+    expect(mockPrisma.standingsImport.findMany).not.toHaveBeenCalled()
+    expect(standings?.entries.map(e => [e.memberId, e.rank])).toEqual([['m2', 1], ['m1', 2]])
+  })
+})
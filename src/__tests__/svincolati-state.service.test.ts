@@ -0,0 +1,133 @@
+/**
+ * svincolati-state.service.test.ts - Unit Tests for normalized svincolati state
+ *
+ * Tests for the turn state mapper and per-row writers.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { SvincolatiTurnOrder } from '@prisma/client'
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    svincolatiTurnOrder: {
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: mockPrisma,
+}))
+
+import {
+  toSvincolatiTurnState,
+  loadSvincolatiTurnState,
+  saveSvincolatiTurnOrder,
+  setSvincolatiMemberPassed,
+  setSvincolatiMembersFinished,
+  acknowledgeSvincolatiMember,
+  resetSvincolatiAcknowledgements,
+} from '../services/svincolati-state.service'
+
+const SESSION_ID = 'session-1'
+
+function makeTurn(overrides: Partial<SvincolatiTurnOrder> = {}): SvincolatiTurnOrder {
+  return {
+    id: `t-${overrides.memberId ?? 'member-1'}`,
+    sessionId: SESSION_ID,
+    memberId: 'member-1',
+    orderIndex: null,
+    hasPassed: false,
+    hasFinished: false,
+    isReady: false,
+    readyAt: null,
+    acknowledgedAt: null,
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+describe('toSvincolatiTurnState', () => {
+  it('builds the same arrays previously stored as JSON', () => {
+    const state = toSvincolatiTurnState([
+      makeTurn({ memberId: 'm-3', orderIndex: 2, hasFinished: true }),
+      makeTurn({ memberId: 'm-1', orderIndex: 0, isReady: true }),
+      makeTurn({ memberId: 'm-2', orderIndex: 1, hasPassed: true, acknowledgedAt: new Date() }),
+      makeTurn({ memberId: 'admin', orderIndex: null, isReady: true }),
+    ])
+
+    expect(state).toEqual({
+      turnOrder: ['m-1', 'm-2', 'm-3'],
+      readyMembers: ['m-1', 'admin'],
+      passedMembers: ['m-2'],
+      finishedMembers: ['m-3'],
+      acknowledgedMembers: ['m-2'],
+    })
+  })
+
+  it('returns empty arrays when the session has no rows', async () => {
+    mockPrisma.svincolatiTurnOrder.findMany.mockResolvedValueOnce([])
+
+    const state = await loadSvincolatiTurnState(SESSION_ID)
+
+    expect(state.turnOrder).toEqual([])
+    expect(mockPrisma.svincolatiTurnOrder.findMany).toHaveBeenCalledWith({ where: { sessionId: SESSION_ID } })
+  })
+})
+
+describe('svincolati-state writers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('saveSvincolatiTurnOrder resets turn flags but keeps finished members', async () => {
+    await saveSvincolatiTurnOrder(SESSION_ID, ['m-2', 'm-1'])
+
+    expect(mockPrisma.svincolatiTurnOrder.updateMany).toHaveBeenCalledWith({
+      where: { sessionId: SESSION_ID },
+      data: { orderIndex: null, isReady: false, readyAt: null, hasPassed: false },
+    })
+    expect(mockPrisma.svincolatiTurnOrder.upsert).toHaveBeenCalledWith({
+      where: { sessionId_memberId: { sessionId: SESSION_ID, memberId: 'm-2' } },
+      create: { sessionId: SESSION_ID, memberId: 'm-2', orderIndex: 0 },
+      update: { orderIndex: 0 },
+    })
+  })
+
+  it('setSvincolatiMemberPassed writes only the member row', async () => {
+    await setSvincolatiMemberPassed(SESSION_ID, 'm-1', true)
+
+    expect(mockPrisma.svincolatiTurnOrder.upsert).toHaveBeenCalledTimes(1)
+    expect(mockPrisma.svincolatiTurnOrder.upsert).toHaveBeenCalledWith({
+      where: { sessionId_memberId: { sessionId: SESSION_ID, memberId: 'm-1' } },
+      create: { sessionId: SESSION_ID, memberId: 'm-1', hasPassed: true },
+      update: { hasPassed: true },
+    })
+  })
+
+  it('setSvincolatiMembersFinished writes one row per member', async () => {
+    await setSvincolatiMembersFinished(SESSION_ID, ['m-1', 'm-2'], false)
+
+    expect(mockPrisma.svincolatiTurnOrder.upsert).toHaveBeenCalledTimes(2)
+    expect(mockPrisma.svincolatiTurnOrder.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ update: { hasFinished: false } })
+    )
+  })
+
+  it('acknowledgeSvincolatiMember and reset manage acknowledgments on the rows', async () => {
+    await acknowledgeSvincolatiMember(SESSION_ID, 'm-1')
+    await resetSvincolatiAcknowledgements(SESSION_ID)
+
+    expect(mockPrisma.svincolatiTurnOrder.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ update: { acknowledgedAt: expect.any(Date) } })
+    )
+    expect(mockPrisma.svincolatiTurnOrder.updateMany).toHaveBeenCalledWith({
+      where: { sessionId: SESSION_ID },
+      data: { acknowledgedAt: null },
+    })
+  })
+})
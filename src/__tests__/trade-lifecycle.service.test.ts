@@ -0,0 +1,262 @@
+/**
+ * trade-lifecycle.service.test.ts - Unit Tests for the trade offer sweeper
+ *
+ * Tests expiry, phase-end cancellation and player-moved invalidation of
+ * pending trade offers and multi-party proposals, and the TRADE_INVALIDATED
+ * events they publish.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    tradeOffer: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    multiPartyTrade: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    playerRoster: {
+      findMany: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+
+vi.mock('../services/domain-events.service', () => ({
+  publishDomainEvent: vi.fn().mockResolvedValue(undefined),
+}))
+
+import { sweepTradeOffers } from '../services/trade-lifecycle.service'
+import { publishDomainEvent } from '../services/domain-events.service'
+import { DomainEventTypes } from '../shared/infrastructure/events'
+
+const NOW = new Date('2026-10-18T12:00:00Z')
+
+function makeOffer(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'trade-1',
+    senderId: 'user-1',
+    receiverId: 'user-2',
+    offeredPlayers: ['roster-1'],
+    requestedPlayers: ['roster-2'],
+    expiresAt: new Date('2026-10-19T12:00:00Z'),
+    marketSession: { leagueId: 'league-1', status: 'ACTIVE', currentPhase: 'OFFERTE_PRE_RINNOVO' },
+    ...overrides,
+  }
+}
+
+function makeMultiParty(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'multi-1',
+    expiresAt: new Date('2026-10-19T12:00:00Z'),
+    transfers: [
+      { fromMemberId: 'member-1', rosterId: 'roster-1' },
+      { fromMemberId: 'member-2', rosterId: 'roster-2' },
+      { fromMemberId: 'member-3', rosterId: null },
+    ],
+    participants: [
+      { member: { userId: 'user-1' } },
+      { member: { userId: 'user-2' } },
+      { member: { userId: 'user-3' } },
+    ],
+    marketSession: { leagueId: 'league-1', status: 'ACTIVE', currentPhase: 'OFFERTE_PRE_RINNOVO' },
+    ...overrides,
+  }
+}
+
+const VALID_ROSTERS = [
+  { id: 'roster-1', status: 'ACTIVE', leagueMemberId: 'member-1', leagueMember: { userId: 'user-1' } },
+  { id: 'roster-2', status: 'ACTIVE', leagueMemberId: 'member-2', leagueMember: { userId: 'user-2' } },
+]
+
+describe('sweepTradeOffers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.tradeOffer.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.multiPartyTrade.findMany.mockResolvedValue([])
+    mockPrisma.multiPartyTrade.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.playerRoster.findMany.mockResolvedValue(VALID_ROSTERS)
+  })
+
+  it('leaves valid pending offers untouched', async () => {
+    mockPrisma.tradeOffer.findMany.mockResolvedValue([makeOffer()])
+
+    const result = await sweepTradeOffers(NOW)
+
+    expect(result.data).toEqual({ expired: 0, cancelled: 0, invalidated: 0 })
+    expect(mockPrisma.tradeOffer.updateMany).not.toHaveBeenCalled()
+    expect(publishDomainEvent).not.toHaveBeenCalled()
+  })
+
+  it('expires offers past expiresAt and notifies both parties', async () => {
+    mockPrisma.tradeOffer.findMany.mockResolvedValue([
+      makeOffer({ expiresAt: new Date('2026-10-18T11:00:00Z') }),
+    ])
+
+    const result = await sweepTradeOffers(NOW)
+
+    expect(result.data).toEqual({ expired: 1, cancelled: 0, invalidated: 0 })
+    expect(mockPrisma.tradeOffer.updateMany).toHaveBeenCalledWith({
+      where: { id: 'trade-1', status: 'PENDING' },
+      data: { status: 'EXPIRED', respondedAt: NOW },
+    })
+    expect(publishDomainEvent).toHaveBeenCalledWith(DomainEventTypes.TRADE_INVALIDATED, {
+      leagueId: 'league-1',
+      tradeIds: ['trade-1'],
+      affectedUserIds: ['user-1', 'user-2'],
+      reason: 'EXPIRED',
+    })
+  })
+
+  it('cancels offers of sessions that left the trade phase', async () => {
+    mockPrisma.tradeOffer.findMany.mockResolvedValue([
+      makeOffer({ id: 'trade-1', marketSession: { leagueId: 'league-1', status: 'ACTIVE', currentPhase: 'CONTRATTI' } }),
+      makeOffer({ id: 'trade-2', marketSession: { leagueId: 'league-1', status: 'COMPLETED', currentPhase: 'OFFERTE_POST_ASTA_SVINCOLATI' } }),
+    ])
+
+    const result = await sweepTradeOffers(NOW)
+
+    expect(result.data).toEqual({ expired: 0, cancelled: 2, invalidated: 0 })
+    expect(mockPrisma.tradeOffer.updateMany).toHaveBeenCalledWith({
+      where: { id: 'trade-2', status: 'PENDING' },
+      data: { status: 'CANCELLED', respondedAt: NOW },
+    })
+    expect(publishDomainEvent).toHaveBeenCalledWith(
+      DomainEventTypes.TRADE_INVALIDATED,
+      expect.objectContaining({ reason: 'PHASE_ENDED', tradeIds: ['trade-1', 'trade-2'] })
+    )
+  })
+
+  it('invalidates offers whose players changed owner or were released', async () => {
+    mockPrisma.tradeOffer.findMany.mockResolvedValue([
+      makeOffer({ id: 'trade-1', offeredPlayers: ['roster-3'] }),
+      makeOffer({ id: 'trade-2', requestedPlayers: ['roster-4'] }),
+      makeOffer({ id: 'trade-3' }),
+    ])
+    mockPrisma.playerRoster.findMany.mockResolvedValue([
+      ...VALID_ROSTERS,
+      { id: 'roster-3', status: 'ACTIVE', leagueMemberId: 'member-9', leagueMember: { userId: 'user-9' } },
+      { id: 'roster-4', status: 'RELEASED', leagueMemberId: 'member-2', leagueMember: { userId: 'user-2' } },
+    ])
+
+    const result = await sweepTradeOffers(NOW)
+
+    expect(result.data).toEqual({ expired: 0, cancelled: 0, invalidated: 2 })
+    expect(mockPrisma.tradeOffer.updateMany).toHaveBeenCalledTimes(2)
+    expect(mockPrisma.tradeOffer.updateMany).toHaveBeenCalledWith({
+      where: { id: 'trade-1', status: 'PENDING' },
+      data: { status: 'INVALIDATED', respondedAt: NOW },
+    })
+  })
+
+  it('does not notify offers accepted or rejected while sweeping', async () => {
+    mockPrisma.tradeOffer.findMany.mockResolvedValue([
+      makeOffer({ id: 'trade-1', expiresAt: new Date('2026-10-18T11:00:00Z') }),
+      makeOffer({ id: 'trade-2', expiresAt: new Date('2026-10-18T11:00:00Z') }),
+    ])
+    // trade-1 accettata tra la lettura e l'aggiornamento
+    mockPrisma.tradeOffer.updateMany
+      .mockResolvedValueOnce({ count: 0 })
+      .mockResolvedValueOnce({ count: 1 })
+
+    const result = await sweepTradeOffers(NOW)
+
+    expect(result.data).toEqual({ expired: 1, cancelled: 0, invalidated: 0 })
+    expect(publishDomainEvent).toHaveBeenCalledWith(
+      DomainEventTypes.TRADE_INVALIDATED,
+      expect.objectContaining({ tradeIds: ['trade-2'] })
+    )
+  })
+
+  it('publishes one event per league', async () => {
+    mockPrisma.tradeOffer.findMany.mockResolvedValue([
+      makeOffer({ id: 'trade-1', expiresAt: new Date('2026-10-18T11:00:00Z') }),
+      makeOffer({
+        id: 'trade-2',
+        senderId: 'user-5',
+        receiverId: 'user-6',
+        expiresAt: new Date('2026-10-18T11:00:00Z'),
+        marketSession: { leagueId: 'league-2', status: 'ACTIVE', currentPhase: 'OFFERTE_PRE_RINNOVO' },
+      }),
+    ])
+
+    await sweepTradeOffers(NOW)
+
+    expect(publishDomainEvent).toHaveBeenCalledTimes(2)
+    expect(publishDomainEvent).toHaveBeenCalledWith(
+      DomainEventTypes.TRADE_INVALIDATED,
+      expect.objectContaining({ leagueId: 'league-2', affectedUserIds: ['user-5', 'user-6'] })
+    )
+  })
+
+  describe('multi-party proposals', () => {
+    it('leaves valid proposals untouched', async () => {
+      mockPrisma.tradeOffer.findMany.mockResolvedValue([])
+      mockPrisma.multiPartyTrade.findMany.mockResolvedValue([makeMultiParty()])
+
+      const result = await sweepTradeOffers(NOW)
+
+      expect(result.data).toEqual({ expired: 0, cancelled: 0, invalidated: 0 })
+      expect(mockPrisma.multiPartyTrade.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('expires proposals and notifies every participant', async () => {
+      mockPrisma.tradeOffer.findMany.mockResolvedValue([])
+      mockPrisma.multiPartyTrade.findMany.mockResolvedValue([
+        makeMultiParty({ expiresAt: new Date('2026-10-18T11:00:00Z') }),
+      ])
+
+      const result = await sweepTradeOffers(NOW)
+
+      expect(result.data).toEqual({ expired: 1, cancelled: 0, invalidated: 0 })
+      expect(mockPrisma.multiPartyTrade.updateMany).toHaveBeenCalledWith({
+        where: { id: 'multi-1', status: 'PENDING' },
+        data: { status: 'EXPIRED', respondedAt: NOW },
+      })
+      expect(publishDomainEvent).toHaveBeenCalledWith(DomainEventTypes.TRADE_INVALIDATED, {
+        leagueId: 'league-1',
+        tradeIds: ['multi-1'],
+        affectedUserIds: ['user-1', 'user-2', 'user-3'],
+        reason: 'EXPIRED',
+      })
+    })
+
+    it('cancels proposals when the session leaves the trade phase', async () => {
+      mockPrisma.tradeOffer.findMany.mockResolvedValue([])
+      mockPrisma.multiPartyTrade.findMany.mockResolvedValue([
+        makeMultiParty({ marketSession: { leagueId: 'league-1', status: 'ACTIVE', currentPhase: 'ASTA_LIBERA' } }),
+      ])
+
+      const result = await sweepTradeOffers(NOW)
+
+      expect(result.data).toEqual({ expired: 0, cancelled: 1, invalidated: 0 })
+      expect(mockPrisma.multiPartyTrade.updateMany).toHaveBeenCalledWith({
+        where: { id: 'multi-1', status: 'PENDING' },
+        data: { status: 'CANCELLED', respondedAt: NOW },
+      })
+    })
+
+    it('invalidates proposals whose players left the giving member', async () => {
+      mockPrisma.tradeOffer.findMany.mockResolvedValue([])
+      mockPrisma.multiPartyTrade.findMany.mockResolvedValue([makeMultiParty()])
+      mockPrisma.playerRoster.findMany.mockResolvedValue([
+        VALID_ROSTERS[0],
+        { id: 'roster-2', status: 'ACTIVE', leagueMemberId: 'member-9', leagueMember: { userId: 'user-9' } },
+      ])
+
+      const result = await sweepTradeOffers(NOW)
+
+      expect(result.data).toEqual({ expired: 0, cancelled: 0, invalidated: 1 })
+      expect(publishDomainEvent).toHaveBeenCalledWith(
+        DomainEventTypes.TRADE_INVALIDATED,
+        expect.objectContaining({ tradeIds: ['multi-1'], reason: 'PLAYER_MOVED' })
+      )
+    })
+  })
+})
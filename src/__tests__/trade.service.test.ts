@@ -2,7 +2,8 @@
  * trade.service.test.ts - Unit Tests for Trade Service
  *
  * Tests for trade offer creation, acceptance, rejection, cancellation,
- * retrieval, counter offers, trade history, and stale offer invalidation.
+ * retrieval, counter offers, trade history, stale offer invalidation,
+ * contract terms and deferred budget settlement.
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest'
@@ -24,12 +25,20 @@ const { mockPrisma, MockPrismaClient } = vi.hoisted(() => {
       update: vi.fn(),
       updateMany: vi.fn(),
     },
+    multiPartyTrade: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
     playerRoster: {
       findMany: vi.fn(),
       findUnique: vi.fn(),
       update: vi.fn(),
     },
     playerContract: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
       updateMany: vi.fn(),
     },
     marketSession: {
@@ -42,6 +51,9 @@ const { mockPrisma, MockPrismaClient } = vi.hoisted(() => {
     movement: {
       create: vi.fn(),
     },
+    playerMovement: {
+      create: vi.fn(),
+    },
     $transaction: vi.fn((cb: unknown) => (cb as (tx: typeof mock) => unknown)(mock)),
   }
 
@@ -80,6 +92,15 @@ vi.mock('../services/movement.service', () => ({
   recordMovement: vi.fn().mockResolvedValue('movement-id'),
 }))
 
+vi.mock('../services/compensation.service', () => ({
+  captureState: vi.fn(() => Promise.resolve({ roster: {}, contract: {}, budgets: {} })),
+  recordCompensation: vi.fn(() => Promise.resolve({ id: 'compensation-1' })),
+}))
+
+vi.mock('../services/admin.service', () => ({
+  logAction: vi.fn(),
+}))
+
 vi.mock('../services/notification.service', () => ({
   notifyTradeOffer: vi.fn().mockResolvedValue(undefined),
   notifyTradeInvalidated: vi.fn().mockResolvedValue(undefined),
@@ -95,6 +116,8 @@ import * as tradeService from '../services/trade.service'
 import { notifyTradeOffer, notifyTradeInvalidated } from '../services/notification.service'
 import { triggerTradeOfferReceived, triggerTradeUpdated } from '../services/pusher.service'
 import { recordMovement } from '../services/movement.service'
+import { logAction } from '../services/admin.service'
+import { recordCompensation } from '../services/compensation.service'
 
 // Cast mocked imports for re-setup in beforeEach
 const mockNotifyTradeOffer = vi.mocked(notifyTradeOffer)
@@ -137,6 +160,8 @@ function makeTrade(overrides = {}) {
     involvedPlayers: ['roster-a', 'roster-b'],
     offeredBudget: 0,
     requestedBudget: 0,
+    deferredOfferedBudget: 0,
+    deferredRequestedBudget: 0,
     message: null,
     status: 'PENDING',
     createdAt: new Date(),
@@ -160,6 +185,7 @@ describe('Trade Service', () => {
     )
     // Restore fire-and-forget service mocks (must return Promises for .catch())
     mockNotifyTradeOffer.mockResolvedValue(undefined)
+    mockPrisma.multiPartyTrade.findMany.mockResolvedValue([])
     mockNotifyTradeInvalidated.mockResolvedValue(undefined)
     mockTriggerTradeOfferReceived.mockResolvedValue(true)
     mockTriggerTradeUpdated.mockResolvedValue(true)
@@ -350,6 +376,9 @@ describe('Trade Service', () => {
       expect(result.success).toBe(true)
       expect(result.message).toBe('Offerta inviata')
       expect(result.data).toBeDefined()
+      // Side effects run through the TRADE_OFFERED subscribers
+      expect(mockTriggerTradeOfferReceived).toHaveBeenCalledWith('league-1', expect.objectContaining({ receiverUserId: 'user-receiver' }))
+      expect(mockNotifyTradeOffer).toHaveBeenCalledWith('user-receiver', expect.any(String), 'Test League')
     })
 
     it('should include warnings when players are in other pending offers', async () => {
@@ -380,6 +409,75 @@ describe('Trade Service', () => {
       expect(result.warnings).toBeDefined()
       expect(result.warnings![0]).toContain('offerta/e in corso')
     })
+
+    it('should store deferred budgets and contract terms', async () => {
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(makeMember())
+      mockPrisma.leagueMember.findUnique.mockResolvedValue({
+        id: 'member-receiver', leagueId: 'league-1', status: 'ACTIVE', userId: 'user-receiver', user: {},
+      })
+      mockPrisma.marketSession.findFirst.mockResolvedValue(makeActiveSession())
+      mockPrisma.playerRoster.findMany
+        .mockResolvedValueOnce([{ id: 'roster-b' }])   // requested validation
+        .mockResolvedValueOnce([{ id: 'roster-b', player: { name: 'Leao' }, contract: { salary: 10, duration: 2 } }])
+      mockPrisma.league.findUnique.mockResolvedValue({ name: 'Test League', contractRuleset: null })
+      mockPrisma.tradeOffer.findFirst.mockResolvedValue(null)
+      mockPrisma.tradeOffer.findMany.mockResolvedValue([])
+      mockPrisma.tradeOffer.create.mockResolvedValue(makeTrade())
+
+      const result = await tradeService.createTradeOffer(
+        'league-1', 'user-sender', 'member-receiver',
+        [], ['roster-b'], 20, 0, undefined, 24,
+        { deferredOfferedBudget: 10, contractTerms: [{ rosterId: 'roster-b', salary: 12, duration: 3 }] }
+      )
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.tradeOffer.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          deferredOfferedBudget: 10,
+          deferredRequestedBudget: 0,
+          contractTerms: [{ rosterId: 'roster-b', salary: 12, duration: 3 }],
+        }),
+      }))
+    })
+
+    it('should reject contract terms on players outside the trade', async () => {
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(makeMember())
+      mockPrisma.leagueMember.findUnique.mockResolvedValue({
+        id: 'member-receiver', leagueId: 'league-1', status: 'ACTIVE', userId: 'user-receiver', user: {},
+      })
+      mockPrisma.marketSession.findFirst.mockResolvedValue(makeActiveSession())
+
+      const result = await tradeService.createTradeOffer(
+        'league-1', 'user-sender', 'member-receiver',
+        [], [], 5, 0, undefined, 24,
+        { contractTerms: [{ rosterId: 'roster-x', salary: 12, duration: 3 }] }
+      )
+
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('solo giocatori inclusi nello scambio')
+      expect(mockPrisma.tradeOffer.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject contract terms that lower the salary', async () => {
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(makeMember())
+      mockPrisma.leagueMember.findUnique.mockResolvedValue({
+        id: 'member-receiver', leagueId: 'league-1', status: 'ACTIVE', userId: 'user-receiver', user: {},
+      })
+      mockPrisma.marketSession.findFirst.mockResolvedValue(makeActiveSession())
+      mockPrisma.playerRoster.findMany
+        .mockResolvedValueOnce([{ id: 'roster-b' }])
+        .mockResolvedValueOnce([{ id: 'roster-b', player: { name: 'Leao' }, contract: { salary: 10, duration: 2 } }])
+      mockPrisma.league.findUnique.mockResolvedValue({ contractRuleset: null })
+
+      const result = await tradeService.createTradeOffer(
+        'league-1', 'user-sender', 'member-receiver',
+        [], ['roster-b'], 0, 0, undefined, 24,
+        { contractTerms: [{ rosterId: 'roster-b', salary: 8, duration: 2 }] }
+      )
+
+      expect(result.success).toBe(false)
+      expect(result.message).toBe('Leao: Ingaggio non può diminuire: 8 < 10')
+    })
   })
 
   // ==================== getReceivedOffers ====================
@@ -599,6 +697,11 @@ describe('Trade Service', () => {
           player: { id: 'p1', name: 'Leao', team: 'Milan', position: 'A' },
           contract: { id: 'c1', salary: 10, duration: 2, initialSalary: 8, rescissionClause: 20 },
         }])
+      // Contracts before the trade
+      mockPrisma.playerContract.findMany.mockResolvedValue([
+        { id: 'c1', rosterId: 'roster-a', salary: 10, duration: 2, rescissionClause: 20 },
+        { id: 'c2', rosterId: 'roster-b', salary: 15, duration: 3, rescissionClause: 30 },
+      ])
       // Transaction mocks (tx delegates to the same mock)
       mockPrisma.playerRoster.update.mockResolvedValue({})
       mockPrisma.playerContract.updateMany.mockResolvedValue({})
@@ -613,6 +716,108 @@ describe('Trade Service', () => {
       expect(result.success).toBe(true)
       expect(result.message).toBe('Scambio completato!')
       expect(result.data).toBeDefined()
+      // Movements recorded by the TRADE_ACCEPTED subscribers
+      expect(mockRecordMovement).toHaveBeenCalledTimes(2)
+      expect(mockRecordMovement).toHaveBeenCalledWith(expect.objectContaining({
+        playerId: 'p1', movementType: 'TRADE', fromMemberId: 'member-sender', toMemberId: 'member-receiver', tradeId: 'trade-1',
+      }))
+      expect(mockTriggerTradeUpdated).toHaveBeenCalledWith('league-1', expect.objectContaining({ newStatus: 'ACCEPTED' }))
+    })
+
+    it('should invalidate pending multi-party proposals sharing the traded players', async () => {
+      mockPrisma.tradeOffer.findUnique.mockResolvedValue(makeTrade({ offeredPlayers: ['roster-a'], requestedPlayers: [] }))
+      mockPrisma.marketSession.findFirst.mockResolvedValue(makeActiveSession())
+      mockPrisma.leagueMember.findFirst
+        .mockResolvedValueOnce(makeMember({ id: 'member-sender', userId: 'user-sender' }))
+        .mockResolvedValueOnce(makeMember({ id: 'member-receiver', userId: 'user-receiver' }))
+      mockPrisma.playerRoster.findMany
+        .mockResolvedValueOnce([{ id: 'roster-a' }])   // offered validation
+        .mockResolvedValue([])
+      mockPrisma.playerContract.findMany.mockResolvedValue([])
+      mockPrisma.tradeOffer.findMany.mockResolvedValue([])
+      mockPrisma.multiPartyTrade.findMany.mockResolvedValue([
+        { id: 'mp-1', involvedPlayers: ['roster-a', 'roster-x'], participants: [{ member: { userId: 'user-sender' } }, { member: { userId: 'user-third' } }] },
+        { id: 'mp-2', involvedPlayers: ['roster-y'], participants: [{ member: { userId: 'user-fourth' } }] },
+      ])
+
+      const result = await tradeService.acceptTrade('trade-1', 'user-receiver')
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.multiPartyTrade.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['mp-1'] }, status: 'PENDING' },
+        data: { status: 'INVALIDATED', respondedAt: expect.any(Date) },
+      })
+      expect(mockTriggerTradeUpdated).toHaveBeenCalledWith('league-1', expect.objectContaining({ tradeId: 'mp-1', newStatus: 'INVALIDATED' }))
+      expect(mockNotifyTradeInvalidated).toHaveBeenCalledTimes(1)
+      expect(mockNotifyTradeInvalidated).toHaveBeenCalledWith('user-third', expect.any(String), 'PLAYER_TRADED')
+    })
+
+    it('should apply contract terms for the new owner and record old/new contract in movements', async () => {
+      const trade = makeTrade({
+        offeredPlayers: ['roster-a'],
+        requestedPlayers: [],
+        contractTerms: [{ rosterId: 'roster-a', salary: 12, duration: 3 }],
+      })
+      mockPrisma.tradeOffer.findUnique.mockResolvedValue(trade)
+      mockPrisma.marketSession.findFirst.mockResolvedValue(makeActiveSession())
+      mockPrisma.leagueMember.findFirst
+        .mockResolvedValueOnce(makeMember({ id: 'member-sender', userId: 'user-sender' }))
+        .mockResolvedValueOnce(makeMember({ id: 'member-receiver', userId: 'user-receiver' }))
+      mockPrisma.league.findUnique.mockResolvedValue({ contractRuleset: null })
+      mockPrisma.playerRoster.findMany
+        .mockResolvedValueOnce([{ id: 'roster-a' }])   // offered validation
+        .mockResolvedValueOnce([{                      // contract terms validation
+          id: 'roster-a', player: { name: 'Leao' }, contract: { salary: 10, duration: 2 },
+        }])
+        .mockResolvedValueOnce([{ id: 'roster-a', playerId: 'p1', contract: { salary: 12, duration: 3, rescissionClause: 36 } }]) // offeredRosters for movements
+        .mockResolvedValueOnce([])                     // requestedRosters for movements
+        .mockResolvedValueOnce([])                     // receivedPlayers for modification
+      mockPrisma.playerContract.findMany.mockResolvedValue([
+        { id: 'c1', rosterId: 'roster-a', salary: 10, duration: 2, rescissionClause: 20 },
+      ])
+      // Contract loaded by modifyContractPostAcquisition inside the transaction (already transferred)
+      mockPrisma.playerContract.findUnique.mockResolvedValue({
+        id: 'c1', salary: 10, duration: 2, rescissionClause: 20, renewalHistory: [],
+        roster: {
+          player: { name: 'Leao' },
+          leagueMember: { user: { id: 'user-receiver', username: 'receiverUser' }, league: { contractRuleset: null } },
+        },
+      })
+      mockPrisma.playerContract.update.mockResolvedValue({ id: 'c1', salary: 12, duration: 3, roster: { player: { name: 'Leao' } } })
+      mockPrisma.tradeOffer.findMany.mockResolvedValue([])
+
+      const result = await tradeService.acceptTrade('trade-1', 'user-receiver')
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.playerContract.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'c1' },
+        data: expect.objectContaining({ salary: 12, duration: 3 }),
+      }))
+      expect(mockRecordMovement).toHaveBeenCalledWith(expect.objectContaining({
+        playerId: 'p1', oldSalary: 10, oldDuration: 2, newSalary: 12, newDuration: 3,
+      }))
+    })
+
+    it('should not accept when contract terms no longer apply', async () => {
+      mockPrisma.tradeOffer.findUnique.mockResolvedValue(makeTrade({
+        offeredPlayers: ['roster-a'],
+        requestedPlayers: [],
+        contractTerms: [{ rosterId: 'roster-a', salary: 12, duration: 3 }],
+      }))
+      mockPrisma.marketSession.findFirst.mockResolvedValue(makeActiveSession())
+      mockPrisma.leagueMember.findFirst
+        .mockResolvedValueOnce(makeMember({ id: 'member-sender', userId: 'user-sender' }))
+        .mockResolvedValueOnce(makeMember({ id: 'member-receiver', userId: 'user-receiver' }))
+      mockPrisma.league.findUnique.mockResolvedValue({ contractRuleset: null })
+      mockPrisma.playerRoster.findMany
+        .mockResolvedValueOnce([{ id: 'roster-a' }])
+        .mockResolvedValueOnce([{ id: 'roster-a', player: { name: 'Leao' }, contract: { salary: 14, duration: 2 } }])
+
+      const result = await tradeService.acceptTrade('trade-1', 'user-receiver')
+
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('Clausole contrattuali non più applicabili')
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
     })
   })
 
@@ -763,4 +968,125 @@ describe('Trade Service', () => {
       expect(result.data).toHaveLength(1)
     })
   })
+
+  // ==================== settleDeferredTradePayments ====================
+
+  describe('settleDeferredTradePayments', () => {
+    beforeEach(() => {
+      mockPrisma.playerRoster.findMany.mockResolvedValue([])
+    })
+
+    it('should do nothing when there are no deferred payments', async () => {
+      mockPrisma.tradeOffer.findMany.mockResolvedValue([])
+
+      const result = await tradeService.settleDeferredTradePayments('league-1', 'session-2')
+
+      expect(result.success).toBe(true)
+      expect(result.data).toEqual({ settled: 0, skipped: 0 })
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should transfer the net deferred amount and mark the trade settled', async () => {
+      mockPrisma.tradeOffer.findMany.mockResolvedValue([
+        makeTrade({ status: 'ACCEPTED', deferredOfferedBudget: 10, deferredRequestedBudget: 4 }),
+      ])
+      mockPrisma.leagueMember.findMany.mockResolvedValue([
+        makeMember({ id: 'member-sender', userId: 'user-sender', currentBudget: 50 }),
+        makeMember({ id: 'member-receiver', userId: 'user-receiver', currentBudget: 50 }),
+      ])
+      mockPrisma.playerRoster.findMany.mockResolvedValue([{ id: 'roster-a', playerId: 'player-a' }])
+
+      const result = await tradeService.settleDeferredTradePayments('league-1', 'session-2', 'user-admin')
+
+      expect(result.data).toEqual({ settled: 1, skipped: 0 })
+      expect(mockPrisma.leagueMember.update).toHaveBeenCalledWith({
+        where: { id: 'member-sender' },
+        data: { currentBudget: { decrement: 6 } },
+      })
+      expect(mockPrisma.leagueMember.update).toHaveBeenCalledWith({
+        where: { id: 'member-receiver' },
+        data: { currentBudget: { increment: 6 } },
+      })
+      expect(mockPrisma.tradeOffer.update).toHaveBeenCalledWith({
+        where: { id: 'trade-1' },
+        data: { deferredSettledAt: expect.any(Date), deferredSettledSessionId: 'session-2' },
+      })
+      expect(result.warnings).toBeUndefined()
+    })
+
+    it('should record a movement and an audit entry for each settlement', async () => {
+      mockPrisma.tradeOffer.findMany.mockResolvedValue([
+        makeTrade({ status: 'ACCEPTED', deferredRequestedBudget: 8 }),
+      ])
+      mockPrisma.leagueMember.findMany.mockResolvedValue([
+        makeMember({ id: 'member-sender', userId: 'user-sender' }),
+        makeMember({ id: 'member-receiver', userId: 'user-receiver' }),
+      ])
+      mockPrisma.playerRoster.findMany.mockResolvedValue([{ id: 'roster-a', playerId: 'player-a' }])
+      mockPrisma.playerMovement.create.mockResolvedValue({ id: 'movement-1' })
+
+      await tradeService.settleDeferredTradePayments('league-1', 'session-2', 'user-admin')
+
+      // Pagato dal destinatario
+      expect(mockPrisma.playerMovement.create).toHaveBeenCalledWith({
+        data: {
+          leagueId: 'league-1',
+          playerId: 'player-a',
+          movementType: 'DEFERRED_PAYMENT',
+          fromMemberId: 'member-receiver',
+          toMemberId: 'member-sender',
+          price: 8,
+          tradeId: 'trade-1',
+          marketSessionId: 'session-2',
+        },
+      })
+      expect(logAction).toHaveBeenCalledWith(
+        'user-admin', 'league-1', 'TRADE_DEFERRED_PAYMENT_SETTLED', 'TradeOffer', 'trade-1', undefined,
+        expect.objectContaining({ payerMemberId: 'member-receiver', amount: 8, sessionId: 'session-2' })
+      )
+      expect(recordCompensation).toHaveBeenCalledWith(mockPrisma, expect.objectContaining({
+        operation: 'TRADE_DEFERRED_PAYMENT_SETTLED',
+        entityId: 'trade-1',
+        steps: [
+          { kind: 'BUDGET', memberId: 'member-sender', delta: -8 },
+          { kind: 'BUDGET', memberId: 'member-receiver', delta: 8 },
+          { kind: 'RECORD', model: 'tradeOffer', id: 'trade-1', data: { deferredSettledAt: null, deferredSettledSessionId: null } },
+          { kind: 'MOVEMENTS', ids: ['movement-1'] },
+        ],
+      }))
+    })
+
+    it('should close payments without transfer when a member left the league', async () => {
+      mockPrisma.tradeOffer.findMany.mockResolvedValue([
+        makeTrade({ status: 'ACCEPTED', deferredOfferedBudget: 10 }),
+      ])
+      mockPrisma.leagueMember.findMany.mockResolvedValue([
+        makeMember({ id: 'member-sender', userId: 'user-sender' }),
+      ])
+
+      const result = await tradeService.settleDeferredTradePayments('league-1', 'session-2')
+
+      expect(result.data).toEqual({ settled: 0, skipped: 1 })
+      expect(mockPrisma.leagueMember.update).not.toHaveBeenCalled()
+      expect(mockPrisma.playerMovement.create).not.toHaveBeenCalled()
+      expect(mockPrisma.tradeOffer.update).toHaveBeenCalledTimes(1)
+      expect(logAction).toHaveBeenCalledWith(
+        null, 'league-1', 'TRADE_DEFERRED_PAYMENT_CANCELLED', 'TradeOffer', 'trade-1', undefined, expect.anything()
+      )
+    })
+
+    it('should warn when a payment leaves the payer with a negative budget', async () => {
+      mockPrisma.tradeOffer.findMany.mockResolvedValue([
+        makeTrade({ status: 'ACCEPTED', deferredOfferedBudget: 30 }),
+      ])
+      mockPrisma.leagueMember.findMany.mockResolvedValue([
+        makeMember({ id: 'member-sender', userId: 'user-sender', teamName: 'Sender FC', currentBudget: 20 }),
+        makeMember({ id: 'member-receiver', userId: 'user-receiver', currentBudget: 50 }),
+      ])
+
+      const result = await tradeService.settleDeferredTradePayments('league-1', 'session-2')
+
+      expect(result.warnings).toEqual(['Sender FC: budget negativo dopo i pagamenti differiti (-10)'])
+    })
+  })
 })
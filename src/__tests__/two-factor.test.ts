@@ -0,0 +1,244 @@
+/**
+ * two-factor.test.ts - Unit Tests for TOTP two-factor authentication
+ *
+ * Tests the TOTP helpers (RFC 6238 vectors, clock window, recovery codes) and
+ * the service: mandatory setup at login, enabling, replay protection,
+ * recovery code consumption and the mandatory-2FA disable guard.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mock = {
+    user: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    leagueMember: {
+      count: vi.fn(),
+    },
+    trustedDevice: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  }
+  return { mockPrisma: mock }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  isTwoFactorSetupPending,
+  resolveLoginTwoFactorStep,
+  setupTwoFactor,
+  verifyTwoFactorCode,
+} from '../services/two-factor.service'
+import { hashToken } from '../utils/jwt'
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUrl,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  totpCode,
+  totpStep,
+  verifyTotp,
+} from '../utils/totp'
+
+// Segreto della RFC 6238 (Appendix B): "12345678901234567890" in base32
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'))
+
+describe('TOTP helpers', () => {
+  it('should round-trip base32 encoding', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ')
+    expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890')
+  })
+
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    // Ultime 6 cifre dei codici a 8 cifre della RFC
+    expect(totpCode(RFC_SECRET, totpStep(59 * 1000))).toBe('287082')
+    expect(totpCode(RFC_SECRET, totpStep(1111111109 * 1000))).toBe('081804')
+    expect(totpCode(RFC_SECRET, totpStep(1234567890 * 1000))).toBe('005924')
+  })
+
+  it('should accept codes from adjacent steps only', () => {
+    const now = 1_700_000_000_000
+    const step = totpStep(now)
+
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now)).toBe(step - 1)
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), now)).toBe(step + 1)
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), now)).toBeNull()
+    expect(verifyTotp(RFC_SECRET, 'abc123', now)).toBeNull()
+  })
+
+  it('should build otpauth URLs and normalized recovery codes', () => {
+    expect(buildOtpauthUrl('ABC', 'mario@test.it', 'Fantacontratti'))
+      .toBe('otpauth://totp/Fantacontratti%3Amario%40test.it?secret=ABC&issuer=Fantacontratti&algorithm=SHA1&digits=6&period=30')
+
+    const codes = generateRecoveryCodes()
+    expect(codes).toHaveLength(10)
+    expect(new Set(codes).size).toBe(10)
+    expect(codes[0]).toMatch(/^[A-Z2-9]{5}-[A-Z2-9]{5}$/)
+    expect(hashRecoveryCode(codes[0]!.toLowerCase().replace('-', ' '))).toBe(hashRecoveryCode(codes[0]!))
+  })
+})
+
+describe('Two-factor service', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+    mockPrisma.leagueMember.count.mockResolvedValue(0)
+  })
+
+  describe('resolveLoginTwoFactorStep', () => {
+    it('should require setup for superadmins and admins of enforcing leagues', async () => {
+      expect(await resolveLoginTwoFactorStep({ id: 'u1', isSuperAdmin: true, twoFactorEnabledAt: null })).toBe('SETUP')
+
+      expect(await resolveLoginTwoFactorStep({ id: 'u2', isSuperAdmin: false, twoFactorEnabledAt: null })).toBeNull()
+
+      mockPrisma.leagueMember.count.mockResolvedValue(1)
+      expect(await resolveLoginTwoFactorStep({ id: 'u2', isSuperAdmin: false, twoFactorEnabledAt: null })).toBe('SETUP')
+      expect(mockPrisma.leagueMember.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({ userId: 'u2', role: 'ADMIN', league: { requireAdminTwoFactor: true } }),
+      })
+    })
+
+    it('should skip verification only on a valid trusted device of the same user', async () => {
+      const user = { id: 'u1', isSuperAdmin: false, twoFactorEnabledAt: new Date() }
+      const future = new Date(Date.now() + 60_000)
+
+      expect(await resolveLoginTwoFactorStep(user)).toBe('VERIFY')
+
+      mockPrisma.trustedDevice.findUnique.mockResolvedValue({ id: 'd1', userId: 'other', expiresAt: future })
+      expect(await resolveLoginTwoFactorStep(user, 'device-token')).toBe('VERIFY')
+
+      mockPrisma.trustedDevice.findUnique.mockResolvedValue({ id: 'd1', userId: 'u1', expiresAt: future })
+      expect(await resolveLoginTwoFactorStep(user, 'device-token')).toBeNull()
+      expect(mockPrisma.trustedDevice.findUnique).toHaveBeenCalledWith({ where: { tokenHash: hashToken('device-token') } })
+      expect(mockPrisma.trustedDevice.update).toHaveBeenCalledWith({ where: { id: 'd1' }, data: { lastUsedAt: expect.any(Date) } })
+    })
+  })
+
+  describe('setup and enable', () => {
+    it('should store a pending secret and return a QR code', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ email: 'mario@test.it', twoFactorEnabledAt: null })
+
+      const result = await setupTwoFactor('u1')
+
+      expect(result.success).toBe(true)
+      const data = result.data as { secret: string; otpauthUrl: string; qrCodeDataUrl: string }
+      expect(data.otpauthUrl).toContain(`secret=${data.secret}`)
+      expect(data.qrCodeDataUrl).toMatch(/^data:image\/png;base64,/)
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'u1' },
+        data: { twoFactorSecret: data.secret, twoFactorLastStep: null },
+      })
+    })
+
+    it('should enable with a valid code and return hashed recovery codes', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ twoFactorSecret: RFC_SECRET, twoFactorEnabledAt: null })
+
+      const wrong = await enableTwoFactor('u1', '000000')
+      expect(wrong.success).toBe(false)
+
+      const result = await enableTwoFactor('u1', totpCode(RFC_SECRET, totpStep()))
+
+      expect(result.success).toBe(true)
+      const { recoveryCodes } = result.data as { recoveryCodes: string[] }
+      expect(recoveryCodes).toHaveLength(10)
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'u1' },
+        data: expect.objectContaining({
+          twoFactorEnabledAt: expect.any(Date),
+          twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+        }),
+      })
+    })
+  })
+
+  describe('verifyTwoFactorCode', () => {
+    const enabledUser = (recoveryCodes: string[] = []) => ({
+      twoFactorSecret: RFC_SECRET,
+      twoFactorEnabledAt: new Date(),
+      twoFactorRecoveryCodes: recoveryCodes,
+    })
+
+    it('should reject a code already used in the same step', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(enabledUser())
+      const code = totpCode(RFC_SECRET, totpStep())
+
+      mockPrisma.user.updateMany.mockResolvedValueOnce({ count: 1 })
+      expect((await verifyTwoFactorCode('u1', code)).success).toBe(true)
+
+      mockPrisma.user.updateMany.mockResolvedValueOnce({ count: 0 })
+      const replay = await verifyTwoFactorCode('u1', code)
+      expect(replay.success).toBe(false)
+      expect(replay.message).toContain('già utilizzato')
+    })
+
+    it('should consume a recovery code', async () => {
+      const codes = ['AAAAA-BBBBB', 'CCCCC-DDDDD']
+      mockPrisma.user.findUnique.mockResolvedValue(enabledUser(codes.map(hashRecoveryCode)))
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 1 })
+      mockPrisma.$transaction.mockImplementation((fn: (tx: unknown) => Promise<unknown>) => fn(mockPrisma))
+
+      const result = await verifyTwoFactorCode('u1', 'aaaaa-bbbbb')
+
+      expect(result).toEqual({ success: true, data: { method: 'RECOVERY', recoveryCodesRemaining: 1 } })
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'u1', twoFactorRecoveryCodes: { equals: codes.map(hashRecoveryCode) } },
+        data: { twoFactorRecoveryCodes: [hashRecoveryCode(codes[1]!)] },
+      })
+    })
+
+    it('should not count a recovery code consumed by a concurrent request', async () => {
+      const codes = ['AAAAA-BBBBB', 'CCCCC-DDDDD']
+      mockPrisma.user.findUnique
+        .mockResolvedValueOnce(enabledUser(codes.map(hashRecoveryCode)))
+        // Nel frattempo un'altra richiesta ha consumato CCCCC-DDDDD
+        .mockResolvedValueOnce({ twoFactorRecoveryCodes: [hashRecoveryCode(codes[0]!)] })
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 1 })
+      mockPrisma.$transaction.mockImplementation((fn: (tx: unknown) => Promise<unknown>) => fn(mockPrisma))
+
+      const result = await verifyTwoFactorCode('u1', 'AAAAA-BBBBB')
+
+      expect(result).toEqual({ success: true, data: { method: 'RECOVERY', recoveryCodesRemaining: 0 } })
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'u1', twoFactorRecoveryCodes: { equals: [hashRecoveryCode(codes[0]!)] } },
+        data: { twoFactorRecoveryCodes: [] },
+      })
+    })
+  })
+
+  describe('isTwoFactorSetupPending', () => {
+    it('should flag mandatory two-factor not configured yet', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ id: 'u1', isSuperAdmin: true, twoFactorEnabledAt: null })
+      expect(await isTwoFactorSetupPending('u1')).toBe(true)
+
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ id: 'u1', isSuperAdmin: true, twoFactorEnabledAt: new Date() })
+      expect(await isTwoFactorSetupPending('u1')).toBe(false)
+
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ id: 'u2', isSuperAdmin: false, twoFactorEnabledAt: null })
+      mockPrisma.leagueMember.count.mockResolvedValueOnce(0)
+      expect(await isTwoFactorSetupPending('u2')).toBe(false)
+    })
+  })
+
+  describe('disableTwoFactor', () => {
+    it('should refuse when two-factor is mandatory', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'u1', isSuperAdmin: true, twoFactorEnabledAt: new Date() })
+
+      const result = await disableTwoFactor('u1', '123456')
+
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('obbligatoria')
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -126,12 +126,14 @@ describe('User Service', () => {
       expect(result.message).toBe('Nessun dato da aggiornare')
     })
 
-    it('updates email successfully', async () => {
+    it('updates email and resets the verification', async () => {
       mockPrisma.user.findFirst.mockResolvedValueOnce(null) // email not taken
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ email: 'user@test.it' })
       mockPrisma.user.update.mockResolvedValue({
         id: 'user-1',
         email: 'new@test.it',
         username: 'testuser',
+        emailVerified: false,
       })
 
       const result = await userService.updateProfile('user-1', {
@@ -139,16 +141,31 @@ describe('User Service', () => {
       })
 
       expect(result.success).toBe(true)
-      expect(result.message).toBe('Profilo aggiornato')
-      expect(result.data).toBeDefined()
+      expect(result.data).toMatchObject({ emailVerified: false, emailChanged: true })
       expect(mockPrisma.user.update).toHaveBeenCalledWith(
         expect.objectContaining({
           where: { id: 'user-1' },
-          data: { email: 'new@test.it' },
+          data: {
+            email: 'new@test.it',
+            emailVerified: false,
+            emailVerificationToken: null,
+            emailVerificationExpires: null,
+          },
         })
       )
     })
 
+    it('keeps the verification when the email is unchanged', async () => {
+      mockPrisma.user.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ email: 'user@test.it' })
+      mockPrisma.user.update.mockResolvedValue({ id: 'user-1', email: 'user@test.it', username: 'testuser', emailVerified: true })
+
+      const result = await userService.updateProfile('user-1', { email: 'user@test.it' })
+
+      expect(result).toMatchObject({ success: true, message: 'Profilo aggiornato', data: { emailChanged: false } })
+      expect(mockPrisma.user.update).toHaveBeenCalledWith(expect.objectContaining({ data: { email: 'user@test.it' } }))
+    })
+
     it('updates username successfully', async () => {
       mockPrisma.user.findFirst.mockResolvedValueOnce(null) // username not taken
       mockPrisma.user.update.mockResolvedValue({
@@ -169,6 +186,7 @@ describe('User Service', () => {
       mockPrisma.user.findFirst
         .mockResolvedValueOnce(null) // email not taken
         .mockResolvedValueOnce(null) // username not taken
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ email: 'user@test.it' })
       mockPrisma.user.update.mockResolvedValue({
         id: 'user-1',
         email: 'new@test.it',
@@ -183,7 +201,7 @@ describe('User Service', () => {
       expect(result.success).toBe(true)
       expect(mockPrisma.user.update).toHaveBeenCalledWith(
         expect.objectContaining({
-          data: { email: 'new@test.it', username: 'newusername' },
+          data: expect.objectContaining({ email: 'new@test.it', username: 'newusername', emailVerified: false }),
         })
       )
     })
@@ -0,0 +1,307 @@
+/**
+ * watchlist.service.test.ts - Unit Tests for Persistent Watchlist Service
+ *
+ * Tests for categories, entries and session seeding from the watchlist.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// Hoist mock before imports
+const { mockPrisma, MockPrismaClient } = vi.hoisted(() => {
+  const mock = {
+    marketSession: {
+      findUnique: vi.fn()
+    },
+    leagueMember: {
+      findFirst: vi.fn()
+    },
+    serieAPlayer: {
+      findUnique: vi.fn()
+    },
+    playerRoster: {
+      findMany: vi.fn()
+    },
+    watchlistCategory: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      createMany: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn()
+    },
+    watchlistEntry: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn()
+    },
+    rubataPreference: {
+      createMany: vi.fn()
+    },
+    auctionObjective: {
+      createMany: vi.fn()
+    }
+  }
+
+  // Create a proper class constructor
+  const MockClass = function(this: typeof mock) {
+    Object.assign(this, mock)
+  } as unknown as new () => typeof mock
+
+  return { mockPrisma: mock, MockPrismaClient: MockClass }
+})
+
+// Mock Prisma with hoisted mock
+vi.mock('@prisma/client', () => ({
+  PrismaClient: MockPrismaClient,
+  MemberStatus: { ACTIVE: 'ACTIVE' },
+  RosterStatus: { ACTIVE: 'ACTIVE' }
+}))
+
+// Import after mocking
+import * as watchlistService from '../services/watchlist.service'
+
+const member = { id: 'member-1', userId: 'user-1', leagueId: 'league-1' }
+
+describe('Watchlist Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('ensureDefaultCategories', () => {
+    it('creates all system categories for a new league', async () => {
+      mockPrisma.watchlistCategory.findMany.mockResolvedValue([])
+      mockPrisma.watchlistCategory.createMany.mockResolvedValue({ count: 5 })
+
+      await watchlistService.ensureDefaultCategories('league-1')
+
+      const call = mockPrisma.watchlistCategory.createMany.mock.calls[0]?.[0] as { data: Array<{ code: string; isSystemDefault: boolean }> }
+      expect(call.data.map(c => c.code)).toEqual([
+        'DA_RUBARE', 'SOTTO_OSSERVAZIONE', 'POTENZIALE_ACQUISTO', 'SCAMBIO', 'DA_VENDERE'
+      ])
+      expect(call.data.every(c => c.isSystemDefault)).toBe(true)
+    })
+
+    it('does nothing when all system categories exist', async () => {
+      mockPrisma.watchlistCategory.findMany.mockResolvedValue(
+        watchlistService.DEFAULT_WATCHLIST_CATEGORIES.map(c => ({ code: c.code }))
+      )
+
+      await watchlistService.ensureDefaultCategories('league-1')
+
+      expect(mockPrisma.watchlistCategory.createMany).not.toHaveBeenCalled()
+    })
+
+    it('creates one set of system categories when called twice concurrently', async () => {
+      const rows: Array<{ leagueId: string; code: string }> = []
+      mockPrisma.watchlistCategory.findMany.mockImplementation(() => Promise.resolve(rows.map(r => ({ code: r.code }))))
+      // Simula @@unique([leagueId, code]): con skipDuplicates i codici già presenti vengono saltati
+      mockPrisma.watchlistCategory.createMany.mockImplementation(
+        ({ data, skipDuplicates }: { data: Array<{ leagueId: string; code: string }>; skipDuplicates?: boolean }) => {
+          const fresh = data.filter(row => !rows.some(r => r.leagueId === row.leagueId && r.code === row.code))
+          if (!skipDuplicates && fresh.length < data.length) return Promise.reject(new Error('Unique constraint failed'))
+          rows.push(...fresh)
+          return Promise.resolve({ count: fresh.length })
+        }
+      )
+
+      await Promise.all([
+        watchlistService.ensureDefaultCategories('league-1'),
+        watchlistService.ensureDefaultCategories('league-1'),
+      ])
+
+      expect(mockPrisma.watchlistCategory.createMany).toHaveBeenCalledTimes(2)
+      expect(rows.map(r => r.code)).toEqual(watchlistService.DEFAULT_WATCHLIST_CATEGORIES.map(c => c.code))
+    })
+  })
+
+  describe('getWatchlist', () => {
+    it('returns error when user is not a member', async () => {
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(null)
+
+      const result = await watchlistService.getWatchlist('league-1', 'user-1')
+
+      expect(result.success).toBe(false)
+      expect(result.message).toBe('Non sei membro di questa lega')
+    })
+  })
+
+  describe('createWatchlistCategory', () => {
+    it('rejects duplicate names among visible categories', async () => {
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(member)
+      mockPrisma.watchlistCategory.findFirst.mockResolvedValue({ id: 'cat-1', name: 'Da Rubare' })
+
+      const result = await watchlistService.createWatchlistCategory('league-1', 'user-1', { name: 'da rubare' })
+
+      expect(result.success).toBe(false)
+      expect(mockPrisma.watchlistCategory.create).not.toHaveBeenCalled()
+    })
+
+    it('creates a personal category owned by the member', async () => {
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(member)
+      mockPrisma.watchlistCategory.findFirst.mockResolvedValue(null)
+      mockPrisma.watchlistCategory.count.mockResolvedValue(0)
+      mockPrisma.watchlistCategory.create.mockResolvedValue({ id: 'cat-9', name: 'Giovani' })
+
+      const result = await watchlistService.createWatchlistCategory('league-1', 'user-1', { name: ' Giovani ' })
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.watchlistCategory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ leagueId: 'league-1', memberId: 'member-1', name: 'Giovani' })
+      })
+    })
+  })
+
+  describe('deleteWatchlistCategory', () => {
+    it('refuses to delete system categories', async () => {
+      mockPrisma.watchlistCategory.findUnique.mockResolvedValue({ id: 'cat-1', isSystemDefault: true, member: null })
+
+      const result = await watchlistService.deleteWatchlistCategory('cat-1', 'user-1')
+
+      expect(result.success).toBe(false)
+      expect(result.message).toBe('Non autorizzato')
+      expect(mockPrisma.watchlistCategory.delete).not.toHaveBeenCalled()
+    })
+
+    it('deletes an own category', async () => {
+      mockPrisma.watchlistCategory.findUnique.mockResolvedValue({ id: 'cat-9', isSystemDefault: false, member: { userId: 'user-1' } })
+      mockPrisma.watchlistCategory.delete.mockResolvedValue({})
+
+      const result = await watchlistService.deleteWatchlistCategory('cat-9', 'user-1')
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.watchlistCategory.delete).toHaveBeenCalledWith({ where: { id: 'cat-9' } })
+    })
+  })
+
+  describe('upsertWatchlistEntry', () => {
+    it('rejects out of range priority', async () => {
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(member)
+
+      const result = await watchlistService.upsertWatchlistEntry('league-1', 'user-1', {
+        playerId: 'player-1', categoryId: 'cat-1', priority: 6
+      })
+
+      expect(result.success).toBe(false)
+      expect(mockPrisma.watchlistEntry.upsert).not.toHaveBeenCalled()
+    })
+
+    it('rejects categories not visible to the member', async () => {
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(member)
+      mockPrisma.watchlistCategory.findFirst.mockResolvedValue(null)
+
+      const result = await watchlistService.upsertWatchlistEntry('league-1', 'user-1', {
+        playerId: 'player-1', categoryId: 'cat-other'
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.message).toBe('Categoria non trovata')
+    })
+
+    it('upserts the entry with a stats snapshot', async () => {
+      mockPrisma.leagueMember.findFirst.mockResolvedValue(member)
+      mockPrisma.watchlistCategory.findFirst.mockResolvedValue({ id: 'cat-1', name: 'Da Rubare' })
+      mockPrisma.serieAPlayer.findUnique.mockResolvedValue({ id: 'player-1', name: 'Rossi', quotation: 20, age: 24, team: 'Inter' })
+      mockPrisma.watchlistEntry.upsert.mockResolvedValue({ id: 'entry-1' })
+
+      const result = await watchlistService.upsertWatchlistEntry('league-1', 'user-1', {
+        playerId: 'player-1', categoryId: 'cat-1', priority: 5, maxBid: 30
+      })
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.watchlistEntry.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({
+          categoryId: 'cat-1',
+          memberId: 'member-1',
+          playerId: 'player-1',
+          priority: 5,
+          maxBid: 30,
+          statsAtAdd: { quotation: 20, age: 24, team: 'Inter' }
+        })
+      }))
+    })
+  })
+
+  describe('removeWatchlistEntry', () => {
+    it('does not remove entries of other users', async () => {
+      mockPrisma.watchlistEntry.findUnique.mockResolvedValue({ id: 'entry-1', member: { userId: 'user-2' } })
+
+      const result = await watchlistService.removeWatchlistEntry('entry-1', 'user-1')
+
+      expect(result.success).toBe(false)
+      expect(mockPrisma.watchlistEntry.delete).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('seedSessionFromWatchlist', () => {
+    it('maps priorities to auction objective scale', () => {
+      expect(watchlistService.toObjectivePriority(5)).toBe(1)
+      expect(watchlistService.toObjectivePriority(4)).toBe(1)
+      expect(watchlistService.toObjectivePriority(3)).toBe(2)
+      expect(watchlistService.toObjectivePriority(1)).toBe(3)
+    })
+
+    it('seeds rubata preferences for owned players and objectives for free players', async () => {
+      mockPrisma.marketSession.findUnique.mockResolvedValue({ id: 'session-1', leagueId: 'league-1' })
+      mockPrisma.watchlistEntry.findMany.mockResolvedValue([
+        // Giocatore in rosa di un altro manager → RubataPreference
+        { memberId: 'member-1', playerId: 'p-owned', priority: 5, maxBid: 40, targetPrice: null, notes: 'top', category: { code: 'DA_RUBARE' } },
+        // Stesso giocatore in un'altra categoria con priorità inferiore → ignorato
+        { memberId: 'member-1', playerId: 'p-owned', priority: 2, maxBid: null, targetPrice: null, notes: null, category: { code: null } },
+        // Giocatore libero → AuctionObjective
+        { memberId: 'member-1', playerId: 'p-free', priority: 3, maxBid: null, targetPrice: 12, notes: null, category: { code: 'POTENZIALE_ACQUISTO' } },
+        // Giocatore già in rosa del manager → ignorato
+        { memberId: 'member-1', playerId: 'p-mine', priority: 4, maxBid: null, targetPrice: null, notes: null, category: { code: null } }
+      ])
+      mockPrisma.playerRoster.findMany.mockResolvedValue([
+        { playerId: 'p-owned', leagueMemberId: 'member-2' },
+        { playerId: 'p-mine', leagueMemberId: 'member-1' }
+      ])
+      mockPrisma.rubataPreference.createMany.mockResolvedValue({ count: 1 })
+      mockPrisma.auctionObjective.createMany.mockResolvedValue({ count: 1 })
+
+      const result = await watchlistService.seedSessionFromWatchlist('session-1')
+
+      expect(result).toEqual({ preferences: 1, objectives: 1 })
+      expect(mockPrisma.rubataPreference.createMany).toHaveBeenCalledWith({
+        data: [{
+          sessionId: 'session-1',
+          memberId: 'member-1',
+          playerId: 'p-owned',
+          isWatchlist: true,
+          maxBid: 40,
+          priority: 5,
+          notes: 'top',
+          watchlistCategory: 'DA_RUBARE'
+        }],
+        skipDuplicates: true
+      })
+      expect(mockPrisma.auctionObjective.createMany).toHaveBeenCalledWith({
+        data: [{
+          sessionId: 'session-1',
+          memberId: 'member-1',
+          playerId: 'p-free',
+          priority: 2,
+          notes: null,
+          maxPrice: 12
+        }],
+        skipDuplicates: true
+      })
+    })
+
+    it('does nothing when nobody has a watchlist', async () => {
+      mockPrisma.marketSession.findUnique.mockResolvedValue({ id: 'session-1', leagueId: 'league-1' })
+      mockPrisma.watchlistEntry.findMany.mockResolvedValue([])
+
+      const result = await watchlistService.seedSessionFromWatchlist('session-1')
+
+      expect(result).toEqual({ preferences: 0, objectives: 0 })
+      expect(mockPrisma.playerRoster.findMany).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -28,9 +28,27 @@ import contractHistoryRoutes from './routes/contract-history'
 import pushRoutes from './routes/push'
 import cronRoutes from './routes/cron'
 import logRoutes from './routes/logs'
+import chatRoutes from './routes/chat'
+import watchlistRoutes from './routes/watchlist'
+import matchdayRoutes from './routes/matchdays'
+import standingsImportRoutes from './routes/standings-imports'
+import contractScenarioRoutes from './routes/contract-scenarios'
+import compensationRoutes from './routes/compensations'
+import seasonRolloverRoutes from './routes/season-rollover'
+import indemnityRoutes from './routes/indemnity'
 import { requestLogger } from './middleware/request-logger'
+import { auditContext } from './middleware/audit'
 import { initWebPush } from '../services/notification.service'
-import { registerApiFootballSyncJob, startApiFootballSyncJob } from '../shared/infrastructure/cron'
+import {
+  registerApiFootballSyncJob,
+  startApiFootballSyncJob,
+  registerTradeExpiryJob,
+  startTradeExpiryJob,
+  registerFeedbackIssueSyncJob,
+  startFeedbackIssueSyncJob,
+  registerIndemnityDeadlineJob,
+  startIndemnityDeadlineJob,
+} from '../shared/infrastructure/cron'
 
 const app = express()
 const PORT = process.env.API_PORT || 3003
@@ -108,6 +126,9 @@ app.use((req, _res, next) => {
 // Request logging middleware (after auth-related middleware, before routes)
 app.use(requestLogger)
 
+// Audit context (IP/user agent for AuditLog entries written during the request)
+app.use(auditContext)
+
 // Health check
 app.get('/api/health', (_req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() })
@@ -193,6 +214,14 @@ app.use('/api', contractHistoryRoutes) // Contract history routes for tracking c
 app.use('/api/push', pushRoutes) // Push notification routes
 app.use('/api', cronRoutes) // Cron endpoints for Vercel Cron
 app.use('/api/logs', logRoutes) // Structured logging endpoints
+app.use('/api', chatRoutes) // Session chat routes include /auctions/sessions/:id/chat/*
+app.use('/api', watchlistRoutes) // Watchlist routes include /leagues/:id/watchlist/* and /watchlist/*
+app.use('/api', matchdayRoutes) // Matchday routes include /leagues/:id/matchdays/* and /leagues/:id/scoring-rules
+app.use('/api', standingsImportRoutes) // Standings import routes include /leagues/:id/standings-imports/* and /leagues/:id/standings/imported
+app.use('/api', contractScenarioRoutes) // Contract simulator routes include /leagues/:id/contract-simulator and /leagues/:id/contract-scenarios/*
+app.use('/api', compensationRoutes) // Compensation journal routes include /leagues/:id/admin/journal/*
+app.use('/api', seasonRolloverRoutes) // Season rollover routes include /leagues/:id/season-rollover and /leagues/:id/season-archives
+app.use('/api', indemnityRoutes) // Indemnity phase routes include /sessions/:id/indemnity/*
 
 // 404 handler
 app.use((_req, res) => {
@@ -219,6 +248,15 @@ if (process.env.NODE_ENV !== 'test') {
       registerApiFootballSyncJob()
       startApiFootballSyncJob()
       console.log('[CRON] API-Football sync job started (hourly check)')
+      registerTradeExpiryJob()
+      startTradeExpiryJob()
+      console.log('[CRON] Trade expiry job started (every 5 minutes)')
+      registerFeedbackIssueSyncJob()
+      startFeedbackIssueSyncJob()
+      console.log('[CRON] Feedback issue sync job started (every 30 minutes)')
+      registerIndemnityDeadlineJob()
+      startIndemnityDeadlineJob()
+      console.log('[CRON] Indemnity deadline job started (every 15 minutes)')
     }
   })
 }
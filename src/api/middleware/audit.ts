@@ -0,0 +1,52 @@
+import type { Request, Response, NextFunction } from 'express'
+import { runWithRequestContext, getRequestContext } from '@/shared/infrastructure/http'
+import { logAction, resolveAuditTarget } from '../../services/admin.service'
+
+// Behind the Vercel proxy the client IP is the first x-forwarded-for entry
+function clientIp(req: Request): string | undefined {
+  const forwarded = req.headers['x-forwarded-for']
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim()
+  return first || req.ip
+}
+
+/**
+ * Makes IP and user agent of the request available to logAction
+ */
+export function auditContext(req: Request, _res: Response, next: NextFunction): void {
+  runWithRequestContext(
+    { ipAddress: clientIp(req), userAgent: req.headers['user-agent'], auditLogged: false },
+    next
+  )
+}
+
+/**
+ * Audit trail for admin-privileged routes: once the request succeeds, writes
+ * an AuditLog entry with URL params and body as newValues. Skipped when the
+ * service already logged a structured entry for the same request.
+ */
+export function auditAdminAction(action: string) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const context = getRequestContext()
+    // Resolved before the handler runs: deleted entities are no longer found afterwards
+    const target = resolveAuditTarget(req.params as Record<string, string>).catch(() => null)
+
+    res.on('finish', () => {
+      if (res.statusCode >= 300 || !req.user || context?.auditLogged) return
+
+      const userId = req.user.userId
+      void target.then(resolved => logAction(
+        userId,
+        resolved?.leagueId ?? null,
+        action,
+        resolved?.entityType,
+        resolved?.entityId,
+        undefined,
+        { params: req.params, body: req.body as unknown },
+        context?.ipAddress,
+        context?.userAgent
+      ))
+    })
+
+    next()
+  }
+}
@@ -11,7 +11,9 @@ import {
   getPrizeHistory,
   completeLeagueWithTestUsers,
 } from '../../services/admin.service'
+import { auditLogQuerySchema } from '../../utils/validation'
 import { authMiddleware } from '../middleware/auth'
+import { auditAdminAction } from '../middleware/audit'
 
 const router = Router()
 
@@ -41,17 +43,18 @@ router.get('/leagues/:leagueId/admin/export/rosters', authMiddleware, async (req
 router.get('/leagues/:leagueId/admin/audit', authMiddleware, async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
-    const { limit, offset, action } = req.query as {
-      limit?: string
-      offset?: string
-      action?: string
+    const validation = auditLogQuerySchema.safeParse(req.query)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
     }
 
-    const result = await getAuditLog(leagueId, req.user!.userId, {
-      limit: limit ? parseInt(limit) : undefined,
-      offset: offset ? parseInt(offset) : undefined,
-      action,
-    })
+    const result = await getAuditLog(leagueId, req.user!.userId, validation.data)
 
     if (!result.success) {
       res.status(result.message === 'Non autorizzato' ? 403 : 400).json(result)
@@ -88,7 +91,7 @@ router.get('/leagues/:leagueId/admin/stats', authMiddleware, async (req: Request
 // ==================== RESET FIRST MARKET ====================
 
 // POST /api/leagues/:leagueId/admin/reset-first-market - Reset the first market to initial state
-router.post('/leagues/:leagueId/admin/reset-first-market', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/admin/reset-first-market', authMiddleware, auditAdminAction('FIRST_MARKET_RESET'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const result = await resetFirstMarket(leagueId, req.user!.userId)
@@ -108,7 +111,7 @@ router.post('/leagues/:leagueId/admin/reset-first-market', authMiddleware, async
 // ==================== MIGRATE PROPHECIES ====================
 
 // POST /api/leagues/:leagueId/admin/migrate-prophecies - Migrate prophecies from AuctionAcknowledgment to Prophecy model
-router.post('/leagues/:leagueId/admin/migrate-prophecies', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/admin/migrate-prophecies', authMiddleware, auditAdminAction('PROPHECIES_MIGRATE'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const result = await migrateProphecies(leagueId, req.user!.userId)
@@ -164,7 +167,7 @@ router.get('/leagues/:leagueId/admin/prizes/members', authMiddleware, async (req
 })
 
 // POST /api/leagues/:leagueId/admin/prizes - Assign a prize to a member
-router.post('/leagues/:leagueId/admin/prizes', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/admin/prizes', authMiddleware, auditAdminAction('PRIZE_ASSIGN'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const { memberId, amount, reason } = req.body as {
@@ -195,7 +198,7 @@ router.post('/leagues/:leagueId/admin/prizes', authMiddleware, async (req: Reque
 // ==================== COMPLETE LEAGUE WITH TEST USERS ====================
 
 // POST /api/leagues/:leagueId/admin/complete-with-test-users - Complete league to 8 managers with test users
-router.post('/leagues/:leagueId/admin/complete-with-test-users', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/admin/complete-with-test-users', authMiddleware, auditAdminAction('LEAGUE_COMPLETE_TEST_USERS'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const result = await completeLeagueWithTestUsers(leagueId, req.user!.userId)
@@ -48,8 +48,10 @@ import {
   rectifyTransaction,
   reopenAuction,
 } from '../../services/auction.service'
+import { setProxyBid, removeProxyBid, getMyProxyBids } from '../../services/proxy-bid.service'
 import { simulateFirstMarketBotBidding, completeBotTurn, botNominate, botConfirmNomination } from '../../services/bot.service'
 import { authMiddleware } from '../middleware/auth'
+import { auditAdminAction } from '../middleware/audit'
 
 const router = Router()
 
@@ -57,7 +59,7 @@ const router = Router()
 
 // POST /api/leagues/:leagueId/auctions - Create auction session (Admin)
 // Body: { isRegularMarket?: boolean } - if true, creates regular market and decrements contracts
-router.post('/leagues/:leagueId/auctions', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/auctions', authMiddleware, auditAdminAction('MARKET_SESSION_CREATE'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const { isRegularMarket, auctionMode } = req.body as { isRegularMarket?: boolean, auctionMode?: 'REMOTE' | 'IN_PRESENCE' }
@@ -94,7 +96,7 @@ router.get('/leagues/:leagueId/auctions', authMiddleware, async (req: Request, r
 })
 
 // PUT /api/auctions/sessions/:sessionId/phase - Set market phase (Admin)
-router.put('/auctions/sessions/:sessionId/phase', authMiddleware, async (req: Request, res: Response) => {
+router.put('/auctions/sessions/:sessionId/phase', authMiddleware, auditAdminAction('MARKET_PHASE_CHANGE'), async (req: Request, res: Response) => {
   try {
     const sessionId = req.params.sessionId as string
     const { phase } = req.body as { phase?: string }
@@ -119,7 +121,7 @@ router.put('/auctions/sessions/:sessionId/phase', authMiddleware, async (req: Re
 })
 
 // PUT /api/auctions/sessions/:sessionId/timer - Update timer seconds (Admin)
-router.put('/auctions/sessions/:sessionId/timer', authMiddleware, async (req: Request, res: Response) => {
+router.put('/auctions/sessions/:sessionId/timer', authMiddleware, auditAdminAction('AUCTION_TIMER_UPDATE'), async (req: Request, res: Response) => {
   try {
     const sessionId = req.params.sessionId as string
     const { timerSeconds } = req.body as { timerSeconds?: number }
@@ -144,7 +146,7 @@ router.put('/auctions/sessions/:sessionId/timer', authMiddleware, async (req: Re
 })
 
 // PUT /api/auctions/sessions/:sessionId/close - Close auction session (Admin)
-router.put('/auctions/sessions/:sessionId/close', authMiddleware, async (req: Request, res: Response) => {
+router.put('/auctions/sessions/:sessionId/close', authMiddleware, auditAdminAction('MARKET_SESSION_CLOSE'), async (req: Request, res: Response) => {
   try {
     const sessionId = req.params.sessionId as string
     const result = await closeAuctionSession(sessionId, req.user!.userId)
@@ -164,7 +166,7 @@ router.put('/auctions/sessions/:sessionId/close', authMiddleware, async (req: Re
 // ==================== AUCTION ITEMS ====================
 
 // POST /api/auctions/sessions/:sessionId/nominate - Nominate player (Admin)
-router.post('/auctions/sessions/:sessionId/nominate', authMiddleware, async (req: Request, res: Response) => {
+router.post('/auctions/sessions/:sessionId/nominate', authMiddleware, auditAdminAction('AUCTION_NOMINATE'), async (req: Request, res: Response) => {
   try {
     const sessionId = req.params.sessionId as string
     const { playerId, basePrice } = req.body as { playerId?: string; basePrice?: number }
@@ -233,8 +235,72 @@ router.post('/auctions/:auctionId/bid', authMiddleware, async (req: Request, res
   }
 })
 
+// ==================== PROXY BIDS ====================
+
+// GET /api/leagues/:leagueId/proxy-bids - My proxy ceilings for the active session
+router.get('/leagues/:leagueId/proxy-bids', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const result = await getMyProxyBids(leagueId, req.user!.userId)
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Get proxy bids error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// PUT /api/leagues/:leagueId/proxy-bids/:playerId - Set or update proxy ceiling
+// Body: { maxAmount: number }
+router.put('/leagues/:leagueId/proxy-bids/:playerId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { leagueId, playerId } = req.params
+    const { maxAmount } = req.body as { maxAmount?: number }
+
+    if (!maxAmount || typeof maxAmount !== 'number' || maxAmount <= 0) {
+      res.status(400).json({ success: false, message: 'Importo non valido' })
+      return
+    }
+
+    const result = await setProxyBid(leagueId!, req.user!.userId, playerId!, maxAmount)
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Set proxy bid error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// DELETE /api/leagues/:leagueId/proxy-bids/:playerId - Remove proxy ceiling
+router.delete('/leagues/:leagueId/proxy-bids/:playerId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { leagueId, playerId } = req.params
+    const result = await removeProxyBid(leagueId!, req.user!.userId, playerId!)
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Remove proxy bid error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
 // PUT /api/auctions/:auctionId/close - Close auction (Admin)
-router.put('/auctions/:auctionId/close', authMiddleware, async (req: Request, res: Response) => {
+router.put('/auctions/:auctionId/close', authMiddleware, auditAdminAction('AUCTION_CLOSE'), async (req: Request, res: Response) => {
   try {
     const auctionId = req.params.auctionId as string
     const result = await closeAuction(auctionId, req.user!.userId)
@@ -311,7 +377,7 @@ router.get('/leagues/:leagueId/rosters', authMiddleware, async (req: Request, re
 // ==================== FIRST MARKET ====================
 
 // PUT /api/auctions/sessions/:sessionId/turn-order - Set turn order (Admin)
-router.put('/auctions/sessions/:sessionId/turn-order', authMiddleware, async (req: Request, res: Response) => {
+router.put('/auctions/sessions/:sessionId/turn-order', authMiddleware, auditAdminAction('TURN_ORDER_SET'), async (req: Request, res: Response) => {
   try {
     const sessionId = req.params.sessionId as string
     const { memberOrder } = req.body as { memberOrder?: string[] }
@@ -354,7 +420,7 @@ router.get('/auctions/sessions/:sessionId/first-market-status', authMiddleware,
 })
 
 // PUT /api/auctions/sessions/:sessionId/advance-role - Advance to next role (Admin)
-router.put('/auctions/sessions/:sessionId/advance-role', authMiddleware, async (req: Request, res: Response) => {
+router.put('/auctions/sessions/:sessionId/advance-role', authMiddleware, auditAdminAction('AUCTION_ADVANCE_ROLE'), async (req: Request, res: Response) => {
   try {
     const sessionId = req.params.sessionId as string
     const result = await advanceToNextRole(sessionId, req.user!.userId)
@@ -372,7 +438,7 @@ router.put('/auctions/sessions/:sessionId/advance-role', authMiddleware, async (
 })
 
 // PUT /api/auctions/sessions/:sessionId/advance-turn - Advance to next turn (Admin)
-router.put('/auctions/sessions/:sessionId/advance-turn', authMiddleware, async (req: Request, res: Response) => {
+router.put('/auctions/sessions/:sessionId/advance-turn', authMiddleware, auditAdminAction('AUCTION_ADVANCE_TURN'), async (req: Request, res: Response) => {
   try {
     const sessionId = req.params.sessionId as string
     const result = await advanceToNextTurn(sessionId, req.user!.userId)
@@ -415,7 +481,7 @@ router.post('/auctions/sessions/:sessionId/manager-nominate', authMiddleware, as
 })
 
 // PUT /api/auctions/:auctionId/cancel-bid - Cancel last winning bid (Admin)
-router.put('/auctions/:auctionId/cancel-bid', authMiddleware, async (req: Request, res: Response) => {
+router.put('/auctions/:auctionId/cancel-bid', authMiddleware, auditAdminAction('AUCTION_BID_CANCEL'), async (req: Request, res: Response) => {
   try {
     const auctionId = req.params.auctionId as string
     const result = await cancelLastBid(auctionId, req.user!.userId)
@@ -518,7 +584,7 @@ router.post('/auctions/sessions/:sessionId/confirm-nomination', authMiddleware,
 })
 
 // DELETE /api/auctions/sessions/:sessionId/nomination - Cancel nomination (nominator or admin)
-router.delete('/auctions/sessions/:sessionId/nomination', authMiddleware, async (req: Request, res: Response) => {
+router.delete('/auctions/sessions/:sessionId/nomination', authMiddleware, auditAdminAction('AUCTION_NOMINATION_CANCEL'), async (req: Request, res: Response) => {
   try {
     const sessionId = req.params.sessionId as string
     const result = await cancelNomination(sessionId, req.user!.userId)
@@ -572,7 +638,7 @@ router.get('/auctions/sessions/:sessionId/ready-status', authMiddleware, async (
 })
 
 // PUT /api/auctions/sessions/:sessionId/cancel-nomination - Cancel pending nomination (Admin)
-router.put('/auctions/sessions/:sessionId/cancel-nomination', authMiddleware, async (req: Request, res: Response) => {
+router.put('/auctions/sessions/:sessionId/cancel-nomination', authMiddleware, auditAdminAction('AUCTION_NOMINATION_CANCEL'), async (req: Request, res: Response) => {
   try {
     const sessionId = req.params.sessionId as string
     const result = await cancelPendingNomination(sessionId, req.user!.userId)
@@ -630,7 +696,7 @@ router.get('/auctions/sessions/:sessionId/managers-status', authMiddleware, asyn
 // ==================== HEARTBEAT / CONNECTION STATUS ====================
 
 // POST /api/auctions/sessions/:sessionId/heartbeat - Register heartbeat for connection tracking
-router.post('/auctions/sessions/:sessionId/heartbeat', authMiddleware, (req: Request, res: Response) => {
+router.post('/auctions/sessions/:sessionId/heartbeat', authMiddleware, async (req: Request, res: Response) => {
   try {
     const sessionId = req.params.sessionId as string
     const { memberId } = req.body as { memberId?: string }
@@ -640,7 +706,7 @@ router.post('/auctions/sessions/:sessionId/heartbeat', authMiddleware, (req: Req
       return
     }
 
-    registerHeartbeat(sessionId, memberId)
+    await registerHeartbeat(sessionId, memberId)
 
     res.json({ success: true })
   } catch (error) {
@@ -652,7 +718,7 @@ router.post('/auctions/sessions/:sessionId/heartbeat', authMiddleware, (req: Req
 // ==================== TEST UTILITIES (ADMIN ONLY) ====================
 
 // POST /api/auctions/sessions/:sessionId/force-acknowledge-all - Force all managers to acknowledge (TEST)
-router.post('/auctions/sessions/:sessionId/force-acknowledge-all', authMiddleware, async (req: Request, res: Response) => {
+router.post('/auctions/sessions/:sessionId/force-acknowledge-all', authMiddleware, auditAdminAction('AUCTION_FORCE_ACK'), async (req: Request, res: Response) => {
   try {
     const sessionId = req.params.sessionId as string
     const result = await forceAcknowledgeAll(sessionId, req.user!.userId)
@@ -670,7 +736,7 @@ router.post('/auctions/sessions/:sessionId/force-acknowledge-all', authMiddlewar
 })
 
 // POST /api/auctions/sessions/:sessionId/force-all-ready - Force all managers ready (TEST)
-router.post('/auctions/sessions/:sessionId/force-all-ready', authMiddleware, async (req: Request, res: Response) => {
+router.post('/auctions/sessions/:sessionId/force-all-ready', authMiddleware, auditAdminAction('AUCTION_FORCE_READY'), async (req: Request, res: Response) => {
   try {
     const sessionId = req.params.sessionId as string
     const result = await forceAllReady(sessionId, req.user!.userId)
@@ -760,7 +826,7 @@ router.post('/auctions/sessions/:sessionId/bot-confirm-nomination', authMiddlewa
 })
 
 // POST /api/auctions/sessions/:sessionId/complete-all-slots - Complete auction filling all roster slots (TEST)
-router.post('/auctions/sessions/:sessionId/complete-all-slots', authMiddleware, async (req: Request, res: Response) => {
+router.post('/auctions/sessions/:sessionId/complete-all-slots', authMiddleware, auditAdminAction('ROSTER_SLOTS_COMPLETE'), async (req: Request, res: Response) => {
   try {
     const sessionId = req.params.sessionId as string
     const result = await completeAllRosterSlots(sessionId, req.user!.userId)
@@ -825,7 +891,7 @@ router.get('/leagues/:leagueId/appeals', authMiddleware, async (req: Request, re
 })
 
 // PUT /api/appeals/:appealId/resolve - Resolve an appeal (Admin)
-router.put('/appeals/:appealId/resolve', authMiddleware, async (req: Request, res: Response) => {
+router.put('/appeals/:appealId/resolve', authMiddleware, auditAdminAction('APPEAL_RESOLVE'), async (req: Request, res: Response) => {
   try {
     const appealId = req.params.appealId as string
     const { decision, resolutionNote } = req.body as { decision?: 'ACCEPTED' | 'REJECTED'; resolutionNote?: string }
@@ -904,7 +970,7 @@ router.post('/auctions/:auctionId/ready-to-resume', authMiddleware, async (req:
 })
 
 // POST /api/auctions/:auctionId/force-all-appeal-acks - Force all appeal decision acknowledgments (TEST/ADMIN)
-router.post('/auctions/:auctionId/force-all-appeal-acks', authMiddleware, async (req: Request, res: Response) => {
+router.post('/auctions/:auctionId/force-all-appeal-acks', authMiddleware, auditAdminAction('APPEAL_FORCE_ACK'), async (req: Request, res: Response) => {
   try {
     const auctionId = req.params.auctionId as string
     const result = await forceAllAppealDecisionAcks(auctionId, req.user!.userId)
@@ -922,7 +988,7 @@ router.post('/auctions/:auctionId/force-all-appeal-acks', authMiddleware, async
 })
 
 // POST /api/auctions/:auctionId/force-all-ready-resume - Force all ready to resume (TEST/ADMIN)
-router.post('/auctions/:auctionId/force-all-ready-resume', authMiddleware, async (req: Request, res: Response) => {
+router.post('/auctions/:auctionId/force-all-ready-resume', authMiddleware, auditAdminAction('APPEAL_FORCE_READY_RESUME'), async (req: Request, res: Response) => {
   try {
     const auctionId = req.params.auctionId as string
     const result = await forceAllReadyToResume(auctionId, req.user!.userId)
@@ -940,7 +1006,7 @@ router.post('/auctions/:auctionId/force-all-ready-resume', authMiddleware, async
 })
 
 // POST /api/leagues/:leagueId/appeals/simulate - Simulate a random appeal (TEST)
-router.post('/leagues/:leagueId/appeals/simulate', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/appeals/simulate', authMiddleware, auditAdminAction('APPEAL_SIMULATE'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const { auctionId } = req.body as { auctionId?: string }
@@ -980,7 +1046,7 @@ router.post('/auctions/sessions/:sessionId/request-pause', authMiddleware, async
 
 // ==================== ADMIN: PAUSE / RESUME ====================
 
-router.post('/:leagueId/auctions/pause', authMiddleware, async (req: Request, res: Response) => {
+router.post('/:leagueId/auctions/pause', authMiddleware, auditAdminAction('AUCTION_PAUSE'), async (req: Request, res: Response) => {
   try {
     const { leagueId } = req.params
     const result = await pauseAuction(leagueId!, req.user!.userId)
@@ -997,7 +1063,7 @@ router.post('/:leagueId/auctions/pause', authMiddleware, async (req: Request, re
   }
 })
 
-router.post('/:leagueId/auctions/resume', authMiddleware, async (req: Request, res: Response) => {
+router.post('/:leagueId/auctions/resume', authMiddleware, auditAdminAction('AUCTION_RESUME'), async (req: Request, res: Response) => {
   try {
     const { leagueId } = req.params
     const result = await resumeAuction(leagueId!, req.user!.userId)
@@ -1016,7 +1082,7 @@ router.post('/:leagueId/auctions/resume', authMiddleware, async (req: Request, r
 
 // ==================== ADMIN: CANCEL / RECTIFY ====================
 
-router.post('/:leagueId/auctions/cancel', authMiddleware, async (req: Request, res: Response) => {
+router.post('/:leagueId/auctions/cancel', authMiddleware, auditAdminAction('AUCTION_CANCEL'), async (req: Request, res: Response) => {
   try {
     const { auctionId } = req.body as { auctionId: string }
     const result = await cancelActiveAuction(auctionId, req.user!.userId, 'Admin cancellation')
@@ -1033,7 +1099,7 @@ router.post('/:leagueId/auctions/cancel', authMiddleware, async (req: Request, r
   }
 })
 
-router.post('/:leagueId/auctions/rectify', authMiddleware, async (req: Request, res: Response) => {
+router.post('/:leagueId/auctions/rectify', authMiddleware, auditAdminAction('AUCTION_RECTIFY'), async (req: Request, res: Response) => {
   try {
     const { auctionId } = req.body as {
       auctionId: string
@@ -1056,7 +1122,7 @@ router.post('/:leagueId/auctions/rectify', authMiddleware, async (req: Request,
 
 // POST /:leagueId/auctions/:auctionId/reopen - Annulla la chiusura e riapre l'asta (Admin)
 // Mantiene le offerte: l'asta riprende dall'ultima offerta valida.
-router.post('/:leagueId/auctions/:auctionId/reopen', authMiddleware, async (req: Request, res: Response) => {
+router.post('/:leagueId/auctions/:auctionId/reopen', authMiddleware, auditAdminAction('AUCTION_REOPEN'), async (req: Request, res: Response) => {
   try {
     const { leagueId, auctionId } = req.params
     const result = await reopenAuction(leagueId!, auctionId!, req.user!.userId)
@@ -1,20 +1,76 @@
 import { Router } from 'express'
 import type { Request, Response } from 'express'
+import rateLimit from 'express-rate-limit'
 import { prisma } from '@/lib/prisma'
-import { registerSchema, loginSchema } from '../../utils/validation'
+import {
+  registerSchema,
+  loginSchema,
+  twoFactorLoginSchema,
+  twoFactorSetupSchema,
+  twoFactorEnableSchema,
+  twoFactorCodeSchema,
+} from '../../utils/validation'
 import { registerUser, loginUser, getUserById } from '../../services/auth.service'
-import { generateTokens, verifyRefreshToken, hashToken } from '../../utils/jwt'
-import type { RefreshTokenPayload } from '../../utils/jwt'
+import {
+  createTrustedDevice,
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  isTwoFactorSetupPending,
+  regenerateRecoveryCodes,
+  revokeTrustedDevices,
+  setupTwoFactor,
+  verifyTwoFactorCode,
+  TRUSTED_DEVICE_TTL_MS,
+} from '../../services/two-factor.service'
+import {
+  isNewDevice,
+  listActiveSessions,
+  normalizeUserAgent,
+  revokeOtherSessions,
+  revokeSession,
+  sendSecurityAlert,
+} from '../../services/session.service'
+import type { RefreshTokenRevokeReason, SessionClient } from '../../services/session.service'
+import {
+  generateTokens,
+  verifyAccessToken,
+  verifyRefreshToken,
+  verifyTwoFactorChallengeToken,
+  hashToken,
+} from '../../utils/jwt'
+import type { RefreshTokenPayload, TokenPayload } from '../../utils/jwt'
 import { authMiddleware } from '../middleware/auth'
 import { ForgotPasswordUseCase } from '../../modules/identity/application/use-cases/forgot-password.use-case'
 import { ResetPasswordUseCase } from '../../modules/identity/application/use-cases/reset-password.use-case'
+import { SendEmailVerificationUseCase } from '../../modules/identity/application/use-cases/send-email-verification.use-case'
+import { VerifyEmailUseCase } from '../../modules/identity/application/use-cases/verify-email.use-case'
 import { UserPrismaRepository } from '../../modules/identity/infrastructure/repositories/user.prisma-repository'
 import { BcryptPasswordService } from '../../modules/identity/infrastructure/services/bcrypt-password.service'
 import { createEmailService } from '../../modules/identity/infrastructure/services/email.factory'
 import { verifyTurnstile } from '../middleware/turnstile'
+import { getRequestContext } from '@/shared/infrastructure/http'
 
 const router = Router()
 
+// Rate limit for verification email resend: 3 requests per hour per IP
+const verificationResendLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 3,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { success: false, message: 'Hai richiesto troppe email di verifica. Riprova tra un\'ora.' },
+})
+
+// Rate limit for two-factor codes: 10 attempts per 15 minutes per IP
+const twoFactorCodeLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { success: false, message: 'Troppi codici errati. Riprova tra 15 minuti.' },
+})
+
 const REFRESH_COOKIE_OPTIONS = {
   httpOnly: true,
   secure: process.env.NODE_ENV === 'production',
@@ -22,27 +78,112 @@ const REFRESH_COOKIE_OPTIONS = {
   maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
 }
 
+const TRUSTED_DEVICE_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict' as const,
+  maxAge: TRUSTED_DEVICE_TTL_MS,
+}
+
+/**
+ * Device and IP of the current request (set by the auditContext middleware)
+ */
+function requestClient(): SessionClient {
+  const context = getRequestContext()
+  return {
+    userAgent: normalizeUserAgent(context?.userAgent),
+    ipAddress: context?.ipAddress ?? null,
+  }
+}
+
+/**
+ * Token family of the refresh token cookie, i.e. the caller's own session
+ */
+function currentFamilyId(req: Request): string | undefined {
+  const refreshToken = req.cookies?.refreshToken as string | undefined
+  return refreshToken ? verifyRefreshToken(refreshToken)?.familyId : undefined
+}
+
 /**
- * Store a refresh token hash in the database
+ * Store a refresh token hash in the database, with the session it belongs to
  */
-async function storeRefreshToken(rawToken: string, payload: RefreshTokenPayload) {
+async function storeRefreshToken(
+  rawToken: string,
+  payload: RefreshTokenPayload,
+  client: SessionClient,
+  sessionStartedAt?: Date
+) {
   await prisma.refreshToken.create({
     data: {
       userId: payload.userId,
       tokenHash: hashToken(rawToken),
       familyId: payload.familyId,
       expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+      sessionStartedAt,
     },
   })
 }
 
+/**
+ * Store the first refresh token of a login and warn the user by email when
+ * the device was never seen before
+ */
+async function recordLogin(rawToken: string, payload: RefreshTokenPayload) {
+  const client = requestClient()
+  const newDevice = await isNewDevice(payload.userId, client.userAgent)
+
+  await storeRefreshToken(rawToken, payload, client)
+
+  if (newDevice) {
+    await sendSecurityAlert(payload.userId, 'NEW_DEVICE', client)
+  }
+}
+
+/**
+ * Issue a new token family: store the refresh token, set its cookie and return the access token
+ */
+async function startSession(res: Response, payload: TokenPayload): Promise<string> {
+  const tokens = generateTokens({
+    userId: payload.userId,
+    email: payload.email,
+    username: payload.username,
+  })
+
+  // Store refresh token in DB for rotation tracking
+  const refreshPayload = verifyRefreshToken(tokens.refreshToken)
+  if (refreshPayload) {
+    await recordLogin(tokens.refreshToken, refreshPayload)
+  }
+
+  // Set refresh token as httpOnly cookie
+  res.cookie('refreshToken', tokens.refreshToken, REFRESH_COOKIE_OPTIONS)
+
+  return tokens.accessToken
+}
+
+/**
+ * User configuring two-factor: logged in (Bearer token) or forced to during login (SETUP challenge)
+ */
+function resolveTwoFactorSetupUser(req: Request, challengeToken?: string): { payload: TokenPayload; duringLogin: boolean } | null {
+  if (challengeToken) {
+    const challenge = verifyTwoFactorChallengeToken(challengeToken)
+    return challenge?.purpose === 'SETUP' ? { payload: challenge, duringLogin: true } : null
+  }
+
+  const authHeader = req.headers.authorization
+  const payload = authHeader?.startsWith('Bearer ') ? verifyAccessToken(authHeader.substring(7)) : null
+  return payload ? { payload, duringLogin: false } : null
+}
+
 /**
  * Revoke all tokens in a family (token theft detection)
  */
-async function revokeTokenFamily(familyId: string) {
+async function revokeTokenFamily(familyId: string, reason?: RefreshTokenRevokeReason) {
   await prisma.refreshToken.updateMany({
     where: { familyId, isRevoked: false },
-    data: { isRevoked: true },
+    data: { isRevoked: true, revokedReason: reason },
   })
 }
 
@@ -68,6 +209,16 @@ router.post('/register', verifyTurnstile, async (req: Request, res: Response) =>
       return
     }
 
+    // Invio email di verifica: un errore non blocca la registrazione (si può richiedere di nuovo dal profilo)
+    if (result.user) {
+      try {
+        const sendVerificationUseCase = new SendEmailVerificationUseCase(new UserPrismaRepository(), createEmailService())
+        await sendVerificationUseCase.execute({ userId: result.user.id })
+      } catch (err) {
+        console.error('Send verification email error:', err)
+      }
+    }
+
     res.status(201).json(result)
   } catch (error) {
     console.error('Register error:', error)
@@ -89,7 +240,21 @@ router.post('/login', async (req: Request, res: Response) => {
       return
     }
 
-    const result = await loginUser(validation.data)
+    const result = await loginUser(validation.data, {
+      trustedDeviceToken: req.cookies?.trustedDevice as string | undefined,
+    })
+
+    // Password corretta, manca il secondo fattore: il client prosegue con il challenge token
+    if (result.success && result.twoFactor) {
+      res.json({
+        success: true,
+        data: {
+          twoFactorRequired: result.twoFactor.step,
+          challengeToken: result.twoFactor.challengeToken,
+        },
+      })
+      return
+    }
 
     if (!result.success || !result.tokens) {
       res.status(401).json({ success: false, message: result.message || 'Credenziali non valide' })
@@ -99,7 +264,7 @@ router.post('/login', async (req: Request, res: Response) => {
     // Store refresh token in DB for rotation tracking
     const refreshPayload = verifyRefreshToken(result.tokens.refreshToken)
     if (refreshPayload) {
-      await storeRefreshToken(result.tokens.refreshToken, refreshPayload)
+      await recordLogin(result.tokens.refreshToken, refreshPayload)
     }
 
     // Set refresh token as httpOnly cookie
@@ -118,6 +283,263 @@ router.post('/login', async (req: Request, res: Response) => {
   }
 })
 
+// POST /api/auth/login/two-factor
+router.post('/login/two-factor', twoFactorCodeLimiter, async (req: Request, res: Response) => {
+  try {
+    const validation = twoFactorLoginSchema.safeParse(req.body)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const { challengeToken, code, trustDevice } = validation.data
+    const challenge = verifyTwoFactorChallengeToken(challengeToken)
+    if (challenge?.purpose !== 'VERIFY') {
+      res.status(401).json({ success: false, message: 'Sessione di accesso scaduta. Effettua nuovamente il login.' })
+      return
+    }
+
+    const verification = await verifyTwoFactorCode(challenge.userId, code)
+    if (!verification.success) {
+      res.status(401).json({ success: false, message: verification.message })
+      return
+    }
+
+    if (trustDevice) {
+      const deviceToken = await createTrustedDevice(challenge.userId, req.get('user-agent'))
+      res.cookie('trustedDevice', deviceToken, TRUSTED_DEVICE_COOKIE_OPTIONS)
+    }
+
+    const accessToken = await startSession(res, challenge)
+
+    res.json({
+      success: true,
+      data: {
+        user: { id: challenge.userId, email: challenge.email, username: challenge.username },
+        accessToken,
+        ...(verification.data as { recoveryCodesRemaining: number }),
+      },
+    })
+  } catch (error) {
+    console.error('Two-factor login error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// GET /api/auth/two-factor
+router.get('/two-factor', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const result = await getTwoFactorStatus(req.user!.userId)
+
+    if (!result.success) {
+      res.status(404).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Get two-factor status error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// POST /api/auth/two-factor/setup
+router.post('/two-factor/setup', async (req: Request, res: Response) => {
+  try {
+    const validation = twoFactorSetupSchema.safeParse(req.body ?? {})
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const setupUser = resolveTwoFactorSetupUser(req, validation.data.challengeToken)
+    if (!setupUser) {
+      res.status(401).json({ success: false, message: 'Sessione scaduta. Effettua nuovamente il login.' })
+      return
+    }
+
+    const result = await setupTwoFactor(setupUser.payload.userId)
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Two-factor setup error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// POST /api/auth/two-factor/enable
+router.post('/two-factor/enable', twoFactorCodeLimiter, async (req: Request, res: Response) => {
+  try {
+    const validation = twoFactorEnableSchema.safeParse(req.body)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const setupUser = resolveTwoFactorSetupUser(req, validation.data.challengeToken)
+    if (!setupUser) {
+      res.status(401).json({ success: false, message: 'Sessione scaduta. Effettua nuovamente il login.' })
+      return
+    }
+
+    const result = await enableTwoFactor(setupUser.payload.userId, validation.data.code)
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    // Configurazione obbligatoria al login: il codice appena verificato completa l'accesso
+    if (setupUser.duringLogin) {
+      const { userId, email, username } = setupUser.payload
+      const accessToken = await startSession(res, setupUser.payload)
+      res.json({
+        ...result,
+        data: {
+          ...(result.data as { recoveryCodes: string[] }),
+          user: { id: userId, email, username },
+          accessToken,
+        },
+      })
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Two-factor enable error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// POST /api/auth/two-factor/disable
+router.post('/two-factor/disable', twoFactorCodeLimiter, authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const validation = twoFactorCodeSchema.safeParse(req.body)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await disableTwoFactor(req.user!.userId, validation.data.code)
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.clearCookie('trustedDevice')
+    res.json(result)
+  } catch (error) {
+    console.error('Two-factor disable error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// POST /api/auth/two-factor/recovery-codes
+router.post('/two-factor/recovery-codes', twoFactorCodeLimiter, authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const validation = twoFactorCodeSchema.safeParse(req.body)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await regenerateRecoveryCodes(req.user!.userId, validation.data.code)
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Two-factor recovery codes error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// DELETE /api/auth/two-factor/trusted-devices
+router.delete('/two-factor/trusted-devices', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const result = await revokeTrustedDevices(req.user!.userId)
+    res.clearCookie('trustedDevice')
+    res.json(result)
+  } catch (error) {
+    console.error('Revoke trusted devices error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// GET /api/auth/sessions
+router.get('/sessions', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const result = await listActiveSessions(req.user!.userId, currentFamilyId(req))
+    res.json(result)
+  } catch (error) {
+    console.error('Get sessions error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// DELETE /api/auth/sessions
+router.delete('/sessions', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const result = await revokeOtherSessions(req.user!.userId, currentFamilyId(req))
+    res.json(result)
+  } catch (error) {
+    console.error('Revoke other sessions error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// DELETE /api/auth/sessions/:sessionId
+router.delete('/sessions/:sessionId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.params.sessionId as string
+    const result = await revokeSession(req.user!.userId, sessionId, currentFamilyId(req))
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Revoke session error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
 // POST /api/auth/logout
 router.post('/logout', async (req: Request, res: Response) => {
   try {
@@ -127,7 +549,7 @@ router.post('/logout', async (req: Request, res: Response) => {
       const tokenHash = hashToken(refreshToken)
       await prisma.refreshToken.updateMany({
         where: { tokenHash },
-        data: { isRevoked: true },
+        data: { isRevoked: true, revokedReason: 'LOGOUT' satisfies RefreshTokenRevokeReason },
       })
     }
     res.clearCookie('refreshToken')
@@ -163,24 +585,45 @@ router.post('/refresh', async (req: Request, res: Response) => {
       where: { tokenHash },
     })
 
-    if (!storedToken) {
-      // Token not in DB - could be pre-rotation legacy token, allow through
-      // but store the new one going forward
-    } else if (storedToken.isRevoked) {
+    if (storedToken?.isRevoked && storedToken.revokedReason) {
+      // Sessione chiusa esplicitamente (revoca dall'utente, logout): non è un riuso
+      res.clearCookie('refreshToken')
+      res.status(401).json({ success: false, message: 'Sessione terminata. Effettua nuovamente il login.' })
+      return
+    }
+
+    if (storedToken?.isRevoked) {
       // REUSE DETECTED: This token was already used!
       // Revoke the entire token family (potential token theft)
       console.warn(`[SECURITY] Refresh token reuse detected for user ${payload.userId}, family ${payload.familyId}`)
       await revokeTokenFamily(payload.familyId)
+      await sendSecurityAlert(payload.userId, 'TOKEN_REUSE', requestClient())
       res.clearCookie('refreshToken')
       res.status(401).json({ success: false, message: 'Sessione invalidata per sicurezza. Effettua nuovamente il login.' })
       return
-    } else {
+    }
+
+    // 2FA obbligatoria ma non configurata (anche per i token legacy non in DB):
+    // la sessione non viene rinnovata, il login passa dalla configurazione
+    if (await isTwoFactorSetupPending(payload.userId)) {
+      await revokeTokenFamily(payload.familyId, 'TWO_FACTOR_SETUP')
+      res.clearCookie('refreshToken')
+      res.status(401).json({
+        success: false,
+        message: 'Autenticazione a due fattori obbligatoria: effettua nuovamente il login per configurarla.',
+      })
+      return
+    }
+
+    if (storedToken) {
       // Mark the old token as revoked (normal rotation)
       await prisma.refreshToken.update({
         where: { id: storedToken.id },
         data: { isRevoked: true },
       })
     }
+    // Token not in DB - could be pre-rotation legacy token, allow through
+    // but store the new one going forward
 
     // Generate new tokens (same family)
     const tokens = generateTokens({
@@ -189,10 +632,16 @@ router.post('/refresh', async (req: Request, res: Response) => {
       username: payload.username,
     }, payload.familyId)
 
-    // Store new refresh token
+    // Store new refresh token: the session keeps its device and start, the IP is the latest one
     const newPayload = verifyRefreshToken(tokens.refreshToken)
     if (newPayload) {
-      await storeRefreshToken(tokens.refreshToken, newPayload)
+      const client = requestClient()
+      await storeRefreshToken(
+        tokens.refreshToken,
+        newPayload,
+        { userAgent: storedToken?.userAgent ?? client.userAgent, ipAddress: client.ipAddress },
+        storedToken?.sessionStartedAt
+      )
     }
 
     // Update refresh token cookie
@@ -276,4 +725,57 @@ router.post('/reset-password', async (req: Request, res: Response) => {
   }
 })
 
+// POST /api/auth/verify-email
+router.post('/verify-email', async (req: Request, res: Response) => {
+  try {
+    const userRepository = new UserPrismaRepository()
+    const verifyEmailUseCase = new VerifyEmailUseCase(userRepository)
+
+    const result = await verifyEmailUseCase.execute(req.body)
+
+    if (result.isFailure) {
+      res.status(result.error.statusCode).json({
+        success: false,
+        error: result.error.message
+      })
+      return
+    }
+
+    res.json({
+      success: true,
+      message: result.value.message
+    })
+  } catch (error) {
+    console.error('Verify email error:', error)
+    res.status(500).json({ success: false, error: 'Errore durante la verifica dell\'email' })
+  }
+})
+
+// POST /api/auth/resend-verification
+router.post('/resend-verification', verificationResendLimiter, authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userRepository = new UserPrismaRepository()
+    const emailService = createEmailService()
+    const sendVerificationUseCase = new SendEmailVerificationUseCase(userRepository, emailService)
+
+    const result = await sendVerificationUseCase.execute({ userId: req.user!.userId })
+
+    if (result.isFailure) {
+      res.status(result.error.statusCode).json({
+        success: false,
+        message: result.error.message
+      })
+      return
+    }
+
+    res.json({
+      success: true,
+      message: result.value.message
+    })
+  } catch (error) {
+    console.error('Resend verification error:', error)
+    res.status(500).json({ success: false, message: 'Errore durante l\'invio dell\'email di verifica' })
+  }
+})
+
 export default router
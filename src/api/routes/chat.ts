@@ -0,0 +1,126 @@
+/**
+ * chat.ts - Session Chat API Routes
+ *
+ * Endpoint per la chat live della sessione di mercato e la moderazione admin.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { Router } from 'express'
+import type { Request, Response } from 'express'
+import {
+  getChatMessages,
+  sendChatMessage,
+  deleteChatMessage,
+  setChatMute
+} from '../../services/chat.service'
+import { chatMessageSchema, chatMuteSchema } from '../../utils/validation'
+import { authMiddleware } from '../middleware/auth'
+
+const router = Router()
+
+// ==================== CHAT ====================
+
+// GET /api/auctions/sessions/:sessionId/chat - Get chat history (cursor pagination)
+router.get('/auctions/sessions/:sessionId/chat', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.params.sessionId as string
+    const cursor = typeof req.query.cursor === 'string' ? req.query.cursor : undefined
+    const limit = typeof req.query.limit === 'string' ? parseInt(req.query.limit, 10) : undefined
+
+    const result = await getChatMessages(sessionId, req.user!.userId, {
+      cursor,
+      limit: limit && !isNaN(limit) ? limit : undefined,
+    })
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Get chat messages error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// POST /api/auctions/sessions/:sessionId/chat - Send a chat message
+router.post('/auctions/sessions/:sessionId/chat', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.params.sessionId as string
+    const validation = chatMessageSchema.safeParse(req.body)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await sendChatMessage(sessionId, req.user!.userId, validation.data.content)
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.status(201).json(result)
+  } catch (error) {
+    console.error('Send chat message error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// POST /api/auctions/sessions/:sessionId/chat/mute - Mute/unmute a manager (admin only)
+router.post('/auctions/sessions/:sessionId/chat/mute', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.params.sessionId as string
+    const validation = chatMuteSchema.safeParse(req.body)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const { memberId, muted } = validation.data
+    const result = await setChatMute(sessionId, req.user!.userId, memberId, muted)
+
+    if (!result.success) {
+      res.status(result.message === 'Non autorizzato' ? 403 : 400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Set chat mute error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// DELETE /api/auctions/sessions/:sessionId/chat/:messageId - Delete a message (admin only)
+router.delete('/auctions/sessions/:sessionId/chat/:messageId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.params.sessionId as string
+    const messageId = req.params.messageId as string
+    const result = await deleteChatMessage(sessionId, messageId, req.user!.userId)
+
+    if (!result.success) {
+      res.status(result.message === 'Non autorizzato' ? 403 : 400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Delete chat message error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+export default router
@@ -0,0 +1,93 @@
+/**
+ * compensations.ts - Compensation Journal API Routes
+ *
+ * Journal delle operazioni compensative (admin di lega): elenco delle
+ * operazioni registrate, anteprima del rollback e applicazione.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { Router } from 'express'
+import type { Request, Response } from 'express'
+import {
+  getCompensationJournal,
+  previewCompensation,
+  applyCompensation,
+} from '../../services/compensation.service'
+import { compensationRollbackSchema } from '../../utils/validation'
+import { authMiddleware } from '../middleware/auth'
+import { auditAdminAction } from '../middleware/audit'
+
+const router = Router()
+
+// GET /api/leagues/:leagueId/admin/journal - Operazioni registrate (Admin)
+router.get('/leagues/:leagueId/admin/journal', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const { limit } = req.query as { limit?: string }
+    const result = await getCompensationJournal(leagueId, req.user!.userId, {
+      limit: limit ? parseInt(limit) : undefined,
+    })
+
+    if (!result.success) {
+      res.status(403).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Get compensation journal error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// GET /api/leagues/:leagueId/admin/journal/:entryId/preview - Anteprima del rollback (Admin)
+router.get('/leagues/:leagueId/admin/journal/:entryId/preview', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const entryId = req.params.entryId as string
+    const result = await previewCompensation(leagueId, entryId, req.user!.userId)
+
+    if (!result.success) {
+      res.status(result.message === 'Non autorizzato' ? 403 : 404).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Preview compensation error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// POST /api/leagues/:leagueId/admin/journal/:entryId/rollback - Applica il rollback (Admin)
+router.post('/leagues/:leagueId/admin/journal/:entryId/rollback', authMiddleware, auditAdminAction('COMPENSATION_APPLIED'), async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const entryId = req.params.entryId as string
+    const validation = compensationRollbackSchema.safeParse(req.body)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await applyCompensation(leagueId, entryId, req.user!.userId, validation.data.reason)
+
+    if (!result.success) {
+      res.status(result.message === 'Non autorizzato' ? 403 : 400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Apply compensation error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+export default router
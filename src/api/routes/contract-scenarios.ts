@@ -0,0 +1,123 @@
+/**
+ * contract-scenarios.ts - Contract Simulator API Routes
+ *
+ * Simulatore contratti "what-if": dati di partenza con gli scenari salvati,
+ * proiezione di uno scenario e salvataggio/eliminazione degli scenari.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { Router } from 'express'
+import type { Request, Response } from 'express'
+import {
+  getContractSimulator,
+  simulateContractScenario,
+  saveContractScenario,
+  deleteContractScenario,
+} from '../../services/contract-scenario.service'
+import { contractScenarioSchema, saveContractScenarioSchema } from '../../utils/validation'
+import { authMiddleware } from '../middleware/auth'
+
+const router = Router()
+
+// GET /api/leagues/:leagueId/contract-simulator - Contratti, budget, entrate attese e scenari salvati
+router.get('/leagues/:leagueId/contract-simulator', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const result = await getContractSimulator(leagueId, req.user!.userId)
+
+    if (!result.success) {
+      res.status(403).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Get contract simulator error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// POST /api/leagues/:leagueId/contract-simulator/simulate - Proiezione di uno scenario (non salvato)
+router.post('/leagues/:leagueId/contract-simulator/simulate', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const validation = contractScenarioSchema.safeParse(req.body)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await simulateContractScenario(leagueId, req.user!.userId, validation.data)
+
+    if (!result.success) {
+      res.status(403).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Simulate contract scenario error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// POST /api/leagues/:leagueId/contract-scenarios - Salva un nuovo scenario
+// PUT /api/leagues/:leagueId/contract-scenarios/:scenarioId - Aggiorna uno scenario
+async function handleSaveScenario(req: Request, res: Response) {
+  try {
+    const leagueId = req.params.leagueId as string
+    const scenarioId = req.params.scenarioId as string | undefined
+    const validation = saveContractScenarioSchema.safeParse(req.body)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await saveContractScenario(leagueId, req.user!.userId, validation.data, scenarioId)
+
+    if (!result.success) {
+      res.status(result.message === 'Non sei membro di questa lega' ? 403 : 400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Save contract scenario error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+}
+
+router.post('/leagues/:leagueId/contract-scenarios', authMiddleware, handleSaveScenario)
+router.put('/leagues/:leagueId/contract-scenarios/:scenarioId', authMiddleware, handleSaveScenario)
+
+// DELETE /api/leagues/:leagueId/contract-scenarios/:scenarioId - Elimina uno scenario
+router.delete('/leagues/:leagueId/contract-scenarios/:scenarioId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const scenarioId = req.params.scenarioId as string
+    const result = await deleteContractScenario(leagueId, req.user!.userId, scenarioId)
+
+    if (!result.success) {
+      res.status(result.message === 'Non sei membro di questa lega' ? 403 : 404).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Delete contract scenario error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+export default router
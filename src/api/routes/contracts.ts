@@ -23,6 +23,7 @@ import type { ContractExportData } from '../../services/excel.service';
 import { generateContractsExcel } from '../../services/excel.service'
 import { createEmailService } from '../../modules/identity/infrastructure/services/email.factory'
 import { prisma } from '@/lib/prisma'
+import { resolveContractRuleset, type ContractRuleset } from '../../utils/contract-rules'
 
 const router = Router()
 
@@ -344,18 +345,20 @@ async function generateAndSendReceipt(leagueId: string, memberId: string): Promi
       where: { id: memberId },
       include: {
         user: { select: { id: true } },
-        league: { select: { name: true } },
+        league: { select: { name: true, contractRuleset: true } },
         roster: {
           where: { status: 'ACTIVE' },
           include: {
             player: true,
             contract: true,
+            indemnityDecisions: { select: { decision: true }, orderBy: { createdAt: 'desc' }, take: 1 },
           },
         },
       },
     })
 
     if (member) {
+      const rules = resolveContractRuleset(member.league.contractRuleset)
       const excelData: ContractExportData = {
         teamName: data.teamName,
         leagueName: data.leagueName,
@@ -365,7 +368,7 @@ async function generateAndSendReceipt(leagueId: string, memberId: string): Promi
           .map(r => {
             const c = r.contract!
             const isSpalmaActive = c.duration === 1 && c.draftDuration !== null && c.draftDuration > 1
-            const rescissionClause = calculateRescissionClause(c.salary, c.duration)
+            const rescissionClause = calculateRescissionClause(c.salary, c.duration, rules)
 
             return {
               playerName: r.player.name,
@@ -377,13 +380,13 @@ async function generateAndSendReceipt(leagueId: string, memberId: string): Promi
               draftSalary: c.draftSalary,
               draftDuration: c.draftDuration,
               draftClause: c.draftSalary && c.draftDuration
-                ? calculateRescissionClause(c.draftSalary, c.draftDuration)
+                ? calculateRescissionClause(c.draftSalary, c.draftDuration, rules)
                 : null,
               isReleased: c.draftReleased,
               isSpalmaActive,
               isExitedPlayer: r.player.listStatus === 'NOT_IN_LIST' && r.player.exitReason != null,
               exitReason: r.player.exitReason,
-              exitDecision: c.draftExitDecision,
+              exitDecision: r.indemnityDecisions[0]?.decision ?? null,
               indemnityAmount: 0, // Would need to calculate from prizes
             }
           }),
@@ -491,7 +494,7 @@ router.get('/leagues/:leagueId/contracts/export-excel', authMiddleware, async (r
 
     // Transform data for Excel export
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const data = result.data as { contracts: any[]; pendingContracts: any[]; memberBudget: number }
+    const data = result.data as { contracts: any[]; pendingContracts: any[]; memberBudget: number; rules: ContractRuleset }
     const excelData: ContractExportData = {
       teamName: member.teamName || member.user.username,
       leagueName: member.league.name,
@@ -523,7 +526,7 @@ router.get('/leagues/:leagueId/contracts/export-excel', authMiddleware, async (r
           draftSalary: c.draftSalary,
           draftDuration: c.draftDuration,
           draftClause: c.draftSalary && c.draftDuration
-            ? calculateRescissionClause(c.draftSalary, c.draftDuration)
+            ? calculateRescissionClause(c.draftSalary, c.draftDuration, data.rules)
             : null,
           isReleased: c.draftReleased,
           isSpalmaActive,
@@ -46,4 +46,120 @@ router.get('/cron/sync-api-football', async (req: Request, res: Response) => {
   }
 })
 
+/**
+ * GET /api/cron/expire-trade-offers
+ *
+ * Vercel Cron endpoint for the trade offer lifecycle sweeper.
+ * Expires stale offers, cancels offers of sessions outside the trade phase
+ * and invalidates offers whose players changed roster.
+ * Protected by CRON_SECRET header verification.
+ */
+router.get('/cron/expire-trade-offers', async (req: Request, res: Response) => {
+  try {
+    // Verify CRON_SECRET in production
+    const cronSecret = process.env.CRON_SECRET
+    if (cronSecret) {
+      const authHeader = req.headers['authorization']
+      if (authHeader !== `Bearer ${cronSecret}`) {
+        res.status(401).json({ success: false, message: 'Unauthorized' })
+        return
+      }
+    }
+
+    const { sweepTradeOffers } = await import('../../services/trade-lifecycle.service')
+
+    const result = await sweepTradeOffers()
+
+    res.json({
+      success: result.success,
+      message: result.message,
+      data: result.data,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('[CRON] expire-trade-offers error:', error)
+    res.status(500).json({
+      success: false,
+      message: `Errore cron: ${(error as Error).message}`,
+    })
+  }
+})
+
+/**
+ * GET /api/cron/sync-feedback-issues
+ *
+ * Vercel Cron endpoint for the feedback issue tracker bridge.
+ * Syncs the state of linked issues back into the user feedback.
+ * Protected by CRON_SECRET header verification.
+ */
+router.get('/cron/sync-feedback-issues', async (req: Request, res: Response) => {
+  try {
+    // Verify CRON_SECRET in production
+    const cronSecret = process.env.CRON_SECRET
+    if (cronSecret) {
+      const authHeader = req.headers['authorization']
+      if (authHeader !== `Bearer ${cronSecret}`) {
+        res.status(401).json({ success: false, message: 'Unauthorized' })
+        return
+      }
+    }
+
+    const { syncFeedbackIssues } = await import('../../services/feedback.service')
+
+    const result = await syncFeedbackIssues()
+
+    res.json({
+      success: result.success,
+      message: result.message,
+      data: result.data,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('[CRON] sync-feedback-issues error:', error)
+    res.status(500).json({
+      success: false,
+      message: `Errore cron: ${(error as Error).message}`,
+    })
+  }
+})
+
+/**
+ * GET /api/cron/indemnity-deadlines
+ *
+ * Vercel Cron endpoint for the indemnity phase deadlines.
+ * Reminds managers with missing KEEP/RELEASE decisions before the deadline
+ * and moves expired phases to admin review.
+ * Protected by CRON_SECRET header verification.
+ */
+router.get('/cron/indemnity-deadlines', async (req: Request, res: Response) => {
+  try {
+    // Verify CRON_SECRET in production
+    const cronSecret = process.env.CRON_SECRET
+    if (cronSecret) {
+      const authHeader = req.headers['authorization']
+      if (authHeader !== `Bearer ${cronSecret}`) {
+        res.status(401).json({ success: false, message: 'Unauthorized' })
+        return
+      }
+    }
+
+    const { processIndemnityDeadlines } = await import('../../services/indemnity-phase.service')
+
+    const result = await processIndemnityDeadlines()
+
+    res.json({
+      success: result.success,
+      message: result.message,
+      data: result.data,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('[CRON] indemnity-deadlines error:', error)
+    res.status(500).json({
+      success: false,
+      message: `Errore cron: ${(error as Error).message}`,
+    })
+  }
+})
+
 export default router
@@ -13,6 +13,8 @@ import {
   markNotificationRead,
   markAllNotificationsRead,
   getFeedbackStats,
+  promoteFeedbackToIssue,
+  syncFeedbackIssue,
 } from '../../services/feedback.service'
 import { authMiddleware } from '../middleware/auth'
 
@@ -206,6 +208,46 @@ router.post('/:id/response', authMiddleware, async (req: Request, res: Response)
   }
 })
 
+// POST /api/feedback/:id/issue - Promote feedback to an issue on the tracker (superadmin only)
+router.post('/:id/issue', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const feedbackId = req.params.id
+    const result = await promoteFeedbackToIssue(feedbackId!, req.user!.userId)
+
+    if (!result.success) {
+      const statusCode = result.message === 'Non autorizzato' ? 403 :
+                         result.message === 'Segnalazione non trovata' ? 404 : 400
+      res.status(statusCode).json(result)
+      return
+    }
+
+    res.status(201).json(result)
+  } catch (error) {
+    console.error('Promote feedback to issue error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// POST /api/feedback/:id/issue/sync - Sync issue state back into the feedback (superadmin only)
+router.post('/:id/issue/sync', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const feedbackId = req.params.id
+    const result = await syncFeedbackIssue(feedbackId!, req.user!.userId)
+
+    if (!result.success) {
+      const statusCode = result.message === 'Non autorizzato' ? 403 :
+                         result.message === 'Segnalazione non trovata' ? 404 : 400
+      res.status(statusCode).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Sync feedback issue error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
 // ==================== NOTIFICATION ENDPOINTS ====================
 
 // GET /api/feedback/notifications - Get unread feedback notifications
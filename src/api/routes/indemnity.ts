@@ -0,0 +1,203 @@
+/**
+ * indemnity.ts - Indemnity Phase API Routes
+ *
+ * Fase indennizzi dei giocatori usciti (RETROCESSO/ESTERO): riepilogo,
+ * decisioni KEEP/RELEASE dei manager, scadenza, revisione e consolidamento admin.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { Router } from 'express'
+import type { Request, Response } from 'express'
+import {
+  getIndemnityPhase,
+  submitIndemnityDecisions,
+  setIndemnityDeadline,
+  closeIndemnityDecisions,
+  reopenIndemnityDecisions,
+  reviewIndemnityDecision,
+  consolidateIndemnityPhase,
+} from '../../services/indemnity-phase.service'
+import { indemnityDecisionsSchema, indemnityDeadlineSchema, indemnityReviewSchema } from '../../utils/validation'
+import { authMiddleware } from '../middleware/auth'
+import { auditAdminAction } from '../middleware/audit'
+
+const router = Router()
+
+function adminStatus(message?: string): number {
+  return message === 'Non autorizzato' ? 403 : 400
+}
+
+// GET /api/sessions/:sessionId/indemnity - Riepilogo della fase indennizzi
+router.get('/sessions/:sessionId/indemnity', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.params.sessionId as string
+    const result = await getIndemnityPhase(sessionId, req.user!.userId)
+
+    if (!result.success) {
+      res.status(result.message === 'Non sei membro di questa lega' ? 403 : 404).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Get indemnity phase error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// PUT /api/sessions/:sessionId/indemnity/decisions - Decisioni KEEP/RELEASE del manager
+router.put('/sessions/:sessionId/indemnity/decisions', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.params.sessionId as string
+    const validation = indemnityDecisionsSchema.safeParse(req.body)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await submitIndemnityDecisions(sessionId, req.user!.userId, validation.data.decisions)
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Submit indemnity decisions error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// PUT /api/sessions/:sessionId/indemnity/deadline - Scadenza delle decisioni (Admin)
+router.put('/sessions/:sessionId/indemnity/deadline', authMiddleware, auditAdminAction('INDEMNITY_DEADLINE_SET'), async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.params.sessionId as string
+    const validation = indemnityDeadlineSchema.safeParse(req.body)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await setIndemnityDeadline(sessionId, req.user!.userId, validation.data.deadline)
+
+    if (!result.success) {
+      res.status(adminStatus(result.message)).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Set indemnity deadline error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// POST /api/sessions/:sessionId/indemnity/close - Chiude le decisioni e passa in revisione (Admin)
+router.post('/sessions/:sessionId/indemnity/close', authMiddleware, auditAdminAction('INDEMNITY_DECISIONS_CLOSED'), async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.params.sessionId as string
+    const result = await closeIndemnityDecisions(sessionId, req.user!.userId)
+
+    if (!result.success) {
+      res.status(adminStatus(result.message)).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Close indemnity decisions error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// POST /api/sessions/:sessionId/indemnity/reopen - Riapre le decisioni dalla revisione (Admin)
+router.post('/sessions/:sessionId/indemnity/reopen', authMiddleware, auditAdminAction('INDEMNITY_DECISIONS_REOPENED'), async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.params.sessionId as string
+    const hasDeadline = req.body && Object.keys(req.body as object).length > 0
+    const validation = indemnityDeadlineSchema.optional().safeParse(hasDeadline ? req.body : undefined)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await reopenIndemnityDecisions(sessionId, req.user!.userId, validation.data?.deadline ?? null)
+
+    if (!result.success) {
+      res.status(adminStatus(result.message)).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Reopen indemnity decisions error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// PUT /api/sessions/:sessionId/indemnity/decisions/:decisionId - Correzione admin in revisione (Admin)
+router.put('/sessions/:sessionId/indemnity/decisions/:decisionId', authMiddleware, auditAdminAction('INDEMNITY_DECISION_REVIEWED'), async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.params.sessionId as string
+    const decisionId = req.params.decisionId as string
+    const validation = indemnityReviewSchema.safeParse(req.body)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await reviewIndemnityDecision(sessionId, req.user!.userId, decisionId, validation.data.decision)
+
+    if (!result.success) {
+      res.status(adminStatus(result.message)).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Review indemnity decision error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// POST /api/sessions/:sessionId/indemnity/consolidate - Applica rilasci e indennizzi (Admin)
+router.post('/sessions/:sessionId/indemnity/consolidate', authMiddleware, auditAdminAction('INDEMNITIES_CONSOLIDATED'), async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.params.sessionId as string
+    const result = await consolidateIndemnityPhase(sessionId, req.user!.userId)
+
+    if (!result.success) {
+      res.status(adminStatus(result.message)).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Consolidate indemnity phase error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+export default router
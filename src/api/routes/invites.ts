@@ -10,13 +10,14 @@ import {
   rejectInvite,
 } from '../../services/invite.service'
 import { authMiddleware } from '../middleware/auth'
+import { auditAdminAction } from '../middleware/audit'
 
 const router = Router()
 
 // ==================== INVITI EMAIL ====================
 
 // POST /api/leagues/:leagueId/invites - Crea invito email (Admin)
-router.post('/leagues/:leagueId/invites', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/invites', authMiddleware, auditAdminAction('INVITE_CREATE'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const { email, expiresInDays } = req.body as { email: string; expiresInDays?: number }
@@ -59,7 +60,7 @@ router.get('/leagues/:leagueId/invites', authMiddleware, async (req: Request, re
 })
 
 // DELETE /api/invites/:inviteId - Annulla invito (Admin)
-router.delete('/invites/:inviteId', authMiddleware, async (req: Request, res: Response) => {
+router.delete('/invites/:inviteId', authMiddleware, auditAdminAction('INVITE_CANCEL'), async (req: Request, res: Response) => {
   try {
     const inviteId = req.params.inviteId as string
     const result = await cancelInvite(inviteId, req.user!.userId)
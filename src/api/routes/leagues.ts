@@ -1,6 +1,6 @@
 import { Router } from 'express'
 import type { Request, Response } from 'express'
-import { createLeagueSchema, updateLeagueSchema } from '../../utils/validation'
+import { createLeagueSchema, updateLeagueSchema, updateContractRulesSchema } from '../../utils/validation'
 import {
   createLeague,
   getLeaguesByUser,
@@ -20,8 +20,11 @@ import {
   getFinancialTimeline,
   getFinancialTrends,
   getStrategySummary,
+  getLeagueContractRules,
+  updateLeagueContractRules,
 } from '../../services/league.service'
 import { authMiddleware, optionalAuthMiddleware } from '../middleware/auth'
+import { auditAdminAction } from '../middleware/audit'
 
 const router = Router()
 
@@ -119,7 +122,7 @@ router.get('/:id', authMiddleware, async (req: Request, res: Response) => {
 })
 
 // PUT /api/leagues/:id - Update league (admin only)
-router.put('/:id', authMiddleware, async (req: Request, res: Response) => {
+router.put('/:id', authMiddleware, auditAdminAction('LEAGUE_UPDATE'), async (req: Request, res: Response) => {
   try {
     const id = req.params.id as string
     const validation = updateLeagueSchema.safeParse(req.body)
@@ -147,6 +150,53 @@ router.put('/:id', authMiddleware, async (req: Request, res: Response) => {
   }
 })
 
+// GET /api/leagues/:id/contract-rules - Regole contrattuali della lega
+router.get('/:id/contract-rules', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string
+    const result = await getLeagueContractRules(id, req.user!.userId)
+
+    if (!result.success) {
+      res.status(403).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Get contract rules error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// PUT /api/leagues/:id/contract-rules - Aggiorna o ripristina le regole contrattuali (admin only)
+router.put('/:id/contract-rules', authMiddleware, auditAdminAction('CONTRACT_RULES_UPDATE'), async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string
+    const validation = updateContractRulesSchema.safeParse(req.body)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await updateLeagueContractRules(id, req.user!.userId, validation.data)
+
+    if (!result.success) {
+      res.status(result.message === 'Non autorizzato' ? 403 : 400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Update contract rules error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
 // POST /api/leagues/:id/join - Request to join league
 router.post('/:id/join', authMiddleware, async (req: Request, res: Response) => {
   try {
@@ -221,7 +271,7 @@ router.get('/:id/rosters', authMiddleware, async (req: Request, res: Response) =
 })
 
 // PUT /api/leagues/:id/members/:memberId - Accept/Reject/Kick member
-router.put('/:id/members/:memberId', authMiddleware, async (req: Request, res: Response) => {
+router.put('/:id/members/:memberId', authMiddleware, auditAdminAction('MEMBER_STATUS_UPDATE'), async (req: Request, res: Response) => {
   try {
     const id = req.params.id as string
     const memberId = req.params.memberId as string
@@ -252,7 +302,7 @@ router.put('/:id/members/:memberId', authMiddleware, async (req: Request, res: R
 })
 
 // POST /api/leagues/:id/start - Avvia la lega (Admin)
-router.post('/:id/start', authMiddleware, async (req: Request, res: Response) => {
+router.post('/:id/start', authMiddleware, auditAdminAction('LEAGUE_START'), async (req: Request, res: Response) => {
   try {
     const id = req.params.id as string
     const result = await startLeague(id, req.user!.userId)
@@ -0,0 +1,214 @@
+/**
+ * matchdays.ts - Fantasy Matchday API Routes
+ *
+ * Endpoint per il fantacalcio a giornate: tabella bonus/malus, formazioni,
+ * calcolo dei fantavoti e classifiche. Stagione e giornata viaggiano in
+ * query/body perché i round contengono spazi ("Regular Season - 15").
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { Router } from 'express'
+import type { Request, Response } from 'express'
+import {
+  getScoringRules,
+  updateScoringRules,
+  getMatchdays,
+  getMyLineup,
+  submitLineup,
+  computeMatchday,
+  getMatchdayStandings,
+} from '../../services/scoring.service'
+import { matchdaySchema, submitLineupSchema, updateScoringRulesSchema } from '../../utils/validation'
+import { authMiddleware } from '../middleware/auth'
+import { auditAdminAction } from '../middleware/audit'
+
+const router = Router()
+
+// ==================== TABELLA BONUS/MALUS ====================
+
+// GET /api/leagues/:leagueId/scoring-rules - Tabella bonus/malus della lega
+router.get('/leagues/:leagueId/scoring-rules', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const result = await getScoringRules(leagueId, req.user!.userId)
+
+    if (!result.success) {
+      res.status(403).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Get scoring rules error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// PUT /api/leagues/:leagueId/scoring-rules - Aggiorna o ripristina la tabella (admin only)
+router.put('/leagues/:leagueId/scoring-rules', authMiddleware, auditAdminAction('SCORING_RULES_UPDATE'), async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const validation = updateScoringRulesSchema.safeParse(req.body)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await updateScoringRules(leagueId, req.user!.userId, validation.data)
+
+    if (!result.success) {
+      res.status(result.message === 'Non autorizzato' ? 403 : 400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Update scoring rules error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// ==================== GIORNATE ====================
+
+// GET /api/leagues/:leagueId/matchdays?season= - Giornate disponibili
+router.get('/leagues/:leagueId/matchdays', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const season = typeof req.query.season === 'string' && req.query.season ? req.query.season : undefined
+    const result = await getMatchdays(leagueId, req.user!.userId, season)
+
+    if (!result.success) {
+      res.status(403).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Get matchdays error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// GET /api/leagues/:leagueId/matchdays/lineup?season=&round= - La mia formazione
+router.get('/leagues/:leagueId/matchdays/lineup', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const validation = matchdaySchema.safeParse(req.query)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await getMyLineup(leagueId, req.user!.userId, validation.data.season, validation.data.round)
+
+    if (!result.success) {
+      res.status(403).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Get lineup error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// PUT /api/leagues/:leagueId/matchdays/lineup - Schiera la formazione
+router.put('/leagues/:leagueId/matchdays/lineup', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const validation = submitLineupSchema.safeParse(req.body)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await submitLineup(leagueId, req.user!.userId, validation.data)
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Submit lineup error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// POST /api/leagues/:leagueId/matchdays/compute - Calcola la giornata (admin only)
+router.post('/leagues/:leagueId/matchdays/compute', authMiddleware, auditAdminAction('MATCHDAY_COMPUTE'), async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const validation = matchdaySchema.safeParse(req.body)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await computeMatchday(leagueId, req.user!.userId, validation.data.season, validation.data.round)
+
+    if (!result.success) {
+      res.status(result.message === 'Non autorizzato' ? 403 : 400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Compute matchday error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// GET /api/leagues/:leagueId/matchdays/standings?season=&round= - Classifica di giornata e di stagione
+router.get('/leagues/:leagueId/matchdays/standings', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const validation = matchdaySchema.safeParse(req.query)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await getMatchdayStandings(leagueId, req.user!.userId, validation.data.season, validation.data.round)
+
+    if (!result.success) {
+      res.status(403).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Get matchday standings error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+export default router
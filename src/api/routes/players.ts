@@ -3,7 +3,7 @@ import type { Request, Response } from 'express'
 import type { Position } from '@prisma/client';
 import { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
-import { getPlayers, getPlayerById, getTeams } from '../../services/player.service'
+import { getPlayers, getPlayerById, getTeams, getQuotationHistory, getQuotationMovers } from '../../services/player.service'
 import { authMiddleware } from '../middleware/auth'
 
 const router = Router()
@@ -195,6 +195,45 @@ router.get('/stats', authMiddleware, async (req: Request, res: Response) => {
   }
 })
 
+// GET /api/players/quotation-movers?leagueId=&limit= - Biggest risers/fallers since the previous upload
+router.get('/quotation-movers', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const leagueId = typeof req.query.leagueId === 'string' && req.query.leagueId ? req.query.leagueId : undefined
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 10, 1), 50)
+
+    // Scoped to a league: only its members can see who owns which player
+    if (leagueId) {
+      const member = await prisma.leagueMember.findFirst({
+        where: { leagueId, userId: req.user!.userId, status: 'ACTIVE' },
+        select: { id: true },
+      })
+      if (!member) {
+        res.status(403).json({ success: false, message: 'Non sei membro di questa lega' })
+        return
+      }
+    }
+
+    const movers = await getQuotationMovers({ leagueId, limit })
+
+    res.json({ success: true, data: movers })
+  } catch (error) {
+    console.error('Get quotation movers error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// GET /api/players/:id/quotation-history - Quotation recorded at each upload
+router.get('/:id/quotation-history', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const history = await getQuotationHistory(req.params.id as string)
+
+    res.json({ success: true, data: history })
+  } catch (error) {
+    console.error('Get quotation history error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
 // GET /api/players/:apiFootballId/match-history - Get player match history
 router.get('/:apiFootballId/match-history', authMiddleware, async (req: Request, res: Response) => {
   try {
@@ -13,15 +13,19 @@ import {
   getCustomIndemnities,
   consolidateIndemnities,
   adminCorrectMemberPrize,
+  previewPrizeRules,
+  applyPrizeRules,
 } from '../../services/prize-phase.service'
+import { prizeRuleSchema } from '../../utils/validation'
 import { authMiddleware } from '../middleware/auth'
+import { auditAdminAction } from '../middleware/audit'
 
 const router = Router()
 
 // ==================== INITIALIZE PRIZE PHASE ====================
 
 // POST /api/sessions/:sessionId/prizes/init - Initialize prize phase for session (Admin)
-router.post('/sessions/:sessionId/prizes/init', authMiddleware, async (req: Request, res: Response) => {
+router.post('/sessions/:sessionId/prizes/init', authMiddleware, auditAdminAction('PRIZE_PHASE_INIT'), async (req: Request, res: Response) => {
   try {
     const sessionId = req.params.sessionId as string
     const result = await initializePrizePhase(sessionId, req.user!.userId)
@@ -61,7 +65,7 @@ router.get('/sessions/:sessionId/prizes', authMiddleware, async (req: Request, r
 // ==================== UPDATE BASE REINCREMENT ====================
 
 // PATCH /api/sessions/:sessionId/prizes/base-reincrement - Update base reincrement (Admin)
-router.patch('/sessions/:sessionId/prizes/base-reincrement', authMiddleware, async (req: Request, res: Response) => {
+router.patch('/sessions/:sessionId/prizes/base-reincrement', authMiddleware, auditAdminAction('PRIZE_BASE_REINCREMENT_UPDATE'), async (req: Request, res: Response) => {
   try {
     const sessionId = req.params.sessionId as string
     const { amount } = req.body as { amount: number }
@@ -88,17 +92,28 @@ router.patch('/sessions/:sessionId/prizes/base-reincrement', authMiddleware, asy
 // ==================== PRIZE CATEGORIES ====================
 
 // POST /api/sessions/:sessionId/prizes/categories - Create prize category (Admin)
-router.post('/sessions/:sessionId/prizes/categories', authMiddleware, async (req: Request, res: Response) => {
+router.post('/sessions/:sessionId/prizes/categories', authMiddleware, auditAdminAction('PRIZE_CATEGORY_CREATE'), async (req: Request, res: Response) => {
   try {
     const sessionId = req.params.sessionId as string
-    const { name } = req.body as { name: string }
+    const { name, rule } = req.body as { name: string; rule?: unknown }
 
     if (!name) {
       res.status(400).json({ success: false, message: 'name è obbligatorio' })
       return
     }
 
-    const result = await createPrizeCategory(sessionId, req.user!.userId, name)
+    // Regola opzionale: senza regola gli importi si inseriscono a mano
+    const ruleValidation = rule ? prizeRuleSchema.safeParse(rule) : null
+    if (ruleValidation && !ruleValidation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Regola non valida',
+        errors: ruleValidation.error.issues,
+      })
+      return
+    }
+
+    const result = await createPrizeCategory(sessionId, req.user!.userId, name, ruleValidation?.data)
 
     if (!result.success) {
       res.status(result.message === 'Non autorizzato' ? 403 : 400).json(result)
@@ -113,7 +128,7 @@ router.post('/sessions/:sessionId/prizes/categories', authMiddleware, async (req
 })
 
 // DELETE /api/prizes/categories/:categoryId - Delete prize category (Admin)
-router.delete('/prizes/categories/:categoryId', authMiddleware, async (req: Request, res: Response) => {
+router.delete('/prizes/categories/:categoryId', authMiddleware, auditAdminAction('PRIZE_CATEGORY_DELETE'), async (req: Request, res: Response) => {
   try {
     const categoryId = req.params.categoryId as string
     const result = await deletePrizeCategory(categoryId, req.user!.userId)
@@ -133,7 +148,7 @@ router.delete('/prizes/categories/:categoryId', authMiddleware, async (req: Requ
 // ==================== SET MEMBER PRIZE ====================
 
 // PUT /api/prizes/categories/:categoryId/members/:memberId - Set prize for member (Admin)
-router.put('/prizes/categories/:categoryId/members/:memberId', authMiddleware, async (req: Request, res: Response) => {
+router.put('/prizes/categories/:categoryId/members/:memberId', authMiddleware, auditAdminAction('PRIZE_SET'), async (req: Request, res: Response) => {
   try {
     const { categoryId, memberId } = req.params as { categoryId: string; memberId: string }
     const { amount } = req.body as { amount: number }
@@ -157,10 +172,48 @@ router.put('/prizes/categories/:categoryId/members/:memberId', authMiddleware, a
   }
 })
 
+// ==================== PRIZE RULES ====================
+
+// GET /api/sessions/:sessionId/prizes/rules/preview - Diff between current and rule-computed prizes (Admin)
+router.get('/sessions/:sessionId/prizes/rules/preview', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.params.sessionId as string
+    const result = await previewPrizeRules(sessionId, req.user!.userId)
+
+    if (!result.success) {
+      res.status(result.message === 'Non autorizzato' ? 403 : 400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Preview prize rules error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// POST /api/sessions/:sessionId/prizes/rules/apply - Write rule-computed prizes (Admin)
+router.post('/sessions/:sessionId/prizes/rules/apply', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.params.sessionId as string
+    const result = await applyPrizeRules(sessionId, req.user!.userId)
+
+    if (!result.success) {
+      res.status(result.message === 'Non autorizzato' ? 403 : 400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Apply prize rules error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
 // ==================== FINALIZE PRIZE PHASE ====================
 
 // POST /api/sessions/:sessionId/prizes/finalize - Finalize prize phase (Admin)
-router.post('/sessions/:sessionId/prizes/finalize', authMiddleware, async (req: Request, res: Response) => {
+router.post('/sessions/:sessionId/prizes/finalize', authMiddleware, auditAdminAction('PRIZES_FINALIZED'), async (req: Request, res: Response) => {
   try {
     const sessionId = req.params.sessionId as string
     const result = await finalizePrizePhase(sessionId, req.user!.userId)
@@ -200,7 +253,7 @@ router.get('/leagues/:leagueId/prizes/history', authMiddleware, async (req: Requ
 // ==================== CUSTOM INDEMNITIES ====================
 
 // PUT /api/sessions/:sessionId/prizes/indemnities/:playerId - Set custom indemnity for player (Admin)
-router.put('/sessions/:sessionId/prizes/indemnities/:playerId', authMiddleware, async (req: Request, res: Response) => {
+router.put('/sessions/:sessionId/prizes/indemnities/:playerId', authMiddleware, auditAdminAction('INDEMNITY_SET'), async (req: Request, res: Response) => {
   try {
     const { sessionId, playerId } = req.params as { sessionId: string; playerId: string }
     const { amount } = req.body as { amount: number }
@@ -264,7 +317,7 @@ router.post('/sessions/:sessionId/prizes/indemnities/consolidate', authMiddlewar
 
 // PATCH /api/leagues/:leagueId/prizes/correct - Admin correction of a member prize,
 // allowed even after the prize phase has been finalized (Admin)
-router.patch('/leagues/:leagueId/prizes/correct', authMiddleware, async (req: Request, res: Response) => {
+router.patch('/leagues/:leagueId/prizes/correct', authMiddleware, auditAdminAction('PRIZE_CORRECTION'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const { marketSessionId, categoryId, leagueMemberId, newAmount } = req.body as {
@@ -46,13 +46,14 @@ import {
   registerRubataHeartbeat,
 } from '../../services/rubata.service'
 import { authMiddleware } from '../middleware/auth'
+import { auditAdminAction } from '../middleware/audit'
 
 const router = Router()
 
 // ==================== RUBATA ORDER ====================
 
 // PUT /api/leagues/:leagueId/rubata/order - Set rubata order (Admin)
-router.put('/leagues/:leagueId/rubata/order', authMiddleware, async (req: Request, res: Response) => {
+router.put('/leagues/:leagueId/rubata/order', authMiddleware, auditAdminAction('RUBATA_ORDER_SET'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const { memberOrder } = req.body as { memberOrder?: string[] }
@@ -133,7 +134,7 @@ router.get('/leagues/:leagueId/rubata/turn', authMiddleware, async (req: Request
 })
 
 // PUT /api/leagues/:leagueId/rubata/skip - Skip current turn (Admin)
-router.put('/leagues/:leagueId/rubata/skip', authMiddleware, async (req: Request, res: Response) => {
+router.put('/leagues/:leagueId/rubata/skip', authMiddleware, auditAdminAction('RUBATA_SKIP'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const result = await skipRubataTurn(leagueId, req.user!.userId)
@@ -224,7 +225,7 @@ router.post('/rubata/:auctionId/bid', authMiddleware, async (req: Request, res:
 })
 
 // PUT /api/rubata/:auctionId/close - Close rubata auction (Admin)
-router.put('/rubata/:auctionId/close', authMiddleware, async (req: Request, res: Response) => {
+router.put('/rubata/:auctionId/close', authMiddleware, auditAdminAction('RUBATA_AUCTION_CLOSE'), async (req: Request, res: Response) => {
   try {
     const auctionId = req.params.auctionId as string
     const result = await closeRubataAuction(auctionId, req.user!.userId)
@@ -262,7 +263,7 @@ router.get('/leagues/:leagueId/rubata/board', authMiddleware, async (req: Reques
 })
 
 // POST /api/leagues/:leagueId/rubata/board/generate - Generate the rubata board (Admin)
-router.post('/leagues/:leagueId/rubata/board/generate', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/rubata/board/generate', authMiddleware, auditAdminAction('RUBATA_BOARD_GENERATE'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const result = await generateRubataBoard(leagueId, req.user!.userId)
@@ -280,7 +281,7 @@ router.post('/leagues/:leagueId/rubata/board/generate', authMiddleware, async (r
 })
 
 // POST /api/leagues/:leagueId/rubata/start - Start rubata (Admin)
-router.post('/leagues/:leagueId/rubata/start', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/rubata/start', authMiddleware, auditAdminAction('RUBATA_START'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const result = await startRubata(leagueId, req.user!.userId)
@@ -298,7 +299,7 @@ router.post('/leagues/:leagueId/rubata/start', authMiddleware, async (req: Reque
 })
 
 // PUT /api/leagues/:leagueId/rubata/timers - Update rubata timers (Admin)
-router.put('/leagues/:leagueId/rubata/timers', authMiddleware, async (req: Request, res: Response) => {
+router.put('/leagues/:leagueId/rubata/timers', authMiddleware, auditAdminAction('RUBATA_TIMERS_UPDATE'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const { offerTimerSeconds, auctionTimerSeconds } = req.body as {
@@ -364,7 +365,7 @@ router.post('/leagues/:leagueId/rubata/auction/bid', authMiddleware, async (req:
 })
 
 // POST /api/leagues/:leagueId/rubata/advance - Advance to next player (Admin)
-router.post('/leagues/:leagueId/rubata/advance', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/rubata/advance', authMiddleware, auditAdminAction('RUBATA_ADVANCE'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const result = await advanceRubataPlayer(leagueId, req.user!.userId)
@@ -382,7 +383,7 @@ router.post('/leagues/:leagueId/rubata/advance', authMiddleware, async (req: Req
 })
 
 // POST /api/leagues/:leagueId/rubata/back - Go back to previous player (Admin)
-router.post('/leagues/:leagueId/rubata/back', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/rubata/back', authMiddleware, auditAdminAction('RUBATA_BACK'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const result = await goBackRubataPlayer(leagueId, req.user!.userId)
@@ -400,7 +401,7 @@ router.post('/leagues/:leagueId/rubata/back', authMiddleware, async (req: Reques
 })
 
 // POST /api/leagues/:leagueId/rubata/close-auction - Close current auction and transfer player (Admin)
-router.post('/leagues/:leagueId/rubata/close-auction', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/rubata/close-auction', authMiddleware, auditAdminAction('RUBATA_AUCTION_CLOSE'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const result = await closeCurrentRubataAuction(leagueId, req.user!.userId)
@@ -418,7 +419,7 @@ router.post('/leagues/:leagueId/rubata/close-auction', authMiddleware, async (re
 })
 
 // POST /api/leagues/:leagueId/rubata/pause - Pause rubata (Admin)
-router.post('/leagues/:leagueId/rubata/pause', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/rubata/pause', authMiddleware, auditAdminAction('RUBATA_PAUSE'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const result = await pauseRubata(leagueId, req.user!.userId)
@@ -436,7 +437,7 @@ router.post('/leagues/:leagueId/rubata/pause', authMiddleware, async (req: Reque
 })
 
 // POST /api/leagues/:leagueId/rubata/resume - Resume rubata (Admin)
-router.post('/leagues/:leagueId/rubata/resume', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/rubata/resume', authMiddleware, auditAdminAction('RUBATA_RESUME'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const result = await resumeRubata(leagueId, req.user!.userId)
@@ -492,7 +493,7 @@ router.post('/leagues/:leagueId/rubata/ready', authMiddleware, async (req: Reque
 })
 
 // POST /api/leagues/:leagueId/rubata/force-ready - Force all ready (Admin)
-router.post('/leagues/:leagueId/rubata/force-ready', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/rubata/force-ready', authMiddleware, auditAdminAction('RUBATA_FORCE_READY'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const result = await forceAllRubataReady(leagueId, req.user!.userId)
@@ -549,7 +550,7 @@ router.post('/leagues/:leagueId/rubata/acknowledge', authMiddleware, async (req:
 })
 
 // POST /api/leagues/:leagueId/rubata/force-acknowledge - Force all acknowledge (Admin)
-router.post('/leagues/:leagueId/rubata/force-acknowledge', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/rubata/force-acknowledge', authMiddleware, auditAdminAction('RUBATA_FORCE_ACK'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const result = await forceAllRubataAcknowledge(leagueId, req.user!.userId)
@@ -569,7 +570,7 @@ router.post('/leagues/:leagueId/rubata/force-acknowledge', authMiddleware, async
 // ==================== ADMIN SIMULATION ====================
 
 // POST /api/leagues/:leagueId/rubata/simulate-offer - Simulate offer from another manager (Admin)
-router.post('/leagues/:leagueId/rubata/simulate-offer', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/rubata/simulate-offer', authMiddleware, auditAdminAction('RUBATA_SIMULATE_OFFER'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const { targetMemberId } = req.body as { targetMemberId?: string }
@@ -594,7 +595,7 @@ router.post('/leagues/:leagueId/rubata/simulate-offer', authMiddleware, async (r
 })
 
 // POST /api/leagues/:leagueId/rubata/simulate-bid - Simulate bid from another manager (Admin)
-router.post('/leagues/:leagueId/rubata/simulate-bid', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/rubata/simulate-bid', authMiddleware, auditAdminAction('RUBATA_SIMULATE_BID'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const { targetMemberId, amount } = req.body as { targetMemberId?: string; amount?: number }
@@ -619,7 +620,7 @@ router.post('/leagues/:leagueId/rubata/simulate-bid', authMiddleware, async (req
 })
 
 // POST /api/leagues/:leagueId/rubata/complete-with-transactions - Complete rubata with random transactions (Admin)
-router.post('/leagues/:leagueId/rubata/complete-with-transactions', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/rubata/complete-with-transactions', authMiddleware, auditAdminAction('RUBATA_COMPLETE_SIMULATED'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const { stealProbability } = req.body
@@ -728,7 +729,7 @@ router.get('/leagues/:leagueId/rubata/preview', authMiddleware, async (req: Requ
 })
 
 // POST /api/leagues/:leagueId/rubata/preview - Set rubata to preview mode (Admin)
-router.post('/leagues/:leagueId/rubata/preview', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/rubata/preview', authMiddleware, auditAdminAction('RUBATA_PREVIEW'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const result = await setRubataToPreview(leagueId, req.user!.userId)
@@ -786,7 +787,7 @@ router.get('/leagues/:leagueId/rubata/svincolati-strategies', authMiddleware, as
 // ==================== HEARTBEAT / CONNECTION STATUS ====================
 
 // POST /api/leagues/:leagueId/rubata/heartbeat - Register heartbeat for connection tracking
-router.post('/leagues/:leagueId/rubata/heartbeat', authMiddleware, (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/rubata/heartbeat', authMiddleware, async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const { memberId } = req.body as { memberId?: string }
@@ -796,7 +797,7 @@ router.post('/leagues/:leagueId/rubata/heartbeat', authMiddleware, (req: Request
       return
     }
 
-    registerRubataHeartbeat(leagueId, memberId)
+    await registerRubataHeartbeat(leagueId, memberId)
 
     res.json({ success: true })
   } catch (error) {
@@ -0,0 +1,120 @@
+/**
+ * season-rollover.ts - Season Rollover API Routes
+ *
+ * Wizard di cambio stagione (admin di lega): anteprima delle modifiche,
+ * applicazione e archivio delle stagioni chiuse.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { Router } from 'express'
+import type { Request, Response } from 'express'
+import {
+  previewSeasonRollover,
+  applySeasonRollover,
+  retrySeasonRolloverMarket,
+  getSeasonArchives,
+} from '../../services/season-rollover.service'
+import { seasonBudgetPolicySchema } from '../../utils/validation'
+import { authMiddleware } from '../middleware/auth'
+import { auditAdminAction } from '../middleware/audit'
+
+const router = Router()
+
+// POST /api/leagues/:leagueId/season-rollover/preview - Anteprima del cambio stagione (Admin)
+// Body vuoto = politica di budget salvata sulla lega
+router.post('/leagues/:leagueId/season-rollover/preview', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const hasPolicy = req.body && Object.keys(req.body as object).length > 0
+    const validation = seasonBudgetPolicySchema.optional().safeParse(hasPolicy ? req.body : undefined)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await previewSeasonRollover(leagueId, req.user!.userId, validation.data)
+
+    if (!result.success) {
+      res.status(result.message === 'Non autorizzato' ? 403 : 404).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Preview season rollover error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// POST /api/leagues/:leagueId/season-rollover - Chiude la stagione e apre il nuovo mercato (Admin)
+router.post('/leagues/:leagueId/season-rollover', authMiddleware, auditAdminAction('SEASON_ROLLOVER'), async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const validation = seasonBudgetPolicySchema.safeParse(req.body)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await applySeasonRollover(leagueId, req.user!.userId, validation.data)
+
+    if (!result.success) {
+      res.status(result.message === 'Non autorizzato' ? 403 : 400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Apply season rollover error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// POST /api/leagues/:leagueId/season-rollover/market - Ripete l'apertura del mercato dopo un cambio stagione interrotto (Admin)
+router.post('/leagues/:leagueId/season-rollover/market', authMiddleware, auditAdminAction('SEASON_ROLLOVER_MARKET_OPENED'), async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const result = await retrySeasonRolloverMarket(leagueId, req.user!.userId)
+
+    if (!result.success) {
+      res.status(result.message === 'Non autorizzato' ? 403 : 400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Retry season rollover market error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// GET /api/leagues/:leagueId/season-archives - Stagioni archiviate
+router.get('/leagues/:leagueId/season-archives', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const result = await getSeasonArchives(leagueId, req.user!.userId)
+
+    if (!result.success) {
+      res.status(403).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Get season archives error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+export default router
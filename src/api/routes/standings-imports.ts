@@ -0,0 +1,180 @@
+/**
+ * standings-imports.ts - Standings Import API Routes
+ *
+ * Import di classifiche e risultati da file CSV/XLSX (admin di lega):
+ * analisi con mappatura colonne e report di validazione, import, storico
+ * e classifica importata per i membri della lega.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { Router } from 'express'
+import type { Request, Response } from 'express'
+import multer from 'multer'
+import {
+  analyzeStandingsFile,
+  importStandingsFile,
+  getStandingsImports,
+  getLeagueImportedStandings,
+} from '../../services/standings-import.service'
+import { standingsFileSchema, standingsImportSchema } from '../../utils/validation'
+import { authMiddleware } from '../middleware/auth'
+import { auditAdminAction } from '../middleware/audit'
+
+const router = Router()
+
+// Configure multer for file uploads
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB max
+  },
+  fileFilter: (_req, file, cb) => {
+    // Accept xlsx, xls and csv files
+    if (/\.(xlsx|xls|csv)$/i.test(file.originalname)) {
+      cb(null, true)
+    } else {
+      cb(new Error('Solo file .xlsx, .xls o .csv sono accettati'))
+    }
+  },
+})
+
+// I campi mapping/overrides del form multipart sono stringhe JSON
+function parseMultipartBody(body: Record<string, unknown>): Record<string, unknown> {
+  const parsed: Record<string, unknown> = { ...body }
+  for (const key of ['mapping', 'overrides']) {
+    if (typeof body[key] === 'string') {
+      try {
+        parsed[key] = JSON.parse(body[key])
+      } catch {
+        parsed[key] = null
+      }
+    }
+  }
+  return parsed
+}
+
+// POST /api/leagues/:leagueId/standings-imports/analyze - Mappatura colonne e report di validazione (admin only)
+router.post(
+  '/leagues/:leagueId/standings-imports/analyze',
+  authMiddleware,
+  upload.single('file'),
+  async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        res.status(400).json({ success: false, message: 'Nessun file caricato' })
+        return
+      }
+
+      const leagueId = req.params.leagueId as string
+      const validation = standingsFileSchema.safeParse(parseMultipartBody(req.body as Record<string, unknown>))
+
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          message: 'Dati non validi',
+          errors: validation.error.issues,
+        })
+        return
+      }
+
+      const result = await analyzeStandingsFile(leagueId, req.user!.userId, req.file.buffer, validation.data)
+
+      if (!result.success) {
+        res.status(result.message === 'Non autorizzato' ? 403 : 400).json(result)
+        return
+      }
+
+      res.json(result)
+    } catch (error) {
+      console.error('Analyze standings file error:', error)
+      res.status(500).json({ success: false, message: 'Errore interno del server' })
+    }
+  }
+)
+
+// POST /api/leagues/:leagueId/standings-imports - Importa il file con la mappatura scelta (admin only)
+router.post(
+  '/leagues/:leagueId/standings-imports',
+  authMiddleware,
+  auditAdminAction('STANDINGS_IMPORT'),
+  upload.single('file'),
+  async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        res.status(400).json({ success: false, message: 'Nessun file caricato' })
+        return
+      }
+
+      const leagueId = req.params.leagueId as string
+      const validation = standingsImportSchema.safeParse(parseMultipartBody(req.body as Record<string, unknown>))
+
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          message: 'Dati non validi',
+          errors: validation.error.issues,
+        })
+        return
+      }
+
+      const result = await importStandingsFile(leagueId, req.user!.userId, req.file.buffer, {
+        ...validation.data,
+        fileName: req.file.originalname || 'classifica.xlsx',
+      })
+
+      if (!result.success) {
+        res.status(result.message === 'Non autorizzato' ? 403 : 400).json(result)
+        return
+      }
+
+      res.json(result)
+    } catch (error) {
+      console.error('Import standings file error:', error)
+      res.status(500).json({ success: false, message: 'Errore interno del server' })
+    }
+  }
+)
+
+// GET /api/leagues/:leagueId/standings-imports - Storico import (admin only)
+router.get('/leagues/:leagueId/standings-imports', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const result = await getStandingsImports(leagueId, req.user!.userId)
+
+    if (!result.success) {
+      res.status(403).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Get standings imports error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// GET /api/leagues/:leagueId/standings/imported?season= - Classifica dell'ultimo import
+router.get('/leagues/:leagueId/standings/imported', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const season = typeof req.query.season === 'string' ? parseInt(req.query.season, 10) : NaN
+    if (typeof req.query.season === 'string' && (isNaN(season) || season < 1)) {
+      res.status(400).json({ success: false, message: 'Stagione non valida' })
+      return
+    }
+    const result = await getLeagueImportedStandings(leagueId, req.user!.userId, isNaN(season) ? undefined : season)
+
+    if (!result.success) {
+      res.status(403).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Get imported standings error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+export default router
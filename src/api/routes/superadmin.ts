@@ -3,6 +3,7 @@ import type { Request, Response } from 'express'
 import multer from 'multer'
 import {
   importQuotazioni,
+  rollbackLastQuotazioniUpload,
   getSuperAdminStatus,
   setSuperAdmin,
   getPlayersStats,
@@ -13,6 +14,7 @@ import {
   getUploadHistory,
   deleteAllPlayers,
   getPlayersNeedingClassification,
+  getExitClassificationProposals,
   classifyExitedPlayers,
 } from '../../services/superadmin.service'
 import {
@@ -82,7 +84,8 @@ router.post(
 
       const sheetName = (req.body.sheetName as string) || 'Tutti'
       const fileName = req.file.originalname || 'quotazioni.xlsx'
-      const result = await importQuotazioni(req.user!.userId, req.file.buffer, sheetName, fileName)
+      const dryRun = req.body.dryRun === 'true'
+      const result = await importQuotazioni(req.user!.userId, req.file.buffer, sheetName, fileName, dryRun)
 
       if (!result.success) {
         res.status(result.message?.includes('Non autorizzato') ? 403 : 400).json(result)
@@ -97,6 +100,23 @@ router.post(
   }
 )
 
+// POST /api/superadmin/quotazioni/rollback - Roll back the last upload still in effect
+router.post('/superadmin/quotazioni/rollback', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const result = await rollbackLastQuotazioniUpload(req.user!.userId)
+
+    if (!result.success) {
+      res.status(result.message?.includes('Non autorizzato') ? 403 : 400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Rollback quotazioni error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
 // ==================== UPLOAD HISTORY ====================
 
 // GET /api/superadmin/quotazioni/history - Get upload history
@@ -287,6 +307,24 @@ router.get('/superadmin/players/needing-classification', authMiddleware, async (
   }
 })
 
+// POST /api/superadmin/players/exit-proposals - Proposte automatiche di classificazione (lookup: usa quota API-Football)
+router.post('/superadmin/players/exit-proposals', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { lookup } = (req.body ?? {}) as { lookup?: boolean }
+    const result = await getExitClassificationProposals(req.user!.userId, { lookup: lookup === true })
+
+    if (!result.success) {
+      res.status(result.message === 'Non autorizzato' ? 403 : 502).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Get exit classification proposals error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
 // POST /api/superadmin/players/classify-exits - Classify exited players
 router.post('/superadmin/players/classify-exits', authMiddleware, async (req: Request, res: Response) => {
   try {
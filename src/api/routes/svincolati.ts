@@ -35,6 +35,7 @@ import {
 } from '../../services/svincolati.service'
 import { simulateBotBidding, getBotMembers } from '../../services/bot.service'
 import { authMiddleware } from '../middleware/auth'
+import { auditAdminAction } from '../middleware/audit'
 
 const router = Router()
 
@@ -193,7 +194,7 @@ router.get('/leagues/:leagueId/svincolati/board', authMiddleware, async (req: Re
 })
 
 // POST /api/leagues/:leagueId/svincolati/turn-order - Set turn order (Admin)
-router.post('/leagues/:leagueId/svincolati/turn-order', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/svincolati/turn-order', authMiddleware, auditAdminAction('SVINCOLATI_TURN_ORDER_SET'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const { memberIds } = req.body as { memberIds?: string[] }
@@ -261,7 +262,7 @@ router.put('/leagues/:leagueId/svincolati/confirm', authMiddleware, async (req:
 })
 
 // DELETE /api/leagues/:leagueId/svincolati/nomination - Cancel nomination
-router.delete('/leagues/:leagueId/svincolati/nomination', authMiddleware, async (req: Request, res: Response) => {
+router.delete('/leagues/:leagueId/svincolati/nomination', authMiddleware, auditAdminAction('SVINCOLATI_NOMINATION_CANCEL'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const result = await cancelSvincolatiNomination(leagueId, req.user!.userId)
@@ -315,7 +316,7 @@ router.post('/leagues/:leagueId/svincolati/pass', authMiddleware, async (req: Re
 })
 
 // POST /api/leagues/:leagueId/svincolati/force-ready - Force all ready (Admin)
-router.post('/leagues/:leagueId/svincolati/force-ready', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/svincolati/force-ready', authMiddleware, auditAdminAction('SVINCOLATI_FORCE_READY'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const result = await forceAllReadyForSvincolati(leagueId, req.user!.userId)
@@ -333,7 +334,7 @@ router.post('/leagues/:leagueId/svincolati/force-ready', authMiddleware, async (
 })
 
 // PUT /api/svincolati/:auctionId/close-turn - Close svincolati auction (turn-based)
-router.put('/svincolati/:auctionId/close-turn', authMiddleware, async (req: Request, res: Response) => {
+router.put('/svincolati/:auctionId/close-turn', authMiddleware, auditAdminAction('SVINCOLATI_AUCTION_CLOSE'), async (req: Request, res: Response) => {
   try {
     const auctionId = req.params.auctionId as string
     const result = await closeSvincolatiAuction(auctionId, req.user!.userId)
@@ -369,7 +370,7 @@ router.post('/leagues/:leagueId/svincolati/acknowledge', authMiddleware, async (
 })
 
 // POST /api/leagues/:leagueId/svincolati/force-ack - Force all acks (Admin)
-router.post('/leagues/:leagueId/svincolati/force-ack', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/svincolati/force-ack', authMiddleware, auditAdminAction('SVINCOLATI_FORCE_ACK'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const result = await forceAllSvincolatiAck(leagueId, req.user!.userId)
@@ -387,7 +388,7 @@ router.post('/leagues/:leagueId/svincolati/force-ack', authMiddleware, async (re
 })
 
 // PUT /api/leagues/:leagueId/svincolati/timer - Set timer (Admin)
-router.put('/leagues/:leagueId/svincolati/timer', authMiddleware, async (req: Request, res: Response) => {
+router.put('/leagues/:leagueId/svincolati/timer', authMiddleware, auditAdminAction('SVINCOLATI_TIMER_SET'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const { timerSeconds } = req.body as { timerSeconds?: number }
@@ -412,7 +413,7 @@ router.put('/leagues/:leagueId/svincolati/timer', authMiddleware, async (req: Re
 })
 
 // PUT /api/leagues/:leagueId/svincolati/complete - Complete svincolati phase (Admin)
-router.put('/leagues/:leagueId/svincolati/complete', authMiddleware, async (req: Request, res: Response) => {
+router.put('/leagues/:leagueId/svincolati/complete', authMiddleware, auditAdminAction('SVINCOLATI_COMPLETE'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const result = await completeSvincolatiPhase(leagueId, req.user!.userId)
@@ -434,7 +435,7 @@ router.put('/leagues/:leagueId/svincolati/complete', authMiddleware, async (req:
 // ===========================================================================
 
 // POST /api/leagues/:leagueId/svincolati/bot-nominate - Bot nominate random player (Admin)
-router.post('/leagues/:leagueId/svincolati/bot-nominate', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/svincolati/bot-nominate', authMiddleware, auditAdminAction('SVINCOLATI_BOT_NOMINATE'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const result = await botNominateSvincolati(leagueId, req.user!.userId)
@@ -452,7 +453,7 @@ router.post('/leagues/:leagueId/svincolati/bot-nominate', authMiddleware, async
 })
 
 // POST /api/leagues/:leagueId/svincolati/bot-confirm - Bot confirm nomination (Admin)
-router.post('/leagues/:leagueId/svincolati/bot-confirm', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/svincolati/bot-confirm', authMiddleware, auditAdminAction('SVINCOLATI_BOT_CONFIRM'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const result = await botConfirmSvincolatiNomination(leagueId, req.user!.userId)
@@ -470,7 +471,7 @@ router.post('/leagues/:leagueId/svincolati/bot-confirm', authMiddleware, async (
 })
 
 // POST /api/svincolati/:auctionId/bot-bid-turn - Bot bid on svincolati auction (Admin)
-router.post('/svincolati/:auctionId/bot-bid-turn', authMiddleware, async (req: Request, res: Response) => {
+router.post('/svincolati/:auctionId/bot-bid-turn', authMiddleware, auditAdminAction('SVINCOLATI_BOT_BID'), async (req: Request, res: Response) => {
   try {
     const auctionId = req.params.auctionId as string
     const result = await botBidSvincolati(auctionId, req.user!.userId)
@@ -526,7 +527,7 @@ router.delete('/leagues/:leagueId/svincolati/finished', authMiddleware, async (r
 })
 
 // POST /api/leagues/:leagueId/svincolati/force-all-finished - Force all managers as finished (Admin)
-router.post('/leagues/:leagueId/svincolati/force-all-finished', authMiddleware, async (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/svincolati/force-all-finished', authMiddleware, auditAdminAction('SVINCOLATI_FORCE_FINISHED'), async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const result = await forceAllSvincolatiFinished(leagueId, req.user!.userId)
@@ -546,7 +547,7 @@ router.post('/leagues/:leagueId/svincolati/force-all-finished', authMiddleware,
 // ==================== HEARTBEAT / CONNECTION STATUS ====================
 
 // POST /api/leagues/:leagueId/svincolati/heartbeat - Register heartbeat for connection tracking
-router.post('/leagues/:leagueId/svincolati/heartbeat', authMiddleware, (req: Request, res: Response) => {
+router.post('/leagues/:leagueId/svincolati/heartbeat', authMiddleware, async (req: Request, res: Response) => {
   try {
     const leagueId = req.params.leagueId as string
     const { memberId } = req.body as { memberId?: string }
@@ -556,7 +557,7 @@ router.post('/leagues/:leagueId/svincolati/heartbeat', authMiddleware, (req: Req
       return
     }
 
-    registerSvincolatiHeartbeat(leagueId, memberId)
+    await registerSvincolatiHeartbeat(leagueId, memberId)
 
     res.json({ success: true })
   } catch (error) {
@@ -567,7 +568,7 @@ router.post('/leagues/:leagueId/svincolati/heartbeat', authMiddleware, (req: Req
 
 // ==================== ADMIN: PAUSE / RESUME ====================
 
-router.post('/:leagueId/svincolati/pause', authMiddleware, async (req: Request, res: Response) => {
+router.post('/:leagueId/svincolati/pause', authMiddleware, auditAdminAction('SVINCOLATI_PAUSE'), async (req: Request, res: Response) => {
   try {
     const { leagueId } = req.params
     const result = await pauseSvincolati(leagueId!, req.user!.userId)
@@ -584,7 +585,7 @@ router.post('/:leagueId/svincolati/pause', authMiddleware, async (req: Request,
   }
 })
 
-router.post('/:leagueId/svincolati/resume', authMiddleware, async (req: Request, res: Response) => {
+router.post('/:leagueId/svincolati/resume', authMiddleware, auditAdminAction('SVINCOLATI_RESUME'), async (req: Request, res: Response) => {
   try {
     const { leagueId } = req.params
     const result = await resumeSvincolati(leagueId!, req.user!.userId)
@@ -11,6 +11,16 @@ import {
   getTradeHistory,
   getOngoingTradesIndicator,
 } from '../../services/trade.service'
+import type { TradeContractTerm } from '../../services/trade.service'
+import {
+  createMultiPartyTrade,
+  getMultiPartyTrades,
+  acceptMultiPartyTrade,
+  rejectMultiPartyTrade,
+  cancelMultiPartyTrade,
+  counterMultiPartyTrade,
+} from '../../services/multi-party-trade.service'
+import type { MultiPartyTransferInput } from '../../services/multi-party-trade.service'
 import { authMiddleware } from '../middleware/auth'
 
 const router = Router()
@@ -29,6 +39,9 @@ router.post('/leagues/:leagueId/trades', authMiddleware, async (req: Request, re
       requestedBudget,
       message,
       durationHours,
+      deferredOfferedBudget,
+      deferredRequestedBudget,
+      contractTerms,
     } = req.body as {
       toMemberId: string
       offeredPlayerIds: string[]
@@ -37,6 +50,9 @@ router.post('/leagues/:leagueId/trades', authMiddleware, async (req: Request, re
       requestedBudget?: number
       message?: string
       durationHours?: number
+      deferredOfferedBudget?: number
+      deferredRequestedBudget?: number
+      contractTerms?: TradeContractTerm[]
     }
 
     if (!toMemberId) {
@@ -46,7 +62,7 @@ router.post('/leagues/:leagueId/trades', authMiddleware, async (req: Request, re
 
     if ((!offeredPlayerIds || offeredPlayerIds.length === 0) &&
         (!requestedPlayerIds || requestedPlayerIds.length === 0) &&
-        !offeredBudget && !requestedBudget) {
+        !offeredBudget && !requestedBudget && !deferredOfferedBudget && !deferredRequestedBudget) {
       res.status(400).json({ success: false, message: 'Devi offrire o richiedere almeno qualcosa' })
       return
     }
@@ -60,7 +76,8 @@ router.post('/leagues/:leagueId/trades', authMiddleware, async (req: Request, re
       offeredBudget || 0,
       requestedBudget || 0,
       message,
-      durationHours || 24
+      durationHours || 24,
+      { deferredOfferedBudget, deferredRequestedBudget, contractTerms }
     )
 
     if (!result.success) {
@@ -213,12 +230,18 @@ router.post('/trades/:tradeId/counter', authMiddleware, async (req: Request, res
       offeredBudget,
       requestedBudget,
       message,
+      deferredOfferedBudget,
+      deferredRequestedBudget,
+      contractTerms,
     } = req.body as {
       offeredPlayerIds: string[]
       requestedPlayerIds: string[]
       offeredBudget?: number
       requestedBudget?: number
       message?: string
+      deferredOfferedBudget?: number
+      deferredRequestedBudget?: number
+      contractTerms?: TradeContractTerm[]
     }
 
     const result = await counterOffer(
@@ -228,7 +251,8 @@ router.post('/trades/:tradeId/counter', authMiddleware, async (req: Request, res
       requestedPlayerIds || [],
       offeredBudget || 0,
       requestedBudget || 0,
-      message
+      message,
+      { deferredOfferedBudget, deferredRequestedBudget, contractTerms }
     )
 
     if (!result.success) {
@@ -243,4 +267,143 @@ router.post('/trades/:tradeId/counter', authMiddleware, async (req: Request, res
   }
 })
 
+// ==================== MULTI-PARTY TRADES ====================
+
+// POST /api/leagues/:leagueId/multi-trades - Create multi-party trade proposal
+router.post('/leagues/:leagueId/multi-trades', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const { participantMemberIds, transfers, message, durationHours } = req.body as {
+      participantMemberIds: string[]
+      transfers: MultiPartyTransferInput[]
+      message?: string
+      durationHours?: number
+    }
+
+    if (!Array.isArray(participantMemberIds) || !Array.isArray(transfers)) {
+      res.status(400).json({ success: false, message: 'participantMemberIds e transfers richiesti' })
+      return
+    }
+
+    const result = await createMultiPartyTrade(
+      leagueId,
+      req.user!.userId,
+      participantMemberIds,
+      transfers,
+      message,
+      durationHours || 24
+    )
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.status(201).json(result)
+  } catch (error) {
+    console.error('Create multi-party trade error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// GET /api/leagues/:leagueId/multi-trades - Pending multi-party proposals involving the user
+router.get('/leagues/:leagueId/multi-trades', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const result = await getMultiPartyTrades(leagueId, req.user!.userId)
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Get multi-party trades error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// PUT /api/multi-trades/:tradeId/accept - Accept multi-party trade
+router.put('/multi-trades/:tradeId/accept', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const tradeId = req.params.tradeId as string
+    const result = await acceptMultiPartyTrade(tradeId, req.user!.userId)
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Accept multi-party trade error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// PUT /api/multi-trades/:tradeId/reject - Reject multi-party trade
+router.put('/multi-trades/:tradeId/reject', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const tradeId = req.params.tradeId as string
+    const result = await rejectMultiPartyTrade(tradeId, req.user!.userId)
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Reject multi-party trade error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// PUT /api/multi-trades/:tradeId/cancel - Cancel multi-party trade
+router.put('/multi-trades/:tradeId/cancel', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const tradeId = req.params.tradeId as string
+    const result = await cancelMultiPartyTrade(tradeId, req.user!.userId)
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Cancel multi-party trade error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// POST /api/multi-trades/:tradeId/counter - Counter a multi-party trade (restarts acceptance)
+router.post('/multi-trades/:tradeId/counter', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const tradeId = req.params.tradeId as string
+    const { transfers, message } = req.body as {
+      transfers: MultiPartyTransferInput[]
+      message?: string
+    }
+
+    if (!Array.isArray(transfers)) {
+      res.status(400).json({ success: false, message: 'transfers richiesto' })
+      return
+    }
+
+    const result = await counterMultiPartyTrade(tradeId, req.user!.userId, transfers, message)
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.status(201).json(result)
+  } catch (error) {
+    console.error('Counter multi-party trade error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
 export default router
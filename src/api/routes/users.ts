@@ -4,6 +4,9 @@ import { updateProfileSchema, changePasswordSchema } from '../../utils/validatio
 import { getProfile, updateProfile, changePassword, updateProfilePhoto, removeProfilePhoto } from '../../services/user.service'
 import { getMyPendingInvites } from '../../services/invite.service'
 import { authMiddleware } from '../middleware/auth'
+import { SendEmailVerificationUseCase } from '../../modules/identity/application/use-cases/send-email-verification.use-case'
+import { UserPrismaRepository } from '../../modules/identity/infrastructure/repositories/user.prisma-repository'
+import { createEmailService } from '../../modules/identity/infrastructure/services/email.factory'
 
 const router = Router()
 
@@ -59,6 +62,16 @@ router.put('/profile', async (req: Request, res: Response) => {
       return
     }
 
+    // Verifica della nuova email: un errore di invio non blocca l'aggiornamento (si può richiedere di nuovo dal profilo)
+    if ((result.data as { emailChanged?: boolean }).emailChanged) {
+      try {
+        const sendVerificationUseCase = new SendEmailVerificationUseCase(new UserPrismaRepository(), createEmailService())
+        await sendVerificationUseCase.execute({ userId: req.user!.userId })
+      } catch (err) {
+        console.error('Send verification email error:', err)
+      }
+    }
+
     res.json(result)
   } catch (error) {
     console.error('Update profile error:', error)
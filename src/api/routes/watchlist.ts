@@ -0,0 +1,201 @@
+/**
+ * watchlist.ts - Persistent Watchlist API Routes
+ *
+ * Endpoint per la watchlist di lega (categorie e giocatori osservati).
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { Router } from 'express'
+import type { Request, Response } from 'express'
+import {
+  getWatchlist,
+  createWatchlistCategory,
+  updateWatchlistCategory,
+  deleteWatchlistCategory,
+  upsertWatchlistEntry,
+  updateWatchlistEntry,
+  removeWatchlistEntry
+} from '../../services/watchlist.service'
+import { watchlistCategorySchema, watchlistEntrySchema, updateWatchlistEntrySchema } from '../../utils/validation'
+import { authMiddleware } from '../middleware/auth'
+
+const router = Router()
+
+// ==================== WATCHLIST ====================
+
+// GET /api/leagues/:leagueId/watchlist - Get my watchlist (categories + entries)
+router.get('/leagues/:leagueId/watchlist', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const result = await getWatchlist(leagueId, req.user!.userId)
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Get watchlist error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// ==================== CATEGORIES ====================
+
+// POST /api/leagues/:leagueId/watchlist/categories - Create a personal category
+router.post('/leagues/:leagueId/watchlist/categories', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const validation = watchlistCategorySchema.safeParse(req.body)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await createWatchlistCategory(leagueId, req.user!.userId, validation.data)
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.status(201).json(result)
+  } catch (error) {
+    console.error('Create watchlist category error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// PUT /api/watchlist/categories/:categoryId - Update a personal category
+router.put('/watchlist/categories/:categoryId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const categoryId = req.params.categoryId as string
+    const validation = watchlistCategorySchema.partial().safeParse(req.body)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await updateWatchlistCategory(categoryId, req.user!.userId, validation.data)
+
+    if (!result.success) {
+      res.status(result.message === 'Non autorizzato' ? 403 : 400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Update watchlist category error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// DELETE /api/watchlist/categories/:categoryId - Delete a personal category
+router.delete('/watchlist/categories/:categoryId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const categoryId = req.params.categoryId as string
+    const result = await deleteWatchlistCategory(categoryId, req.user!.userId)
+
+    if (!result.success) {
+      res.status(result.message === 'Non autorizzato' ? 403 : 400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Delete watchlist category error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// ==================== ENTRIES ====================
+
+// POST /api/leagues/:leagueId/watchlist/entries - Add (or update) a player in a category
+router.post('/leagues/:leagueId/watchlist/entries', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const leagueId = req.params.leagueId as string
+    const validation = watchlistEntrySchema.safeParse(req.body)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await upsertWatchlistEntry(leagueId, req.user!.userId, validation.data)
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Upsert watchlist entry error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// PUT /api/watchlist/entries/:entryId - Update a watchlist entry
+router.put('/watchlist/entries/:entryId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const entryId = req.params.entryId as string
+    const validation = updateWatchlistEntrySchema.safeParse(req.body)
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Dati non validi',
+        errors: validation.error.issues,
+      })
+      return
+    }
+
+    const result = await updateWatchlistEntry(entryId, req.user!.userId, validation.data)
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Update watchlist entry error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+// DELETE /api/watchlist/entries/:entryId - Remove a player from the watchlist
+router.delete('/watchlist/entries/:entryId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const entryId = req.params.entryId as string
+    const result = await removeWatchlistEntry(entryId, req.user!.userId)
+
+    if (!result.success) {
+      res.status(400).json(result)
+      return
+    }
+
+    res.json(result)
+  } catch (error) {
+    console.error('Remove watchlist entry error:', error)
+    res.status(500).json({ success: false, message: 'Errore interno del server' })
+  }
+})
+
+export default router
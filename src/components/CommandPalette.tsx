@@ -66,6 +66,7 @@ export function CommandPalette() {
         { id: 'history', label: 'Storico', category: 'Lega', icon: '📚', action: () => { void navigate(`/leagues/${leagueId}/history`) }, keywords: 'cronologia passato' },
         { id: 'prizes', label: 'Premi', category: 'Lega', icon: '🏅', action: () => { void navigate(`/leagues/${leagueId}/prizes`) }, keywords: 'premio classifica' },
         { id: 'prophecies', label: 'Profezie', category: 'Lega', icon: '🔮', action: () => { void navigate(`/leagues/${leagueId}/prophecies`) }, keywords: 'profezia previsione' },
+        { id: 'matchdays', label: 'Giornate', category: 'Lega', icon: '⚽', action: () => { void navigate(`/leagues/${leagueId}/matchdays`) }, keywords: 'giornata formazione fantavoto classifica' },
         { id: 'strategie', label: 'Strategie Rubata', category: 'Lega', icon: '🧠', action: () => { void navigate(`/leagues/${leagueId}/strategie-rubata`) }, keywords: 'strategia rubata piano' },
         { id: 'admin', label: 'Pannello Admin', category: 'Lega', icon: '⚙️', action: () => { void navigate(`/leagues/${leagueId}/admin`) }, keywords: 'amministrazione gestione' },
         { id: 'feedback', label: 'Feedback Hub', category: 'Lega', icon: '💬', action: () => { void navigate(`/leagues/${leagueId}/feedback`) }, keywords: 'segnalazione bug suggerimento' },
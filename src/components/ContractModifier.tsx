@@ -1,17 +1,9 @@
 import { useState, useEffect, useMemo } from 'react'
 import { Button } from './ui/Button'
+import { DEFAULT_CONTRACT_RULESET, getClauseMultiplier, type ContractRuleset } from '../utils/contract-rules'
 
-// Duration multipliers for rescission clause calculation
-const DURATION_MULTIPLIERS: Record<number, number> = {
-  4: 11,
-  3: 9,
-  2: 7,
-  1: 3,
-}
-
-function calculateRescissionClause(salary: number, duration: number): number {
-  const multiplier = DURATION_MULTIPLIERS[duration] || 3
-  return salary * multiplier
+function calculateRescissionClause(salary: number, duration: number, rules: ContractRuleset): number {
+  return salary * getClauseMultiplier(duration, rules)
 }
 
 // Validation rules for contract modification (same as renewal)
@@ -22,11 +14,12 @@ function isValidModification(
   newDuration: number,
   initialSalary: number,
   isSvincolatiMode: boolean = false,
-  increaseOnly: boolean = false
+  increaseOnly: boolean = false,
+  maxDuration: number = DEFAULT_CONTRACT_RULESET.maxDuration
 ): { valid: boolean; reason?: string } {
   // Max duration check
-  if (newDuration > 4) {
-    return { valid: false, reason: 'Durata massima: 4 semestri' }
+  if (newDuration > maxDuration) {
+    return { valid: false, reason: `Durata massima: ${maxDuration} semestri` }
   }
 
   // Minimum values
@@ -121,6 +114,8 @@ interface ContractModifierProps {
   isSvincolatiMode?: boolean
   /** Increase-only mode: no spalma, no taglio — only salary/duration increase allowed (post-rubata) */
   increaseOnly?: boolean
+  /** League contract ruleset (multipliers, max duration); defaults to the standard rules */
+  rules?: ContractRuleset
 }
 
 export function ContractModifier({
@@ -133,6 +128,7 @@ export function ContractModifier({
   description = 'Puoi modificare il contratto del giocatore appena acquisito seguendo le regole del rinnovo.',
   isSvincolatiMode = false,
   increaseOnly = false,
+  rules = DEFAULT_CONTRACT_RULESET,
 }: ContractModifierProps) {
   const [newSalary, setNewSalary] = useState(contract.salary.toString())
   const [newDuration, setNewDuration] = useState(contract.duration)
@@ -161,10 +157,11 @@ export function ContractModifier({
       duration,
       contract.initialSalary,
       isSvincolatiMode,
-      increaseOnly
+      increaseOnly,
+      rules.maxDuration
     )
 
-    const newClause = calculateRescissionClause(salary, duration)
+    const newClause = calculateRescissionClause(salary, duration, rules)
     const hasChanges = salary !== contract.salary || duration !== contract.duration
 
     return {
@@ -175,7 +172,7 @@ export function ContractModifier({
       validationError: validation.reason,
       hasChanges,
     }
-  }, [newSalary, newDuration, contract, isSvincolatiMode])
+  }, [newSalary, newDuration, contract, isSvincolatiMode, increaseOnly, rules])
 
   // Check if spalma is available (not in svincolati mode, not in increase-only mode)
   const canSpalma = !isSvincolatiMode && !increaseOnly && contract.duration === 1
@@ -298,7 +295,7 @@ export function ContractModifier({
               <button
                 type="button"
                 onClick={() => { setNewDuration(Math.min(4, newDuration + 1)); }}
-                disabled={isLoading || isSubmitting || newDuration >= 4}
+                disabled={isLoading || isSubmitting || newDuration >= rules.maxDuration}
                 className="px-3 py-2 bg-surface-300 border border-primary-500/30 rounded-r-lg text-white font-bold disabled:opacity-30 hover:bg-surface-300/80 transition-colors"
               >+</button>
             </div>
@@ -20,6 +20,8 @@ interface FeedbackData {
   pageContext: string | null
   githubIssueId: number | null
   githubIssueUrl: string | null
+  issueState: string | null
+  issueSyncedAt: string | null
   createdAt: string
   updatedAt: string
   resolvedAt: string | null
@@ -103,6 +105,42 @@ export function FeedbackDetail({ feedbackId, isAdmin, onBack, onUpdated }: Feedb
     setIsSubmitting(false)
   }
 
+  async function handlePromoteToIssue() {
+    setIsSubmitting(true)
+    try {
+      const res = await feedbackApi.promoteToIssue(feedbackId)
+      if (res.success) {
+        toast.success(res.message || 'Issue creata')
+        void loadFeedback()
+        onUpdated?.()
+      } else {
+        toast.error(res.message || 'Errore nella creazione della issue')
+      }
+    } catch (_err) {
+      toast.error('Errore di connessione')
+    }
+    setIsSubmitting(false)
+  }
+
+  async function handleSyncIssue() {
+    setIsSubmitting(true)
+    try {
+      const res = await feedbackApi.syncIssue(feedbackId)
+      if (res.success) {
+        toast.success(res.message || 'Issue sincronizzata')
+        if (res.data?.updated) {
+          void loadFeedback()
+          onUpdated?.()
+        }
+      } else {
+        toast.error(res.message || 'Errore nella sincronizzazione')
+      }
+    } catch (_err) {
+      toast.error('Errore di connessione')
+    }
+    setIsSubmitting(false)
+  }
+
   async function handleChangeStatus(newStatus: string) {
     try {
       const res = await feedbackApi.updateStatus(feedbackId, newStatus as 'APERTA' | 'IN_LAVORAZIONE' | 'RISOLTA')
@@ -209,8 +247,46 @@ export function FeedbackDetail({ feedbackId, isAdmin, onBack, onUpdated }: Feedb
           {feedback.resolvedAt && (
             <span className="text-emerald-400">Risolta il {formatDate(feedback.resolvedAt)}</span>
           )}
+          {feedback.githubIssueId && feedback.githubIssueUrl && (
+            <a
+              href={feedback.githubIssueUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-purple-400 hover:underline"
+            >
+              Issue #{feedback.githubIssueId}{feedback.issueState === 'closed' ? ' (chiusa)' : ''}
+            </a>
+          )}
         </div>
 
+        {/* Admin issue tracker controls */}
+        {isAdmin && (
+          <div className="mt-4 pt-4 border-t border-surface-50/20 flex flex-wrap items-center gap-3">
+            {feedback.githubIssueId ? (
+              <>
+                <button
+                  onClick={() => { void handleSyncIssue() }}
+                  disabled={isSubmitting}
+                  className="px-3 py-1.5 text-xs font-medium rounded-lg bg-surface-300 text-gray-300 hover:bg-surface-400 disabled:opacity-50"
+                >
+                  Sincronizza issue
+                </button>
+                {feedback.issueSyncedAt && (
+                  <span className="text-xs text-gray-500">Ultima sincronizzazione: {formatDate(feedback.issueSyncedAt)}</span>
+                )}
+              </>
+            ) : (
+              <button
+                onClick={() => { void handlePromoteToIssue() }}
+                disabled={isSubmitting}
+                className="px-3 py-1.5 text-xs font-medium rounded-lg bg-purple-500/20 text-purple-400 hover:opacity-80 disabled:opacity-50"
+              >
+                Crea issue
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Admin status controls */}
         {isAdmin && feedback.status !== 'RISOLTA' && (
           <div className="mt-4 pt-4 border-t border-surface-50/20">
@@ -10,7 +10,7 @@ import {
   Home, Settings, User, Users, UserPlus, Clock, Lightbulb,
   ArrowLeft, Trophy, CircleUserRound, BookOpen, CloudUpload,
   CircleDollarSign, ChevronRight, ChevronDown, ShieldCheck,
-  BarChart3, FileText, MessageSquare, Menu, X, Star, LogOut,
+  BarChart3, FileText, MessageSquare, Menu, X, Star, LogOut, ListOrdered,
 } from 'lucide-react'
 
 interface NavigationProps {
@@ -48,6 +48,7 @@ const MenuIcons = {
   stats: <BarChart3 size={ICON_SIZE} />,
   patchNotes: <FileText size={ICON_SIZE} />,
   feedbackHub: <MessageSquare size={ICON_SIZE} />,
+  matchdays: <ListOrdered size={ICON_SIZE} />,
 }
 
 // League menu items configuration
@@ -61,6 +62,7 @@ const LEAGUE_MENU_ITEMS = [
   { key: 'financials', label: 'Finanze', adminOnly: false, icon: 'financials' },
   { key: 'history', label: 'Storico', adminOnly: false, icon: 'history' },
   { key: 'prophecies', label: 'Profezie', adminOnly: false, icon: 'prophecy' },
+  { key: 'matchdays', label: 'Giornate', adminOnly: false, icon: 'matchdays' },
   { key: 'feedbackHub', label: 'Feedback', adminOnly: false, icon: 'feedbackHub' },
 ]
 
@@ -75,6 +77,7 @@ function getPageDisplayName(page: string): string {
     movements: 'Movimenti',
     history: 'Storico',
     prophecies: 'Profezie',
+    matchdays: 'Giornate',
     auction: 'Asta',
     contracts: 'Contratti',
     trades: 'Scambi',
@@ -83,6 +86,7 @@ function getPageDisplayName(page: string): string {
     financials: 'Finanze',
     patchNotes: 'Patch Notes',
     feedbackHub: 'Feedback',
+    indemnities: 'Indennizzi',
   }
   return pageNames[page] || page
 }
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react'
 import { Modal, ModalHeader, ModalBody } from './ui/Modal'
 import { POSITION_GRADIENTS } from './ui/PositionBadge'
 import { getPlayerPhotoUrl, getTeamLogoUrl } from '../utils/player-images'
+import { QuotationTrend } from './QuotationTrend'
 
 const API_URL = String(import.meta.env.VITE_API_URL || (import.meta.env.PROD ? '' : 'http://localhost:3003'))
 
@@ -69,6 +70,7 @@ export interface ComputedSeasonStats {
 }
 
 export interface PlayerInfo {
+  playerId?: string  // SerieAPlayer.id, abilita lo storico quotazioni
   name: string
   team: string
   position: string
@@ -231,6 +233,12 @@ export function PlayerStatsModal({ isOpen, onClose, player }: PlayerStatsModalPr
           </button>
         </div>
 
+        {player.playerId && (
+          <div className="mb-4">
+            <QuotationTrend playerId={player.playerId} />
+          </div>
+        )}
+
         {/* Storico tab */}
         {activeTab === 'storico' && (
           historyLoading ? (
@@ -3,6 +3,16 @@ import { useConfirmDialog } from '@/components/ui/ConfirmDialog'
 import { Button } from './ui/Button'
 import { prizePhaseApi } from '../services/api'
 import { getTeamLogo } from '../utils/teamLogos'
+import {
+  PRIZE_RULE_LIMITS,
+  PRIZE_RULE_METRICS,
+  describePrizeRule,
+  validatePrizeAmount,
+  type PrizeRule,
+  type PrizeRuleMetric,
+  type PrizeRuleDirection,
+  type PrizeRulePreview,
+} from '../utils/prize-rules'
 
 // Team logo component
 function TeamLogo({ team }: { team: string }) {
@@ -31,6 +41,7 @@ interface PrizeCategory {
   id: string
   name: string
   isSystemPrize: boolean
+  rule: PrizeRule | null
   prizes: Array<{
     memberId: string
     teamName: string
@@ -99,6 +110,14 @@ export function PrizePhaseManager({ sessionId, isAdmin, onUpdate }: PrizePhaseMa
   const [baseReincrementValue, setBaseReincrementValue] = useState(100)
   const [showFinalizeConfirm, setShowFinalizeConfirm] = useState(false)
 
+  // Regola automatica della nuova categoria ('' = importi manuali)
+  const [newRuleMetric, setNewRuleMetric] = useState<PrizeRuleMetric | ''>('')
+  const [newRuleDirection, setNewRuleDirection] = useState<PrizeRuleDirection>('TOP')
+  const [newRuleAmounts, setNewRuleAmounts] = useState('')
+
+  // Diff tra importi attuali e calcolati dalle regole, mostrato prima della finalizzazione
+  const [rulePreview, setRulePreview] = useState<PrizeRulePreview | null>(null)
+
   // Editing prizes state: { categoryId: { memberId: value } }
   const [editingPrizes, setEditingPrizes] = useState<Record<string, Record<string, number>>>({})
 
@@ -176,13 +195,32 @@ export function PrizePhaseManager({ sessionId, isAdmin, onUpdate }: PrizePhaseMa
     }
   }
 
+  // "80, 60, -20" → [80, 60, -20]; null se il testo non è una lista di interi
+  const parseRuleAmounts = (text: string): number[] | null => {
+    const parts = text.split(/[,;\s]+/).filter(Boolean)
+    if (parts.length === 0) return null
+    const amounts = parts.map(Number)
+    return amounts.every(Number.isInteger) ? amounts : null
+  }
+
   const handleCreateCategory = async () => {
     if (!newCategoryName.trim()) return
+    let rule: PrizeRule | null = null
+    if (newRuleMetric) {
+      const amounts = parseRuleAmounts(newRuleAmounts)
+      if (!amounts) {
+        setError('Importi della regola non validi (es. 80, 60, 40)')
+        return
+      }
+      rule = { metric: newRuleMetric, direction: newRuleDirection, amounts }
+    }
     setIsSubmitting(true)
     try {
-      const result = await prizePhaseApi.createCategory(sessionId, newCategoryName.trim())
+      const result = await prizePhaseApi.createCategory(sessionId, newCategoryName.trim(), rule)
       if (result.success) {
         setNewCategoryName('')
+        setNewRuleMetric('')
+        setNewRuleAmounts('')
         void fetchData()
         onUpdate?.()
       } else {
@@ -289,12 +327,45 @@ export function PrizePhaseManager({ sessionId, isAdmin, onUpdate }: PrizePhaseMa
     }
   }
 
+  // Con categorie a regola, prima della conferma si mostra cosa cambierebbe
+  const handleRequestFinalize = async () => {
+    if (!data?.categories.some(c => c.rule)) {
+      setShowFinalizeConfirm(true)
+      return
+    }
+    setIsSubmitting(true)
+    try {
+      const result = await prizePhaseApi.previewRules(sessionId)
+      if (result.success && result.data) {
+        setRulePreview(result.data)
+        setShowFinalizeConfirm(true)
+      } else {
+        setError(result.message || 'Errore calcolo regole')
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleCancelFinalize = () => {
+    setShowFinalizeConfirm(false)
+    setRulePreview(null)
+  }
+
   const handleFinalize = async () => {
     setIsSubmitting(true)
     try {
+      if (rulePreview?.hasChanges) {
+        const applyResult = await prizePhaseApi.applyRules(sessionId)
+        if (!applyResult.success) {
+          setError(applyResult.message || 'Errore applicazione regole')
+          return
+        }
+      }
       const result = await prizePhaseApi.finalize(sessionId)
       if (result.success) {
         setShowFinalizeConfirm(false)
+        setRulePreview(null)
         void fetchData()
         onUpdate?.()
       } else {
@@ -766,8 +837,11 @@ export function PrizePhaseManager({ sessionId, isAdmin, onUpdate }: PrizePhaseMa
                   <th className="text-center p-2 border-l border-surface-50/20">Budget</th>
                   {regularCategories.map(cat => (
                     <th key={cat.id} className="text-center p-2 min-w-[100px]">
-                      <div className="flex items-center justify-center gap-1">
+                      <div className="flex items-center justify-center gap-1" title={cat.rule ? describePrizeRule(cat.rule) : undefined}>
                         <span className="truncate">{cat.name}</span>
+                        {cat.rule && (
+                          <span className="text-[10px] px-1 rounded bg-primary-500/20 text-primary-400 normal-case">auto</span>
+                        )}
                         {!cat.isSystemPrize && !config.isFinalized && (
                           <button
                             onClick={() => { void handleDeleteCategory(cat.id) }}
@@ -825,7 +899,8 @@ export function PrizePhaseManager({ sessionId, isAdmin, onUpdate }: PrizePhaseMa
                         } else if (inputDisplayValue !== '') {
                           // Save the new value
                           const newValue = parseInt(inputDisplayValue, 10)
-                          if (!isNaN(newValue) && newValue >= 0) {
+                          // Negativo = penalità, come per le categorie con regola
+                          if (validatePrizeAmount(newValue) === null) {
                             handlePrizeChange(cat.id, member.id, newValue)
                             void handleSavePrize(cat.id, member.id, newValue)
                           }
@@ -847,7 +922,7 @@ export function PrizePhaseManager({ sessionId, isAdmin, onUpdate }: PrizePhaseMa
                       }
 
                       const handleDecrement = () => {
-                        const newValue = Math.max(0, savedValue - 1)
+                        const newValue = Math.max(-PRIZE_RULE_LIMITS.maxAmount, savedValue - 1)
                         handlePrizeChange(cat.id, member.id, newValue)
                         void handleSavePrize(cat.id, member.id, newValue)
                       }
@@ -861,7 +936,7 @@ export function PrizePhaseManager({ sessionId, isAdmin, onUpdate }: PrizePhaseMa
                               <button
                                 onClick={handleDecrement}
                                 className="w-6 h-6 bg-surface-400 hover:bg-surface-500 text-white rounded text-sm font-bold flex items-center justify-center"
-                                disabled={isSubmitting || savedValue === 0}
+                                disabled={isSubmitting || savedValue === -PRIZE_RULE_LIMITS.maxAmount}
                               >
                                 -
                               </button>
@@ -873,7 +948,8 @@ export function PrizePhaseManager({ sessionId, isAdmin, onUpdate }: PrizePhaseMa
                                 onFocus={handleFocus}
                                 onBlur={handleBlur}
                                 className="w-14 px-1 py-1 bg-surface-300 border border-surface-50/20 rounded text-white text-center text-sm"
-                                min={0}
+                                min={-PRIZE_RULE_LIMITS.maxAmount}
+                                max={PRIZE_RULE_LIMITS.maxAmount}
                                 placeholder={isFocused ? String(focusedInput?.originalValue) : ''}
                               />
                               <button
@@ -956,7 +1032,7 @@ export function PrizePhaseManager({ sessionId, isAdmin, onUpdate }: PrizePhaseMa
                           <div className="flex items-center gap-1">
                             <button
                               onClick={() => {
-                                const newValue = Math.max(0, savedValue - 1)
+                                const newValue = Math.max(-PRIZE_RULE_LIMITS.maxAmount, savedValue - 1)
                                 handlePrizeChange(cat.id, member.id, newValue)
                                 void handleSavePrize(cat.id, member.id, newValue)
                               }}
@@ -1008,6 +1084,40 @@ export function PrizePhaseManager({ sessionId, isAdmin, onUpdate }: PrizePhaseMa
                   Aggiungi Categoria
                 </Button>
               </div>
+              <div className="flex flex-wrap items-center gap-3 mt-3 text-sm">
+                <select
+                  value={newRuleMetric}
+                  onChange={(e) => { setNewRuleMetric(e.target.value as PrizeRuleMetric | ''); }}
+                  className="px-3 py-2 bg-surface-300 border border-surface-50/20 rounded-lg text-white"
+                >
+                  <option value="">Importi manuali</option>
+                  {(Object.keys(PRIZE_RULE_METRICS) as PrizeRuleMetric[]).map(metric => (
+                    <option key={metric} value={metric}>{PRIZE_RULE_METRICS[metric].label}</option>
+                  ))}
+                </select>
+                {newRuleMetric && (
+                  <>
+                    <select
+                      value={newRuleDirection}
+                      onChange={(e) => { setNewRuleDirection(e.target.value as PrizeRuleDirection); }}
+                      className="px-3 py-2 bg-surface-300 border border-surface-50/20 rounded-lg text-white"
+                    >
+                      <option value="TOP">Dal migliore</option>
+                      <option value="BOTTOM">Dal peggiore</option>
+                    </select>
+                    <input
+                      type="text"
+                      value={newRuleAmounts}
+                      onChange={(e) => { setNewRuleAmounts(e.target.value); }}
+                      placeholder="Importi per posizione (es. 80, 60, 40)"
+                      className="flex-1 px-3 py-2 bg-surface-300 border border-surface-50/20 rounded-lg text-white placeholder-gray-500"
+                    />
+                    <span className="w-full text-xs text-gray-500">
+                      {PRIZE_RULE_METRICS[newRuleMetric].description}. Gli importi vengono ricalcolati prima della finalizzazione.
+                    </span>
+                  </>
+                )}
+              </div>
             </div>
           )}
         </div>
@@ -1091,28 +1201,71 @@ export function PrizePhaseManager({ sessionId, isAdmin, onUpdate }: PrizePhaseMa
 
           {!showFinalizeConfirm ? (
             <Button
-              onClick={() => { setShowFinalizeConfirm(true); }}
+              onClick={() => void handleRequestFinalize()}
               disabled={isSubmitting}
             >
               Finalizza Premi
             </Button>
           ) : (
-            <div className="flex items-center gap-3 bg-warning-500/20 p-4 rounded-lg">
-              <span className="text-warning-400">Confermi la finalizzazione dei premi?</span>
-              <Button
-                size="sm"
-                onClick={() => void handleFinalize()}
-                disabled={isSubmitting}
-              >
-                Conferma
-              </Button>
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={() => { setShowFinalizeConfirm(false); }}
-              >
-                Annulla
-              </Button>
+            <div className="space-y-4">
+              {rulePreview && (
+                <div className="bg-surface-300 rounded-lg p-4 space-y-3 text-sm">
+                  <h4 className="font-semibold text-white">Premi calcolati dalle regole</h4>
+                  {rulePreview.categories.map(cat => (
+                    <div key={cat.categoryId}>
+                      <p className="text-gray-300">
+                        {cat.name} <span className="text-gray-500">— {cat.description}</span>
+                      </p>
+                      {cat.noData ? (
+                        <p className="text-warning-400 text-xs">Dati non disponibili: importi invariati</p>
+                      ) : cat.changes.length === 0 ? (
+                        <p className="text-gray-500 text-xs">Nessuna modifica</p>
+                      ) : (
+                        <ul className="text-xs text-gray-400">
+                          {cat.changes.map(change => (
+                            <li key={change.memberId}>
+                              {change.teamName || change.username}: {change.current}M → <span className="text-white font-medium">{change.proposed}M</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                  {rulePreview.members.length > 0 && (
+                    <div className="pt-3 border-t border-surface-50/20">
+                      <p className="text-gray-300 mb-1">Premio totale</p>
+                      <ul className="text-xs text-gray-400">
+                        {rulePreview.members.map(member => (
+                          <li key={member.memberId}>
+                            {member.teamName || member.username}: {member.currentTotal}M → <span className="text-primary-400 font-medium">{member.proposedTotal}M</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+              <div className="flex items-center gap-3 bg-warning-500/20 p-4 rounded-lg">
+                <span className="text-warning-400">
+                  {rulePreview?.hasChanges
+                    ? 'Confermi l\'applicazione delle regole e la finalizzazione dei premi?'
+                    : 'Confermi la finalizzazione dei premi?'}
+                </span>
+                <Button
+                  size="sm"
+                  onClick={() => void handleFinalize()}
+                  disabled={isSubmitting}
+                >
+                  Conferma
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={handleCancelFinalize}
+                >
+                  Annulla
+                </Button>
+              </div>
             </div>
           )}
         </div>
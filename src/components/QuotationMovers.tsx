@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react'
+import { playerApi } from '../services/api'
+import type { QuotationMover, QuotationMoversData } from '../types/quotation.types'
+
+interface QuotationMoversProps {
+  // Con leagueId: solo giocatori nelle rose della lega, con il proprietario
+  leagueId?: string
+  limit?: number
+}
+
+function MoverList({ title, movers, showOwner, tone }: {
+  title: string
+  movers: QuotationMover[]
+  showOwner: boolean
+  tone: 'up' | 'down'
+}) {
+  return (
+    <div className="bg-surface-300 rounded-lg p-4">
+      <h4 className={`text-sm font-semibold mb-3 ${tone === 'up' ? 'text-secondary-400' : 'text-danger-400'}`}>{title}</h4>
+      {movers.length === 0 ? (
+        <p className="text-xs text-gray-500">Nessuna variazione</p>
+      ) : (
+        <ul className="space-y-2">
+          {movers.map(m => (
+            <li key={m.playerId} className="flex items-center justify-between gap-3 text-sm">
+              <div className="min-w-0">
+                <p className="text-white truncate">
+                  <span className="text-gray-500 text-xs mr-1.5">{m.position}</span>
+                  {m.name}
+                </p>
+                <p className="text-xs text-gray-500 truncate">
+                  {m.team}{showOwner && m.owner ? ` · ${m.owner.teamName || m.owner.username}` : ''}
+                </p>
+              </div>
+              <div className="text-right flex-shrink-0">
+                <p className={`font-bold ${tone === 'up' ? 'text-secondary-400' : 'text-danger-400'}`}>
+                  {m.delta > 0 ? '+' : ''}{m.delta}
+                </p>
+                <p className="text-xs text-gray-500">{m.previousQuotation} → {m.quotation}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+// Maggiori rialzi e ribassi di quotazione dall'upload precedente
+export function QuotationMovers({ leagueId, limit = 10 }: QuotationMoversProps) {
+  const [data, setData] = useState<QuotationMoversData | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    setLoading(true)
+    void playerApi.getQuotationMovers(leagueId, limit).then(res => {
+      setData(res.success && res.data ? res.data : null)
+      setLoading(false)
+    })
+  }, [leagueId, limit])
+
+  if (loading) {
+    return <div className="text-center py-6 text-gray-400 text-sm">Caricamento...</div>
+  }
+
+  if (!data?.previousUpload || !data.latestUpload) {
+    return (
+      <div className="text-center py-6 text-gray-500 text-sm">
+        Servono almeno due upload delle quotazioni per confrontare le variazioni
+      </div>
+    )
+  }
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString('it-IT', { day: '2-digit', month: 'short', year: 'numeric' })
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">
+        Variazioni tra l'upload del {formatDate(data.previousUpload.createdAt)} e quello del {formatDate(data.latestUpload.createdAt)}
+      </p>
+      <div className="grid gap-4 md:grid-cols-2">
+        <MoverList title="Maggiori rialzi" movers={data.risers} showOwner={!!leagueId} tone="up" />
+        <MoverList title="Maggiori ribassi" movers={data.fallers} showOwner={!!leagueId} tone="down" />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react'
+import { playerApi } from '../services/api'
+import { Sparkline } from './Sparkline'
+import type { QuotationHistoryPoint } from '../types/quotation.types'
+
+interface QuotationTrendProps {
+  playerId: string
+  className?: string
+}
+
+// Andamento della quotazione negli upload del file quotazioni
+export function QuotationTrend({ playerId, className = '' }: QuotationTrendProps) {
+  const [history, setHistory] = useState<QuotationHistoryPoint[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+    void playerApi.getQuotationHistory(playerId).then(res => {
+      if (!cancelled) setHistory(res.success && res.data ? res.data : [])
+    })
+    return () => { cancelled = true }
+  }, [playerId])
+
+  if (history.length < 2) return null
+
+  const first = history[0]!
+  const last = history[history.length - 1]!
+  const delta = last.quotation - first.quotation
+  const formatDate = (date: string) => new Date(date).toLocaleDateString('it-IT', { day: '2-digit', month: 'short' })
+
+  return (
+    <div className={`flex items-center gap-3 ${className}`}>
+      <Sparkline data={history.map(h => h.quotation)} width={120} height={32} />
+      <div className="text-xs">
+        <div className="text-gray-400">
+          {formatDate(first.recordedAt)}: {first.quotation}M → {formatDate(last.recordedAt)}: <span className="text-white font-medium">{last.quotation}M</span>
+        </div>
+        <div className={delta > 0 ? 'text-secondary-400' : delta < 0 ? 'text-danger-400' : 'text-gray-500'}>
+          {delta > 0 ? '+' : ''}{delta}M in {history.length} aggiornamenti
+        </div>
+      </div>
+    </div>
+  )
+}
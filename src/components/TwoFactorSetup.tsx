@@ -0,0 +1,129 @@
+import { useEffect, useState, type FormEvent } from 'react'
+import { authApi } from '../services/api'
+import { Button } from './ui/Button'
+import { Input } from './ui/Input'
+
+export interface TwoFactorSetupResult {
+  recoveryCodes: string[]
+  user?: { id: string; email: string; username: string }
+  accessToken?: string
+}
+
+interface TwoFactorSetupProps {
+  // Presente nella configurazione obbligatoria durante il login
+  challengeToken?: string
+  onComplete: (result: TwoFactorSetupResult) => void
+  onCancel?: () => void
+}
+
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  return (
+    <div className="bg-surface-300 rounded-lg p-4">
+      <p className="text-sm text-gray-400 mb-3">
+        Conserva questi codici in un posto sicuro: ognuno permette un solo accesso se perdi il telefono.
+        Non verranno mostrati di nuovo.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-white">
+        {codes.map(code => (
+          <li key={code} className="bg-surface-400 rounded px-3 py-2 text-center">{code}</li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export function TwoFactorSetup({ challengeToken, onComplete, onCancel }: TwoFactorSetupProps) {
+  const [setup, setSetup] = useState<{ secret: string; qrCodeDataUrl: string } | null>(null)
+  const [code, setCode] = useState('')
+  const [error, setError] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [result, setResult] = useState<TwoFactorSetupResult | null>(null)
+
+  useEffect(() => {
+    void authApi.setupTwoFactor(challengeToken).then(response => {
+      if (response.success && response.data) {
+        setSetup(response.data)
+      } else {
+        setError(response.message || 'Impossibile avviare la configurazione')
+      }
+    })
+  }, [challengeToken])
+
+  async function handleEnable(e: FormEvent) {
+    e.preventDefault()
+    setError('')
+    setIsLoading(true)
+
+    const response = await authApi.enableTwoFactor(code.trim(), challengeToken)
+
+    if (response.success && response.data) {
+      setResult(response.data)
+    } else {
+      setError(response.message || 'Codice non valido')
+    }
+
+    setIsLoading(false)
+  }
+
+  if (result) {
+    return (
+      <div className="space-y-4">
+        <p className="text-secondary-400 font-semibold">Autenticazione a due fattori attivata</p>
+        <RecoveryCodesList codes={result.recoveryCodes} />
+        <Button className="w-full" onClick={() => { onComplete(result) }}>
+          Ho salvato i codici
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={(e) => { void handleEnable(e) }} className="space-y-4">
+      {error && (
+        <div className="bg-danger-500/20 border border-danger-500/50 text-danger-400 p-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <p className="text-sm text-gray-400">
+        Scansiona il QR code con un'app authenticator (Google Authenticator, Authy, 1Password...)
+        e inserisci il codice a 6 cifre generato.
+      </p>
+
+      {setup ? (
+        <div className="flex flex-col items-center gap-3">
+          <img src={setup.qrCodeDataUrl} alt="QR code per l'app authenticator" className="w-48 h-48 rounded-lg bg-white p-2" />
+          <p className="text-xs text-gray-500 text-center">
+            Oppure inserisci manualmente la chiave:{' '}
+            <span className="font-mono text-gray-300 break-all">{setup.secret}</span>
+          </p>
+        </div>
+      ) : !error && (
+        <div className="w-48 h-48 mx-auto rounded-lg bg-surface-300 animate-pulse" />
+      )}
+
+      <Input
+        label="Codice di verifica"
+        type="text"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        maxLength={6}
+        value={code}
+        onChange={e => { setCode(e.target.value.replace(/\D/g, '')) }}
+        placeholder="123456"
+        required
+      />
+
+      <div className="flex gap-3">
+        <Button type="submit" className="flex-1" isLoading={isLoading} disabled={!setup || code.length !== 6}>
+          Attiva
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Annulla
+          </Button>
+        )}
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,154 @@
+import { useState } from 'react'
+import { Button } from '../ui/Button'
+import type { Member } from './types'
+import type { AuditLogEntry, AuditLogFilters } from '../../types/audit-log.types'
+
+export interface AdminAuditTabProps {
+  entries: AuditLogEntry[]
+  members: Member[]
+  filters: AuditLogFilters
+  isLoading: boolean
+  isSubmitting: boolean
+  onFiltersChange: (filters: AuditLogFilters) => void
+  handleExport: () => void
+}
+
+const ENTITY_TYPES = [
+  'League', 'LeagueMember', 'LeagueInvite', 'MarketSession', 'Auction', 'AuctionAppeal',
+  'PrizeCategory', 'TradeOffer', 'ContractConsolidation', 'ChatMessage', 'StandingsImport',
+]
+
+export const AUDIT_PHASE_LABELS: Record<string, string> = {
+  ASTA_LIBERA: 'Asta Primo Mercato',
+  OFFERTE_PRE_RINNOVO: 'Scambi e Offerte',
+  PREMI: 'Premi',
+  CONTRATTI: 'Contratti',
+  RUBATA: 'Rubata',
+  ASTA_SVINCOLATI: 'Asta Svincolati',
+  OFFERTE_POST_ASTA_SVINCOLATI: 'Scambi Finali',
+}
+
+const inputClass = 'px-3 py-1.5 bg-surface-300 border border-surface-50/20 rounded-lg text-white text-sm'
+
+function ValuesBlock({ label, values }: { label: string; values: Record<string, unknown> | null }) {
+  if (!values) return null
+  return (
+    <div className="flex-1 min-w-[200px]">
+      <p className="text-xs font-semibold text-gray-400 uppercase mb-1">{label}</p>
+      <pre className="text-xs text-gray-300 bg-surface-200 rounded-lg p-2 overflow-x-auto whitespace-pre-wrap break-all">
+        {JSON.stringify(values, null, 2)}
+      </pre>
+    </div>
+  )
+}
+
+export function AdminAuditTab({ entries, members, filters, isLoading, isSubmitting, onFiltersChange, handleExport }: AdminAuditTabProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  function setFilter(key: keyof AuditLogFilters, value: string) {
+    onFiltersChange({ ...filters, [key]: value || undefined })
+  }
+
+  return (
+    <div className="bg-surface-200 rounded-xl border border-surface-50/20 overflow-hidden">
+      <div className="p-5 border-b border-surface-50/20 flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="text-xl font-bold text-white flex items-center gap-3">
+            <span>🔍</span> Audit Log
+          </h3>
+          <p className="text-sm text-gray-400 mt-1">
+            Tutte le azioni dell'admin con valori prima/dopo, IP e dispositivo: utile per risolvere le contestazioni tra manager.
+          </p>
+        </div>
+        <Button size="sm" variant="outline" onClick={handleExport} disabled={isSubmitting || entries.length === 0}>
+          Esporta CSV
+        </Button>
+      </div>
+
+      <div className="p-4 border-b border-surface-50/20 flex flex-wrap gap-3 items-end">
+        <label className="flex flex-col gap-1 text-xs text-gray-400">
+          Autore
+          <select value={filters.userId ?? ''} onChange={e => { setFilter('userId', e.target.value); }} className={inputClass}>
+            <option value="">Tutti</option>
+            {members.map(m => (
+              <option key={m.user.id} value={m.user.id}>{m.user.username}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-gray-400">
+          Entità
+          <select value={filters.entityType ?? ''} onChange={e => { setFilter('entityType', e.target.value); }} className={inputClass}>
+            <option value="">Tutte</option>
+            {ENTITY_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-gray-400">
+          Fase
+          <select value={filters.phase ?? ''} onChange={e => { setFilter('phase', e.target.value); }} className={inputClass}>
+            <option value="">Tutte</option>
+            {Object.entries(AUDIT_PHASE_LABELS).map(([phase, label]) => (
+              <option key={phase} value={phase}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-gray-400">
+          Dal
+          <input type="date" value={filters.from ?? ''} onChange={e => { setFilter('from', e.target.value); }} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-gray-400">
+          Al
+          <input type="date" value={filters.to ?? ''} onChange={e => { setFilter('to', e.target.value); }} className={inputClass} />
+        </label>
+        {Object.values(filters).some(Boolean) && (
+          <button onClick={() => { onFiltersChange({}); }} className="text-xs text-gray-400 hover:text-white pb-2">
+            Azzera filtri
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-8 h-8 border-2 border-accent-500/30 border-t-accent-500 rounded-full animate-spin"></div>
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="p-5 text-sm text-gray-500 text-center">Nessuna azione registrata con questi filtri</p>
+      ) : (
+        <ul className="divide-y divide-surface-50/10">
+          {entries.map(entry => (
+            <li key={entry.id} className="p-4">
+              <button
+                onClick={() => { setExpandedId(expandedId === entry.id ? null : entry.id); }}
+                className="w-full flex flex-wrap items-center gap-3 text-left"
+              >
+                <span className="px-2 py-0.5 rounded text-xs font-bold bg-surface-300 text-gray-300 font-mono">
+                  {entry.action}
+                </span>
+                <span className="flex-1 text-sm text-white">
+                  {entry.user?.username ?? 'Sistema'}
+                  {entry.entityType && <span className="text-gray-500"> · {entry.entityType}</span>}
+                </span>
+                {entry.phase && (
+                  <span className="text-xs text-primary-400">{AUDIT_PHASE_LABELS[entry.phase] ?? entry.phase}</span>
+                )}
+                <span className="text-xs text-gray-500">{new Date(entry.createdAt).toLocaleString('it-IT')}</span>
+              </button>
+
+              {expandedId === entry.id && (
+                <div className="mt-3 bg-surface-300 rounded-lg p-4 space-y-3">
+                  <div className="flex flex-wrap gap-3">
+                    <ValuesBlock label="Prima" values={entry.oldValues} />
+                    <ValuesBlock label="Dopo" values={entry.newValues} />
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {entry.entityId && <>ID: {entry.entityId} · </>}
+                    IP: {entry.ipAddress ?? '-'} · {entry.userAgent ?? 'dispositivo sconosciuto'}
+                  </p>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,207 @@
+import { useState, useEffect } from 'react'
+import { Button } from '../ui/Button'
+import { NumberStepper } from '../ui/NumberStepper'
+import {
+  CONTRACT_RULESET_LIMITS,
+  describeReleaseCostFormula,
+  validateContractRuleset,
+  type ContractRuleset,
+} from '../../utils/contract-rules'
+
+export interface AdminContractRulesTabProps {
+  rules: ContractRuleset | null
+  isCustom: boolean
+  isLoading: boolean
+  // Regole bloccate durante la fase CONTRATTI
+  isLocked: boolean
+  rosterSlots: number
+  isSubmitting: boolean
+  handleSaveRules: (rules: ContractRuleset) => void
+  handleResetRules: () => void
+}
+
+export function AdminContractRulesTab({
+  rules,
+  isCustom,
+  isLoading,
+  isLocked,
+  rosterSlots,
+  isSubmitting,
+  handleSaveRules,
+  handleResetRules,
+}: AdminContractRulesTabProps) {
+  const [draft, setDraft] = useState<ContractRuleset | null>(rules)
+
+  useEffect(() => {
+    setDraft(rules)
+  }, [rules])
+
+  if (isLoading || !draft) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-2 border-accent-500/30 border-t-accent-500 rounded-full animate-spin"></div>
+      </div>
+    )
+  }
+
+  const errors = validateContractRuleset(draft, { rosterSlots })
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(rules)
+
+  function updateField<K extends keyof ContractRuleset>(key: K, value: ContractRuleset[K]) {
+    setDraft(prev => prev ? { ...prev, [key]: value } : prev)
+  }
+
+  // Cambiando la durata massima si aggiunge/rimuove la riga del moltiplicatore
+  function updateMaxDuration(maxDuration: number) {
+    setDraft(prev => {
+      if (!prev) return prev
+      const durationMultipliers: Record<number, number> = {}
+      for (let d = 1; d <= maxDuration; d++) {
+        durationMultipliers[d] = prev.durationMultipliers[d] ?? prev.durationMultipliers[d - 1] ?? 1
+      }
+      return {
+        ...prev,
+        maxDuration,
+        durationMultipliers,
+        defaultDuration: Math.min(prev.defaultDuration, maxDuration),
+      }
+    })
+  }
+
+  function updateMultiplier(duration: number, multiplier: number) {
+    setDraft(prev => prev ? { ...prev, durationMultipliers: { ...prev.durationMultipliers, [duration]: multiplier } } : prev)
+  }
+
+  const durations = Array.from({ length: draft.maxDuration }, (_, i) => draft.maxDuration - i)
+
+  return (
+    <div className="space-y-6">
+      {isLocked && (
+        <div className="bg-warning-500/20 border border-warning-500/50 text-warning-400 p-4 rounded-xl text-sm">
+          Fase CONTRATTI in corso: le regole non possono essere modificate finché la fase non è conclusa.
+        </div>
+      )}
+
+      {/* Clausola rescissoria */}
+      <div className="bg-surface-200 rounded-xl border border-surface-50/20 overflow-hidden">
+        <div className="p-5 border-b border-surface-50/20 flex items-center justify-between">
+          <h3 className="text-xl font-bold text-white flex items-center gap-3">
+            <span>📜</span> Durata e Clausola Rescissoria
+          </h3>
+          <span className={`px-3 py-1 rounded-full text-xs font-bold border ${
+            isCustom
+              ? 'bg-accent-500/20 text-accent-400 border-accent-500/40'
+              : 'bg-surface-50/20 text-gray-400 border-surface-50/30'
+          }`}>
+            {isCustom ? 'Personalizzate' : 'Default'}
+          </span>
+        </div>
+        <div className="p-5 space-y-5">
+          <NumberStepper
+            label="Durata massima contratto (semestri)"
+            value={draft.maxDuration}
+            onChange={updateMaxDuration}
+            min={1}
+            max={CONTRACT_RULESET_LIMITS.maxDuration}
+            size="sm"
+          />
+          <div>
+            <p className="text-sm font-semibold text-gray-300 mb-2">Moltiplicatore clausola per durata</p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {durations.map(duration => (
+                <div key={duration} className="bg-surface-300 rounded-lg p-3">
+                  <NumberStepper
+                    label={`${duration} semestr${duration === 1 ? 'e' : 'i'}`}
+                    value={draft.durationMultipliers[duration] ?? 1}
+                    onChange={(value) => { updateMultiplier(duration, value); }}
+                    min={1}
+                    max={CONTRACT_RULESET_LIMITS.maxMultiplier}
+                    size="sm"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">Clausola = Ingaggio × Moltiplicatore</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Ingaggi, tagli e rosa */}
+      <div className="bg-surface-200 rounded-xl border border-surface-50/20 overflow-hidden">
+        <div className="p-5 border-b border-surface-50/20">
+          <h3 className="text-xl font-bold text-white flex items-center gap-3">
+            <span>💰</span> Ingaggi, Tagli e Rosa
+          </h3>
+        </div>
+        <div className="p-5 grid grid-cols-1 md:grid-cols-2 gap-5">
+          <NumberStepper
+            label="Ingaggio contratto automatico (% prezzo d'asta)"
+            value={draft.defaultSalaryPercent}
+            onChange={(value) => { updateField('defaultSalaryPercent', value); }}
+            min={1}
+            max={100}
+            size="sm"
+          />
+          <NumberStepper
+            label="Durata contratto automatico (semestri)"
+            value={draft.defaultDuration}
+            onChange={(value) => { updateField('defaultDuration', value); }}
+            min={1}
+            max={draft.maxDuration}
+            size="sm"
+          />
+          <NumberStepper
+            label="Ingaggio minimo nuovi contratti (% prezzo)"
+            value={draft.minSalaryPercent}
+            onChange={(value) => { updateField('minSalaryPercent', value); }}
+            min={0}
+            max={100}
+            size="sm"
+          />
+          <NumberStepper
+            label="Costo taglio (% di ingaggio × durata)"
+            value={draft.releaseCostPercent}
+            onChange={(value) => { updateField('releaseCostPercent', value); }}
+            min={0}
+            max={100}
+            step={5}
+            size="sm"
+          />
+          <NumberStepper
+            label={`Rosa massima dopo consolidamento (slot lega: ${rosterSlots})`}
+            value={draft.maxRosterSize}
+            onChange={(value) => { updateField('maxRosterSize', value); }}
+            min={CONTRACT_RULESET_LIMITS.minRosterSize}
+            max={CONTRACT_RULESET_LIMITS.maxRosterSize}
+            size="sm"
+          />
+          <div className="bg-surface-300 rounded-lg p-3 text-sm text-gray-400">
+            Formula taglio: <span className="text-white font-medium">{describeReleaseCostFormula(draft)}</span>
+          </div>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="bg-danger-500/20 border border-danger-500/50 text-danger-400 p-4 rounded-xl text-sm space-y-1">
+          {errors.map(err => <p key={err}>{err}</p>)}
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-3 justify-end">
+        <Button
+          variant="outline"
+          onClick={handleResetRules}
+          disabled={isSubmitting || isLocked || !isCustom}
+        >
+          Ripristina Default
+        </Button>
+        <Button
+          onClick={() => { handleSaveRules(draft); }}
+          disabled={isSubmitting || isLocked || !isDirty || errors.length > 0}
+        >
+          {isSubmitting ? 'Salvataggio...' : 'Salva Regole'}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+import { useState } from 'react'
+import { Button } from '../ui/Button'
+import type { CompensationJournalEntry, CompensationPreview } from '../../types/compensation.types'
+
+export interface AdminJournalTabProps {
+  entries: CompensationJournalEntry[]
+  isLoading: boolean
+  isSubmitting: boolean
+  handlePreview: (entryId: string) => Promise<CompensationPreview | null>
+  handleApply: (entryId: string, reason: string) => Promise<boolean>
+}
+
+const OPERATION_LABELS: Record<string, string> = {
+  RUBATA_TRANSFER: 'Rubata',
+  SVINCOLATI_ACQUISITION: 'Svincolati',
+  TRADE_ACCEPTED: 'Scambio',
+  PRIZES_FINALIZED: 'Premi',
+  CONTRACTS_CONSOLIDATED: 'Consolidamento',
+  INDEMNITIES_CONSOLIDATED: 'Indennizzi',
+}
+
+export function AdminJournalTab({ entries, isLoading, isSubmitting, handlePreview, handleApply }: AdminJournalTabProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [preview, setPreview] = useState<CompensationPreview | null>(null)
+  const [reason, setReason] = useState('')
+
+  async function openPreview(entryId: string) {
+    setSelectedId(entryId)
+    setPreview(null)
+    setReason('')
+    setPreview(await handlePreview(entryId))
+  }
+
+  async function apply() {
+    if (!selectedId) return
+    if (await handleApply(selectedId, reason.trim())) {
+      setSelectedId(null)
+      setPreview(null)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-2 border-accent-500/30 border-t-accent-500 rounded-full animate-spin"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-surface-200 rounded-xl border border-surface-50/20 overflow-hidden">
+      <div className="p-5 border-b border-surface-50/20">
+        <h3 className="text-xl font-bold text-white flex items-center gap-3">
+          <span>↩️</span> Storico Operazioni
+        </h3>
+        <p className="text-sm text-gray-400 mt-1">
+          Rubate, svincolati, scambi, premi e consolidamenti registrano l'operazione inversa: puoi annullarne una dopo averne visto l'anteprima.
+        </p>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="p-5 text-sm text-gray-500 text-center">Nessuna operazione registrata</p>
+      ) : (
+        <ul className="divide-y divide-surface-50/10">
+          {entries.map(entry => (
+            <li key={entry.id} className="p-4">
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="px-2 py-0.5 rounded text-xs font-bold bg-surface-300 text-gray-300">
+                  {OPERATION_LABELS[entry.operation] ?? entry.operation}
+                </span>
+                <span className="flex-1 text-sm text-white">{entry.description}</span>
+                <span className="text-xs text-gray-500">
+                  {new Date(entry.createdAt).toLocaleString('it-IT')}
+                  {entry.performedBy && ` · ${entry.performedBy}`}
+                </span>
+                {entry.reversedAt ? (
+                  <span
+                    className="px-2 py-0.5 rounded-full text-xs font-bold bg-danger-500/20 text-danger-400"
+                    title={entry.reverseReason ?? undefined}
+                  >
+                    Annullata{entry.reversedBy && ` da ${entry.reversedBy}`}
+                  </span>
+                ) : (
+                  <Button size="sm" variant="outline" onClick={() => void openPreview(entry.id)} disabled={isSubmitting}>
+                    Anteprima rollback
+                  </Button>
+                )}
+              </div>
+
+              {selectedId === entry.id && preview && (
+                <div className="mt-3 bg-surface-300 rounded-lg p-4 space-y-3">
+                  <div>
+                    <p className="text-xs font-semibold text-gray-400 uppercase mb-1">Modifiche</p>
+                    <ul className="text-sm text-gray-300 list-disc list-inside space-y-0.5">
+                      {preview.changes.map((change, i) => <li key={i}>{change}</li>)}
+                    </ul>
+                  </div>
+                  {preview.conflicts.length > 0 && (
+                    <div className="bg-danger-500/10 border border-danger-500/30 rounded-lg p-3 text-sm text-danger-400 space-y-1">
+                      {preview.conflicts.map((conflict, i) => <p key={i}>{conflict}</p>)}
+                    </div>
+                  )}
+                  {preview.warnings.length > 0 && (
+                    <div className="bg-warning-500/10 border border-warning-500/30 rounded-lg p-3 text-sm text-warning-400 space-y-1">
+                      {preview.warnings.map((warning, i) => <p key={i}>{warning}</p>)}
+                    </div>
+                  )}
+                  {preview.canApply && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <input
+                        type="text"
+                        value={reason}
+                        onChange={e => { setReason(e.target.value); }}
+                        placeholder="Motivo del rollback"
+                        maxLength={500}
+                        className="flex-1 min-w-[200px] bg-surface-200 border border-surface-50/30 rounded-lg px-3 py-2 text-sm text-white"
+                      />
+                      <Button size="sm" variant="danger" onClick={() => void apply()} disabled={isSubmitting || reason.trim().length < 3}>
+                        Conferma rollback
+                      </Button>
+                    </div>
+                  )}
+                  <button
+                    onClick={() => { setSelectedId(null); setPreview(null); }}
+                    className="text-xs text-gray-400 hover:text-white"
+                  >
+                    Chiudi
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
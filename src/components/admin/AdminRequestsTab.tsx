@@ -15,6 +15,8 @@ export interface AdminRequestsTabProps {
   handleMemberAction: (memberId: string, action: 'accept' | 'reject') => void
   handleCreateInvite: () => void
   handleCancelInvite: (inviteId: string) => void
+  requireVerifiedEmail: boolean
+  handleToggleVerifiedEmail: (value: boolean) => void
 }
 
 export function AdminRequestsTab({
@@ -28,6 +30,8 @@ export function AdminRequestsTab({
   handleMemberAction,
   handleCreateInvite,
   handleCancelInvite,
+  requireVerifiedEmail,
+  handleToggleVerifiedEmail,
 }: AdminRequestsTabProps) {
   const [expiryDateLabel, setExpiryDateLabel] = useState('')
   useEffect(() => {
@@ -43,6 +47,23 @@ export function AdminRequestsTab({
 
   return (
     <div className="space-y-6">
+      {/* Access Settings */}
+      <label className="flex items-start gap-3 bg-surface-200 rounded-xl border border-surface-50/20 p-5 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={requireVerifiedEmail}
+          disabled={isSubmitting}
+          onChange={(e) => { handleToggleVerifiedEmail(e.target.checked); }}
+          className="mt-1 h-4 w-4 accent-primary-500"
+        />
+        <span>
+          <span className="block font-bold text-white">Richiedi email verificata</span>
+          <span className="block text-sm text-gray-400">
+            Solo chi ha confermato la propria email può accettare un invito o richiedere di unirsi.
+          </span>
+        </span>
+      </label>
+
       {/* Pending Members */}
       <div className="bg-surface-200 rounded-xl border border-surface-50/20 overflow-hidden">
         <div className="p-5 border-b border-surface-50/20">
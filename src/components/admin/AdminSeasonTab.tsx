@@ -0,0 +1,278 @@
+import { useEffect, useState } from 'react'
+import { Button } from '../ui/Button'
+import type {
+  SeasonArchiveSummary,
+  SeasonBudgetPolicy,
+  SeasonMemberChange,
+  SeasonRolloverPreview,
+  SeasonRolloverReport,
+  SeasonStandingEntry,
+} from '../../types/season-rollover.types'
+
+export interface AdminSeasonTabProps {
+  archives: SeasonArchiveSummary[]
+  isLoading: boolean
+  isSubmitting: boolean
+  handlePreview: (policy?: SeasonBudgetPolicy) => Promise<SeasonRolloverPreview | null>
+  handleApply: (policy: SeasonBudgetPolicy) => Promise<SeasonRolloverReport | null>
+  // Riapre il mercato dell'ultima stagione chiusa se il cambio si è fermato dopo l'archiviazione
+  handleRetryMarket: () => Promise<void>
+}
+
+const STANDINGS_SOURCE_LABELS: Record<string, string> = {
+  IMPORT: 'classifica importata',
+  MATCHDAYS: 'punteggi delle giornate',
+  NONE: 'nessuna classifica disponibile',
+}
+
+const inputClass = 'px-3 py-1.5 bg-surface-300 border border-surface-50/20 rounded-lg text-white text-sm'
+
+function StandingsList({ entries }: { entries: SeasonStandingEntry[] }) {
+  if (entries.length === 0) return <p className="text-sm text-gray-500">Nessuna classifica da archiviare</p>
+  return (
+    <ol className="text-sm text-gray-300 space-y-0.5">
+      {entries.map(e => (
+        <li key={e.memberId} className="flex justify-between gap-3">
+          <span>{e.rank}. {e.teamName ?? e.username}</span>
+          <span className="font-mono text-gray-400">{e.points}</span>
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+function BudgetTable({ members }: { members: SeasonMemberChange[] }) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-xs text-gray-400 uppercase text-left">
+          <th className="py-1">Manager</th>
+          <th className="py-1 text-right">Budget</th>
+          <th className="py-1 text-right">Nuovo budget</th>
+          <th className="py-1 text-right">Ingaggi</th>
+          <th className="py-1 text-right">In scadenza</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-surface-50/10">
+        {members.map(m => (
+          <tr key={m.memberId} className="text-gray-300">
+            <td className="py-1">{m.teamName ?? m.username}</td>
+            <td className="py-1 text-right font-mono">{m.budget}</td>
+            <td className={`py-1 text-right font-mono ${m.newBudget === m.budget ? '' : m.newBudget > m.budget ? 'text-secondary-400' : 'text-danger-400'}`}>
+              {m.newBudget}
+            </td>
+            <td className="py-1 text-right font-mono">{m.totalSalaries}</td>
+            <td className="py-1 text-right font-mono">{m.expiringCount}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+export function AdminSeasonTab({ archives, isLoading, isSubmitting, handlePreview, handleApply, handleRetryMarket }: AdminSeasonTabProps) {
+  const [policy, setPolicy] = useState<SeasonBudgetPolicy | null>(null)
+  const [preview, setPreview] = useState<SeasonRolloverPreview | null>(null)
+  const [report, setReport] = useState<SeasonRolloverReport | null>(null)
+  const [confirmed, setConfirmed] = useState(false)
+
+  // Prima anteprima con la politica salvata sulla lega
+  useEffect(() => {
+    void handlePreview().then(data => {
+      if (data) {
+        setPreview(data)
+        setPolicy(data.policy)
+      }
+    })
+  }, [])
+
+  function updatePolicy(changes: Partial<SeasonBudgetPolicy>) {
+    if (!policy) return
+    setPolicy({ ...policy, ...changes })
+    setPreview(null)
+    setConfirmed(false)
+  }
+
+  async function refreshPreview() {
+    if (!policy) return
+    setPreview(await handlePreview(policy))
+  }
+
+  async function apply() {
+    if (!policy) return
+    const result = await handleApply(policy)
+    if (result) {
+      setReport(result)
+      setPreview(null)
+      setConfirmed(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-surface-200 rounded-xl border border-surface-50/20 overflow-hidden">
+        <div className="p-5 border-b border-surface-50/20">
+          <h3 className="text-xl font-bold text-white flex items-center gap-3">
+            <span>🗓️</span> Cambio Stagione
+          </h3>
+          <p className="text-sm text-gray-400 mt-1">
+            Archivia classifica e situazione finanziaria, applica la politica di budget, scala di un semestre i contratti
+            (svincolando quelli scaduti) e apre il mercato della nuova stagione.
+          </p>
+        </div>
+
+        {report ? (
+          <div className="p-5 space-y-4">
+            <div className={`rounded-lg p-3 text-sm ${report.nextSessionError ? 'bg-warning-500/10 border border-warning-500/30 text-warning-400' : 'bg-secondary-500/10 border border-secondary-500/30 text-secondary-400'}`}>
+              Stagione {report.season} archiviata.{' '}
+              {report.nextSessionError
+                ? `Il mercato della stagione ${report.nextSeason} non è stato aperto: ${report.nextSessionError}`
+                : `Mercato della stagione ${report.nextSeason} aperto.`}
+            </div>
+            <ul className="text-sm text-gray-300 list-disc list-inside space-y-0.5">
+              <li>Snapshot finanziari archiviati: {report.snapshotsCreated}</li>
+              <li>Contratti decrementati: {report.contractsDecremented}</li>
+              <li>Svincolati per scadenza: {report.playersReleased.length > 0 ? report.playersReleased.join(', ') : 'nessuno'}</li>
+            </ul>
+            <BudgetTable members={report.members} />
+          </div>
+        ) : !policy ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="w-8 h-8 border-2 border-accent-500/30 border-t-accent-500 rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <div className="p-5 space-y-5">
+            <div>
+              <p className="text-xs font-semibold text-gray-400 uppercase mb-2">1. Politica di budget</p>
+              <div className="flex flex-wrap gap-3 items-end">
+                <label className="flex flex-col gap-1 text-xs text-gray-400">
+                  Budget
+                  <select
+                    value={policy.mode}
+                    onChange={e => { updatePolicy({ mode: e.target.value as SeasonBudgetPolicy['mode'] }); }}
+                    className={inputClass}
+                  >
+                    <option value="CARRY_OVER">Riporta il residuo</option>
+                    <option value="RESET">Riparti dal budget iniziale</option>
+                  </select>
+                </label>
+                {policy.mode === 'CARRY_OVER' && (
+                  <label className="flex flex-col gap-1 text-xs text-gray-400">
+                    Quota riportata (%)
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={policy.carryOverPercent}
+                      onChange={e => { updatePolicy({ carryOverPercent: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) }); }}
+                      className={`${inputClass} w-28`}
+                    />
+                  </label>
+                )}
+                <label className="flex flex-col gap-1 text-xs text-gray-400">
+                  Bonus stagione
+                  <input
+                    type="number"
+                    min={0}
+                    value={policy.seasonBonus}
+                    onChange={e => { updatePolicy({ seasonBonus: Math.max(0, parseInt(e.target.value) || 0) }); }}
+                    className={`${inputClass} w-28`}
+                  />
+                </label>
+                <Button size="sm" variant="outline" onClick={() => void refreshPreview()} disabled={isSubmitting || preview !== null}>
+                  Aggiorna anteprima
+                </Button>
+              </div>
+            </div>
+
+            {preview && (
+              <>
+                <div>
+                  <p className="text-xs font-semibold text-gray-400 uppercase mb-2">
+                    2. Anteprima: stagione {preview.season} → {preview.nextSeason}
+                  </p>
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="bg-surface-300 rounded-lg p-4">
+                      <p className="text-xs text-gray-400 mb-2">
+                        Classifica finale ({STANDINGS_SOURCE_LABELS[preview.standingsSource]})
+                      </p>
+                      <StandingsList entries={preview.standings} />
+                    </div>
+                    <div className="bg-surface-300 rounded-lg p-4 text-sm text-gray-300 space-y-1">
+                      <p className="text-xs text-gray-400 mb-2">Contratti all'apertura del mercato</p>
+                      <p>Durata scalata di un semestre: {preview.contractsToDecrement}</p>
+                      <p>In scadenza (svincolo senza costi): {preview.expiringContracts.length}</p>
+                      {preview.expiringContracts.length > 0 && (
+                        <p className="text-xs text-gray-500">
+                          {preview.expiringContracts.map(c => `${c.playerName} (${c.salary})`).join(', ')}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="mt-4 bg-surface-300 rounded-lg p-4 overflow-x-auto">
+                    <BudgetTable members={preview.members} />
+                  </div>
+                </div>
+
+                {preview.blockers.length > 0 ? (
+                  <div className="bg-danger-500/10 border border-danger-500/30 rounded-lg p-3 text-sm text-danger-400 space-y-1">
+                    {preview.blockers.map((blocker, i) => <p key={i}>{blocker}</p>)}
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    <p className="text-xs font-semibold text-gray-400 uppercase">3. Conferma</p>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                      <input type="checkbox" checked={confirmed} onChange={e => { setConfirmed(e.target.checked); }} />
+                      Ho verificato le modifiche: la stagione {preview.season} verrà chiusa e non potrà essere riaperta
+                    </label>
+                    <Button variant="danger" onClick={() => void apply()} disabled={isSubmitting || !confirmed}>
+                      Chiudi stagione {preview.season}
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-surface-200 rounded-xl border border-surface-50/20 overflow-hidden">
+        <div className="p-5 border-b border-surface-50/20">
+          <h3 className="text-lg font-bold text-white">Stagioni archiviate</h3>
+        </div>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="w-8 h-8 border-2 border-accent-500/30 border-t-accent-500 rounded-full animate-spin"></div>
+          </div>
+        ) : archives.length === 0 ? (
+          <p className="p-5 text-sm text-gray-500 text-center">Nessuna stagione archiviata</p>
+        ) : (
+          <ul className="divide-y divide-surface-50/10">
+            {archives.map((archive, index) => (
+              <li key={archive.id} className="p-4 space-y-2">
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="text-sm font-bold text-white flex-1">Stagione {archive.season}</span>
+                  <span className="text-xs text-gray-500">
+                    {new Date(archive.createdAt).toLocaleString('it-IT')}
+                    {archive.closedBy && ` · ${archive.closedBy.username}`}
+                  </span>
+                </div>
+                {index === 0 && !archive.nextSessionId && (
+                  <div className="flex flex-wrap items-center gap-3 rounded-lg p-3 text-sm bg-warning-500/10 border border-warning-500/30 text-warning-400">
+                    <span className="flex-1">
+                      Mercato della stagione {archive.season + 1} non aperto{archive.nextSessionError ? `: ${archive.nextSessionError}` : ''}
+                    </span>
+                    <Button size="sm" onClick={() => void handleRetryMarket()} disabled={isSubmitting}>
+                      Riprova apertura mercato
+                    </Button>
+                  </div>
+                )}
+                <StandingsList entries={archive.standings.slice(0, 3)} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
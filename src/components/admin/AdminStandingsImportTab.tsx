@@ -0,0 +1,367 @@
+import { useState } from 'react'
+import { Button } from '../ui/Button'
+import {
+  REQUIRED_FIELDS,
+  STANDINGS_FIELDS,
+  type ColumnMapping,
+  type StandingsField,
+  type StandingsImportKind,
+} from '../../utils/standings-import'
+import type {
+  StandingsFileAnalysis,
+  StandingsFileOptions,
+  StandingsImportHistoryItem,
+} from '../../types/standings-import.types'
+
+export interface AdminStandingsImportTabProps {
+  history: StandingsImportHistoryItem[]
+  isLoadingHistory: boolean
+  isSubmitting: boolean
+  handleAnalyze: (file: File, options: StandingsFileOptions) => Promise<StandingsFileAnalysis | null>
+  handleImport: (file: File, options: StandingsFileOptions) => Promise<boolean>
+}
+
+const KIND_LABELS: Record<StandingsImportKind, string> = {
+  STANDINGS: 'Classifica generale',
+  RESULTS: 'Risultati per giornata',
+}
+
+const CONFIDENCE_STYLES: Record<string, { label: string; className: string }> = {
+  EXACT: { label: 'Esatto', className: 'text-secondary-400' },
+  HIGH: { label: 'Probabile', className: 'text-primary-400' },
+  LOW: { label: 'Da verificare', className: 'text-warning-400' },
+  MANUAL: { label: 'Manuale', className: 'text-accent-400' },
+}
+
+// Campi mostrati nello step di mappatura: obbligatori del tipo + posizione (facoltativa)
+function fieldsFor(kind: StandingsImportKind): StandingsField[] {
+  return kind === 'RESULTS' ? ['team', 'round', 'points'] : ['team', 'points', 'rank']
+}
+
+export function AdminStandingsImportTab({
+  history,
+  isLoadingHistory,
+  isSubmitting,
+  handleAnalyze,
+  handleImport,
+}: AdminStandingsImportTabProps) {
+  const [kind, setKind] = useState<StandingsImportKind>('STANDINGS')
+  // Vuoto = stagione corrente della lega
+  const [season, setSeason] = useState('')
+  const [file, setFile] = useState<File | null>(null)
+  const [analysis, setAnalysis] = useState<StandingsFileAnalysis | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [overrides, setOverrides] = useState<Record<string, string>>({})
+
+  async function analyze(options: Partial<StandingsFileOptions> = {}) {
+    if (!file) return
+    const result = await handleAnalyze(file, {
+      kind,
+      sheetName: analysis?.sheetName,
+      mapping: analysis ? mapping : undefined,
+      overrides,
+      ...options,
+    })
+    if (result) {
+      setAnalysis(result)
+      setMapping(result.mapping)
+    }
+  }
+
+  function reset() {
+    setFile(null)
+    setAnalysis(null)
+    setMapping({})
+    setOverrides({})
+  }
+
+  async function confirmImport() {
+    if (!file || !analysis) return
+    const ok = await handleImport(file, {
+      kind,
+      season: season ? Number(season) : undefined,
+      sheetName: analysis.sheetName,
+      mapping,
+      overrides,
+    })
+    if (ok) reset()
+  }
+
+  function updateMapping(field: StandingsField, header: string) {
+    const next = { ...mapping, [field]: header || undefined }
+    setMapping(next)
+    void analyze({ mapping: next })
+  }
+
+  function updateOverride(team: string, memberId: string) {
+    const next = Object.fromEntries(Object.entries(overrides).filter(([t]) => t !== team))
+    if (memberId) next[team] = memberId
+    setOverrides(next)
+    void analyze({ overrides: next })
+  }
+
+  const report = analysis?.report ?? null
+  const memberLabel = (memberId: string) => {
+    const member = analysis?.members.find(m => m.memberId === memberId)
+    return member ? member.teamName || member.username : memberId
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-surface-200 rounded-xl border border-surface-50/20 overflow-hidden">
+        <div className="p-5 border-b border-surface-50/20">
+          <h3 className="text-xl font-bold text-white">Importa Classifica</h3>
+          <p className="text-sm text-gray-400 mt-1">
+            Carica l'export (.xlsx o .csv) della tua app di fantacalcio: la classifica importata viene usata dalle regole premio.
+          </p>
+        </div>
+
+        <div className="p-5 space-y-5">
+          {/* Step 1: tipo, stagione e file */}
+          <div className="grid gap-3 md:grid-cols-3">
+            <label className="text-sm text-gray-400">
+              Tipo di file
+              <select
+                value={kind}
+                onChange={(e) => { setKind(e.target.value as StandingsImportKind); setAnalysis(null); }}
+                disabled={!!analysis}
+                className="mt-1 w-full px-3 py-2 bg-surface-300 border border-surface-50/20 rounded-lg text-white"
+              >
+                {(Object.keys(KIND_LABELS) as StandingsImportKind[]).map(k => (
+                  <option key={k} value={k}>{KIND_LABELS[k]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-400">
+              Stagione
+              <input
+                type="number"
+                min={1}
+                value={season}
+                onChange={(e) => { setSeason(e.target.value); }}
+                placeholder="Corrente"
+                className="mt-1 w-full px-3 py-2 bg-surface-300 border border-surface-50/20 rounded-lg text-white placeholder-gray-500"
+              />
+            </label>
+            <label className="text-sm text-gray-400">
+              File
+              <input
+                type="file"
+                accept=".xlsx,.xls,.csv"
+                onChange={(e) => { setFile(e.target.files?.[0] ?? null); setAnalysis(null); setOverrides({}); }}
+                className="mt-1 w-full text-sm text-gray-300 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-surface-300 file:text-white"
+              />
+            </label>
+          </div>
+
+          {!analysis ? (
+            <Button onClick={() => void analyze()} disabled={!file || isSubmitting}>
+              {isSubmitting ? 'Analisi...' : 'Analizza File'}
+            </Button>
+          ) : (
+            <>
+              {/* Step 2: mappatura colonne */}
+              <div className="p-4 bg-surface-300 rounded-lg space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <h4 className="font-semibold text-white">Mappatura colonne</h4>
+                  {analysis.sheetNames.length > 1 && (
+                    <select
+                      value={analysis.sheetName}
+                      onChange={(e) => { void analyze({ sheetName: e.target.value, mapping: undefined }); }}
+                      className="px-3 py-1.5 bg-surface-200 border border-surface-50/20 rounded-lg text-white text-sm"
+                    >
+                      {analysis.sheetNames.map(name => (
+                        <option key={name} value={name}>{name}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+                <div className="grid gap-3 md:grid-cols-3">
+                  {fieldsFor(kind).map(field => (
+                    <label key={field} className="text-sm text-gray-400">
+                      {STANDINGS_FIELDS[field].label}{REQUIRED_FIELDS[kind].includes(field) ? ' *' : ''}
+                      <select
+                        value={mapping[field] ?? ''}
+                        onChange={(e) => { updateMapping(field, e.target.value); }}
+                        className="mt-1 w-full px-3 py-2 bg-surface-200 border border-surface-50/20 rounded-lg text-white"
+                      >
+                        <option value="">— Nessuna colonna —</option>
+                        {analysis.headers.map(header => (
+                          <option key={header} value={header}>{header}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+                {analysis.missingFields.length > 0 && (
+                  <p className="text-sm text-warning-400">Mappa le colonne obbligatorie: {analysis.missingFields.join(', ')}</p>
+                )}
+                {analysis.sample.length > 0 && (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-xs text-gray-400">
+                      <thead>
+                        <tr>
+                          {analysis.headers.map(header => (
+                            <th key={header} className="text-left p-1.5 font-medium">{header}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {analysis.sample.map((row, i) => (
+                          <tr key={i} className="border-t border-surface-50/10">
+                            {analysis.headers.map(header => (
+                              <td key={header} className="p-1.5">{String(row[header] ?? '')}</td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+
+              {/* Step 3: report di validazione */}
+              {report && (
+                <div className="p-4 bg-surface-300 rounded-lg space-y-3 text-sm">
+                  <h4 className="font-semibold text-white">
+                    Report: {report.rows.length} righe valide su {report.totalProcessed}
+                  </h4>
+
+                  {report.rows.length > 0 && (
+                    <ul className="space-y-1 max-h-64 overflow-y-auto">
+                      {report.rows.map(row => (
+                        <li key={row.row} className="flex items-center justify-between gap-3">
+                          <span className="text-gray-300">
+                            {row.sourceTeam} → <span className="text-white">{memberLabel(row.memberId)}</span>
+                            {row.round && <span className="text-gray-500"> · {row.round}</span>}
+                          </span>
+                          <span className="flex items-center gap-3">
+                            <span className="text-white font-medium">{row.points}</span>
+                            <span className={`text-xs ${CONFIDENCE_STYLES[row.confidence]?.className ?? ''}`}>
+                              {CONFIDENCE_STYLES[row.confidence]?.label}
+                            </span>
+
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {report.unmatchedTeams.length > 0 && (
+                    <div className="pt-3 border-t border-surface-50/20 space-y-2">
+                      <p className="text-warning-400">Squadre non riconosciute: abbinale a mano</p>
+                      {report.unmatchedTeams.map(team => (
+                        <div key={team} className="flex items-center gap-3">
+                          <span className="flex-1 text-gray-300">{team}</span>
+                          <select
+                            value={overrides[team] ?? ''}
+                            onChange={(e) => { updateOverride(team, e.target.value); }}
+                            className="px-3 py-1.5 bg-surface-200 border border-surface-50/20 rounded-lg text-white"
+                          >
+                            <option value="">— Scegli manager —</option>
+                            {analysis.members.map(m => (
+                              <option key={m.memberId} value={m.memberId}>{m.teamName || m.username}</option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {report.unconfirmedTeams.length > 0 && (
+                    <div className="pt-3 border-t border-surface-50/20 space-y-2">
+                      <p className="text-warning-400">Abbinamenti da verificare: conferma o correggi prima dell'import</p>
+                      {report.unconfirmedTeams.map(team => {
+                        const suggested = report.rows.find(r => r.sourceTeam === team)?.memberId ?? ''
+                        return (
+                          <div key={team} className="flex items-center gap-3">
+                            <span className="flex-1 text-gray-300">{team}</span>
+                            <select
+                              value={suggested}
+                              onChange={(e) => { updateOverride(team, e.target.value); }}
+                              className="px-3 py-1.5 bg-surface-200 border border-surface-50/20 rounded-lg text-white"
+                            >
+                              {analysis.members.map(m => (
+                                <option key={m.memberId} value={m.memberId}>{m.teamName || m.username}</option>
+                              ))}
+                            </select>
+                            <Button size="sm" onClick={() => { updateOverride(team, suggested); }} disabled={isSubmitting}>
+                              Conferma
+                            </Button>
+                          </div>
+                        )
+                      })}
+                    </div>
+                  )}
+
+                  {report.missingMembers.length > 0 && (
+                    <p className="text-gray-400">
+                      Manager assenti dal file: {report.missingMembers.map(m => m.teamName || m.username).join(', ')}
+                    </p>
+                  )}
+
+                  {report.errors.length > 0 && (
+                    <div className="pt-3 border-t border-surface-50/20">
+                      <p className="text-danger-400 mb-1">{report.errors.length} righe scartate</p>
+                      <ul className="text-xs text-gray-500 space-y-0.5 max-h-40 overflow-y-auto">
+                        {report.errors.map((error, i) => (
+                          <li key={i}>{error}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                <Button
+                  onClick={() => void confirmImport()}
+                  disabled={!report || report.rows.length === 0 || report.unconfirmedTeams.length > 0 || isSubmitting}
+                >
+                  {isSubmitting ? 'Import...' : `Importa ${report?.rows.length ?? 0} righe`}
+                </Button>
+                <Button variant="outline" onClick={reset} disabled={isSubmitting}>
+                  Annulla
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Storico import */}
+      <div className="bg-surface-200 rounded-xl border border-surface-50/20 overflow-hidden">
+        <div className="p-5 border-b border-surface-50/20">
+          <h3 className="text-lg font-bold text-white">Storico Import</h3>
+        </div>
+        {isLoadingHistory ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-8 h-8 border-2 border-accent-500/30 border-t-accent-500 rounded-full animate-spin"></div>
+          </div>
+        ) : history.length === 0 ? (
+          <p className="p-5 text-sm text-gray-500">Nessun import effettuato</p>
+        ) : (
+          <ul className="divide-y divide-surface-50/10">
+            {history.map((item, i) => (
+              <li key={item.id} className="p-4 flex flex-wrap items-center justify-between gap-2 text-sm">
+                <div>
+                  <p className="text-white font-medium">
+                    {item.fileName}
+                    {i === 0 && <span className="ml-2 text-xs px-1.5 py-0.5 rounded bg-secondary-500/20 text-secondary-400">in uso</span>}
+                  </p>
+                  <p className="text-gray-500 text-xs">
+                    {KIND_LABELS[item.kind]} · Stagione {item.season} · @{item.uploadedBy} · {new Date(item.createdAt).toLocaleString('it-IT')}
+                  </p>
+                </div>
+                <span className="text-gray-400">
+                  {item.rowsImported}/{item.totalProcessed} righe
+                  {item.errors && item.errors.length > 0 && <span className="text-warning-400"> · {item.errors.length} scartate</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
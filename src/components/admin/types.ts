@@ -11,6 +11,7 @@ export interface League {
   defenderSlots: number
   midfielderSlots: number
   forwardSlots: number
+  requireVerifiedEmail?: boolean
 }
 
 export interface Member {
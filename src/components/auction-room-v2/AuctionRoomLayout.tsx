@@ -4,6 +4,7 @@ import { FinancialDashboard } from './FinancialDashboard'
 import { MyPortfolio } from './MyPortfolio'
 import { MobileSidePanel } from './MobileSidePanel'
 import { MobileBottomBar } from './MobileBottomBar'
+import { SessionChat } from '../chat/SessionChat'
 import type { AuctionViewProps } from './types'
 
 export function AuctionRoomLayout(props: AuctionViewProps) {
@@ -73,6 +74,9 @@ export function AuctionRoomLayout(props: AuctionViewProps) {
         </div>
       </div>
 
+      {/* Chat di sessione */}
+      <SessionChat sessionId={props.sessionId} />
+
       {/* Mobile: sticky bottom bid controls during auction */}
       <MobileBottomBar
         auction={props.auction}
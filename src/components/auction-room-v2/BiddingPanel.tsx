@@ -1,6 +1,7 @@
 import { AuctionTimer } from '../AuctionTimer'
 import { PlayerCard } from './PlayerCard'
 import { BidControls } from './BidControls'
+import { ProxyBidControl } from '../auction/ProxyBidControl'
 import type { Auction, Membership, MyRosterSlots } from '../../types/auctionroom.types'
 
 interface BiddingPanelProps {
@@ -19,6 +20,7 @@ interface BiddingPanelProps {
   myRosterSlots?: MyRosterSlots | null
   isBidding?: boolean
   isConnected?: boolean
+  leagueId?: string
 }
 
 export function BiddingPanel({
@@ -37,6 +39,7 @@ export function BiddingPanel({
   myRosterSlots,
   isBidding = false,
   isConnected = true,
+  leagueId,
 }: BiddingPanelProps) {
   const isTimerCritical = timeLeft !== null && timeLeft <= 10
 
@@ -149,6 +152,16 @@ export function BiddingPanel({
             isConnected={isConnected}
           />
         )}
+        {leagueId && !isRoleFull && (
+          <div className="mt-3">
+            <ProxyBidControl
+              leagueId={leagueId}
+              playerId={auction.player.id}
+              currentPrice={auction.currentPrice}
+              disabled={isTimerExpired || !isConnected}
+            />
+          </div>
+        )}
       </div>
 
       {/* Bid History */}
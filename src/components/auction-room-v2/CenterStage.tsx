@@ -79,6 +79,7 @@ export function CenterStage(props: CenterStageProps) {
             myRosterSlots={props.myRosterSlots}
             isBidding={props.isBidding}
             isConnected={props.isConnected}
+            leagueId={props.leagueId}
           />
         )}
 
@@ -83,6 +83,7 @@ export interface AuctionViewProps {
 
   // Session info
   isPrimoMercato: boolean
+  sessionId?: string
 
   // Navigation
   onNavigate?: (page: string, params?: Record<string, string>) => void
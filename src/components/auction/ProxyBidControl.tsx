@@ -0,0 +1,112 @@
+/**
+ * ProxyBidControl - Offerta automatica fino a un tetto privato
+ *
+ * Il server rilancia di 1 per conto del manager finché non si supera il tetto.
+ * Il tetto è visibile solo al manager stesso durante l'asta.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { auctionApi } from '../../services/api'
+import { Button } from '../ui/Button'
+import { Input } from '../ui/Input'
+
+interface ProxyBidControlProps {
+  leagueId: string
+  playerId: string
+  currentPrice: number
+  disabled?: boolean
+}
+
+export function ProxyBidControl({ leagueId, playerId, currentPrice, disabled = false }: ProxyBidControlProps) {
+  const [ceiling, setCeiling] = useState<number | null>(null)
+  const [amount, setAmount] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const loadCeiling = useCallback(async () => {
+    const res = await Promise.resolve()
+      .then(() => auctionApi.getProxyBids(leagueId))
+      .catch((): { success: boolean; data?: undefined } => ({ success: false }))
+    if (res.success && res.data) {
+      setCeiling(res.data.find(p => p.playerId === playerId)?.maxAmount ?? null)
+    }
+  }, [leagueId, playerId])
+
+  useEffect(() => {
+    setError('')
+    setAmount('')
+    void loadCeiling()
+  }, [loadCeiling])
+
+  async function handleSave() {
+    const maxAmount = parseInt(amount)
+    if (!maxAmount || maxAmount <= currentPrice) {
+      setError(`Il tetto deve superare ${currentPrice}`)
+      return
+    }
+    setIsSaving(true)
+    setError('')
+    const res = await auctionApi.setProxyBid(leagueId, playerId, maxAmount)
+    setIsSaving(false)
+    if (res.success) {
+      setCeiling(maxAmount)
+      setAmount('')
+    } else {
+      setError(res.message || 'Errore nel salvataggio')
+    }
+  }
+
+  async function handleRemove() {
+    setIsSaving(true)
+    setError('')
+    const res = await auctionApi.removeProxyBid(leagueId, playerId)
+    setIsSaving(false)
+    if (res.success) {
+      setCeiling(null)
+    } else {
+      setError(res.message || 'Errore nella rimozione')
+    }
+  }
+
+  const isExhausted = ceiling !== null && ceiling <= currentPrice
+
+  return (
+    <div className="rounded-xl p-3 bg-slate-800/50 border border-white/10 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-semibold text-gray-300">Offerta automatica</span>
+        {ceiling !== null && (
+          <span className={`text-xs font-mono px-2 py-0.5 rounded-full ${
+            isExhausted ? 'bg-amber-500/15 text-amber-400' : 'bg-secondary-500/15 text-secondary-300'
+          }`}>
+            {isExhausted ? 'Tetto raggiunto' : 'Attiva'} · max {ceiling}
+          </span>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <div className="flex-1">
+          <Input
+            type="number"
+            inputMode="numeric"
+            min={currentPrice + 1}
+            value={amount}
+            onChange={e => { setAmount(e.target.value); }}
+            placeholder={ceiling !== null ? `Nuovo tetto (attuale ${ceiling})` : `Tetto massimo (> ${currentPrice})`}
+            disabled={disabled || isSaving}
+          />
+        </div>
+        <Button size="sm" onClick={() => { void handleSave(); }} disabled={disabled || isSaving || !amount}>
+          {ceiling !== null ? 'Aggiorna' : 'Attiva'}
+        </Button>
+        {ceiling !== null && (
+          <Button size="sm" variant="ghost" onClick={() => { void handleRemove(); }} disabled={isSaving}>
+            Rimuovi
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-xs text-danger-400">{error}</p>}
+      <p className="text-xs text-gray-500">Il tetto resta privato: gli altri manager vedono solo i rilanci.</p>
+    </div>
+  )
+}
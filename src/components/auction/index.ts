@@ -7,3 +7,6 @@ export * from './types'
 
 // Admin controls panel (used by auction-room-v2/CenterStage)
 export { AdminControlsPanel } from './AdminControlsPanel'
+
+// Proxy (auto) bid ceiling (used by auction-room-v2, Rubata, Svincolati)
+export { ProxyBidControl } from './ProxyBidControl'
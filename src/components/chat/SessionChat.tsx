@@ -0,0 +1,267 @@
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
+import { chatApi } from '../../services/api'
+import { usePusherChat } from '../../services/pusher.client'
+import type { ChatMessageData, ChatMessageDeletedData, ChatMuteChangedData } from '../../services/pusher.client'
+
+const MAX_LENGTH = 500
+
+interface SessionChatProps {
+  sessionId: string | null | undefined
+  // Collassata di default per non coprire la UI d'asta
+  defaultCollapsed?: boolean
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' })
+}
+
+export function SessionChat({ sessionId, defaultCollapsed = true }: SessionChatProps) {
+  const [collapsed, setCollapsed] = useState(defaultCollapsed)
+  const [messages, setMessages] = useState<ChatMessageData[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [mutedMemberIds, setMutedMemberIds] = useState<string[]>([])
+  const [isAdmin, setIsAdmin] = useState(false)
+  const [myMemberId, setMyMemberId] = useState<string | null>(null)
+  const [draft, setDraft] = useState('')
+  const [error, setError] = useState('')
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [isSending, setIsSending] = useState(false)
+  const [unreadCount, setUnreadCount] = useState(0)
+  const listRef = useRef<HTMLDivElement>(null)
+  const stickToBottomRef = useRef(true)
+
+  const loadMessages = useCallback(async () => {
+    if (!sessionId) return
+    const res = await chatApi.getMessages(sessionId)
+    if (res.success && res.data) {
+      setMessages(res.data.messages)
+      setNextCursor(res.data.nextCursor)
+      setMutedMemberIds(res.data.mutedMemberIds)
+      setIsAdmin(res.data.isAdmin)
+      setMyMemberId(res.data.myMemberId)
+      stickToBottomRef.current = true
+    }
+  }, [sessionId])
+
+  useEffect(() => {
+    void loadMessages()
+  }, [loadMessages])
+
+  const pusherHandlers = useMemo(() => ({
+    onChatMessage: (data: ChatMessageData) => {
+      setMessages(prev => prev.some(m => m.id === data.id) ? prev : [...prev, data])
+      setUnreadCount(prev => prev + 1)
+    },
+    onChatMessageDeleted: (data: ChatMessageDeletedData) => {
+      setMessages(prev => prev.filter(m => m.id !== data.messageId))
+    },
+    onChatMuteChanged: (data: ChatMuteChangedData) => {
+      setMutedMemberIds(data.mutedMemberIds)
+    },
+  }), [])
+
+  usePusherChat(sessionId, pusherHandlers)
+
+  // Panel aperto: nessun messaggio da leggere
+  useEffect(() => {
+    if (!collapsed) setUnreadCount(0)
+  }, [collapsed, messages])
+
+  // Scroll automatico in fondo solo se l'utente non sta leggendo lo storico
+  useEffect(() => {
+    const el = listRef.current
+    if (el && stickToBottomRef.current) {
+      el.scrollTop = el.scrollHeight
+    }
+  }, [messages, collapsed])
+
+  function handleScroll() {
+    const el = listRef.current
+    if (!el) return
+    stickToBottomRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < 40
+  }
+
+  async function handleLoadMore() {
+    if (!sessionId || !nextCursor) return
+    setIsLoadingMore(true)
+    stickToBottomRef.current = false
+    const res = await chatApi.getMessages(sessionId, nextCursor)
+    if (res.success && res.data) {
+      const older = res.data.messages
+      setMessages(prev => [...older.filter(m => !prev.some(p => p.id === m.id)), ...prev])
+      setNextCursor(res.data.nextCursor)
+    }
+    setIsLoadingMore(false)
+  }
+
+  async function handleSend(e: React.FormEvent) {
+    e.preventDefault()
+    const content = draft.trim()
+    if (!sessionId || !content) return
+    setIsSending(true)
+    setError('')
+    const res = await chatApi.send(sessionId, content)
+    if (res.success && res.data) {
+      const sent = res.data
+      setMessages(prev => prev.some(m => m.id === sent.id) ? prev : [...prev, sent])
+      setDraft('')
+      stickToBottomRef.current = true
+    } else {
+      setError(res.message || 'Errore nell\'invio del messaggio')
+    }
+    setIsSending(false)
+  }
+
+  async function handleDelete(messageId: string) {
+    if (!sessionId) return
+    const res = await chatApi.deleteMessage(sessionId, messageId)
+    if (res.success) {
+      setMessages(prev => prev.filter(m => m.id !== messageId))
+    } else {
+      setError(res.message || 'Errore nella cancellazione')
+    }
+  }
+
+  async function handleToggleMute(memberId: string) {
+    if (!sessionId) return
+    const muted = !mutedMemberIds.includes(memberId)
+    const res = await chatApi.setMute(sessionId, memberId, muted)
+    if (res.success && res.data) {
+      setMutedMemberIds(res.data.mutedMemberIds)
+    } else {
+      setError(res.message || 'Errore nella moderazione')
+    }
+  }
+
+  if (!sessionId) return null
+
+  const isMuted = myMemberId !== null && mutedMemberIds.includes(myMemberId)
+
+  return (
+    <div className="border border-surface-50/20 rounded-xl overflow-hidden bg-surface-200">
+      {/* Collapsible header */}
+      <button
+        onClick={() => { setCollapsed(!collapsed); }}
+        className="w-full flex items-center justify-between px-4 py-3 bg-surface-300/50 hover:bg-surface-300/80 transition-colors"
+      >
+        <div className="flex items-center gap-2">
+          <span className="text-base">💬</span>
+          <span className="text-base font-bold text-white">Chat</span>
+          {collapsed && unreadCount > 0 && (
+            <span className="px-2 py-0.5 text-xs font-bold bg-primary-500/20 text-primary-400 rounded-full">
+              {unreadCount}
+            </span>
+          )}
+        </div>
+        <svg
+          className={`w-4 h-4 text-gray-400 transition-transform ${collapsed ? '' : 'rotate-180'}`}
+          fill="none" stroke="currentColor" viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {!collapsed && (
+        <div className="p-3 space-y-3">
+          <div
+            ref={listRef}
+            onScroll={handleScroll}
+            className="h-64 overflow-y-auto space-y-1.5 pr-1"
+          >
+            {nextCursor && (
+              <div className="text-center pb-2">
+                <button
+                  onClick={() => { void handleLoadMore(); }}
+                  disabled={isLoadingMore}
+                  className="text-xs text-gray-400 hover:text-white disabled:opacity-50"
+                >
+                  {isLoadingMore ? 'Caricamento...' : 'Carica messaggi precedenti'}
+                </button>
+              </div>
+            )}
+
+            {messages.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-8">Nessun messaggio</p>
+            )}
+
+            {messages.map(message => message.isSystem ? (
+              <div key={message.id} className="group flex items-center gap-2 text-xs text-gray-400 italic px-2">
+                <span className="text-gray-500">{formatTime(message.createdAt)}</span>
+                <span className="flex-1">{message.content}</span>
+                {isAdmin && (
+                  <button
+                    onClick={() => { void handleDelete(message.id); }}
+                    className="opacity-0 group-hover:opacity-100 text-danger-400 hover:text-danger-300"
+                    title="Elimina"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            ) : (
+              <div key={message.id} className="group flex items-start gap-2 text-sm px-2">
+                <span className="text-xs text-gray-500 pt-0.5">{formatTime(message.createdAt)}</span>
+                <div className="flex-1 min-w-0">
+                  <span className={`font-semibold ${message.memberId === myMemberId ? 'text-primary-400' : 'text-accent-400'}`}>
+                    {message.username}
+                  </span>
+                  {mutedMemberIds.includes(message.memberId) && (
+                    <span className="ml-1 text-xs text-warning-400" title="Silenziato">🔇</span>
+                  )}
+                  <span className="text-gray-200 break-words">: {message.content}</span>
+                </div>
+                {isAdmin && (
+                  <div className="flex gap-1 opacity-0 group-hover:opacity-100">
+                    {message.memberId !== myMemberId && (
+                      <button
+                        onClick={() => { void handleToggleMute(message.memberId); }}
+                        className="text-xs text-warning-400 hover:text-warning-300"
+                        title={mutedMemberIds.includes(message.memberId) ? 'Riattiva' : 'Silenzia'}
+                      >
+                        {mutedMemberIds.includes(message.memberId) ? '🔊' : '🔇'}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => { void handleDelete(message.id); }}
+                      className="text-xs text-danger-400 hover:text-danger-300"
+                      title="Elimina"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {error && (
+            <p className="text-xs text-danger-400">{error}</p>
+          )}
+
+          {isMuted ? (
+            <p className="text-xs text-warning-400 text-center py-2">Sei stato silenziato dall'admin in questa sessione</p>
+          ) : (
+            <form onSubmit={(e) => { void handleSend(e); }} className="flex gap-2">
+              <input
+                type="text"
+                value={draft}
+                onChange={(e) => { setDraft(e.target.value); }}
+                maxLength={MAX_LENGTH}
+                placeholder="Scrivi un messaggio..."
+                aria-label="Messaggio chat"
+                className="flex-1 bg-surface-300 border border-surface-50/20 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-primary-500"
+              />
+              <button
+                type="submit"
+                disabled={isSending || !draft.trim()}
+                className="px-4 py-2 rounded-lg bg-primary-500 text-white text-sm font-semibold hover:bg-primary-600 disabled:opacity-50"
+              >
+                Invia
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,471 @@
+import { useEffect, useMemo, useState } from 'react'
+import { contractSimulatorApi } from '../../services/api'
+import type {
+  ContractSimulatorData,
+  SavedContractScenario,
+  ScenarioAction,
+  ScenarioProjection,
+  SimulatedContract,
+} from '../../types/contract-scenario.types'
+import { ContractExpiryGantt } from './ContractExpiryGantt'
+import { FinanceTrendChart } from './FinanceTrendChart'
+import { type PlayerData, POSITION_COLORS } from './types'
+
+interface ContractSimulatorProps {
+  leagueId: string
+}
+
+const DEFAULT_HORIZON = 4
+const MAX_HORIZON = 6
+
+const semesterLabel = (semester: number) => (semester === 0 ? 'Ora' : `Sem. +${semester}`)
+
+// Un'azione per contratto: l'editor la sostituisce o la rimuove
+function setContractAction(actions: ScenarioAction[], contractId: string, action: ScenarioAction | null): ScenarioAction[] {
+  const others = actions.filter(a => a.contractId !== contractId)
+  return action ? [...others, action] : others
+}
+
+function toGanttPlayers(projection: ScenarioProjection, semester: number): PlayerData[] {
+  const contracts = projection.semesters[semester]?.contracts ?? []
+  return contracts.map(c => ({
+    id: c.contractId,
+    name: c.playerName,
+    team: c.team,
+    position: c.position,
+    quotation: 0,
+    age: null,
+    salary: c.salary,
+    duration: c.duration,
+    clause: c.clause,
+    preRenewalSalary: c.salary,
+    postRenewalSalary: null,
+    draftDuration: null,
+    draftReleased: false,
+  }))
+}
+
+const inputClass = 'bg-surface-300 border border-surface-50/20 rounded px-2 py-1 text-xs text-white'
+
+export function ContractSimulator({ leagueId }: ContractSimulatorProps) {
+  const [data, setData] = useState<ContractSimulatorData | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [horizon, setHorizon] = useState(DEFAULT_HORIZON)
+  const [inflow, setInflow] = useState(0)
+  const [actions, setActions] = useState<ScenarioAction[]>([])
+  const [projection, setProjection] = useState<ScenarioProjection | null>(null)
+  const [ganttSemester, setGanttSemester] = useState(0)
+  const [scenarioName, setScenarioName] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  async function loadSimulator(resetInputs: boolean) {
+    const result = await contractSimulatorApi.get(leagueId)
+    if (result.success && result.data) {
+      setData(result.data)
+      if (resetInputs) setInflow(result.data.defaultInflow)
+    } else {
+      setError(result.message || 'Errore nel caricamento del simulatore')
+    }
+  }
+
+  useEffect(() => {
+    void loadSimulator(true)
+  }, [leagueId])
+
+  // Ricalcola la proiezione a ogni modifica dello scenario
+  useEffect(() => {
+    if (!data) return
+    let cancelled = false
+    void contractSimulatorApi.simulate(leagueId, { horizon, inflowPerSemester: inflow, actions }).then(result => {
+      if (cancelled) return
+      if (result.success && result.data) setProjection(result.data)
+    })
+    return () => { cancelled = true }
+  }, [leagueId, data, horizon, inflow, actions])
+
+  const chartPoints = useMemo(() => (projection?.semesters ?? []).map(s => ({
+    name: semesterLabel(s.semester),
+    budget: s.budget,
+    ingaggi: s.totalSalaries,
+    bilancio: s.balance,
+  })), [projection])
+
+  const compared = useMemo(
+    () => (data?.scenarios ?? []).filter(s => compareIds.includes(s.id)),
+    [data, compareIds]
+  )
+
+  function handleHorizonChange(value: number) {
+    setHorizon(value)
+    // Le azioni oltre il nuovo orizzonte non sarebbero accettate dal server
+    setActions(prev => prev.filter(a => a.semester <= value))
+    setGanttSemester(prev => Math.min(prev, value))
+  }
+
+  function handleActionType(contract: SimulatedContract, type: string) {
+    const current = actions.find(a => a.contractId === contract.contractId)
+    const semester = current?.semester ?? 0
+    if (type === 'RENEW') {
+      setActions(setContractAction(actions, contract.contractId, {
+        type: 'RENEW',
+        contractId: contract.contractId,
+        semester,
+        // Per allungare la durata l'ingaggio deve salire
+        salary: contract.salary + 1,
+        duration: Math.min(contract.duration + 1, data?.maxDuration ?? 4),
+      }))
+    } else if (type === 'RELEASE') {
+      setActions(setContractAction(actions, contract.contractId, { type: 'RELEASE', contractId: contract.contractId, semester }))
+    } else {
+      setActions(setContractAction(actions, contract.contractId, null))
+    }
+  }
+
+  function updateAction(contractId: string, patch: Partial<ScenarioAction>) {
+    setActions(prev => prev.map(a => (a.contractId === contractId ? { ...a, ...patch } : a)))
+  }
+
+  function loadScenario(scenario: SavedContractScenario) {
+    setHorizon(scenario.horizon)
+    setInflow(scenario.inflowPerSemester)
+    setActions(scenario.actions)
+    setScenarioName(scenario.name)
+    setEditingId(scenario.id)
+    setGanttSemester(0)
+    setMessage(null)
+  }
+
+  function resetScenario() {
+    setHorizon(DEFAULT_HORIZON)
+    setInflow(data?.defaultInflow ?? 0)
+    setActions([])
+    setScenarioName('')
+    setEditingId(null)
+    setGanttSemester(0)
+    setMessage(null)
+  }
+
+  async function handleSave() {
+    if (!scenarioName.trim()) return
+    setSaving(true)
+    const result = await contractSimulatorApi.saveScenario(
+      leagueId,
+      { name: scenarioName.trim(), horizon, inflowPerSemester: inflow, actions },
+      editingId ?? undefined
+    )
+    setSaving(false)
+    setMessage(result.message || null)
+    if (result.success && result.data) {
+      setEditingId(result.data.id)
+      await loadSimulator(false)
+    }
+  }
+
+  async function handleDelete(scenarioId: string) {
+    const result = await contractSimulatorApi.deleteScenario(leagueId, scenarioId)
+    setMessage(result.message || null)
+    if (result.success) {
+      if (editingId === scenarioId) setEditingId(null)
+      setCompareIds(prev => prev.filter(id => id !== scenarioId))
+      await loadSimulator(false)
+    }
+  }
+
+  function toggleCompare(scenarioId: string) {
+    setCompareIds(prev => (prev.includes(scenarioId) ? prev.filter(id => id !== scenarioId) : [...prev, scenarioId]))
+  }
+
+  if (error) {
+    return <div className="text-sm text-danger-400 text-center py-8">{error}</div>
+  }
+
+  if (!data) {
+    return <div className="h-48 bg-surface-300 rounded-lg animate-pulse" />
+  }
+
+  const semesterOptions = Array.from({ length: horizon + 1 }, (_, i) => i)
+
+  return (
+    <div className="space-y-4">
+      {/* Parametri scenario */}
+      <div className="bg-surface-300/50 rounded-lg p-3 md:p-4 border border-surface-50/10">
+        <div className="text-[10px] md:text-xs text-gray-500 uppercase tracking-wider mb-3">Simulatore Contratti</div>
+        <div className="flex flex-wrap items-end gap-4 text-xs">
+          <label className="flex flex-col gap-1 text-gray-400">
+            Orizzonte
+            <select
+              value={horizon}
+              onChange={e => { handleHorizonChange(Number(e.target.value)); }}
+              className={inputClass}
+            >
+              {Array.from({ length: MAX_HORIZON }, (_, i) => i + 1).map(n => (
+                <option key={n} value={n}>{n} {n === 1 ? 'semestre' : 'semestri'}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-gray-400">
+            Entrate per semestre
+            <input
+              type="number"
+              min={0}
+              value={inflow}
+              onChange={e => { setInflow(Math.max(0, Number(e.target.value) || 0)); }}
+              className={`${inputClass} w-24`}
+            />
+          </label>
+          <div className="text-gray-500">
+            Budget attuale: <span className="text-white font-medium">{data.budget}</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Editor azioni */}
+      <div className="bg-surface-300/50 rounded-lg p-3 md:p-4 border border-surface-50/10 overflow-x-auto">
+        <div className="text-[10px] md:text-xs text-gray-500 uppercase tracking-wider mb-3">Rinnovi e Tagli Ipotetici</div>
+        {data.contracts.length === 0 ? (
+          <div className="text-sm text-gray-500 text-center py-4">Nessun contratto attivo</div>
+        ) : (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500 text-left">
+                <th className="py-1 pr-2">Giocatore</th>
+                <th className="py-1 pr-2 text-right">Ingaggio</th>
+                <th className="py-1 pr-2 text-right">Durata</th>
+                <th className="py-1 pr-2">Azione</th>
+                <th className="py-1 pr-2">Quando</th>
+                <th className="py-1">Nuovo contratto</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.contracts.map(contract => {
+                const action = actions.find(a => a.contractId === contract.contractId)
+                return (
+                  <tr key={contract.contractId} className="border-t border-surface-50/10">
+                    <td className="py-1.5 pr-2">
+                      <span className={`inline-block w-5 text-center rounded text-[10px] font-bold mr-1.5 ${POSITION_COLORS[contract.position] ?? ''}`}>
+                        {contract.position}
+                      </span>
+                      <span className="text-white">{contract.playerName}</span>
+                    </td>
+                    <td className="py-1.5 pr-2 text-right text-gray-300">{contract.salary}</td>
+                    <td className="py-1.5 pr-2 text-right text-gray-300">{contract.duration}</td>
+                    <td className="py-1.5 pr-2">
+                      <select
+                        aria-label={`Azione ${contract.playerName}`}
+                        value={action?.type ?? ''}
+                        onChange={e => { handleActionType(contract, e.target.value); }}
+                        className={inputClass}
+                      >
+                        <option value="">Nessuna</option>
+                        <option value="RENEW">Rinnova</option>
+                        <option value="RELEASE">Taglia</option>
+                      </select>
+                    </td>
+                    <td className="py-1.5 pr-2">
+                      {action && (
+                        <select
+                          value={action.semester}
+                          onChange={e => { updateAction(contract.contractId, { semester: Number(e.target.value) }); }}
+                          className={inputClass}
+                        >
+                          {semesterOptions.map(s => <option key={s} value={s}>{semesterLabel(s)}</option>)}
+                        </select>
+                      )}
+                    </td>
+                    <td className="py-1.5">
+                      {action?.type === 'RENEW' && (
+                        <div className="flex items-center gap-1">
+                          <input
+                            type="number"
+                            min={1}
+                            aria-label={`Ingaggio ${contract.playerName}`}
+                            value={action.salary ?? contract.salary}
+                            onChange={e => { updateAction(contract.contractId, { salary: Number(e.target.value) || 1 }); }}
+                            className={`${inputClass} w-16`}
+                          />
+                          <span className="text-gray-500">×</span>
+                          <select
+                            value={action.duration ?? contract.duration}
+                            onChange={e => { updateAction(contract.contractId, { duration: Number(e.target.value) }); }}
+                            className={inputClass}
+                          >
+                            {Array.from({ length: data.maxDuration }, (_, i) => i + 1).map(d => (
+                              <option key={d} value={d}>{d}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {projection && (
+        <>
+          {projection.errors.length > 0 && (
+            <div className="bg-danger-500/10 border border-danger-500/30 rounded-lg p-3 space-y-1">
+              {projection.errors.map((e, i) => (
+                <div key={i} className="text-xs text-danger-400">{e}</div>
+              ))}
+            </div>
+          )}
+
+          <FinanceTrendChart title="Proiezione Bilancio" points={chartPoints} showZeroLine />
+
+          {/* Dettaglio per semestre */}
+          <div className="bg-surface-300/50 rounded-lg p-3 md:p-4 border border-surface-50/10 overflow-x-auto">
+            <div className="text-[10px] md:text-xs text-gray-500 uppercase tracking-wider mb-3">Dettaglio Semestri</div>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-500 text-left">
+                  <th className="py-1 pr-2">Semestre</th>
+                  <th className="py-1 pr-2 text-right">Entrate</th>
+                  <th className="py-1 pr-2 text-right">Costi tagli</th>
+                  <th className="py-1 pr-2 text-right">Budget</th>
+                  <th className="py-1 pr-2 text-right">Ingaggi</th>
+                  <th className="py-1 pr-2 text-right">Bilancio</th>
+                  <th className="py-1 pr-2 text-right">Clausole</th>
+                  <th className="py-1">Movimenti</th>
+                </tr>
+              </thead>
+              <tbody>
+                {projection.semesters.map(s => (
+                  <tr key={s.semester} className="border-t border-surface-50/10 align-top">
+                    <td className="py-1.5 pr-2 text-white">{semesterLabel(s.semester)}</td>
+                    <td className="py-1.5 pr-2 text-right text-gray-300">{s.inflow > 0 ? `+${s.inflow}` : '-'}</td>
+                    <td className="py-1.5 pr-2 text-right text-gray-300">{s.releaseCosts > 0 ? `-${s.releaseCosts}` : '-'}</td>
+                    <td className="py-1.5 pr-2 text-right text-gray-300">{s.budget}</td>
+                    <td className="py-1.5 pr-2 text-right text-gray-300">{s.totalSalaries}</td>
+                    <td className={`py-1.5 pr-2 text-right font-medium ${s.balance < 0 ? 'text-danger-400' : 'text-green-400'}`}>
+                      {s.balance}
+                    </td>
+                    <td className="py-1.5 pr-2 text-right text-gray-300">{s.totalClauses}</td>
+                    <td className="py-1.5 text-gray-400">
+                      {s.expired.length > 0 && <div>Scadono: {s.expired.join(', ')}</div>}
+                      {s.renewed.length > 0 && <div>Rinnovati: {s.renewed.join(', ')}</div>}
+                      {s.released.length > 0 && <div>Tagliati: {s.released.join(', ')}</div>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Scadenze nel semestre selezionato */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-1 flex-wrap">
+              {projection.semesters.map(s => (
+                <button
+                  key={s.semester}
+                  onClick={() => { setGanttSemester(s.semester); }}
+                  className={`px-2 py-1 rounded-lg text-[10px] md:text-xs font-medium transition-colors ${
+                    ganttSemester === s.semester
+                      ? 'bg-primary-500 text-white'
+                      : 'bg-surface-300/50 text-gray-400 hover:text-white hover:bg-surface-300'
+                  }`}
+                >
+                  {semesterLabel(s.semester)}
+                </button>
+              ))}
+            </div>
+            <ContractExpiryGantt players={toGanttPlayers(projection, ganttSemester)} />
+          </div>
+        </>
+      )}
+
+      {/* Salvataggio */}
+      <div className="bg-surface-300/50 rounded-lg p-3 md:p-4 border border-surface-50/10 space-y-3">
+        <div className="text-[10px] md:text-xs text-gray-500 uppercase tracking-wider">Scenari Salvati</div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            placeholder="Nome scenario"
+            maxLength={60}
+            value={scenarioName}
+            onChange={e => { setScenarioName(e.target.value); }}
+            className={`${inputClass} flex-1 min-w-[160px]`}
+          />
+          <button
+            onClick={() => { void handleSave(); }}
+            disabled={saving || !scenarioName.trim()}
+            className="px-3 py-1.5 rounded-md text-xs font-medium bg-primary-500 text-white disabled:opacity-50"
+          >
+            {editingId ? 'Aggiorna scenario' : 'Salva scenario'}
+          </button>
+          <button
+            onClick={resetScenario}
+            className="px-3 py-1.5 rounded-md text-xs font-medium bg-surface-300 text-gray-300 hover:text-white"
+          >
+            Nuovo
+          </button>
+        </div>
+        {message && <div className="text-xs text-gray-400">{message}</div>}
+
+        {data.scenarios.length > 0 && (
+          <ul className="divide-y divide-surface-50/10 text-xs">
+            {data.scenarios.map(s => (
+              <li key={s.id} className="flex items-center gap-2 py-1.5">
+                <input
+                  type="checkbox"
+                  aria-label={`Confronta ${s.name}`}
+                  checked={compareIds.includes(s.id)}
+                  onChange={() => { toggleCompare(s.id); }}
+                />
+                <span className={`flex-1 ${editingId === s.id ? 'text-primary-400 font-medium' : 'text-white'}`}>{s.name}</span>
+                <span className="text-gray-500">{s.horizon} sem.</span>
+                <span className={s.projection.minBalance < 0 ? 'text-danger-400' : 'text-gray-300'}>
+                  min {s.projection.minBalance}
+                </span>
+                <button onClick={() => { loadScenario(s); }} className="text-primary-400 hover:text-primary-300">Carica</button>
+                <button onClick={() => { void handleDelete(s.id); }} className="text-danger-400 hover:text-danger-300">Elimina</button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Confronto scenari */}
+      {compared.length > 0 && (
+        <div className="bg-surface-300/50 rounded-lg p-3 md:p-4 border border-surface-50/10 overflow-x-auto">
+          <div className="text-[10px] md:text-xs text-gray-500 uppercase tracking-wider mb-3">Confronto Bilancio</div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500 text-left">
+                <th className="py-1 pr-2">Semestre</th>
+                {compared.map(s => <th key={s.id} className="py-1 pr-2 text-right">{s.name}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {Array.from({ length: Math.max(...compared.map(s => s.horizon)) + 1 }, (_, semester) => (
+                <tr key={semester} className="border-t border-surface-50/10">
+                  <td className="py-1.5 pr-2 text-white">{semesterLabel(semester)}</td>
+                  {compared.map(s => {
+                    const balance = s.projection.semesters[semester]?.balance
+                    return (
+                      <td key={s.id} className={`py-1.5 pr-2 text-right ${balance !== undefined && balance < 0 ? 'text-danger-400' : 'text-gray-300'}`}>
+                        {balance ?? '-'}
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+              <tr className="border-t border-surface-50/20">
+                <td className="py-1.5 pr-2 text-gray-500">Avvisi</td>
+                {compared.map(s => (
+                  <td key={s.id} className="py-1.5 pr-2 text-right text-gray-400">{s.projection.errors.length}</td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
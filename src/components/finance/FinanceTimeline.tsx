@@ -1,7 +1,6 @@
 import { useState, useEffect, useMemo } from 'react'
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts'
-import type { Formatter } from 'recharts/types/component/DefaultTooltipContent'
 import { leagueApi } from '../../services/api'
+import { FinanceTrendChart } from './FinanceTrendChart'
 import { type FinancialsData, POSITION_COLORS } from './types'
 
 interface FinanceTimelineProps {
@@ -69,8 +68,6 @@ const EVENT_DOT_COLORS: Record<string, string> = {
   green: 'bg-green-400',
 }
 
-const TOOLTIP_STYLE = { backgroundColor: '#1a1c20', border: '1px solid #2d3139', borderRadius: 8, fontSize: 12 }
-
 export function FinanceTimeline({ leagueId, data, initialMemberId, onBack }: FinanceTimelineProps) {
   // Auto-select first team if no initialMemberId provided
   const defaultMemberId = initialMemberId || data.teams[0]?.memberId
@@ -212,34 +209,7 @@ export function FinanceTimeline({ leagueId, data, initialMemberId, onBack }: Fin
         <>
           {/* Trend chart */}
           {chartData.length > 1 && (
-            <div className="bg-surface-300/50 rounded-lg p-3 md:p-4 border border-surface-50/10">
-              <div className="text-[10px] md:text-xs text-gray-500 uppercase tracking-wider mb-3">
-                Andamento Bilancio nel Tempo
-              </div>
-              <div style={{ height: 220 }}>
-                <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={chartData}>
-                    <CartesianGrid strokeDasharray="3 3" stroke="#2d3139" />
-                    <XAxis dataKey="name" tick={{ fill: '#9ca3af', fontSize: 10 }} />
-                    <YAxis tick={{ fill: '#9ca3af', fontSize: 10 }} />
-                    <Tooltip
-                      contentStyle={TOOLTIP_STYLE}
-                      formatter={((value: number, name: string) => [
-                        `${value}M`,
-                        name === 'bilancio' ? 'Bilancio' : name === 'budget' ? 'Budget' : 'Ingaggi',
-                      ]) as Formatter<number, string>}
-                    />
-                    <Legend
-                      formatter={(value: string) => value === 'bilancio' ? 'Bilancio' : value === 'budget' ? 'Budget' : 'Ingaggi'}
-                      wrapperStyle={{ fontSize: 11 }}
-                    />
-                    <Line type="monotone" dataKey="budget" stroke="#3b82f6" dot={{ r: 3 }} strokeWidth={2} />
-                    <Line type="monotone" dataKey="ingaggi" stroke="#f59e0b" dot={{ r: 3 }} strokeWidth={2} />
-                    <Line type="monotone" dataKey="bilancio" stroke="#22c55e" dot={{ r: 3 }} strokeWidth={2} />
-                  </LineChart>
-                </ResponsiveContainer>
-              </div>
-            </div>
+            <FinanceTrendChart title="Andamento Bilancio nel Tempo" points={chartData} />
           )}
 
           {/* Filter controls */}
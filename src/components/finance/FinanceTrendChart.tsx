@@ -0,0 +1,58 @@
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts'
+import type { Formatter } from 'recharts/types/component/DefaultTooltipContent'
+
+export interface FinanceTrendPoint {
+  name: string
+  budget: number
+  ingaggi: number
+  bilancio: number
+}
+
+interface FinanceTrendChartProps {
+  title: string
+  points: FinanceTrendPoint[]
+  // Linea dello zero: utile quando il bilancio può andare in negativo (proiezioni)
+  showZeroLine?: boolean
+}
+
+const TOOLTIP_STYLE = { backgroundColor: '#1a1c20', border: '1px solid #2d3139', borderRadius: 8, fontSize: 12 }
+
+const SERIES_LABELS: Record<string, string> = {
+  bilancio: 'Bilancio',
+  budget: 'Budget',
+  ingaggi: 'Ingaggi',
+}
+
+export function FinanceTrendChart({ title, points, showZeroLine = false }: FinanceTrendChartProps) {
+  return (
+    <div className="bg-surface-300/50 rounded-lg p-3 md:p-4 border border-surface-50/10">
+      <div className="text-[10px] md:text-xs text-gray-500 uppercase tracking-wider mb-3">
+        {title}
+      </div>
+      <div style={{ height: 220 }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={points}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#2d3139" />
+            <XAxis dataKey="name" tick={{ fill: '#9ca3af', fontSize: 10 }} />
+            <YAxis tick={{ fill: '#9ca3af', fontSize: 10 }} />
+            <Tooltip
+              contentStyle={TOOLTIP_STYLE}
+              formatter={((value: number, name: string) => [
+                `${value}M`,
+                SERIES_LABELS[name] ?? name,
+              ]) as Formatter<number, string>}
+            />
+            <Legend
+              formatter={(value: string) => SERIES_LABELS[value] ?? value}
+              wrapperStyle={{ fontSize: 11 }}
+            />
+            {showZeroLine && <ReferenceLine y={0} stroke="#ef4444" strokeDasharray="4 4" />}
+            <Line type="monotone" dataKey="budget" stroke="#3b82f6" dot={{ r: 3 }} strokeWidth={2} />
+            <Line type="monotone" dataKey="ingaggi" stroke="#f59e0b" dot={{ r: 3 }} strokeWidth={2} />
+            <Line type="monotone" dataKey="bilancio" stroke="#22c55e" dot={{ r: 3 }} strokeWidth={2} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
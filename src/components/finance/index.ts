@@ -7,4 +7,6 @@ export { HealthIndicator, HealthIndicatorCompact } from './HealthIndicator'
 export { TeamRanking } from './TeamRanking'
 export { WaterfallChart } from './WaterfallChart'
 export { ContractExpiryGantt } from './ContractExpiryGantt'
+export { FinanceTrendChart } from './FinanceTrendChart'
+export { ContractSimulator } from './ContractSimulator'
 export * from './types'
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react'
 import { historyApi } from '../../services/api'
+import { QuotationTrend } from '../QuotationTrend'
 
 interface PlayerCareerPanelProps {
   leagueId: string
@@ -60,6 +61,7 @@ const eventTypeConfig: Record<string, { icon: string; label: string; color: stri
   RELEGATION_KEEP: { icon: '⬇️', label: 'Retrocesso (Mantenuto)', color: 'text-amber-400' },
   ABROAD_COMPENSATION: { icon: '✈️', label: 'Estero (Compenso)', color: 'text-cyan-400' },
   ABROAD_KEEP: { icon: '✈️', label: 'Estero (Mantenuto)', color: 'text-cyan-300' },
+  DEFERRED_PAYMENT: { icon: '💰', label: 'Pagamento differito', color: 'text-blue-300' },
 }
 
 const positionColors: Record<string, string> = {
@@ -146,6 +148,7 @@ export function PlayerCareerPanel({ leagueId, playerId, playerName, onClose }: P
               <h3 className="text-xl font-bold text-white">{career.player.name}</h3>
               <p className="text-gray-400">{career.player.team}</p>
               <p className="text-sm text-gray-500">Quotazione: {career.player.quotation}M</p>
+              <QuotationTrend playerId={playerId} className="mt-2" />
             </div>
           </div>
           <button
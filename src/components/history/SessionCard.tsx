@@ -373,6 +373,7 @@ function FirstMarketTab({ data }: { data: unknown }) {
       finalPrice: number
       winner: { memberId: string; username: string; teamName: string | null } | null
       bidCount: number
+      proxyCeilings?: ProxyCeiling[]
       prophecies?: Array<{
         content: string
         author: { username: string; teamName: string | null }
@@ -439,6 +440,7 @@ function FirstMarketTab({ data }: { data: unknown }) {
                     <td className="py-1.5 px-2 text-center text-gray-500 hidden sm:table-cell">{auction.bidCount}</td>
                     <td className="py-1.5 px-2 text-gray-300">
                       {auction.winner?.teamName || auction.winner?.username || '-'}
+                      <ProxyCeilings ceilings={auction.proxyCeilings} />
                     </td>
                     <td className="py-1.5 px-2 text-center">
                       {hasProphecies && (
@@ -760,6 +762,22 @@ function PrizesTab({ data }: { data: unknown }) {
   )
 }
 
+interface ProxyCeiling {
+  username: string
+  teamName: string | null
+  maxAmount: number
+}
+
+// Tetti delle offerte automatiche, mostrati solo a asta conclusa
+function ProxyCeilings({ ceilings }: { ceilings?: ProxyCeiling[] }) {
+  if (!ceilings || ceilings.length === 0) return null
+  return (
+    <p className="text-xs text-gray-500" title="Tetti offerte automatiche">
+      Auto: {ceilings.map(c => `${c.teamName || c.username} ${c.maxAmount}M`).join(', ')}
+    </p>
+  )
+}
+
 function RubataTab({ data }: { data: unknown }) {
   if (!data) return <div className="text-gray-400">Caricamento...</div>
 
@@ -773,6 +791,7 @@ function RubataTab({ data }: { data: unknown }) {
       winner: { memberId: string; username: string; teamName: string | null } | null
       wasStolen: boolean
       noBids: boolean
+      proxyCeilings?: ProxyCeiling[]
     }>
     stats: { total: number; stolen: number; retained: number; noBids: number }
   }
@@ -833,6 +852,7 @@ function RubataTab({ data }: { data: unknown }) {
                   {auction.wasStolen
                     ? (auction.winner?.teamName || auction.winner?.username || '-')
                     : auction.noBids ? '-' : 'Trattenuto'}
+                  <ProxyCeilings ceilings={auction.proxyCeilings} />
                 </td>
               </tr>
             ))}
@@ -858,6 +878,7 @@ function SvincolatiTab({ data }: { data: unknown }) {
       nominator: { memberId: string; username: string; teamName: string | null } | null
       winner: { memberId: string; username: string; teamName: string | null } | null
       noBids: boolean
+      proxyCeilings?: ProxyCeiling[]
     }>
     stats: { total: number; totalSpent: number; avgPrice: number }
   }
@@ -903,6 +924,7 @@ function SvincolatiTab({ data }: { data: unknown }) {
                 <td className="py-1.5 px-2 text-right font-medium text-primary-400">{auction.finalPrice}M</td>
                 <td className="py-1.5 px-2 text-gray-300">
                   {auction.winner?.teamName || auction.winner?.username || '-'}
+                  <ProxyCeilings ceilings={auction.proxyCeilings} />
                 </td>
               </tr>
             ))}
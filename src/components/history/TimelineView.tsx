@@ -59,6 +59,7 @@ const eventTypeConfig: Record<string, { label: string; color: string }> = {
   RELEGATION_KEEP: { label: 'Retrocesso (Mantenuto)', color: 'text-amber-400' },
   ABROAD_COMPENSATION: { label: 'Estero (Compenso)', color: 'text-cyan-400' },
   ABROAD_KEEP: { label: 'Estero (Mantenuto)', color: 'text-cyan-300' },
+  DEFERRED_PAYMENT: { label: 'Pagamento differito', color: 'text-blue-300' },
 }
 
 const positionColors: Record<string, string> = {
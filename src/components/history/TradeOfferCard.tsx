@@ -6,6 +6,9 @@ interface TradeOfferCardProps {
     receiver: { userId: string; username: string; teamName: string | null }
     offeredBudget: number
     requestedBudget: number
+    deferredOfferedBudget?: number
+    deferredRequestedBudget?: number
+    deferredSettledAt?: string | null
     message: string | null
     offeredPlayers: Array<{
       id: string
@@ -13,6 +16,7 @@ interface TradeOfferCardProps {
       position: string
       team: string
       contract: { salary: number; duration: number; rescissionClause: number | null } | null
+      agreedContract?: { salary: number; duration: number } | null
     }>
     requestedPlayers: Array<{
       id: string
@@ -20,6 +24,7 @@ interface TradeOfferCardProps {
       position: string
       team: string
       contract: { salary: number; duration: number; rescissionClause: number | null } | null
+      agreedContract?: { salary: number; duration: number } | null
     }>
     createdAt: string
     respondedAt: string | null
@@ -98,7 +103,7 @@ export function TradeOfferCard({ trade }: TradeOfferCardProps) {
                   {trade.offeredPlayers.map(player => (
                     <PlayerRow key={player.id} player={player} />
                   ))}
-                  {trade.offeredPlayers.length === 0 && trade.offeredBudget === 0 && (
+                  {trade.offeredPlayers.length === 0 && trade.offeredBudget === 0 && !trade.deferredOfferedBudget && (
                     <p className="text-sm text-gray-500 italic">Nessun giocatore</p>
                   )}
                   {trade.offeredBudget > 0 && (
@@ -107,6 +112,9 @@ export function TradeOfferCard({ trade }: TradeOfferCardProps) {
                       <span className="text-gray-500">budget</span>
                     </div>
                   )}
+                  {!!trade.deferredOfferedBudget && (
+                    <DeferredBudgetRow amount={trade.deferredOfferedBudget} settledAt={trade.deferredSettledAt} />
+                  )}
                 </div>
               </div>
 
@@ -119,7 +127,7 @@ export function TradeOfferCard({ trade }: TradeOfferCardProps) {
                   {trade.requestedPlayers.map(player => (
                     <PlayerRow key={player.id} player={player} />
                   ))}
-                  {trade.requestedPlayers.length === 0 && trade.requestedBudget === 0 && (
+                  {trade.requestedPlayers.length === 0 && trade.requestedBudget === 0 && !trade.deferredRequestedBudget && (
                     <p className="text-sm text-gray-500 italic">Nessun giocatore</p>
                   )}
                   {trade.requestedBudget > 0 && (
@@ -128,6 +136,9 @@ export function TradeOfferCard({ trade }: TradeOfferCardProps) {
                       <span className="text-gray-500">budget</span>
                     </div>
                   )}
+                  {!!trade.deferredRequestedBudget && (
+                    <DeferredBudgetRow amount={trade.deferredRequestedBudget} settledAt={trade.deferredSettledAt} />
+                  )}
                 </div>
               </div>
             </div>
@@ -165,6 +176,7 @@ function PlayerRow({ player }: {
     position: string
     team: string
     contract: { salary: number; duration: number; rescissionClause: number | null } | null
+    agreedContract?: { salary: number; duration: number } | null
   }
 }) {
   return (
@@ -182,8 +194,24 @@ function PlayerRow({ player }: {
           {player.contract.rescissionClause && (
             <span className="ml-1 text-yellow-500">RC:{player.contract.rescissionClause}M</span>
           )}
+          {player.agreedContract && (
+            <span className="ml-1 text-primary-400" title="Contratto concordato nello scambio">
+              (concordato {player.agreedContract.salary}M / {player.agreedContract.duration}a)
+            </span>
+          )}
         </div>
       )}
     </div>
   )
 }
+
+function DeferredBudgetRow({ amount, settledAt }: { amount: number; settledAt?: string | null }) {
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="text-primary-400 font-medium">+{amount}M</span>
+      <span className="text-gray-500">
+        {settledAt ? 'budget differito (versato)' : 'budget alla prossima sessione'}
+      </span>
+    </div>
+  )
+}
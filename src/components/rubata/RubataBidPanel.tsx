@@ -1,6 +1,7 @@
 import { useState } from 'react'
 import { Button } from '../ui/Button'
 import { TeamLogo } from './TeamLogo'
+import { ProxyBidControl } from '../auction/ProxyBidControl'
 import { POSITION_COLORS } from '../../types/rubata.types'
 import { getPlayerPhotoUrl } from '../../utils/player-images'
 import type { ActiveAuction } from '../../types/rubata.types'
@@ -14,6 +15,7 @@ interface RubataBidPanelProps {
   onBid: () => void
   myBudget?: number | null
   myMaxBid?: number | null
+  leagueId?: string
 }
 
 export function RubataBidPanel({
@@ -25,6 +27,7 @@ export function RubataBidPanel({
   onBid,
   myBudget,
   myMaxBid,
+  leagueId,
 }: RubataBidPanelProps) {
   const [highBidConfirmed, setHighBidConfirmed] = useState(false)
 
@@ -228,6 +231,15 @@ export function RubataBidPanel({
                   {highBidConfirmed ? `⚠️ CONFERMA ${bidAmount}M` : `RILANCIA ${bidAmount}M`}
                 </Button>
 
+                {/* Proxy bid: rilanci automatici fino al tetto */}
+                {leagueId && (
+                  <ProxyBidControl
+                    leagueId={leagueId}
+                    playerId={activeAuction.player.id}
+                    currentPrice={activeAuction.currentPrice}
+                  />
+                )}
+
                 {/* Budget reminder */}
                 {myBudget != null && (
                   <div className="flex items-center justify-between text-sm px-1">
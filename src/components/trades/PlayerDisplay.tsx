@@ -173,8 +173,18 @@ export function PlayersTable({ players }: { players: Player[] }) {
                   {roleStyle.label}
                 </span>
               </td>
-              <td className="text-center text-accent-400 font-semibold font-mono">{p.contract?.salary ?? '-'}</td>
-              <td className="text-center text-white font-mono">{p.contract?.duration ?? '-'}</td>
+              <td className="text-center text-accent-400 font-semibold font-mono">
+                {p.contract?.salary ?? '-'}
+                {p.agreedContract && (
+                  <span className="block text-[10px] text-primary-400" title="Ingaggio concordato all'arrivo">→ {p.agreedContract.salary}</span>
+                )}
+              </td>
+              <td className="text-center text-white font-mono">
+                {p.contract?.duration ?? '-'}
+                {p.agreedContract && (
+                  <span className="block text-[10px] text-primary-400" title="Durata concordata all'arrivo">→ {p.agreedContract.duration}</span>
+                )}
+              </td>
               <td className="text-center text-warning-400 font-mono">{p.contract?.rescissionClause ?? '-'}</td>
             </tr>
           )
@@ -25,6 +25,14 @@ interface DealTableProps {
   onRemoveRequested: (id: string) => void
   requestedBudget: number
   onRequestedBudgetChange: (v: number) => void
+  // Deferred budget (paid when the next market session opens)
+  deferredOfferedBudget: number
+  onDeferredOfferedBudgetChange: (v: number) => void
+  deferredRequestedBudget: number
+  onDeferredRequestedBudgetChange: (v: number) => void
+  // Contract terms agreed for the traded players, keyed by roster id
+  contractTerms: Record<string, ContractTerm>
+  onContractTermChange: (rosterId: string, term: ContractTerm | null) => void
   // Controls
   offerDuration: number
   onDurationChange: (d: number) => void
@@ -41,6 +49,11 @@ interface DealTableProps {
   onViewStats?: (entry: RosterEntry) => void
 }
 
+interface ContractTerm {
+  salary: number
+  duration: number
+}
+
 const DURATIONS = [6, 12, 24, 48, 72, 168]
 
 function formatDuration(h: number) {
@@ -64,71 +77,114 @@ const CHIP_STYLES = {
   },
 }
 
-function PlayerChip({ entry, onRemove, accent, onViewStats }: { entry: RosterEntry; onRemove: () => void; accent: 'danger' | 'primary'; onViewStats?: (entry: RosterEntry) => void }) {
+function PlayerChip({ entry, onRemove, accent, onViewStats, term, onTermChange }: {
+  entry: RosterEntry; onRemove: () => void; accent: 'danger' | 'primary'; onViewStats?: (entry: RosterEntry) => void
+  term?: ContractTerm; onTermChange: (term: ContractTerm | null) => void
+}) {
   const p = entry.player
   const gradient = POSITION_GRADIENTS[p.position] || 'from-gray-500 to-gray-600'
   const roleStyle = getRoleStyle(p.position)
   const cs = CHIP_STYLES[accent]
+  const contract = p.contract
 
   return (
-    <div className={`flex items-center gap-2.5 px-3 py-2.5 rounded-lg ${cs.container} group`}>
-      {/* Photo */}
-      <div className="relative flex-shrink-0">
-        {p.apiFootballId ? (
-          <img
-            src={getPlayerPhotoUrl(p.apiFootballId)}
-            alt={p.name}
-            className="w-9 h-9 rounded-full object-cover bg-surface-300"
-            onError={(e) => {
-              (e.target as HTMLImageElement).style.display = 'none'
-              const fallback = (e.target as HTMLImageElement).nextElementSibling as HTMLElement
-              if (fallback) fallback.style.display = 'flex'
-            }}
-          />
-        ) : null}
-        <div
-          className={`w-9 h-9 rounded-full bg-gradient-to-br ${gradient} items-center justify-center text-[10px] font-bold text-white ${p.apiFootballId ? 'hidden' : 'flex'}`}
-        >
-          {p.position}
-        </div>
-      </div>
-
-      {/* Info */}
-      <div className="min-w-0 flex-1">
-        <div className="flex items-center gap-1.5">
-          <button
-            type="button"
-            onClick={(e) => { e.stopPropagation(); onViewStats?.(entry) }}
-            className="text-sm font-semibold text-white truncate hover:text-primary-400 transition-colors text-left"
+    <div className={`rounded-lg ${cs.container}`}>
+      <div className="flex items-center gap-2.5 px-3 py-2.5 group">
+        {/* Photo */}
+        <div className="relative flex-shrink-0">
+          {p.apiFootballId ? (
+            <img
+              src={getPlayerPhotoUrl(p.apiFootballId)}
+              alt={p.name}
+              className="w-9 h-9 rounded-full object-cover bg-surface-300"
+              onError={(e) => {
+                (e.target as HTMLImageElement).style.display = 'none'
+                const fallback = (e.target as HTMLImageElement).nextElementSibling as HTMLElement
+                if (fallback) fallback.style.display = 'flex'
+              }}
+            />
+          ) : null}
+          <div
+            className={`w-9 h-9 rounded-full bg-gradient-to-br ${gradient} items-center justify-center text-[10px] font-bold text-white ${p.apiFootballId ? 'hidden' : 'flex'}`}
           >
-            {p.name}
-          </button>
-          <span className={`px-1.5 py-0.5 text-[10px] font-bold rounded ${roleStyle.bg} ${roleStyle.text}`}>
-            {roleStyle.label}
-          </span>
+            {p.position}
+          </div>
         </div>
-        <div className="flex items-center gap-2 text-xs text-gray-400">
-          <div className="flex items-center gap-1">
-            <div className="w-3.5 h-3.5 bg-white/90 rounded-sm flex items-center justify-center flex-shrink-0">
-              <img src={getTeamLogo(p.team)} alt="" className="w-3 h-3 object-contain" />
+
+        {/* Info */}
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-1.5">
+            <button
+              type="button"
+              onClick={(e) => { e.stopPropagation(); onViewStats?.(entry) }}
+              className="text-sm font-semibold text-white truncate hover:text-primary-400 transition-colors text-left"
+            >
+              {p.name}
+            </button>
+            <span className={`px-1.5 py-0.5 text-[10px] font-bold rounded ${roleStyle.bg} ${roleStyle.text}`}>
+              {roleStyle.label}
+            </span>
+          </div>
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            <div className="flex items-center gap-1">
+              <div className="w-3.5 h-3.5 bg-white/90 rounded-sm flex items-center justify-center flex-shrink-0">
+                <img src={getTeamLogo(p.team)} alt="" className="w-3 h-3 object-contain" />
+              </div>
+              <span className="truncate">{p.team}</span>
             </div>
-            <span className="truncate">{p.team}</span>
+            <span className="font-mono text-accent-400">{p.contract?.salary ?? '-'}M</span>
+            <span className="font-mono">{p.contract?.duration ?? '-'}A</span>
           </div>
-          <span className="font-mono text-accent-400">{p.contract?.salary ?? '-'}M</span>
-          <span className="font-mono">{p.contract?.duration ?? '-'}A</span>
         </div>
+
+        {/* Remove */}
+        <button
+          onClick={(e) => { e.stopPropagation(); onRemove() }}
+          className={`p-1 rounded-full opacity-60 hover:opacity-100 ${cs.removeHover} transition-all flex-shrink-0`}
+          title="Rimuovi"
+        >
+          <svg className={`w-4 h-4 ${cs.removeIcon}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
       </div>
 
-      {/* Remove */}
-      <button
-        onClick={(e) => { e.stopPropagation(); onRemove() }}
-        className={`p-1 rounded-full opacity-60 hover:opacity-100 ${cs.removeHover} transition-all flex-shrink-0`}
-        title="Rimuovi"
-      >
-        <svg className={`w-4 h-4 ${cs.removeIcon}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-        </svg>
-      </button>
+      {/* Clausola contrattuale: chi riceve il giocatore lo rinegozia all'arrivo */}
+      {contract && (
+        <div className="px-3 pb-2.5 flex items-center gap-2 text-xs">
+          <label className="flex items-center gap-1.5 text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!term}
+              onChange={e => { onTermChange(e.target.checked ? { salary: contract.salary, duration: contract.duration } : null); }}
+              className="accent-primary-500"
+            />
+            Rinnovo concordato
+          </label>
+          {term && (
+            <div className="flex items-center gap-1 ml-auto">
+              <input
+                type="number"
+                min={contract.salary}
+                value={term.salary}
+                onChange={e => { onTermChange({ ...term, salary: parseInt(e.target.value, 10) || 0 }); }}
+                className="w-14 px-1.5 py-1 bg-surface-300 border border-white/10 rounded text-white font-mono text-center"
+                aria-label="Ingaggio concordato"
+              />
+              <span className="text-gray-500">M /</span>
+              <input
+                type="number"
+                min={contract.duration}
+                value={term.duration}
+                onChange={e => { onTermChange({ ...term, duration: parseInt(e.target.value, 10) || 0 }); }}
+                className="w-12 px-1.5 py-1 bg-surface-300 border border-white/10 rounded text-white font-mono text-center"
+                aria-label="Durata concordata"
+              />
+              <span className="text-gray-500">A</span>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   )
 }
@@ -266,6 +322,12 @@ export function DealTable(props: DealTableProps) {
     onRemoveRequested,
     requestedBudget,
     onRequestedBudgetChange,
+    deferredOfferedBudget,
+    onDeferredOfferedBudgetChange,
+    deferredRequestedBudget,
+    onDeferredRequestedBudgetChange,
+    contractTerms,
+    onContractTermChange,
     offerDuration,
     onDurationChange,
     message,
@@ -292,10 +354,12 @@ export function DealTable(props: DealTableProps) {
   const summaryParts: string[] = []
   if (offeredEntries.length > 0) summaryParts.push(`${offeredEntries.length} giocator${offeredEntries.length === 1 ? 'e' : 'i'}`)
   if (offeredBudget > 0) summaryParts.push(`${offeredBudget} crediti`)
+  if (deferredOfferedBudget > 0) summaryParts.push(`${deferredOfferedBudget} differiti`)
   const offerSummary = summaryParts.length > 0 ? summaryParts.join(' + ') : null
   const requestParts: string[] = []
   if (requestedEntries.length > 0) requestParts.push(`${requestedEntries.length} giocator${requestedEntries.length === 1 ? 'e' : 'i'}`)
   if (requestedBudget > 0) requestParts.push(`${requestedBudget} crediti`)
+  if (deferredRequestedBudget > 0) requestParts.push(`${deferredRequestedBudget} differiti`)
   const requestSummary = requestParts.length > 0 ? requestParts.join(' + ') : null
 
   return (
@@ -348,7 +412,15 @@ export function DealTable(props: DealTableProps) {
         {offeredEntries.length > 0 ? (
           <div className="space-y-2">
             {offeredEntries.map(entry => (
-              <PlayerChip key={entry.id} entry={entry} onRemove={() => { onRemoveOffered(entry.id); }} accent="danger" onViewStats={onViewStats} />
+              <PlayerChip
+                key={entry.id}
+                entry={entry}
+                onRemove={() => { onRemoveOffered(entry.id); }}
+                accent="danger"
+                onViewStats={onViewStats}
+                term={contractTerms[entry.id]}
+                onTermChange={(term) => { onContractTermChange(entry.id, term); }}
+              />
             ))}
           </div>
         ) : (
@@ -383,6 +455,12 @@ export function DealTable(props: DealTableProps) {
             </div>
             <BudgetStepper value={offeredBudget} onChange={onOfferedBudgetChange} max={myBudget} accent="danger" shortcuts />
           </div>
+          <div className="mt-2 flex items-center justify-between gap-3">
+            <label className="text-sm text-gray-300 font-medium">
+              Alla prossima sessione <span className="text-gray-500 text-xs">(differiti)</span>
+            </label>
+            <BudgetStepper value={deferredOfferedBudget} onChange={onDeferredOfferedBudgetChange} accent="danger" />
+          </div>
         </div>
       </div>
 
@@ -418,7 +496,15 @@ export function DealTable(props: DealTableProps) {
         {requestedEntries.length > 0 ? (
           <div className="space-y-2">
             {requestedEntries.map(entry => (
-              <PlayerChip key={entry.id} entry={entry} onRemove={() => { onRemoveRequested(entry.id); }} accent="primary" onViewStats={onViewStats} />
+              <PlayerChip
+                key={entry.id}
+                entry={entry}
+                onRemove={() => { onRemoveRequested(entry.id); }}
+                accent="primary"
+                onViewStats={onViewStats}
+                term={contractTerms[entry.id]}
+                onTermChange={(term) => { onContractTermChange(entry.id, term); }}
+              />
             ))}
           </div>
         ) : (
@@ -451,6 +537,12 @@ export function DealTable(props: DealTableProps) {
             </div>
             <BudgetStepper value={requestedBudget} onChange={onRequestedBudgetChange} accent="primary" shortcuts />
           </div>
+          <div className="mt-2 flex items-center justify-between gap-3">
+            <label className="text-sm text-gray-300 font-medium">
+              Alla prossima sessione <span className="text-gray-500 text-xs">(differiti)</span>
+            </label>
+            <BudgetStepper value={deferredRequestedBudget} onChange={onDeferredRequestedBudgetChange} accent="primary" />
+          </div>
         </div>
       </div>
 
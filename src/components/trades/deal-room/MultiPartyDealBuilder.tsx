@@ -0,0 +1,333 @@
+import { useState, useMemo } from 'react'
+import { Textarea } from '@/components/ui/Textarea'
+import { getRoleStyle } from '../utils'
+import type { RosterEntry, LeagueMember, MultiPartyTransfer } from '../types'
+
+export interface MultiPartyDealSubmit {
+  participantMemberIds: string[]
+  transfers: MultiPartyTransfer[]
+  message: string
+}
+
+interface MultiPartyDealBuilderProps {
+  myMemberId: string
+  myBudget: number
+  // Other league members (excluding me)
+  members: LeagueMember[]
+  myRoster: RosterEntry[]
+  allOtherPlayers: RosterEntry[]
+  // Counter-offer: participants are fixed, transfers start from the original proposal
+  initialParticipantIds?: string[]
+  initialTransfers?: MultiPartyTransfer[]
+  lockParticipants?: boolean
+  submitLabel?: string
+  isSubmitting: boolean
+  onSubmit: (data: MultiPartyDealSubmit) => void
+  onCancel?: () => void
+}
+
+const MIN_OTHER_PARTIES = 2
+
+export function MultiPartyDealBuilder({
+  myMemberId,
+  myBudget,
+  members,
+  myRoster,
+  allOtherPlayers,
+  initialParticipantIds,
+  initialTransfers,
+  lockParticipants = false,
+  submitLabel = 'Invia proposta',
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}: MultiPartyDealBuilderProps) {
+  const [participantIds, setParticipantIds] = useState<string[]>(
+    (initialParticipantIds ?? []).filter(id => id !== myMemberId)
+  )
+  const [transfers, setTransfers] = useState<MultiPartyTransfer[]>(initialTransfers ?? [])
+  const [message, setMessage] = useState('')
+
+  // New transfer form
+  const [fromId, setFromId] = useState('')
+  const [toId, setToId] = useState('')
+  const [kind, setKind] = useState<'player' | 'budget'>('player')
+  const [rosterId, setRosterId] = useState('')
+  const [budget, setBudget] = useState(0)
+
+  const allParticipantIds = useMemo(() => [myMemberId, ...participantIds], [myMemberId, participantIds])
+
+  function nameOf(memberId: string) {
+    if (memberId === myMemberId) return 'Tu'
+    return members.find(m => m.id === memberId)?.user.username ?? '?'
+  }
+
+  function budgetOf(memberId: string) {
+    if (memberId === myMemberId) return myBudget
+    return members.find(m => m.id === memberId)?.currentBudget ?? 0
+  }
+
+  const rosterByMember = useMemo(() => {
+    const map = new Map<string, RosterEntry[]>()
+    map.set(myMemberId, myRoster)
+    for (const entry of allOtherPlayers) {
+      if (!entry.memberId) continue
+      map.set(entry.memberId, [...(map.get(entry.memberId) ?? []), entry])
+    }
+    return map
+  }, [myMemberId, myRoster, allOtherPlayers])
+
+  const rosterById = useMemo(
+    () => new Map([...myRoster, ...allOtherPlayers].map(r => [r.id, r])),
+    [myRoster, allOtherPlayers]
+  )
+
+  const usedRosterIds = new Set(transfers.flatMap(t => (t.rosterId ? [t.rosterId] : [])))
+  const availablePlayers = (rosterByMember.get(fromId) ?? []).filter(r => !usedRosterIds.has(r.id))
+
+  function toggleParticipant(memberId: string) {
+    if (lockParticipants) return
+    if (participantIds.includes(memberId)) {
+      setParticipantIds(participantIds.filter(id => id !== memberId))
+      // Drop transfers that involve the removed party
+      setTransfers(transfers.filter(t => t.fromMemberId !== memberId && t.toMemberId !== memberId))
+      if (fromId === memberId) setFromId('')
+      if (toId === memberId) setToId('')
+    } else {
+      setParticipantIds([...participantIds, memberId])
+    }
+  }
+
+  const canAddTransfer = !!fromId && !!toId && fromId !== toId
+    && (kind === 'player' ? !!rosterId : budget > 0)
+
+  function addTransfer() {
+    if (!canAddTransfer) return
+    setTransfers([
+      ...transfers,
+      kind === 'player'
+        ? { fromMemberId: fromId, toMemberId: toId, rosterId, budget: 0 }
+        : { fromMemberId: fromId, toMemberId: toId, rosterId: null, budget },
+    ])
+    setRosterId('')
+    setBudget(0)
+  }
+
+  function removeTransfer(index: number) {
+    setTransfers(transfers.filter((_, i) => i !== index))
+  }
+
+  // Per-party summary: players given/received and net budget
+  const summary = allParticipantIds.map(memberId => {
+    const gives = transfers.filter(t => t.fromMemberId === memberId)
+    const receives = transfers.filter(t => t.toMemberId === memberId)
+    const netBudget = receives.reduce((s, t) => s + t.budget, 0) - gives.reduce((s, t) => s + t.budget, 0)
+    return {
+      memberId,
+      playersOut: gives.filter(t => t.rosterId).length,
+      playersIn: receives.filter(t => t.rosterId).length,
+      netBudget,
+      overBudget: gives.reduce((s, t) => s + t.budget, 0) > budgetOf(memberId),
+      involved: gives.length + receives.length > 0,
+    }
+  })
+
+  const canSubmit = participantIds.length >= MIN_OTHER_PARTIES
+    && transfers.length > 0
+    && summary.every(s => s.involved && !s.overBudget)
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!canSubmit) return
+    onSubmit({ participantMemberIds: allParticipantIds, transfers, message })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-slate-900/80 backdrop-blur-xl border border-white/10 rounded-xl overflow-hidden">
+      {/* Participants */}
+      <div className="px-4 py-4 border-b border-white/5">
+        <label className="text-xs uppercase tracking-wider text-gray-400 font-semibold mb-2 block">
+          Partecipanti {lockParticipants ? '' : `(almeno ${MIN_OTHER_PARTIES} oltre a te)`}
+        </label>
+        <div className="flex flex-wrap gap-2">
+          <span className="px-3 py-1.5 rounded-full text-sm bg-primary-500/20 text-primary-300 border border-primary-500/40">Tu</span>
+          {members.map(m => {
+            const selected = participantIds.includes(m.id)
+            if (lockParticipants && !selected) return null
+            return (
+              <button
+                key={m.id}
+                type="button"
+                onClick={() => { toggleParticipant(m.id); }}
+                disabled={lockParticipants}
+                className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${selected ? 'bg-accent-500/20 text-accent-300 border-accent-500/40' : 'bg-surface-300 text-gray-400 border-white/10 hover:text-white'}`}
+              >
+                {m.user.username}
+              </button>
+            )
+          })}
+        </div>
+      </div>
+
+      {/* New transfer */}
+      <div className="px-4 py-4 border-b border-white/5 space-y-2">
+        <label className="text-xs uppercase tracking-wider text-gray-400 font-semibold block">Aggiungi trasferimento</label>
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={fromId}
+            onChange={e => { setFromId(e.target.value); setRosterId('') }}
+            className="px-3 py-2 bg-surface-300 border border-white/10 rounded-lg text-white text-sm"
+            aria-label="Chi cede"
+          >
+            <option value="">Chi cede...</option>
+            {allParticipantIds.map(id => <option key={id} value={id}>{nameOf(id)}</option>)}
+          </select>
+          <select
+            value={toId}
+            onChange={e => { setToId(e.target.value); }}
+            className="px-3 py-2 bg-surface-300 border border-white/10 rounded-lg text-white text-sm"
+            aria-label="Chi riceve"
+          >
+            <option value="">Chi riceve...</option>
+            {allParticipantIds.filter(id => id !== fromId).map(id => <option key={id} value={id}>{nameOf(id)}</option>)}
+          </select>
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={kind}
+            onChange={e => { setKind(e.target.value as 'player' | 'budget'); }}
+            className="px-3 py-2 bg-surface-300 border border-white/10 rounded-lg text-white text-sm"
+            aria-label="Tipo di trasferimento"
+          >
+            <option value="player">Giocatore</option>
+            <option value="budget">Budget</option>
+          </select>
+          {kind === 'player' ? (
+            <select
+              value={rosterId}
+              onChange={e => { setRosterId(e.target.value); }}
+              disabled={!fromId}
+              className="flex-1 min-w-0 px-3 py-2 bg-surface-300 border border-white/10 rounded-lg text-white text-sm disabled:opacity-50"
+              aria-label="Giocatore"
+            >
+              <option value="">Seleziona giocatore...</option>
+              {availablePlayers.map(r => (
+                <option key={r.id} value={r.id}>{r.player.position} · {r.player.name} ({r.player.team})</option>
+              ))}
+            </select>
+          ) : (
+            <input
+              type="number"
+              min={0}
+              value={budget}
+              onChange={e => { setBudget(Math.max(0, parseInt(e.target.value, 10) || 0)); }}
+              className="flex-1 min-w-0 px-3 py-2 bg-surface-300 border border-white/10 rounded-lg text-white text-sm font-mono"
+              aria-label="Crediti"
+            />
+          )}
+          <button
+            type="button"
+            onClick={addTransfer}
+            disabled={!canAddTransfer}
+            className="px-3 py-2 rounded-lg text-sm font-medium bg-primary-500/20 text-primary-300 border border-primary-500/30 disabled:opacity-30"
+          >
+            Aggiungi
+          </button>
+        </div>
+      </div>
+
+      {/* Transfers */}
+      <div className="px-4 py-4 border-b border-white/5">
+        <label className="text-xs uppercase tracking-wider text-gray-400 font-semibold mb-2 block">Trasferimenti</label>
+        {transfers.length === 0 ? (
+          <p className="text-sm text-gray-500">Nessun trasferimento</p>
+        ) : (
+          <ul className="space-y-1.5">
+            {transfers.map((t, i) => {
+              const entry = t.rosterId ? rosterById.get(t.rosterId) : undefined
+              const player = entry?.player ?? t.player
+              const roleStyle = player ? getRoleStyle(player.position) : null
+              return (
+                <li key={`${t.fromMemberId}-${t.toMemberId}-${t.rosterId ?? t.budget}-${i}`} className="flex items-center gap-2 text-sm bg-surface-300/50 rounded-lg px-3 py-2">
+                  <span className="text-gray-300">{nameOf(t.fromMemberId)}</span>
+                  <span className="text-gray-500">→</span>
+                  <span className="text-gray-300">{nameOf(t.toMemberId)}</span>
+                  <span className="flex-1 min-w-0 truncate text-right">
+                    {player && roleStyle ? (
+                      <>
+                        <span className={`px-1.5 py-0.5 mr-1.5 text-[10px] font-bold rounded ${roleStyle.bg} ${roleStyle.text}`}>{roleStyle.label}</span>
+                        <span className="text-white font-medium">{player.name}</span>
+                      </>
+                    ) : (
+                      <span className="font-mono text-accent-400">{t.budget} crediti</span>
+                    )}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => { removeTransfer(i); }}
+                    className="p-1 rounded-full text-danger-400 opacity-60 hover:opacity-100 hover:bg-danger-500/20"
+                    title="Rimuovi"
+                  >
+                    ×
+                  </button>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+
+      {/* Per-party summary */}
+      <div className="px-4 py-4 border-b border-white/5">
+        <label className="text-xs uppercase tracking-wider text-gray-400 font-semibold mb-2 block">Riepilogo per squadra</label>
+        <div className="space-y-1 text-sm">
+          {summary.map(s => (
+            <div key={s.memberId} className="flex items-center justify-between">
+              <span className={s.involved ? 'text-gray-300' : 'text-gray-500 italic'}>{nameOf(s.memberId)}</span>
+              <span className="font-mono text-xs">
+                <span className="text-danger-400">-{s.playersOut}</span>
+                {' / '}
+                <span className="text-secondary-400">+{s.playersIn}</span>
+                {' gioc. · '}
+                <span className={s.overBudget ? 'text-danger-400 font-bold' : s.netBudget >= 0 ? 'text-secondary-400' : 'text-accent-400'}>
+                  {s.netBudget >= 0 ? '+' : ''}{s.netBudget} cr
+                </span>
+              </span>
+            </div>
+          ))}
+        </div>
+        {summary.some(s => !s.involved) && (
+          <p className="mt-2 text-xs text-gray-500">Ogni partecipante deve cedere o ricevere qualcosa.</p>
+        )}
+      </div>
+
+      {/* Message + submit */}
+      <div className="px-4 py-4 space-y-3">
+        <Textarea
+          value={message}
+          onChange={e => { setMessage(e.target.value); }}
+          placeholder="Messaggio (opzionale)"
+          rows={2}
+        />
+        <div className="flex gap-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 py-3 rounded-xl font-medium text-sm bg-surface-300 text-gray-300 border border-white/10"
+            >
+              Annulla
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={!canSubmit || isSubmitting}
+            className="flex-1 py-3 rounded-xl font-bold text-sm bg-primary-500 text-white disabled:opacity-40 active:scale-[0.98] transition-all"
+          >
+            {isSubmitting ? 'Invio...' : submitLabel}
+          </button>
+        </div>
+      </div>
+    </form>
+  )
+}
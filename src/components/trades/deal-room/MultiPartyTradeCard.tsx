@@ -0,0 +1,99 @@
+import { Card } from '../../ui/Card'
+import { Button } from '../../ui/Button'
+import { getTimeRemaining, getRoleStyle } from '../utils'
+import type { MultiPartyTrade } from '../types'
+
+interface MultiPartyTradeCardProps {
+  trade: MultiPartyTrade
+  myMemberId: string
+  onAccept: (tradeId: string) => void
+  onReject: (tradeId: string) => void
+  onCancel: (tradeId: string) => void
+  onCounter: (trade: MultiPartyTrade) => void
+}
+
+export function MultiPartyTradeCard({ trade, myMemberId, onAccept, onReject, onCancel, onCounter }: MultiPartyTradeCardProps) {
+  const timeRemaining = getTimeRemaining(trade.expiresAt ?? undefined)
+  const nameOf = (memberId: string) => trade.participants.find(p => p.memberId === memberId)?.username ?? '?'
+  const me = trade.participants.find(p => p.memberId === myMemberId)
+  const isProposer = trade.proposerId === myMemberId
+  const acceptedCount = trade.participants.filter(p => p.acceptedAt).length
+
+  return (
+    <Card id={`multi-offer-${trade.id}`} className="overflow-hidden border-l-4 border-l-accent-500">
+      <div className="bg-gradient-to-r from-surface-200 to-transparent px-5 py-4 flex justify-between items-center gap-3">
+        <div>
+          <p className="font-semibold text-white">
+            Scambio a {trade.participants.length} squadre
+            {trade.parentTradeId && <span className="ml-2 text-xs text-accent-400">Controproposta</span>}
+          </p>
+          <p className="text-xs text-gray-400">
+            Proposto da {nameOf(trade.proposerId)} · {acceptedCount}/{trade.participants.length} accettazioni
+          </p>
+        </div>
+        {trade.expiresAt && (
+          <span className={`text-xs font-medium ${timeRemaining.isUrgent ? 'text-danger-400' : 'text-gray-400'}`}>
+            {timeRemaining.text}
+          </span>
+        )}
+      </div>
+
+      <div className="px-5 py-3 space-y-3">
+        {/* Participants with acceptance status */}
+        <div className="flex flex-wrap gap-2">
+          {trade.participants.map(p => (
+            <span
+              key={p.memberId}
+              className={`px-2.5 py-1 rounded-full text-xs border ${p.acceptedAt ? 'bg-secondary-500/15 text-secondary-300 border-secondary-500/30' : 'bg-surface-300 text-gray-400 border-white/10'}`}
+            >
+              {p.acceptedAt ? '✓ ' : '… '}{p.memberId === myMemberId ? 'Tu' : p.username}
+            </span>
+          ))}
+        </div>
+
+        {/* Transfers */}
+        <ul className="space-y-1.5">
+          {trade.transfers.map((t, i) => {
+            const roleStyle = t.player ? getRoleStyle(t.player.position) : null
+            return (
+              <li key={t.id ?? i} className="flex items-center gap-2 text-sm bg-surface-300/50 rounded-lg px-3 py-2">
+                <span className={t.fromMemberId === myMemberId ? 'text-danger-300' : 'text-gray-300'}>{nameOf(t.fromMemberId)}</span>
+                <span className="text-gray-500">→</span>
+                <span className={t.toMemberId === myMemberId ? 'text-secondary-300' : 'text-gray-300'}>{nameOf(t.toMemberId)}</span>
+                <span className="flex-1 min-w-0 truncate text-right">
+                  {t.player && roleStyle ? (
+                    <>
+                      <span className={`px-1.5 py-0.5 mr-1.5 text-[10px] font-bold rounded ${roleStyle.bg} ${roleStyle.text}`}>{roleStyle.label}</span>
+                      <span className="text-white font-medium">{t.player.name}</span>
+                      {t.player.contract && (
+                        <span className="ml-1.5 font-mono text-xs text-gray-400">{t.player.contract.salary}M/{t.player.contract.duration}A</span>
+                      )}
+                    </>
+                  ) : (
+                    <span className="font-mono text-accent-400">{t.budget} crediti</span>
+                  )}
+                </span>
+              </li>
+            )
+          })}
+        </ul>
+
+        {trade.message && (
+          <p className="text-sm text-gray-400 italic">"{trade.message}"</p>
+        )}
+      </div>
+
+      <div className="px-5 py-3 border-t border-white/5 flex flex-wrap gap-2 justify-end">
+        {me && !me.acceptedAt && (
+          <Button size="sm" onClick={() => { onAccept(trade.id); }}>Accetta</Button>
+        )}
+        <Button size="sm" variant="outline" onClick={() => { onCounter(trade); }}>Controproposta</Button>
+        {isProposer ? (
+          <Button size="sm" variant="ghost" onClick={() => { onCancel(trade.id); }}>Annulla</Button>
+        ) : (
+          <Button size="sm" variant="ghost" onClick={() => { onReject(trade.id); }}>Rifiuta</Button>
+        )}
+      </div>
+    </Card>
+  )
+}
@@ -3,3 +3,6 @@ export { DealFinanceBar } from './DealFinanceBar'
 export { DealRosterPanel } from './DealRosterPanel'
 export { DealTable } from './DealTable'
 export { DealMobileFooter } from './DealMobileFooter'
+export { MultiPartyDealBuilder } from './MultiPartyDealBuilder'
+export type { MultiPartyDealSubmit } from './MultiPartyDealBuilder'
+export { MultiPartyTradeCard } from './MultiPartyTradeCard'
@@ -24,6 +24,8 @@ export interface Player {
     matchesInSquad: number
   } | null
   statsSyncedAt?: string | null
+  // Contratto concordato nello scambio (rinegoziato all'arrivo)
+  agreedContract?: { salary: number; duration: number } | null
 }
 
 export interface RosterEntry {
@@ -48,6 +50,8 @@ export interface TradeOffer {
   requestedPlayerIds: string[]
   offeredBudget: number
   requestedBudget: number
+  deferredOfferedBudget?: number
+  deferredRequestedBudget?: number
   message?: string
   status: string
   createdAt: string
@@ -80,3 +84,32 @@ export interface TradeMovement {
   newSalary: number | null
   createdAt: string
 }
+
+// Scambio a più squadre: ogni trasferimento è un giocatore oppure una somma di budget
+export interface MultiPartyTransfer {
+  id?: string
+  fromMemberId: string
+  toMemberId: string
+  rosterId?: string | null
+  budget: number
+  player?: Player | null
+}
+
+export interface MultiPartyParticipant {
+  memberId: string
+  username: string
+  teamName?: string | null
+  acceptedAt?: string | null
+}
+
+export interface MultiPartyTrade {
+  id: string
+  status: string
+  proposerId: string
+  parentTradeId?: string | null
+  message?: string | null
+  createdAt: string
+  expiresAt?: string | null
+  participants: MultiPartyParticipant[]
+  transfers: MultiPartyTransfer[]
+}
@@ -0,0 +1,137 @@
+import { useState } from 'react'
+import { Modal, ModalHeader, ModalBody } from '../ui/Modal'
+import type { UseWatchlistResult } from '../../hooks/useWatchlist'
+
+interface WatchlistButtonProps {
+  playerId: string
+  playerName: string
+  watchlist: UseWatchlistResult
+  className?: string
+}
+
+/**
+ * Stella "watchlist" per una riga giocatore: apre un modale per
+ * aggiungere/togliere il giocatore dalle categorie della watchlist di lega.
+ */
+export function WatchlistButton({ playerId, playerName, watchlist, className = '' }: WatchlistButtonProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [newCategoryName, setNewCategoryName] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const playerEntries = watchlist.entriesByPlayer.get(playerId) ?? []
+  const isWatched = playerEntries.length > 0
+
+  async function handleToggleCategory(categoryId: string) {
+    setIsSaving(true)
+    const existing = playerEntries.find(e => e.categoryId === categoryId)
+    if (existing) {
+      await watchlist.removeFromWatchlist(existing.id)
+    } else {
+      await watchlist.addToWatchlist(playerId, categoryId)
+    }
+    setIsSaving(false)
+  }
+
+  async function handleSetPriority(categoryId: string, priority: number) {
+    setIsSaving(true)
+    await watchlist.addToWatchlist(playerId, categoryId, { priority })
+    setIsSaving(false)
+  }
+
+  async function handleCreateCategory(e: React.FormEvent) {
+    e.preventDefault()
+    const name = newCategoryName.trim()
+    if (!name) return
+    setIsSaving(true)
+    const created = await watchlist.createCategory(name)
+    if (created) {
+      await watchlist.addToWatchlist(playerId, created.id)
+      setNewCategoryName('')
+    }
+    setIsSaving(false)
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={(e) => { e.stopPropagation(); setIsOpen(true); }}
+        className={`text-lg leading-none transition-colors ${isWatched ? 'text-yellow-400 hover:text-yellow-300' : 'text-gray-500 hover:text-yellow-400'} ${className}`}
+        title={isWatched ? 'In watchlist' : 'Aggiungi alla watchlist'}
+        aria-label={isWatched ? `${playerName} in watchlist` : `Aggiungi ${playerName} alla watchlist`}
+      >
+        {isWatched ? '★' : '☆'}
+      </button>
+
+      <Modal isOpen={isOpen} onClose={() => { setIsOpen(false); }} size="sm">
+        <ModalHeader>Watchlist: {playerName}</ModalHeader>
+        <ModalBody className="space-y-3">
+          <div className="space-y-2">
+            {watchlist.categories.map(category => {
+              const entry = playerEntries.find(e => e.categoryId === category.id)
+              return (
+                <div
+                  key={category.id}
+                  className={`rounded-lg border px-3 py-2 ${entry ? 'border-primary-500/50 bg-primary-500/10' : 'border-surface-50/20 bg-surface-300'}`}
+                >
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!!entry}
+                      disabled={isSaving}
+                      onChange={() => { void handleToggleCategory(category.id); }}
+                      className="w-4 h-4 rounded border-gray-600 bg-surface-300 text-primary-500 focus:ring-primary-500"
+                    />
+                    <span className="text-base">{category.icon ?? '📁'}</span>
+                    <span className="flex-1 text-sm text-white">{category.name}</span>
+                    {!category.isSystemDefault && (
+                      <span className="text-[10px] uppercase text-gray-500">personale</span>
+                    )}
+                  </label>
+                  {entry && (
+                    <div className="flex items-center gap-1 mt-1 pl-7">
+                      {[1, 2, 3, 4, 5].map(star => (
+                        <button
+                          key={star}
+                          type="button"
+                          disabled={isSaving}
+                          onClick={() => { void handleSetPriority(category.id, star); }}
+                          className={`text-sm ${star <= entry.priority ? 'text-yellow-400' : 'text-gray-600'} hover:text-yellow-300`}
+                          title={`Priorità ${star}`}
+                        >
+                          ★
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+
+          <form onSubmit={(e) => { void handleCreateCategory(e); }} className="flex gap-2 pt-2 border-t border-surface-50/20">
+            <input
+              type="text"
+              value={newCategoryName}
+              onChange={(e) => { setNewCategoryName(e.target.value); }}
+              maxLength={40}
+              placeholder="Nuova categoria..."
+              className="flex-1 bg-surface-300 border border-surface-50/20 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-primary-500"
+            />
+            <button
+              type="submit"
+              disabled={isSaving || !newCategoryName.trim()}
+              className="px-3 py-2 rounded-lg bg-primary-500 text-white text-sm font-semibold hover:bg-primary-600 disabled:opacity-50"
+            >
+              Crea
+            </button>
+          </form>
+
+          {watchlist.error && (
+            <p className="text-xs text-danger-400">{watchlist.error}</p>
+          )}
+        </ModalBody>
+      </Modal>
+    </>
+  )
+}
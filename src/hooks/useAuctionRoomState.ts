@@ -183,6 +183,14 @@ export function useAuctionRoomState(sessionId: string, leagueId: string) {
       // Auto-dismiss after 10 seconds
       setTimeout(() => { setPauseRequest(null); }, 10000)
     },
+    onMemberConnectionChanged: (data) => {
+      if (data.scope !== 'AUCTION') return
+      setManagersStatus(prev => {
+        if (!prev) return prev
+        const managers = prev.managers.map(m => m.id === data.memberId ? { ...m, isConnected: data.isConnected } : m)
+        return { ...prev, managers, allConnected: managers.every(m => m.isConnected) }
+      })
+    },
   })
 
   const isAdmin = membership?.role === 'ADMIN'
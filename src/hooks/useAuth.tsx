@@ -16,6 +16,11 @@ interface AuthResult {
   success: boolean
   message?: string
   errors?: ValidationError[]
+  // Password corretta ma serve il secondo fattore (VERIFY) o la sua configurazione (SETUP)
+  twoFactor?: {
+    step: 'VERIFY' | 'SETUP'
+    challengeToken: string
+  }
 }
 
 interface AuthContextType {
@@ -23,6 +28,8 @@ interface AuthContextType {
   isLoading: boolean
   isAuthenticated: boolean
   login: (emailOrUsername: string, password: string) => Promise<AuthResult>
+  verifyTwoFactor: (challengeToken: string, code: string, trustDevice: boolean) => Promise<AuthResult>
+  completeLogin: (user: User, accessToken: string) => void
   register: (email: string, username: string, password: string, confirmPassword: string, turnstileToken?: string) => Promise<AuthResult>
   logout: () => Promise<void>
 }
@@ -54,9 +61,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   async function login(emailOrUsername: string, password: string) {
     const response = await authApi.login({ emailOrUsername, password })
 
-    if (response.success && response.data) {
-      setAccessToken(response.data.accessToken)
-      setUser(response.data.user)
+    if (response.success && response.data?.twoFactorRequired && response.data.challengeToken) {
+      return {
+        success: true,
+        twoFactor: { step: response.data.twoFactorRequired, challengeToken: response.data.challengeToken },
+      }
+    }
+
+    if (response.success && response.data?.user && response.data.accessToken) {
+      completeLogin(response.data.user, response.data.accessToken)
       return { success: true }
     }
 
@@ -67,6 +80,26 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }
 
+  async function verifyTwoFactor(challengeToken: string, code: string, trustDevice: boolean) {
+    const response = await authApi.verifyTwoFactorLogin({ challengeToken, code, trustDevice })
+
+    if (response.success && response.data) {
+      completeLogin(response.data.user, response.data.accessToken)
+      return { success: true }
+    }
+
+    return {
+      success: false,
+      message: response.message || 'Codice non valido',
+      errors: response.errors
+    }
+  }
+
+  function completeLogin(loggedUser: User, accessToken: string) {
+    setAccessToken(accessToken)
+    setUser(loggedUser)
+  }
+
   async function register(email: string, username: string, password: string, confirmPassword: string, turnstileToken?: string) {
     const response = await authApi.register({ email, username, password, confirmPassword, turnstileToken })
 
@@ -94,6 +127,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         isAuthenticated: !!user,
         login,
+        verifyTwoFactor,
+        completeLogin,
         register,
         logout,
       }}
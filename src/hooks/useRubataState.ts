@@ -345,6 +345,9 @@ export function useRubataState(leagueId: string) {
       console.log('[Pusher] Auction closed - full refresh')
       void loadData()
     },
+    onMemberConnectionChanged: (data) => {
+      if (data.scope === 'RUBATA') void loadReadyOnly()
+    },
   })
 
   // ========== Initial load ==========
@@ -153,6 +153,9 @@ export function useSvincolatiState(leagueId: string) {
     onSvincolatiTurnAdvanced: () => {
       void loadBoard()
     },
+    onMemberConnectionChanged: (data) => {
+      if (data.scope === 'SVINCOLATI') void loadBoard()
+    },
   })
 
   // Poll for board updates as a fallback. When Pusher is connected, real-time
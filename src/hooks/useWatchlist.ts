@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { watchlistApi } from '../services/api'
+import type { WatchlistCategory, WatchlistEntry, WatchlistStrategy } from '../types/watchlist.types'
+
+/**
+ * Watchlist persistente di lega del manager corrente.
+ * Caricata una sola volta per pagina; le mutazioni aggiornano lo stato locale.
+ */
+export function useWatchlist(leagueId: string | null | undefined) {
+  const [categories, setCategories] = useState<WatchlistCategory[]>([])
+  const [entries, setEntries] = useState<WatchlistEntry[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const loadWatchlist = useCallback(async () => {
+    if (!leagueId) return
+    setIsLoading(true)
+    const res = await watchlistApi.get(leagueId)
+    if (res.success && res.data) {
+      setCategories(res.data.categories)
+      setEntries(res.data.entries)
+    }
+    setIsLoading(false)
+  }, [leagueId])
+
+  useEffect(() => {
+    void loadWatchlist()
+  }, [loadWatchlist])
+
+  // playerId -> voci del giocatore (una per categoria)
+  const entriesByPlayer = useMemo(() => {
+    const map = new Map<string, WatchlistEntry[]>()
+    for (const entry of entries) {
+      const list = map.get(entry.playerId) ?? []
+      list.push(entry)
+      map.set(entry.playerId, list)
+    }
+    return map
+  }, [entries])
+
+  const addToWatchlist = useCallback(async (playerId: string, categoryId: string, strategy?: WatchlistStrategy) => {
+    if (!leagueId) return false
+    setError('')
+    const res = await watchlistApi.addEntry(leagueId, { playerId, categoryId, ...strategy })
+    if (res.success && res.data) {
+      const saved = res.data
+      setEntries(prev => [...prev.filter(e => e.id !== saved.id), saved])
+      return true
+    }
+    setError(res.message || 'Errore nel salvataggio della watchlist')
+    return false
+  }, [leagueId])
+
+  const removeFromWatchlist = useCallback(async (entryId: string) => {
+    setError('')
+    const res = await watchlistApi.removeEntry(entryId)
+    if (res.success) {
+      setEntries(prev => prev.filter(e => e.id !== entryId))
+      return true
+    }
+    setError(res.message || 'Errore nella rimozione dalla watchlist')
+    return false
+  }, [])
+
+  const createCategory = useCallback(async (name: string) => {
+    if (!leagueId) return null
+    setError('')
+    const res = await watchlistApi.createCategory(leagueId, { name })
+    if (res.success && res.data) {
+      const created: WatchlistCategory = { ...res.data, isOwn: true, entryCount: 0 }
+      setCategories(prev => [...prev, created])
+      return created
+    }
+    setError(res.message || 'Errore nella creazione della categoria')
+    return null
+  }, [leagueId])
+
+  return {
+    categories,
+    entries,
+    entriesByPlayer,
+    isLoading,
+    error,
+    loadWatchlist,
+    addToWatchlist,
+    removeFromWatchlist,
+    createCategory,
+  }
+}
+
+export type UseWatchlistResult = ReturnType<typeof useWatchlist>
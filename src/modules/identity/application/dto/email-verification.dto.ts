@@ -0,0 +1,31 @@
+/**
+ * DTOs for Email Verification functionality
+ */
+
+/**
+ * Request to send (or resend) the verification email
+ */
+export interface SendEmailVerificationDto {
+  userId: string
+}
+
+/**
+ * Request to confirm an email address with the received token
+ */
+export interface VerifyEmailDto {
+  token: string
+}
+
+/**
+ * Result of send verification request
+ */
+export interface SendEmailVerificationResultDto {
+  message: string
+}
+
+/**
+ * Result of verify email request
+ */
+export interface VerifyEmailResultDto {
+  message: string
+}
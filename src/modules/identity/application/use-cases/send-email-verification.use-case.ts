@@ -0,0 +1,52 @@
+import { randomBytes } from 'crypto'
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface'
+import type { IEmailService } from '../../domain/services/email.service.interface'
+import type { SendEmailVerificationDto, SendEmailVerificationResultDto } from '../dto/email-verification.dto'
+import type { Result } from '@/shared/infrastructure/http/result'
+import { ok, fail } from '@/shared/infrastructure/http/result'
+import { ConflictError, InternalError, NotFoundError } from '@/shared/infrastructure/http/errors'
+
+/**
+ * Use case for sending the email verification link
+ * Generates a verification token, stores it, and sends email
+ */
+export class SendEmailVerificationUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly emailService: IEmailService
+  ) {}
+
+  async execute(dto: SendEmailVerificationDto): Promise<Result<SendEmailVerificationResultDto, NotFoundError | ConflictError | InternalError>> {
+    const user = await this.userRepository.findByIdWithVerification(dto.userId)
+    if (!user) {
+      return fail(new NotFoundError('Utente non trovato'))
+    }
+
+    if (user.emailVerified) {
+      return fail(new ConflictError('La tua email è già verificata'))
+    }
+
+    // Generate secure verification token (replaces any previous one)
+    const verificationToken = randomBytes(32).toString('hex')
+
+    // Token expires in 24 hours
+    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000)
+
+    await this.userRepository.setEmailVerificationToken(user.id, verificationToken, expiresAt)
+
+    // Build verification URL - use FRONTEND_URL for production, fallback to localhost
+    const baseUrl = process.env.FRONTEND_URL || 'http://localhost:5173'
+    const verifyUrl = `${baseUrl}/verify-email`
+
+    try {
+      await this.emailService.sendEmailVerificationEmail(user.email, verificationToken, verifyUrl)
+    } catch (err) {
+      console.error('[SendEmailVerification] Failed to send email:', err)
+      return fail(new InternalError('Errore nell\'invio dell\'email di verifica'))
+    }
+
+    return ok({
+      message: `Ti abbiamo inviato un link di verifica a ${user.email}`
+    })
+  }
+}
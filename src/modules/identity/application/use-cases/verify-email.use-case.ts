@@ -0,0 +1,42 @@
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface'
+import type { VerifyEmailDto, VerifyEmailResultDto } from '../dto/email-verification.dto'
+import type { Result } from '@/shared/infrastructure/http/result'
+import { ok, fail } from '@/shared/infrastructure/http/result'
+import { ValidationError, NotFoundError } from '@/shared/infrastructure/http/errors'
+
+/**
+ * Use case for confirming an email address
+ * Validates token and marks the email as verified
+ */
+export class VerifyEmailUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository
+  ) {}
+
+  async execute(dto: VerifyEmailDto): Promise<Result<VerifyEmailResultDto, ValidationError | NotFoundError>> {
+    const { token } = dto
+
+    if (!token || typeof token !== 'string') {
+      return fail(new ValidationError('Token mancante'))
+    }
+
+    // Find user by verification token
+    const user = await this.userRepository.findByEmailVerificationToken(token)
+    if (!user) {
+      return fail(new NotFoundError('Token non valido o scaduto'))
+    }
+
+    // Check if token is expired
+    if (user.emailVerificationExpires && user.emailVerificationExpires < new Date()) {
+      // Clear expired token
+      await this.userRepository.clearEmailVerificationToken(user.id)
+      return fail(new NotFoundError('Token scaduto. Richiedi un nuovo link di verifica.'))
+    }
+
+    await this.userRepository.markEmailVerified(user.id)
+
+    return ok({
+      message: 'Email verificata con successo.'
+    })
+  }
+}
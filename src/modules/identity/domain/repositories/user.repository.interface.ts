@@ -63,4 +63,38 @@ export interface IUserRepository {
    * @param passwordHash - The new hashed password
    */
   updatePassword(userId: string, passwordHash: string): Promise<void>
+
+  /**
+   * Find a user by ID including the email verification flag
+   * @param id - The user's unique identifier
+   * @returns The user with verification status or null if not found
+   */
+  findByIdWithVerification(id: string): Promise<(User & { emailVerified: boolean }) | null>
+
+  /**
+   * Set email verification token for a user
+   * @param userId - The user's unique identifier
+   * @param token - The verification token
+   * @param expiresAt - When the token expires
+   */
+  setEmailVerificationToken(userId: string, token: string, expiresAt: Date): Promise<void>
+
+  /**
+   * Find a user by their email verification token
+   * @param token - The verification token
+   * @returns The user with verification info or null
+   */
+  findByEmailVerificationToken(token: string): Promise<(User & { emailVerified: boolean; emailVerificationExpires: Date | null }) | null>
+
+  /**
+   * Clear email verification token for a user
+   * @param userId - The user's unique identifier
+   */
+  clearEmailVerificationToken(userId: string): Promise<void>
+
+  /**
+   * Mark user's email as verified and clear the verification token
+   * @param userId - The user's unique identifier
+   */
+  markEmailVerified(userId: string): Promise<void>
 }
@@ -2,6 +2,14 @@
  * Email Service Interface
  * Abstracts email sending functionality for password reset and other notifications
  */
+
+/**
+ * Security alerts about account sessions
+ * - NEW_DEVICE: login from a device never seen before
+ * - TOKEN_REUSE: a rotated refresh token was presented again (possible theft)
+ */
+export type SecurityAlertType = 'NEW_DEVICE' | 'TOKEN_REUSE'
+
 export interface IEmailService {
   /**
    * Send password reset email with a reset link
@@ -11,6 +19,14 @@ export interface IEmailService {
    */
   sendPasswordResetEmail(email: string, resetToken: string, resetUrl: string): Promise<void>
 
+  /**
+   * Send email verification email with a confirmation link
+   * @param email - Recipient email address
+   * @param verificationToken - The email verification token
+   * @param verifyUrl - Full URL for email verification page
+   */
+  sendEmailVerificationEmail(email: string, verificationToken: string, verifyUrl: string): Promise<void>
+
   /**
    * Send league invite email with invite link
    * @param email - Recipient email address
@@ -104,4 +120,22 @@ export interface IEmailService {
     renewalCount: number,
     excelBuffer?: Buffer
   ): Promise<void>
+
+  /**
+   * Send a security alert about the user's sessions
+   * @param email - Recipient email address
+   * @param alertType - What happened (new device login or refresh token reuse)
+   * @param deviceDescription - Human readable device, e.g. "Chrome su Windows"
+   * @param ipAddress - IP address of the request, if known
+   * @param occurredAt - When the event happened
+   * @param sessionsUrl - Link to the page where sessions can be reviewed and revoked
+   */
+  sendSecurityAlertEmail(
+    email: string,
+    alertType: SecurityAlertType,
+    deviceDescription: string,
+    ipAddress: string | null,
+    occurredAt: Date,
+    sessionsUrl: string
+  ): Promise<void>
 }
@@ -30,12 +30,18 @@ describe('UserPrismaRepository', () => {
     passwordHash: 'hashed-password-123',
     passwordResetToken: null,
     passwordResetExpires: null,
+    emailVerificationToken: 'verify-token-123',
+    emailVerificationExpires: new Date('2024-01-02T00:00:00Z'),
     emailVerified: false,
     isSuperAdmin: false,
     profilePhoto: null,
     failedLoginAttempts: 0,
     lockedUntil: null,
     lastFailedLogin: null,
+    twoFactorSecret: null,
+    twoFactorEnabledAt: null,
+    twoFactorRecoveryCodes: [],
+    twoFactorLastStep: null,
     createdAt: new Date('2024-01-01T00:00:00Z'),
     updatedAt: new Date('2024-01-01T00:00:00Z'),
   }
@@ -142,4 +148,46 @@ describe('UserPrismaRepository', () => {
       })
     })
   })
+
+  describe('findByEmailVerificationToken', () => {
+    it('should return user with verification info when token matches', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(mockPrismaUser)
+
+      const result = await repository.findByEmailVerificationToken('verify-token-123')
+
+      expect(prisma.user.findUnique).toHaveBeenCalledWith({
+        where: { emailVerificationToken: 'verify-token-123' }
+      })
+      expect(result).toMatchObject({
+        id: 'user-123',
+        emailVerified: false,
+        emailVerificationExpires: mockPrismaUser.emailVerificationExpires,
+      })
+    })
+
+    it('should return null when token is unknown', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(null)
+
+      const result = await repository.findByEmailVerificationToken('unknown')
+
+      expect(result).toBeNull()
+    })
+  })
+
+  describe('markEmailVerified', () => {
+    it('should set emailVerified and clear the verification token', async () => {
+      vi.mocked(prisma.user.update).mockResolvedValue(mockPrismaUser)
+
+      await repository.markEmailVerified('user-123')
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-123' },
+        data: {
+          emailVerified: true,
+          emailVerificationToken: null,
+          emailVerificationExpires: null
+        }
+      })
+    })
+  })
 })
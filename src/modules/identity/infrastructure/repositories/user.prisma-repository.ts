@@ -103,6 +103,73 @@ export class UserPrismaRepository implements IUserRepository {
     })
   }
 
+  /**
+   * Find a user by ID including the email verification flag
+   */
+  async findByIdWithVerification(id: string): Promise<(User & { emailVerified: boolean }) | null> {
+    const user = await prisma.user.findUnique({ where: { id } })
+    if (!user) return null
+    return {
+      ...this.mapToUser(user),
+      emailVerified: user.emailVerified
+    }
+  }
+
+  /**
+   * Set email verification token for a user
+   */
+  async setEmailVerificationToken(userId: string, token: string, expiresAt: Date): Promise<void> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        emailVerificationToken: token,
+        emailVerificationExpires: expiresAt
+      }
+    })
+  }
+
+  /**
+   * Find a user by their email verification token
+   */
+  async findByEmailVerificationToken(token: string): Promise<(User & { emailVerified: boolean; emailVerificationExpires: Date | null }) | null> {
+    const user = await prisma.user.findUnique({
+      where: { emailVerificationToken: token }
+    })
+    if (!user) return null
+    return {
+      ...this.mapToUser(user),
+      emailVerified: user.emailVerified,
+      emailVerificationExpires: user.emailVerificationExpires
+    }
+  }
+
+  /**
+   * Clear email verification token for a user
+   */
+  async clearEmailVerificationToken(userId: string): Promise<void> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        emailVerificationToken: null,
+        emailVerificationExpires: null
+      }
+    })
+  }
+
+  /**
+   * Mark user's email as verified and clear the verification token
+   */
+  async markEmailVerified(userId: string): Promise<void> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        emailVerified: true,
+        emailVerificationToken: null,
+        emailVerificationExpires: null
+      }
+    })
+  }
+
   /**
    * Map Prisma User model to domain User entity
    */
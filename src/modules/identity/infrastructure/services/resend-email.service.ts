@@ -1,5 +1,5 @@
 import { Resend } from 'resend'
-import type { IEmailService } from '../../domain/services/email.service.interface'
+import type { IEmailService, SecurityAlertType } from '../../domain/services/email.service.interface'
 
 /**
  * Resend Email Service Implementation
@@ -44,6 +44,32 @@ export class ResendEmailService implements IEmailService {
     }
   }
 
+  async sendEmailVerificationEmail(email: string, verificationToken: string, verifyUrl: string): Promise<void> {
+    const fullVerifyUrl = `${verifyUrl}?token=${verificationToken}`
+
+    // If no API key, log to console (development mode)
+    if (!process.env.RESEND_API_KEY) {
+      console.log('[EmailService] === EMAIL VERIFICATION EMAIL ===')
+      console.log(`[EmailService] To: ${email}`)
+      console.log(`[EmailService] Verify URL: ${fullVerifyUrl}`)
+      console.log('[EmailService] ==============================')
+      return
+    }
+
+    try {
+      await this.resend.emails.send({
+        from: this.fromEmail,
+        to: email,
+        subject: '✉️ Conferma la tua email - Fantacontratti',
+        html: this.getEmailVerificationTemplate(fullVerifyUrl),
+      })
+      console.log(`[EmailService] Email verification sent to ${email}`)
+    } catch (error) {
+      console.error('[EmailService] Failed to send verification email:', error)
+      throw new Error('Errore nell\'invio dell\'email di verifica')
+    }
+  }
+
   async sendLeagueInviteEmail(
     email: string,
     leagueName: string,
@@ -204,6 +230,97 @@ export class ResendEmailService implements IEmailService {
     `
   }
 
+  /**
+   * Generate email verification template matching platform style
+   */
+  private getEmailVerificationTemplate(verifyUrl: string): string {
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="margin: 0; padding: 0; background-color: #0a0a0b; font-family: 'Segoe UI', Arial, sans-serif;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background-color: #0a0a0b;">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="max-width: 500px; background-color: #1a1c20; border-radius: 16px; border: 1px solid #2d3139;">
+
+          <!-- Header con logo -->
+          <tr>
+            <td align="center" style="padding: 40px 40px 20px;">
+              <div style="width: 70px; height: 70px; background: linear-gradient(135deg, #3b82f6, #1d4ed8); border-radius: 50%; display: inline-block; line-height: 70px; font-size: 36px; text-align: center;">
+                ⚽
+              </div>
+              <h1 style="color: #ffffff; font-size: 28px; font-weight: bold; margin: 20px 0 0; letter-spacing: -0.5px;">
+                Fantacontratti
+              </h1>
+              <p style="color: #9ca3af; font-size: 14px; margin: 5px 0 0;">
+                Dynasty Fantasy Football
+              </p>
+            </td>
+          </tr>
+
+          <!-- Contenuto -->
+          <tr>
+            <td style="padding: 20px 40px 30px;">
+              <h2 style="color: #f3f4f6; font-size: 20px; font-weight: 600; margin: 0 0 15px; text-align: center;">
+                Conferma la tua email
+              </h2>
+              <p style="color: #9ca3af; font-size: 15px; line-height: 1.6; margin: 0 0 25px; text-align: center;">
+                Grazie per esserti registrato! Clicca il pulsante qui sotto per confermare il tuo indirizzo email e poter entrare nelle leghe che lo richiedono.
+              </p>
+
+              <!-- Pulsante CTA -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
+                <tr>
+                  <td align="center" style="padding: 10px 0 25px;">
+                    <a href="${verifyUrl}"
+                       style="display: inline-block; background: linear-gradient(135deg, #22c55e, #16a34a);
+                              color: #ffffff; font-size: 16px; font-weight: 600;
+                              text-decoration: none; padding: 14px 32px; border-radius: 8px;
+                              box-shadow: 0 4px 14px rgba(34, 197, 94, 0.3);">
+                      ✉️ Conferma Email
+                    </a>
+                  </td>
+                </tr>
+              </table>
+
+              <!-- Info scadenza -->
+              <div style="background-color: #111214; border-radius: 8px; padding: 15px; border-left: 3px solid #f59e0b;">
+                <p style="color: #fbbf24; font-size: 13px; margin: 0; font-weight: 500;">
+                  ⏱️ Il link scade tra 24 ore
+                </p>
+                <p style="color: #6b7280; font-size: 12px; margin: 8px 0 0;">
+                  Se non hai creato tu un account su Fantacontratti, puoi ignorare questa email in sicurezza.
+                </p>
+              </div>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 20px 40px 30px; border-top: 1px solid #2d3139;">
+              <p style="color: #6b7280; font-size: 12px; text-align: center; margin: 0;">
+                Questa email è stata inviata automaticamente da Fantacontratti.<br>
+                Non rispondere a questa email.
+              </p>
+              <p style="color: #4b5563; font-size: 11px; text-align: center; margin: 15px 0 0;">
+                © ${new Date().getFullYear()} Fantacontratti. Tutti i diritti riservati.
+              </p>
+            </td>
+          </tr>
+
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+    `
+  }
+
   /**
    * Generate join request notification template for admin
    */
@@ -691,6 +808,94 @@ export class ResendEmailService implements IEmailService {
     </td></tr>
   </table>
 </body>
+</html>`
+  }
+
+  async sendSecurityAlertEmail(
+    email: string,
+    alertType: SecurityAlertType,
+    deviceDescription: string,
+    ipAddress: string | null,
+    occurredAt: Date,
+    sessionsUrl: string
+  ): Promise<void> {
+    if (!process.env.RESEND_API_KEY) {
+      console.log('[EmailService] === SECURITY ALERT EMAIL ===')
+      console.log(`[EmailService] To: ${email}`)
+      console.log(`[EmailService] Alert: ${alertType}`)
+      console.log(`[EmailService] Device: ${deviceDescription}`)
+      console.log(`[EmailService] IP: ${ipAddress ?? 'n/d'}`)
+      console.log(`[EmailService] Sessions URL: ${sessionsUrl}`)
+      console.log('[EmailService] ==============================')
+      return
+    }
+
+    try {
+      await this.resend.emails.send({
+        from: this.fromEmail,
+        to: email,
+        subject: alertType === 'NEW_DEVICE'
+          ? '🔔 Nuovo accesso al tuo account - Fantacontratti'
+          : '⚠️ Sessione invalidata per sicurezza - Fantacontratti',
+        html: this.getSecurityAlertTemplate(alertType, deviceDescription, ipAddress, occurredAt, sessionsUrl),
+      })
+      console.log(`[EmailService] Security alert (${alertType}) sent to ${email}`)
+    } catch (error) {
+      console.error('[EmailService] Failed to send security alert:', error)
+    }
+  }
+
+  private getSecurityAlertTemplate(
+    alertType: SecurityAlertType,
+    deviceDescription: string,
+    ipAddress: string | null,
+    occurredAt: Date,
+    sessionsUrl: string
+  ): string {
+    const isNewDevice = alertType === 'NEW_DEVICE'
+    const when = occurredAt.toLocaleString('it-IT', { timeZone: 'Europe/Rome' })
+    return `
+<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"></head>
+<body style="margin: 0; padding: 0; background-color: #0a0a0b; font-family: 'Segoe UI', Arial, sans-serif;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background-color: #0a0a0b;">
+    <tr><td align="center" style="padding: 40px 20px;">
+      <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="max-width: 500px; background-color: #1a1c20; border-radius: 16px; border: 1px solid #2d3139;">
+        <tr><td align="center" style="padding: 40px 40px 20px;">
+          <div style="width: 70px; height: 70px; background: linear-gradient(135deg, ${isNewDevice ? '#3b82f6, #1d4ed8' : '#ef4444, #dc2626'}); border-radius: 50%; line-height: 70px; font-size: 36px; text-align: center;">${isNewDevice ? '🔔' : '⚠️'}</div>
+          <h1 style="color: #ffffff; font-size: 28px; font-weight: bold; margin: 20px 0 0;">Fantacontratti</h1>
+        </td></tr>
+        <tr><td style="padding: 20px 40px 30px;">
+          <h2 style="color: #f3f4f6; font-size: 20px; font-weight: 600; margin: 0 0 15px; text-align: center;">${isNewDevice ? 'Nuovo accesso al tuo account' : 'Sessione invalidata per sicurezza'}</h2>
+          <p style="color: #9ca3af; font-size: 15px; line-height: 1.6; margin: 0 0 20px; text-align: center;">
+            ${isNewDevice
+              ? 'È stato effettuato un accesso al tuo account da un dispositivo che non avevi mai usato.'
+              : 'Un token di sessione già utilizzato è stato presentato di nuovo: per sicurezza abbiamo chiuso la sessione coinvolta.'}
+          </p>
+          <div style="background-color: #111214; border-radius: 12px; padding: 20px; margin-bottom: 25px;">
+            <p style="color: #6b7280; font-size: 12px; text-transform: uppercase;">Dispositivo</p>
+            <p style="color: #ffffff; font-size: 16px; font-weight: 600; margin: 5px 0 15px;">💻 ${deviceDescription}</p>
+            <p style="color: #6b7280; font-size: 12px; text-transform: uppercase;">Indirizzo IP</p>
+            <p style="color: #ffffff; font-size: 16px; margin: 5px 0 15px;">${ipAddress ?? 'Non disponibile'}</p>
+            <p style="color: #6b7280; font-size: 12px; text-transform: uppercase;">Data e ora</p>
+            <p style="color: #ffffff; font-size: 16px; margin: 5px 0 0;">${when}</p>
+          </div>
+          <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
+            <tr><td align="center" style="padding: 10px 0 25px;">
+              <a href="${sessionsUrl}" style="display: inline-block; background: linear-gradient(135deg, #3b82f6, #1d4ed8); color: #ffffff; font-size: 16px; font-weight: 600; text-decoration: none; padding: 14px 32px; border-radius: 8px;">🔐 Gestisci sessioni</a>
+            </td></tr>
+          </table>
+          <div style="background-color: #111214; border-radius: 8px; padding: 15px; border-left: 3px solid #f59e0b;">
+            <p style="color: #fbbf24; font-size: 13px; margin: 0; font-weight: 500;">Non sei stato tu?</p>
+            <p style="color: #6b7280; font-size: 12px; margin: 8px 0 0;">Revoca le sessioni che non riconosci e cambia subito la password.</p>
+          </div>
+        </td></tr>
+        <tr><td style="padding: 20px 40px 30px; border-top: 1px solid #2d3139;"><p style="color: #6b7280; font-size: 12px; text-align: center; margin: 0;">© ${new Date().getFullYear()} Fantacontratti</p></td></tr>
+      </table>
+    </td></tr>
+  </table>
+</body>
 </html>`
   }
 }
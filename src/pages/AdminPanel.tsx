@@ -2,18 +2,28 @@ import { useState, useEffect, useCallback, lazy, Suspense } from 'react'
 import * as XLSX from 'xlsx'
 import { useConfirmDialog } from '@/components/ui/ConfirmDialog'
 import { Modal, ModalHeader, ModalBody, ModalFooter } from '@/components/ui/Modal'
-import { leagueApi, auctionApi, adminApi, inviteApi, contractApi } from '../services/api'
+import { leagueApi, auctionApi, adminApi, inviteApi, contractApi, standingsImportApi } from '../services/api'
 import { Button } from '../components/ui/Button'
 import { Navigation } from '../components/Navigation'
 import { useSwipeGesture } from '../hooks/useSwipeGesture'
 import haptic from '../utils/haptics'
 import type { League, Member, MarketSession, Invite, ConsolidationStatus, Appeal } from '../components/admin/types'
+import type { ContractRuleset } from '../utils/contract-rules'
+import type { StandingsFileOptions, StandingsImportHistoryItem } from '../types/standings-import.types'
+import type { CompensationJournalEntry } from '../types/compensation.types'
+import type { AuditLogEntry, AuditLogFilters } from '../types/audit-log.types'
+import type { SeasonArchiveSummary, SeasonBudgetPolicy } from '../types/season-rollover.types'
 
 // Lazy-loaded tab components
 const AdminPhasesTab = lazy(() => import('../components/admin/AdminPhasesTab').then(m => ({ default: m.AdminPhasesTab })))
 const AdminMembersTab = lazy(() => import('../components/admin/AdminMembersTab').then(m => ({ default: m.AdminMembersTab })))
 const AdminRequestsTab = lazy(() => import('../components/admin/AdminRequestsTab').then(m => ({ default: m.AdminRequestsTab })))
 const AdminExportTab = lazy(() => import('../components/admin/AdminExportTab').then(m => ({ default: m.AdminExportTab })))
+const AdminContractRulesTab = lazy(() => import('../components/admin/AdminContractRulesTab').then(m => ({ default: m.AdminContractRulesTab })))
+const AdminStandingsImportTab = lazy(() => import('../components/admin/AdminStandingsImportTab').then(m => ({ default: m.AdminStandingsImportTab })))
+const AdminJournalTab = lazy(() => import('../components/admin/AdminJournalTab').then(m => ({ default: m.AdminJournalTab })))
+const AdminAuditTab = lazy(() => import('../components/admin/AdminAuditTab').then(m => ({ default: m.AdminAuditTab })))
+const AdminSeasonTab = lazy(() => import('../components/admin/AdminSeasonTab').then(m => ({ default: m.AdminSeasonTab })))
 
 interface AdminPanelProps {
   leagueId: string
@@ -25,6 +35,11 @@ const TABS = [
   { id: 'phases', label: 'Fasi & Stato', icon: '🎯' },
   { id: 'members', label: 'Gestione Membri', icon: '👥' },
   { id: 'requests', label: 'Richieste', icon: '📨' },
+  { id: 'rules', label: 'Regole Contratti', icon: '📜' },
+  { id: 'standings', label: 'Import Classifiche', icon: '🏆' },
+  { id: 'journal', label: 'Storico Operazioni', icon: '↩️' },
+  { id: 'audit', label: 'Audit Log', icon: '🔍' },
+  { id: 'season', label: 'Cambio Stagione', icon: '🗓️' },
   { id: 'export', label: 'Export Dati', icon: '📤' },
 ] as const
 
@@ -59,6 +74,11 @@ export function AdminPanel({ leagueId, initialTab, onNavigate }: AdminPanelProps
         return 'requests'
       case 'export':
         return 'export'
+      case 'rules':
+      case 'standings':
+      case 'journal':
+      case 'audit':
+      case 'season':
       case 'phases':
       case 'requests':
         return tab
@@ -109,6 +129,28 @@ export function AdminPanel({ leagueId, initialTab, onNavigate }: AdminPanelProps
   const [resolutionNote, setResolutionNote] = useState('')
   const [selectedAppealId, setSelectedAppealId] = useState<string | null>(null)
 
+  // Contract rules state
+  const [contractRules, setContractRules] = useState<ContractRuleset | null>(null)
+  const [isCustomRules, setIsCustomRules] = useState(false)
+  const [isLoadingRules, setIsLoadingRules] = useState(false)
+
+  // Standings import state
+  const [standingsImports, setStandingsImports] = useState<StandingsImportHistoryItem[]>([])
+  const [isLoadingImports, setIsLoadingImports] = useState(false)
+
+  // Compensation journal state
+  const [journalEntries, setJournalEntries] = useState<CompensationJournalEntry[]>([])
+  const [isLoadingJournal, setIsLoadingJournal] = useState(false)
+
+  // Audit log state
+  const [auditEntries, setAuditEntries] = useState<AuditLogEntry[]>([])
+  const [auditFilters, setAuditFilters] = useState<AuditLogFilters>({})
+  const [isLoadingAudit, setIsLoadingAudit] = useState(false)
+
+  // Season rollover state
+  const [seasonArchives, setSeasonArchives] = useState<SeasonArchiveSummary[]>([])
+  const [isLoadingArchives, setIsLoadingArchives] = useState(false)
+
   // Roster incomplete modal state
   const [showRosterIncompleteModal, setShowRosterIncompleteModal] = useState(false)
   const [rosterIncompleteDetails, setRosterIncompleteDetails] = useState<string>('')
@@ -123,6 +165,234 @@ export function AdminPanel({ leagueId, initialTab, onNavigate }: AdminPanelProps
     }
   }, [activeTab, leagueId, appealFilter])
 
+  useEffect(() => {
+    if (activeTab === 'rules') {
+      void loadContractRules()
+    }
+  }, [activeTab, leagueId])
+
+  useEffect(() => {
+    if (activeTab === 'standings') {
+      void loadStandingsImports()
+    }
+  }, [activeTab, leagueId])
+
+  useEffect(() => {
+    if (activeTab === 'journal') {
+      void loadJournal()
+    }
+  }, [activeTab, leagueId])
+
+  useEffect(() => {
+    if (activeTab === 'audit') {
+      void loadAuditLog()
+    }
+  }, [activeTab, leagueId, auditFilters])
+
+  useEffect(() => {
+    if (activeTab === 'season') {
+      void loadSeasonArchives()
+    }
+  }, [activeTab, leagueId])
+
+  async function loadContractRules() {
+    setIsLoadingRules(true)
+    const res = await leagueApi.getContractRules(leagueId)
+    if (res.success && res.data) {
+      setContractRules(res.data.rules)
+      setIsCustomRules(res.data.isCustom)
+    }
+    setIsLoadingRules(false)
+  }
+
+  async function handleSaveContractRules(rules: ContractRuleset | null) {
+    setError('')
+    setSuccess('')
+    setIsSubmitting(true)
+
+    const res = await leagueApi.updateContractRules(leagueId, rules)
+    if (res.success && res.data) {
+      setContractRules(res.data.rules)
+      setIsCustomRules(res.data.isCustom)
+      setSuccess(res.message || 'Regole contrattuali aggiornate')
+    } else {
+      setError(res.message || 'Errore nel salvataggio delle regole')
+    }
+    setIsSubmitting(false)
+  }
+
+  async function loadStandingsImports() {
+    setIsLoadingImports(true)
+    const res = await standingsImportApi.getHistory(leagueId)
+    if (res.success && res.data) {
+      setStandingsImports(res.data)
+    }
+    setIsLoadingImports(false)
+  }
+
+  async function handleAnalyzeStandings(file: File, options: StandingsFileOptions) {
+    setError('')
+    setSuccess('')
+    setIsSubmitting(true)
+
+    const res = await standingsImportApi.analyze(leagueId, file, options)
+    setIsSubmitting(false)
+    if (res.success && res.data) {
+      return res.data
+    }
+    setError(res.message || 'Errore nella lettura del file')
+    return null
+  }
+
+  async function handleImportStandings(file: File, options: StandingsFileOptions) {
+    setError('')
+    setSuccess('')
+    setIsSubmitting(true)
+
+    const res = await standingsImportApi.importFile(leagueId, file, options)
+    setIsSubmitting(false)
+    if (res.success) {
+      setSuccess(res.message || 'Classifica importata')
+      void loadStandingsImports()
+      return true
+    }
+    setError(res.message || 'Errore durante l\'import')
+    return false
+  }
+
+  async function loadJournal() {
+    setIsLoadingJournal(true)
+    const res = await adminApi.getJournal(leagueId)
+    if (res.success && res.data) {
+      setJournalEntries(res.data)
+    }
+    setIsLoadingJournal(false)
+  }
+
+  async function handlePreviewCompensation(entryId: string) {
+    setError('')
+    setSuccess('')
+    const res = await adminApi.previewCompensation(leagueId, entryId)
+    if (res.success && res.data) {
+      return res.data
+    }
+    setError(res.message || 'Errore nel caricamento dell\'anteprima')
+    return null
+  }
+
+  async function handleApplyCompensation(entryId: string, reason: string) {
+    setError('')
+    setSuccess('')
+    setIsSubmitting(true)
+
+    const res = await adminApi.applyCompensation(leagueId, entryId, reason)
+    setIsSubmitting(false)
+    if (res.success) {
+      setSuccess(res.message || 'Operazione annullata')
+      void loadJournal()
+      return true
+    }
+    setError(res.message || 'Errore durante il rollback')
+    return false
+  }
+
+  async function loadAuditLog() {
+    setIsLoadingAudit(true)
+    const res = await adminApi.getAuditLog(leagueId, auditFilters)
+    if (res.success && res.data) {
+      setAuditEntries(res.data)
+    }
+    setIsLoadingAudit(false)
+  }
+
+  async function exportAuditLogToCsv() {
+    setIsSubmitting(true)
+    const res = await adminApi.getAuditLog(leagueId, { ...auditFilters, limit: 1000 })
+
+    if (!res.success || !res.data) {
+      setError(res.message || 'Errore durante l\'export')
+      setIsSubmitting(false)
+      return
+    }
+
+    const headers = ['Data', 'Autore', 'Azione', 'Entità', 'ID Entità', 'Fase', 'Prima', 'Dopo', 'IP', 'User Agent']
+    const rows = res.data.map(entry => [
+      new Date(entry.createdAt).toLocaleString('it-IT'),
+      entry.user?.username ?? 'Sistema',
+      entry.action,
+      entry.entityType ?? '',
+      entry.entityId ?? '',
+      entry.phase ?? '',
+      entry.oldValues ? JSON.stringify(entry.oldValues) : '',
+      entry.newValues ? JSON.stringify(entry.newValues) : '',
+      entry.ipAddress ?? '',
+      entry.userAgent ?? '',
+    ])
+
+    const wb = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([headers, ...rows]), 'Audit')
+    XLSX.writeFile(wb, `lega_${league?.name || 'export'}_audit.csv`, { bookType: 'csv' })
+
+    setIsSubmitting(false)
+  }
+
+  async function loadSeasonArchives() {
+    setIsLoadingArchives(true)
+    const res = await adminApi.getSeasonArchives(leagueId)
+    if (res.success && res.data) {
+      setSeasonArchives(res.data)
+    }
+    setIsLoadingArchives(false)
+  }
+
+  async function handlePreviewSeasonRollover(policy?: SeasonBudgetPolicy) {
+    setError('')
+    setSuccess('')
+    const res = await adminApi.previewSeasonRollover(leagueId, policy)
+    if (res.success && res.data) {
+      return res.data
+    }
+    setError(res.message || 'Errore nel caricamento dell\'anteprima')
+    return null
+  }
+
+  async function handleApplySeasonRollover(policy: SeasonBudgetPolicy) {
+    setError('')
+    setSuccess('')
+    setIsSubmitting(true)
+
+    const res = await adminApi.applySeasonRollover(leagueId, policy)
+    setIsSubmitting(false)
+    if (res.success && res.data) {
+      if (res.data.nextSessionError) {
+        setError(res.message || 'Nuovo mercato non aperto')
+      } else {
+        setSuccess(res.message || 'Stagione chiusa')
+      }
+      void loadSeasonArchives()
+      void loadData()
+      return res.data
+    }
+    setError(res.message || 'Errore durante il cambio stagione')
+    return null
+  }
+
+  async function handleRetrySeasonMarket() {
+    setError('')
+    setSuccess('')
+    setIsSubmitting(true)
+
+    const res = await adminApi.retrySeasonRolloverMarket(leagueId)
+    setIsSubmitting(false)
+    if (res.success) {
+      setSuccess(res.message || 'Mercato aperto')
+      void loadSeasonArchives()
+      void loadData()
+    } else {
+      setError(res.message || 'Errore durante l\'apertura del mercato')
+    }
+  }
+
   async function loadAppeals() {
     setIsLoadingAppeals(true)
     const res = await auctionApi.getAppeals(leagueId, appealFilter || undefined)
@@ -327,6 +597,21 @@ export function AdminPanel({ leagueId, initialTab, onNavigate }: AdminPanelProps
     setIsSubmitting(false)
   }
 
+  async function handleToggleVerifiedEmail(value: boolean) {
+    setError('')
+    setSuccess('')
+    setIsSubmitting(true)
+
+    const res = await leagueApi.update(leagueId, { requireVerifiedEmail: value })
+    if (res.success) {
+      setLeague(prev => (prev ? { ...prev, requireVerifiedEmail: value } : prev))
+      setSuccess(value ? 'Email verificata ora obbligatoria per entrare in lega' : 'Email verificata non più obbligatoria')
+    } else {
+      setError(res.message || 'Errore nell\'aggiornamento della lega')
+    }
+    setIsSubmitting(false)
+  }
+
   async function handleCancelInvite(inviteId: string) {
     setError('')
     setIsSubmitting(true)
@@ -581,6 +866,64 @@ export function AdminPanel({ leagueId, initialTab, onNavigate }: AdminPanelProps
                 handleMemberAction={(memberId, action) => void handleMemberAction(memberId, action)}
                 handleCreateInvite={() => void handleCreateInvite()}
                 handleCancelInvite={(inviteId) => void handleCancelInvite(inviteId)}
+                requireVerifiedEmail={league?.requireVerifiedEmail ?? false}
+                handleToggleVerifiedEmail={(value) => void handleToggleVerifiedEmail(value)}
+              />
+            )}
+
+            {activeTab === 'rules' && (
+              <AdminContractRulesTab
+                rules={contractRules}
+                isCustom={isCustomRules}
+                isLoading={isLoadingRules}
+                isLocked={activeSession?.currentPhase === 'CONTRATTI'}
+                rosterSlots={league ? league.goalkeeperSlots + league.defenderSlots + league.midfielderSlots + league.forwardSlots : 0}
+                isSubmitting={isSubmitting}
+                handleSaveRules={(rules) => void handleSaveContractRules(rules)}
+                handleResetRules={() => void handleSaveContractRules(null)}
+              />
+            )}
+
+            {activeTab === 'standings' && (
+              <AdminStandingsImportTab
+                history={standingsImports}
+                isLoadingHistory={isLoadingImports}
+                isSubmitting={isSubmitting}
+                handleAnalyze={handleAnalyzeStandings}
+                handleImport={handleImportStandings}
+              />
+            )}
+
+            {activeTab === 'journal' && (
+              <AdminJournalTab
+                entries={journalEntries}
+                isLoading={isLoadingJournal}
+                isSubmitting={isSubmitting}
+                handlePreview={handlePreviewCompensation}
+                handleApply={handleApplyCompensation}
+              />
+            )}
+
+            {activeTab === 'audit' && (
+              <AdminAuditTab
+                entries={auditEntries}
+                members={members}
+                filters={auditFilters}
+                isLoading={isLoadingAudit}
+                isSubmitting={isSubmitting}
+                onFiltersChange={setAuditFilters}
+                handleExport={() => void exportAuditLogToCsv()}
+              />
+            )}
+
+            {activeTab === 'season' && (
+              <AdminSeasonTab
+                archives={seasonArchives}
+                isLoading={isLoadingArchives}
+                isSubmitting={isSubmitting}
+                handlePreview={handlePreviewSeasonRollover}
+                handleApply={handleApplySeasonRollover}
+                handleRetryMarket={handleRetrySeasonMarket}
               />
             )}
 
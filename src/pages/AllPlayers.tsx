@@ -11,6 +11,8 @@ import { PlayerStatsModal, type PlayerInfo, type PlayerStats } from '../componen
 import { getPlayerPhotoUrl } from '../utils/player-images'
 import { SlidersHorizontal } from 'lucide-react'
 import { SkeletonPlayerRow } from '../components/ui/Skeleton'
+import { WatchlistButton } from '../components/watchlist/WatchlistButton'
+import { useWatchlist } from '../hooks/useWatchlist'
 
 interface AllPlayersProps {
   leagueId: string
@@ -93,6 +95,7 @@ export function AllPlayers({ leagueId, onNavigate, initialTeamFilter }: AllPlaye
   const [selectedPlayerStats, setSelectedPlayerStats] = useState<PlayerInfo | null>(null)
   const [availableTeams, setAvailableTeams] = useState<string[]>([])
   const [filtersOpen, setFiltersOpen] = useState(false)
+  const watchlist = useWatchlist(leagueId)
 
   // Map of playerId -> roster info
   const [rosterMap, setRosterMap] = useState<Map<string, RosterInfo>>(new Map())
@@ -391,6 +394,7 @@ export function AllPlayers({ leagueId, onNavigate, initialTeamFilter }: AllPlaye
                         <div>
                           <button
                             onClick={() => { setSelectedPlayerStats({
+                              playerId: player.id,
                               name: player.name,
                               team: player.team,
                               position: player.position,
@@ -413,6 +417,12 @@ export function AllPlayers({ leagueId, onNavigate, initialTeamFilter }: AllPlaye
                       </div>
 
                       <div className="flex items-center gap-6">
+                        <WatchlistButton
+                          playerId={player.id}
+                          playerName={player.name}
+                          watchlist={watchlist}
+                        />
+
                         {/* Stats mini-display */}
                         {player.apiFootballStats?.games?.appearences !== null && player.apiFootballStats?.games?.appearences !== undefined && (
                           <div className="flex items-center gap-3 text-xs text-gray-400">
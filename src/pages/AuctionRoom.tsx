@@ -266,6 +266,7 @@ export function AuctionRoom({ sessionId, leagueId, onNavigate }: AuctionRoomProp
           pauseRequest={pauseRequest}
           dismissPauseRequest={dismissPauseRequest}
           isPrimoMercato={isPrimoMercato}
+          sessionId={sessionId}
           onNavigate={onNavigate}
           leagueId={leagueId}
         />
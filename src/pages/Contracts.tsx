@@ -9,6 +9,13 @@ import { POSITION_COLORS } from '../components/ui/PositionBadge'
 import { PlayerStatsModal, type PlayerInfo, type PlayerStats } from '../components/PlayerStatsModal'
 import { getPlayerPhotoUrl } from '../utils/player-images'
 import haptic from '../utils/haptics'
+import {
+  DEFAULT_CONTRACT_RULESET,
+  describeReleaseCostFormula,
+  getClauseMultiplier,
+  getReleaseCost,
+  type ContractRuleset,
+} from '../utils/contract-rules'
 
 interface ContractsProps {
   leagueId: string
@@ -148,17 +155,6 @@ function TeamLogo({ team }: { team: string }) {
   )
 }
 
-// Moltiplicatori clausola
-const DURATION_MULTIPLIERS: Record<number, number> = {
-  4: 11,
-  3: 9,
-  2: 7,
-  1: 3,
-}
-
-// Massimo numero di giocatori in rosa dopo consolidamento
-const MAX_ROSTER_SIZE = 29
-
 export function Contracts({ leagueId, onNavigate }: ContractsProps) {
   const [contracts, setContracts] = useState<Contract[]>([])
   const [pendingContracts, setPendingContracts] = useState<PendingContract[]>([])
@@ -171,6 +167,8 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
   const [_apiRenewalCost, setApiRenewalCost] = useState(0)  // Costo rinnovi dalla API (post-consolidamento)
   const [isConsolidating, setIsConsolidating] = useState(false)
   const [isSavingDrafts, setIsSavingDrafts] = useState(false)
+  // Regole contrattuali della lega (moltiplicatori, durata massima, costo taglio, rosa massima)
+  const [rules, setRules] = useState<ContractRuleset>(DEFAULT_CONTRACT_RULESET)
 
   // Stato per modifiche locali di ogni contratto
   const [localEdits, setLocalEdits] = useState<Record<string, LocalEdit>>({})
@@ -235,8 +233,10 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
         inContrattiPhase: boolean
         isConsolidated?: boolean
         totalRenewalCost?: number
+        rules?: ContractRuleset
       }
       setContracts(data.contracts)
+      if (data.rules) setRules(data.rules)
       setPendingContracts(data.pendingContracts)
       setReleasedPlayers(data.releasedPlayers || [])
       setMemberBudget(data.memberBudget)
@@ -572,14 +572,14 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
         if (contract.isExitedPlayer) {
           // Giocatori usciti: nessun costo taglio
         } else {
-          // Costo taglio = (ingaggio × durata) / 2
-          total += Math.ceil((contract.salary * contract.duration) / 2)
+          // Costo taglio = (ingaggio × durata) × % della lega (default / 2)
+          total += getReleaseCost(contract.salary, contract.duration, rules)
         }
       }
     })
 
     return total
-  }, [contracts, localReleases, isConsolidated, releasedPlayers])
+  }, [contracts, localReleases, isConsolidated, releasedPlayers, rules])
 
   // Calcola totale indennizzi per giocatori ESTERO con decisione RELEASE
   const totalIndemnities = useMemo(() => {
@@ -620,19 +620,19 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
 
   // Quanti tagli sono necessari per rispettare il limite
   const requiredReleases = useMemo(() => {
-    return Math.max(0, effectivePlayerCount - MAX_ROSTER_SIZE)
-  }, [effectivePlayerCount])
+    return Math.max(0, effectivePlayerCount - rules.maxRosterSize)
+  }, [effectivePlayerCount, rules])
 
   // Verifica se si può consolidare:
   // - Tutti i pending contracts devono avere valori validi
-  // - Il numero di giocatori deve essere <= MAX_ROSTER_SIZE
+  // - Il numero di giocatori deve essere <= rules.maxRosterSize
   // - Nessun contratto esistente deve avere errori di validazione (es. spalma errato)
   const canConsolidate = useMemo(() => {
     // Check: all exited players must have a decision
     const undecidedExited = contracts.filter(c => c.isExitedPlayer && !exitDecisions.has(c.id))
     if (undecidedExited.length > 0) return false
     // Check roster limit
-    if (effectivePlayerCount > MAX_ROSTER_SIZE) {
+    if (effectivePlayerCount > rules.maxRosterSize) {
       return false
     }
     // Ogni pending contract deve avere un preview valido
@@ -658,7 +658,7 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
       }
     }
     return true
-  }, [pendingContracts, pendingEdits, effectivePlayerCount, contracts, localEdits, exitDecisions])
+  }, [pendingContracts, pendingEdits, effectivePlayerCount, contracts, localEdits, exitDecisions, rules])
 
   // Messaggio per blocco consolidamento
   const consolidateBlockReason = useMemo(() => {
@@ -666,8 +666,8 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
     if (undecidedExitedCount > 0) {
       return `Decidi per ${undecidedExitedCount} giocator${undecidedExitedCount === 1 ? 'e uscito' : 'i usciti'}`
     }
-    if (effectivePlayerCount > MAX_ROSTER_SIZE) {
-      return `Devi tagliare ${requiredReleases} giocator${requiredReleases === 1 ? 'e' : 'i'} (max ${MAX_ROSTER_SIZE})`
+    if (effectivePlayerCount > rules.maxRosterSize) {
+      return `Devi tagliare ${requiredReleases} giocator${requiredReleases === 1 ? 'e' : 'i'} (max ${rules.maxRosterSize})`
     }
     for (const pending of pendingContracts) {
       const edit = pendingEdits[pending.rosterId]
@@ -687,7 +687,7 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
       }
     }
     return 'Conferma definitiva dei rinnovi'
-  }, [pendingContracts, pendingEdits, effectivePlayerCount, requiredReleases, contracts, localEdits, exitDecisions])
+  }, [pendingContracts, pendingEdits, effectivePlayerCount, requiredReleases, contracts, localEdits, exitDecisions, rules])
 
   // Filtra e ordina contratti
   // Separate exited players from normal contracts
@@ -902,7 +902,7 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
                   <span className={`text-lg font-bold ${
                     requiredReleases > 0 ? 'text-danger-400' : 'text-white'
                   }`}>
-                    {effectivePlayerCount}/{MAX_ROSTER_SIZE}
+                    {effectivePlayerCount}/{rules.maxRosterSize}
                   </span>
                   <span className="text-xs text-gray-400">slot</span>
                 </div>
@@ -1065,7 +1065,7 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
                 <ul className="text-gray-300 space-y-1 ml-4 list-disc">
                   <li>Puoi aumentare o mantenere l'ingaggio</li>
                   <li>Puoi aumentare o mantenere la durata</li>
-                  <li>La clausola = Ingaggio × Moltiplicatore (4s=×11, 3s=×9, 2s=×7, 1s=×4)</li>
+                  <li>La clausola = Ingaggio × Moltiplicatore ({Object.entries(rules.durationMultipliers).sort(([a], [b]) => Number(b) - Number(a)).map(([d, m]) => `${d}s=×${m}`).join(', ')})</li>
                 </ul>
               </div>
 
@@ -1085,8 +1085,8 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
                 <h4 className="text-danger-400 font-bold mb-1">Taglia (Rilascio Giocatore)</h4>
                 <ul className="text-gray-300 space-y-1 ml-4 list-disc">
                   <li>Puoi liberare un giocatore pagando una penale</li>
-                  <li><span className="text-white font-medium">Costo taglio:</span> (Ingaggio × Durata residua) / 2</li>
-                  <li>Esempio: Contratto 8M×2s → costo taglio = (8×2)/2 = <span className="text-danger-400">8M</span></li>
+                  <li><span className="text-white font-medium">Costo taglio:</span> {describeReleaseCostFormula(rules)}</li>
+                  <li>Esempio: Contratto 8M×2s → costo taglio = <span className="text-danger-400">{getReleaseCost(8, 2, rules)}M</span></li>
                   <li>Il giocatore va agli svincolati e sarà battuto all'asta</li>
                 </ul>
               </div>
@@ -1097,7 +1097,7 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
                 <ul className="text-gray-300 space-y-1 ml-4 list-disc">
                   <li>Giocatori acquisiti nella sessione devono avere un contratto</li>
                   <li>Ingaggio minimo = prezzo d'acquisto</li>
-                  <li>Durata: da 1 a 4 semestri</li>
+                  <li>Durata: da 1 a {rules.maxDuration} semestri</li>
                 </ul>
               </div>
             </div>
@@ -1129,7 +1129,7 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
                   : String(pending.draftDuration ?? 2)
                 const currentSalary = parseInt(salaryStr) || pending.minSalary
                 const currentDuration = parseInt(durationStr) || 2
-                const multiplier = DURATION_MULTIPLIERS[currentDuration] || 7
+                const multiplier = getClauseMultiplier(currentDuration, rules)
                 const newClausola = currentSalary * multiplier
                 const newRubata = newClausola + currentSalary
 
@@ -1204,8 +1204,8 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
                             {currentDuration}s
                           </div>
                           <button
-                            onClick={() => { updatePendingEdit(pending.rosterId, 'newDuration', String(Math.min(4, currentDuration + 1))); }}
-                            disabled={!inContrattiPhase || isConsolidated || currentDuration >= 4}
+                            onClick={() => { updatePendingEdit(pending.rosterId, 'newDuration', String(Math.min(rules.maxDuration, currentDuration + 1))); }}
+                            disabled={!inContrattiPhase || isConsolidated || currentDuration >= rules.maxDuration}
                             className="px-3 py-2 min-h-[44px] min-w-[44px] bg-surface-300 border border-primary-500/30 rounded-r text-white font-bold disabled:opacity-30"
                           >+</button>
                         </div>
@@ -1255,7 +1255,7 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
                         : String(pending.draftDuration ?? 2)
                       const currentSalary = parseInt(salaryStr) || pending.minSalary
                       const currentDuration = parseInt(durationStr) || 2
-                      const multiplier = DURATION_MULTIPLIERS[currentDuration] || 7
+                      const multiplier = getClauseMultiplier(currentDuration, rules)
                       const newClausola = currentSalary * multiplier
                       const newRubata = newClausola + currentSalary
 
@@ -1318,8 +1318,8 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
                               >−</button>
                               <span className={`w-8 text-center font-medium ${getDurationColor(currentDuration)}`}>{currentDuration}s</span>
                               <button
-                                onClick={() => { updatePendingEdit(pending.rosterId, 'newDuration', String(Math.min(4, currentDuration + 1))); }}
-                                disabled={!inContrattiPhase || isConsolidated || currentDuration >= 4}
+                                onClick={() => { updatePendingEdit(pending.rosterId, 'newDuration', String(Math.min(rules.maxDuration, currentDuration + 1))); }}
+                                disabled={!inContrattiPhase || isConsolidated || currentDuration >= rules.maxDuration}
                                 className="w-6 h-6 bg-surface-300 border border-primary-500/30 rounded text-white text-sm disabled:opacity-30"
                               >+</button>
                             </div>
@@ -1353,7 +1353,10 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
               </h2>
             </div>
             <p className="text-xs text-gray-400 mb-3">
-              Decidi per ogni giocatore: <span className="text-green-400 font-medium">Tieni</span> (entra nei rinnovi) o <span className="text-danger-400 font-medium">Rilascia</span> (scompare). Il consolidamento è bloccato fino a quando non decidi per tutti.
+              Decidi per ogni giocatore: <span className="text-green-400 font-medium">Tieni</span> (entra nei rinnovi) o <span className="text-danger-400 font-medium">Rilascia</span> (scompare). Il consolidamento è bloccato fino a quando non decidi per tutti e l'admin consolida gli indennizzi.{' '}
+              <button onClick={() => { onNavigate('indemnities'); }} className="text-cyan-400 underline hover:text-cyan-300">
+                Riepilogo indennizzi
+              </button>
             </p>
             <div className="space-y-3">
               {exitedContracts.map(contract => {
@@ -1471,12 +1474,12 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
               const currentRubata = contract.rescissionClause + contract.salary
               const newSalary = parseInt(edit?.newSalary || '') || contract.salary
               const newDuration = parseInt(edit?.newDuration || '') || contract.duration
-              const newMultiplier = DURATION_MULTIPLIERS[newDuration] || 7
+              const newMultiplier = getClauseMultiplier(newDuration, rules)
               const newRescissionClause = newSalary * newMultiplier
               const newRubata = newRescissionClause + newSalary
               const hasChanges = newSalary !== contract.salary || newDuration !== contract.duration
               const isMarkedForRelease = localReleases.has(contract.id)
-              const releaseCost = Math.ceil((contract.salary * contract.duration) / 2)
+              const releaseCost = getReleaseCost(contract.salary, contract.duration, rules)
               const isKeptExited = contract.isExitedPlayer && exitDecisions.get(contract.id) === 'KEEP'
 
               // Calcola il minimo ingaggio consentito
@@ -1681,7 +1684,7 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
                             </div>
                             <button
                               onClick={() => { updateLocalEdit(contract.id, 'newDuration', String(newDuration + 1)); }}
-                              disabled={newDuration >= 4 || !canIncreaseDuration}
+                              disabled={newDuration >= rules.maxDuration || !canIncreaseDuration}
                               className="px-3 py-2 min-h-[44px] min-w-[44px] bg-surface-300 border border-primary-500/30 rounded-r text-white font-bold disabled:opacity-30"
                               title={!canIncreaseDuration ? 'Aumenta prima l\'ingaggio per estendere la durata' : undefined}
                             >+</button>
@@ -1755,7 +1758,7 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
                         <div className="text-center">
                           <span className="text-gray-500 text-[10px]">Nuova Rubata</span>
                           <div className="font-bold text-warning-400">
-                            {contract.draftSalary * (DURATION_MULTIPLIERS[contract.draftDuration] || 7) + contract.draftSalary}M
+                            {contract.draftSalary * (getClauseMultiplier(contract.draftDuration, rules)) + contract.draftSalary}M
                           </div>
                         </div>
                       </div>
@@ -1846,12 +1849,12 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
                     const currentRubata = contract.rescissionClause + contract.salary
                     const newSalary = parseInt(edit?.newSalary || '') || contract.salary
                     const newDuration = parseInt(edit?.newDuration || '') || contract.duration
-                    const newMultiplier = DURATION_MULTIPLIERS[newDuration] || 7
+                    const newMultiplier = getClauseMultiplier(newDuration, rules)
                     const newRescissionClause = newSalary * newMultiplier
                     const newRubata = newRescissionClause + newSalary
                     const hasChanges = newSalary !== contract.salary || newDuration !== contract.duration
                     const isMarkedForRelease = localReleases.has(contract.id)
-                    const releaseCost = Math.ceil((contract.salary * contract.duration) / 2)
+                    const releaseCost = getReleaseCost(contract.salary, contract.duration, rules)
                     const isKeptExited = contract.isExitedPlayer && exitDecisions.get(contract.id) === 'KEEP'
 
                     // Calcola il minimo ingaggio consentito (spalma logic)
@@ -2007,7 +2010,7 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
                               <span className={`w-8 text-center font-medium ${getDurationColor(newDuration)}`}>{newDuration}s</span>
                               <button
                                 onClick={() => { updateLocalEdit(contract.id, 'newDuration', String(newDuration + 1)); }}
-                                disabled={newDuration >= 4 || !canIncreaseDuration}
+                                disabled={newDuration >= rules.maxDuration || !canIncreaseDuration}
                                 className="w-6 h-6 bg-surface-300 border border-primary-500/30 rounded text-white text-sm disabled:opacity-30"
                                 title={!canIncreaseDuration ? 'Aumenta prima l\'ingaggio per estendere la durata' : undefined}
                               >+</button>
@@ -2025,7 +2028,7 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
                         <td className={`text-center p-2 ${hasChanges ? 'bg-accent-500/10' : isConsolidated && contract.wasModified ? 'bg-secondary-500/10' : ''}`}>
                           {isConsolidated && contract.draftSalary != null && contract.draftDuration != null ? (
                             <span className="text-accent-400 text-base font-black">
-                              {contract.draftSalary * (DURATION_MULTIPLIERS[contract.draftDuration] || 7)}M
+                              {contract.draftSalary * (getClauseMultiplier(contract.draftDuration, rules))}M
                             </span>
                           ) : (
                             <>
@@ -2041,7 +2044,7 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
                         <td className={`text-center p-2 ${hasChanges ? 'bg-warning-500/10' : isConsolidated && contract.wasModified ? 'bg-secondary-500/10' : ''}`}>
                           {isConsolidated && contract.draftSalary != null && contract.draftDuration != null ? (
                             <span className="text-warning-400 text-base font-black">
-                              {contract.draftSalary * (DURATION_MULTIPLIERS[contract.draftDuration] || 7) + contract.draftSalary}M
+                              {contract.draftSalary * (getClauseMultiplier(contract.draftDuration, rules)) + contract.draftSalary}M
                             </span>
                           ) : (
                             <span className={`text-base font-black ${hasChanges ? 'text-warning-400' : 'text-gray-500'}`}>
@@ -2219,22 +2222,22 @@ export function Contracts({ leagueId, onNavigate }: ContractsProps) {
                 <div className="relative h-4 bg-surface-300 rounded-full overflow-hidden mb-2">
                   <div
                     className={`absolute inset-y-0 left-0 rounded-full transition-all ${
-                      effectivePlayerCount > MAX_ROSTER_SIZE
+                      effectivePlayerCount > rules.maxRosterSize
                         ? 'bg-gradient-to-r from-danger-500 to-danger-400'
-                        : effectivePlayerCount > MAX_ROSTER_SIZE - 3
+                        : effectivePlayerCount > rules.maxRosterSize - 3
                           ? 'bg-gradient-to-r from-warning-500 to-warning-400'
                           : 'bg-gradient-to-r from-secondary-500 to-secondary-400'
                     }`}
-                    style={{ width: `${Math.min(100, (effectivePlayerCount / MAX_ROSTER_SIZE) * 100)}%` }}
+                    style={{ width: `${Math.min(100, (effectivePlayerCount / rules.maxRosterSize) * 100)}%` }}
                   />
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className={`font-bold ${
-                    effectivePlayerCount > MAX_ROSTER_SIZE ? 'text-danger-400' : 'text-white'
+                    effectivePlayerCount > rules.maxRosterSize ? 'text-danger-400' : 'text-white'
                   }`}>
                     {effectivePlayerCount} giocatori
                   </span>
-                  <span className="text-gray-500">max {MAX_ROSTER_SIZE}</span>
+                  <span className="text-gray-500">max {rules.maxRosterSize}</span>
                 </div>
                 {requiredReleases > 0 && (
                   <div className="mt-2 p-2 bg-danger-500/20 rounded-lg border border-danger-500/30">
@@ -53,6 +53,8 @@ export function CreateLeague({ onNavigate }: CreateLeagueProps) {
   const [forwardSlots, setForwardSlots] = useState(6)
   // Default: lega privata (isPublic = false) -> accessibile solo su invito
   const [isPublic, setIsPublic] = useState(false)
+  const [requireVerifiedEmail, setRequireVerifiedEmail] = useState(false)
+  const [requireAdminTwoFactor, setRequireAdminTwoFactor] = useState(false)
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
   const [inviteCode, setInviteCode] = useState('')
@@ -76,6 +78,8 @@ export function CreateLeague({ onNavigate }: CreateLeagueProps) {
       forwardSlots,
       teamName,
       isPublic,
+      requireVerifiedEmail,
+      requireAdminTwoFactor,
     })
 
     if (response.success && response.data) {
@@ -295,6 +299,36 @@ export function CreateLeague({ onNavigate }: CreateLeagueProps) {
                       </p>
                     </button>
                   </div>
+
+                  <label className="flex items-start gap-3 rounded-xl p-4 bg-surface-300 border border-surface-50/20 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={requireVerifiedEmail}
+                      onChange={(e) => { setRequireVerifiedEmail(e.target.checked); }}
+                      className="mt-1 h-4 w-4 accent-primary-500"
+                    />
+                    <span>
+                      <span className="block font-bold text-white">Richiedi email verificata</span>
+                      <span className="block text-sm text-gray-400">
+                        Solo chi ha confermato la propria email può accettare un invito o richiedere di unirsi.
+                      </span>
+                    </span>
+                  </label>
+
+                  <label className="flex items-start gap-3 rounded-xl p-4 bg-surface-300 border border-surface-50/20 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={requireAdminTwoFactor}
+                      onChange={(e) => { setRequireAdminTwoFactor(e.target.checked); }}
+                      className="mt-1 h-4 w-4 accent-primary-500"
+                    />
+                    <span>
+                      <span className="block font-bold text-white">Verifica in due passaggi per gli admin</span>
+                      <span className="block text-sm text-gray-400">
+                        Gli amministratori della lega devono configurare un'app authenticator per accedere.
+                      </span>
+                    </span>
+                  </label>
                 </div>
 
                 {/* Section: Slot Rosa */}
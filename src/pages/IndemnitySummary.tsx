@@ -0,0 +1,378 @@
+import { useState, useEffect } from 'react'
+import { auctionApi, indemnityApi } from '../services/api'
+import { Navigation } from '../components/Navigation'
+import type { IndemnityChoice, IndemnityPhaseData, IndemnityPhaseStatus, IndemnityPlayerRow } from '../types/indemnity.types'
+
+interface IndemnitySummaryProps {
+  leagueId: string
+  onNavigate: (page: string, params?: Record<string, string>) => void
+}
+
+interface Session {
+  id: string
+  status: string
+}
+
+const STATUS_LABELS: Record<IndemnityPhaseStatus, { label: string; className: string }> = {
+  OPEN: { label: 'In preparazione', className: 'bg-gray-500/20 text-gray-300' },
+  DECISIONS: { label: 'Decisioni aperte', className: 'bg-primary-500/20 text-primary-400' },
+  ADMIN_REVIEW: { label: 'Revisione admin', className: 'bg-amber-500/20 text-amber-400' },
+  CONSOLIDATED: { label: 'Consolidata', className: 'bg-secondary-500/20 text-secondary-400' },
+}
+
+const EXIT_REASON_LABELS: Record<IndemnityPlayerRow['exitReason'], string> = {
+  RETROCESSO: 'Retrocesso',
+  ESTERO: 'Estero',
+}
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' })
+}
+
+// Valore per <input type="datetime-local"> nel fuso orario locale
+function toLocalInputValue(value: string | null): string {
+  if (!value) return ''
+  const date = new Date(value)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+export function IndemnitySummary({ leagueId, onNavigate }: IndemnitySummaryProps) {
+  const [isLoading, setIsLoading] = useState(true)
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  const [phase, setPhase] = useState<IndemnityPhaseData | null>(null)
+  const [myChoices, setMyChoices] = useState<Record<string, IndemnityChoice>>({})
+  const [deadlineInput, setDeadlineInput] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+
+  useEffect(() => {
+    void loadData()
+  }, [leagueId])
+
+  async function loadData() {
+    setIsLoading(true)
+    setError('')
+
+    const sessionsRes = await auctionApi.getSessions(leagueId)
+    const active = sessionsRes.success && sessionsRes.data
+      ? (sessionsRes.data as Session[]).find(s => s.status === 'ACTIVE')
+      : undefined
+    setSessionId(active?.id ?? null)
+
+    if (active) {
+      await loadPhase(active.id)
+    }
+
+    setIsLoading(false)
+  }
+
+  async function loadPhase(id: string) {
+    const res = await indemnityApi.getPhase(id)
+    if (res.success && res.data) {
+      setPhase(res.data)
+      setDeadlineInput(toLocalInputValue(res.data.decisionDeadline))
+      const mine: Record<string, IndemnityChoice> = {}
+      for (const player of res.data.players) {
+        if (player.memberId === res.data.myMemberId && player.decision) {
+          mine[player.rosterId] = player.decision
+        }
+      }
+      setMyChoices(mine)
+    } else {
+      setPhase(null)
+      setError(res.message || 'Errore nel caricamento della fase indennizzi')
+    }
+  }
+
+  async function runAction(action: (id: string) => Promise<{ success: boolean; message?: string }>) {
+    if (!sessionId) return
+    setIsSubmitting(true)
+    setError('')
+    setSuccess('')
+
+    const res = await action(sessionId)
+    if (res.success) {
+      setSuccess(res.message || 'Operazione completata')
+      await loadPhase(sessionId)
+    } else {
+      setError(res.message || 'Operazione non riuscita')
+    }
+
+    setIsSubmitting(false)
+  }
+
+  function handleSubmitDecisions() {
+    const decisions = Object.entries(myChoices).map(([rosterId, decision]) => ({ rosterId, decision }))
+    if (decisions.length === 0) return
+    void runAction(id => indemnityApi.submitDecisions(id, decisions))
+  }
+
+  function handleSetDeadline(clear = false) {
+    const deadline = clear || !deadlineInput ? null : new Date(deadlineInput).toISOString()
+    void runAction(id => indemnityApi.setDeadline(id, deadline))
+  }
+
+  function handleConsolidate() {
+    if (!confirm('Consolidare gli indennizzi? Rilasci e accrediti verranno applicati subito.')) return
+    void runAction(id => indemnityApi.consolidate(id))
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen">
+        <Navigation currentPage="indemnities" leagueId={leagueId} onNavigate={onNavigate} />
+        <div className="flex items-center justify-center h-[80vh]">
+          <div className="text-center">
+            <div className="w-16 h-16 border-4 border-amber-500/30 border-t-amber-500 rounded-full animate-spin mx-auto mb-4"></div>
+            <p className="text-lg text-gray-400">Caricamento indennizzi...</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!sessionId || !phase) {
+    return (
+      <div className="min-h-screen">
+        <Navigation currentPage="indemnities" leagueId={leagueId} onNavigate={onNavigate} />
+        <main className="max-w-3xl mx-auto px-4 py-16 text-center">
+          <div className="text-5xl mb-4">🧾</div>
+          <p className="text-gray-400 mb-6">
+            {sessionId ? (error || 'Fase indennizzi non disponibile') : 'Nessuna sessione di mercato attiva'}
+          </p>
+          <button
+            onClick={() => { onNavigate('leagueDetail', { leagueId }); }}
+            className="px-6 py-3 bg-primary-500 text-white rounded-xl hover:bg-primary-600 transition-colors"
+          >
+            Torna alla Lega
+          </button>
+        </main>
+      </div>
+    )
+  }
+
+  const status = STATUS_LABELS[phase.status]
+  const myPlayers = phase.players.filter(p => p.memberId === phase.myMemberId)
+  const canDecide = phase.status === 'DECISIONS' && myPlayers.length > 0
+  const canReview = phase.isAdmin && phase.status === 'ADMIN_REVIEW'
+  const hasChanges = myPlayers.some(p => myChoices[p.rosterId] && myChoices[p.rosterId] !== p.decision)
+
+  return (
+    <div className="min-h-screen">
+      <Navigation currentPage="indemnities" leagueId={leagueId} leagueName={phase.leagueName} isLeagueAdmin={phase.isAdmin} onNavigate={onNavigate} />
+
+      <main className="max-w-[1200px] mx-auto px-4 py-8 space-y-6">
+        {/* Header */}
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-white flex items-center gap-2">
+              <span>🧾</span> Indennizzi giocatori usciti
+            </h1>
+            <p className="text-sm text-gray-400 mt-1">
+              {phase.totals.decided}/{phase.totals.players} decisioni
+              {phase.decisionDeadline && ` · scadenza ${formatDateTime(phase.decisionDeadline)}`}
+            </p>
+          </div>
+          <span className={`px-3 py-1 rounded-full text-sm font-medium ${status.className}`}>{status.label}</span>
+        </div>
+
+        {error && (
+          <div className="bg-danger-500/20 border border-danger-500/50 text-danger-400 p-4 rounded-xl">{error}</div>
+        )}
+        {success && (
+          <div className="bg-secondary-500/20 border border-secondary-500/50 text-secondary-400 p-4 rounded-xl">{success}</div>
+        )}
+
+        {/* Totals */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="bg-surface-200 rounded-xl p-4 border border-surface-50/20">
+            <p className="text-xs text-gray-400">Giocatori usciti</p>
+            <p className="text-2xl font-bold text-white">{phase.totals.players}</p>
+          </div>
+          <div className="bg-surface-200 rounded-xl p-4 border border-surface-50/20">
+            <p className="text-xs text-gray-400">Rilasciati</p>
+            <p className="text-2xl font-bold text-danger-400">{phase.totals.released}</p>
+          </div>
+          <div className="bg-surface-200 rounded-xl p-4 border border-surface-50/20">
+            <p className="text-xs text-gray-400">Mantenuti</p>
+            <p className="text-2xl font-bold text-primary-400">{phase.totals.kept}</p>
+          </div>
+          <div className="bg-surface-200 rounded-xl p-4 border border-surface-50/20">
+            <p className="text-xs text-gray-400">Indennizzi pagati</p>
+            <p className="text-2xl font-bold text-amber-400">{phase.totals.compensationPaid}M</p>
+          </div>
+        </div>
+
+        {/* Admin actions */}
+        {phase.isAdmin && phase.status !== 'CONSOLIDATED' && (
+          <div className="bg-surface-200 rounded-xl p-4 border border-amber-500/30 space-y-3">
+            <h2 className="font-bold text-amber-400">Azioni admin</h2>
+            {phase.status === 'DECISIONS' && (
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="datetime-local"
+                  value={deadlineInput}
+                  onChange={(e) => { setDeadlineInput(e.target.value); }}
+                  className="px-3 py-2 bg-surface-300 border border-surface-50/20 rounded-lg text-white text-sm"
+                />
+                <button
+                  onClick={() => { handleSetDeadline(); }}
+                  disabled={isSubmitting || !deadlineInput}
+                  className="px-4 py-2 bg-primary-500 text-white rounded-lg text-sm hover:bg-primary-600 disabled:opacity-50"
+                >
+                  Imposta scadenza
+                </button>
+                {phase.decisionDeadline && (
+                  <button
+                    onClick={() => { handleSetDeadline(true); }}
+                    disabled={isSubmitting}
+                    className="px-4 py-2 bg-surface-300 text-gray-300 rounded-lg text-sm hover:bg-surface-50/20 disabled:opacity-50"
+                  >
+                    Rimuovi scadenza
+                  </button>
+                )}
+                <button
+                  onClick={() => { void runAction(id => indemnityApi.close(id)); }}
+                  disabled={isSubmitting}
+                  className="px-4 py-2 bg-amber-500 text-dark-900 rounded-lg text-sm font-medium hover:bg-amber-400 disabled:opacity-50"
+                >
+                  Chiudi decisioni
+                </button>
+              </div>
+            )}
+            {phase.status === 'ADMIN_REVIEW' && (
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => { void runAction(id => indemnityApi.reopen(id)); }}
+                  disabled={isSubmitting}
+                  className="px-4 py-2 bg-surface-300 text-gray-300 rounded-lg text-sm hover:bg-surface-50/20 disabled:opacity-50"
+                >
+                  Riapri decisioni
+                </button>
+                <button
+                  onClick={handleConsolidate}
+                  disabled={isSubmitting || phase.totals.decided < phase.totals.players}
+                  className="px-4 py-2 bg-secondary-500 text-white rounded-lg text-sm font-medium hover:bg-secondary-600 disabled:opacity-50"
+                >
+                  Consolida indennizzi
+                </button>
+                {phase.totals.decided < phase.totals.players && (
+                  <span className="text-xs text-gray-400">Completa le decisioni mancanti per consolidare</span>
+                )}
+              </div>
+            )}
+            {phase.status === 'OPEN' && (
+              <p className="text-sm text-gray-400">Le decisioni si apriranno con la fase CONTRATTI.</p>
+            )}
+          </div>
+        )}
+
+        {/* Players table */}
+        {phase.players.length === 0 ? (
+          <div className="text-center py-12 text-gray-400 bg-surface-200 rounded-xl border border-surface-50/20">
+            Nessun giocatore uscito in questa sessione
+          </div>
+        ) : (
+          <div className="bg-surface-200 rounded-xl border border-surface-50/20 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-surface-50/20 text-gray-400">
+                  <th className="text-left px-4 py-3 font-medium">Giocatore</th>
+                  <th className="text-left px-4 py-3 font-medium">Manager</th>
+                  <th className="text-center px-4 py-3 font-medium">Uscita</th>
+                  <th className="text-center px-4 py-3 font-medium">Contratto</th>
+                  <th className="text-center px-4 py-3 font-medium">Scelta</th>
+                  <th className="text-right px-4 py-3 font-medium">Indennizzo</th>
+                </tr>
+              </thead>
+              <tbody>
+                {phase.players.map(player => {
+                  const isMine = player.memberId === phase.myMemberId
+                  const choice = isMine ? myChoices[player.rosterId] ?? null : player.decision
+
+                  return (
+                    <tr key={player.id} className={`border-b border-surface-50/10 ${isMine ? 'bg-primary-500/5' : ''}`}>
+                      <td className="px-4 py-3">
+                        <p className="font-medium text-white">{player.playerName}</p>
+                        <p className="text-xs text-gray-500">{player.position} · {player.team}</p>
+                      </td>
+                      <td className="px-4 py-3 text-gray-300">{player.teamName || player.username}</td>
+                      <td className="px-4 py-3 text-center text-gray-300">{EXIT_REASON_LABELS[player.exitReason]}</td>
+                      <td className="px-4 py-3 text-center text-gray-300">
+                        {player.contract ? `${player.contract.salary}M × ${player.contract.duration}` : '-'}
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        {(isMine && canDecide) || canReview ? (
+                          <div className="inline-flex rounded-lg overflow-hidden border border-surface-50/20">
+                            {(['KEEP', 'RELEASE'] as IndemnityChoice[]).map(option => (
+                              <button
+                                key={option}
+                                disabled={isSubmitting}
+                                onClick={() => {
+                                  if (canReview) {
+                                    void runAction(id => indemnityApi.review(id, player.id, option))
+                                  } else {
+                                    setMyChoices(prev => ({ ...prev, [player.rosterId]: option }))
+                                  }
+                                }}
+                                className={`px-3 py-1 text-xs font-medium ${
+                                  choice === option
+                                    ? option === 'RELEASE' ? 'bg-danger-500 text-white' : 'bg-primary-500 text-white'
+                                    : 'bg-surface-300 text-gray-400 hover:text-white'
+                                }`}
+                              >
+                                {option === 'KEEP' ? 'Mantieni' : 'Rilascia'}
+                              </button>
+                            ))}
+                          </div>
+                        ) : choice ? (
+                          <span className={choice === 'RELEASE' ? 'text-danger-400' : 'text-primary-400'}>
+                            {choice === 'KEEP' ? 'Mantenuto' : 'Rilasciato'}
+                            {player.decidedByAdmin && <span className="text-xs text-gray-500"> (admin)</span>}
+                          </span>
+                        ) : (
+                          <span className="text-gray-500">{player.hasDecided ? 'Deciso' : 'In attesa'}</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {player.compensationPaid !== null ? (
+                          <span className="font-medium text-amber-400">{player.compensationPaid}M</span>
+                        ) : player.expectedCompensation > 0 ? (
+                          <span className="text-gray-400" title="Accreditato se rilasciato">{player.expectedCompensation}M</span>
+                        ) : (
+                          <span className="text-gray-500">-</span>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {canDecide && (
+          <div className="flex justify-end">
+            <button
+              onClick={handleSubmitDecisions}
+              disabled={isSubmitting || !hasChanges}
+              className="px-6 py-3 bg-primary-500 text-white rounded-xl font-medium hover:bg-primary-600 disabled:opacity-50 transition-colors"
+            >
+              {isSubmitting ? 'Salvataggio...' : 'Salva le mie decisioni'}
+            </button>
+          </div>
+        )}
+
+        <div className="text-center">
+          <button
+            onClick={() => { onNavigate('leagueDetail', { leagueId }); }}
+            className="px-6 py-3 bg-surface-200 text-gray-300 rounded-xl hover:bg-surface-300 transition-colors border border-surface-50/20"
+          >
+            Torna alla Lega
+          </button>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -7,6 +7,7 @@ import { FinanceDashboard } from '../components/finance/FinanceDashboard'
 import { TeamComparison } from '../components/finance/TeamComparison'
 import { TeamFinanceDetail } from '../components/finance/TeamFinanceDetail'
 import { FinanceTimeline } from '../components/finance/FinanceTimeline'
+import { ContractSimulator } from '../components/finance/ContractSimulator'
 import type { FinancialsData } from '../components/finance/types'
 
 // ============================================================================
@@ -18,12 +19,14 @@ type ViewLevel =
   | { level: 'squadre' }
   | { level: 'dettaglio'; memberId: string }
   | { level: 'movimenti'; memberId?: string }
+  | { level: 'simulatore' }
 
 // Tab definitions
 const TABS = [
   { key: 'panoramica', label: 'Panoramica' },
   { key: 'squadre', label: 'Squadre' },
   { key: 'movimenti', label: 'Movimenti' },
+  { key: 'simulatore', label: 'Simulatore' },
 ] as const
 
 interface LeagueFinancialsProps {
@@ -93,6 +96,7 @@ export default function LeagueFinancials({ leagueId, onNavigate }: LeagueFinanci
       void loadTrends()
     }
     else if (tab === 'movimenti') setView({ level: 'movimenti' })
+    else if (tab === 'simulatore') setView({ level: 'simulatore' })
   }
 
   const handleTeamClick = (memberId: string) => {
@@ -313,6 +317,11 @@ export default function LeagueFinancials({ leagueId, onNavigate }: LeagueFinanci
             onBack={handleBackFromTimeline}
           />
         )}
+
+        {/* Simulatore contratti (what-if sulla propria rosa) */}
+        {view.level === 'simulatore' && (
+          <ContractSimulator leagueId={leagueId} />
+        )}
       </div>
       </PullToRefresh>
     </div>
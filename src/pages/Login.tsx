@@ -2,6 +2,7 @@ import { useState, type FormEvent } from 'react'
 import { useAuth } from '../hooks/useAuth'
 import { Button } from '../components/ui/Button'
 import { Input } from '../components/ui/Input'
+import { TwoFactorSetup } from '../components/TwoFactorSetup'
 
 interface LoginProps {
   onNavigate: (page: string, params?: Record<string, string>) => void
@@ -13,12 +14,16 @@ interface FieldErrors {
 }
 
 export function Login({ onNavigate }: LoginProps) {
-  const { login } = useAuth()
+  const { login, verifyTwoFactor, completeLogin } = useAuth()
   const [emailOrUsername, setEmailOrUsername] = useState('')
   const [password, setPassword] = useState('')
   const [error, setError] = useState('')
   const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
   const [isLoading, setIsLoading] = useState(false)
+  // Secondo passo: codice dell'app (VERIFY) o configurazione obbligatoria (SETUP)
+  const [twoFactor, setTwoFactor] = useState<{ step: 'VERIFY' | 'SETUP'; challengeToken: string } | null>(null)
+  const [twoFactorCode, setTwoFactorCode] = useState('')
+  const [trustDevice, setTrustDevice] = useState(false)
 
   function validateField(field: keyof FieldErrors) {
     setFieldErrors(prev => {
@@ -41,7 +46,9 @@ export function Login({ onNavigate }: LoginProps) {
 
     const result = await login(emailOrUsername, password)
 
-    if (result.success) {
+    if (result.success && result.twoFactor) {
+      setTwoFactor(result.twoFactor)
+    } else if (result.success) {
       onNavigate('dashboard')
     } else {
       // Parse validation errors from API response
@@ -67,6 +74,30 @@ export function Login({ onNavigate }: LoginProps) {
     setIsLoading(false)
   }
 
+  async function handleTwoFactorSubmit(e: FormEvent) {
+    e.preventDefault()
+    if (!twoFactor) return
+    setError('')
+    setIsLoading(true)
+
+    const result = await verifyTwoFactor(twoFactor.challengeToken, twoFactorCode.trim(), trustDevice)
+
+    if (result.success) {
+      onNavigate('dashboard')
+    } else {
+      setError(result.message || 'Codice non valido')
+    }
+
+    setIsLoading(false)
+  }
+
+  function handleBackToLogin() {
+    setTwoFactor(null)
+    setTwoFactorCode('')
+    setPassword('')
+    setError('')
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center p-6">
       {/* Background pattern */}
@@ -85,68 +116,137 @@ export function Login({ onNavigate }: LoginProps) {
 
         {/* Card */}
         <div className="bg-surface-200 rounded-2xl border border-surface-50/20 p-4 sm:p-8 shadow-2xl">
-          <h2 className="text-lg sm:text-xl md:text-2xl font-bold text-white text-center mb-8">Accedi al tuo account</h2>
+          {twoFactor?.step === 'SETUP' ? (
+            <>
+              <h2 className="text-lg sm:text-xl md:text-2xl font-bold text-white text-center mb-4">Configura la verifica in due passaggi</h2>
+              <p className="text-sm text-gray-400 text-center mb-6">
+                Il tuo account richiede l'autenticazione a due fattori per accedere.
+              </p>
+              <TwoFactorSetup
+                challengeToken={twoFactor.challengeToken}
+                onComplete={result => {
+                  if (result.user && result.accessToken) {
+                    completeLogin(result.user, result.accessToken)
+                    onNavigate('dashboard')
+                  }
+                }}
+                onCancel={handleBackToLogin}
+              />
+            </>
+          ) : twoFactor?.step === 'VERIFY' ? (
+            <>
+              <h2 className="text-lg sm:text-xl md:text-2xl font-bold text-white text-center mb-8">Verifica in due passaggi</h2>
+
+              <form onSubmit={(e) => { void handleTwoFactorSubmit(e) }} className="space-y-6">
+                {error && (
+                  <div className="bg-danger-500/20 border border-danger-500/50 text-danger-400 p-4 rounded-lg text-base">
+                    {error}
+                  </div>
+                )}
+
+                <Input
+                  label="Codice di verifica"
+                  type="text"
+                  autoComplete="one-time-code"
+                  value={twoFactorCode}
+                  onChange={e => { setTwoFactorCode(e.target.value) }}
+                  placeholder="123456"
+                  helperText="Inserisci il codice dell'app authenticator o un codice di recupero"
+                  required
+                  autoFocus
+                />
 
-          <form onSubmit={(e) => { void handleSubmit(e) }} className="space-y-6">
-            <div className={`min-h-[56px] transition-all duration-200 ${error ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
-              {error && (
-                <div className="bg-danger-500/20 border border-danger-500/50 text-danger-400 p-4 rounded-lg text-base">
-                  {error}
+                <label className="flex items-center gap-3 text-sm text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={trustDevice}
+                    onChange={e => { setTrustDevice(e.target.checked) }}
+                    className="h-4 w-4 accent-primary-500"
+                  />
+                  Non chiedere più il codice su questo dispositivo per 30 giorni
+                </label>
+
+                <Button type="submit" size="xl" className="w-full" isLoading={isLoading}>
+                  Verifica
+                </Button>
+
+                <div className="text-center">
+                  <button
+                    type="button"
+                    onClick={handleBackToLogin}
+                    className="text-sm text-gray-400 hover:text-primary-400 transition-colors"
+                  >
+                    Torna al login
+                  </button>
                 </div>
-              )}
-            </div>
-
-            <Input
-              label="Email o Username"
-              type="text"
-              inputMode="email"
-              autoComplete="email"
-              value={emailOrUsername}
-              onChange={e => { setEmailOrUsername(e.target.value); if (fieldErrors.emailOrUsername) setFieldErrors(prev => ({ ...prev, emailOrUsername: undefined })) }}
-              onBlur={() => { validateField('emailOrUsername'); }}
-              placeholder="mario@email.com"
-              required
-              error={fieldErrors.emailOrUsername}
-            />
-
-            <Input
-              label="Password"
-              type="password"
-              value={password}
-              onChange={e => { setPassword(e.target.value); if (fieldErrors.password) setFieldErrors(prev => ({ ...prev, password: undefined })) }}
-              onBlur={() => { validateField('password'); }}
-              placeholder="••••••••"
-              required
-              error={fieldErrors.password}
-            />
-
-            <div className="text-right">
-              <button
-                type="button"
-                onClick={() => { onNavigate('forgot-password'); }}
-                className="text-sm text-gray-400 hover:text-primary-400 transition-colors"
-              >
-                Password dimenticata?
-              </button>
-            </div>
-
-            <Button type="submit" size="xl" className="w-full" isLoading={isLoading}>
-              Accedi
-            </Button>
-          </form>
-
-          <div className="mt-8 text-center">
-            <p className="text-base text-gray-400">
-              Non hai un account?{' '}
-              <button
-                type="button"
-                onClick={() => { onNavigate('register'); }}
-                className="text-primary-400 hover:text-primary-300 font-semibold transition-colors"
-              >
-                Registrati ora
-              </button>
-            </p>
-          </div>
+              </form>
+            </>
+          ) : (
+            <>
+              <h2 className="text-lg sm:text-xl md:text-2xl font-bold text-white text-center mb-8">Accedi al tuo account</h2>
+
+              <form onSubmit={(e) => { void handleSubmit(e) }} className="space-y-6">
+                <div className={`min-h-[56px] transition-all duration-200 ${error ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
+                  {error && (
+                    <div className="bg-danger-500/20 border border-danger-500/50 text-danger-400 p-4 rounded-lg text-base">
+                      {error}
+                    </div>
+                  )}
+                </div>
+
+                <Input
+                  label="Email o Username"
+                  type="text"
+                  inputMode="email"
+                  autoComplete="email"
+                  value={emailOrUsername}
+                  onChange={e => { setEmailOrUsername(e.target.value); if (fieldErrors.emailOrUsername) setFieldErrors(prev => ({ ...prev, emailOrUsername: undefined })) }}
+                  onBlur={() => { validateField('emailOrUsername'); }}
+                  placeholder="mario@email.com"
+                  required
+                  error={fieldErrors.emailOrUsername}
+                />
+
+                <Input
+                  label="Password"
+                  type="password"
+                  value={password}
+                  onChange={e => { setPassword(e.target.value); if (fieldErrors.password) setFieldErrors(prev => ({ ...prev, password: undefined })) }}
+                  onBlur={() => { validateField('password'); }}
+                  placeholder="••••••••"
+                  required
+                  error={fieldErrors.password}
+                />
+
+                <div className="text-right">
+                  <button
+                    type="button"
+                    onClick={() => { onNavigate('forgot-password'); }}
+                    className="text-sm text-gray-400 hover:text-primary-400 transition-colors"
+                  >
+                    Password dimenticata?
+                  </button>
+                </div>
+
+                <Button type="submit" size="xl" className="w-full" isLoading={isLoading}>
+                  Accedi
+                </Button>
+              </form>
+
+              <div className="mt-8 text-center">
+                <p className="text-base text-gray-400">
+                  Non hai un account?{' '}
+                  <button
+                    type="button"
+                    onClick={() => { onNavigate('register'); }}
+                    className="text-primary-400 hover:text-primary-300 font-semibold transition-colors"
+                  >
+                    Registrati ora
+                  </button>
+                </p>
+              </div>
+            </>
+          )}
         </div>
 
         {/* Rules link */}
@@ -0,0 +1,354 @@
+import { useState, useEffect, useMemo } from 'react'
+import { leagueApi, matchdayApi } from '../services/api'
+import { Navigation } from '../components/Navigation'
+import { Button } from '../components/ui/Button'
+import { Tabs } from '../components/ui/Tabs'
+import { EmptyState } from '../components/ui/EmptyState'
+import { PositionBadge, POSITIONS, POSITION_NAMES } from '../components/ui/PositionBadge'
+import { useToast } from '../components/ui/Toast'
+import { parseFormation, type ScoringRole } from '../utils/scoring-rules'
+import type { MatchdaysData, MatchdayLineupData, MatchdayStandingsData, LineupPlayer } from '../types/matchday.types'
+
+interface MatchdaysProps {
+  leagueId: string
+  onNavigate: (page: string, params?: Record<string, string>) => void
+}
+
+type LineupRole = 'starter' | 'bench'
+
+export function Matchdays({ leagueId, onNavigate }: MatchdaysProps) {
+  const { toast } = useToast()
+  const [isLeagueAdmin, setIsLeagueAdmin] = useState(false)
+  const [matchdays, setMatchdays] = useState<MatchdaysData | null>(null)
+  const [round, setRound] = useState<string | null>(null)
+  const [activeTab, setActiveTab] = useState('lineup')
+  const [lineupData, setLineupData] = useState<MatchdayLineupData | null>(null)
+  const [standings, setStandings] = useState<MatchdayStandingsData | null>(null)
+  const [formation, setFormation] = useState('')
+  const [starters, setStarters] = useState<string[]>([])
+  const [bench, setBench] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isComputing, setIsComputing] = useState(false)
+  const [expandedMemberId, setExpandedMemberId] = useState<string | null>(null)
+
+  useEffect(() => {
+    void loadLeagueInfo()
+    void loadMatchdays()
+  }, [leagueId])
+
+  useEffect(() => {
+    if (!matchdays || !round) return
+    void loadLineup(matchdays.season, round)
+    void loadStandings(matchdays.season, round)
+  }, [matchdays?.season, round])
+
+  async function loadLeagueInfo() {
+    const response = await leagueApi.getById(leagueId)
+    if (response.success && response.data) {
+      const data = response.data as { userMembership?: { role: string } }
+      setIsLeagueAdmin(data.userMembership?.role === 'ADMIN')
+    }
+  }
+
+  async function loadMatchdays() {
+    setIsLoading(true)
+    const response = await matchdayApi.getMatchdays(leagueId)
+    if (response.success && response.data) {
+      setMatchdays(response.data)
+      const lastRound = response.data.rounds[response.data.rounds.length - 1]?.round ?? null
+      setRound(response.data.nextRound ?? lastRound)
+    }
+    setIsLoading(false)
+  }
+
+  async function loadLineup(season: string, selectedRound: string) {
+    const response = await matchdayApi.getLineup(leagueId, season, selectedRound)
+    if (response.success && response.data) {
+      setLineupData(response.data)
+      setFormation(response.data.lineup?.formation ?? response.data.rules.formations[0] ?? '')
+      setStarters(response.data.lineup?.starters ?? [])
+      setBench(response.data.lineup?.bench ?? [])
+    }
+  }
+
+  async function loadStandings(season: string, selectedRound: string) {
+    const response = await matchdayApi.getStandings(leagueId, season, selectedRound)
+    if (response.success && response.data) {
+      setStandings(response.data)
+    }
+  }
+
+  const playersById = useMemo(
+    () => new Map((lineupData?.roster ?? []).map(p => [p.id, p])),
+    [lineupData]
+  )
+
+  const required = parseFormation(formation)
+  const startersByRole = (role: ScoringRole) => starters.filter(id => playersById.get(id)?.position === role).length
+  const isLineupComplete = !!required && POSITIONS.every(role => startersByRole(role) === required[role])
+  const locked = lineupData?.locked ?? true
+
+  function getLineupRole(playerId: string): LineupRole | null {
+    if (starters.includes(playerId)) return 'starter'
+    if (bench.includes(playerId)) return 'bench'
+    return null
+  }
+
+  // Click ciclico: fuori → titolare (se c'è posto nel ruolo) → panchina → fuori
+  function togglePlayer(player: LineupPlayer) {
+    if (locked || !required || !lineupData) return
+    const current = getLineupRole(player.id)
+
+    if (current === null) {
+      if (startersByRole(player.position) < required[player.position]) {
+        setStarters([...starters, player.id])
+      } else if (bench.length < lineupData.rules.benchSize) {
+        setBench([...bench, player.id])
+      } else {
+        toast.error(`Panchina completa (${lineupData.rules.benchSize} giocatori)`)
+      }
+    } else if (current === 'starter') {
+      setStarters(starters.filter(id => id !== player.id))
+      if (bench.length < lineupData.rules.benchSize) setBench([...bench, player.id])
+    } else {
+      setBench(bench.filter(id => id !== player.id))
+    }
+  }
+
+  function changeFormation(value: string) {
+    setFormation(value)
+    // I titolari in eccesso per il nuovo modulo tornano fuori rosa
+    const nextRequired = parseFormation(value)
+    if (!nextRequired) return
+    const counts: Record<string, number> = {}
+    setStarters(starters.filter(id => {
+      const role = playersById.get(id)?.position
+      if (!role) return false
+      counts[role] = (counts[role] ?? 0) + 1
+      return counts[role] <= nextRequired[role]
+    }))
+  }
+
+  async function handleSaveLineup() {
+    if (!matchdays || !round) return
+    setIsSaving(true)
+    const response = await matchdayApi.submitLineup(leagueId, { season: matchdays.season, round, formation, starters, bench })
+    setIsSaving(false)
+    if (response.success) {
+      toast.success('Formazione salvata')
+      void loadLineup(matchdays.season, round)
+    } else {
+      toast.error(response.message || 'Errore nel salvataggio della formazione')
+    }
+  }
+
+  async function handleCompute() {
+    if (!matchdays || !round) return
+    setIsComputing(true)
+    const response = await matchdayApi.compute(leagueId, matchdays.season, round)
+    setIsComputing(false)
+    if (response.success) {
+      toast.success(response.message || 'Giornata calcolata')
+      setMatchdays({
+        ...matchdays,
+        rounds: matchdays.rounds.map(r => (r.round === round ? { ...r, isComputed: true } : r)),
+      })
+      void loadStandings(matchdays.season, round)
+    } else {
+      toast.error(response.message || 'Errore nel calcolo della giornata')
+    }
+  }
+
+  const roundOptions = useMemo(() => {
+    if (!matchdays) return []
+    const options = matchdays.rounds.map(r => r.round)
+    if (matchdays.nextRound && !options.includes(matchdays.nextRound)) options.push(matchdays.nextRound)
+    return options
+  }, [matchdays])
+
+  const selectedRoundInfo = matchdays?.rounds.find(r => r.round === round)
+
+  return (
+    <div className="min-h-screen">
+      <Navigation currentPage="matchdays" leagueId={leagueId} isLeagueAdmin={isLeagueAdmin} onNavigate={onNavigate} />
+
+      <main className="max-w-[1200px] mx-auto px-4 md:px-6 py-4 md:py-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h1 className="text-xl md:text-2xl font-bold text-white flex items-center gap-2">
+            <span>⚽</span>
+            Giornate
+            {matchdays && <span className="text-base font-normal text-gray-400">({matchdays.season})</span>}
+          </h1>
+
+          <div className="flex items-center gap-2">
+            <select
+              value={round ?? ''}
+              onChange={(e) => { setRound(e.target.value); }}
+              className="bg-surface-300 border border-surface-50/30 rounded-lg px-3 py-2 text-sm text-white"
+              aria-label="Giornata"
+            >
+              {roundOptions.map(r => (
+                <option key={r} value={r}>{r}</option>
+              ))}
+            </select>
+            {isLeagueAdmin && selectedRoundInfo && (
+              <Button size="sm" variant="accent" isLoading={isComputing} onClick={() => { void handleCompute(); }}>
+                {selectedRoundInfo.isComputed ? 'Ricalcola' : 'Calcola giornata'}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <Tabs
+          tabs={[
+            { id: 'lineup', label: 'Formazione' },
+            { id: 'standings', label: 'Classifica' },
+          ]}
+          value={activeTab}
+          onChange={setActiveTab}
+          ariaLabel="Sezioni giornata"
+          className="mb-4"
+        />
+
+        {isLoading ? (
+          <div className="text-center py-12 text-gray-400">Caricamento...</div>
+        ) : !round ? (
+          <EmptyState icon="⚽" title="Nessuna giornata disponibile" description="I voti della stagione non sono ancora stati sincronizzati" />
+        ) : activeTab === 'lineup' ? (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3 bg-surface-200 rounded-lg border border-surface-50/20 p-3">
+              <label className="text-sm text-gray-400" htmlFor="formation">Modulo</label>
+              <select
+                id="formation"
+                value={formation}
+                disabled={locked}
+                onChange={(e) => { changeFormation(e.target.value); }}
+                className="bg-surface-300 border border-surface-50/30 rounded-lg px-3 py-1.5 text-sm text-white"
+              >
+                {(lineupData?.rules.formations ?? []).map(f => (
+                  <option key={f} value={f}>{f}</option>
+                ))}
+              </select>
+              {required && POSITIONS.map(role => (
+                <span key={role} className={`text-xs ${startersByRole(role) === required[role] ? 'text-secondary-400' : 'text-gray-400'}`}>
+                  {role} {startersByRole(role)}/{required[role]}
+                </span>
+              ))}
+              <span className="text-xs text-gray-400">Panchina {bench.length}/{lineupData?.rules.benchSize ?? 0}</span>
+              <div className="ml-auto">
+                {locked ? (
+                  <span className="text-xs text-warning-400">Giornata iniziata: formazione bloccata</span>
+                ) : (
+                  <Button size="sm" disabled={!isLineupComplete} isLoading={isSaving} onClick={() => { void handleSaveLineup(); }}>
+                    Salva formazione
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {POSITIONS.map(role => {
+                const players = (lineupData?.roster ?? []).filter(p => p.position === role)
+                return (
+                  <div key={role} className="bg-surface-200 rounded-lg border border-surface-50/20 p-3">
+                    <h3 className="text-xs font-semibold text-gray-400 uppercase mb-2">{POSITION_NAMES[role]}</h3>
+                    <div className="space-y-1">
+                      {players.map(player => {
+                        const lineupRole = getLineupRole(player.id)
+                        const benchIndex = bench.indexOf(player.id)
+                        return (
+                          <button
+                            key={player.id}
+                            type="button"
+                            disabled={locked}
+                            onClick={() => { togglePlayer(player); }}
+                            className={`w-full flex items-center gap-2 px-2 py-1.5 rounded text-sm text-left transition-colors ${
+                              lineupRole === 'starter'
+                                ? 'bg-primary-500/20 text-white ring-1 ring-primary-500/40'
+                                : lineupRole === 'bench'
+                                  ? 'bg-surface-300 text-gray-300'
+                                  : 'text-gray-400 hover:bg-surface-300/50'
+                            }`}
+                          >
+                            <PositionBadge position={player.position} size="xs" />
+                            <span className="flex-1 truncate">{player.name}</span>
+                            <span className="text-xs text-gray-500">{player.team}</span>
+                            {lineupRole === 'starter' && <span className="text-xs text-primary-400">Titolare</span>}
+                            {lineupRole === 'bench' && <span className="text-xs text-gray-400">Panchina #{benchIndex + 1}</span>}
+                          </button>
+                        )
+                      })}
+                      {players.length === 0 && <p className="text-xs text-gray-500">Nessun giocatore in rosa</p>}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div className="bg-surface-200 rounded-lg border border-surface-50/20 p-3">
+              <h3 className="text-xs font-semibold text-gray-400 uppercase mb-2">{round}</h3>
+              {!standings?.isComputed ? (
+                <p className="text-sm text-gray-500">Giornata non ancora calcolata</p>
+              ) : (
+                <div className="space-y-1">
+                  {standings.roundStandings.map(entry => (
+                    <div key={entry.memberId}>
+                      <button
+                        type="button"
+                        onClick={() => { setExpandedMemberId(expandedMemberId === entry.memberId ? null : entry.memberId); }}
+                        className="w-full flex items-center gap-2 px-2 py-1.5 rounded text-sm hover:bg-surface-300/50"
+                      >
+                        <span className="w-6 text-gray-500">{entry.rank}</span>
+                        <span className="flex-1 text-left text-white truncate">{entry.teamName || entry.username}</span>
+                        {!entry.breakdown.hasLineup && <span className="text-xs text-warning-400">Senza formazione</span>}
+                        <span className="font-semibold text-primary-400">{entry.total.toFixed(1)}</span>
+                      </button>
+                      {expandedMemberId === entry.memberId && (
+                        <div className="ml-8 mb-2 space-y-0.5 text-xs">
+                          {entry.breakdown.players.map(p => (
+                            <div key={p.playerId} className="flex items-center gap-2 text-gray-400">
+                              <PositionBadge position={p.role} size="xs" />
+                              <span className="flex-1 truncate">
+                                {p.name ?? p.playerId}
+                                {p.substituteFor && <span className="text-secondary-400"> (subentrato)</span>}
+                              </span>
+                              <span>{p.baseRating.toFixed(1)}</span>
+                              <span className={p.bonus >= 0 ? 'text-secondary-400' : 'text-danger-400'}>
+                                {p.bonus >= 0 ? '+' : ''}{p.bonus}
+                              </span>
+                              <span className="w-10 text-right text-white">{p.fantavoto.toFixed(1)}</span>
+                            </div>
+                          ))}
+                          {entry.breakdown.missing.length > 0 && (
+                            <p className="text-gray-500">{entry.breakdown.missing.length} titolari senza voto e senza sostituto</p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="bg-surface-200 rounded-lg border border-surface-50/20 p-3">
+              <h3 className="text-xs font-semibold text-gray-400 uppercase mb-2">Classifica {standings?.season}</h3>
+              <div className="space-y-1">
+                {(standings?.seasonStandings ?? []).map(entry => (
+                  <div key={entry.memberId} className="flex items-center gap-2 px-2 py-1.5 text-sm">
+                    <span className="w-6 text-gray-500">{entry.rank}</span>
+                    <span className="flex-1 text-white truncate">{entry.teamName || entry.username}</span>
+                    <span className="text-xs text-gray-500">{entry.roundsPlayed} G</span>
+                    <span className="font-semibold text-primary-400">{entry.total.toFixed(1)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -945,6 +945,7 @@ export default function PlayerStats({ leagueId, onNavigate }: PlayerStatsProps)
                                 <button
                                   type="button"
                                   onClick={() => { setSelectedPlayerStats({
+                                    playerId: player.id,
                                     name: player.name,
                                     team: player.team,
                                     position: player.position,
@@ -277,7 +277,13 @@ export function PrizePhasePage({ leagueId, onNavigate }: PrizePhasePageProps) {
         )}
 
         {/* Back button */}
-        <div className="mt-8 text-center">
+        <div className="mt-8 flex justify-center gap-3">
+          <button
+            onClick={() => { onNavigate('indemnities'); }}
+            className="px-6 py-3 bg-amber-500/20 text-amber-400 rounded-xl hover:bg-amber-500/30 transition-colors border border-amber-500/30"
+          >
+            Indennizzi giocatori usciti
+          </button>
           <button
             onClick={() => { onNavigate('leagueDetail', { leagueId }); }}
             className="px-6 py-3 bg-surface-200 text-gray-300 rounded-xl hover:bg-surface-300 transition-colors border border-surface-50/20"
@@ -1,8 +1,9 @@
 import { useState, useEffect, useRef, useCallback, type ChangeEvent, type FormEvent } from 'react'
 import { useConfirmDialog } from '@/components/ui/ConfirmDialog'
-import { userApi, pushApi } from '../services/api'
+import { authApi, userApi, pushApi } from '../services/api'
 import { Button } from '../components/ui/Button'
 import { Navigation } from '../components/Navigation'
+import { RecoveryCodesList, TwoFactorSetup } from '../components/TwoFactorSetup'
 
 interface ProfileProps {
   onNavigate: (page: string, params?: Record<string, string>) => void
@@ -195,6 +196,256 @@ function NotificationPreferences() {
   )
 }
 
+interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt: string | null
+  required: boolean
+  recoveryCodesRemaining: number
+  trustedDevices: number
+}
+
+function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [showSetup, setShowSetup] = useState(false)
+  const [code, setCode] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  const loadStatus = useCallback(async () => {
+    const res = await authApi.getTwoFactorStatus()
+    if (res.success && res.data) setStatus(res.data)
+  }, [])
+
+  useEffect(() => {
+    void loadStatus()
+  }, [loadStatus])
+
+  async function runWithCode(action: 'disable' | 'regenerate') {
+    setMessage(null)
+    setIsWorking(true)
+    const res = action === 'disable'
+      ? await authApi.disableTwoFactor(code.trim())
+      : await authApi.regenerateRecoveryCodes(code.trim())
+    if (res.success) {
+      setCode('')
+      setMessage({ type: 'success', text: res.message || 'Operazione completata' })
+      if (action === 'regenerate' && res.data) {
+        setRecoveryCodes((res.data as { recoveryCodes: string[] }).recoveryCodes)
+      }
+      await loadStatus()
+    } else {
+      setMessage({ type: 'error', text: res.message || 'Codice non valido' })
+    }
+    setIsWorking(false)
+  }
+
+  async function handleRevokeDevices() {
+    setMessage(null)
+    const res = await authApi.revokeTrustedDevices()
+    setMessage(res.success
+      ? { type: 'success', text: res.message || 'Dispositivi revocati' }
+      : { type: 'error', text: res.message || 'Errore durante la revoca' })
+    await loadStatus()
+  }
+
+  if (!status) return null
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white">Verifica in due passaggi</h3>
+        {!status.enabled && !showSetup && (
+          <Button variant="outline" size="sm" onClick={() => { setShowSetup(true) }}>
+            Attiva
+          </Button>
+        )}
+      </div>
+
+      {message && (
+        <div className={`p-3 rounded-lg mb-4 text-sm border ${
+          message.type === 'error'
+            ? 'bg-danger-500/20 border-danger-500/50 text-danger-400'
+            : 'bg-secondary-500/20 border-secondary-500/50 text-secondary-400'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      {!status.enabled && showSetup && (
+        <div className="bg-surface-300 rounded-lg p-4">
+          <TwoFactorSetup
+            onComplete={() => { setShowSetup(false); void loadStatus() }}
+            onCancel={() => { setShowSetup(false) }}
+          />
+        </div>
+      )}
+
+      {!status.enabled && !showSetup && (
+        <p className="text-sm text-gray-500">
+          {status.required
+            ? 'Obbligatoria per il tuo account: ti verrà chiesto di configurarla al prossimo accesso.'
+            : 'Proteggi l\'account con un codice generato da un\'app authenticator oltre alla password.'}
+        </p>
+      )}
+
+      {status.enabled && (
+        <div className="bg-surface-300 rounded-lg p-4 space-y-4">
+          <div className="text-sm text-gray-400 space-y-1">
+            <p>
+              <span className="text-secondary-400 font-semibold">Attiva</span>
+              {status.enabledAt && ` dal ${new Date(status.enabledAt).toLocaleDateString('it-IT')}`}
+              {status.required && ' · obbligatoria per il tuo account'}
+            </p>
+            <p>Codici di recupero rimasti: {status.recoveryCodesRemaining}</p>
+            <p>Dispositivi attendibili: {status.trustedDevices}</p>
+          </div>
+
+          {recoveryCodes && <RecoveryCodesList codes={recoveryCodes} />}
+
+          <div>
+            <label className="block text-sm text-gray-400 mb-1">Codice attuale dell'app</label>
+            <input
+              type="text"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => { setCode(e.target.value) }}
+              className="w-full px-3 py-2 bg-surface-400 border border-surface-50/20 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-primary-500"
+              placeholder="Richiesto per generare nuovi codici o disattivare"
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-3">
+            <Button size="sm" variant="outline" disabled={!code.trim() || isWorking} onClick={() => { void runWithCode('regenerate') }}>
+              Nuovi codici di recupero
+            </Button>
+            {status.trustedDevices > 0 && (
+              <Button size="sm" variant="outline" onClick={() => { void handleRevokeDevices() }}>
+                Revoca dispositivi attendibili
+              </Button>
+            )}
+            {!status.required && (
+              <Button size="sm" variant="danger" disabled={!code.trim() || isWorking} onClick={() => { void runWithCode('disable') }}>
+                Disattiva
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface ActiveSession {
+  id: string
+  device: string
+  userAgent: string | null
+  ipAddress: string | null
+  lastUsedAt: string
+  createdAt: string
+  current: boolean
+}
+
+function ActiveSessions() {
+  const { confirm: confirmDialog } = useConfirmDialog()
+  const [sessions, setSessions] = useState<ActiveSession[] | null>(null)
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  const loadSessions = useCallback(async () => {
+    const res = await authApi.getSessions()
+    if (res.success && res.data) setSessions(res.data)
+  }, [])
+
+  useEffect(() => {
+    void loadSessions()
+  }, [loadSessions])
+
+  async function handleRevoke(session: ActiveSession) {
+    setMessage(null)
+    setIsWorking(true)
+    const res = await authApi.revokeSession(session.id)
+    setMessage(res.success
+      ? { type: 'success', text: res.message || 'Sessione revocata' }
+      : { type: 'error', text: res.message || 'Errore durante la revoca' })
+    await loadSessions()
+    setIsWorking(false)
+  }
+
+  async function handleRevokeOthers() {
+    const ok = await confirmDialog({
+      title: 'Esci dagli altri dispositivi',
+      message: 'Tutte le sessioni tranne questa verranno chiuse. Dovrai accedere di nuovo sugli altri dispositivi.',
+      confirmLabel: 'Esci da tutti',
+      variant: 'danger'
+    })
+    if (!ok) return
+
+    setMessage(null)
+    setIsWorking(true)
+    const res = await authApi.revokeOtherSessions()
+    setMessage(res.success
+      ? { type: 'success', text: res.message || 'Sessioni revocate' }
+      : { type: 'error', text: res.message || 'Errore durante la revoca' })
+    await loadSessions()
+    setIsWorking(false)
+  }
+
+  if (!sessions) return null
+
+  const hasOtherSessions = sessions.some(s => !s.current)
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white">Sessioni attive</h3>
+        {hasOtherSessions && (
+          <Button variant="outline" size="sm" disabled={isWorking} onClick={() => { void handleRevokeOthers() }}>
+            Esci dagli altri dispositivi
+          </Button>
+        )}
+      </div>
+
+      {message && (
+        <div className={`p-3 rounded-lg mb-4 text-sm border ${
+          message.type === 'error'
+            ? 'bg-danger-500/20 border-danger-500/50 text-danger-400'
+            : 'bg-secondary-500/20 border-secondary-500/50 text-secondary-400'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      {sessions.length === 0 ? (
+        <p className="text-sm text-gray-500">Nessuna sessione attiva.</p>
+      ) : (
+        <div className="space-y-3">
+          {sessions.map(session => (
+            <div key={session.id} className="bg-surface-300 rounded-lg p-4 flex justify-between items-center gap-3">
+              <div className="min-w-0">
+                <p className="text-white font-medium">
+                  {session.device}
+                  {session.current && <span className="ml-2 text-xs text-secondary-400 font-semibold">Questo dispositivo</span>}
+                </p>
+                <p className="text-sm text-gray-400">
+                  {session.ipAddress ?? 'IP sconosciuto'}
+                  {' · ultimo utilizzo '}{new Date(session.lastUsedAt).toLocaleString('it-IT')}
+                </p>
+                <p className="text-xs text-gray-500">Accesso del {new Date(session.createdAt).toLocaleDateString('it-IT')}</p>
+              </div>
+              {!session.current && (
+                <Button size="sm" variant="ghost" disabled={isWorking} onClick={() => { void handleRevoke(session) }} className="text-danger-400 hover:bg-danger-500/10">
+                  Revoca
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
 export function Profile({ onNavigate }: ProfileProps) {
   const { confirm: confirmDialog } = useConfirmDialog()
   const [profile, setProfile] = useState<UserProfile | null>(null)
@@ -203,6 +454,7 @@ export function Profile({ onNavigate }: ProfileProps) {
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
   const [photoPreview, setPhotoPreview] = useState<string | null>(null)
+  const [isSendingVerification, setIsSendingVerification] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   // Password change state
@@ -292,6 +544,19 @@ export function Profile({ onNavigate }: ProfileProps) {
     setIsSaving(false)
   }
 
+  async function handleResendVerification() {
+    setIsSendingVerification(true)
+    setError('')
+    setSuccess('')
+    const result = await authApi.resendVerification()
+    if (result.success) {
+      setSuccess(result.message || 'Email di verifica inviata')
+    } else {
+      setError(result.message || 'Errore nell\'invio dell\'email di verifica')
+    }
+    setIsSendingVerification(false)
+  }
+
   async function handleChangePassword(e: FormEvent) {
     e.preventDefault()
     setPasswordError('')
@@ -420,8 +685,32 @@ export function Profile({ onNavigate }: ProfileProps) {
                   <p className="text-lg font-semibold text-white">{profile?.username}</p>
                 </div>
                 <div className="bg-surface-300 rounded-lg p-4">
-                  <p className="text-sm text-gray-400 mb-1">Email</p>
+                  <div className="flex items-center justify-between mb-1">
+                    <p className="text-sm text-gray-400">Email</p>
+                    {profile && (
+                      profile.emailVerified ? (
+                        <span className="text-xs font-medium text-secondary-400">Verificata</span>
+                      ) : (
+                        <span className="text-xs font-medium text-warning-400">Non verificata</span>
+                      )
+                    )}
+                  </div>
                   <p className="text-lg font-semibold text-white">{profile?.email}</p>
+                  {profile && !profile.emailVerified && (
+                    <div className="mt-3 flex items-center justify-between gap-3">
+                      <p className="text-xs text-gray-500">
+                        Alcune leghe richiedono un'email verificata per entrare.
+                      </p>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => { void handleResendVerification() }}
+                        disabled={isSendingVerification}
+                      >
+                        {isSendingVerification ? 'Invio...' : 'Invia link di verifica'}
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -506,6 +795,12 @@ export function Profile({ onNavigate }: ProfileProps) {
               )}
             </div>
 
+            {/* Two-factor authentication */}
+            <TwoFactorSettings />
+
+            {/* Active sessions and devices */}
+            <ActiveSessions />
+
             {/* Notification Preferences (MOB-016) */}
             <NotificationPreferences />
 
@@ -32,6 +32,7 @@ import { PendingAckBanner } from '../components/rubata/PendingAckBanner'
 import { CircularTimer } from '../components/rubata/CircularTimer'
 import { RubataBidPanel } from '../components/rubata/RubataBidPanel'
 import { RubataActivityFeed } from '../components/rubata/RubataActivityFeed'
+import { SessionChat } from '../components/chat/SessionChat'
 import { RubataStrategySummary } from '../components/rubata/RubataStrategySummary'
 import { BoardRow } from '../components/rubata/BoardRow'
 import { BoardRowSkeleton } from '../components/rubata/BoardRowSkeleton'
@@ -607,6 +608,7 @@ export function Rubata({ leagueId, onNavigate }: RubataProps) {
                         onBid={() => void handleBid()}
                         myBudget={boardData?.memberBudgets?.find(mb => mb.memberId === myMemberId)?.residuo}
                         myMaxBid={preferencesMap.get(activeAuction.player.id)?.maxBid}
+                        leagueId={leagueId}
                       />
                     </div>
                   )}
@@ -769,6 +771,9 @@ export function Rubata({ leagueId, onNavigate }: RubataProps) {
                 <RubataActivityFeed board={board ?? null} />
               </div>
 
+              {/* Chat di sessione */}
+              <SessionChat sessionId={boardData?.sessionId} />
+
               {/* Strategy Summary — desktop in action zone */}
               <div className="hidden lg:block">
                 <RubataStrategySummary
@@ -1255,6 +1260,7 @@ export function Rubata({ leagueId, onNavigate }: RubataProps) {
               onBid={() => { void handleBid(); setBidSheetOpen(false); }}
               myBudget={boardData?.memberBudgets?.find(mb => mb.memberId === myMemberId)?.residuo}
               myMaxBid={preferencesMap.get(activeAuction.player.id)?.maxBid}
+              leagueId={leagueId}
             />
           </div>
         </BottomSheet>
@@ -1,5 +1,14 @@
-import { useNavigate } from 'react-router-dom'
+import { useState, useEffect } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 import { useAuth } from '../hooks/useAuth'
+import { leagueApi } from '../services/api'
+import {
+  DEFAULT_CONTRACT_RULESET,
+  describeReleaseCostFormula,
+  getClauseMultiplier,
+  getReleaseCost,
+  type ContractRuleset,
+} from '../utils/contract-rules'
 
 // Table of contents items
 const TOC_ITEMS = [
@@ -65,7 +74,28 @@ function InfoBox({ type, children }: { type: 'info' | 'warning' | 'success'; chi
 
 export function Rules() {
   const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
   const { isAuthenticated } = useAuth()
+  const leagueId = searchParams.get('leagueId')
+  const [rules, setRules] = useState<ContractRuleset>(DEFAULT_CONTRACT_RULESET)
+  const [isLeagueRules, setIsLeagueRules] = useState(false)
+
+  // Con ?leagueId= mostra le regole contrattuali effettive della lega
+  useEffect(() => {
+    if (!leagueId || !isAuthenticated) return
+    void leagueApi.getContractRules(leagueId).then(res => {
+      if (res.success && res.data) {
+        setRules(res.data.rules)
+        setIsLeagueRules(true)
+      }
+    })
+  }, [leagueId, isAuthenticated])
+
+  const multipliers = Array.from({ length: rules.maxDuration }, (_, i) => rules.maxDuration - i)
+    .map(duration => ({ duration, multiplier: getClauseMultiplier(duration, rules) }))
+  const exampleDuration = Math.min(3, rules.maxDuration)
+  const exampleClause = 20 * getClauseMultiplier(exampleDuration, rules)
+  const releaseFormula = describeReleaseCostFormula(rules)
 
   const handleBack = () => {
     if (isAuthenticated) {
@@ -187,7 +217,7 @@ export function Rules() {
               <InfoBox type="info">
                 <strong>Caratteristiche principali:</strong>
                 <ul className="list-disc ml-5 mt-2 space-y-1">
-                  <li>Contratti a durata (1-4 semestri)</li>
+                  <li>Contratti a durata (1-{rules.maxDuration} semestri)</li>
                   <li>Clausola rescissoria calcolata automaticamente</li>
                   <li>Mercati strutturati con fasi definite</li>
                   <li>Aste in tempo reale</li>
@@ -342,7 +372,7 @@ export function Rules() {
                     <h5 className="font-semibold text-secondary-400 mb-2">Rinnovo Standard</h5>
                     <ul className="list-disc ml-5 space-y-1 text-sm text-gray-300">
                       <li>Puoi aumentare o mantenere l'ingaggio</li>
-                      <li>Puoi aumentare o mantenere la durata (max 4 semestri)</li>
+                      <li>Puoi aumentare o mantenere la durata (max {rules.maxDuration} semestri)</li>
                       <li>La clausola viene ricalcolata automaticamente</li>
                     </ul>
                   </div>
@@ -360,8 +390,8 @@ export function Rules() {
                     <h5 className="font-semibold text-danger-400 mb-2">Taglia (Rilascio)</h5>
                     <ul className="list-disc ml-5 space-y-1 text-sm text-gray-300">
                       <li>Puoi liberare un giocatore pagando una penale</li>
-                      <li><strong>Costo taglio:</strong> (Ingaggio × Durata residua) / 2</li>
-                      <li>Esempio: 8M×2s → costo = (8×2)/2 = 8M</li>
+                      <li><strong>Costo taglio:</strong> {releaseFormula}</li>
+                      <li>Esempio: 8M×2s → costo = {getReleaseCost(8, 2, rules)}M</li>
                       <li>Il giocatore va agli svincolati</li>
                     </ul>
                   </div>
@@ -458,7 +488,7 @@ export function Rules() {
                     </tr>
                     <tr className="border-b border-surface-50/10">
                       <td className="py-3 px-4 font-medium text-white">Durata</td>
-                      <td className="py-3 px-4">Semestri rimanenti (da 1 a 4)</td>
+                      <td className="py-3 px-4">Semestri rimanenti (da 1 a {rules.maxDuration})</td>
                     </tr>
                     <tr className="border-b border-surface-50/10">
                       <td className="py-3 px-4 font-medium text-white">Clausola</td>
@@ -470,15 +500,11 @@ export function Rules() {
 
               <h3 className="text-lg font-semibold text-white mt-8 mb-4">Moltiplicatori Clausola</h3>
               <p className="text-gray-300 mb-4">
-                La clausola rescissoria viene calcolata automaticamente in base alla durata:
+                La clausola rescissoria viene calcolata automaticamente in base alla durata
+                {isLeagueRules ? ' (valori della tua lega)' : ''}:
               </p>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
-                {[
-                  { duration: 4, multiplier: 11 },
-                  { duration: 3, multiplier: 9 },
-                  { duration: 2, multiplier: 7 },
-                  { duration: 1, multiplier: 4 },
-                ].map(({ duration, multiplier }) => (
+                {multipliers.map(({ duration, multiplier }) => (
                   <div key={duration} className="bg-surface-300/50 rounded-lg p-4 text-center">
                     <div className="text-2xl font-bold text-primary-400">×{multiplier}</div>
                     <div className="text-sm text-gray-400">{duration} semestri</div>
@@ -487,9 +513,9 @@ export function Rules() {
               </div>
 
               <Example title="Calcolo clausola">
-                <p>Giocatore con ingaggio 20M e durata 3 semestri:</p>
-                <p className="mt-2 font-mono text-primary-400">Clausola = 20 × 9 = 180M</p>
-                <p className="mt-2">Prezzo base per la rubata: 180M + 20M = <strong>200M</strong></p>
+                <p>Giocatore con ingaggio 20M e durata {exampleDuration} semestri:</p>
+                <p className="mt-2 font-mono text-primary-400">Clausola = 20 × {getClauseMultiplier(exampleDuration, rules)} = {exampleClause}M</p>
+                <p className="mt-2">Prezzo base per la rubata: {exampleClause}M + 20M = <strong>{exampleClause + 20}M</strong></p>
               </Example>
 
               <h3 className="text-lg font-semibold text-white mt-8 mb-4">Strategia Contratti</h3>
@@ -561,7 +587,7 @@ export function Rules() {
                   },
                   {
                     q: 'Quanto costa tagliare un giocatore?',
-                    a: 'Il costo del taglio è pari alla metà del valore contrattuale residuo: (Ingaggio × Durata residua) / 2.'
+                    a: `Il costo del taglio è pari al ${rules.releaseCostPercent}% del valore contrattuale residuo: ${releaseFormula}.`
                   },
                   {
                     q: 'Posso scambiare un giocatore appena ricevuto in scambio?',
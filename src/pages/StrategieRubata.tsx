@@ -13,11 +13,14 @@ const WATCHLIST_CATEGORIES = {
 } as const
 type WatchlistCategoryId = keyof typeof WATCHLIST_CATEGORIES
 import { Navigation } from '../components/Navigation'
+import { WatchlistButton } from '../components/watchlist/WatchlistButton'
+import { useWatchlist } from '../hooks/useWatchlist'
 import { getTeamLogo } from '../utils/teamLogos'
 import { getPlayerPhotoUrl } from '../utils/player-images'
 import { POSITION_COLORS } from '../components/ui/PositionBadge'
 import { PlayerStatsModal, type PlayerInfo, type PlayerStats, type ComputedSeasonStats } from '../components/PlayerStatsModal'
 import RadarChart from '../components/ui/RadarChart'
+import { QuotationMovers } from '../components/QuotationMovers'
 
 // Player colors for radar chart comparison
 const PLAYER_CHART_COLORS = ['#3b82f6', '#ef4444', '#22c55e', '#a855f7']
@@ -176,6 +179,7 @@ interface LocalStrategy {
 
 export function StrategieRubata({ onNavigate }: { onNavigate: (page: string) => void }) {
   const { leagueId } = useParams<{ leagueId: string }>()
+  const watchlist = useWatchlist(leagueId)
 
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
@@ -1137,6 +1141,14 @@ export function StrategieRubata({ onNavigate }: { onNavigate: (page: string) =>
                       )
                     })()}
                   </div>
+
+                  {/* Quotation movers in the league's rosters */}
+                  {leagueId && (
+                    <div className="rounded-xl border border-surface-50/20 bg-surface-300/30 p-4">
+                      <h3 className="font-semibold text-base text-white mb-3">Variazioni Quotazioni</h3>
+                      <QuotationMovers leagueId={leagueId} />
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -1191,6 +1203,7 @@ export function StrategieRubata({ onNavigate }: { onNavigate: (page: string) =>
                         <div className="flex-1 min-w-0">
                           <button
                             onClick={() => { setSelectedPlayerStats({
+                              playerId: player.playerId,
                               name: player.playerName,
                               team: player.playerTeam,
                               position: player.playerPosition,
@@ -1203,6 +1216,12 @@ export function StrategieRubata({ onNavigate }: { onNavigate: (page: string) =>
                           >
                             {player.playerName}
                           </button>
+                          <WatchlistButton
+                            playerId={player.playerId}
+                            playerName={player.playerName}
+                            watchlist={watchlist}
+                            className="ml-1.5 align-middle"
+                          />
                           {/* Auto-tags #220 */}
                           {player.playerAutoTags && player.playerAutoTags.length > 0 && (
                             <div className="flex flex-wrap gap-1 mt-0.5">
@@ -1464,6 +1483,7 @@ export function StrategieRubata({ onNavigate }: { onNavigate: (page: string) =>
                               <div className="min-w-0">
                                 <button
                                   onClick={() => { setSelectedPlayerStats({
+                                    playerId: player.playerId,
                                     name: player.playerName,
                                     team: player.playerTeam,
                                     position: player.playerPosition,
@@ -1476,6 +1496,12 @@ export function StrategieRubata({ onNavigate }: { onNavigate: (page: string) =>
                                 >
                                   {player.playerName}
                                 </button>
+                                <WatchlistButton
+                                  playerId={player.playerId}
+                                  playerName={player.playerName}
+                                  watchlist={watchlist}
+                                  className="ml-1.5 align-middle"
+                                />
                                 {/* Auto-tags #220 */}
                                 {player.playerAutoTags && player.playerAutoTags.length > 0 && (
                                   <div className="flex flex-wrap gap-1 mt-0.5">
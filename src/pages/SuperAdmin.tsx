@@ -6,6 +6,9 @@ import { Card } from '../components/ui/Card'
 import { Navigation } from '../components/Navigation'
 import { getTeamLogo } from '../utils/teamLogos'
 import { POSITION_GRADIENTS } from '../components/ui/PositionBadge'
+import { QuotationMovers } from '../components/QuotationMovers'
+import { EXIT_PROPOSAL_CONFIDENT } from '../utils/exit-classifier'
+import type { ExitClassificationProposal } from '../utils/exit-classifier'
 
 interface SuperAdminProps {
   onNavigate: (page: string, params?: Record<string, string>) => void
@@ -120,10 +123,35 @@ interface UploadRecord {
   totalProcessed: number
   errors: string[] | null
   createdAt: string
+  rolledBackAt: string | null
   uploadedBy: {
     id: string
     username: string
   }
+  rolledBackBy: { username: string } | null
+}
+
+// Dry-run of the quotazioni import, reviewed before committing
+interface ImportPreview {
+  newPlayers: Array<{ name: string; team: string; position: string; quotation: number }>
+  changedPlayers: Array<{
+    playerId: string
+    name: string
+    position: string
+    changes: Partial<Record<'name' | 'team' | 'position' | 'quotation' | 'listStatus', { from: string | number; to: string | number }>>
+  }>
+  notInListPlayers: Array<{ playerId: string; name: string; team: string; position: string; quotation: number; activeContracts: number }>
+  unchangedCount: number
+  errors?: string[]
+  totalProcessed: number
+}
+
+const DIFF_FIELD_LABELS: Record<string, string> = {
+  name: 'Nome',
+  team: 'Squadra',
+  position: 'Ruolo',
+  quotation: 'Quot.',
+  listStatus: 'Lista',
 }
 
 interface ExitedPlayerInfo {
@@ -151,6 +179,21 @@ const EXIT_REASON_COLORS: Record<ExitReason, string> = {
 }
 
 
+function ExitProposalHint({ proposal }: { proposal: ExitClassificationProposal }) {
+  return (
+    <div className="mt-3 pt-3 border-t border-surface-50/10 flex items-start gap-3 text-xs">
+      {proposal.exitReason ? (
+        <span className={`px-2 py-0.5 rounded border font-medium whitespace-nowrap ${EXIT_REASON_COLORS[proposal.exitReason]}`}>
+          {proposal.exitReason} · {proposal.confidence}%
+        </span>
+      ) : (
+        <span className="px-2 py-0.5 rounded border border-surface-50/20 text-gray-500 whitespace-nowrap">Nessuna proposta</span>
+      )}
+      <span className="text-gray-400">{proposal.evidence.join(' · ')}</span>
+    </div>
+  )
+}
+
 const POSITION_NAMES: Record<string, string> = {
   P: 'Portieri',
   D: 'Difensori',
@@ -174,6 +217,11 @@ export function SuperAdmin({ onNavigate, initialTab }: SuperAdminProps) {
   const [deleting, setDeleting] = useState(false)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [importResult, setImportResult] = useState<{ success: boolean; message: string; data?: unknown } | null>(null)
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null)
+  const [previewing, setPreviewing] = useState(false)
+  const [rollbackUploadId, setRollbackUploadId] = useState<string | null>(null)
+  const [showRollbackConfirm, setShowRollbackConfirm] = useState(false)
+  const [rollingBack, setRollingBack] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   // Upload history state
@@ -282,6 +330,10 @@ export function SuperAdmin({ onNavigate, initialTab }: SuperAdminProps) {
   const [classificationStep, setClassificationStep] = useState<'edit' | 'confirm' | 'success'>('edit')
   const [submittedClassifications, setSubmittedClassifications] = useState<Array<{ player: ExitedPlayerInfo; reason: ExitReason }>>([])
   const [classifiedCount, setClassifiedCount] = useState(0)
+  // Proposte automatiche (club attuale da API-Football + lista quotazioni)
+  const [exitProposals, setExitProposals] = useState<Record<string, ExitClassificationProposal>>({})
+  const [loadingProposals, setLoadingProposals] = useState(false)
+  const [proposalsMessage, setProposalsMessage] = useState<string | null>(null)
 
   useEffect(() => {
     void loadStatus()
@@ -500,7 +552,9 @@ export function SuperAdmin({ onNavigate, initialTab }: SuperAdminProps) {
     setHistoryLoading(true)
     const result = await superadminApi.getUploadHistory()
     if (result.success && result.data) {
-      setUploadHistory((result.data as { uploads: UploadRecord[] }).uploads)
+      const data = result.data as { uploads: UploadRecord[]; rollbackUploadId: string | null }
+      setUploadHistory(data.uploads)
+      setRollbackUploadId(data.rollbackUploadId)
     }
     setHistoryLoading(false)
   }
@@ -589,6 +643,42 @@ export function SuperAdmin({ onNavigate, initialTab }: SuperAdminProps) {
     setClassificationResult(null)
     setClassificationStep('edit')
     setSubmittedClassifications([])
+    void loadExitProposals(false)
+  }
+
+  // lookup = cerca il club attuale su API-Football (consuma quota), altrimenti usa la cache
+  async function loadExitProposals(lookup: boolean) {
+    setLoadingProposals(true)
+    setProposalsMessage(null)
+    const result = await superadminApi.getExitProposals(lookup)
+    if (result.success && result.data) {
+      const byPlayer: Record<string, ExitClassificationProposal> = {}
+      for (const proposal of result.data.proposals) {
+        byPlayer[proposal.playerId] = proposal
+      }
+      setExitProposals(byPlayer)
+      applyExitProposals(result.data.proposals, EXIT_PROPOSAL_CONFIDENT)
+      if (result.data.skipped > 0) {
+        setProposalsMessage(`${result.data.skipped} giocatori non cercati: quota API-Football esaurita`)
+      } else if (result.message) {
+        setProposalsMessage(result.message)
+      }
+    } else {
+      setProposalsMessage(result.message || 'Errore nel calcolo delle proposte')
+    }
+    setLoadingProposals(false)
+  }
+
+  function applyExitProposals(proposals: ExitClassificationProposal[], minConfidence: number) {
+    setClassifications(prev => {
+      const next = { ...prev }
+      for (const proposal of proposals) {
+        if (proposal.exitReason && proposal.confidence >= minConfidence) {
+          next[proposal.playerId] = proposal.exitReason
+        }
+      }
+      return next
+    })
   }
 
   function closeClassificationModal() {
@@ -654,6 +744,54 @@ export function SuperAdmin({ onNavigate, initialTab }: SuperAdminProps) {
     setClassifyingPlayers(false)
   }
 
+  async function handlePreviewImport() {
+    const file = fileInputRef.current?.files?.[0]
+    if (!file) {
+      setImportResult({ success: false, message: 'Seleziona un file .xlsx' })
+      return
+    }
+
+    setPreviewing(true)
+    setImportResult(null)
+    setImportPreview(null)
+
+    try {
+      const result = await superadminApi.importQuotazioni(file, sheetName, true)
+      if (result.success && result.data) {
+        setImportPreview(result.data as ImportPreview)
+      } else {
+        setImportResult({ success: false, message: result.message || 'Errore sconosciuto' })
+      }
+    } catch (_error) {
+      setImportResult({ success: false, message: 'Errore durante l\'analisi del file' })
+    }
+
+    setPreviewing(false)
+  }
+
+  async function handleRollback() {
+    setRollingBack(true)
+    setImportResult(null)
+
+    try {
+      const result = await superadminApi.rollbackLastUpload()
+      setImportResult({
+        success: result.success,
+        message: result.message || 'Errore sconosciuto',
+      })
+      if (result.success) {
+        void loadStats()
+        void loadUploadHistory()
+        void loadPlayersNeedingClassification()
+      }
+    } catch (_error) {
+      setImportResult({ success: false, message: 'Errore durante il rollback' })
+    }
+
+    setShowRollbackConfirm(false)
+    setRollingBack(false)
+  }
+
   async function handleFileUpload() {
     const file = fileInputRef.current?.files?.[0]
     if (!file) {
@@ -663,6 +801,7 @@ export function SuperAdmin({ onNavigate, initialTab }: SuperAdminProps) {
 
     setImporting(true)
     setImportResult(null)
+    setImportPreview(null)
 
     try {
       const result = await superadminApi.importQuotazioni(file, sheetName)
@@ -867,6 +1006,7 @@ export function SuperAdmin({ onNavigate, initialTab }: SuperAdminProps) {
                     type="file"
                     ref={fileInputRef}
                     accept=".xlsx"
+                    onChange={() => { setImportPreview(null); }}
                     className="block w-full text-sm text-gray-400
                       file:mr-4 file:py-2 file:px-4
                       file:rounded-lg file:border-0
@@ -879,11 +1019,11 @@ export function SuperAdmin({ onNavigate, initialTab }: SuperAdminProps) {
 
                 <div className="flex gap-3">
                   <Button
-                    onClick={() => void handleFileUpload()}
-                    disabled={importing || deleting}
+                    onClick={() => void handlePreviewImport()}
+                    disabled={importing || previewing || deleting}
                     className="btn-primary"
                   >
-                    {importing ? 'Importazione in corso...' : 'Importa Quotazioni'}
+                    {previewing ? 'Analisi in corso...' : importing ? 'Importazione in corso...' : 'Importa Quotazioni'}
                   </Button>
                   <Button
                     onClick={() => { setShowDeleteConfirm(true); }}
@@ -931,6 +1071,96 @@ export function SuperAdmin({ onNavigate, initialTab }: SuperAdminProps) {
                   </div>
                 )}
 
+                {/* Dry-run diff, committed only after confirmation */}
+                {importPreview && (
+                  <div className="p-4 rounded-lg bg-surface-300 border border-primary-500/30 space-y-4">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <div>
+                        <h3 className="font-bold text-white">Anteprima Import</h3>
+                        <p className="text-xs text-gray-400">
+                          {importPreview.totalProcessed} righe · {importPreview.unchangedCount} giocatori invariati
+                        </p>
+                      </div>
+                      <div className="flex gap-2 text-sm">
+                        <span className="px-2 py-1 rounded bg-secondary-500/20 text-secondary-400">+{importPreview.newPlayers.length} nuovi</span>
+                        <span className="px-2 py-1 rounded bg-primary-500/20 text-primary-400">{importPreview.changedPlayers.length} modificati</span>
+                        <span className="px-2 py-1 rounded bg-warning-500/20 text-warning-400">{importPreview.notInListPlayers.length} fuori lista</span>
+                      </div>
+                    </div>
+
+                    {importPreview.notInListPlayers.length > 0 && (
+                      <div>
+                        <h4 className="text-sm font-semibold text-warning-400 mb-2">Usciranno dalla lista</h4>
+                        <div className="max-h-48 overflow-y-auto space-y-1">
+                          {importPreview.notInListPlayers.map(p => (
+                            <div key={p.playerId} className="flex items-center justify-between text-sm bg-surface-200 rounded px-3 py-1.5">
+                              <span className="text-white">
+                                <span className="text-gray-500 text-xs mr-2">{p.position}</span>
+                                {p.name} <span className="text-gray-500">({p.team}, {p.quotation})</span>
+                              </span>
+                              {p.activeContracts > 0 && (
+                                <span className="text-xs text-warning-400">
+                                  {p.activeContracts} {p.activeContracts === 1 ? 'contratto' : 'contratti'} · da classificare
+                                </span>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {importPreview.changedPlayers.length > 0 && (
+                      <div>
+                        <h4 className="text-sm font-semibold text-primary-400 mb-2">Modificati</h4>
+                        <div className="max-h-48 overflow-y-auto space-y-1">
+                          {importPreview.changedPlayers.map(p => (
+                            <div key={p.playerId} className="flex flex-wrap items-center justify-between gap-2 text-sm bg-surface-200 rounded px-3 py-1.5">
+                              <span className="text-white">
+                                <span className="text-gray-500 text-xs mr-2">{p.position}</span>
+                                {p.name}
+                              </span>
+                              <span className="flex flex-wrap gap-3 text-xs text-gray-400">
+                                {Object.entries(p.changes).map(([field, change]) => (
+                                  <span key={field}>
+                                    {DIFF_FIELD_LABELS[field] ?? field}: {change.from} → <span className="text-white">{change.to}</span>
+                                  </span>
+                                ))}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {importPreview.newPlayers.length > 0 && (
+                      <div>
+                        <h4 className="text-sm font-semibold text-secondary-400 mb-2">Nuovi giocatori</h4>
+                        <div className="max-h-48 overflow-y-auto space-y-1">
+                          {importPreview.newPlayers.map(p => (
+                            <div key={`${p.name}|${p.position}`} className="text-sm bg-surface-200 rounded px-3 py-1.5 text-white">
+                              <span className="text-gray-500 text-xs mr-2">{p.position}</span>
+                              {p.name} <span className="text-gray-500">({p.team}, {p.quotation})</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {importPreview.errors && importPreview.errors.length > 0 && (
+                      <p className="text-xs text-danger-400">{importPreview.errors.length} righe scartate: {importPreview.errors.join('; ')}</p>
+                    )}
+
+                    <div className="flex gap-3">
+                      <Button onClick={() => void handleFileUpload()} disabled={importing} className="btn-primary">
+                        {importing ? 'Importazione in corso...' : 'Conferma Import'}
+                      </Button>
+                      <Button variant="outline" onClick={() => { setImportPreview(null); }} disabled={importing}>
+                        Annulla
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
                 {importResult && (
                   <div className={`p-4 rounded-lg ${importResult.success ? 'bg-secondary-500/20 border border-secondary-500/50 text-secondary-400' : 'bg-danger-500/20 border border-danger-500/50 text-danger-400'}`}>
                     <p className="font-medium">{importResult.message}</p>
@@ -944,6 +1174,12 @@ export function SuperAdmin({ onNavigate, initialTab }: SuperAdminProps) {
               </div>
             </Card>
 
+            {/* Quotation Movers */}
+            <Card className="p-6">
+              <h2 className="text-lg font-bold text-white mb-4">Variazioni Quotazioni</h2>
+              <QuotationMovers key={uploadHistory[0]?.id ?? 'none'} />
+            </Card>
+
             {/* Upload History */}
             <Card className="p-6">
               <h2 className="text-lg font-bold text-white mb-4">Storico Caricamenti</h2>
@@ -962,15 +1198,22 @@ export function SuperAdmin({ onNavigate, initialTab }: SuperAdminProps) {
                             Foglio: {upload.sheetName} · Caricato da {upload.uploadedBy.username}
                           </p>
                         </div>
-                        <p className="text-xs text-gray-500">
-                          {new Date(upload.createdAt).toLocaleString('it-IT', {
-                            day: '2-digit',
-                            month: '2-digit',
-                            year: 'numeric',
-                            hour: '2-digit',
-                            minute: '2-digit'
-                          })}
-                        </p>
+                        <div className="text-right">
+                          <p className="text-xs text-gray-500">
+                            {new Date(upload.createdAt).toLocaleString('it-IT', {
+                              day: '2-digit',
+                              month: '2-digit',
+                              year: 'numeric',
+                              hour: '2-digit',
+                              minute: '2-digit'
+                            })}
+                          </p>
+                          {upload.rolledBackAt && (
+                            <span className="inline-block mt-1 px-2 py-0.5 rounded text-xs bg-danger-500/20 text-danger-400">
+                              Annullato{upload.rolledBackBy ? ` da ${upload.rolledBackBy.username}` : ''}
+                            </span>
+                          )}
+                        </div>
                       </div>
                       <div className="flex gap-4 text-sm">
                         <span className="text-secondary-400">
@@ -991,6 +1234,38 @@ export function SuperAdmin({ onNavigate, initialTab }: SuperAdminProps) {
                           {upload.errors.length} errori durante l'import
                         </div>
                       )}
+                      {upload.id === rollbackUploadId && (
+                        <div className="mt-3 flex items-center gap-3">
+                          {showRollbackConfirm ? (
+                            <>
+                              <span className="text-xs text-warning-400">
+                                I giocatori torneranno ai valori precedenti a questo caricamento.
+                              </span>
+                              <Button
+                                size="sm"
+                                className="bg-danger-500 hover:bg-danger-600"
+                                onClick={() => void handleRollback()}
+                                disabled={rollingBack}
+                              >
+                                {rollingBack ? 'Ripristino...' : 'Conferma'}
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => { setShowRollbackConfirm(false); }} disabled={rollingBack}>
+                                Annulla
+                              </Button>
+                            </>
+                          ) : (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="border-danger-500/50 text-danger-400 hover:bg-danger-500/20"
+                              onClick={() => { setShowRollbackConfirm(true); }}
+                              disabled={importing}
+                            >
+                              Annulla caricamento
+                            </Button>
+                          )}
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -2019,6 +2294,33 @@ export function SuperAdmin({ onNavigate, initialTab }: SuperAdminProps) {
                     </div>
                   </div>
 
+                  {/* Automatic proposals */}
+                  <div className="bg-surface-300 rounded-lg p-4 mb-6 flex items-center justify-between flex-wrap gap-3">
+                    <div>
+                      <h3 className="text-sm font-bold text-gray-400 uppercase">Proposte automatiche</h3>
+                      <p className="text-xs text-gray-500">
+                        {proposalsMessage ?? `Le proposte con affidabilità ≥ ${EXIT_PROPOSAL_CONFIDENT}% sono già applicate`}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => { applyExitProposals(Object.values(exitProposals), 0); }}
+                        disabled={loadingProposals || Object.keys(exitProposals).length === 0}
+                      >
+                        Applica tutte le proposte
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => void loadExitProposals(true)}
+                        disabled={loadingProposals}
+                      >
+                        {loadingProposals ? 'Ricerca...' : 'Cerca club su API-Football'}
+                      </Button>
+                    </div>
+                  </div>
+
                   {/* Players List */}
                   <div className="space-y-3">
                     {playersNeedingClassification.map((player) => (
@@ -2060,6 +2362,9 @@ export function SuperAdmin({ onNavigate, initialTab }: SuperAdminProps) {
                             </select>
                           </div>
                         </div>
+                        {exitProposals[player.playerId] && (
+                          <ExitProposalHint proposal={exitProposals[player.playerId]!} />
+                        )}
                       </div>
                     ))}
                   </div>
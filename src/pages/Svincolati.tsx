@@ -5,6 +5,10 @@ import { Navigation } from '../components/Navigation'
 import { getTeamLogo } from '../utils/teamLogos'
 
 import { ContractModifierModal } from '../components/ContractModifier'
+import { SessionChat } from '../components/chat/SessionChat'
+import { WatchlistButton } from '../components/watchlist/WatchlistButton'
+import { ProxyBidControl } from '../components/auction/ProxyBidControl'
+import { useWatchlist } from '../hooks/useWatchlist'
 import { useSvincolatiState } from '../hooks/useSvincolatiState'
 import { POSITION_COLORS, POSITION_BG, SERIE_A_TEAMS } from '../types/svincolati.types'
 import type { SvincolatiProps, TurnMember } from '../types/svincolati.types'
@@ -93,6 +97,7 @@ export function Svincolati({ leagueId, onNavigate }: SvincolatiProps) {
     handleBotNominate, handleBotConfirmNomination, handleBotBid,
     setError, loadBoard,
   } = useSvincolatiState(leagueId)
+  const watchlist = useWatchlist(leagueId)
 
   const sensors = useSensors(
     useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
@@ -335,12 +340,13 @@ export function Svincolati({ leagueId, onNavigate }: SvincolatiProps) {
                     <th className="text-left py-3 px-4 w-12">R</th>
                     <th className="text-left py-3 px-4">Giocatore</th>
                     <th className="text-left py-3 px-4 hidden sm:table-cell">Squadra</th>
+                    <th className="text-center py-3 px-4 w-12" title="Watchlist">★</th>
                   </tr>
                 </thead>
                 <tbody>
                   {freeAgents.length === 0 ? (
                     <tr>
-                      <td colSpan={3} className="text-center py-8 text-gray-500">
+                      <td colSpan={4} className="text-center py-8 text-gray-500">
                         Nessun giocatore trovato con i filtri selezionati
                       </td>
                     </tr>
@@ -368,6 +374,13 @@ export function Svincolati({ leagueId, onNavigate }: SvincolatiProps) {
                             <span className="text-gray-400">{player.team}</span>
                           </div>
                         </td>
+                        <td className="py-2 px-4 text-center">
+                          <WatchlistButton
+                            playerId={player.id}
+                            playerName={player.name}
+                            watchlist={watchlist}
+                          />
+                        </td>
                       </tr>
                     ))
                   )}
@@ -931,6 +944,16 @@ export function Svincolati({ leagueId, onNavigate }: SvincolatiProps) {
                       </Button>
                     </div>
 
+                    {/* Proxy bid: rilanci automatici fino al tetto */}
+                    {!board.isFinished && (
+                      <ProxyBidControl
+                        leagueId={leagueId}
+                        playerId={board.activeAuction.player.id}
+                        currentPrice={board.activeAuction.currentPrice}
+                        disabled={isTimerExpired}
+                      />
+                    )}
+
                     {/* Budget reminder */}
                     <div className="flex items-center justify-between text-xs text-gray-400">
                       <span>Il tuo budget:</span>
@@ -1127,6 +1150,9 @@ export function Svincolati({ leagueId, onNavigate }: SvincolatiProps) {
                 </div>
               )}
             </div>
+
+            {/* Chat di sessione */}
+            <SessionChat sessionId={board?.sessionId} />
           </div>
         </div>
       </main>
@@ -7,14 +7,15 @@ import { Navigation } from '../components/Navigation'
 import { ContractModifierModal } from '../components/ContractModifier'
 import { EmptyState } from '../components/ui/EmptyState'
 import { BottomSheet } from '../components/ui/BottomSheet'
-import { DealFinanceBar, DealRosterPanel, DealTable, DealMobileFooter } from '../components/trades/deal-room'
+import { DealFinanceBar, DealRosterPanel, DealTable, DealMobileFooter, MultiPartyDealBuilder, MultiPartyTradeCard } from '../components/trades/deal-room'
+import type { MultiPartyDealSubmit } from '../components/trades/deal-room'
 import { PlayerStatsModal, type PlayerInfo } from '../components/PlayerStatsModal'
 import { useToast } from '@/components/ui/Toast'
 import { Tabs } from '@/components/ui/Tabs'
 import haptic from '../utils/haptics'
 import type { FinancialsData, TeamData } from '../components/finance/types'
 import {
-  type TradeOffer, type LeagueMember, type RosterEntry, type MarketSession,
+  type TradeOffer, type LeagueMember, type RosterEntry, type MarketSession, type MultiPartyTrade,
   getTimeRemaining,
   PlayersTable,
   CounterOfferModal,
@@ -58,6 +59,9 @@ export function Trades({ leagueId, onNavigate, highlightOfferId }: TradesProps)
   const [selectedRequestedPlayers, setSelectedRequestedPlayers] = useState<string[]>([])
   const [offeredBudget, setOfferedBudget] = useState(0)
   const [requestedBudget, setRequestedBudget] = useState(0)
+  const [deferredOfferedBudget, setDeferredOfferedBudget] = useState(0)
+  const [deferredRequestedBudget, setDeferredRequestedBudget] = useState(0)
+  const [contractTerms, setContractTerms] = useState<Record<string, { salary: number; duration: number }>>({})
   const [message, setMessage] = useState('')
   const [offerDuration, setOfferDuration] = useState(24)
   const [isSubmitting, setIsSubmitting] = useState(false)
@@ -80,6 +84,12 @@ export function Trades({ leagueId, onNavigate, highlightOfferId }: TradesProps)
   // Counter offer modal
   const [counterOffer, setCounterOffer] = useState<TradeOffer | null>(null)
 
+  // Multi-party trades (3+ managers)
+  const [createMode, setCreateMode] = useState<'pair' | 'multi'>('pair')
+  const [myMemberId, setMyMemberId] = useState('')
+  const [multiPartyTrades, setMultiPartyTrades] = useState<MultiPartyTrade[]>([])
+  const [multiPartyCounter, setMultiPartyCounter] = useState<MultiPartyTrade | null>(null)
+
   // Ongoing trades indicator (anonymized, league-wide, not involving the user)
   const [ongoingTradesCount, setOngoingTradesCount] = useState(0)
 
@@ -135,7 +145,7 @@ export function Trades({ leagueId, onNavigate, highlightOfferId }: TradesProps)
     setLoadError('')
 
     try {
-    const [receivedRes, sentRes, membersRes, rosterRes, sessionsRes, leagueRes, allRostersRes, financialsRes, historyRes, ongoingRes] = await Promise.all([
+    const [receivedRes, sentRes, membersRes, rosterRes, sessionsRes, leagueRes, allRostersRes, financialsRes, historyRes, ongoingRes, multiPartyRes] = await Promise.all([
       tradeApi.getReceived(leagueId),
       tradeApi.getSent(leagueId),
       leagueApi.getMembers(leagueId),
@@ -149,6 +159,9 @@ export function Trades({ leagueId, onNavigate, highlightOfferId }: TradesProps)
       Promise.resolve()
         .then(() => tradeApi.getOngoingIndicator(leagueId))
         .catch((): { success: boolean; data?: unknown } => ({ success: false })),
+      Promise.resolve()
+        .then(() => tradeApi.getMultiParty(leagueId))
+        .catch((): { success: boolean; data?: unknown } => ({ success: false })),
     ])
 
     if (ongoingRes.success && ongoingRes.data) {
@@ -167,9 +180,13 @@ export function Trades({ leagueId, onNavigate, highlightOfferId }: TradesProps)
     if (sentRes.success && sentRes.data) {
       setSentOffers(sentRes.data as TradeOffer[])
     }
+    if (multiPartyRes.success && multiPartyRes.data) {
+      setMultiPartyTrades(multiPartyRes.data as MultiPartyTrade[])
+    }
 
     const rosterData = rosterRes.data as { member?: { id: string, currentBudget: number } } | undefined
     const currentMemberId = rosterData?.member?.id || ''
+    setMyMemberId(currentMemberId)
 
     const financialsMap = new Map<string, { budget: number; annualContractCost: number; slotCount: number }>()
     if (financialsRes.success && financialsRes.data) {
@@ -422,6 +439,14 @@ export function Trades({ leagueId, onNavigate, highlightOfferId }: TradesProps)
   const myPostTradeSalary = myTotalSalary - offeredSalaryTotal + requestedSalaryTotal
 
   const hasTradeSelections = selectedOfferedPlayers.length > 0 || selectedRequestedPlayers.length > 0 || offeredBudget > 0 || requestedBudget > 0
+    || deferredOfferedBudget > 0 || deferredRequestedBudget > 0
+
+  function handleContractTermChange(rosterId: string, term: { salary: number; duration: number } | null) {
+    setContractTerms(prev => {
+      const { [rosterId]: _removed, ...rest } = prev
+      return term ? { ...rest, [rosterId]: term } : rest
+    })
+  }
 
   // Reset form helper
   function resetCreateForm() {
@@ -430,6 +455,9 @@ export function Trades({ leagueId, onNavigate, highlightOfferId }: TradesProps)
     setSelectedRequestedPlayers([])
     setOfferedBudget(0)
     setRequestedBudget(0)
+    setDeferredOfferedBudget(0)
+    setDeferredRequestedBudget(0)
+    setContractTerms({})
     setMessage('')
     setOfferDuration(24)
     setSearchQuery('')
@@ -467,6 +495,12 @@ export function Trades({ leagueId, onNavigate, highlightOfferId }: TradesProps)
       requestedBudget,
       message: message || undefined,
       durationHours: offerDuration,
+      deferredOfferedBudget,
+      deferredRequestedBudget,
+      // Solo le clausole dei giocatori ancora selezionati
+      contractTerms: Object.entries(contractTerms)
+        .filter(([rosterId]) => selectedOfferedPlayers.includes(rosterId) || selectedRequestedPlayers.includes(rosterId))
+        .map(([rosterId, term]) => ({ rosterId, ...term })),
     })
 
     if (res.success) {
@@ -547,6 +581,45 @@ export function Trades({ leagueId, onNavigate, highlightOfferId }: TradesProps)
     }
   }
 
+  async function handleCreateMultiParty(data: MultiPartyDealSubmit) {
+    setError('')
+    setSuccess('')
+    setIsSubmitting(true)
+
+    const res = multiPartyCounter
+      ? await tradeApi.counterMultiParty(multiPartyCounter.id, { transfers: data.transfers, message: data.message || undefined })
+      : await tradeApi.createMultiParty(leagueId, { ...data, message: data.message || undefined })
+
+    if (res.success) {
+      haptic.send()
+      setSuccess(multiPartyCounter ? 'Controproposta inviata! Tutti i partecipanti devono accettare di nuovo.' : 'Proposta inviata a tutti i partecipanti!')
+      setMultiPartyCounter(null)
+      setCreateMode('pair')
+      void loadData()
+      setActiveTab('received')
+    } else {
+      const msg = res.message || 'Errore durante l\'invio della proposta'
+      if (multiPartyCounter) toast.error(msg)
+      else setError(msg)
+    }
+
+    setIsSubmitting(false)
+  }
+
+  async function handleMultiPartyAction(action: 'accept' | 'reject' | 'cancel', tradeId: string) {
+    const res = action === 'accept'
+      ? await tradeApi.acceptMultiParty(tradeId)
+      : action === 'reject'
+        ? await tradeApi.rejectMultiParty(tradeId)
+        : await tradeApi.cancelMultiParty(tradeId)
+    if (res.success) {
+      if (action === 'accept') setSuccess(res.message || 'Accettazione registrata')
+      void loadData()
+    } else {
+      toast.error(res.message || 'Errore')
+    }
+  }
+
   function togglePlayer(list: string[], setList: (l: string[]) => void, playerId: string) {
     if (list.includes(playerId)) {
       setList(list.filter(id => id !== playerId))
@@ -639,7 +712,7 @@ export function Trades({ leagueId, onNavigate, highlightOfferId }: TradesProps)
                 </svg>
               ),
             },
-            { id: 'received', label: 'Ricevute', accent: 'accent', badge: receivedOffers.length },
+            { id: 'received', label: 'Ricevute', accent: 'accent', badge: receivedOffers.length + multiPartyTrades.length },
             { id: 'sent', label: 'Inviate', accent: 'primary', badge: sentOffers.length },
             { id: 'history', label: 'Concluse', accent: 'gray', badge: tradeHistory.length },
           ]}
@@ -689,13 +762,134 @@ export function Trades({ leagueId, onNavigate, highlightOfferId }: TradesProps)
                   </div>
                 )}
 
-                {/* Mobile triggers removed - contextual buttons inside DealTable are sufficient */}
+                {/* Scambio 1:1 o a più squadre */}
+                <div className="inline-flex rounded-lg bg-surface-300 p-1 text-sm">
+                  <button
+                    type="button"
+                    onClick={() => { setCreateMode('pair'); }}
+                    className={`px-3 py-1.5 rounded-md transition-colors ${createMode === 'pair' ? 'bg-primary-500 text-white' : 'text-gray-400 hover:text-white'}`}
+                  >
+                    1 contro 1
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => { setCreateMode('multi'); }}
+                    className={`px-3 py-1.5 rounded-md transition-colors ${createMode === 'multi' ? 'bg-primary-500 text-white' : 'text-gray-400 hover:text-white'}`}
+                  >
+                    A più squadre
+                  </button>
+                </div>
 
-                {/* 3-column grid layout */}
-                <div className="lg:grid lg:grid-cols-12 lg:gap-4">
-                  {/* Left: My Roster (desktop only) */}
-                  <div className="hidden lg:block lg:col-span-4">
-                    <div className="sticky top-4">
+                {createMode === 'multi' ? (
+                  <div className="max-w-2xl">
+                    <MultiPartyDealBuilder
+                      myMemberId={myMemberId}
+                      myBudget={myBudget}
+                      members={members}
+                      myRoster={myRoster}
+                      allOtherPlayers={allOtherPlayers}
+                      isSubmitting={isSubmitting}
+                      onSubmit={(data) => { void handleCreateMultiParty(data) }}
+                    />
+                  </div>
+                ) : (
+                  <>
+                    {/* Mobile triggers removed - contextual buttons inside DealTable are sufficient */}
+
+                    {/* 3-column grid layout */}
+                    <div className="lg:grid lg:grid-cols-12 lg:gap-4">
+                      {/* Left: My Roster (desktop only) */}
+                      <div className="hidden lg:block lg:col-span-4">
+                        <div className="sticky top-4">
+                          <DealRosterPanel
+                            side="mine"
+                            myRoster={myRoster}
+                            selectedOfferedPlayers={selectedOfferedPlayers}
+                            onToggleOffered={(id) => { togglePlayer(selectedOfferedPlayers, setSelectedOfferedPlayers, id); }}
+                            myBudget={myBudget}
+                            onViewStats={handleViewStats}
+                          />
+                        </div>
+                      </div>
+
+                      {/* Center: Deal Table */}
+                      <div className="lg:col-span-4">
+                        <DealTable
+                          members={members}
+                          selectedMemberId={selectedMemberId}
+                          targetMember={targetMember}
+                          onMemberChange={(id) => {
+                            if (id !== selectedMemberId) {
+                              setSelectedMemberId(id)
+                              setSelectedRequestedPlayers([])
+                              setFilterManager(id)
+                            }
+                          }}
+                          myBudget={myBudget}
+                          selectedOfferedPlayers={selectedOfferedPlayers}
+                          myRoster={myRoster}
+                          onRemoveOffered={(id) => { togglePlayer(selectedOfferedPlayers, setSelectedOfferedPlayers, id); }}
+                          offeredBudget={offeredBudget}
+                          onOfferedBudgetChange={setOfferedBudget}
+                          selectedRequestedPlayers={selectedRequestedPlayers}
+                          allOtherPlayers={allOtherPlayers}
+                          onRemoveRequested={(id) => { togglePlayer(selectedRequestedPlayers, setSelectedRequestedPlayers, id); }}
+                          requestedBudget={requestedBudget}
+                          onRequestedBudgetChange={setRequestedBudget}
+                          deferredOfferedBudget={deferredOfferedBudget}
+                          onDeferredOfferedBudgetChange={setDeferredOfferedBudget}
+                          deferredRequestedBudget={deferredRequestedBudget}
+                          onDeferredRequestedBudgetChange={setDeferredRequestedBudget}
+                          contractTerms={contractTerms}
+                          onContractTermChange={handleContractTermChange}
+                          offerDuration={offerDuration}
+                          onDurationChange={setOfferDuration}
+                          message={message}
+                          onMessageChange={setMessage}
+                          isSubmitting={isSubmitting}
+                          canSubmit={!!selectedMemberId && hasTradeSelections}
+                          onSubmit={(e) => { void handleCreateOffer(e) }}
+                          onOpenMyRoster={() => { setShowMyRosterModal(true); }}
+                          onOpenPartnerRoster={() => { setShowPartnerRosterModal(true); }}
+                          onViewStats={handleViewStats}
+                        />
+                      </div>
+
+                      {/* Right: Partner Roster (desktop only) */}
+                      <div className="hidden lg:block lg:col-span-4">
+                        <div className="sticky top-4">
+                          <DealRosterPanel
+                            side="partner"
+                            filteredPlayers={filteredOtherPlayers}
+                            selectedRequestedPlayers={selectedRequestedPlayers}
+                            onToggleRequested={handleSelectRequestedPlayer}
+                            searchQuery={searchQuery}
+                            onSearchChange={setSearchQuery}
+                            filterRole={filterRole}
+                            onFilterRoleChange={setFilterRole}
+                            members={members}
+                            selectedMemberId={selectedMemberId || filterManager}
+                            onMemberChange={(id) => {
+                              setFilterManager(id)
+                              if (id !== selectedMemberId) {
+                                setSelectedMemberId(id)
+                                setSelectedRequestedPlayers([])
+                              }
+                            }}
+                            targetMember={targetMember}
+                            onViewStats={handleViewStats}
+                          />
+                        </div>
+                      </div>
+                    </div>
+
+                    {/* Mobile BottomSheet: La Mia Rosa */}
+                    <BottomSheet
+                      isOpen={showMyRosterModal}
+                      onClose={() => { setShowMyRosterModal(false); }}
+                      title="La Mia Rosa"
+                      maxHeight="85vh"
+                    >
                       <DealRosterPanel
                         side="mine"
                         myRoster={myRoster}
@@ -704,49 +898,23 @@ export function Trades({ leagueId, onNavigate, highlightOfferId }: TradesProps)
                         myBudget={myBudget}
                         onViewStats={handleViewStats}
                       />
-                    </div>
-                  </div>
-
-                  {/* Center: Deal Table */}
-                  <div className="lg:col-span-4">
-                    <DealTable
-                      members={members}
-                      selectedMemberId={selectedMemberId}
-                      targetMember={targetMember}
-                      onMemberChange={(id) => {
-                        if (id !== selectedMemberId) {
-                          setSelectedMemberId(id)
-                          setSelectedRequestedPlayers([])
-                          setFilterManager(id)
-                        }
-                      }}
-                      myBudget={myBudget}
-                      selectedOfferedPlayers={selectedOfferedPlayers}
-                      myRoster={myRoster}
-                      onRemoveOffered={(id) => { togglePlayer(selectedOfferedPlayers, setSelectedOfferedPlayers, id); }}
-                      offeredBudget={offeredBudget}
-                      onOfferedBudgetChange={setOfferedBudget}
-                      selectedRequestedPlayers={selectedRequestedPlayers}
-                      allOtherPlayers={allOtherPlayers}
-                      onRemoveRequested={(id) => { togglePlayer(selectedRequestedPlayers, setSelectedRequestedPlayers, id); }}
-                      requestedBudget={requestedBudget}
-                      onRequestedBudgetChange={setRequestedBudget}
-                      offerDuration={offerDuration}
-                      onDurationChange={setOfferDuration}
-                      message={message}
-                      onMessageChange={setMessage}
-                      isSubmitting={isSubmitting}
-                      canSubmit={!!(selectedMemberId && (selectedOfferedPlayers.length > 0 || offeredBudget > 0 || selectedRequestedPlayers.length > 0 || requestedBudget > 0))}
-                      onSubmit={(e) => { void handleCreateOffer(e) }}
-                      onOpenMyRoster={() => { setShowMyRosterModal(true); }}
-                      onOpenPartnerRoster={() => { setShowPartnerRosterModal(true); }}
-                      onViewStats={handleViewStats}
-                    />
-                  </div>
-
-                  {/* Right: Partner Roster (desktop only) */}
-                  <div className="hidden lg:block lg:col-span-4">
-                    <div className="sticky top-4">
+                      <div className="sticky bottom-0 px-4 py-3 bg-surface-200 border-t border-white/10">
+                        <button
+                          onClick={() => { setShowMyRosterModal(false); }}
+                          className="w-full py-3 rounded-xl font-bold text-base bg-danger-500/20 text-danger-400 border border-danger-500/30 active:scale-[0.98] transition-all"
+                        >
+                          Conferma selezione{selectedOfferedPlayers.length > 0 ? ` (${selectedOfferedPlayers.length})` : ''}
+                        </button>
+                      </div>
+                    </BottomSheet>
+
+                    {/* Mobile BottomSheet: Rosa Partner */}
+                    <BottomSheet
+                      isOpen={showPartnerRosterModal}
+                      onClose={() => { setShowPartnerRosterModal(false); }}
+                      title={targetMember ? `Rosa ${targetMember.user.username}` : 'Rosa Partner'}
+                      maxHeight="85vh"
+                    >
                       <DealRosterPanel
                         side="partner"
                         filteredPlayers={filteredOtherPlayers}
@@ -768,82 +936,27 @@ export function Trades({ leagueId, onNavigate, highlightOfferId }: TradesProps)
                         targetMember={targetMember}
                         onViewStats={handleViewStats}
                       />
-                    </div>
-                  </div>
-                </div>
+                      <div className="sticky bottom-0 px-4 py-3 bg-surface-200 border-t border-white/10">
+                        <button
+                          onClick={() => { setShowPartnerRosterModal(false); }}
+                          className="w-full py-3 rounded-xl font-bold text-base bg-primary-500/20 text-primary-400 border border-primary-500/30 active:scale-[0.98] transition-all"
+                        >
+                          Conferma selezione{selectedRequestedPlayers.length > 0 ? ` (${selectedRequestedPlayers.length})` : ''}
+                        </button>
+                      </div>
+                    </BottomSheet>
 
-                {/* Mobile BottomSheet: La Mia Rosa */}
-                <BottomSheet
-                  isOpen={showMyRosterModal}
-                  onClose={() => { setShowMyRosterModal(false); }}
-                  title="La Mia Rosa"
-                  maxHeight="85vh"
-                >
-                  <DealRosterPanel
-                    side="mine"
-                    myRoster={myRoster}
-                    selectedOfferedPlayers={selectedOfferedPlayers}
-                    onToggleOffered={(id) => { togglePlayer(selectedOfferedPlayers, setSelectedOfferedPlayers, id); }}
-                    myBudget={myBudget}
-                    onViewStats={handleViewStats}
-                  />
-                  <div className="sticky bottom-0 px-4 py-3 bg-surface-200 border-t border-white/10">
-                    <button
-                      onClick={() => { setShowMyRosterModal(false); }}
-                      className="w-full py-3 rounded-xl font-bold text-base bg-danger-500/20 text-danger-400 border border-danger-500/30 active:scale-[0.98] transition-all"
-                    >
-                      Conferma selezione{selectedOfferedPlayers.length > 0 ? ` (${selectedOfferedPlayers.length})` : ''}
-                    </button>
-                  </div>
-                </BottomSheet>
-
-                {/* Mobile BottomSheet: Rosa Partner */}
-                <BottomSheet
-                  isOpen={showPartnerRosterModal}
-                  onClose={() => { setShowPartnerRosterModal(false); }}
-                  title={targetMember ? `Rosa ${targetMember.user.username}` : 'Rosa Partner'}
-                  maxHeight="85vh"
-                >
-                  <DealRosterPanel
-                    side="partner"
-                    filteredPlayers={filteredOtherPlayers}
-                    selectedRequestedPlayers={selectedRequestedPlayers}
-                    onToggleRequested={handleSelectRequestedPlayer}
-                    searchQuery={searchQuery}
-                    onSearchChange={setSearchQuery}
-                    filterRole={filterRole}
-                    onFilterRoleChange={setFilterRole}
-                    members={members}
-                    selectedMemberId={selectedMemberId || filterManager}
-                    onMemberChange={(id) => {
-                      setFilterManager(id)
-                      if (id !== selectedMemberId) {
-                        setSelectedMemberId(id)
-                        setSelectedRequestedPlayers([])
-                      }
-                    }}
-                    targetMember={targetMember}
-                    onViewStats={handleViewStats}
-                  />
-                  <div className="sticky bottom-0 px-4 py-3 bg-surface-200 border-t border-white/10">
-                    <button
-                      onClick={() => { setShowPartnerRosterModal(false); }}
-                      className="w-full py-3 rounded-xl font-bold text-base bg-primary-500/20 text-primary-400 border border-primary-500/30 active:scale-[0.98] transition-all"
-                    >
-                      Conferma selezione{selectedRequestedPlayers.length > 0 ? ` (${selectedRequestedPlayers.length})` : ''}
-                    </button>
-                  </div>
-                </BottomSheet>
-
-                {/* Mobile sticky footer */}
-                <DealMobileFooter
-                  offeredCount={selectedOfferedPlayers.length}
-                  requestedCount={selectedRequestedPlayers.length}
-                  isSubmitting={isSubmitting}
-                  onSubmit={() => { void handleCreateOffer({ preventDefault: () => {} } as React.FormEvent) }}
-                  canSubmit={!!(selectedMemberId && (selectedOfferedPlayers.length > 0 || offeredBudget > 0 || selectedRequestedPlayers.length > 0 || requestedBudget > 0))}
-                  hasSelections={hasTradeSelections}
-                />
+                    {/* Mobile sticky footer */}
+                    <DealMobileFooter
+                      offeredCount={selectedOfferedPlayers.length}
+                      requestedCount={selectedRequestedPlayers.length}
+                      isSubmitting={isSubmitting}
+                      onSubmit={() => { void handleCreateOffer({ preventDefault: () => {} } as React.FormEvent) }}
+                      canSubmit={!!selectedMemberId && hasTradeSelections}
+                      hasSelections={hasTradeSelections}
+                    />
+                  </>
+                )}
               </>
             )}
           </div>
@@ -854,7 +967,18 @@ export function Trades({ leagueId, onNavigate, highlightOfferId }: TradesProps)
         {/* ============================= */}
         {activeTab === 'received' && (
           <div className="space-y-4">
-            {receivedOffers.length === 0 ? (
+            {multiPartyTrades.map(trade => (
+              <MultiPartyTradeCard
+                key={trade.id}
+                trade={trade}
+                myMemberId={myMemberId}
+                onAccept={(id) => { void handleMultiPartyAction('accept', id) }}
+                onReject={(id) => { void handleMultiPartyAction('reject', id) }}
+                onCancel={(id) => { void handleMultiPartyAction('cancel', id) }}
+                onCounter={setMultiPartyCounter}
+              />
+            ))}
+            {receivedOffers.length === 0 && multiPartyTrades.length === 0 ? (
               <EmptyState icon="📥" title="Nessuna offerta ricevuta" description="Le offerte che riceverai appariranno qui" />
             ) : (
               receivedOffers.map(offer => {
@@ -921,7 +1045,15 @@ export function Trades({ leagueId, onNavigate, highlightOfferId }: TradesProps)
                                 <span className="text-sm text-secondary-400 font-medium">+ {offer.offeredBudget} crediti</span>
                               </div>
                             )}
-                            {(!offer.offeredPlayerDetails?.length && !offer.offeredPlayers?.length && offer.offeredBudget === 0) && (
+                            {!!offer.deferredOfferedBudget && (
+                              <div className="flex items-center gap-2 mt-2 pt-2 border-t border-surface-50/20">
+                                <div className="w-6 h-6 rounded bg-secondary-500/20 flex items-center justify-center">
+                                  <span className="text-secondary-400 font-bold text-xs">€</span>
+                                </div>
+                                <span className="text-sm text-secondary-400 font-medium">+ {offer.deferredOfferedBudget} crediti alla prossima sessione</span>
+                              </div>
+                            )}
+                            {(!offer.offeredPlayerDetails?.length && !offer.offeredPlayers?.length && offer.offeredBudget === 0 && !offer.deferredOfferedBudget) && (
                               <p className="text-gray-400 text-sm italic py-2">Nessun giocatore o credito offerto</p>
                             )}
                           </div>
@@ -947,7 +1079,15 @@ export function Trades({ leagueId, onNavigate, highlightOfferId }: TradesProps)
                                 <span className="text-sm text-danger-400 font-medium">+ {offer.requestedBudget} crediti</span>
                               </div>
                             )}
-                            {(!offer.requestedPlayerDetails?.length && !offer.requestedPlayers?.length && offer.requestedBudget === 0) && (
+                            {!!offer.deferredRequestedBudget && (
+                              <div className="flex items-center gap-2 mt-2 pt-2 border-t border-surface-50/20">
+                                <div className="w-6 h-6 rounded bg-danger-500/20 flex items-center justify-center">
+                                  <span className="text-danger-400 font-bold text-xs">€</span>
+                                </div>
+                                <span className="text-sm text-danger-400 font-medium">+ {offer.deferredRequestedBudget} crediti alla prossima sessione</span>
+                              </div>
+                            )}
+                            {(!offer.requestedPlayerDetails?.length && !offer.requestedPlayers?.length && offer.requestedBudget === 0 && !offer.deferredRequestedBudget) && (
                               <p className="text-gray-400 text-sm italic py-2">Nessun giocatore o credito richiesto</p>
                             )}
                           </div>
@@ -1066,7 +1206,15 @@ export function Trades({ leagueId, onNavigate, highlightOfferId }: TradesProps)
                                 <span className="text-sm text-danger-400 font-medium">+ {offer.offeredBudget} crediti</span>
                               </div>
                             )}
-                            {(!offer.offeredPlayerDetails?.length && !offer.offeredPlayers?.length && offer.offeredBudget === 0) && (
+                            {!!offer.deferredOfferedBudget && (
+                              <div className="flex items-center gap-2 mt-2 pt-2 border-t border-surface-50/20">
+                                <div className="w-6 h-6 rounded bg-danger-500/20 flex items-center justify-center">
+                                  <span className="text-danger-400 font-bold text-xs">€</span>
+                                </div>
+                                <span className="text-sm text-danger-400 font-medium">+ {offer.deferredOfferedBudget} crediti alla prossima sessione</span>
+                              </div>
+                            )}
+                            {(!offer.offeredPlayerDetails?.length && !offer.offeredPlayers?.length && offer.offeredBudget === 0 && !offer.deferredOfferedBudget) && (
                               <p className="text-gray-400 text-sm italic py-2">Nessun giocatore o credito offerto</p>
                             )}
                           </div>
@@ -1092,7 +1240,15 @@ export function Trades({ leagueId, onNavigate, highlightOfferId }: TradesProps)
                                 <span className="text-sm text-secondary-400 font-medium">+ {offer.requestedBudget} crediti</span>
                               </div>
                             )}
-                            {(!offer.requestedPlayerDetails?.length && !offer.requestedPlayers?.length && offer.requestedBudget === 0) && (
+                            {!!offer.deferredRequestedBudget && (
+                              <div className="flex items-center gap-2 mt-2 pt-2 border-t border-surface-50/20">
+                                <div className="w-6 h-6 rounded bg-secondary-500/20 flex items-center justify-center">
+                                  <span className="text-secondary-400 font-bold text-xs">€</span>
+                                </div>
+                                <span className="text-sm text-secondary-400 font-medium">+ {offer.deferredRequestedBudget} crediti alla prossima sessione</span>
+                              </div>
+                            )}
+                            {(!offer.requestedPlayerDetails?.length && !offer.requestedPlayers?.length && offer.requestedBudget === 0 && !offer.deferredRequestedBudget) && (
                               <p className="text-gray-400 text-sm italic py-2">Nessun giocatore o credito richiesto</p>
                             )}
                           </div>
@@ -1217,6 +1373,14 @@ export function Trades({ leagueId, onNavigate, highlightOfferId }: TradesProps)
                                 <span className="text-sm text-danger-400 font-medium">+ {offer.offeredBudget} crediti</span>
                               </div>
                             )}
+                            {!!offer.deferredOfferedBudget && (
+                              <div className="flex items-center gap-2 mt-2 pt-2 border-t border-surface-50/20">
+                                <div className="w-6 h-6 rounded bg-danger-500/20 flex items-center justify-center">
+                                  <span className="text-danger-400 font-bold text-xs">€</span>
+                                </div>
+                                <span className="text-sm text-danger-400 font-medium">+ {offer.deferredOfferedBudget} crediti alla prossima sessione</span>
+                              </div>
+                            )}
                           </div>
                         </div>
 
@@ -1239,6 +1403,14 @@ export function Trades({ leagueId, onNavigate, highlightOfferId }: TradesProps)
                                 <span className="text-sm text-secondary-400 font-medium">+ {offer.requestedBudget} crediti</span>
                               </div>
                             )}
+                            {!!offer.deferredRequestedBudget && (
+                              <div className="flex items-center gap-2 mt-2 pt-2 border-t border-surface-50/20">
+                                <div className="w-6 h-6 rounded bg-secondary-500/20 flex items-center justify-center">
+                                  <span className="text-secondary-400 font-bold text-xs">€</span>
+                                </div>
+                                <span className="text-sm text-secondary-400 font-medium">+ {offer.deferredRequestedBudget} crediti alla prossima sessione</span>
+                              </div>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -1290,6 +1462,34 @@ export function Trades({ leagueId, onNavigate, highlightOfferId }: TradesProps)
         />
       )}
 
+      {/* Multi-party counter-offer: same parties, acceptance restarts */}
+      <BottomSheet
+        isOpen={!!multiPartyCounter}
+        onClose={() => { setMultiPartyCounter(null); }}
+        title="Controproposta scambio a più squadre"
+        maxHeight="90vh"
+      >
+        {multiPartyCounter && (
+          <div className="p-4">
+            <MultiPartyDealBuilder
+              key={multiPartyCounter.id}
+              myMemberId={myMemberId}
+              myBudget={myBudget}
+              members={members}
+              myRoster={myRoster}
+              allOtherPlayers={allOtherPlayers}
+              initialParticipantIds={multiPartyCounter.participants.map(p => p.memberId)}
+              initialTransfers={multiPartyCounter.transfers}
+              lockParticipants
+              submitLabel="Invia controproposta"
+              isSubmitting={isSubmitting}
+              onSubmit={(data) => { void handleCreateMultiParty(data) }}
+              onCancel={() => { setMultiPartyCounter(null); }}
+            />
+          </div>
+        )}
+      </BottomSheet>
+
       {/* Contract Modification Modal after Trade Acceptance */}
       {isModifyingContract && currentPlayerForModification && currentPlayerForModification.contract && (
         <ContractModifierModal
@@ -0,0 +1,99 @@
+import { useState, useEffect, useRef } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+
+const API_URL = import.meta.env.VITE_API_URL || (import.meta.env.PROD ? '' : 'http://localhost:3003')
+
+export function VerifyEmail() {
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get('token')
+
+  const [loading, setLoading] = useState(!!token)
+  const [success, setSuccess] = useState(false)
+  const [error, setError] = useState(token ? '' : 'Token mancante. Richiedi un nuovo link di verifica dal tuo profilo.')
+  // Il token è monouso: evita la doppia chiamata dell'effetto in StrictMode
+  const requestedRef = useRef(false)
+
+  useEffect(() => {
+    if (!token || requestedRef.current) return
+    requestedRef.current = true
+
+    async function verify() {
+      try {
+        const response = await fetch(`${API_URL}/api/auth/verify-email`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token })
+        })
+
+        const data = await response.json()
+
+        if (data.success) {
+          setSuccess(true)
+        } else {
+          setError(data.error || 'Errore durante la verifica dell\'email')
+        }
+      } catch {
+        setError('Errore di connessione al server')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    void verify()
+  }, [token])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <div className="max-w-md w-full bg-surface-200 rounded-2xl p-8 text-center">
+          <div className="w-12 h-12 border-4 border-primary-500 border-t-transparent rounded-full animate-spin mx-auto mb-6" />
+          <p className="text-gray-400">Verifica dell'email in corso...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (success) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <div className="max-w-md w-full bg-surface-200 rounded-2xl p-8 text-center">
+          <div className="w-16 h-16 bg-secondary-500/20 rounded-full flex items-center justify-center mx-auto mb-6">
+            <svg className="w-8 h-8 text-secondary-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+            </svg>
+          </div>
+          <h1 className="text-2xl font-bold text-white mb-4">Email verificata!</h1>
+          <p className="text-gray-400 mb-6">
+            Il tuo indirizzo email è stato confermato. Ora puoi entrare nelle leghe che richiedono un'email verificata.
+          </p>
+          <Link
+            to="/dashboard"
+            className="inline-block bg-primary-500 hover:bg-primary-600 text-white px-6 py-2 rounded-lg font-medium transition-colors"
+          >
+            Vai alla dashboard
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <div className="max-w-md w-full bg-surface-200 rounded-2xl p-8 text-center">
+        <div className="w-16 h-16 bg-danger-500/20 rounded-full flex items-center justify-center mx-auto mb-6">
+          <svg className="w-8 h-8 text-danger-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+          </svg>
+        </div>
+        <h1 className="text-2xl font-bold text-white mb-4">Link non valido</h1>
+        <p className="text-gray-400 mb-6">{error}</p>
+        <Link
+          to="/profile"
+          className="inline-block bg-primary-500 hover:bg-primary-600 text-white px-6 py-2 rounded-lg font-medium transition-colors"
+        >
+          Richiedi nuovo link
+        </Link>
+      </div>
+    </div>
+  )
+}
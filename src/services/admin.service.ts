@@ -1,7 +1,8 @@
-import { MemberStatus, ProphecyRole, Prisma } from '@prisma/client'
+import { MemberStatus, ProphecyRole, Prisma, type MarketPhase } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
 import bcrypt from 'bcryptjs'
 import type { ServiceResult } from '@/shared/types/service-result'
+import { getRequestContext } from '@/shared/infrastructure/http'
 
 // ==================== EXPORT ALL ROSTERS ====================
 
@@ -73,6 +74,11 @@ export async function getAuditLog(
     limit?: number
     offset?: number
     action?: string
+    userId?: string
+    entityType?: string
+    phase?: MarketPhase
+    from?: Date
+    to?: Date
   }
 ): Promise<ServiceResult> {
   // Verify admin
@@ -96,6 +102,21 @@ export async function getAuditLog(
   if (options?.action) {
     whereConditions.action = options.action
   }
+  if (options?.userId) {
+    whereConditions.userId = options.userId
+  }
+  if (options?.entityType) {
+    whereConditions.entityType = options.entityType
+  }
+  if (options?.phase) {
+    whereConditions.phase = options.phase
+  }
+  if (options?.from || options?.to) {
+    whereConditions.createdAt = {
+      ...(options.from && { gte: options.from }),
+      ...(options.to && { lte: options.to }),
+    }
+  }
 
   const logs = await prisma.auditLog.findMany({
     where: whereConditions,
@@ -115,6 +136,11 @@ export async function getAuditLog(
 
 // ==================== LOG ACTION ====================
 
+/**
+ * Registra un'azione nell'audit log della lega. IP e user agent, se non
+ * passati, vengono presi dalla richiesta HTTP in corso; la fase è quella
+ * della sessione di mercato attiva.
+ */
 export async function logAction(
   userId: string | null,
   leagueId: string | null,
@@ -126,7 +152,17 @@ export async function logAction(
   ipAddress?: string,
   userAgent?: string
 ): Promise<void> {
+  const context = getRequestContext()
+  if (context) context.auditLogged = true
+
   try {
+    const activeSession = leagueId
+      ? await prisma.marketSession.findFirst({
+          where: { leagueId, status: 'ACTIVE' },
+          select: { currentPhase: true },
+        })
+      : null
+
     await prisma.auditLog.create({
       data: {
         userId,
@@ -136,8 +172,9 @@ export async function logAction(
         entityId,
         oldValues: oldValues as never,
         newValues: newValues as never,
-        ipAddress,
-        userAgent,
+        phase: activeSession?.currentPhase ?? null,
+        ipAddress: ipAddress ?? context?.ipAddress,
+        userAgent: userAgent ?? context?.userAgent,
       },
     })
   } catch {
@@ -145,6 +182,49 @@ export async function logAction(
   }
 }
 
+/**
+ * Lega ed entità toccate da una route admin, ricavate dai parametri
+ * dell'URL (usato dal middleware di audit per le route senza log dedicato).
+ */
+export async function resolveAuditTarget(
+  params: Record<string, string | undefined>
+): Promise<{ leagueId: string | null; entityType?: string; entityId?: string }> {
+  const leagueId = params.leagueId ?? null
+
+  if (params.auctionId) {
+    const auction = await prisma.auction.findUnique({ where: { id: params.auctionId }, select: { leagueId: true } })
+    return { leagueId: leagueId ?? auction?.leagueId ?? null, entityType: 'Auction', entityId: params.auctionId }
+  }
+  if (params.appealId) {
+    const appeal = await prisma.auctionAppeal.findUnique({
+      where: { id: params.appealId },
+      select: { auction: { select: { leagueId: true } } },
+    })
+    return { leagueId: appeal?.auction.leagueId ?? null, entityType: 'AuctionAppeal', entityId: params.appealId }
+  }
+  if (params.categoryId) {
+    const category = await prisma.prizeCategory.findUnique({
+      where: { id: params.categoryId },
+      select: { marketSession: { select: { leagueId: true } } },
+    })
+    return { leagueId: category?.marketSession.leagueId ?? null, entityType: 'PrizeCategory', entityId: params.categoryId }
+  }
+  if (params.inviteId) {
+    const invite = await prisma.leagueInvite.findUnique({ where: { id: params.inviteId }, select: { leagueId: true } })
+    return { leagueId: invite?.leagueId ?? null, entityType: 'LeagueInvite', entityId: params.inviteId }
+  }
+  if (params.sessionId) {
+    const session = await prisma.marketSession.findUnique({ where: { id: params.sessionId }, select: { leagueId: true } })
+    return { leagueId: session?.leagueId ?? null, entityType: 'MarketSession', entityId: params.sessionId }
+  }
+  if (params.memberId) {
+    return { leagueId: leagueId ?? params.id ?? null, entityType: 'LeagueMember', entityId: params.memberId }
+  }
+
+  const id = leagueId ?? params.id ?? null
+  return { leagueId: id, entityType: 'League', entityId: id ?? undefined }
+}
+
 // ==================== LEAGUE STATISTICS ====================
 
 export async function getLeagueStatistics(
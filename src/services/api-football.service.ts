@@ -44,7 +44,7 @@ interface ApiPlayerStats {
   }
   statistics: Array<{
     team: { id: number; name: string }
-    league: { id: number; name: string; season: number }
+    league: { id: number; name: string; country: string; season: number }
     games: { appearences: number | null; minutes: number | null; rating: string | null }
     goals: { total: number | null; assists: number | null; conceded: number | null; saves: number | null }
     shots: { total: number | null; on: number | null }
@@ -80,7 +80,8 @@ interface ApiFixturePlayerEntry {
     player: { id: number; name: string }
     statistics: Array<{
       games: { minutes: number | null; rating: string | null }
-      goals: { total: number | null; assists: number | null }
+      goals: { total: number | null; conceded: number | null; assists: number | null }
+      cards?: { yellow: number | null; red: number | null }
     }>
   }>
 }
@@ -139,6 +140,13 @@ export interface MatchProposal {
   method: string
 }
 
+export interface ClubLookupResult {
+  lookedUp: number
+  // Da cercare ma esclusi per la quota giornaliera
+  skipped: number
+  apiCallsUsed: number
+}
+
 export interface ProposalsResult {
   success: boolean
   message?: string
@@ -186,6 +194,9 @@ export interface MatchedPlayersResult {
 const API_BASE = 'https://v3.football.api-sports.io'
 const SERIE_A_LEAGUE_ID = 135
 const CURRENT_SEASON = 2025
+// Coppe nazionali e competizioni internazionali non dicono in che campionato gioca
+const NON_DOMESTIC_LEAGUE_IDS = new Set([137, 547])  // Coppa Italia, Supercoppa
+const CLUB_LOOKUP_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000
 
 // Map API-Football team names → DB team names (from quotazioni file)
 const TEAM_NAME_MAP: Record<string, string> = {
@@ -1274,6 +1285,95 @@ export async function refreshCacheInternal(): Promise<{ success: boolean; messag
   }
 }
 
+/**
+ * Club della stagione corrente: il campionato nazionale con più minuti, preferendo
+ * quelli diversi dalla Serie A (trasferimento a metà stagione).
+ */
+function pickCurrentClub(statistics: ApiPlayerStats['statistics']): ApiPlayerStats['statistics'][number] | null {
+  const domestic = statistics.filter(s => s.league.country !== 'World' && !NON_DOMESTIC_LEAGUE_IDS.has(s.league.id))
+  const elsewhere = domestic.filter(s => s.league.id !== SERIE_A_LEAGUE_ID)
+  const candidates = elsewhere.length > 0 ? elsewhere : domestic
+  if (candidates.length === 0) return null
+
+  return candidates.reduce((best, s) => ((s.games.minutes ?? 0) > (best.games.minutes ?? 0) ? s : best))
+}
+
+/**
+ * Internal: cerca il club attuale dei giocatori usciti dalla lista (una chiamata
+ * /players?id= per giocatore) e lo salva nella cache. Salta i giocatori cercati
+ * negli ultimi 7 giorni e si ferma alla quota giornaliera residua.
+ */
+export async function lookupCurrentClubs(apiFootballIds: number[]): Promise<ClubLookupResult> {
+  const startedAt = new Date()
+  const freshSince = new Date(startedAt.getTime() - CLUB_LOOKUP_MAX_AGE_MS)
+
+  const fresh = await prisma.apiFootballPlayerCache.findMany({
+    where: { id: { in: apiFootballIds }, lookedUpAt: { gte: freshSince } },
+    select: { id: true },
+  })
+  const freshIds = new Set(fresh.map(c => c.id))
+  const stale = apiFootballIds.filter(id => !freshIds.has(id))
+  if (stale.length === 0) {
+    return { lookedUp: 0, skipped: 0, apiCallsUsed: 0 }
+  }
+
+  const { getRemainingQuota } = await import('./api-football-quota')
+  const toFetch = stale.slice(0, await getRemainingQuota())
+  let apiCallsUsed = 0
+  let lookedUp = 0
+  const errors: string[] = []
+
+  for (const apiId of toFetch) {
+    try {
+      const data = await apiFootballFetch<ApiPlayerStats>('/players', {
+        id: String(apiId),
+        season: String(CURRENT_SEASON),
+      })
+      apiCallsUsed++
+
+      const entry = data.response[0]
+      const club = entry ? pickCurrentClub(entry.statistics) : null
+      const clubData = {
+        leagueId: club?.league.id ?? null,
+        leagueName: club?.league.name ?? null,
+        leagueCountry: club?.league.country ?? null,
+        age: entry?.player.age ?? null,
+        lookedUpAt: startedAt,
+      }
+
+      if (entry && club) {
+        const team = normalizeTeamName(club.team.name)
+        await prisma.apiFootballPlayerCache.upsert({
+          where: { id: apiId },
+          update: { team, teamId: club.team.id, ...clubData },
+          create: { id: apiId, name: entry.player.name, team, teamId: club.team.id, position: 'Unknown', photo: entry.player.photo || null, ...clubData },
+        })
+      } else {
+        // Nessuna squadra in stagione: resta l'ultima squadra nota, senza campionato
+        await prisma.apiFootballPlayerCache.updateMany({ where: { id: apiId }, data: clubData })
+      }
+      lookedUp++
+    } catch (error) {
+      errors.push(`${apiId}: ${(error as Error).message}`)
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 100))
+  }
+
+  await prisma.apiFootballSyncLog.create({
+    data: {
+      jobType: 'EXIT_LOOKUP',
+      status: errors.length === 0 && toFetch.length === stale.length ? 'SUCCESS' : 'PARTIAL',
+      apiCallsUsed,
+      details: { lookedUp, skipped: stale.length - toFetch.length, errors: errors.slice(0, 10) },
+      startedAt,
+      completedAt: new Date(),
+    },
+  })
+
+  return { lookedUp, skipped: stale.length - toFetch.length, apiCallsUsed }
+}
+
 /**
  * Sync match-by-match ratings from API-Football /fixtures/players endpoint.
  * Processes completed fixtures not yet synced, in batches.
@@ -1379,6 +1479,11 @@ export async function syncMatchRatings(options: { maxFixtures?: number } = {}):
 
             const rating = stats.games.rating ? parseFloat(stats.games.rating) : null
             const minutesPlayed = stats.games.minutes || null
+            const matchStats = {
+              goalsConceded: stats.goals.conceded ?? null,
+              yellowCards: stats.cards?.yellow || 0,
+              redCards: stats.cards?.red || 0,
+            }
 
             await prisma.playerMatchRating.upsert({
               where: {
@@ -1392,6 +1497,7 @@ export async function syncMatchRatings(options: { maxFixtures?: number } = {}):
                 minutesPlayed,
                 goals: stats.goals.total || 0,
                 assists: stats.goals.assists || 0,
+                ...matchStats,
                 matchDate,
                 round: fixture.league.round || null,
                 season,
@@ -1406,6 +1512,7 @@ export async function syncMatchRatings(options: { maxFixtures?: number } = {}):
                 minutesPlayed,
                 goals: stats.goals.total || 0,
                 assists: stats.goals.assists || 0,
+                ...matchStats,
               },
             })
 
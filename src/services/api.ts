@@ -1,3 +1,28 @@
+import type { ContractRuleset } from '../utils/contract-rules'
+import type { ChatMessageData } from './pusher.client'
+import type { WatchlistCategory, WatchlistData, WatchlistEntry, WatchlistStrategy } from '../types/watchlist.types'
+import type { ScoringRuleset } from '../utils/scoring-rules'
+import type { PrizeRule, PrizeRulePreview } from '../utils/prize-rules'
+import type { MatchdayLineupData, MatchdaysData, MatchdayStandingsData } from '../types/matchday.types'
+import type { QuotationHistoryPoint, QuotationMoversData } from '../types/quotation.types'
+import type { ContractScenarioInput, ContractSimulatorData, ScenarioProjection } from '../types/contract-scenario.types'
+import type { CompensationJournalEntry, CompensationPreview } from '../types/compensation.types'
+import type { AuditLogEntry, AuditLogFilters } from '../types/audit-log.types'
+import type { IndemnityChoice, IndemnityPhaseData } from '../types/indemnity.types'
+import type { ExitProposalsData } from '../utils/exit-classifier'
+import type {
+  SeasonArchiveSummary,
+  SeasonBudgetPolicy,
+  SeasonRolloverPreview,
+  SeasonRolloverReport,
+} from '../types/season-rollover.types'
+import type {
+  ImportedStandingsData,
+  StandingsFileAnalysis,
+  StandingsFileOptions,
+  StandingsImportHistoryItem,
+} from '../types/standings-import.types'
+
 // In production (Vercel), API is at same origin. In dev, use localhost:3003
 const API_URL = import.meta.env.VITE_API_URL || (import.meta.env.PROD ? '' : 'http://localhost:3003')
 
@@ -66,7 +91,7 @@ async function request<T>(
     }
 
     // Handle token refresh on 401 (but NOT for login/register/logout - those don't need refresh)
-    const authEndpoints = ['/api/auth/login', '/api/auth/register', '/api/auth/logout', '/api/auth/refresh', '/api/auth/forgot-password', '/api/auth/reset-password']
+    const authEndpoints = ['/api/auth/login', '/api/auth/register', '/api/auth/logout', '/api/auth/refresh', '/api/auth/forgot-password', '/api/auth/reset-password', '/api/auth/login/two-factor']
     if (response.status === 401 && !authEndpoints.includes(endpoint)) {
       const refreshed = await refreshAccessToken()
       if (refreshed) {
@@ -110,15 +135,79 @@ export const authApi = {
     request('/api/auth/register', { method: 'POST', body: JSON.stringify(data) }),
 
   login: (data: { emailOrUsername: string; password: string }) =>
-    request<{ user: { id: string; email: string; username: string }; accessToken: string }>(
+    request<{
+      user?: { id: string; email: string; username: string }
+      accessToken?: string
+      // Presenti quando serve il secondo fattore: nessun token emesso
+      twoFactorRequired?: 'VERIFY' | 'SETUP'
+      challengeToken?: string
+    }>(
       '/api/auth/login',
       { method: 'POST', body: JSON.stringify(data) }
     ),
 
+  verifyTwoFactorLogin: (data: { challengeToken: string; code: string; trustDevice?: boolean }) =>
+    request<{ user: { id: string; email: string; username: string }; accessToken: string; recoveryCodesRemaining: number }>(
+      '/api/auth/login/two-factor',
+      { method: 'POST', body: JSON.stringify(data) }
+    ),
+
+  getTwoFactorStatus: () =>
+    request<{
+      enabled: boolean
+      enabledAt: string | null
+      required: boolean
+      recoveryCodesRemaining: number
+      trustedDevices: number
+    }>('/api/auth/two-factor'),
+
+  // challengeToken solo per la configurazione obbligatoria durante il login
+  setupTwoFactor: (challengeToken?: string) =>
+    request<{ secret: string; otpauthUrl: string; qrCodeDataUrl: string }>(
+      '/api/auth/two-factor/setup',
+      { method: 'POST', body: JSON.stringify({ challengeToken }) }
+    ),
+
+  enableTwoFactor: (code: string, challengeToken?: string) =>
+    request<{
+      recoveryCodes: string[]
+      user?: { id: string; email: string; username: string }
+      accessToken?: string
+    }>('/api/auth/two-factor/enable', { method: 'POST', body: JSON.stringify({ code, challengeToken }) }),
+
+  disableTwoFactor: (code: string) =>
+    request('/api/auth/two-factor/disable', { method: 'POST', body: JSON.stringify({ code }) }),
+
+  regenerateRecoveryCodes: (code: string) =>
+    request<{ recoveryCodes: string[] }>('/api/auth/two-factor/recovery-codes', { method: 'POST', body: JSON.stringify({ code }) }),
+
+  revokeTrustedDevices: () =>
+    request('/api/auth/two-factor/trusted-devices', { method: 'DELETE' }),
+
+  getSessions: () =>
+    request<Array<{
+      id: string
+      device: string
+      userAgent: string | null
+      ipAddress: string | null
+      lastUsedAt: string
+      createdAt: string
+      current: boolean
+    }>>('/api/auth/sessions'),
+
+  revokeSession: (sessionId: string) =>
+    request(`/api/auth/sessions/${sessionId}`, { method: 'DELETE' }),
+
+  revokeOtherSessions: () =>
+    request<{ revoked: number }>('/api/auth/sessions', { method: 'DELETE' }),
+
   logout: () => request('/api/auth/logout', { method: 'POST' }),
 
   me: () =>
-    request<{ id: string; email: string; username: string; createdAt: string }>('/api/auth/me'),
+    request<{ id: string; email: string; username: string; emailVerified: boolean; createdAt: string }>('/api/auth/me'),
+
+  resendVerification: () =>
+    request('/api/auth/resend-verification', { method: 'POST' }),
 }
 
 // User API
@@ -169,6 +258,8 @@ export const leagueApi = {
     forwardSlots?: number
     requireEvenNumber?: boolean
     isPublic?: boolean
+    requireVerifiedEmail?: boolean
+    requireAdminTwoFactor?: boolean
   }) => request('/api/leagues', { method: 'POST', body: JSON.stringify(data) }),
 
   getAll: () => request('/api/leagues'),
@@ -207,6 +298,17 @@ export const leagueApi = {
   cancelRequest: (leagueId: string) =>
     request(`/api/leagues/${leagueId}/cancel-request`, { method: 'POST' }),
 
+  // Regole contrattuali della lega
+  getContractRules: (leagueId: string) =>
+    request<{ rules: ContractRuleset; isCustom: boolean }>(`/api/leagues/${leagueId}/contract-rules`),
+
+  // Aggiorna regole contrattuali (admin only) - null ripristina i default
+  updateContractRules: (leagueId: string, rules: ContractRuleset | null) =>
+    request<{ rules: ContractRuleset; isCustom: boolean }>(`/api/leagues/${leagueId}/contract-rules`, {
+      method: 'PUT',
+      body: JSON.stringify({ rules }),
+    }),
+
   // Search leagues
   search: (query: string) =>
     request<Array<{
@@ -464,6 +566,19 @@ export const playerApi = {
 
   getById: (id: string) => request(`/api/players/${id}`),
 
+  // Quotazione registrata a ogni upload del file quotazioni
+  getQuotationHistory: (id: string) =>
+    request<QuotationHistoryPoint[]>(`/api/players/${id}/quotation-history`),
+
+  // Maggiori rialzi/ribassi dall'upload precedente (con leagueId: solo giocatori in rosa nella lega)
+  getQuotationMovers: (leagueId?: string, limit?: number) => {
+    const params = new URLSearchParams()
+    if (leagueId) params.append('leagueId', leagueId)
+    if (limit) params.append('limit', String(limit))
+    const query = params.toString()
+    return request<QuotationMoversData>(`/api/players/quotation-movers${query ? `?${query}` : ''}`)
+  },
+
   getTeams: () => request('/api/players/teams'),
 
   // Get players with Serie A statistics
@@ -572,6 +687,24 @@ export const auctionApi = {
   closeAuction: (auctionId: string) =>
     request(`/api/auctions/${auctionId}/close`, { method: 'PUT' }),
 
+  // Proxy bids (offerte automatiche fino a un tetto privato)
+  getProxyBids: (leagueId: string) =>
+    request<Array<{
+      playerId: string
+      player: { id: string; name: string; team: string; position: string }
+      maxAmount: number
+      ceilingSetAt: string
+    }>>(`/api/leagues/${leagueId}/proxy-bids`),
+
+  setProxyBid: (leagueId: string, playerId: string, maxAmount: number) =>
+    request<{ playerId: string; maxAmount: number; autoBids: number }>(`/api/leagues/${leagueId}/proxy-bids/${playerId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ maxAmount }),
+    }),
+
+  removeProxyBid: (leagueId: string, playerId: string) =>
+    request(`/api/leagues/${leagueId}/proxy-bids/${playerId}`, { method: 'DELETE' }),
+
   // Roster
   getRoster: (leagueId: string) =>
     request(`/api/leagues/${leagueId}/roster`),
@@ -837,6 +970,9 @@ export const tradeApi = {
     requestedBudget?: number
     message?: string
     durationHours?: number
+    deferredOfferedBudget?: number
+    deferredRequestedBudget?: number
+    contractTerms?: Array<{ rosterId: string; salary: number; duration: number }>
   }) => request(`/api/leagues/${leagueId}/trades`, {
     method: 'POST',
     body: JSON.stringify(data),
@@ -881,6 +1017,37 @@ export const tradeApi = {
     method: 'POST',
     body: JSON.stringify(data),
   }),
+
+  // Multi-party trades (3+ managers, every party must accept)
+  createMultiParty: (leagueId: string, data: {
+    participantMemberIds: string[]
+    transfers: { fromMemberId: string; toMemberId: string; rosterId?: string | null; budget?: number }[]
+    message?: string
+    durationHours?: number
+  }) => request(`/api/leagues/${leagueId}/multi-trades`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  }),
+
+  getMultiParty: (leagueId: string) =>
+    request(`/api/leagues/${leagueId}/multi-trades`),
+
+  acceptMultiParty: (tradeId: string) =>
+    request(`/api/multi-trades/${tradeId}/accept`, { method: 'PUT' }),
+
+  rejectMultiParty: (tradeId: string) =>
+    request(`/api/multi-trades/${tradeId}/reject`, { method: 'PUT' }),
+
+  cancelMultiParty: (tradeId: string) =>
+    request(`/api/multi-trades/${tradeId}/cancel`, { method: 'PUT' }),
+
+  counterMultiParty: (tradeId: string, data: {
+    transfers: { fromMemberId: string; toMemberId: string; rosterId?: string | null; budget?: number }[]
+    message?: string
+  }) => request(`/api/multi-trades/${tradeId}/counter`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  }),
 }
 
 // Rubata API
@@ -1293,15 +1460,54 @@ export const adminApi = {
     request(`/api/leagues/${leagueId}/admin/export/rosters`),
 
   // Get audit log (Admin)
-  getAuditLog: (leagueId: string, options?: { limit?: number; offset?: number; action?: string }) => {
+  getAuditLog: (leagueId: string, options?: { limit?: number; offset?: number; action?: string } & AuditLogFilters) => {
     const params = new URLSearchParams()
     if (options?.limit) params.append('limit', options.limit.toString())
     if (options?.offset) params.append('offset', options.offset.toString())
     if (options?.action) params.append('action', options.action)
+    if (options?.userId) params.append('userId', options.userId)
+    if (options?.entityType) params.append('entityType', options.entityType)
+    if (options?.phase) params.append('phase', options.phase)
+    if (options?.from) params.append('from', new Date(`${options.from}T00:00:00`).toISOString())
+    if (options?.to) params.append('to', new Date(`${options.to}T23:59:59.999`).toISOString())
     const query = params.toString()
-    return request(`/api/leagues/${leagueId}/admin/audit${query ? `?${query}` : ''}`)
+    return request<AuditLogEntry[]>(`/api/leagues/${leagueId}/admin/audit${query ? `?${query}` : ''}`)
   },
 
+  // Journal delle operazioni compensative (Admin)
+  getJournal: (leagueId: string) =>
+    request<CompensationJournalEntry[]>(`/api/leagues/${leagueId}/admin/journal`),
+
+  previewCompensation: (leagueId: string, entryId: string) =>
+    request<CompensationPreview>(`/api/leagues/${leagueId}/admin/journal/${entryId}/preview`),
+
+  applyCompensation: (leagueId: string, entryId: string, reason: string) =>
+    request<{ id: string; changes: string[] }>(`/api/leagues/${leagueId}/admin/journal/${entryId}/rollback`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    }),
+
+  // Cambio stagione (Admin): senza policy l'anteprima usa quella salvata sulla lega
+  previewSeasonRollover: (leagueId: string, policy?: SeasonBudgetPolicy) =>
+    request<SeasonRolloverPreview>(`/api/leagues/${leagueId}/season-rollover/preview`, {
+      method: 'POST',
+      body: JSON.stringify(policy ?? {}),
+    }),
+
+  applySeasonRollover: (leagueId: string, policy: SeasonBudgetPolicy) =>
+    request<SeasonRolloverReport>(`/api/leagues/${leagueId}/season-rollover`, {
+      method: 'POST',
+      body: JSON.stringify(policy),
+    }),
+
+  retrySeasonRolloverMarket: (leagueId: string) =>
+    request<{ nextSessionId: string | null }>(`/api/leagues/${leagueId}/season-rollover/market`, {
+      method: 'POST',
+    }),
+
+  getSeasonArchives: (leagueId: string) =>
+    request<SeasonArchiveSummary[]>(`/api/leagues/${leagueId}/season-archives`),
+
   // Get league statistics
   getStatistics: (leagueId: string) =>
     request(`/api/leagues/${leagueId}/admin/stats`),
@@ -1458,10 +1664,11 @@ export const superadminApi = {
     request('/api/superadmin/status'),
 
   // Upload quotazioni file
-  importQuotazioni: async (file: File, sheetName?: string) => {
+  importQuotazioni: async (file: File, sheetName?: string, dryRun?: boolean) => {
     const formData = new FormData()
     formData.append('file', file)
     if (sheetName) formData.append('sheetName', sheetName)
+    if (dryRun) formData.append('dryRun', 'true')
 
     const headers: HeadersInit = {}
     if (accessToken) {
@@ -1477,6 +1684,10 @@ export const superadminApi = {
     return response.json()
   },
 
+  // Roll back the last upload still in effect
+  rollbackLastUpload: () =>
+    request('/api/superadmin/quotazioni/rollback', { method: 'POST' }),
+
   // Get upload history
   getUploadHistory: () =>
     request('/api/superadmin/quotazioni/history'),
@@ -1529,6 +1740,13 @@ export const superadminApi = {
   getPlayersNeedingClassification: () =>
     request('/api/superadmin/players/needing-classification'),
 
+  // Proposte automatiche di classificazione (lookup = cerca il club attuale su API-Football)
+  getExitProposals: (lookup: boolean) =>
+    request<ExitProposalsData>('/api/superadmin/players/exit-proposals', {
+      method: 'POST',
+      body: JSON.stringify({ lookup }),
+    }),
+
   // Classify exited players
   classifyExitedPlayers: (classifications: Array<{ playerId: string; exitReason: 'RITIRATO' | 'RETROCESSO' | 'ESTERO' }>) =>
     request('/api/superadmin/players/classify-exits', {
@@ -1651,11 +1869,11 @@ export const prizePhaseApi = {
       body: JSON.stringify({ amount }),
     }),
 
-  // Create prize category (Admin)
-  createCategory: (sessionId: string, name: string) =>
+  // Create prize category (Admin) - with a rule the amounts are computed from league data
+  createCategory: (sessionId: string, name: string, rule?: PrizeRule | null) =>
     request(`/api/sessions/${sessionId}/prizes/categories`, {
       method: 'POST',
-      body: JSON.stringify({ name }),
+      body: JSON.stringify({ name, rule }),
     }),
 
   // Delete prize category (Admin)
@@ -1669,6 +1887,14 @@ export const prizePhaseApi = {
       body: JSON.stringify({ amount }),
     }),
 
+  // Preview rule-computed prizes vs current amounts (Admin)
+  previewRules: (sessionId: string) =>
+    request<PrizeRulePreview>(`/api/sessions/${sessionId}/prizes/rules/preview`),
+
+  // Apply rule-computed prizes (Admin)
+  applyRules: (sessionId: string) =>
+    request(`/api/sessions/${sessionId}/prizes/rules/apply`, { method: 'POST' }),
+
   // Finalize prize phase (Admin)
   finalize: (sessionId: string) =>
     request(`/api/sessions/${sessionId}/prizes/finalize`, { method: 'POST' }),
@@ -1693,6 +1919,49 @@ export const prizePhaseApi = {
     request(`/api/sessions/${sessionId}/prizes/indemnities/consolidate`, { method: 'POST' }),
 }
 
+// Indemnity Phase API (giocatori usciti RETROCESSO/ESTERO)
+export const indemnityApi = {
+  // Riepilogo della fase: giocatori usciti, proprietari, scelte e indennizzi
+  getPhase: (sessionId: string) =>
+    request<IndemnityPhaseData>(`/api/sessions/${sessionId}/indemnity`),
+
+  // Decisioni KEEP/RELEASE del manager
+  submitDecisions: (sessionId: string, decisions: Array<{ rosterId: string; decision: IndemnityChoice }>) =>
+    request(`/api/sessions/${sessionId}/indemnity/decisions`, {
+      method: 'PUT',
+      body: JSON.stringify({ decisions }),
+    }),
+
+  // Scadenza delle decisioni, null per rimuoverla (Admin)
+  setDeadline: (sessionId: string, deadline: string | null) =>
+    request(`/api/sessions/${sessionId}/indemnity/deadline`, {
+      method: 'PUT',
+      body: JSON.stringify({ deadline }),
+    }),
+
+  // Chiude le decisioni e passa in revisione (Admin)
+  close: (sessionId: string) =>
+    request(`/api/sessions/${sessionId}/indemnity/close`, { method: 'POST' }),
+
+  // Riapre le decisioni, con una nuova scadenza opzionale (Admin)
+  reopen: (sessionId: string, deadline?: string) =>
+    request(`/api/sessions/${sessionId}/indemnity/reopen`, {
+      method: 'POST',
+      body: JSON.stringify(deadline ? { deadline } : {}),
+    }),
+
+  // Corregge una decisione in revisione (Admin)
+  review: (sessionId: string, decisionId: string, decision: IndemnityChoice) =>
+    request(`/api/sessions/${sessionId}/indemnity/decisions/${decisionId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ decision }),
+    }),
+
+  // Applica rilasci e indennizzi (Admin)
+  consolidate: (sessionId: string) =>
+    request(`/api/sessions/${sessionId}/indemnity/consolidate`, { method: 'POST' }),
+}
+
 // History API (Storico Lega)
 export const historyApi = {
   // Get sessions overview
@@ -1863,6 +2132,18 @@ export const feedbackApi = {
       body: JSON.stringify({ content, statusChange }),
     }),
 
+  // Promote feedback to an issue on the tracker (superadmin only)
+  promoteToIssue: (id: string) =>
+    request<{ id: string; status: string; githubIssueId: number; githubIssueUrl: string }>(`/api/feedback/${id}/issue`, {
+      method: 'POST',
+    }),
+
+  // Sync issue state back into the feedback (superadmin only)
+  syncIssue: (id: string) =>
+    request<{ updated: boolean; issueState: string | null }>(`/api/feedback/${id}/issue/sync`, {
+      method: 'POST',
+    }),
+
   // Get unread notifications
   getUnreadNotifications: () => request('/api/feedback/notifications/unread'),
 
@@ -1923,3 +2204,190 @@ export const contractHistoryApi = {
   getHistorical: (leagueId: string) =>
     request(`/api/leagues/${leagueId}/contract-history/historical`),
 }
+
+// Session Chat API
+export const chatApi = {
+  // Get chat history (newest page first, cursor = oldest loaded message id)
+  getMessages: (sessionId: string, cursor?: string) =>
+    request<{
+      messages: ChatMessageData[]
+      nextCursor: string | null
+      mutedMemberIds: string[]
+      isAdmin: boolean
+      myMemberId: string
+    }>(`/api/auctions/sessions/${sessionId}/chat${cursor ? `?cursor=${encodeURIComponent(cursor)}` : ''}`),
+
+  // Send a chat message
+  send: (sessionId: string, content: string) =>
+    request<ChatMessageData>(`/api/auctions/sessions/${sessionId}/chat`, {
+      method: 'POST',
+      body: JSON.stringify({ content }),
+    }),
+
+  // Delete a message (admin only)
+  deleteMessage: (sessionId: string, messageId: string) =>
+    request(`/api/auctions/sessions/${sessionId}/chat/${messageId}`, { method: 'DELETE' }),
+
+  // Mute/unmute a manager (admin only)
+  setMute: (sessionId: string, memberId: string, muted: boolean) =>
+    request<{ mutedMemberIds: string[] }>(`/api/auctions/sessions/${sessionId}/chat/mute`, {
+      method: 'POST',
+      body: JSON.stringify({ memberId, muted }),
+    }),
+}
+
+// Persistent Watchlist API
+export const watchlistApi = {
+  // Get my watchlist (categories + entries)
+  get: (leagueId: string) =>
+    request<WatchlistData>(`/api/leagues/${leagueId}/watchlist`),
+
+  // Create a personal category
+  createCategory: (leagueId: string, data: { name: string; icon?: string | null; color?: string | null; description?: string | null }) =>
+    request<WatchlistCategory>(`/api/leagues/${leagueId}/watchlist/categories`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  // Update a personal category
+  updateCategory: (categoryId: string, data: { name?: string; icon?: string | null; color?: string | null; description?: string | null }) =>
+    request<WatchlistCategory>(`/api/watchlist/categories/${categoryId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }),
+
+  // Delete a personal category (and its entries)
+  deleteCategory: (categoryId: string) =>
+    request(`/api/watchlist/categories/${categoryId}`, { method: 'DELETE' }),
+
+  // Add (or update) a player in a category
+  addEntry: (leagueId: string, data: { playerId: string; categoryId: string } & WatchlistStrategy) =>
+    request<WatchlistEntry>(`/api/leagues/${leagueId}/watchlist/entries`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  // Update an entry (strategy or category)
+  updateEntry: (entryId: string, data: { categoryId?: string } & WatchlistStrategy) =>
+    request<WatchlistEntry>(`/api/watchlist/entries/${entryId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }),
+
+  // Remove an entry
+  removeEntry: (entryId: string) =>
+    request(`/api/watchlist/entries/${entryId}`, { method: 'DELETE' }),
+}
+
+// Fantasy Matchday API (round/season in query: i round contengono spazi)
+const matchdayQuery = (season: string, round: string) =>
+  `season=${encodeURIComponent(season)}&round=${encodeURIComponent(round)}`
+
+export const matchdayApi = {
+  // Giornate disponibili della stagione (default: stagione corrente)
+  getMatchdays: (leagueId: string, season?: string) =>
+    request<MatchdaysData>(`/api/leagues/${leagueId}/matchdays${season ? `?season=${encodeURIComponent(season)}` : ''}`),
+
+  // La mia formazione per la giornata (con la rosa attiva schierabile)
+  getLineup: (leagueId: string, season: string, round: string) =>
+    request<MatchdayLineupData>(`/api/leagues/${leagueId}/matchdays/lineup?${matchdayQuery(season, round)}`),
+
+  // Schiera la formazione
+  submitLineup: (leagueId: string, data: { season: string; round: string; formation: string; starters: string[]; bench: string[] }) =>
+    request(`/api/leagues/${leagueId}/matchdays/lineup`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }),
+
+  // Calcola la giornata (admin only)
+  compute: (leagueId: string, season: string, round: string) =>
+    request(`/api/leagues/${leagueId}/matchdays/compute`, {
+      method: 'POST',
+      body: JSON.stringify({ season, round }),
+    }),
+
+  // Classifica di giornata e di stagione
+  getStandings: (leagueId: string, season: string, round: string) =>
+    request<MatchdayStandingsData>(`/api/leagues/${leagueId}/matchdays/standings?${matchdayQuery(season, round)}`),
+
+  // Tabella bonus/malus della lega
+  getScoringRules: (leagueId: string) =>
+    request<{ rules: ScoringRuleset; isCustom: boolean }>(`/api/leagues/${leagueId}/scoring-rules`),
+
+  // Aggiorna tabella bonus/malus (admin only) - null ripristina i default
+  updateScoringRules: (leagueId: string, rules: ScoringRuleset | null) =>
+    request<{ rules: ScoringRuleset; isCustom: boolean }>(`/api/leagues/${leagueId}/scoring-rules`, {
+      method: 'PUT',
+      body: JSON.stringify({ rules }),
+    }),
+}
+
+// Standings Import API (classifiche e risultati da file CSV/XLSX)
+async function uploadStandingsFile<T>(endpoint: string, file: File, options: StandingsFileOptions): Promise<ApiResponse<T>> {
+  const formData = new FormData()
+  formData.append('file', file)
+  formData.append('kind', options.kind)
+  if (options.sheetName) formData.append('sheetName', options.sheetName)
+  if (options.season) formData.append('season', String(options.season))
+  if (options.mapping) formData.append('mapping', JSON.stringify(options.mapping))
+  if (options.overrides) formData.append('overrides', JSON.stringify(options.overrides))
+
+  const headers: HeadersInit = {}
+  if (accessToken) {
+    headers['Authorization'] = `Bearer ${accessToken}`
+  }
+
+  try {
+    const response = await fetch(`${API_URL}${endpoint}`, {
+      method: 'POST',
+      credentials: 'include',
+      headers,
+      body: formData,
+    })
+    return await response.json() as ApiResponse<T>
+  } catch {
+    return { success: false, message: 'Errore di connessione al server' }
+  }
+}
+
+export const standingsImportApi = {
+  // Intestazioni, mappatura proposta e report di validazione (admin only)
+  analyze: (leagueId: string, file: File, options: StandingsFileOptions) =>
+    uploadStandingsFile<StandingsFileAnalysis>(`/api/leagues/${leagueId}/standings-imports/analyze`, file, options),
+
+  // Importa il file con la mappatura scelta (admin only)
+  importFile: (leagueId: string, file: File, options: StandingsFileOptions) =>
+    uploadStandingsFile<{ importId: string; rowsImported: number; totalProcessed: number; errors?: string[] }>(
+      `/api/leagues/${leagueId}/standings-imports`, file, options
+    ),
+
+  // Storico import (admin only)
+  getHistory: (leagueId: string) =>
+    request<StandingsImportHistoryItem[]>(`/api/leagues/${leagueId}/standings-imports`),
+
+  // Classifica dell'ultimo import
+  getImported: (leagueId: string, season?: number) =>
+    request<ImportedStandingsData | null>(`/api/leagues/${leagueId}/standings/imported${season ? `?season=${season}` : ''}`),
+}
+
+export const contractSimulatorApi = {
+  // Contratti attuali, entrate attese e scenari salvati con la proiezione
+  get: (leagueId: string) =>
+    request<ContractSimulatorData>(`/api/leagues/${leagueId}/contract-simulator`),
+
+  // Proiezione di uno scenario non salvato
+  simulate: (leagueId: string, scenario: ContractScenarioInput) =>
+    request<ScenarioProjection>(`/api/leagues/${leagueId}/contract-simulator/simulate`, {
+      method: 'POST',
+      body: JSON.stringify(scenario),
+    }),
+
+  saveScenario: (leagueId: string, scenario: ContractScenarioInput & { name: string }, scenarioId?: string) =>
+    request<{ id: string }>(`/api/leagues/${leagueId}/contract-scenarios${scenarioId ? `/${scenarioId}` : ''}`, {
+      method: scenarioId ? 'PUT' : 'POST',
+      body: JSON.stringify(scenario),
+    }),
+
+  deleteScenario: (leagueId: string, scenarioId: string) =>
+    request(`/api/leagues/${leagueId}/contract-scenarios/${scenarioId}`, { method: 'DELETE' }),
+}
@@ -1,25 +1,32 @@
 import { AuctionStatus, AuctionType, MemberRole, MemberStatus, AcquisitionType, RosterStatus, Position, Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
-import { calculateRescissionClause, calculateDefaultSalary, canAdvanceFromContratti } from './contract.service'
-import { autoReleaseRitiratiPlayers } from './indemnity-phase.service'
+import { calculateRescissionClause, calculateDefaultSalary, canAdvanceFromContratti, getContractRuleset } from './contract.service'
+import { resolveContractRuleset } from '../utils/contract-rules'
+import { autoReleaseRitiratiPlayers, openIndemnityPhase, startIndemnityDecisions } from './indemnity-phase.service'
 import { recordMovement } from './movement.service'
-import {
-  createContractHistoryEntries,
-  createSessionStartSnapshots,
-} from './contract-history.service'
+import { createSessionStartSnapshots } from './contract-history.service'
 import {
   triggerBidPlaced,
   triggerNominationPending,
   triggerNominationConfirmed,
   triggerMemberReady,
   triggerAuctionStarted,
-  triggerAuctionClosed,
   triggerPauseRequested,
 } from './pusher.service'
+import { DomainEventTypes } from '@/shared/infrastructure/events'
+import type { PlayerMovement, ContractHistoryRecord } from '@/shared/infrastructure/events'
+import { publishDomainEvent } from './domain-events.service'
 import { computeSeasonStatsBatch } from './player-stats.service'
 import { withRetry } from '../utils/db-retry'
 import { notifyAuctionStart, notifyPhaseChange } from './notification.service'
+import { postSystemMessage } from './chat.service'
+import { seedSessionFromWatchlist } from './watchlist.service'
+import { settleDeferredTradePayments } from './trade.service'
+import { loadSvincolatiTurnState, resetSvincolatiReadyMembers, setSvincolatiMemberPassed } from './svincolati-state.service'
 import { logError } from './app-log.service'
+import { logAction } from './admin.service'
+import { triggerProxyBidding } from './proxy-bid.service'
+import { registerPresence, getPresenceStatus, isAllPresent, clearPresence } from './presence.service'
 
 import type { ServiceResult } from '@/shared/types/service-result'
 
@@ -44,38 +51,22 @@ function enrichPlayerWithStats<T extends Record<string, unknown>>(player: T): T
 
 // ==================== HEARTBEAT / CONNECTION STATUS ====================
 
-// In-memory storage for heartbeats (sessionId -> memberId -> timestamp)
-const heartbeats = new Map<string, Map<string, number>>()
-
-// Heartbeat timeout in milliseconds (45 seconds — 1.5× the 30s client interval)
-const HEARTBEAT_TIMEOUT = 45000
+// Stanza del primo mercato: sessionId (see: presence.service.ts)
 
-export function registerHeartbeat(sessionId: string, memberId: string): void {
-  if (!heartbeats.has(sessionId)) {
-    heartbeats.set(sessionId, new Map())
-  }
-  heartbeats.get(sessionId)!.set(memberId, Date.now())
+export async function registerHeartbeat(sessionId: string, memberId: string): Promise<void> {
+  await registerPresence('AUCTION', sessionId, memberId)
 }
 
-export function getConnectionStatus(sessionId: string): Map<string, boolean> {
-  const sessionHeartbeats = heartbeats.get(sessionId) || new Map()
-  const now = Date.now()
-  const status = new Map<string, boolean>()
-
-  sessionHeartbeats.forEach((timestamp, memberId) => {
-    status.set(memberId, now - timestamp < HEARTBEAT_TIMEOUT)
-  })
-
-  return status
+export async function getConnectionStatus(sessionId: string): Promise<Map<string, boolean>> {
+  return getPresenceStatus('AUCTION', sessionId)
 }
 
-export function isAllConnected(sessionId: string, memberIds: string[]): boolean {
-  const status = getConnectionStatus(sessionId)
-  return memberIds.every(id => status.get(id) === true)
+export async function isAllConnected(sessionId: string, memberIds: string[]): Promise<boolean> {
+  return isAllPresent('AUCTION', sessionId, memberIds)
 }
 
-export function clearSessionHeartbeats(sessionId: string): void {
-  heartbeats.delete(sessionId)
+export async function clearSessionHeartbeats(sessionId: string): Promise<void> {
+  await clearPresence('AUCTION', sessionId)
 }
 
 // ==================== ROSTER COMPLETION CHECK ====================
@@ -174,6 +165,8 @@ async function decrementContractDurations(leagueId: string, marketSessionId: str
   decremented: number
   released: string[]
 }> {
+  const rules = await getContractRuleset(leagueId)
+
   // Get all active contracts in the league
   const contracts = await prisma.playerContract.findMany({
     where: {
@@ -196,7 +189,8 @@ async function decrementContractDurations(leagueId: string, marketSessionId: str
 
   const released: string[] = []
   let decremented = 0
-  const historyEntries: Parameters<typeof createContractHistoryEntries>[0] = []
+  const historyEntries: ContractHistoryRecord[] = []
+  const movements: PlayerMovement[] = []
 
   for (const contract of contracts) {
     const newDuration = contract.duration - 1
@@ -234,7 +228,7 @@ async function decrementContractDurations(leagueId: string, marketSessionId: str
       })
 
       // M-13: Record PlayerMovement for auto-release on contract expiry
-      await recordMovement({
+      movements.push({
         leagueId,
         playerId: contract.roster.playerId,
         movementType: 'RELEASE',
@@ -249,7 +243,7 @@ async function decrementContractDurations(leagueId: string, marketSessionId: str
       released.push(contract.roster.player.name)
     } else {
       // Decrement duration and recalculate rescission clause
-      const newRescissionClause = calculateRescissionClause(contract.salary, newDuration)
+      const newRescissionClause = calculateRescissionClause(contract.salary, newDuration, rules)
 
       // Create history entry for duration decrement
       historyEntries.push({
@@ -279,10 +273,13 @@ async function decrementContractDurations(leagueId: string, marketSessionId: str
     }
   }
 
-  // Batch create all history entries
-  if (historyEntries.length > 0) {
-    await createContractHistoryEntries(historyEntries)
-  }
+  // Storico contratti e movimenti (sottoscrittori CONTRACT_DURATIONS_DECREMENTED)
+  await publishDomainEvent(DomainEventTypes.CONTRACT_DURATIONS_DECREMENTED, {
+    leagueId,
+    sessionId: marketSessionId,
+    historyEntries,
+    movements,
+  })
 
   return { decremented, released }
 }
@@ -445,12 +442,47 @@ export async function createAuctionSession(
           error: error instanceof Error ? error.message : String(error),
         })
       }
+
+      // Fase indennizzi per i giocatori RETROCESSO/ESTERO (decisioni in fase CONTRATTI)
+      try {
+        await openIndemnityPhase(leagueId, result.session.id)
+      } catch (error) {
+        logError('ERROR', 'Errore durante l\'apertura della fase indennizzi', {
+          sessionId: result.session.id,
+          leagueId,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+
+    // Budget differiti concordati negli scambi delle sessioni precedenti
+    if (isEffectivelyRegularMarket) {
+      try {
+        await settleDeferredTradePayments(leagueId, result.session.id, adminUserId)
+      } catch (error) {
+        logError('ERROR', 'Errore durante l\'applicazione dei budget differiti degli scambi', {
+          sessionId: result.session.id,
+          leagueId,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
     }
 
     const message = isEffectivelyRegularMarket
       ? `Mercato regolare aperto (fase: Scambi Pre-Rinnovo). Contratti decrementati: ${decrementResult.decremented}, Svincolati per scadenza: ${decrementResult.released.length}${ritiratiResult.released > 0 ? `, Ritirati auto-rilasciati: ${ritiratiResult.released}` : ''}`
       : 'Sessione PRIMO MERCATO creata'
 
+    // Seed preferenze rubata / obiettivi d'asta dalla watchlist persistente
+    try {
+      await seedSessionFromWatchlist(result.session!.id)
+    } catch (error) {
+      logError('ERROR', 'Errore durante la copia della watchlist nella nuova sessione', {
+        sessionId: result.session!.id,
+        leagueId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+
     // Push notification: auction started (fire-and-forget)
     notifyAuctionStart(leagueId, result.marketType!).catch(() => {})
 
@@ -605,6 +637,22 @@ export async function setMarketPhase(
     },
   })
 
+  await logAction(adminUserId, session.leagueId, 'MARKET_PHASE_CHANGE', 'MarketSession', sessionId,
+    { phase: session.currentPhase }, { phase })
+
+  // Entering CONTRATTI opens the managers' KEEP/RELEASE decisions on exited players
+  if (phase === 'CONTRATTI' && session.currentPhase !== 'CONTRATTI') {
+    try {
+      await startIndemnityDecisions(session.leagueId, sessionId)
+    } catch (error) {
+      logError('ERROR', 'Errore durante l\'apertura delle decisioni indennizzi', {
+        sessionId,
+        leagueId: session.leagueId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
   // Push notification: phase changed (fire-and-forget)
   notifyPhaseChange(session.leagueId, phase).catch(() => {})
 
@@ -725,11 +773,12 @@ export async function closeAuctionSession(
       },
     })
 
-    // Create contracts: 10% of acquisition price, 3 semesters
+    // Create contracts with the league defaults (10% of acquisition price, 3 semesters)
+    const rules = resolveContractRuleset(session.league.contractRuleset)
     for (const roster of rostersWithoutContracts) {
-      const salary = calculateDefaultSalary(roster.acquisitionPrice)
-      const duration = 3
-      const rescissionClause = calculateRescissionClause(salary, duration)
+      const salary = calculateDefaultSalary(roster.acquisitionPrice, rules)
+      const duration = rules.defaultDuration
+      const rescissionClause = calculateRescissionClause(salary, duration, rules)
 
       await prisma.playerContract.create({
         data: {
@@ -755,6 +804,11 @@ export async function closeAuctionSession(
     },
   })
 
+  // Le stanze della sessione sono chiuse: i heartbeat non servono più
+  await clearSessionHeartbeats(sessionId)
+  await clearPresence('RUBATA', session.leagueId)
+  await clearPresence('SVINCOLATI', session.leagueId)
+
   return {
     success: true,
     message: session.type === 'PRIMO_MERCATO'
@@ -963,6 +1017,10 @@ export async function nominatePlayer(
     },
   })
 
+  void postSystemMessage(sessionId, admin.id, `Asta aperta per ${player.name} (${player.position}) - base ${price}`)
+
+  await triggerProxyBidding(auction.id)
+
   return {
     success: true,
     message: `Asta aperta per ${player.name}`,
@@ -1046,10 +1104,11 @@ export async function getCurrentAuction(sessionId: string, userId: string): Prom
         },
       })
 
-      // Create contract: 10% salary (integer, min 1), 3 semesters
-      const salary = calculateDefaultSalary(winningBid.amount)
-      const duration = 3
-      const rescissionClause = calculateRescissionClause(salary, duration)
+      // Create contract with the league defaults (10% salary, integer min 1, 3 semesters)
+      const rules = resolveContractRuleset(auction.league.contractRuleset)
+      const salary = calculateDefaultSalary(winningBid.amount, rules)
+      const duration = rules.defaultDuration
+      const rescissionClause = calculateRescissionClause(salary, duration, rules)
 
       await prisma.playerContract.create({
         data: {
@@ -1082,6 +1141,7 @@ export async function getCurrentAuction(sessionId: string, userId: string): Prom
       })
 
       // Record movement and get movementId for prophecy
+      // (scritto direttamente e non via AUCTION_CLOSED: l'id serve subito al client)
       const movementId = await recordMovement({
         leagueId: auction.leagueId,
         playerId: auction.playerId,
@@ -1239,7 +1299,8 @@ export async function getCurrentAuction(sessionId: string, userId: string): Prom
 export async function placeBid(
   auctionId: string,
   userId: string,
-  amount: number
+  amount: number,
+  isProxy: boolean = false
 ): Promise<ServiceResult> {
   const auction = await prisma.auction.findUnique({
     where: { id: auctionId },
@@ -1301,7 +1362,7 @@ export async function placeBid(
     slotReserve = remainingAfter * 2
   }
 
-  if (amount + calculateDefaultSalary(amount) > bilancio - slotReserve) {
+  if (amount + calculateDefaultSalary(amount, resolveContractRuleset(auction.league.contractRuleset)) > bilancio - slotReserve) {
     const maxBid = bilancio - slotReserve
     return { success: false, message: `Budget insufficiente. Offerta massima: ${maxBid}${isPrimoMercato && slotReserve > 0 ? ` (riservati ${slotReserve} per ${slotReserve / 2} slot rimanenti)` : ''}` }
   }
@@ -1354,6 +1415,7 @@ export async function placeBid(
       userId,
       amount,
       isWinning: true,
+      isProxy,
     },
     include: {
       bidder: {
@@ -1400,6 +1462,11 @@ export async function placeBid(
     })
   }
 
+  // Rilanci automatici degli altri manager (non per i rilanci automatici stessi)
+  if (!isProxy) {
+    await triggerProxyBidding(auction.id)
+  }
+
   return {
     success: true,
     message: `Offerta di ${amount} registrata`,
@@ -1469,18 +1536,19 @@ export async function closeAuction(
       },
     })
 
-    // Trigger Pusher event for auction closed (fire and forget)
+    await publishDomainEvent(DomainEventTypes.AUCTION_CLOSED, {
+      auctionId: auction.id,
+      sessionId: auction.marketSessionId,
+      leagueId: auction.leagueId,
+      playerId: auction.playerId,
+      playerName: auction.player.name,
+      winnerId: null,
+      winnerName: null,
+      finalAmount: 0,
+      movement: null,
+    })
     if (auction.marketSessionId) {
-      void triggerAuctionClosed(auction.marketSessionId, {
-        auctionId: auction.id,
-        playerId: auction.playerId,
-        playerName: auction.player.name,
-        winnerId: null,
-        winnerName: null,
-        finalPrice: null,
-        wasUnsold: true,
-        timestamp: new Date().toISOString(),
-      })
+      void postSystemMessage(auction.marketSessionId, admin.id, `${auction.player.name} invenduto: nessuna offerta`)
     }
 
     return {
@@ -1504,10 +1572,11 @@ export async function closeAuction(
     },
   })
 
-  // Create contract: 10% salary (integer, min 1), 3 semesters
-  const salary = calculateDefaultSalary(winningBid.amount)
-  const duration = 3
-  const rescissionClause = calculateRescissionClause(salary, duration)
+  // Create contract with the league defaults (10% salary, integer min 1, 3 semesters)
+  const rules = resolveContractRuleset(auction.league.contractRuleset)
+  const salary = calculateDefaultSalary(winningBid.amount, rules)
+  const duration = rules.defaultDuration
+  const rescissionClause = calculateRescissionClause(salary, duration, rules)
 
   await prisma.playerContract.create({
     data: {
@@ -1546,31 +1615,32 @@ export async function closeAuction(
     where: { auctions: { some: { id: auctionId } } },
   })
 
-  await recordMovement({
+  // Movimento + broadcast Pusher (sottoscrittori AUCTION_CLOSED)
+  await publishDomainEvent(DomainEventTypes.AUCTION_CLOSED, {
+    auctionId: auction.id,
+    sessionId: auction.marketSessionId,
     leagueId: auction.leagueId,
     playerId: auction.playerId,
-    movementType: 'FIRST_MARKET',
-    toMemberId: winner.id,
-    price: winningBid.amount,
-    auctionId,
-    marketSessionId: session?.id,
-    newSalary: salary,
-    newDuration: duration,
-    newClause: rescissionClause,
+    playerName: auction.player.name,
+    winnerId: winner.id,
+    winnerName: winner.user.username,
+    finalAmount: auction.currentPrice,
+    movement: {
+      leagueId: auction.leagueId,
+      playerId: auction.playerId,
+      movementType: 'FIRST_MARKET',
+      toMemberId: winner.id,
+      price: winningBid.amount,
+      auctionId,
+      marketSessionId: session?.id,
+      newSalary: salary,
+      newDuration: duration,
+      newClause: rescissionClause,
+    },
   })
 
-  // Trigger Pusher event for auction closed (fire and forget)
   if (auction.marketSessionId) {
-    void triggerAuctionClosed(auction.marketSessionId, {
-      auctionId: auction.id,
-      playerId: auction.playerId,
-      playerName: auction.player.name,
-      winnerId: winner.id,
-      winnerName: winner.user.username,
-      finalPrice: auction.currentPrice,
-      wasUnsold: false,
-      timestamp: new Date().toISOString(),
-    })
+    void postSystemMessage(auction.marketSessionId, winner.id, `${auction.player.name} aggiudicato a ${winner.user.username} per ${winningBid.amount} crediti`)
   }
 
   return {
@@ -2852,6 +2922,8 @@ export async function nominatePlayerByManager(
     },
   })
 
+  await triggerProxyBidding(auction.id)
+
   return {
     success: true,
     message: `Asta aperta per ${player.name} - Offerta iniziale: 1`,
@@ -3326,6 +3398,9 @@ export async function forceAllReady(
     },
   })
 
+  await logAction(adminUserId, session.leagueId, 'AUCTION_FORCE_READY', 'MarketSession', sessionId,
+    { readyMembers: session.readyMembers }, { readyMembers: allMemberIds, playerId: session.pendingNominationPlayerId })
+
   // Now start the auction
   return await startPendingAuction(sessionId)
 }
@@ -3862,6 +3937,8 @@ async function startPendingAuction(sessionId: string): Promise<ServiceResult> {
     },
   })
 
+  await triggerProxyBidding(auction.id)
+
   // Trigger Pusher event for auction started (fire and forget)
   void triggerAuctionStarted(sessionId, {
     sessionId,
@@ -4235,7 +4312,7 @@ export async function getManagersStatus(
   }
 
   // Get connection status for all managers
-  const connectionStatus = getConnectionStatus(sessionId)
+  const connectionStatus = await getConnectionStatus(sessionId)
 
   const managersData = members.map(m => {
     const rosterByPosition = {
@@ -4283,7 +4360,7 @@ export async function getManagersStatus(
 
   // Check if all managers are connected
   const memberIds = members.map(m => m.id)
-  const allConnected = isAllConnected(sessionId, memberIds)
+  const allConnected = await isAllConnected(sessionId, memberIds)
 
   return {
     success: true,
@@ -4699,8 +4776,7 @@ export async function acknowledgeAppealDecision(
       // Se è un'asta svincolati, avanza al prossimo turno
       if (auction.marketSession?.currentPhase === 'ASTA_SVINCOLATI' &&
           auction.marketSession?.svincolatiState === 'PENDING_ACK') {
-        const turnOrder = (auction.marketSession.svincolatiTurnOrder as string[] | null) || []
-        const passedMembers = (auction.marketSession.svincolatiPassedMembers as string[] | null) || []
+        const { turnOrder, passedMembers } = await loadSvincolatiTurnState(auction.marketSessionId!)
         const currentTurnIndex = auction.marketSession.svincolatiCurrentTurnIndex ?? 0
         const previousNominatorId = auction.marketSession.svincolatiPendingNominatorId
 
@@ -4721,31 +4797,37 @@ export async function acknowledgeAppealDecision(
         const activeMembers = turnOrder.filter(id => !newPassedMembers.includes(id))
         if (activeMembers.length === 0) {
           // All passed - complete phase
-          await prisma.marketSession.update({
-            where: { id: auction.marketSessionId! },
-            data: {
-              svincolatiState: 'COMPLETED',
-              svincolatiPendingPlayerId: null,
-              svincolatiPendingNominatorId: null,
-              svincolatiNominatorConfirmed: false,
-              svincolatiPendingAck: Prisma.DbNull,
-              svincolatiReadyMembers: [],
-            },
+          await prisma.$transaction(async (tx) => {
+            await tx.marketSession.update({
+              where: { id: auction.marketSessionId! },
+              data: {
+                svincolatiState: 'COMPLETED',
+                svincolatiPendingPlayerId: null,
+                svincolatiPendingNominatorId: null,
+                svincolatiNominatorConfirmed: false,
+                svincolatiPendingAck: Prisma.DbNull,
+              },
+            })
+            await resetSvincolatiReadyMembers(auction.marketSessionId!, tx)
           })
         } else {
           // Update to next turn
-          await prisma.marketSession.update({
-            where: { id: auction.marketSessionId! },
-            data: {
-              svincolatiState: 'READY_CHECK',
-              svincolatiCurrentTurnIndex: nextIndex,
-              svincolatiPendingPlayerId: null,
-              svincolatiPendingNominatorId: null,
-              svincolatiNominatorConfirmed: false,
-              svincolatiPendingAck: Prisma.DbNull,
-              svincolatiReadyMembers: [],
-              svincolatiPassedMembers: newPassedMembers,
-            },
+          await prisma.$transaction(async (tx) => {
+            await tx.marketSession.update({
+              where: { id: auction.marketSessionId! },
+              data: {
+                svincolatiState: 'READY_CHECK',
+                svincolatiCurrentTurnIndex: nextIndex,
+                svincolatiPendingPlayerId: null,
+                svincolatiPendingNominatorId: null,
+                svincolatiNominatorConfirmed: false,
+                svincolatiPendingAck: Prisma.DbNull,
+              },
+            })
+            await resetSvincolatiReadyMembers(auction.marketSessionId!, tx)
+            if (previousNominatorId) {
+              await setSvincolatiMemberPassed(auction.marketSessionId!, previousNominatorId, false, tx)
+            }
           })
         }
       }
@@ -4991,8 +5073,7 @@ export async function forceAllAppealDecisionAcks(
     // Se è un'asta svincolati, avanza al prossimo turno
     if (auction.marketSession?.currentPhase === 'ASTA_SVINCOLATI' &&
         auction.marketSession?.svincolatiState === 'PENDING_ACK') {
-      const turnOrder = (auction.marketSession.svincolatiTurnOrder as string[] | null) || []
-      const passedMembers = (auction.marketSession.svincolatiPassedMembers as string[] | null) || []
+      const { turnOrder, passedMembers } = await loadSvincolatiTurnState(auction.marketSessionId!)
       const currentTurnIndex = auction.marketSession.svincolatiCurrentTurnIndex ?? 0
       const previousNominatorId = auction.marketSession.svincolatiPendingNominatorId
 
@@ -5013,31 +5094,37 @@ export async function forceAllAppealDecisionAcks(
       const activeMembers = turnOrder.filter(id => !newPassedMembers.includes(id))
       if (activeMembers.length === 0) {
         // All passed - complete phase
-        await prisma.marketSession.update({
-          where: { id: auction.marketSessionId! },
-          data: {
-            svincolatiState: 'COMPLETED',
-            svincolatiPendingPlayerId: null,
-            svincolatiPendingNominatorId: null,
-            svincolatiNominatorConfirmed: false,
-            svincolatiPendingAck: Prisma.DbNull,
-            svincolatiReadyMembers: [],
-          },
+        await prisma.$transaction(async (tx) => {
+          await tx.marketSession.update({
+            where: { id: auction.marketSessionId! },
+            data: {
+              svincolatiState: 'COMPLETED',
+              svincolatiPendingPlayerId: null,
+              svincolatiPendingNominatorId: null,
+              svincolatiNominatorConfirmed: false,
+              svincolatiPendingAck: Prisma.DbNull,
+            },
+          })
+          await resetSvincolatiReadyMembers(auction.marketSessionId!, tx)
         })
       } else {
         // Update to next turn
-        await prisma.marketSession.update({
-          where: { id: auction.marketSessionId! },
-          data: {
-            svincolatiState: 'READY_CHECK',
-            svincolatiCurrentTurnIndex: nextIndex,
-            svincolatiPendingPlayerId: null,
-            svincolatiPendingNominatorId: null,
-            svincolatiNominatorConfirmed: false,
-            svincolatiPendingAck: Prisma.DbNull,
-            svincolatiReadyMembers: [],
-            svincolatiPassedMembers: newPassedMembers,
-          },
+        await prisma.$transaction(async (tx) => {
+          await tx.marketSession.update({
+            where: { id: auction.marketSessionId! },
+            data: {
+              svincolatiState: 'READY_CHECK',
+              svincolatiCurrentTurnIndex: nextIndex,
+              svincolatiPendingPlayerId: null,
+              svincolatiPendingNominatorId: null,
+              svincolatiNominatorConfirmed: false,
+              svincolatiPendingAck: Prisma.DbNull,
+            },
+          })
+          await resetSvincolatiReadyMembers(auction.marketSessionId!, tx)
+          if (previousNominatorId) {
+            await setSvincolatiMemberPassed(auction.marketSessionId!, previousNominatorId, false, tx)
+          }
         })
       }
     }
@@ -5319,6 +5406,7 @@ export async function completeAllRosterSlots(
 
   // Get league slot configuration
   const league = session.league
+  const rules = resolveContractRuleset(league.contractRuleset)
   const slotConfig = {
     P: league.goalkeeperSlots,
     D: league.defenderSlots,
@@ -5434,10 +5522,10 @@ export async function completeAllRosterSlots(
           },
         })
 
-        // Create default contract (10% of acquisition price, integer min 1, 3 semesters)
-        const salary = calculateDefaultSalary(finalPrice)
-        const duration = 3
-        const rescissionClause = calculateRescissionClause(salary, duration)
+        // Create default contract with the league defaults (10% of acquisition price, integer min 1, 3 semesters)
+        const salary = calculateDefaultSalary(finalPrice, rules)
+        const duration = rules.defaultDuration
+        const rescissionClause = calculateRescissionClause(salary, duration, rules)
 
         await prisma.playerContract.create({
           data: {
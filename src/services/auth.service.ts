@@ -1,7 +1,8 @@
 import { prisma } from '@/lib/prisma'
 import { hashPassword, verifyPassword } from '../utils/password'
-import { generateTokens, type TokenPayload } from '../utils/jwt'
+import { generateTokens, generateTwoFactorChallengeToken, type TokenPayload, type TwoFactorChallengePurpose } from '../utils/jwt'
 import type { RegisterInput, LoginInput } from '../utils/validation'
+import { resolveLoginTwoFactorStep } from './two-factor.service'
 
 export interface AuthResult {
   success: boolean
@@ -15,6 +16,11 @@ export interface AuthResult {
     accessToken: string
     refreshToken: string
   }
+  // Password corretta ma serve ancora il passo a due fattori: nessun token emesso
+  twoFactor?: {
+    step: TwoFactorChallengePurpose
+    challengeToken: string
+  }
 }
 
 export async function registerUser(input: Omit<RegisterInput, 'confirmPassword'>): Promise<AuthResult> {
@@ -54,7 +60,7 @@ export async function registerUser(input: Omit<RegisterInput, 'confirmPassword'>
   }
 }
 
-export async function loginUser(input: LoginInput): Promise<AuthResult> {
+export async function loginUser(input: LoginInput, options: { trustedDeviceToken?: string } = {}): Promise<AuthResult> {
   const { emailOrUsername, password } = input
 
   // Find user by email or username
@@ -116,12 +122,30 @@ export async function loginUser(input: LoginInput): Promise<AuthResult> {
     })
   }
 
-  // Generate tokens
   const tokenPayload: TokenPayload = {
     userId: user.id,
     email: user.email,
     username: user.username,
   }
+
+  // Two-factor: verifica del codice o configurazione obbligatoria prima dei token
+  const twoFactorStep = await resolveLoginTwoFactorStep(user, options.trustedDeviceToken)
+  if (twoFactorStep) {
+    return {
+      success: true,
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+      },
+      twoFactor: {
+        step: twoFactorStep,
+        challengeToken: generateTwoFactorChallengeToken(tokenPayload, twoFactorStep),
+      },
+    }
+  }
+
+  // Generate tokens
   const tokens = generateTokens(tokenPayload)
 
   return {
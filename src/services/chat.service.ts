@@ -0,0 +1,308 @@
+/**
+ * chat.service.ts - Session Chat Service
+ *
+ * Chat in tempo reale della sessione di mercato (asta, rubata, svincolati).
+ * Storico paginato con cursore, messaggi di sistema automatici sugli eventi
+ * d'asta e moderazione admin (cancellazione / silenziamento) tracciata in audit log.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { MemberRole, MemberStatus, SessionStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { logAction } from './admin.service'
+import { triggerChatMessage, triggerChatMessageDeleted, triggerChatMuteChanged } from './pusher.service'
+import type { ChatMessageData } from './pusher.service'
+import type { ServiceResult } from '@/shared/types/service-result'
+
+export const CHAT_PAGE_SIZE = 50
+export const CHAT_MAX_PAGE_SIZE = 100
+export const CHAT_MESSAGE_MAX_LENGTH = 500
+
+const chatMessageInclude = {
+  member: {
+    select: {
+      id: true,
+      user: { select: { username: true } },
+    },
+  },
+} as const
+
+interface ChatMessageRow {
+  id: string
+  memberId: string
+  content: string
+  isSystem: boolean
+  createdAt: Date
+  member: { id: string; user: { username: string } }
+}
+
+function toChatMessageData(message: ChatMessageRow): ChatMessageData {
+  return {
+    id: message.id,
+    memberId: message.memberId,
+    username: message.member.user.username,
+    content: message.content,
+    isSystem: message.isSystem,
+    createdAt: message.createdAt.toISOString(),
+  }
+}
+
+async function getMutedMembers(sessionId: string): Promise<string[]> {
+  const mutes = await prisma.chatMute.findMany({
+    where: { marketSessionId: sessionId },
+    select: { memberId: true },
+    orderBy: { mutedAt: 'asc' },
+  })
+  return mutes.map(m => m.memberId)
+}
+
+/**
+ * Recupera sessione e membro attivo dell'utente nella lega della sessione
+ */
+async function getSessionMember(sessionId: string, userId: string) {
+  const session = await prisma.marketSession.findUnique({
+    where: { id: sessionId },
+    select: { id: true, leagueId: true, status: true },
+  })
+
+  if (!session) {
+    return { error: 'Sessione non trovata' as const }
+  }
+
+  const member = await prisma.leagueMember.findFirst({
+    where: {
+      userId,
+      leagueId: session.leagueId,
+      status: MemberStatus.ACTIVE,
+    },
+  })
+
+  if (!member) {
+    return { error: 'Non sei membro di questa lega' as const }
+  }
+
+  return { session, member }
+}
+
+/**
+ * Storico chat della sessione, dal più recente, paginato con cursore (id messaggio).
+ * I messaggi restituiti sono in ordine cronologico; nextCursor è null a fine storico.
+ */
+export async function getChatMessages(
+  sessionId: string,
+  userId: string,
+  options: { cursor?: string; limit?: number } = {}
+): Promise<ServiceResult> {
+  const ctx = await getSessionMember(sessionId, userId)
+  if ('error' in ctx) {
+    return { success: false, message: ctx.error }
+  }
+
+  const limit = Math.min(Math.max(options.limit ?? CHAT_PAGE_SIZE, 1), CHAT_MAX_PAGE_SIZE)
+
+  const rows = await prisma.chatMessage.findMany({
+    where: { marketSessionId: sessionId },
+    include: chatMessageInclude,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+    ...(options.cursor ? { cursor: { id: options.cursor }, skip: 1 } : {}),
+  })
+
+  const hasMore = rows.length > limit
+  const page = hasMore ? rows.slice(0, limit) : rows
+
+  return {
+    success: true,
+    data: {
+      messages: page.map(toChatMessageData).reverse(),
+      nextCursor: hasMore ? page[page.length - 1]?.id ?? null : null,
+      mutedMemberIds: await getMutedMembers(sessionId),
+      isAdmin: ctx.member.role === MemberRole.ADMIN,
+      myMemberId: ctx.member.id,
+    },
+  }
+}
+
+/**
+ * Invia un messaggio nella chat della sessione (solo sessioni attive, membri non silenziati)
+ */
+export async function sendChatMessage(
+  sessionId: string,
+  userId: string,
+  content: string
+): Promise<ServiceResult> {
+  const ctx = await getSessionMember(sessionId, userId)
+  if ('error' in ctx) {
+    return { success: false, message: ctx.error }
+  }
+
+  if (ctx.session.status !== SessionStatus.ACTIVE) {
+    return { success: false, message: 'La chat è disponibile solo durante una sessione attiva' }
+  }
+
+  const mute = await prisma.chatMute.findUnique({
+    where: { marketSessionId_memberId: { marketSessionId: sessionId, memberId: ctx.member.id } },
+  })
+  if (mute) {
+    return { success: false, message: "Sei stato silenziato dall'admin in questa sessione" }
+  }
+
+  const text = content.trim()
+  if (!text) {
+    return { success: false, message: 'Il messaggio non può essere vuoto' }
+  }
+  if (text.length > CHAT_MESSAGE_MAX_LENGTH) {
+    return { success: false, message: `Il messaggio non può superare ${CHAT_MESSAGE_MAX_LENGTH} caratteri` }
+  }
+
+  const message = await prisma.chatMessage.create({
+    data: {
+      marketSessionId: sessionId,
+      memberId: ctx.member.id,
+      content: text,
+    },
+    include: chatMessageInclude,
+  })
+
+  const data = toChatMessageData(message)
+  triggerChatMessage(sessionId, data).catch(() => {})
+
+  return { success: true, data }
+}
+
+/**
+ * Messaggio di sistema (nomina, chiusura asta, ecc.).
+ * memberId è il manager che ha generato l'evento. Non blocca mai il flusso chiamante.
+ */
+export async function postSystemMessage(
+  sessionId: string,
+  memberId: string,
+  content: string
+): Promise<void> {
+  try {
+    const message = await prisma.chatMessage.create({
+      data: {
+        marketSessionId: sessionId,
+        memberId,
+        content,
+        isSystem: true,
+      },
+      include: chatMessageInclude,
+    })
+    await triggerChatMessage(sessionId, toChatMessageData(message))
+  } catch (error) {
+    console.error('Failed to post system chat message:', error)
+  }
+}
+
+/**
+ * Cancella un messaggio (solo admin)
+ */
+export async function deleteChatMessage(
+  sessionId: string,
+  messageId: string,
+  adminUserId: string
+): Promise<ServiceResult> {
+  const ctx = await getSessionMember(sessionId, adminUserId)
+  if ('error' in ctx) {
+    return { success: false, message: ctx.error }
+  }
+
+  if (ctx.member.role !== MemberRole.ADMIN) {
+    return { success: false, message: 'Non autorizzato' }
+  }
+
+  const message = await prisma.chatMessage.findUnique({
+    where: { id: messageId },
+  })
+
+  if (!message || message.marketSessionId !== sessionId) {
+    return { success: false, message: 'Messaggio non trovato' }
+  }
+
+  await prisma.chatMessage.delete({ where: { id: messageId } })
+
+  await logAction(adminUserId, ctx.session.leagueId, 'CHAT_MESSAGE_DELETE', 'ChatMessage', messageId, {
+    memberId: message.memberId,
+    content: message.content,
+    isSystem: message.isSystem,
+  })
+
+  triggerChatMessageDeleted(sessionId, {
+    messageId,
+    timestamp: new Date().toISOString(),
+  }).catch(() => {})
+
+  return { success: true, message: 'Messaggio eliminato' }
+}
+
+/**
+ * Silenzia / riattiva un manager nella chat della sessione (solo admin)
+ */
+export async function setChatMute(
+  sessionId: string,
+  adminUserId: string,
+  memberId: string,
+  muted: boolean
+): Promise<ServiceResult> {
+  const ctx = await getSessionMember(sessionId, adminUserId)
+  if ('error' in ctx) {
+    return { success: false, message: ctx.error }
+  }
+
+  if (ctx.member.role !== MemberRole.ADMIN) {
+    return { success: false, message: 'Non autorizzato' }
+  }
+
+  if (memberId === ctx.member.id) {
+    return { success: false, message: 'Non puoi silenziare te stesso' }
+  }
+
+  const target = await prisma.leagueMember.findFirst({
+    where: { id: memberId, leagueId: ctx.session.leagueId },
+  })
+
+  if (!target) {
+    return { success: false, message: 'Manager non trovato' }
+  }
+
+  const key = { marketSessionId_memberId: { marketSessionId: sessionId, memberId } }
+  const wasMuted = (await prisma.chatMute.findUnique({ where: key })) !== null
+
+  // Upsert / deleteMany: scrittura atomica sulla sola riga del manager
+  if (muted) {
+    await prisma.chatMute.upsert({
+      where: key,
+      create: { marketSessionId: sessionId, memberId },
+      update: {},
+    })
+  } else {
+    await prisma.chatMute.deleteMany({ where: { marketSessionId: sessionId, memberId } })
+  }
+
+  const next = await getMutedMembers(sessionId)
+
+  await logAction(
+    adminUserId,
+    ctx.session.leagueId,
+    muted ? 'CHAT_MEMBER_MUTE' : 'CHAT_MEMBER_UNMUTE',
+    'LeagueMember',
+    memberId,
+    { muted: wasMuted },
+    { muted }
+  )
+
+  triggerChatMuteChanged(sessionId, {
+    memberId,
+    muted,
+    mutedMemberIds: next,
+    timestamp: new Date().toISOString(),
+  }).catch(() => {})
+
+  return {
+    success: true,
+    message: muted ? 'Manager silenziato' : 'Manager riattivato',
+    data: { mutedMemberIds: next },
+  }
+}
@@ -0,0 +1,489 @@
+/**
+ * compensation.service.ts - Journal delle operazioni compensative
+ *
+ * Le operazioni che spostano budget, giocatori, contratti e movimenti (rubata,
+ * svincolati, scambi 1:1 e a più squadre, pagamenti differiti, svincolo di un
+ * giocatore, finalizzazione premi, consolidamento contratti e indennizzi)
+ * registrano nella stessa transazione i passi inversi. L'admin di lega può
+ * vedere l'anteprima del rollback di una singola operazione e applicarlo:
+ * il rollback è consentito solo se rose e contratti coinvolti sono ancora
+ * nello stato lasciato dall'operazione (verificato nella transazione del
+ * rollback), e viene registrato in AuditLog. Movimenti e storico contratti
+ * creati dai sottoscrittori degli eventi hanno id assegnati dall'operazione,
+ * così il rollback elimina esattamente quelle righe.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { MemberRole, MemberStatus, Prisma, type MovementType } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { ServiceResult } from '@/shared/types/service-result'
+import { logAction } from './admin.service'
+import {
+  conflictingRows,
+  emptySnapshot,
+  parseCompensationSteps,
+  toSnapshotRow,
+  type CompensationRecordModel,
+  type CompensationStep,
+  type MovementFilter,
+  type RowStep,
+  type SnapshotRow,
+  type StateSnapshot,
+} from '../utils/compensation'
+
+type Db = Prisma.TransactionClient
+
+export interface CompensationEntryInput {
+  leagueId: string
+  userId?: string | null
+  operation: string
+  entityType: string
+  entityId: string
+  description: string
+  steps: CompensationStep[]
+}
+
+const RECORD_LABELS: Record<CompensationRecordModel, string> = {
+  auction: "Annulla l'aggiudicazione dell'asta",
+  tradeOffer: 'Segna lo scambio come annullato',
+  prizePhaseConfig: 'Riapre la fase premi (non finalizzata)',
+  contractConsolidation: 'Riapre il consolidamento contratti del manager',
+  leagueMember: 'Ripristina il budget pre-consolidamento',
+  indemnityPhase: 'Riporta la fase indennizzi in revisione admin',
+  multiPartyTrade: 'Segna lo scambio a più squadre come annullato',
+}
+
+class CompensationConflictError extends Error {
+  constructor(readonly conflicts: string[]) {
+    super(conflicts[0] ?? 'Conflitto')
+  }
+}
+
+// ==================== REGISTRAZIONE ====================
+
+/**
+ * Fotografa rose, contratti e budget indicati. Va chiamata con lo stesso
+ * client (transazione) dell'operazione, prima e dopo le modifiche.
+ * ownerIds include tutte le rose e i contratti dei manager indicati.
+ */
+export async function captureState(
+  db: Db,
+  refs: { rosterIds?: string[]; contractIds?: string[]; memberIds?: string[]; ownerIds?: string[] }
+): Promise<StateSnapshot> {
+  const snapshot = emptySnapshot()
+  const ownerIds = refs.ownerIds ?? []
+
+  if (refs.rosterIds?.length || ownerIds.length) {
+    const rosters = await db.playerRoster.findMany({
+      where: { OR: [{ id: { in: refs.rosterIds ?? [] } }, { leagueMemberId: { in: ownerIds } }] },
+    })
+    for (const r of rosters) snapshot.roster[r.id] = toSnapshotRow(r)
+  }
+  if (refs.contractIds?.length || ownerIds.length) {
+    const contracts = await db.playerContract.findMany({
+      where: { OR: [{ id: { in: refs.contractIds ?? [] } }, { leagueMemberId: { in: ownerIds } }] },
+    })
+    for (const c of contracts) snapshot.contract[c.id] = toSnapshotRow(c)
+  }
+  if (refs.memberIds?.length) {
+    const members = await db.leagueMember.findMany({
+      where: { id: { in: refs.memberIds } },
+      select: { id: true, currentBudget: true },
+    })
+    for (const m of members) snapshot.budgets[m.id] = m.currentBudget
+  }
+
+  return snapshot
+}
+
+/**
+ * Registra i passi inversi di un'operazione. Restituisce la query senza
+ * eseguirla, così può stare anche in una transazione batch ($transaction([...])).
+ */
+export function recordCompensation(db: Db, entry: CompensationEntryInput) {
+  return db.compensatingAction.create({
+    data: {
+      leagueId: entry.leagueId,
+      performedById: entry.userId ?? null,
+      operation: entry.operation,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      description: entry.description,
+      steps: entry.steps as unknown as Prisma.InputJsonValue,
+    },
+  })
+}
+
+// ==================== ANALISI ====================
+
+async function getLeagueAdmin(leagueId: string, userId: string) {
+  return prisma.leagueMember.findFirst({
+    where: { leagueId, userId, role: MemberRole.ADMIN, status: MemberStatus.ACTIVE },
+  })
+}
+
+function movementWhere(filter: MovementFilter, since: Date): Prisma.PlayerMovementWhereInput {
+  return {
+    ...(filter.auctionId && { auctionId: filter.auctionId }),
+    ...(filter.tradeId && { tradeId: filter.tradeId }),
+    ...(filter.marketSessionId && { marketSessionId: filter.marketSessionId }),
+    ...(filter.memberId && { OR: [{ fromMemberId: filter.memberId }, { toMemberId: filter.memberId }] }),
+    ...(filter.movementTypes && { movementType: { in: filter.movementTypes as MovementType[] } }),
+    // Senza asta/scambio di riferimento contano solo i movimenti successivi all'operazione
+    ...(!filter.auctionId && !filter.tradeId && { createdAt: { gte: since } }),
+  }
+}
+
+function movementStepWhere(
+  step: Extract<CompensationStep, { kind: 'MOVEMENTS' }>,
+  since: Date
+): Prisma.PlayerMovementWhereInput {
+  return step.ids ? { id: { in: step.ids } } : movementWhere(step.filter ?? {}, since)
+}
+
+function rowIds(steps: CompensationStep[]): Set<string> {
+  return new Set(steps.filter((s): s is RowStep => s.kind === 'ROW').map(s => s.id))
+}
+
+/**
+ * Descrizione leggibile dei passi, conflitti (righe modificate dopo
+ * l'operazione) e avvisi (budget che diventerebbero negativi).
+ */
+async function analyzeEntry(
+  entry: { id: string; leagueId: string; createdAt: Date; steps: Prisma.JsonValue },
+  db: Db = prisma
+) {
+  const steps = parseCompensationSteps(entry.steps)
+  const rows = steps.filter((s): s is RowStep => s.kind === 'ROW')
+
+  const rosterIds = rows.filter(s => s.table === 'roster').map(s => s.id)
+  const contractIds = rows.filter(s => s.table === 'contract').map(s => s.id)
+  const contractRosterIds = rows
+    .filter(s => s.table === 'contract')
+    .map(s => (s.before ?? s.after)?.rosterId)
+    .filter((id): id is string => typeof id === 'string')
+
+  const [current, members, rosters] = await Promise.all([
+    captureState(db, { rosterIds, contractIds }),
+    db.leagueMember.findMany({
+      where: { leagueId: entry.leagueId },
+      select: { id: true, teamName: true, currentBudget: true, user: { select: { username: true } } },
+    }),
+    db.playerRoster.findMany({
+      where: { id: { in: [...rosterIds, ...contractRosterIds] } },
+      select: { id: true, player: { select: { name: true } } },
+    }),
+  ])
+
+  const memberName = (id: unknown) => {
+    const member = members.find(m => m.id === id)
+    return member ? member.teamName || member.user.username : 'manager rimosso'
+  }
+  const playerName = new Map(rosters.map(r => [r.id, r.player.name]))
+  const rowPlayer = (step: RowStep) => {
+    const row = step.before ?? step.after
+    const rosterId = step.table === 'roster' ? step.id : row?.rosterId
+    return (typeof rosterId === 'string' && playerName.get(rosterId)) || 'giocatore'
+  }
+
+  const changes: string[] = []
+  for (const step of steps) {
+    switch (step.kind) {
+      case 'BUDGET':
+        changes.push(`Budget ${memberName(step.memberId)}: ${step.delta > 0 ? '+' : ''}${step.delta}`)
+        break
+      case 'ROW': {
+        const name = rowPlayer(step)
+        if (step.table === 'roster') {
+          if (!step.before) changes.push(`Rimuove ${name} dalla rosa di ${memberName(step.after?.leagueMemberId)}`)
+          else if (step.after && step.before.leagueMemberId !== step.after.leagueMemberId) {
+            changes.push(`Riporta ${name} da ${memberName(step.after?.leagueMemberId)} a ${memberName(step.before.leagueMemberId)}`)
+          } else changes.push(`Ripristina ${name} nella rosa di ${memberName(step.before.leagueMemberId)}`)
+        } else {
+          const terms = (row: SnapshotRow) => `${String(row.salary)}×${String(row.duration)}`
+          if (!step.before) changes.push(`Elimina il contratto di ${name}`)
+          else if (!step.after) changes.push(`Ricrea il contratto di ${name} (${terms(step.before)})`)
+          else if (terms(step.after) !== terms(step.before)) {
+            changes.push(`Ripristina il contratto di ${name}: ${terms(step.after)} → ${terms(step.before)}`)
+          } else changes.push(`Riassegna il contratto di ${name} a ${memberName(step.before.leagueMemberId)}`)
+        }
+        break
+      }
+      case 'MOVEMENTS': {
+        const count = await db.playerMovement.count({ where: movementStepWhere(step, entry.createdAt) })
+        changes.push(`Elimina ${count} moviment${count === 1 ? 'o' : 'i'} registrat${count === 1 ? 'o' : 'i'} dall'operazione`)
+        break
+      }
+      case 'HISTORY': {
+        const count = await db.contractHistory.count({ where: { id: { in: step.ids } } })
+        changes.push(`Elimina ${count} vo${count === 1 ? 'ce' : 'ci'} dello storico contratti`)
+        break
+      }
+      case 'RECORD':
+        changes.push(RECORD_LABELS[step.model])
+        break
+    }
+  }
+
+  const conflictRows = conflictingRows(steps, current)
+  const conflicts = conflictRows.map(s =>
+    `${rowPlayer(s)}: ${s.table === 'roster' ? 'rosa' : 'contratto'} modificato dopo l'operazione`
+  )
+
+  // Le operazioni successive sulle stesse righe vanno annullate prima
+  if (conflictRows.length > 0) {
+    const touched = new Set(conflictRows.map(s => s.id))
+    const later = await db.compensatingAction.findMany({
+      where: { leagueId: entry.leagueId, reversedAt: null, createdAt: { gt: entry.createdAt } },
+      orderBy: { createdAt: 'desc' },
+      select: { description: true, steps: true },
+    })
+    for (const l of later) {
+      if ([...rowIds(parseCompensationSteps(l.steps))].some(id => touched.has(id))) {
+        conflicts.push(`Annulla prima l'operazione successiva: ${l.description}`)
+      }
+    }
+  }
+
+  const warnings = steps
+    .filter((s): s is Extract<CompensationStep, { kind: 'BUDGET' }> => s.kind === 'BUDGET')
+    .flatMap(s => {
+      const member = members.find(m => m.id === s.memberId)
+      const budget = (member?.currentBudget ?? 0) + s.delta
+      return budget < 0 ? [`Il budget di ${memberName(s.memberId)} diventerebbe negativo (${budget})`] : []
+    })
+
+  return { steps, changes, conflicts, warnings }
+}
+
+// ==================== JOURNAL ====================
+
+export async function getCompensationJournal(
+  leagueId: string,
+  userId: string,
+  options: { limit?: number } = {}
+): Promise<ServiceResult> {
+  const admin = await getLeagueAdmin(leagueId, userId)
+  if (!admin) {
+    return { success: false, message: 'Non autorizzato' }
+  }
+
+  const entries = await prisma.compensatingAction.findMany({
+    where: { leagueId },
+    orderBy: { createdAt: 'desc' },
+    take: options.limit ?? 100,
+    include: {
+      performedBy: { select: { username: true } },
+      reversedBy: { select: { username: true } },
+    },
+  })
+
+  return {
+    success: true,
+    data: entries.map(e => ({
+      id: e.id,
+      operation: e.operation,
+      entityType: e.entityType,
+      entityId: e.entityId,
+      description: e.description,
+      stepCount: parseCompensationSteps(e.steps).length,
+      performedBy: e.performedBy?.username ?? null,
+      createdAt: e.createdAt,
+      reversedAt: e.reversedAt,
+      reversedBy: e.reversedBy?.username ?? null,
+      reverseReason: e.reverseReason,
+    })),
+  }
+}
+
+export async function previewCompensation(
+  leagueId: string,
+  entryId: string,
+  userId: string
+): Promise<ServiceResult> {
+  const admin = await getLeagueAdmin(leagueId, userId)
+  if (!admin) {
+    return { success: false, message: 'Non autorizzato' }
+  }
+
+  const entry = await prisma.compensatingAction.findFirst({ where: { id: entryId, leagueId } })
+  if (!entry) {
+    return { success: false, message: 'Operazione non trovata' }
+  }
+
+  const { changes, conflicts, warnings } = await analyzeEntry(entry)
+
+  return {
+    success: true,
+    data: {
+      id: entry.id,
+      description: entry.description,
+      alreadyReversed: entry.reversedAt !== null,
+      changes,
+      conflicts,
+      warnings,
+      canApply: entry.reversedAt === null && conflicts.length === 0,
+    },
+  }
+}
+
+// ==================== ROLLBACK ====================
+
+function contractData(row: SnapshotRow) {
+  // Le voci registrate prima della fase indennizzi contengono ancora draftExitDecision
+  const fields = { ...row }
+  delete fields.draftExitDecision
+  return { ...fields, renewalHistory: row.renewalHistory ?? Prisma.DbNull } as Prisma.PlayerContractUncheckedCreateInput
+}
+
+async function applyRecordStep(tx: Db, step: Extract<CompensationStep, { kind: 'RECORD' }>): Promise<void> {
+  const where = { id: step.id }
+  switch (step.model) {
+    case 'auction':
+      if (step.data) await tx.auction.update({ where, data: step.data as Prisma.AuctionUncheckedUpdateInput })
+      else await tx.auction.delete({ where })
+      break
+    case 'tradeOffer':
+      if (step.data) await tx.tradeOffer.update({ where, data: step.data as Prisma.TradeOfferUncheckedUpdateInput })
+      else await tx.tradeOffer.delete({ where })
+      break
+    case 'prizePhaseConfig':
+      if (step.data) await tx.prizePhaseConfig.update({ where, data: step.data as Prisma.PrizePhaseConfigUncheckedUpdateInput })
+      else await tx.prizePhaseConfig.delete({ where })
+      break
+    case 'contractConsolidation':
+      if (step.data) await tx.contractConsolidation.update({ where, data: step.data as Prisma.ContractConsolidationUncheckedUpdateInput })
+      else await tx.contractConsolidation.delete({ where })
+      break
+    case 'leagueMember':
+      if (step.data) await tx.leagueMember.update({ where, data: step.data as Prisma.LeagueMemberUncheckedUpdateInput })
+      break
+    case 'multiPartyTrade':
+      if (step.data) await tx.multiPartyTrade.update({ where, data: step.data as Prisma.MultiPartyTradeUncheckedUpdateInput })
+      break
+    case 'indemnityPhase':
+      if (step.data) {
+        await tx.indemnityPhase.update({ where, data: step.data as Prisma.IndemnityPhaseUncheckedUpdateInput })
+        // Gli indennizzi tornano da pagare insieme alla fase
+        await tx.indemnityDecision.updateMany({ where: { phaseId: step.id }, data: { compensationPaid: null } })
+      }
+      break
+  }
+}
+
+/**
+ * Applica i passi inversi in un ordine compatibile con i vincoli: prima si
+ * eliminano movimenti, storico e contratti creati, poi si ripristinano le rose, si
+ * eliminano quelle create e infine si ripristinano contratti, budget e record.
+ */
+async function applySteps(tx: Db, steps: CompensationStep[], since: Date): Promise<void> {
+  const rows = steps.filter((s): s is RowStep => s.kind === 'ROW')
+  const rosterRows = rows.filter(s => s.table === 'roster')
+  const contractRows = rows.filter(s => s.table === 'contract')
+
+  for (const step of steps) {
+    if (step.kind === 'MOVEMENTS') {
+      await tx.playerMovement.deleteMany({ where: movementStepWhere(step, since) })
+    } else if (step.kind === 'HISTORY') {
+      await tx.contractHistory.deleteMany({ where: { id: { in: step.ids } } })
+    }
+  }
+
+  for (const step of contractRows) {
+    if (!step.before) await tx.playerContract.delete({ where: { id: step.id } })
+  }
+
+  for (const step of rosterRows) {
+    if (!step.before) continue
+    if (step.after) {
+      await tx.playerRoster.update({ where: { id: step.id }, data: step.before as Prisma.PlayerRosterUncheckedUpdateInput })
+    } else {
+      await tx.playerRoster.create({ data: step.before as Prisma.PlayerRosterUncheckedCreateInput })
+    }
+  }
+
+  for (const step of rosterRows) {
+    if (!step.before) await tx.playerRoster.delete({ where: { id: step.id } })
+  }
+
+  for (const step of contractRows) {
+    if (!step.before) continue
+    if (step.after) {
+      await tx.playerContract.update({ where: { id: step.id }, data: contractData(step.before) as Prisma.PlayerContractUncheckedUpdateInput })
+    } else {
+      await tx.playerContract.create({ data: contractData(step.before) })
+    }
+  }
+
+  for (const step of steps) {
+    if (step.kind === 'BUDGET') {
+      await tx.leagueMember.update({ where: { id: step.memberId }, data: { currentBudget: { increment: step.delta } } })
+    } else if (step.kind === 'RECORD') {
+      await applyRecordStep(tx, step)
+    }
+  }
+}
+
+export async function applyCompensation(
+  leagueId: string,
+  entryId: string,
+  userId: string,
+  reason: string
+): Promise<ServiceResult> {
+  const admin = await getLeagueAdmin(leagueId, userId)
+  if (!admin) {
+    return { success: false, message: 'Non autorizzato' }
+  }
+
+  const entry = await prisma.compensatingAction.findFirst({ where: { id: entryId, leagueId } })
+  if (!entry) {
+    return { success: false, message: 'Operazione non trovata' }
+  }
+
+  if (entry.reversedAt) {
+    return { success: false, message: 'Operazione già annullata' }
+  }
+
+  let changes: string[]
+  try {
+    changes = await prisma.$transaction(async (tx) => {
+      // Il filtro su reversedAt evita un doppio rollback concorrente
+      const { count } = await tx.compensatingAction.updateMany({
+        where: { id: entry.id, reversedAt: null },
+        data: { reversedAt: new Date(), reversedById: userId, reverseReason: reason },
+      })
+      if (count === 0) throw new Error('Operazione già annullata')
+
+      // Conflitti verificati sulla stessa transazione dei passi inversi
+      const analysis = await analyzeEntry(entry, tx)
+      if (analysis.conflicts.length > 0) {
+        throw new CompensationConflictError(analysis.conflicts)
+      }
+
+      await applySteps(tx, analysis.steps, entry.createdAt)
+      return analysis.changes
+    })
+  } catch (error) {
+    if (error instanceof CompensationConflictError) {
+      return { success: false, message: `Impossibile annullare: ${error.message}`, data: { conflicts: error.conflicts } }
+    }
+    const message = error instanceof Error ? error.message : 'Errore durante il rollback'
+    return { success: false, message }
+  }
+
+  await logAction(userId, leagueId, 'COMPENSATION_APPLIED', entry.entityType, entry.entityId, {
+    operation: entry.operation,
+    description: entry.description,
+  }, {
+    compensationId: entry.id,
+    reason,
+    changes,
+  })
+
+  return {
+    success: true,
+    message: `Operazione annullata: ${entry.description}`,
+    data: { id: entry.id, changes },
+  }
+}
@@ -14,7 +14,7 @@ import type {
   OpeningExitEntry,
   OpeningExitReason,
 } from '../types/contract-history'
-import { calculateReleaseCost } from './contract.service'
+import { calculateReleaseCost, getContractRuleset } from './contract.service'
 import type { ServiceResult } from '@/shared/types/service-result'
 
 // ==================== CREATE CONTRACT HISTORY ENTRY ====================
@@ -54,6 +54,7 @@ export async function createContractHistoryEntries(
   try {
     const result = await prisma.contractHistory.createMany({
       data: inputs.map(input => ({
+        id: input.id,
         contractId: input.contractId,
         playerId: input.playerId,
         leagueMemberId: input.leagueMemberId,
@@ -508,9 +509,10 @@ export async function getContractPhaseProspetto(
   }
 
   // Calculate pending changes from draft values
+  const rules = await getContractRuleset(leagueId)
   for (const contract of contracts) {
     if (contract.draftReleased) {
-      const releaseCost = calculateReleaseCost(contract.salary, contract.duration)
+      const releaseCost = calculateReleaseCost(contract.salary, contract.duration, rules)
       lineItems.push({
         id: `draft-release-${contract.id}`,
         description: `[BOZZA] Taglio ${contract.roster.player.name}`,
@@ -0,0 +1,352 @@
+/**
+ * contract-scenario.service.ts - Simulatore contratti "what-if"
+ *
+ * Proietta semestre per semestre budget, monte ingaggi, bilancio, clausole e
+ * scadenze della rosa di un manager applicando rinnovi e tagli ipotetici e le
+ * entrate attese (re-incremento base della fase premi). Gli scenari si possono
+ * salvare e confrontare; nessuna operazione tocca i contratti reali.
+ *
+ * Modello semestrale (see: docs/bibbie/FINANZE.md):
+ * - semestre 0 = situazione attuale, azioni applicate nella fase CONTRATTI corrente
+ * - a ogni nuovo semestre le durate scendono di 1, i contratti a 0 scadono
+ *   ed entra il re-incremento; poi si applicano le azioni del semestre
+ * - i rinnovi non toccano il budget, i tagli costano calculateReleaseCost
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { MemberStatus, RosterStatus, type Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { ServiceResult } from '@/shared/types/service-result'
+import type { ContractRuleset } from '../utils/contract-rules'
+import type { ContractScenarioInput, SaveContractScenarioInput } from '../utils/validation'
+import {
+  calculateReleaseCost,
+  calculateRescissionClause,
+  getContractRuleset,
+  isValidRenewal,
+} from './contract.service'
+
+// Scenari salvati per manager
+export const MAX_SAVED_SCENARIOS = 10
+
+export interface ScenarioAction {
+  type: 'RENEW' | 'RELEASE'
+  contractId: string
+  semester: number
+  salary?: number
+  duration?: number
+}
+
+export interface SimulatedContract {
+  contractId: string
+  playerName: string
+  position: string
+  team: string
+  salary: number
+  duration: number
+  initialSalary: number
+}
+
+export interface ProjectedContract {
+  contractId: string
+  playerName: string
+  position: string
+  team: string
+  salary: number
+  duration: number
+  clause: number
+}
+
+export interface SemesterProjection {
+  semester: number
+  inflow: number
+  releaseCosts: number
+  budget: number
+  totalSalaries: number
+  balance: number
+  totalClauses: number
+  contracts: ProjectedContract[]
+  expired: string[]
+  renewed: string[]
+  released: string[]
+}
+
+export interface ScenarioProjection {
+  semesters: SemesterProjection[]
+  errors: string[]
+  finalBalance: number
+  minBalance: number
+}
+
+async function getActiveMember(leagueId: string, userId: string) {
+  return prisma.leagueMember.findFirst({
+    where: { leagueId, userId, status: MemberStatus.ACTIVE },
+  })
+}
+
+async function getMemberContracts(memberId: string): Promise<SimulatedContract[]> {
+  const contracts = await prisma.playerContract.findMany({
+    where: { leagueMemberId: memberId, roster: { status: RosterStatus.ACTIVE } },
+    include: { roster: { include: { player: { select: { name: true, position: true, team: true } } } } },
+  })
+
+  return contracts
+    .map(c => ({
+      contractId: c.id,
+      playerName: c.roster.player.name,
+      position: c.roster.player.position,
+      team: c.roster.player.team,
+      salary: c.salary,
+      duration: c.duration,
+      initialSalary: c.initialSalary,
+    }))
+    .sort((a, b) => a.duration - b.duration || b.salary - a.salary)
+}
+
+// Re-incremento base dell'ultima fase premi della lega (0 se mai configurata)
+async function getDefaultInflow(leagueId: string): Promise<number> {
+  const config = await prisma.prizePhaseConfig.findFirst({
+    where: { marketSession: { leagueId } },
+    orderBy: { createdAt: 'desc' },
+    select: { baseReincrement: true },
+  })
+  return config?.baseReincrement ?? 0
+}
+
+function parseActions(value: Prisma.JsonValue): ScenarioAction[] {
+  return Array.isArray(value) ? (value as unknown as ScenarioAction[]) : []
+}
+
+/**
+ * Proiezione pura di uno scenario. Le azioni non valide (contratto non più
+ * attivo, rinnovo non ammesso, taglio oltre il budget) vengono scartate e
+ * riportate in errors insieme ai semestri con bilancio negativo.
+ */
+export function projectContractScenario(
+  start: { budget: number; contracts: SimulatedContract[] },
+  input: { horizon: number; inflowPerSemester: number; actions: ScenarioAction[] },
+  rules: ContractRuleset
+): ScenarioProjection {
+  const errors: string[] = []
+  const semesters: SemesterProjection[] = []
+  let budget = start.budget
+  let contracts = start.contracts.map(c => ({ ...c }))
+
+  for (let semester = 0; semester <= input.horizon; semester++) {
+    const label = semester === 0 ? 'Ora' : `Semestre +${semester}`
+    const expired: string[] = []
+    let inflow = 0
+
+    if (semester > 0) {
+      contracts = contracts
+        .map(c => ({ ...c, duration: c.duration - 1 }))
+        .filter(c => {
+          if (c.duration > 0) return true
+          expired.push(c.playerName)
+          return false
+        })
+      inflow = input.inflowPerSemester
+      budget += inflow
+    }
+
+    const renewed: string[] = []
+    const released: string[] = []
+    let releaseCosts = 0
+
+    // Prima i tagli (liberano monte ingaggi), poi i rinnovi
+    const actions = input.actions
+      .filter(a => a.semester === semester)
+      .sort((a, b) => (a.type === b.type ? 0 : a.type === 'RELEASE' ? -1 : 1))
+
+    for (const action of actions) {
+      const contract = contracts.find(c => c.contractId === action.contractId)
+      if (!contract) {
+        errors.push(`${label}: contratto non più attivo, azione ignorata`)
+        continue
+      }
+
+      if (action.type === 'RELEASE') {
+        const cost = calculateReleaseCost(contract.salary, contract.duration, rules)
+        if (cost > budget) {
+          errors.push(`${label}: budget insufficiente per tagliare ${contract.playerName} (costo ${cost})`)
+          continue
+        }
+        budget -= cost
+        releaseCosts += cost
+        released.push(contract.playerName)
+        contracts = contracts.filter(c => c.contractId !== contract.contractId)
+        continue
+      }
+
+      const salary = action.salary ?? contract.salary
+      const duration = action.duration ?? contract.duration
+      const validation = isValidRenewal(contract.salary, contract.duration, salary, duration, contract.initialSalary, rules)
+      if (!validation.valid) {
+        errors.push(`${label}: rinnovo di ${contract.playerName} non valido (${validation.reason ?? 'regole contratto'})`)
+        continue
+      }
+      contract.salary = salary
+      contract.duration = duration
+      renewed.push(contract.playerName)
+    }
+
+    const projected = contracts.map(c => ({
+      contractId: c.contractId,
+      playerName: c.playerName,
+      position: c.position,
+      team: c.team,
+      salary: c.salary,
+      duration: c.duration,
+      clause: calculateRescissionClause(c.salary, c.duration, rules),
+    }))
+    const totalSalaries = projected.reduce((sum, c) => sum + c.salary, 0)
+    const balance = budget - totalSalaries
+
+    if (balance < 0) {
+      errors.push(`${label}: bilancio negativo (${balance}), il consolidamento sarebbe bloccato`)
+    }
+
+    semesters.push({
+      semester,
+      inflow,
+      releaseCosts,
+      budget,
+      totalSalaries,
+      balance,
+      totalClauses: projected.reduce((sum, c) => sum + c.clause, 0),
+      contracts: projected,
+      expired,
+      renewed,
+      released,
+    })
+  }
+
+  return {
+    semesters,
+    errors,
+    finalBalance: semesters[semesters.length - 1]?.balance ?? 0,
+    minBalance: Math.min(...semesters.map(s => s.balance)),
+  }
+}
+
+// ==================== SIMULATORE ====================
+
+/**
+ * Dati di partenza del simulatore: contratti attivi del manager, budget,
+ * entrate attese di default e scenari salvati con la loro proiezione.
+ */
+export async function getContractSimulator(leagueId: string, userId: string): Promise<ServiceResult> {
+  const member = await getActiveMember(leagueId, userId)
+  if (!member) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  const [contracts, defaultInflow, rules, scenarios] = await Promise.all([
+    getMemberContracts(member.id),
+    getDefaultInflow(leagueId),
+    getContractRuleset(leagueId),
+    prisma.contractScenario.findMany({
+      where: { memberId: member.id },
+      orderBy: { updatedAt: 'desc' },
+    }),
+  ])
+
+  const start = { budget: member.currentBudget, contracts }
+
+  return {
+    success: true,
+    data: {
+      budget: member.currentBudget,
+      contracts,
+      defaultInflow,
+      maxDuration: rules.maxDuration,
+      scenarios: scenarios.map(s => {
+        const actions = parseActions(s.actions)
+        return {
+          id: s.id,
+          name: s.name,
+          horizon: s.horizon,
+          inflowPerSemester: s.inflowPerSemester,
+          actions,
+          updatedAt: s.updatedAt,
+          projection: projectContractScenario(start, { horizon: s.horizon, inflowPerSemester: s.inflowPerSemester, actions }, rules),
+        }
+      }),
+    },
+  }
+}
+
+export async function simulateContractScenario(
+  leagueId: string,
+  userId: string,
+  input: ContractScenarioInput
+): Promise<ServiceResult> {
+  const member = await getActiveMember(leagueId, userId)
+  if (!member) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  const [contracts, rules] = await Promise.all([getMemberContracts(member.id), getContractRuleset(leagueId)])
+
+  return {
+    success: true,
+    data: projectContractScenario({ budget: member.currentBudget, contracts }, input, rules),
+  }
+}
+
+// ==================== SCENARI SALVATI ====================
+
+export async function saveContractScenario(
+  leagueId: string,
+  userId: string,
+  input: SaveContractScenarioInput,
+  scenarioId?: string
+): Promise<ServiceResult> {
+  const member = await getActiveMember(leagueId, userId)
+  if (!member) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  const data = {
+    name: input.name,
+    horizon: input.horizon,
+    inflowPerSemester: input.inflowPerSemester,
+    actions: input.actions as Prisma.InputJsonValue,
+  }
+
+  if (scenarioId) {
+    const existing = await prisma.contractScenario.findFirst({ where: { id: scenarioId, memberId: member.id } })
+    if (!existing) {
+      return { success: false, message: 'Scenario non trovato' }
+    }
+    const scenario = await prisma.contractScenario.update({ where: { id: scenarioId }, data })
+    return { success: true, message: 'Scenario aggiornato', data: { id: scenario.id } }
+  }
+
+  const count = await prisma.contractScenario.count({ where: { memberId: member.id } })
+  if (count >= MAX_SAVED_SCENARIOS) {
+    return { success: false, message: `Puoi salvare al massimo ${MAX_SAVED_SCENARIOS} scenari: eliminane uno` }
+  }
+
+  const scenario = await prisma.contractScenario.create({ data: { ...data, memberId: member.id } })
+  return { success: true, message: 'Scenario salvato', data: { id: scenario.id } }
+}
+
+export async function deleteContractScenario(
+  leagueId: string,
+  userId: string,
+  scenarioId: string
+): Promise<ServiceResult> {
+  const member = await getActiveMember(leagueId, userId)
+  if (!member) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  const { count } = await prisma.contractScenario.deleteMany({ where: { id: scenarioId, memberId: member.id } })
+  if (count === 0) {
+    return { success: false, message: 'Scenario non trovato' }
+  }
+
+  return { success: true, message: 'Scenario eliminato' }
+}
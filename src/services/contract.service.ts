@@ -1,29 +1,29 @@
-import { MemberStatus, RosterStatus, AcquisitionType, MovementType } from '@prisma/client'
+import { MemberStatus, RosterStatus, AcquisitionType } from '@prisma/client'
 import type { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
-import { recordMovement } from './movement.service'
-import {
-  createContractHistoryEntries,
-  createPhaseEndSnapshot,
-} from './contract-history.service'
+import { createPhaseEndSnapshot } from './contract-history.service'
+import { DomainEventTypes } from '@/shared/infrastructure/events'
+import type { PlayerMovement } from '@/shared/infrastructure/events'
+import { publishDomainEvent } from './domain-events.service'
 import type { CreateContractHistoryInput, ContractEventType } from '../types/contract-history'
 import { computeSeasonStatsBatch } from './player-stats.service'
+import { captureState, recordCompensation } from './compensation.service'
+import { assignJournalIds, diffSnapshots } from '../utils/compensation'
 import type { ServiceResult } from '@/shared/types/service-result'
-
-// Moltiplicatori per calcolo clausola rescissione (da specifica)
-const DURATION_MULTIPLIERS: Record<number, number> = {
-  4: 11,  // 4 semestri = moltiplicatore 11
-  3: 9,   // 3 semestri = moltiplicatore 9
-  2: 7,   // 2 semestri = moltiplicatore 7
-  1: 3,   // 1 semestre = moltiplicatore 3
-}
-
-const MAX_DURATION = 4 // Max 4 semestri
-const MIN_SALARY_PERCENTAGE = 0.1 // 10% del prezzo acquisto per acquisti non-PRIMO MERCATO
-const MAX_ROSTER_SIZE = 29 // Massimo giocatori in rosa dopo consolidamento
-
-// Default indennizzo per giocatori ESTERO quando non esiste una categoria individuale/base
-const DEFAULT_INDENNIZZO_ESTERO = 50
+import {
+  DEFAULT_CONTRACT_RULESET,
+  resolveContractRuleset,
+  getClauseMultiplier,
+  getReleaseCost,
+  formatReleaseCostCalculation,
+  type ContractRuleset,
+} from '../utils/contract-rules'
+import {
+  DEFAULT_INDENNIZZO_ESTERO,
+  getMemberIndemnities,
+  getPendingIndemnityPlayers,
+  recordIndemnityDecisions,
+} from './indemnity-phase.service'
 
 // M-12: Runtime validation to ensure budget never goes negative
 export async function validateBudgetNotNegative(memberId: string): Promise<boolean> {
@@ -34,21 +34,45 @@ export async function validateBudgetNotNegative(memberId: string): Promise<boole
   return member ? member.currentBudget >= 0 : true
 }
 
-function getMultiplier(duration: number): number {
-  return DURATION_MULTIPLIERS[duration] ?? 3
+// Regole contrattuali della lega (default se non configurate)
+export async function getContractRuleset(leagueId: string): Promise<ContractRuleset> {
+  const league = await prisma.league.findUnique({
+    where: { id: leagueId },
+    select: { contractRuleset: true },
+  })
+  return resolveContractRuleset(league?.contractRuleset)
+}
+
+export function calculateRescissionClause(
+  salary: number,
+  duration: number,
+  rules: ContractRuleset = DEFAULT_CONTRACT_RULESET
+): number {
+  return salary * getClauseMultiplier(duration, rules)
 }
 
-export function calculateRescissionClause(salary: number, duration: number): number {
-  return salary * getMultiplier(duration)
+export function calculateDefaultSalary(
+  auctionPrice: number,
+  rules: ContractRuleset = DEFAULT_CONTRACT_RULESET
+): number {
+  return Math.max(1, Math.round((auctionPrice * rules.defaultSalaryPercent) / 100))
 }
 
-export function calculateDefaultSalary(auctionPrice: number): number {
-  return Math.max(1, Math.round(auctionPrice / 10))
+// Ingaggio minimo per acquisti non-PRIMO MERCATO (default 10% del prezzo acquisto)
+export function calculateMinSalary(
+  acquisitionPrice: number,
+  rules: ContractRuleset = DEFAULT_CONTRACT_RULESET
+): number {
+  return Math.ceil((acquisitionPrice * rules.minSalaryPercent) / 100)
 }
 
-// Costo taglio = (ingaggio × durata rimanente) / 2
-export function calculateReleaseCost(salary: number, duration: number): number {
-  return Math.ceil((salary * duration) / 2)
+// Costo taglio = (ingaggio × durata rimanente) / 2 (percentuale configurabile per lega)
+export function calculateReleaseCost(
+  salary: number,
+  duration: number,
+  rules: ContractRuleset = DEFAULT_CONTRACT_RULESET
+): number {
+  return getReleaseCost(salary, duration, rules)
 }
 
 // Verifica se la lega è in fase CONTRATTI
@@ -73,11 +97,12 @@ export function isValidRenewal(
   currentDuration: number,
   newSalary: number,
   newDuration: number,
-  initialSalary: number
+  initialSalary: number,
+  rules: ContractRuleset = DEFAULT_CONTRACT_RULESET
 ): { valid: boolean; reason?: string } {
   // Max duration check
-  if (newDuration > MAX_DURATION) {
-    return { valid: false, reason: `Durata massima: ${MAX_DURATION} semestri` }
+  if (newDuration > rules.maxDuration) {
+    return { valid: false, reason: `Durata massima: ${rules.maxDuration} semestri` }
   }
 
   // Caso SPALMAINGAGGI: durata corrente = 1
@@ -129,6 +154,8 @@ export async function getContracts(leagueId: string, userId: string): Promise<Se
     return { success: false, message: 'Non sei membro di questa lega' }
   }
 
+  const rules = await getContractRuleset(leagueId)
+
   // Check if in CONTRATTI phase and if user has consolidated
   const activeSession = await prisma.marketSession.findFirst({
     where: { leagueId, status: 'ACTIVE', currentPhase: 'CONTRATTI' },
@@ -168,7 +195,6 @@ export async function getContracts(leagueId: string, userId: string): Promise<Se
           draftSalary: true,
           draftDuration: true,
           draftReleased: true,
-          draftExitDecision: true,
           preConsolidationSalary: true,
           preConsolidationDuration: true,
         },
@@ -186,45 +212,10 @@ export async function getContracts(leagueId: string, userId: string): Promise<Se
   const allPlayerIds = roster.map(r => r.playerId)
   const statsMap = await computeSeasonStatsBatch(allPlayerIds)
 
-  // Fetch indemnity amounts for ESTERO players from individual "Indennizzo - PlayerName" categories
-  // (activeSession is already defined above for CONTRATTI phase check)
-  // Map: playerName -> indemnity amount (from consolidated individual categories)
-  const playerIndemnityAmounts: Record<string, number> = {}
-  let indennizzoEsteroDefault = DEFAULT_INDENNIZZO_ESTERO // fallback if no individual category exists
-  if (activeSession) {
-    // Get base amount from "Indennizzo Partenza Estero"
-    const baseCategory = await prisma.prizeCategory.findFirst({
-      where: {
-        marketSessionId: activeSession.id,
-        name: 'Indennizzo Partenza Estero',
-        isSystemPrize: true,
-      },
-      include: {
-        managerPrizes: { where: { leagueMemberId: member.id } },
-      },
-    })
-    if (baseCategory?.managerPrizes[0]) {
-      indennizzoEsteroDefault = baseCategory.managerPrizes[0].amount
-    }
-
-    // Get individual "Indennizzo - PlayerName" categories (created at consolidation)
-    const individualCategories = await prisma.prizeCategory.findMany({
-      where: {
-        marketSessionId: activeSession.id,
-        name: { startsWith: 'Indennizzo - ' },
-        isSystemPrize: true,
-      },
-      include: {
-        managerPrizes: { where: { leagueMemberId: member.id } },
-      },
-    })
-    for (const cat of individualCategories) {
-      const playerName = cat.name.replace('Indennizzo - ', '')
-      if (cat.managerPrizes[0]) {
-        playerIndemnityAmounts[playerName] = cat.managerPrizes[0].amount
-      }
-    }
-  }
+  // KEEP/RELEASE decisions and compensations of exited players (indemnity phase)
+  const memberIndemnities = activeSession
+    ? await getMemberIndemnities(activeSession.id, member.id)
+    : { baseCompensation: DEFAULT_INDENNIZZO_ESTERO, players: new Map<string, { decision: string | null; compensation: number }>() }
 
   // Separate players with and without contracts
   const playersWithContract = roster.filter(r => r.contract)
@@ -264,7 +255,7 @@ export async function getContracts(leagueId: string, userId: string): Promise<Se
   // Add calculated fields for contracts (including draft values)
   const contracts = playersWithContract.map(r => {
     const contract = r.contract!
-    const rescissionClause = calculateRescissionClause(contract.salary, contract.duration)
+    const rescissionClause = calculateRescissionClause(contract.salary, contract.duration, rules)
     const isExitedPlayer = r.player.listStatus === 'NOT_IN_LIST' && r.player.exitReason != null && r.player.exitReason !== 'RITIRATO'
     const exitReason = r.player.exitReason
 
@@ -306,12 +297,12 @@ export async function getContracts(leagueId: string, userId: string): Promise<Se
       draftSalary: displayDraftSalary,
       draftDuration: displayDraftDuration,
       draftReleased: contract.draftReleased,  // Marcato per taglio
-      draftExitDecision: contract.draftExitDecision,  // null=INDECISO, "KEEP", "RELEASE"
+      draftExitDecision: memberIndemnities.players.get(r.id)?.decision ?? null,  // null=INDECISO, "KEEP", "RELEASE"
       // Exited player info
       isExitedPlayer,
       exitReason,
       indemnityCompensation: (isExitedPlayer && exitReason === 'ESTERO')
-        ? (playerIndemnityAmounts[r.player.name] ?? indennizzoEsteroDefault)
+        ? (memberIndemnities.players.get(r.id)?.compensation ?? memberIndemnities.baseCompensation)
         : 0,
       // Flag to indicate if contract was modified during this session's consolidation
       wasModified,
@@ -394,7 +385,7 @@ export async function getContracts(leagueId: string, userId: string): Promise<Se
     acquisitionType: r.acquisitionType,
     minSalary: r.acquisitionType === AcquisitionType.FIRST_MARKET
       ? 1
-      : Math.ceil(r.acquisitionPrice * MIN_SALARY_PERCENTAGE),
+      : calculateMinSalary(r.acquisitionPrice, rules),
     // Draft values (if any saved)
     draftSalary: r.draftContract?.salary || null,
     draftDuration: r.draftContract?.duration || null,
@@ -415,8 +406,9 @@ export async function getContracts(leagueId: string, userId: string): Promise<Se
       memberBudget: budgetToShow,
       inContrattiPhase,
       isConsolidated,  // Include consolidation status
-      indennizzoEsteroAmount: indennizzoEsteroDefault,
+      indennizzoEsteroAmount: memberIndemnities.baseCompensation,
       totalRenewalCost,  // Total cost of renewals for the formula
+      rules,  // Regole contrattuali della lega (moltiplicatori, durata max, costo taglio, rosa max)
     },
   }
 }
@@ -453,7 +445,8 @@ export async function getContractById(
     return { success: false, message: 'Non sei il proprietario di questo contratto' }
   }
 
-  const rescissionClause = calculateRescissionClause(contract.salary, contract.duration)
+  const rules = resolveContractRuleset(contract.roster.leagueMember.league.contractRuleset)
+  const rescissionClause = calculateRescissionClause(contract.salary, contract.duration, rules)
   const canRenew = true  // Tutti possono rinnovare (aumentare ingaggio)
   const canSpalmare = contract.duration === 1
   const inContrattiPhase = await isInContrattiPhase(contract.roster.leagueMember.leagueId)
@@ -466,7 +459,7 @@ export async function getContractById(
         rescissionClause,
         canRenew,
         canSpalmare,
-        maxDuration: MAX_DURATION,
+        maxDuration: rules.maxDuration,
       },
       memberBudget: contract.roster.leagueMember.currentBudget,
       inContrattiPhase,
@@ -517,9 +510,11 @@ export async function createContract(
     return { success: false, message: 'Puoi impostare contratti solo durante la fase CONTRATTI' }
   }
 
+  const rules = resolveContractRuleset(roster.leagueMember.league.contractRuleset)
+
   // Validate duration
-  if (duration < 1 || duration > MAX_DURATION) {
-    return { success: false, message: `Durata deve essere tra 1 e ${MAX_DURATION} semestri` }
+  if (duration < 1 || duration > rules.maxDuration) {
+    return { success: false, message: `Durata deve essere tra 1 e ${rules.maxDuration} semestri` }
   }
 
   // Validate salary
@@ -529,14 +524,14 @@ export async function createContract(
 
   // Check minimum salary rule for non-PRIMO MERCATO acquisitions
   if (roster.acquisitionType !== AcquisitionType.FIRST_MARKET) {
-    const minSalary = Math.ceil(roster.acquisitionPrice * MIN_SALARY_PERCENTAGE)
+    const minSalary = calculateMinSalary(roster.acquisitionPrice, rules)
     if (salary < minSalary) {
-      return { success: false, message: `Ingaggio minimo per questo giocatore: ${minSalary} (10% del prezzo acquisto ${roster.acquisitionPrice})` }
+      return { success: false, message: `Ingaggio minimo per questo giocatore: ${minSalary} (${rules.minSalaryPercent}% del prezzo acquisto ${roster.acquisitionPrice})` }
     }
   }
 
   // Calculate rescission clause
-  const rescissionClause = calculateRescissionClause(salary, duration)
+  const rescissionClause = calculateRescissionClause(salary, duration, rules)
 
   // Create contract
   const contract = await prisma.playerContract.create({
@@ -694,9 +689,11 @@ export async function renewContract(
     return { success: false, message: 'Ingaggio minimo: 1' }
   }
 
+  const rules = resolveContractRuleset(contract.roster.leagueMember.league.contractRuleset)
+
   // Validate duration
-  if (newDuration < 1 || newDuration > MAX_DURATION) {
-    return { success: false, message: `Durata deve essere tra 1 e ${MAX_DURATION} semestri` }
+  if (newDuration < 1 || newDuration > rules.maxDuration) {
+    return { success: false, message: `Durata deve essere tra 1 e ${rules.maxDuration} semestri` }
   }
 
   // Validate renewal according to business rules
@@ -705,7 +702,8 @@ export async function renewContract(
     contract.duration,
     newSalary,
     newDuration,
-    contract.initialSalary
+    contract.initialSalary,
+    rules
   )
 
   if (!validation.valid) {
@@ -722,7 +720,7 @@ export async function renewContract(
   const member = contract.roster.leagueMember
 
   // Calculate new rescission clause
-  const newRescissionClause = calculateRescissionClause(newSalary, newDuration)
+  const newRescissionClause = calculateRescissionClause(newSalary, newDuration, rules)
 
   // Update contract
   const updatedContract = await prisma.playerContract.update({
@@ -763,20 +761,28 @@ export async function renewContract(
     },
   })
 
-  // Record movement for CONTRACT_RENEW
-  await recordMovement({
-    leagueId: contract.roster.leagueMember.leagueId,
+  // Record movement for CONTRACT_RENEW (sottoscrittori CONTRACT_RENEWED)
+  await publishDomainEvent(DomainEventTypes.CONTRACT_RENEWED, {
+    contractId,
     playerId: contract.roster.playerId,
-    movementType: 'CONTRACT_RENEW',
-    toMemberId: member.id, // Player stays with the same owner
-    price: renewalCost,
-    oldSalary: contract.salary,
-    oldDuration: contract.duration,
-    oldClause: calculateRescissionClause(contract.salary, contract.duration),
     newSalary,
     newDuration,
-    newClause: newRescissionClause,
-    marketSessionId: activeSession?.id,
+    leagueId: contract.roster.leagueMember.leagueId,
+    memberId: member.id,
+    movement: {
+      leagueId: contract.roster.leagueMember.leagueId,
+      playerId: contract.roster.playerId,
+      movementType: 'CONTRACT_RENEW',
+      toMemberId: member.id, // Player stays with the same owner
+      price: renewalCost,
+      oldSalary: contract.salary,
+      oldDuration: contract.duration,
+      oldClause: calculateRescissionClause(contract.salary, contract.duration, rules),
+      newSalary,
+      newDuration,
+      newClause: newRescissionClause,
+      marketSessionId: activeSession?.id,
+    },
   })
 
   return {
@@ -860,7 +866,8 @@ export async function releasePlayer(
   const player = contract.roster.player
   const isExitedPlayer = player.listStatus === 'NOT_IN_LIST' &&
     (player.exitReason === 'ESTERO' || player.exitReason === 'RETROCESSO')
-  const releaseCost = isExitedPlayer ? 0 : calculateReleaseCost(contract.salary, contract.duration)
+  const rules = resolveContractRuleset(contract.roster.leagueMember.league.contractRuleset)
+  const releaseCost = isExitedPlayer ? 0 : calculateReleaseCost(contract.salary, contract.duration, rules)
 
   // Check budget
   const member = contract.roster.leagueMember
@@ -869,35 +876,12 @@ export async function releasePlayer(
   }
 
   const playerName = player.name
-
-  // Delete contract
-  await prisma.playerContract.delete({
-    where: { id: contractId },
-  })
-
-  // Update roster status to RELEASED
-  await prisma.playerRoster.update({
-    where: { id: contract.rosterId },
-    data: {
-      status: RosterStatus.RELEASED,
-      releasedAt: new Date(),
-    },
-  })
-
-  // Deduct budget
-  await prisma.leagueMember.update({
-    where: { id: member.id },
-    data: {
-      currentBudget: {
-        decrement: releaseCost,
-      },
-    },
-  })
+  const leagueId = contract.roster.leagueMember.leagueId
 
   // Get active market session
   const activeSession = await prisma.marketSession.findFirst({
     where: {
-      leagueId: contract.roster.leagueMember.leagueId,
+      leagueId,
       status: 'ACTIVE',
     },
   })
@@ -906,21 +890,72 @@ export async function releasePlayer(
   const movementType = isExitedPlayer
     ? (player.exitReason === 'ESTERO' ? 'ABROAD_COMPENSATION' : 'RELEGATION_RELEASE')
     : 'RELEASE'
-  await recordMovement({
-    leagueId: contract.roster.leagueMember.leagueId,
+  const movement: PlayerMovement = {
+    leagueId,
     playerId: contract.roster.playerId,
     movementType,
     fromMemberId: member.id,
     price: releaseCost,
     oldSalary: contract.salary,
     oldDuration: contract.duration,
-    oldClause: calculateRescissionClause(contract.salary, contract.duration),
+    oldClause: calculateRescissionClause(contract.salary, contract.duration, rules),
     marketSessionId: activeSession?.id,
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const journalRefs = { memberIds: [member.id], rosterIds: [contract.rosterId], contractIds: [contractId] }
+    const stateBefore = await captureState(tx, journalRefs)
+
+    // Delete contract
+    await tx.playerContract.delete({
+      where: { id: contractId },
+    })
+
+    // Update roster status to RELEASED
+    await tx.playerRoster.update({
+      where: { id: contract.rosterId },
+      data: {
+        status: RosterStatus.RELEASED,
+        releasedAt: new Date(),
+      },
+    })
+
+    // Deduct budget
+    await tx.leagueMember.update({
+      where: { id: member.id },
+      data: {
+        currentBudget: {
+          decrement: releaseCost,
+        },
+      },
+    })
+
+    await recordCompensation(tx, {
+      leagueId,
+      userId,
+      operation: 'PLAYER_RELEASED',
+      entityType: 'PlayerRoster',
+      entityId: contract.rosterId,
+      description: `Svincolo di ${playerName} (${member.teamName || 'manager'})`,
+      steps: [
+        ...diffSnapshots(stateBefore, await captureState(tx, journalRefs)),
+        // Scritto dal sottoscrittore PLAYER_REMOVED_FROM_ROSTER con questo id
+        { kind: 'MOVEMENTS', ids: assignJournalIds([movement]) },
+      ],
+    })
+  })
+
+  await publishDomainEvent(DomainEventTypes.PLAYER_REMOVED_FROM_ROSTER, {
+    rosterId: contract.rosterId,
+    playerId: contract.roster.playerId,
+    memberId: member.id,
+    leagueId,
+    movement,
   })
 
   const releaseMessage = isExitedPlayer
     ? `${playerName} svincolato gratuitamente (${player.exitReason ?? 'sconosciuto'}).`
-    : `${playerName} svincolato. Costo taglio: ${releaseCost}M (${contract.salary}×${contract.duration}/2)`
+    : `${playerName} svincolato. Costo taglio: ${releaseCost}M (${formatReleaseCostCalculation(contract.salary, contract.duration, rules)})`
 
   return {
     success: true,
@@ -964,27 +999,30 @@ export async function previewRenewal(
     return { success: false, message: 'Non autorizzato' }
   }
 
+  const rules = await getContractRuleset(contract.roster.leagueMember.leagueId)
+
   // Validate renewal
   const validation = isValidRenewal(
     contract.salary,
     contract.duration,
     newSalary,
     newDuration,
-    contract.initialSalary
+    contract.initialSalary,
+    rules
   )
 
   // Calculate costs
   const currentValue = contract.salary * contract.duration
   const newValue = newSalary * newDuration
   const renewalCost = Math.max(0, newValue - currentValue)
-  const newRescissionClause = calculateRescissionClause(newSalary, newDuration)
+  const newRescissionClause = calculateRescissionClause(newSalary, newDuration, rules)
 
   return {
     success: true,
     data: {
       currentSalary: contract.salary,
       currentDuration: contract.duration,
-      currentClause: calculateRescissionClause(contract.salary, contract.duration),
+      currentClause: calculateRescissionClause(contract.salary, contract.duration, rules),
       initialSalary: contract.initialSalary,
       newSalary,
       newDuration,
@@ -1026,14 +1064,16 @@ export async function previewContract(
     return { success: false, message: 'Non autorizzato' }
   }
 
+  const rules = await getContractRuleset(roster.leagueMember.leagueId)
+
   // Calculate minimum salary
   const minSalary = roster.acquisitionType === AcquisitionType.FIRST_MARKET
     ? 1
-    : Math.ceil(roster.acquisitionPrice * MIN_SALARY_PERCENTAGE)
+    : calculateMinSalary(roster.acquisitionPrice, rules)
 
   const isValidSalary = salary >= minSalary
-  const isValidDuration = duration >= 1 && duration <= MAX_DURATION
-  const rescissionClause = calculateRescissionClause(salary, duration)
+  const isValidDuration = duration >= 1 && duration <= rules.maxDuration
+  const rescissionClause = calculateRescissionClause(salary, duration, rules)
 
   return {
     success: true,
@@ -1048,7 +1088,7 @@ export async function previewContract(
       isValid: isValidSalary && isValidDuration,
       validationError: !isValidSalary
         ? `Ingaggio minimo: ${minSalary}`
-        : (!isValidDuration ? `Durata deve essere tra 1 e ${MAX_DURATION}` : undefined),
+        : (!isValidDuration ? `Durata deve essere tra 1 e ${rules.maxDuration}` : undefined),
     },
   }
 }
@@ -1159,18 +1199,26 @@ export async function consolidateContracts(
     return { success: false, message: 'Hai già consolidato i tuoi contratti' }
   }
 
-  // Collect history entries to create after transaction succeeds
+  const rules = await getContractRuleset(leagueId)
+
+  // Collect history entries and movements to publish after transaction succeeds
   const historyEntries: CreateContractHistoryInput[] = []
+  const movements: PlayerMovement[] = []
 
   // Process all operations in a transaction (with extended timeout for complex consolidations)
   try {
     await prisma.$transaction(async (tx) => {
+      // Stato di rose e contratti del manager per il journal compensativo
+      const journalRefs = { memberIds: [member.id], ownerIds: [member.id] }
+      const stateBefore = await captureState(tx, journalRefs)
+
       // 0. Salva il budget pre-consolidamento PRIMA di qualsiasi modifica
       // Questo permette alla pagina Finanze di mostrare i valori "congelati" durante tutta la fase CONTRATTI
       await tx.leagueMember.update({
         where: { id: member.id },
         data: {
-          preConsolidationBudget: member.currentBudget,
+          // Already set if the indemnity phase paid compensations to this member
+          preConsolidationBudget: member.preConsolidationBudget ?? member.currentBudget,
         },
       })
 
@@ -1186,12 +1234,16 @@ export async function consolidateContracts(
             throw new Error(`Contratto ${renewal.contractId} non valido`)
           }
 
+          if (renewal.duration < 1 || renewal.duration > rules.maxDuration) {
+            throw new Error(`${contract.roster.player.name}: durata deve essere tra 1 e ${rules.maxDuration} semestri`)
+          }
+
           // Calculate renewal cost
           const salaryDiff = renewal.salary - contract.salary
           const renewalCost = salaryDiff > 0 ? salaryDiff : 0
 
           // Calculate new rescission clause
-          const newRescissionClause = calculateRescissionClause(renewal.salary, renewal.duration)
+          const newRescissionClause = calculateRescissionClause(renewal.salary, renewal.duration, rules)
 
           // Determine if this is a renewal (increase) or spalma (decrease salary with duration > 1)
           const isSpalma = contract.duration === 1 && renewal.duration > 1
@@ -1252,8 +1304,12 @@ export async function consolidateContracts(
             throw new Error(`Il giocatore ha già un contratto`)
           }
 
+          if (nc.duration < 1 || nc.duration > rules.maxDuration) {
+            throw new Error(`Durata deve essere tra 1 e ${rules.maxDuration} semestri`)
+          }
+
           // Calculate rescission clause
-          const rescissionClause = calculateRescissionClause(nc.salary, nc.duration)
+          const rescissionClause = calculateRescissionClause(nc.salary, nc.duration, rules)
 
           // Create contract
           await tx.playerContract.create({
@@ -1270,27 +1326,10 @@ export async function consolidateContracts(
         }
       }
 
-      // 2.5 Validate: all exited players must have an explicit decision (KEEP or RELEASE)
-      const undecidedExited = await tx.playerContract.findMany({
-        where: {
-          leagueMemberId: member.id,
-          draftExitDecision: null,
-          roster: {
-            status: RosterStatus.ACTIVE,
-            player: {
-              listStatus: 'NOT_IN_LIST',
-              exitReason: { in: ['RETROCESSO', 'ESTERO'] },
-            },
-          },
-        },
-        include: {
-          roster: { include: { player: { select: { name: true } } } },
-        },
-      })
-
-      if (undecidedExited.length > 0) {
-        const names = undecidedExited.map(c => c.roster.player.name).join(', ')
-        throw new Error(`Devi decidere per tutti i giocatori usciti: ${names}`)
+      // 2.5 Exited players (RETROCESSO/ESTERO) are released or kept by the indemnity phase
+      const pendingIndemnities = await getPendingIndemnityPlayers(tx, activeSession.id, member.id)
+      if (pendingIndemnities.length > 0) {
+        throw new Error(`Gli indennizzi non sono ancora stati consolidati dall'admin: ${pendingIndemnities.join(', ')}`)
       }
 
       // 3. Process draft releases (players marked for release)
@@ -1304,146 +1343,39 @@ export async function consolidateContracts(
         },
       })
 
-      // Fetch indemnity amounts for ESTERO players from individual categories
-      let indennizzoEsteroDefault = DEFAULT_INDENNIZZO_ESTERO
-      const baseIndemnityCategory = await tx.prizeCategory.findFirst({
-        where: {
-          marketSessionId: activeSession.id,
-          name: 'Indennizzo Partenza Estero',
-          isSystemPrize: true,
-        },
-        include: {
-          managerPrizes: { where: { leagueMemberId: member.id } },
-        },
-      })
-      if (baseIndemnityCategory?.managerPrizes[0]) {
-        indennizzoEsteroDefault = baseIndemnityCategory.managerPrizes[0].amount
-      }
-
-      // Get individual "Indennizzo - PlayerName" categories for precise amounts
-      const individualIndemnityCategories = await tx.prizeCategory.findMany({
-        where: {
-          marketSessionId: activeSession.id,
-          name: { startsWith: 'Indennizzo - ' },
-          isSystemPrize: true,
-        },
-        include: {
-          managerPrizes: { where: { leagueMemberId: member.id } },
-        },
-      })
-      const playerIndemnityMap: Record<string, number> = {}
-      for (const cat of individualIndemnityCategories) {
-        const playerName = cat.name.replace('Indennizzo - ', '')
-        if (cat.managerPrizes[0]) {
-          playerIndemnityMap[playerName] = cat.managerPrizes[0].amount
-        }
-      }
-
       for (const contract of contractsToRelease) {
         const player = contract.roster.player
-        const isExitedPlayer = player.listStatus === 'NOT_IN_LIST' && player.exitReason != null
-
-        if (isExitedPlayer) {
-          // EXITED PLAYER RELEASE: no release cost
-          if (player.exitReason === 'ESTERO') {
-            // ESTERO: receive indemnity compensation from individual category or default
-            const compensation = playerIndemnityMap[player.name] ?? indennizzoEsteroDefault
-            await tx.leagueMember.update({
-              where: { id: member.id },
-              data: { currentBudget: { increment: compensation } },
-            })
-
-            // Track history entry for ESTERO release
-            historyEntries.push({
-              contractId: contract.id,
-              playerId: player.id,
-              leagueMemberId: member.id,
-              marketSessionId: activeSession.id,
-              eventType: 'RELEASE_ESTERO',
-              previousSalary: contract.salary,
-              previousDuration: contract.duration,
-              previousClause: contract.rescissionClause,
-              income: compensation,
-              notes: `Rilascio ${player.name} (ESTERO) - Indennizzo: ${compensation}`,
-            })
-
-            // Track indemnity as separate entry
-            historyEntries.push({
-              playerId: player.id,
-              leagueMemberId: member.id,
-              marketSessionId: activeSession.id,
-              eventType: 'INDEMNITY_RECEIVED',
-              income: compensation,
-              notes: `Indennizzo ricevuto per ${player.name}`,
-            })
-
-            await recordMovement({
-              leagueId,
-              marketSessionId: activeSession.id,
-              playerId: player.id,
-              fromMemberId: member.id,
-              toMemberId: null,
-              movementType: 'ABROAD_COMPENSATION',
-              price: compensation,
-            })
-          } else {
-            // RETROCESSO: free release, no compensation
-            // Track history entry for RETROCESSO release
-            historyEntries.push({
-              contractId: contract.id,
-              playerId: player.id,
-              leagueMemberId: member.id,
-              marketSessionId: activeSession.id,
-              eventType: 'RELEASE_RETROCESSO',
-              previousSalary: contract.salary,
-              previousDuration: contract.duration,
-              previousClause: contract.rescissionClause,
-              cost: 0,
-              notes: `Rilascio ${player.name} (RETROCESSO) - Gratuito`,
-            })
-
-            await recordMovement({
-              leagueId,
-              marketSessionId: activeSession.id,
-              playerId: player.id,
-              fromMemberId: member.id,
-              toMemberId: null,
-              movementType: 'RELEGATION_RELEASE',
-              price: 0,
-            })
-          }
-        } else {
-          // NORMAL RELEASE: standard release cost
-          const releaseCost = calculateReleaseCost(contract.salary, contract.duration)
-          await tx.leagueMember.update({
-            where: { id: member.id },
-            data: { currentBudget: { decrement: releaseCost } },
-          })
 
-          // Track history entry for normal release
-          historyEntries.push({
-            contractId: contract.id,
-            playerId: contract.roster.playerId,
-            leagueMemberId: member.id,
-            marketSessionId: activeSession.id,
-            eventType: 'RELEASE_NORMAL',
-            previousSalary: contract.salary,
-            previousDuration: contract.duration,
-            previousClause: contract.rescissionClause,
-            cost: releaseCost,
-            notes: `Taglio ${player.name} - Costo: ${releaseCost} (${contract.salary}×${contract.duration}/2)`,
-          })
+        // Standard release cost
+        const releaseCost = calculateReleaseCost(contract.salary, contract.duration, rules)
+        await tx.leagueMember.update({
+          where: { id: member.id },
+          data: { currentBudget: { decrement: releaseCost } },
+        })
 
-          await recordMovement({
-            leagueId,
-            marketSessionId: activeSession.id,
-            playerId: contract.roster.playerId,
-            fromMemberId: member.id,
-            toMemberId: null,
-            movementType: 'RELEASE',
-            price: releaseCost,
-          })
-        }
+        // Track history entry for normal release
+        historyEntries.push({
+          contractId: contract.id,
+          playerId: contract.roster.playerId,
+          leagueMemberId: member.id,
+          marketSessionId: activeSession.id,
+          eventType: 'RELEASE_NORMAL',
+          previousSalary: contract.salary,
+          previousDuration: contract.duration,
+          previousClause: contract.rescissionClause,
+          cost: releaseCost,
+          notes: `Taglio ${player.name} - Costo: ${releaseCost} (${formatReleaseCostCalculation(contract.salary, contract.duration, rules)})`,
+        })
+
+        movements.push({
+          leagueId,
+          marketSessionId: activeSession.id,
+          playerId: contract.roster.playerId,
+          fromMemberId: member.id,
+          toMemberId: null,
+          movementType: 'RELEASE',
+          price: releaseCost,
+        })
 
         // Delete the contract
         await tx.playerContract.delete({
@@ -1460,57 +1392,6 @@ export async function consolidateContracts(
         })
       }
 
-      // Record KEEP movements for exited players NOT released
-      const keptExitedPlayers = await tx.playerContract.findMany({
-        where: {
-          leagueMemberId: member.id,
-          draftReleased: false,
-          roster: {
-            status: RosterStatus.ACTIVE,
-            player: {
-              listStatus: 'NOT_IN_LIST',
-              exitReason: { in: ['RETROCESSO', 'ESTERO'] },
-            },
-          },
-        },
-        include: {
-          roster: { include: { player: { select: { id: true, name: true, exitReason: true } } } },
-        },
-      })
-
-      for (const contract of keptExitedPlayers) {
-        const movementType: MovementType = contract.roster.player.exitReason === 'ESTERO'
-          ? MovementType.ABROAD_KEEP : MovementType.RELEGATION_KEEP
-        const eventType: ContractEventType = contract.roster.player.exitReason === 'ESTERO'
-          ? 'KEEP_ESTERO' : 'KEEP_RETROCESSO'
-
-        // Track history entry for KEEP decision
-        historyEntries.push({
-          contractId: contract.id,
-          playerId: contract.roster.player.id,
-          leagueMemberId: member.id,
-          marketSessionId: activeSession.id,
-          eventType,
-          previousSalary: contract.salary,
-          previousDuration: contract.duration,
-          previousClause: contract.rescissionClause,
-          newSalary: contract.salary,
-          newDuration: contract.duration,
-          newClause: contract.rescissionClause,
-          notes: `Mantenuto ${contract.roster.player.name} (${contract.roster.player.exitReason ?? 'sconosciuto'})`,
-        })
-
-        await recordMovement({
-          leagueId,
-          marketSessionId: activeSession.id,
-          playerId: contract.roster.player.id,
-          fromMemberId: null,
-          toMemberId: member.id,
-          movementType,
-          price: 0,
-        })
-      }
-
       // 4. Check if all remaining active players have contracts
       const roster = await tx.playerRoster.findMany({
         where: {
@@ -1526,10 +1407,10 @@ export async function consolidateContracts(
         throw new Error(`${playersWithoutContract.length} giocatori senza contratto: ${names}`)
       }
 
-      // 4.5 Check roster size limit (max 29 players)
-      if (roster.length > MAX_ROSTER_SIZE) {
-        const excess = roster.length - MAX_ROSTER_SIZE
-        throw new Error(`Rosa troppo grande: ${roster.length} giocatori. Devi tagliare ${excess} giocator${excess === 1 ? 'e' : 'i'} (max ${MAX_ROSTER_SIZE})`)
+      // 4.5 Check roster size limit (default max 29 players)
+      if (roster.length > rules.maxRosterSize) {
+        const excess = roster.length - rules.maxRosterSize
+        throw new Error(`Rosa troppo grande: ${roster.length} giocatori. Devi tagliare ${excess} giocator${excess === 1 ? 'e' : 'i'} (max ${rules.maxRosterSize})`)
       }
 
       // M-11: Ricalcolo monte ingaggi post-consolidamento
@@ -1548,25 +1429,43 @@ export async function consolidateContracts(
       }
 
       // 5. Clear all draft values and create consolidation record
-      await tx.contractConsolidation.create({
+      const consolidation = await tx.contractConsolidation.create({
         data: {
           sessionId: activeSession.id,
           memberId: member.id,
         },
       })
+
+      await recordCompensation(tx, {
+        leagueId,
+        userId,
+        operation: 'CONTRACTS_CONSOLIDATED',
+        entityType: 'ContractConsolidation',
+        entityId: consolidation.id,
+        description: `Consolidamento contratti di ${member.teamName || 'manager'}`,
+        steps: [
+          ...diffSnapshots(stateBefore, await captureState(tx, journalRefs)),
+          { kind: 'RECORD', model: 'leagueMember', id: member.id, data: { preConsolidationBudget: member.preConsolidationBudget } },
+          { kind: 'RECORD', model: 'contractConsolidation', id: consolidation.id, data: null },
+          // Scritti dal sottoscrittore CONTRACT_CONSOLIDATED con questi id
+          { kind: 'MOVEMENTS', ids: assignJournalIds(movements) },
+          { kind: 'HISTORY', ids: assignJournalIds(historyEntries) },
+        ],
+      })
     }, {
       timeout: 30000, // 30 seconds timeout for complex consolidations
       maxWait: 10000, // 10 seconds max wait to acquire connection
     })
 
-    // After successful consolidation, batch create contract history entries
-    if (historyEntries.length > 0) {
-      try {
-        await createContractHistoryEntries(historyEntries)
-      } catch {
-        // Don't fail the consolidation if history creation fails
-      }
-    }
+    // After successful consolidation, record contract history and movements
+    // (sottoscrittori CONTRACT_CONSOLIDATED; gli errori non fanno fallire il consolidamento)
+    await publishDomainEvent(DomainEventTypes.CONTRACT_CONSOLIDATED, {
+      leagueId,
+      sessionId: activeSession.id,
+      memberId: member.id,
+      historyEntries,
+      movements,
+    })
 
     // After successful consolidation, create PHASE_END snapshot
     try {
@@ -1863,6 +1762,28 @@ export async function saveDrafts(
     return { success: false, message: 'Hai già consolidato i tuoi contratti' }
   }
 
+  // Exited player decisions are rows of the indemnity phase: record them first
+  // so a closed or expired decision window rejects the save as a whole
+  if (exitDecisions.length > 0) {
+    const exitContracts = await prisma.playerContract.findMany({
+      where: { id: { in: exitDecisions.map(ed => ed.contractId) }, leagueMemberId: member.id },
+      select: { id: true, rosterId: true },
+    })
+    const rosterByContract = new Map(exitContracts.map(c => [c.id, c.rosterId]))
+    if (exitDecisions.some(ed => !rosterByContract.has(ed.contractId))) {
+      return { success: false, message: 'Contratto non valido per la decisione' }
+    }
+
+    const indemnityResult = await recordIndemnityDecisions(
+      activeSession.id,
+      member.id,
+      exitDecisions.map(ed => ({ rosterId: rosterByContract.get(ed.contractId)!, decision: ed.decision }))
+    )
+    if (!indemnityResult.success) {
+      return indemnityResult
+    }
+  }
+
   try {
     await prisma.$transaction(async (tx) => {
       // 1. Validate and save draft renewals in batch
@@ -1958,23 +1879,12 @@ export async function saveDrafts(
         })
       }
 
-      // 4. Save exit decisions for exited players
-      // Reset all draftExitDecision first
-      await tx.playerContract.updateMany({
-        where: { leagueMemberId: member.id },
-        data: { draftExitDecision: null },
-      })
-
-      if (exitDecisions.length > 0) {
-        for (const ed of exitDecisions) {
-          await tx.playerContract.update({
-            where: { id: ed.contractId },
-            data: {
-              draftExitDecision: ed.decision,
-              draftReleased: ed.decision === 'RELEASE',
-            },
-          })
-        }
+      // 4. Mirror exit decisions on draftReleased for the budget preview
+      for (const ed of exitDecisions) {
+        await tx.playerContract.update({
+          where: { id: ed.contractId },
+          data: { draftReleased: ed.decision === 'RELEASE' },
+        })
       }
     }, {
       timeout: 30000, // 30 seconds timeout
@@ -1992,20 +1902,49 @@ export async function saveDrafts(
 
 // ==================== MODIFY CONTRACT POST-ACQUISITION ====================
 
+/**
+ * Stesse regole di modifyContractPostAcquisition, senza accesso al DB: usata dagli
+ * scambi per verificare in anticipo le clausole contrattuali concordate.
+ * Ritorna il messaggio di errore, o null se la modifica è ammessa.
+ */
+export function validatePostAcquisitionTerms(
+  current: { salary: number; duration: number },
+  newSalary: number,
+  newDuration: number,
+  maxDuration: number
+): string | null {
+  // Post-acquisition: only increase allowed (no spalma, no taglio)
+  if (newSalary < current.salary) {
+    return `Ingaggio non può diminuire: ${newSalary} < ${current.salary}`
+  }
+  if (newDuration < current.duration) {
+    return `Durata non può diminuire: ${newDuration} < ${current.duration}`
+  }
+  if (newDuration > current.duration && newSalary <= current.salary) {
+    return 'Per aumentare la durata devi prima aumentare l\'ingaggio'
+  }
+  if (newDuration > maxDuration) {
+    return `Durata massima: ${maxDuration} semestri`
+  }
+  return null
+}
+
 /**
  * Modify a contract after acquisition (trade, rubata, svincolati, first market).
  * This can be called outside of CONTRATTI phase.
  * The modification follows renewal rules (spalma for 1s, no decrease for >1s).
  * The cost is NOT deducted immediately - it will be counted in the "monte ingaggi" during CONTRATTI phase.
+ * Pass a transaction client to apply the modification atomically with a trade.
  */
 export async function modifyContractPostAcquisition(
   contractId: string,
   userId: string,
   newSalary: number,
-  newDuration: number
+  newDuration: number,
+  db: Prisma.TransactionClient = prisma
 ): Promise<ServiceResult> {
   // Get contract with roster and member info
-  const contract = await prisma.playerContract.findUnique({
+  const contract = await db.playerContract.findUnique({
     where: { id: contractId },
     include: {
       roster: {
@@ -2041,8 +1980,10 @@ export async function modifyContractPostAcquisition(
   if (newDuration > contract.duration && newSalary <= contract.salary) {
     return { success: false, message: 'Per aumentare la durata devi prima aumentare l\'ingaggio' }
   }
-  if (newDuration > MAX_DURATION) {
-    return { success: false, message: `Durata massima: ${MAX_DURATION} semestri` }
+
+  const rules = resolveContractRuleset(contract.roster.leagueMember.league.contractRuleset)
+  if (newDuration > rules.maxDuration) {
+    return { success: false, message: `Durata massima: ${rules.maxDuration} semestri` }
   }
 
   // If no changes, return success immediately (user confirms contract as-is)
@@ -2051,7 +1992,7 @@ export async function modifyContractPostAcquisition(
   }
 
   // Calculate new rescission clause
-  const newRescissionClause = calculateRescissionClause(newSalary, newDuration)
+  const newRescissionClause = calculateRescissionClause(newSalary, newDuration, rules)
 
   // Store old values for renewal history
   const oldValues = {
@@ -2066,7 +2007,7 @@ export async function modifyContractPostAcquisition(
   const renewalHistory = (contract.renewalHistory as Record<string, unknown>[] || [])
 
   // Update contract
-  const updatedContract = await prisma.playerContract.update({
+  const updatedContract = await db.playerContract.update({
     where: { id: contractId },
     data: {
       salary: newSalary,
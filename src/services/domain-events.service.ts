@@ -0,0 +1,361 @@
+/**
+ * domain-events.service.ts - Sottoscrittori degli eventi di dominio
+ *
+ * I servizi di asta, rubata, svincolati, scambi, contratti e premi pubblicano
+ * eventi di dominio dopo il commit delle transazioni. Qui sono registrati gli
+ * effetti collaterali: storico movimenti, storico contratti, notifiche push e
+ * broadcast Pusher. Nuove integrazioni si sottoscrivono a eventBus senza
+ * modificare i servizi che pubblicano.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { prisma } from '@/lib/prisma'
+import { eventBus, DomainEventTypes } from '@/shared/infrastructure/events'
+import type {
+  DomainEventMap,
+  DomainEventType,
+  PlayerMovement,
+  ContractHistoryRecord,
+  TradeInvalidationReason,
+  Unsubscribe,
+} from '@/shared/infrastructure/events'
+import { recordMovement } from './movement.service'
+import { createContractHistoryEntries } from './contract-history.service'
+import { notifyTradeOffer, notifyTradeInvalidated } from './notification.service'
+import {
+  triggerTradeOfferReceived,
+  triggerTradeUpdated,
+  triggerAuctionClosed,
+  triggerRubataStealDeclared,
+  triggerRubataBidPlaced,
+  triggerRubataReadyChanged,
+  triggerSvincolatiNomination,
+  triggerSvincolatiBidPlaced,
+  triggerSvincolatiReadyChanged,
+  triggerSvincolatiTurnAdvanced,
+  triggerSvincolatiAuctionClosed,
+  triggerIndemnityDecisionSubmitted,
+  triggerIndemnityAllDecided,
+} from './pusher.service'
+import { logError } from './app-log.service'
+
+// ==================== REGISTRAZIONE ====================
+
+let registeredHandlers: Unsubscribe[] | null = null
+
+/**
+ * Sottoscrive un handler tipizzato. Un errore nell'handler viene loggato e non
+ * si propaga: l'operazione che ha pubblicato l'evento è già stata committata.
+ */
+function on<K extends DomainEventType>(
+  eventType: K,
+  handler: (event: DomainEventMap[K]) => void | Promise<void>
+): Unsubscribe {
+  return eventBus.subscribe<DomainEventMap[K]>(eventType, async (event) => {
+    try {
+      await handler(event)
+    } catch (error) {
+      logError('ERROR', `Handler evento ${eventType} fallito`, {
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  })
+}
+
+async function recordMovements(movements: PlayerMovement[]): Promise<void> {
+  for (const movement of movements) {
+    await recordMovement(movement)
+  }
+}
+
+async function recordContractHistory(entries: ContractHistoryRecord[]): Promise<void> {
+  if (entries.length > 0) {
+    await createContractHistoryEntries(entries)
+  }
+}
+
+// Stato con cui l'offerta viene chiusa, per il broadcast Pusher
+const TRADE_STATUS_BY_REASON: Record<TradeInvalidationReason, string> = {
+  PLAYER_TRADED: 'INVALIDATED',
+  PLAYER_MOVED: 'INVALIDATED',
+  PHASE_ENDED: 'CANCELLED',
+  EXPIRED: 'EXPIRED',
+}
+
+async function getLeagueName(leagueId: string): Promise<string> {
+  const league = await prisma.league.findUnique({ where: { id: leagueId }, select: { name: true } })
+  return league?.name || 'Lega'
+}
+
+/**
+ * Registra gli handler applicativi sull'eventBus. Idempotente: viene invocata
+ * da publishDomainEvent, quindi ogni runtime (API, cron, script) ha gli
+ * stessi effetti collaterali senza bootstrap esplicito.
+ *
+ * @returns funzione che rimuove gli handler registrati
+ */
+export function registerDomainEventHandlers(): Unsubscribe {
+  if (!registeredHandlers) {
+    registeredHandlers = [
+      // Storico movimenti
+      on(DomainEventTypes.AUCTION_CLOSED, async (event) => {
+        if (event.movement) await recordMovement(event.movement)
+      }),
+      on(DomainEventTypes.RUBATA_AUCTION_CLOSED, async (event) => {
+        await recordMovement(event.movement)
+      }),
+      on(DomainEventTypes.SVINCOLATI_AUCTION_CLOSED, async (event) => {
+        if (event.movement) await recordMovement(event.movement)
+      }),
+      on(DomainEventTypes.TRADE_ACCEPTED, async (event) => {
+        await recordMovements(event.movements)
+      }),
+      on(DomainEventTypes.CONTRACT_RENEWED, async (event) => {
+        await recordMovement(event.movement)
+      }),
+      on(DomainEventTypes.PLAYER_REMOVED_FROM_ROSTER, async (event) => {
+        await recordMovement(event.movement)
+      }),
+
+      // Storico contratti (+ movimenti generati dalle stesse decisioni)
+      on(DomainEventTypes.CONTRACT_CONSOLIDATED, async (event) => {
+        await recordContractHistory(event.historyEntries)
+        await recordMovements(event.movements)
+      }),
+      on(DomainEventTypes.CONTRACT_DURATIONS_DECREMENTED, async (event) => {
+        await recordContractHistory(event.historyEntries)
+        await recordMovements(event.movements)
+      }),
+      on(DomainEventTypes.INDEMNITIES_CONSOLIDATED, async (event) => {
+        await recordContractHistory(event.historyEntries)
+        await recordMovements(event.movements)
+      }),
+
+      // Broadcast Pusher aste
+      on(DomainEventTypes.AUCTION_CLOSED, (event) => {
+        if (!event.sessionId) return
+        void triggerAuctionClosed(event.sessionId, {
+          auctionId: event.auctionId,
+          playerId: event.playerId,
+          playerName: event.playerName,
+          winnerId: event.winnerId,
+          winnerName: event.winnerName,
+          finalPrice: event.winnerId ? event.finalAmount : null,
+          wasUnsold: event.winnerId === null,
+          timestamp: new Date().toISOString(),
+        })
+      }),
+
+      // Broadcast Pusher rubata
+      on(DomainEventTypes.RUBATA_OFFER_PLACED, (event) => {
+        triggerRubataStealDeclared(event.sessionId, {
+          sessionId: event.sessionId,
+          bidderId: event.offeredById,
+          bidderUsername: event.offeredByUsername,
+          playerId: event.playerId,
+          playerName: event.playerName,
+          playerTeam: event.playerTeam,
+          playerPosition: event.playerPosition,
+          ownerUsername: event.ownerUsername,
+          basePrice: event.basePrice,
+          timestamp: new Date().toISOString(),
+        }).catch(() => {})
+      }),
+      on(DomainEventTypes.RUBATA_BID_PLACED, (event) => {
+        triggerRubataBidPlaced(event.sessionId, {
+          sessionId: event.sessionId,
+          auctionId: event.auctionId,
+          bidderId: event.bidderId,
+          bidderUsername: event.bidderUsername,
+          amount: event.amount,
+          playerName: event.playerName,
+          timestamp: new Date().toISOString(),
+        }).catch(() => {})
+      }),
+      on(DomainEventTypes.RUBATA_READY_CHANGED, (event) => {
+        triggerRubataReadyChanged(event.sessionId, {
+          sessionId: event.sessionId,
+          memberId: event.memberId,
+          memberUsername: event.memberUsername,
+          isReady: event.isReady,
+          readyCount: event.readyCount,
+          totalMembers: event.totalMembers,
+          timestamp: new Date().toISOString(),
+        }).catch(() => {})
+      }),
+      on(DomainEventTypes.RUBATA_AUCTION_CLOSED, (event) => {
+        if (!event.sessionId) return
+        triggerAuctionClosed(event.sessionId, {
+          auctionId: event.auctionId,
+          playerId: event.playerId,
+          playerName: event.playerName,
+          winnerId: event.winnerId,
+          winnerName: event.winnerUsername,
+          finalPrice: event.price,
+          wasUnsold: false,
+          timestamp: new Date().toISOString(),
+        }).catch(() => {})
+      }),
+
+      // Broadcast Pusher svincolati (canale: sessione, o asta se fuori sessione)
+      on(DomainEventTypes.FREE_AGENT_NOMINATED, (event) => {
+        triggerSvincolatiNomination(event.sessionId, {
+          sessionId: event.sessionId,
+          playerId: event.playerId,
+          playerName: event.playerName,
+          playerRole: event.playerRole,
+          nominatorId: event.nominatorId,
+          nominatorUsername: event.nominatorUsername,
+          confirmed: true,
+          timestamp: new Date().toISOString(),
+        }).catch(() => {})
+      }),
+      on(DomainEventTypes.SVINCOLATI_BID_PLACED, (event) => {
+        const channelId = event.sessionId ?? event.auctionId
+        triggerSvincolatiBidPlaced(channelId, {
+          sessionId: channelId,
+          auctionId: event.auctionId,
+          playerId: event.playerId,
+          playerName: event.playerName,
+          bidderId: event.bidderId,
+          bidderUsername: event.bidderUsername,
+          amount: event.amount,
+          timerExpiresAt: event.timerExpiresAt.toISOString(),
+          timerSeconds: event.timerSeconds,
+          timestamp: new Date().toISOString(),
+        }).catch(() => {})
+      }),
+      on(DomainEventTypes.SVINCOLATI_READY_CHANGED, (event) => {
+        triggerSvincolatiReadyChanged(event.sessionId, {
+          sessionId: event.sessionId,
+          memberId: event.memberId,
+          memberUsername: event.memberUsername,
+          isReady: event.isReady,
+          readyCount: event.readyCount,
+          totalMembers: event.totalMembers,
+          timestamp: new Date().toISOString(),
+        }).catch(() => {})
+      }),
+      on(DomainEventTypes.SVINCOLATI_TURN_ADVANCED, (event) => {
+        triggerSvincolatiTurnAdvanced(event.sessionId, {
+          sessionId: event.sessionId,
+          state: event.state,
+          nextTurnMemberId: event.nextTurnMemberId,
+          nextTurnUsername: event.nextTurnUsername,
+          completed: event.completed,
+          timestamp: new Date().toISOString(),
+        }).catch(() => {})
+      }),
+      on(DomainEventTypes.SVINCOLATI_AUCTION_CLOSED, (event) => {
+        const channelId = event.sessionId ?? event.auctionId
+        triggerSvincolatiAuctionClosed(channelId, {
+          sessionId: channelId,
+          auctionId: event.auctionId,
+          playerId: event.playerId,
+          playerName: event.playerName,
+          winnerId: event.winnerId,
+          winnerUsername: event.winnerUsername,
+          finalPrice: event.finalPrice,
+          wasUnsold: event.winnerId === null,
+          timestamp: new Date().toISOString(),
+        }).catch(() => {})
+      }),
+
+      // Broadcast Pusher decisioni indennizzi
+      on(DomainEventTypes.INDEMNITY_DECISIONS_SUBMITTED, (event) => {
+        const timestamp = new Date().toISOString()
+        triggerIndemnityDecisionSubmitted(event.sessionId, {
+          memberId: event.memberId,
+          memberUsername: event.memberUsername,
+          decidedCount: event.decidedCount,
+          totalCount: event.totalCount,
+          timestamp,
+        }).catch(() => {})
+        if (event.allDecided) {
+          triggerIndemnityAllDecided(event.sessionId, {
+            totalMembers: event.totalMembers,
+            timestamp,
+          }).catch(() => {})
+        }
+      }),
+
+      // Scambi: notifiche push e broadcast Pusher
+      on(DomainEventTypes.TRADE_OFFERED, async (event) => {
+        triggerTradeOfferReceived(event.leagueId, {
+          tradeId: event.tradeId,
+          senderUsername: event.senderUsername,
+          receiverUserId: event.receiverId,
+          timestamp: new Date().toISOString(),
+        }).catch(() => {})
+
+        const leagueName = await getLeagueName(event.leagueId)
+        notifyTradeOffer(event.receiverId, event.senderUsername, leagueName).catch(() => {})
+      }),
+      on(DomainEventTypes.TRADE_ACCEPTED, (event) => {
+        triggerTradeUpdated(event.leagueId, {
+          tradeId: event.tradeId,
+          newStatus: 'ACCEPTED',
+          timestamp: new Date().toISOString(),
+        }).catch(() => {})
+      }),
+      on(DomainEventTypes.TRADE_REJECTED, (event) => {
+        triggerTradeUpdated(event.leagueId, {
+          tradeId: event.tradeId,
+          newStatus: 'REJECTED',
+          timestamp: new Date().toISOString(),
+        }).catch(() => {})
+      }),
+      on(DomainEventTypes.TRADE_CANCELLED, (event) => {
+        triggerTradeUpdated(event.leagueId, {
+          tradeId: event.tradeId,
+          newStatus: 'CANCELLED',
+          timestamp: new Date().toISOString(),
+        }).catch(() => {})
+      }),
+      on(DomainEventTypes.TRADE_INVALIDATED, async (event) => {
+        const reason = event.reason ?? 'PLAYER_TRADED'
+        for (const tradeId of event.tradeIds) {
+          triggerTradeUpdated(event.leagueId, {
+            tradeId,
+            newStatus: TRADE_STATUS_BY_REASON[reason],
+            timestamp: new Date().toISOString(),
+          }).catch(() => {})
+        }
+
+        if (event.affectedUserIds.length > 0) {
+          const leagueName = await getLeagueName(event.leagueId)
+          for (const userId of event.affectedUserIds) {
+            notifyTradeInvalidated(userId, leagueName, reason).catch(() => {})
+          }
+        }
+      }),
+    ]
+  }
+
+  return () => {
+    registeredHandlers?.forEach(unsubscribe => { unsubscribe() })
+    registeredHandlers = null
+  }
+}
+
+// ==================== PUBBLICAZIONE ====================
+
+/**
+ * Pubblica un evento di dominio e attende i sottoscrittori (lo storico
+ * movimenti deve essere scritto prima della risposta HTTP). Non lancia mai:
+ * gli errori dei sottoscrittori vengono loggati.
+ */
+export async function publishDomainEvent<K extends DomainEventType>(
+  eventType: K,
+  event: DomainEventMap[K]
+): Promise<void> {
+  registerDomainEventHandlers()
+  try {
+    await eventBus.publish(eventType, event)
+  } catch (error) {
+    logError('ERROR', `Pubblicazione evento ${eventType} fallita`, {
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
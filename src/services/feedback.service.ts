@@ -1,6 +1,37 @@
 import { FeedbackStatus, FeedbackCategory } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
 import type { ServiceResult } from '@/shared/types/service-result'
+import { getIssueTracker, type TrackerIssue } from '@/shared/infrastructure/issue-tracker'
+
+// ==================== HELPERS ====================
+
+// Una notifica per tipo e segnalazione: una nuova modifica la rende di nuovo non letta
+async function notifyFeedbackOwner(
+  userId: string,
+  feedbackId: string,
+  type: 'STATUS_CHANGE' | 'NEW_RESPONSE'
+): Promise<void> {
+  await prisma.feedbackNotification.upsert({
+    where: {
+      userId_feedbackId_type: {
+        userId,
+        feedbackId,
+        type,
+      },
+    },
+    update: {
+      isRead: false,
+      readAt: null,
+      createdAt: new Date(),
+    },
+    create: {
+      userId,
+      feedbackId,
+      type,
+      isRead: false,
+    },
+  })
+}
 
 // ==================== SUBMIT FEEDBACK ====================
 
@@ -192,6 +223,8 @@ export async function getFeedbackById(
       pageContext: feedback.pageContext,
       githubIssueId: feedback.githubIssueId,
       githubIssueUrl: feedback.githubIssueUrl,
+      issueState: feedback.issueState,
+      issueSyncedAt: feedback.issueSyncedAt,
       createdAt: feedback.createdAt,
       updatedAt: feedback.updatedAt,
       resolvedAt: feedback.resolvedAt,
@@ -344,26 +377,7 @@ export async function updateFeedbackStatus(
   })
 
   // Create notification for user
-  await prisma.feedbackNotification.upsert({
-    where: {
-      userId_feedbackId_type: {
-        userId: feedback.userId,
-        feedbackId,
-        type: 'STATUS_CHANGE',
-      },
-    },
-    update: {
-      isRead: false,
-      readAt: null,
-      createdAt: new Date(),
-    },
-    create: {
-      userId: feedback.userId,
-      feedbackId,
-      type: 'STATUS_CHANGE',
-      isRead: false,
-    },
-  })
+  await notifyFeedbackOwner(feedback.userId, feedbackId, 'STATUS_CHANGE')
 
   return {
     success: true,
@@ -436,26 +450,7 @@ export async function addResponse(
   ])
 
   // Create notification for user
-  await prisma.feedbackNotification.upsert({
-    where: {
-      userId_feedbackId_type: {
-        userId: feedback.userId,
-        feedbackId,
-        type: 'NEW_RESPONSE',
-      },
-    },
-    update: {
-      isRead: false,
-      readAt: null,
-      createdAt: new Date(),
-    },
-    create: {
-      userId: feedback.userId,
-      feedbackId,
-      type: 'NEW_RESPONSE',
-      isRead: false,
-    },
-  })
+  await notifyFeedbackOwner(feedback.userId, feedbackId, 'NEW_RESPONSE')
 
   return {
     success: true,
@@ -470,6 +465,280 @@ export async function addResponse(
   }
 }
 
+// ==================== ISSUE TRACKER (ADMIN) ====================
+
+const ISSUE_LABELS: Record<FeedbackCategory, string[]> = {
+  BUG: ['feedback', 'bug'],
+  SUGGERIMENTO: ['feedback', 'enhancement'],
+  DOMANDA: ['feedback', 'question'],
+  ALTRO: ['feedback'],
+}
+
+// Niente dati personali del manager: la issue puo' essere pubblica
+function buildIssueBody(feedback: { id: string; description: string; category: FeedbackCategory; pageContext: string | null }): string {
+  return [
+    feedback.description,
+    '',
+    '---',
+    `Categoria: ${feedback.category}`,
+    `Pagina: ${feedback.pageContext ?? '-'}`,
+    `Segnalazione: ${feedback.id}`,
+  ].join('\n')
+}
+
+export async function promoteFeedbackToIssue(
+  feedbackId: string,
+  adminUserId: string
+): Promise<ServiceResult> {
+  // Verify superadmin
+  const user = await prisma.user.findUnique({
+    where: { id: adminUserId },
+    select: { isSuperAdmin: true },
+  })
+
+  if (!user?.isSuperAdmin) {
+    return { success: false, message: 'Non autorizzato' }
+  }
+
+  const feedback = await prisma.userFeedback.findUnique({
+    where: { id: feedbackId },
+  })
+
+  if (!feedback) {
+    return { success: false, message: 'Segnalazione non trovata' }
+  }
+
+  if (feedback.githubIssueId) {
+    return { success: false, message: `Segnalazione gia' collegata alla issue #${feedback.githubIssueId}` }
+  }
+
+  const tracker = getIssueTracker()
+  if (!tracker) {
+    return { success: false, message: 'Issue tracker non configurato' }
+  }
+
+  let issue: TrackerIssue
+  try {
+    issue = await tracker.createIssue({
+      title: feedback.title,
+      body: buildIssueBody(feedback),
+      labels: ISSUE_LABELS[feedback.category],
+    })
+  } catch (error) {
+    return { success: false, message: `Errore nella creazione della issue: ${error instanceof Error ? error.message : String(error)}` }
+  }
+
+  // La segnalazione aperta passa in lavorazione
+  const statusChange = feedback.status === FeedbackStatus.APERTA ? FeedbackStatus.IN_LAVORAZIONE : null
+
+  await prisma.$transaction([
+    prisma.userFeedback.update({
+      where: { id: feedbackId },
+      data: {
+        githubIssueId: issue.number,
+        githubIssueUrl: issue.url,
+        issueState: issue.state,
+        issueSyncedAt: new Date(),
+        issueLinkedById: adminUserId,
+        ...(statusChange && { status: statusChange }),
+      },
+    }),
+    prisma.feedbackResponse.create({
+      data: {
+        feedbackId,
+        adminId: adminUserId,
+        content: `Segnalazione presa in carico: aperta la issue #${issue.number}`,
+        statusChange,
+      },
+    }),
+  ])
+
+  if (statusChange) {
+    await notifyFeedbackOwner(feedback.userId, feedbackId, 'STATUS_CHANGE')
+  }
+  await notifyFeedbackOwner(feedback.userId, feedbackId, 'NEW_RESPONSE')
+
+  return {
+    success: true,
+    message: `Issue #${issue.number} creata`,
+    data: {
+      id: feedbackId,
+      status: statusChange ?? feedback.status,
+      githubIssueId: issue.number,
+      githubIssueUrl: issue.url,
+    },
+  }
+}
+
+type LinkedFeedback = {
+  id: string
+  userId: string
+  status: FeedbackStatus
+  githubIssueId: number | null
+  issueState: string | null
+  issueLinkedById: string | null
+}
+
+/**
+ * Riporta sulla segnalazione lo stato della issue: chiusa = RISOLTA,
+ * riaperta = IN_LAVORAZIONE, con una risposta che spiega il cambio.
+ * Ritorna true se la segnalazione e' cambiata.
+ */
+async function applyIssueState(feedback: LinkedFeedback, issue: TrackerIssue | null): Promise<boolean> {
+  // Issue eliminata o invariata: si aggiorna solo la data di sincronizzazione
+  if (!issue || issue.state === feedback.issueState) {
+    await prisma.userFeedback.update({
+      where: { id: feedback.id },
+      data: { issueSyncedAt: new Date() },
+    })
+    return false
+  }
+
+  const newStatus = issue.state === 'closed' ? FeedbackStatus.RISOLTA : FeedbackStatus.IN_LAVORAZIONE
+  const content = issue.state === 'open'
+    ? `Issue #${issue.number} riaperta: la segnalazione e' di nuovo in lavorazione`
+    : issue.closeReason === 'not_planned'
+      ? `Issue #${issue.number} chiusa: non sono previste modifiche`
+      : `Issue #${issue.number} chiusa: problema risolto`
+  const statusChange = newStatus !== feedback.status ? newStatus : null
+
+  await prisma.$transaction([
+    prisma.userFeedback.update({
+      where: { id: feedback.id },
+      data: {
+        issueState: issue.state,
+        issueSyncedAt: new Date(),
+        ...(statusChange && {
+          status: statusChange,
+          resolvedAt: statusChange === FeedbackStatus.RISOLTA ? new Date() : null,
+        }),
+      },
+    }),
+    // Le risposte sincronizzate sono firmate dal superadmin che ha creato la issue
+    ...(feedback.issueLinkedById ? [
+      prisma.feedbackResponse.create({
+        data: {
+          feedbackId: feedback.id,
+          adminId: feedback.issueLinkedById,
+          content,
+          statusChange,
+        },
+      }),
+    ] : []),
+  ])
+
+  if (statusChange) {
+    await notifyFeedbackOwner(feedback.userId, feedback.id, 'STATUS_CHANGE')
+  }
+  if (feedback.issueLinkedById) {
+    await notifyFeedbackOwner(feedback.userId, feedback.id, 'NEW_RESPONSE')
+  }
+
+  return true
+}
+
+const LINKED_FEEDBACK_SELECT = {
+  id: true,
+  userId: true,
+  status: true,
+  githubIssueId: true,
+  issueState: true,
+  issueLinkedById: true,
+} as const
+
+/**
+ * Sincronizzazione periodica (cron): segnalazioni collegate a una issue non
+ * ancora chiusa o non ancora risolte, a partire dalle meno recenti.
+ */
+export async function syncFeedbackIssues(options?: { limit?: number }): Promise<ServiceResult> {
+  const tracker = getIssueTracker()
+  if (!tracker) {
+    return { success: false, message: 'Issue tracker non configurato' }
+  }
+
+  const linked = await prisma.userFeedback.findMany({
+    where: {
+      githubIssueId: { not: null },
+      OR: [
+        { issueState: { not: 'closed' } },
+        { status: { not: FeedbackStatus.RISOLTA } },
+      ],
+    },
+    select: LINKED_FEEDBACK_SELECT,
+    orderBy: { issueSyncedAt: 'asc' },
+    take: options?.limit || 50,
+  })
+
+  let updated = 0
+  let failed = 0
+  for (const feedback of linked) {
+    try {
+      const issue = await tracker.getIssue(feedback.githubIssueId!)
+      if (await applyIssueState(feedback, issue)) {
+        updated++
+      }
+    } catch {
+      failed++
+    }
+  }
+
+  return {
+    success: true,
+    message: `Segnalazioni sincronizzate: ${linked.length}, aggiornate: ${updated}${failed > 0 ? `, errori: ${failed}` : ''}`,
+    data: { checked: linked.length, updated, failed },
+  }
+}
+
+export async function syncFeedbackIssue(
+  feedbackId: string,
+  adminUserId: string
+): Promise<ServiceResult> {
+  // Verify superadmin
+  const user = await prisma.user.findUnique({
+    where: { id: adminUserId },
+    select: { isSuperAdmin: true },
+  })
+
+  if (!user?.isSuperAdmin) {
+    return { success: false, message: 'Non autorizzato' }
+  }
+
+  const feedback = await prisma.userFeedback.findUnique({
+    where: { id: feedbackId },
+    select: LINKED_FEEDBACK_SELECT,
+  })
+
+  if (!feedback) {
+    return { success: false, message: 'Segnalazione non trovata' }
+  }
+
+  if (!feedback.githubIssueId) {
+    return { success: false, message: 'Segnalazione non collegata a una issue' }
+  }
+
+  const tracker = getIssueTracker()
+  if (!tracker) {
+    return { success: false, message: 'Issue tracker non configurato' }
+  }
+
+  let issue: TrackerIssue | null
+  try {
+    issue = await tracker.getIssue(feedback.githubIssueId)
+  } catch (error) {
+    return { success: false, message: `Errore nella lettura della issue: ${error instanceof Error ? error.message : String(error)}` }
+  }
+
+  const updated = await applyIssueState(feedback, issue)
+
+  return {
+    success: true,
+    message: !issue
+      ? `Issue #${feedback.githubIssueId} non trovata sul tracker`
+      : updated ? `Stato della issue #${issue.number} sincronizzato` : 'Nessuna modifica dalla issue',
+    data: { updated, issueState: issue?.state ?? null },
+  }
+}
+
 // ==================== GET UNREAD NOTIFICATIONS ====================
 
 export async function getUnreadNotifications(userId: string): Promise<ServiceResult> {
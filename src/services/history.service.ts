@@ -2,6 +2,8 @@ import type { TradeStatus, SerieAPlayer, LeagueMember, AuctionBid } from '@prism
 import { MemberStatus } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
 import type { ServiceResult } from '@/shared/types/service-result'
+import { getAgreedContract } from './trade.service'
+import { getRevealedProxyCeilings } from './proxy-bid.service'
 
 // Extended types for Prisma queries with included relations
 type MemberWithUser = LeagueMember & { user: { username: string } }
@@ -291,6 +293,9 @@ export async function getFirstMarketHistory(
     orderBy: { teamName: 'asc' },
   })
 
+  // Aste concluse: i tetti dei proxy non sono più riservati
+  const proxyCeilings = await getRevealedProxyCeilings(sessionId, playerIds)
+
   const formattedAuctions = auctions.map(a => ({
     id: a.id,
     player: {
@@ -317,7 +322,9 @@ export async function getFirstMarketHistory(
       },
       placedAt: b.placedAt,
       isWinning: b.isWinning,
+      isProxy: b.isProxy,
     })),
+    proxyCeilings: proxyCeilings.get(a.playerId) ?? [],
     prophecies: [
       // From acknowledgments (temporary storage during auction)
       ...a.acknowledgments
@@ -505,6 +512,9 @@ export async function getSessionTrades(
         },
         offeredBudget: trade.offeredBudget,
         requestedBudget: trade.requestedBudget,
+        deferredOfferedBudget: trade.deferredOfferedBudget,
+        deferredRequestedBudget: trade.deferredRequestedBudget,
+        deferredSettledAt: trade.deferredSettledAt,
         message: trade.message,
         offeredPlayers: offeredPlayers.map(r => ({
           id: r.player.id,
@@ -518,6 +528,7 @@ export async function getSessionTrades(
                 rescissionClause: r.contract.rescissionClause,
               }
             : null,
+          agreedContract: getAgreedContract(trade.contractTerms, r.id),
         })),
         requestedPlayers: requestedPlayers.map(r => ({
           id: r.player.id,
@@ -531,6 +542,7 @@ export async function getSessionTrades(
                 rescissionClause: r.contract.rescissionClause,
               }
             : null,
+          agreedContract: getAgreedContract(trade.contractTerms, r.id),
         })),
         createdAt: trade.createdAt,
         respondedAt: trade.respondedAt,
@@ -829,6 +841,9 @@ export async function getSessionRubataHistory(
   })
   const auctions = auctionsRaw as unknown as AuctionWithRelations[]
 
+  // Aste concluse: i tetti dei proxy non sono più riservati
+  const proxyCeilings = await getRevealedProxyCeilings(sessionId, auctions.map(a => a.playerId))
+
   const formattedAuctions = auctions.map(a => ({
     id: a.id,
     player: {
@@ -861,7 +876,9 @@ export async function getSessionRubataHistory(
         username: b.bidder.user.username,
         teamName: b.bidder.teamName,
       },
+      isProxy: b.isProxy,
     })),
+    proxyCeilings: proxyCeilings.get(a.playerId) ?? [],
     endedAt: a.endsAt,
   }))
 
@@ -952,6 +969,9 @@ export async function getSessionSvincolatiHistory(
   const svincolatiPlayerIds = new Set(movements.map(m => m.playerId))
   const svincolatiAuctions = auctionsSvincolati.filter(a => svincolatiPlayerIds.has(a.playerId))
 
+  // Aste concluse: i tetti dei proxy non sono più riservati
+  const proxyCeilings = await getRevealedProxyCeilings(sessionId, svincolatiAuctions.map(a => a.playerId))
+
   const formattedAuctions = svincolatiAuctions.map(a => ({
     id: a.id,
     player: {
@@ -983,7 +1003,9 @@ export async function getSessionSvincolatiHistory(
         username: b.bidder.user.username,
         teamName: b.bidder.teamName,
       },
+      isProxy: b.isProxy,
     })),
+    proxyCeilings: proxyCeilings.get(a.playerId) ?? [],
     endedAt: a.endsAt,
   }))
 
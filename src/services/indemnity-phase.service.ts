@@ -1,14 +1,51 @@
-import type { Prisma } from '@prisma/client'
-import { MemberStatus, RosterStatus } from '@prisma/client'
+/**
+ * indemnity-phase.service.ts - Fase indennizzi dei giocatori usciti dalla lista
+ *
+ * I giocatori RITIRATO vengono rilasciati automaticamente alla creazione della
+ * sessione. Per quelli RETROCESSO/ESTERO con contratto attivo la fase ha una
+ * riga di decisione per giocatore e il proprio ciclo di vita:
+ * OPEN (creazione sessione, importi definiti in fase PREMI) -> DECISIONS
+ * (ingresso in CONTRATTI, i manager scelgono KEEP/RELEASE entro la scadenza)
+ * -> ADMIN_REVIEW (tutti hanno deciso, scadenza superata o chiusura admin)
+ * -> CONSOLIDATED (rilasci, indennizzi e storico applicati dall'admin).
+ * I manager consolidano i propri contratti solo dopo il consolidamento indennizzi.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import type { Prisma, IndemnityChoice, PlayerExitReason } from '@prisma/client'
+import { MemberRole, MemberStatus, RosterStatus } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
-import { recordMovement } from './movement.service'
+import { DomainEventTypes } from '@/shared/infrastructure/events'
+import type { PlayerMovement } from '@/shared/infrastructure/events'
+import { publishDomainEvent } from './domain-events.service'
+import { captureState, recordCompensation } from './compensation.service'
+import { notifyIndemnityDeadline } from './notification.service'
+import { assignJournalIds, diffSnapshots } from '../utils/compensation'
+import type { CreateContractHistoryInput } from '../types/contract-history'
+import type { ServiceResult } from '@/shared/types/service-result'
+
+// Indennizzo di default per i giocatori ESTERO (sovrascrivibile in fase PREMI)
+export const DEFAULT_INDENNIZZO_ESTERO = 50
+const BASE_INDEMNITY_CATEGORY = 'Indennizzo Partenza Estero'
+const EXITED_REASONS: PlayerExitReason[] = ['RETROCESSO', 'ESTERO']
+
+// Promemoria inviato quando mancano meno di 24 ore alla scadenza
+const REMINDER_WINDOW_MS = 24 * 60 * 60 * 1000
+
+type Db = Prisma.TransactionClient
+
+export interface IndemnityDecisionInput {
+  rosterId: string
+  decision: IndemnityChoice
+}
 
 // ==================== AUTO-RELEASE RITIRATO PLAYERS ====================
 
 /**
  * Auto-release only RITIRATO players at session creation.
  * Called during MERCATO_RICORRENTE creation, after decrementContractDurations().
- * RETROCESSO/ESTERO players are handled by the manager in CONTRATTI phase.
+ * RETROCESSO/ESTERO players go through the indemnity phase (see openIndemnityPhase).
  */
 export async function autoReleaseRitiratiPlayers(
   leagueId: string,
@@ -62,16 +99,810 @@ export async function autoReleaseRitiratiPlayers(
 
   // Record movements outside transaction
   for (const roster of affectedRosters) {
-    await recordMovement({
-      leagueId,
-      marketSessionId: sessionId,
+    await publishDomainEvent(DomainEventTypes.PLAYER_REMOVED_FROM_ROSTER, {
+      rosterId: roster.id,
       playerId: roster.player.id,
-      fromMemberId: roster.leagueMember.id,
-      toMemberId: null,
-      movementType: 'RETIREMENT',
-      price: 0,
+      memberId: roster.leagueMember.id,
+      leagueId,
+      movement: {
+        leagueId,
+        marketSessionId: sessionId,
+        playerId: roster.player.id,
+        fromMemberId: roster.leagueMember.id,
+        toMemberId: null,
+        movementType: 'RETIREMENT',
+        price: 0,
+      },
     })
   }
 
   return { released: releasedNames.length, players: releasedNames }
 }
+
+// ==================== HELPERS ====================
+
+async function getLeagueAdmin(leagueId: string, userId: string) {
+  return prisma.leagueMember.findFirst({
+    where: { leagueId, userId, role: MemberRole.ADMIN, status: MemberStatus.ACTIVE },
+  })
+}
+
+/**
+ * Allinea le righe della fase ai giocatori usciti con contratto attivo:
+ * aggiunge i nuovi, rimuove quelli non più in rosa o riclassificati.
+ */
+async function syncIndemnityRows(db: Db, phaseId: string, leagueId: string): Promise<number> {
+  const rosters = await db.playerRoster.findMany({
+    where: {
+      leagueMember: { leagueId, status: MemberStatus.ACTIVE },
+      status: RosterStatus.ACTIVE,
+      contract: { isNot: null },
+      player: { listStatus: 'NOT_IN_LIST', exitReason: { in: EXITED_REASONS } },
+    },
+    select: { id: true, leagueMemberId: true, playerId: true, player: { select: { exitReason: true } } },
+  })
+
+  await db.indemnityDecision.deleteMany({
+    where: { phaseId, rosterId: { notIn: rosters.map(r => r.id) } },
+  })
+
+  const existing = await db.indemnityDecision.findMany({
+    where: { phaseId },
+    select: { id: true, rosterId: true, exitReason: true },
+  })
+  const existingByRoster = new Map(existing.map(row => [row.rosterId, row]))
+
+  for (const roster of rosters) {
+    const exitReason = roster.player.exitReason!
+    const row = existingByRoster.get(roster.id)
+    if (!row) {
+      await db.indemnityDecision.create({
+        data: { phaseId, rosterId: roster.id, memberId: roster.leagueMemberId, playerId: roster.playerId, exitReason },
+      })
+    } else if (row.exitReason !== exitReason) {
+      // Riclassificato (es. da RETROCESSO a ESTERO): la scelta va rifatta
+      await db.indemnityDecision.update({
+        where: { id: row.id },
+        data: { exitReason, decision: null, decidedAt: null, decidedByAdmin: false },
+      })
+    }
+  }
+
+  return rosters.length
+}
+
+/**
+ * Indennizzo base per manager dalla categoria "Indennizzo Partenza Estero"
+ */
+async function getBaseIndemnities(db: Db, sessionId: string): Promise<Map<string, number>> {
+  const baseCategory = await db.prizeCategory.findFirst({
+    where: { marketSessionId: sessionId, name: BASE_INDEMNITY_CATEGORY, isSystemPrize: true },
+    include: { managerPrizes: true },
+  })
+  return new Map((baseCategory?.managerPrizes ?? []).map(p => [p.leagueMemberId, p.amount]))
+}
+
+/**
+ * Indennizzo spettante per un rilascio: solo ESTERO, personalizzato o base del manager
+ */
+function expectedCompensation(
+  row: { exitReason: PlayerExitReason; compensation: number | null; memberId: string },
+  baseAmounts: Map<string, number>
+): number {
+  if (row.exitReason !== 'ESTERO') return 0
+  return row.compensation ?? baseAmounts.get(row.memberId) ?? DEFAULT_INDENNIZZO_ESTERO
+}
+
+function isDeadlinePassed(deadline: Date | null, now: Date = new Date()): boolean {
+  return deadline !== null && deadline.getTime() <= now.getTime()
+}
+
+// ==================== APERTURA ====================
+
+/**
+ * Apre la fase indennizzi della sessione (idempotente). Chiamata alla creazione
+ * del MERCATO_RICORRENTE dopo il rilascio dei RITIRATO; finché la fase è aperta
+ * le righe seguono le classificazioni dei giocatori.
+ */
+export async function openIndemnityPhase(
+  leagueId: string,
+  sessionId: string
+): Promise<{ phaseId: string; players: number }> {
+  return prisma.$transaction(async (tx) => {
+    const phase = await tx.indemnityPhase.upsert({
+      where: { sessionId },
+      create: { sessionId },
+      update: {},
+    })
+
+    const players = phase.status === 'OPEN' || phase.status === 'DECISIONS'
+      ? await syncIndemnityRows(tx, phase.id, leagueId)
+      : await tx.indemnityDecision.count({ where: { phaseId: phase.id } })
+
+    return { phaseId: phase.id, players }
+  })
+}
+
+/**
+ * Apre le decisioni dei manager all'ingresso in fase CONTRATTI. Senza giocatori
+ * usciti la fase è consolidata subito: non c'è nulla da decidere.
+ */
+export async function startIndemnityDecisions(leagueId: string, sessionId: string): Promise<void> {
+  const { phaseId, players } = await openIndemnityPhase(leagueId, sessionId)
+  const now = new Date()
+
+  await prisma.indemnityPhase.updateMany({
+    where: { id: phaseId, status: 'OPEN' },
+    data: players > 0
+      ? { status: 'DECISIONS', decisionsOpenedAt: now }
+      : { status: 'CONSOLIDATED', decisionsOpenedAt: now, consolidatedAt: now },
+  })
+}
+
+// ==================== LETTURA ====================
+
+/**
+ * Riepilogo della fase: ogni giocatore uscito, il proprietario, la scelta e
+ * l'indennizzo. Durante le decisioni i manager vedono solo se gli altri hanno
+ * deciso, non cosa.
+ */
+export async function getIndemnityPhase(sessionId: string, userId: string): Promise<ServiceResult> {
+  const session = await prisma.marketSession.findUnique({
+    where: { id: sessionId },
+    include: { league: { select: { name: true } } },
+  })
+
+  if (!session) {
+    return { success: false, message: 'Sessione non trovata' }
+  }
+
+  const member = await prisma.leagueMember.findFirst({
+    where: { leagueId: session.leagueId, userId, status: MemberStatus.ACTIVE },
+  })
+
+  if (!member) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  const phase = await prisma.indemnityPhase.findUnique({
+    where: { sessionId },
+    include: {
+      decisions: {
+        include: {
+          player: { select: { id: true, name: true, position: true, team: true } },
+          member: { select: { id: true, teamName: true, user: { select: { username: true } } } },
+          roster: { select: { contract: { select: { salary: true, duration: true } } } },
+        },
+        orderBy: [{ memberId: 'asc' }, { createdAt: 'asc' }],
+      },
+    },
+  })
+
+  if (!phase) {
+    return { success: false, message: 'Fase indennizzi non aperta per questa sessione' }
+  }
+
+  const isAdmin = member.role === MemberRole.ADMIN
+  const decisionsVisible = isAdmin || phase.status === 'ADMIN_REVIEW' || phase.status === 'CONSOLIDATED'
+  const baseAmounts = await getBaseIndemnities(prisma, sessionId)
+
+  const players = phase.decisions.map(row => {
+    const visible = decisionsVisible || row.memberId === member.id
+    return {
+      id: row.id,
+      rosterId: row.rosterId,
+      playerId: row.playerId,
+      playerName: row.player.name,
+      position: row.player.position,
+      team: row.player.team,
+      exitReason: row.exitReason,
+      memberId: row.memberId,
+      teamName: row.member.teamName,
+      username: row.member.user.username,
+      contract: row.roster.contract,
+      hasDecided: row.decision !== null,
+      decision: visible ? row.decision : null,
+      decidedAt: visible ? row.decidedAt : null,
+      decidedByAdmin: visible && row.decidedByAdmin,
+      expectedCompensation: expectedCompensation(row, baseAmounts),
+      compensationPaid: row.compensationPaid,
+    }
+  })
+
+  return {
+    success: true,
+    data: {
+      phaseId: phase.id,
+      sessionId,
+      leagueName: session.league.name,
+      status: phase.status,
+      decisionDeadline: phase.decisionDeadline,
+      openedAt: phase.openedAt,
+      decisionsOpenedAt: phase.decisionsOpenedAt,
+      reviewStartedAt: phase.reviewStartedAt,
+      consolidatedAt: phase.consolidatedAt,
+      isAdmin,
+      myMemberId: member.id,
+      players,
+      totals: {
+        players: players.length,
+        decided: players.filter(p => p.hasDecided).length,
+        released: players.filter(p => p.decision === 'RELEASE').length,
+        kept: players.filter(p => p.decision === 'KEEP').length,
+        compensationPaid: phase.decisions.reduce((sum, r) => sum + (r.compensationPaid ?? 0), 0),
+      },
+    },
+  }
+}
+
+/**
+ * Indennizzo base del manager e, per rosterId, scelta e indennizzo di ogni suo
+ * giocatore uscito (pagina Contratti): pagato se rilasciato, altrimenti atteso.
+ */
+export async function getMemberIndemnities(sessionId: string, memberId: string): Promise<{
+  baseCompensation: number
+  players: Map<string, { decision: IndemnityChoice | null; compensation: number }>
+}> {
+  const baseAmounts = await getBaseIndemnities(prisma, sessionId)
+  const rows = await prisma.indemnityDecision.findMany({
+    where: { memberId, phase: { sessionId } },
+  })
+
+  return {
+    baseCompensation: baseAmounts.get(memberId) ?? DEFAULT_INDENNIZZO_ESTERO,
+    players: new Map(rows.map(row => [row.rosterId, {
+      decision: row.decision,
+      compensation: row.decision === 'RELEASE' && row.compensationPaid !== null
+        ? row.compensationPaid
+        : expectedCompensation(row, baseAmounts),
+    }])),
+  }
+}
+
+/**
+ * Giocatori usciti del manager non ancora consolidati dalla fase indennizzi:
+ * il consolidamento contratti del manager resta bloccato finché non è vuota.
+ */
+export async function getPendingIndemnityPlayers(db: Db, sessionId: string, memberId: string): Promise<string[]> {
+  const rows = await db.indemnityDecision.findMany({
+    where: { memberId, phase: { sessionId, status: { not: 'CONSOLIDATED' } } },
+    include: { player: { select: { name: true } } },
+  })
+  return rows.map(row => row.player.name)
+}
+
+// ==================== DECISIONI ====================
+
+/**
+ * Pubblica l'avanzamento delle decisioni e passa in revisione admin quando
+ * tutti i giocatori usciti hanno una scelta.
+ */
+async function publishDecisionProgress(
+  phase: { id: string; sessionId: string },
+  leagueId: string,
+  member: { id: string; user: { username: string } }
+): Promise<{ decidedCount: number; totalCount: number; allDecided: boolean }> {
+  const rows = await prisma.indemnityDecision.findMany({
+    where: { phaseId: phase.id },
+    select: { memberId: true, decision: true },
+  })
+  const memberRows = rows.filter(r => r.memberId === member.id)
+  const decidedCount = memberRows.filter(r => r.decision !== null).length
+  const allDecided = rows.every(r => r.decision !== null)
+
+  if (allDecided) {
+    await prisma.indemnityPhase.updateMany({
+      where: { id: phase.id, status: 'DECISIONS' },
+      data: { status: 'ADMIN_REVIEW', reviewStartedAt: new Date() },
+    })
+  }
+
+  await publishDomainEvent(DomainEventTypes.INDEMNITY_DECISIONS_SUBMITTED, {
+    leagueId,
+    sessionId: phase.sessionId,
+    memberId: member.id,
+    memberUsername: member.user.username,
+    decidedCount,
+    totalCount: memberRows.length,
+    allDecided,
+    totalMembers: new Set(rows.map(r => r.memberId)).size,
+  })
+
+  return { decidedCount, totalCount: memberRows.length, allDecided }
+}
+
+/**
+ * Registra le scelte KEEP/RELEASE di un manager. Scelte invariate sono sempre
+ * accettate (la pagina Contratti le reinvia a ogni salvataggio bozze); le
+ * modifiche solo in fase DECISIONS e prima della scadenza.
+ */
+export async function recordIndemnityDecisions(
+  sessionId: string,
+  memberId: string,
+  decisions: IndemnityDecisionInput[]
+): Promise<ServiceResult> {
+  const phase = await prisma.indemnityPhase.findUnique({
+    where: { sessionId },
+    include: {
+      session: { select: { leagueId: true } },
+      decisions: { where: { memberId }, include: { player: { select: { name: true } } } },
+    },
+  })
+
+  if (!phase) {
+    return { success: false, message: 'Fase indennizzi non aperta per questa sessione' }
+  }
+
+  const rowsByRoster = new Map(phase.decisions.map(row => [row.rosterId, row]))
+  for (const d of decisions) {
+    if (!rowsByRoster.has(d.rosterId)) {
+      return { success: false, message: 'Giocatore non soggetto a decisione indennizzo' }
+    }
+    if (d.decision !== 'KEEP' && d.decision !== 'RELEASE') {
+      return { success: false, message: 'Decisione non valida' }
+    }
+  }
+
+  const changed = decisions.filter(d => rowsByRoster.get(d.rosterId)!.decision !== d.decision)
+  if (changed.length === 0) {
+    return { success: true, message: 'Nessuna modifica alle decisioni' }
+  }
+
+  if (phase.status !== 'DECISIONS') {
+    return { success: false, message: 'Le decisioni sugli indennizzi sono chiuse' }
+  }
+
+  if (isDeadlinePassed(phase.decisionDeadline)) {
+    return { success: false, message: 'La scadenza per le decisioni sugli indennizzi è passata' }
+  }
+
+  const now = new Date()
+  await prisma.$transaction(changed.map(d => prisma.indemnityDecision.update({
+    where: { id: rowsByRoster.get(d.rosterId)!.id },
+    data: { decision: d.decision, decidedAt: now, decidedByAdmin: false },
+  })))
+
+  const member = await prisma.leagueMember.findUniqueOrThrow({
+    where: { id: memberId },
+    select: { id: true, user: { select: { username: true } } },
+  })
+  const progress = await publishDecisionProgress(phase, phase.session.leagueId, member)
+
+  return {
+    success: true,
+    message: 'Decisioni salvate',
+    data: progress,
+  }
+}
+
+/**
+ * Decisioni inviate dal manager dalla pagina indennizzi
+ */
+export async function submitIndemnityDecisions(
+  sessionId: string,
+  userId: string,
+  decisions: IndemnityDecisionInput[]
+): Promise<ServiceResult> {
+  const session = await prisma.marketSession.findUnique({ where: { id: sessionId } })
+
+  if (!session) {
+    return { success: false, message: 'Sessione non trovata' }
+  }
+
+  const member = await prisma.leagueMember.findFirst({
+    where: { leagueId: session.leagueId, userId, status: MemberStatus.ACTIVE },
+  })
+
+  if (!member) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  return recordIndemnityDecisions(sessionId, member.id, decisions)
+}
+
+// ==================== AZIONI ADMIN ====================
+
+async function getAdminPhase(sessionId: string, adminUserId: string) {
+  const session = await prisma.marketSession.findUnique({ where: { id: sessionId } })
+  if (!session) return { error: 'Sessione non trovata' } as const
+
+  const admin = await getLeagueAdmin(session.leagueId, adminUserId)
+  if (!admin) return { error: 'Non autorizzato' } as const
+
+  const phase = await prisma.indemnityPhase.findUnique({ where: { sessionId } })
+  if (!phase) return { error: 'Fase indennizzi non aperta per questa sessione' } as const
+
+  return { session, admin, phase }
+}
+
+/**
+ * Imposta (o rimuove) la scadenza delle decisioni. Una nuova scadenza riarma
+ * il promemoria.
+ */
+export async function setIndemnityDeadline(
+  sessionId: string,
+  adminUserId: string,
+  deadline: Date | null
+): Promise<ServiceResult> {
+  const ctx = await getAdminPhase(sessionId, adminUserId)
+  if ('error' in ctx) return { success: false, message: ctx.error }
+
+  if (ctx.phase.status !== 'OPEN' && ctx.phase.status !== 'DECISIONS') {
+    return { success: false, message: 'Le decisioni sugli indennizzi sono già chiuse' }
+  }
+
+  if (deadline && isDeadlinePassed(deadline)) {
+    return { success: false, message: 'La scadenza deve essere nel futuro' }
+  }
+
+  const phase = await prisma.indemnityPhase.update({
+    where: { id: ctx.phase.id },
+    data: { decisionDeadline: deadline, reminderSentAt: null },
+  })
+
+  return {
+    success: true,
+    message: deadline ? 'Scadenza decisioni impostata' : 'Scadenza decisioni rimossa',
+    data: { decisionDeadline: phase.decisionDeadline },
+  }
+}
+
+/**
+ * Chiude le decisioni prima della scadenza: i giocatori senza scelta vanno
+ * decisi dall'admin in revisione.
+ */
+export async function closeIndemnityDecisions(sessionId: string, adminUserId: string): Promise<ServiceResult> {
+  const ctx = await getAdminPhase(sessionId, adminUserId)
+  if ('error' in ctx) return { success: false, message: ctx.error }
+
+  if (ctx.phase.status !== 'DECISIONS') {
+    return { success: false, message: 'Le decisioni sugli indennizzi non sono aperte' }
+  }
+
+  await prisma.indemnityPhase.update({
+    where: { id: ctx.phase.id },
+    data: { status: 'ADMIN_REVIEW', reviewStartedAt: new Date() },
+  })
+
+  return { success: true, message: 'Decisioni chiuse, indennizzi in revisione' }
+}
+
+/**
+ * Riapre le decisioni dalla revisione admin (le scelte già fatte restano)
+ */
+export async function reopenIndemnityDecisions(
+  sessionId: string,
+  adminUserId: string,
+  deadline: Date | null = null
+): Promise<ServiceResult> {
+  const ctx = await getAdminPhase(sessionId, adminUserId)
+  if ('error' in ctx) return { success: false, message: ctx.error }
+
+  if (ctx.phase.status !== 'ADMIN_REVIEW') {
+    return { success: false, message: 'Gli indennizzi non sono in revisione' }
+  }
+
+  if (deadline && isDeadlinePassed(deadline)) {
+    return { success: false, message: 'La scadenza deve essere nel futuro' }
+  }
+
+  await prisma.indemnityPhase.update({
+    where: { id: ctx.phase.id },
+    data: { status: 'DECISIONS', reviewStartedAt: null, decisionDeadline: deadline, reminderSentAt: null },
+  })
+
+  return { success: true, message: 'Decisioni sugli indennizzi riaperte' }
+}
+
+/**
+ * Scelta impostata o corretta dall'admin durante la revisione
+ */
+export async function reviewIndemnityDecision(
+  sessionId: string,
+  adminUserId: string,
+  decisionId: string,
+  decision: IndemnityChoice
+): Promise<ServiceResult> {
+  const ctx = await getAdminPhase(sessionId, adminUserId)
+  if ('error' in ctx) return { success: false, message: ctx.error }
+
+  if (ctx.phase.status !== 'ADMIN_REVIEW') {
+    return { success: false, message: 'Gli indennizzi non sono in revisione' }
+  }
+
+  const row = await prisma.indemnityDecision.findFirst({
+    where: { id: decisionId, phaseId: ctx.phase.id },
+    include: { player: { select: { name: true } } },
+  })
+
+  if (!row) {
+    return { success: false, message: 'Decisione non trovata' }
+  }
+
+  await prisma.indemnityDecision.update({
+    where: { id: row.id },
+    data: { decision, decidedAt: new Date(), decidedByAdmin: true },
+  })
+
+  return {
+    success: true,
+    message: `${row.player.name}: ${decision === 'KEEP' ? 'mantenuto' : 'rilasciato'}`,
+  }
+}
+
+/**
+ * Indennizzo personalizzato per un giocatore ESTERO, impostato dalla fase
+ * PREMI (see: prize-phase.service.ts setCustomIndemnity). Ignorato se la fase
+ * indennizzi è già consolidata o il giocatore non ne fa parte.
+ */
+export async function setIndemnityCompensation(sessionId: string, playerId: string, amount: number): Promise<void> {
+  await prisma.indemnityDecision.updateMany({
+    where: {
+      playerId,
+      exitReason: 'ESTERO',
+      phase: { sessionId, status: { not: 'CONSOLIDATED' } },
+    },
+    data: { compensation: amount },
+  })
+}
+
+// ==================== CONSOLIDAMENTO ====================
+
+/**
+ * Applica tutte le decisioni: rilascio gratuito (ESTERO con indennizzo sul
+ * budget) o mantenimento, con storico contratti e movimenti. Registrato nel
+ * journal compensativo come un'unica operazione.
+ */
+export async function consolidateIndemnityPhase(sessionId: string, adminUserId: string): Promise<ServiceResult> {
+  const ctx = await getAdminPhase(sessionId, adminUserId)
+  if ('error' in ctx) return { success: false, message: ctx.error }
+  const { session, phase } = ctx
+
+  if (phase.status !== 'ADMIN_REVIEW') {
+    return { success: false, message: 'Gli indennizzi devono essere in revisione admin per essere consolidati' }
+  }
+
+  const rows = await prisma.indemnityDecision.findMany({
+    where: { phaseId: phase.id },
+    include: {
+      player: { select: { id: true, name: true } },
+      roster: { include: { contract: true } },
+    },
+  })
+
+  const undecided = rows.filter(r => r.decision === null)
+  if (undecided.length > 0) {
+    return {
+      success: false,
+      message: `Manca la decisione per: ${undecided.map(r => r.player.name).join(', ')}`,
+    }
+  }
+
+  const historyEntries: CreateContractHistoryInput[] = []
+  const movements: PlayerMovement[] = []
+  let released = 0
+  let totalCompensation = 0
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const memberIds = [...new Set(rows.map(r => r.memberId))]
+      const journalRefs = { memberIds, ownerIds: memberIds }
+      const stateBefore = await captureState(tx, journalRefs)
+      const baseAmounts = await getBaseIndemnities(tx, sessionId)
+      const now = new Date()
+
+      // Budget "congelato" della fase CONTRATTI: va salvato prima degli indennizzi,
+      // che la pagina Contratti mostra come voce separata (see: consolidateContracts)
+      const members = await tx.leagueMember.findMany({
+        where: { id: { in: memberIds } },
+        select: { id: true, currentBudget: true, preConsolidationBudget: true },
+      })
+      for (const m of members) {
+        if (m.preConsolidationBudget === null) {
+          await tx.leagueMember.update({
+            where: { id: m.id },
+            data: { preConsolidationBudget: m.currentBudget },
+          })
+        }
+      }
+
+      for (const row of rows) {
+        const contract = row.roster.contract
+        if (row.roster.status !== RosterStatus.ACTIVE || !contract) {
+          throw new Error(`${row.player.name} non è più sotto contratto`)
+        }
+
+        const isEstero = row.exitReason === 'ESTERO'
+        let compensationPaid = 0
+
+        if (row.decision === 'RELEASE') {
+          compensationPaid = expectedCompensation(row, baseAmounts)
+          if (compensationPaid > 0) {
+            await tx.leagueMember.update({
+              where: { id: row.memberId },
+              data: { currentBudget: { increment: compensationPaid } },
+            })
+          }
+
+          await tx.playerContract.delete({ where: { id: contract.id } })
+          await tx.playerRoster.update({
+            where: { id: row.rosterId },
+            data: { status: RosterStatus.RELEASED, releasedAt: now },
+          })
+
+          historyEntries.push({
+            contractId: contract.id,
+            playerId: row.playerId,
+            leagueMemberId: row.memberId,
+            marketSessionId: sessionId,
+            eventType: isEstero ? 'RELEASE_ESTERO' : 'RELEASE_RETROCESSO',
+            previousSalary: contract.salary,
+            previousDuration: contract.duration,
+            previousClause: contract.rescissionClause,
+            ...(isEstero ? { income: compensationPaid } : { cost: 0 }),
+            notes: isEstero
+              ? `Rilascio ${row.player.name} (ESTERO) - Indennizzo: ${compensationPaid}`
+              : `Rilascio ${row.player.name} (RETROCESSO) - Gratuito`,
+          })
+          if (isEstero) {
+            historyEntries.push({
+              playerId: row.playerId,
+              leagueMemberId: row.memberId,
+              marketSessionId: sessionId,
+              eventType: 'INDEMNITY_RECEIVED',
+              income: compensationPaid,
+              notes: `Indennizzo ricevuto per ${row.player.name}`,
+            })
+          }
+          movements.push({
+            leagueId: session.leagueId,
+            marketSessionId: sessionId,
+            playerId: row.playerId,
+            fromMemberId: row.memberId,
+            toMemberId: null,
+            movementType: isEstero ? 'ABROAD_COMPENSATION' : 'RELEGATION_RELEASE',
+            price: compensationPaid,
+          })
+          released++
+          totalCompensation += compensationPaid
+        } else {
+          historyEntries.push({
+            contractId: contract.id,
+            playerId: row.playerId,
+            leagueMemberId: row.memberId,
+            marketSessionId: sessionId,
+            eventType: isEstero ? 'KEEP_ESTERO' : 'KEEP_RETROCESSO',
+            previousSalary: contract.salary,
+            previousDuration: contract.duration,
+            previousClause: contract.rescissionClause,
+            newSalary: contract.salary,
+            newDuration: contract.duration,
+            newClause: contract.rescissionClause,
+            notes: `Mantenuto ${row.player.name} (${row.exitReason})`,
+          })
+          movements.push({
+            leagueId: session.leagueId,
+            marketSessionId: sessionId,
+            playerId: row.playerId,
+            fromMemberId: null,
+            toMemberId: row.memberId,
+            movementType: isEstero ? 'ABROAD_KEEP' : 'RELEGATION_KEEP',
+            price: 0,
+          })
+        }
+
+        await tx.indemnityDecision.update({
+          where: { id: row.id },
+          data: { compensationPaid },
+        })
+      }
+
+      await tx.indemnityPhase.update({
+        where: { id: phase.id },
+        data: { status: 'CONSOLIDATED', consolidatedAt: now },
+      })
+
+      await recordCompensation(tx, {
+        leagueId: session.leagueId,
+        userId: adminUserId,
+        operation: 'INDEMNITIES_CONSOLIDATED',
+        entityType: 'IndemnityPhase',
+        entityId: phase.id,
+        description: `Consolidamento indennizzi (${rows.length} giocatori usciti)`,
+        steps: [
+          ...diffSnapshots(stateBefore, await captureState(tx, journalRefs)),
+          ...members.map(m => ({
+            kind: 'RECORD' as const,
+            model: 'leagueMember' as const,
+            id: m.id,
+            data: { preConsolidationBudget: m.preConsolidationBudget },
+          })),
+          { kind: 'RECORD', model: 'indemnityPhase', id: phase.id, data: { status: 'ADMIN_REVIEW', consolidatedAt: null } },
+          // Scritti dal sottoscrittore INDEMNITIES_CONSOLIDATED con questi id
+          { kind: 'MOVEMENTS', ids: assignJournalIds(movements) },
+          { kind: 'HISTORY', ids: assignJournalIds(historyEntries) },
+        ],
+      })
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Errore nel consolidamento indennizzi'
+    return { success: false, message }
+  }
+
+  await publishDomainEvent(DomainEventTypes.INDEMNITIES_CONSOLIDATED, {
+    leagueId: session.leagueId,
+    sessionId,
+    historyEntries,
+    movements,
+  })
+
+  return {
+    success: true,
+    message: `Indennizzi consolidati: ${released} rilasciati, ${rows.length - released} mantenuti`,
+    data: { released, kept: rows.length - released, totalCompensation },
+  }
+}
+
+// ==================== SCADENZE ====================
+
+export interface IndemnityDeadlineResult {
+  reminded: number
+  closed: number
+}
+
+/**
+ * Job periodico: promemoria push ai manager con decisioni mancanti nelle 24
+ * ore prima della scadenza, e passaggio in revisione admin delle fasi scadute.
+ * Invocato dal cron locale (see: shared/infrastructure/cron/indemnity-deadline-job.ts)
+ * e dall'endpoint Vercel Cron /api/cron/indemnity-deadlines.
+ */
+export async function processIndemnityDeadlines(now: Date = new Date()): Promise<ServiceResult> {
+  const expired = await prisma.indemnityPhase.updateMany({
+    where: { status: 'DECISIONS', decisionDeadline: { lte: now } },
+    data: { status: 'ADMIN_REVIEW', reviewStartedAt: now },
+  })
+
+  const dueSoon = await prisma.indemnityPhase.findMany({
+    where: {
+      status: 'DECISIONS',
+      reminderSentAt: null,
+      decisionDeadline: { gt: now, lte: new Date(now.getTime() + REMINDER_WINDOW_MS) },
+    },
+    include: {
+      session: { select: { league: { select: { name: true } } } },
+      decisions: {
+        where: { decision: null },
+        include: {
+          player: { select: { name: true } },
+          member: { select: { userId: true } },
+        },
+      },
+    },
+  })
+
+  let reminded = 0
+  for (const phase of dueSoon) {
+    const pendingByUser = new Map<string, string[]>()
+    for (const row of phase.decisions) {
+      const names = pendingByUser.get(row.member.userId) ?? []
+      names.push(row.player.name)
+      pendingByUser.set(row.member.userId, names)
+    }
+
+    for (const [userId, names] of pendingByUser) {
+      notifyIndemnityDeadline(userId, phase.session.league.name, names, phase.decisionDeadline!).catch(() => {})
+      reminded++
+    }
+
+    await prisma.indemnityPhase.update({
+      where: { id: phase.id },
+      data: { reminderSentAt: now },
+    })
+  }
+
+  return {
+    success: true,
+    message: `${reminded} promemoria inviati, ${expired.count} fasi chiuse per scadenza`,
+    data: { reminded, closed: expired.count } satisfies IndemnityDeadlineResult,
+  }
+}
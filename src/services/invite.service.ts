@@ -211,6 +211,11 @@ export async function acceptInvite(
     return { success: false, message: 'Questo invito è per un altro indirizzo email' }
   }
 
+  // La lega può richiedere un'email verificata
+  if (invite.league.requireVerifiedEmail && !user.emailVerified) {
+    return { success: false, message: 'Questa lega richiede un\'email verificata: conferma la tua email dal profilo' }
+  }
+
   // Verifica che non sia già membro
   const existingMember = await prisma.leagueMember.findFirst({
     where: {
@@ -1,6 +1,8 @@
-import { MemberRole, MemberStatus, JoinType, TradeStatus } from '@prisma/client'
+import { MemberRole, MemberStatus, JoinType, TradeStatus, Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
-import type { CreateLeagueInput, UpdateLeagueInput } from '../utils/validation'
+import type { CreateLeagueInput, UpdateLeagueInput, UpdateContractRulesInput } from '../utils/validation'
+import { resolveContractRuleset, validateContractRuleset } from '../utils/contract-rules'
+import { logAction } from './admin.service'
 import type { IEmailService } from '../modules/identity/domain/services/email.service.interface'
 import { computeSeasonStatsBatch } from './player-stats.service'
 import type { ServiceResult } from '@/shared/types/service-result'
@@ -52,6 +54,8 @@ export async function createLeague(userId: string, input: CreateLeagueInput & {
       midfielderSlots: input.midfielderSlots,
       forwardSlots: input.forwardSlots,
       isPublic: input.isPublic,
+      requireVerifiedEmail: input.requireVerifiedEmail,
+      requireAdminTwoFactor: input.requireAdminTwoFactor,
       members: {
         create: {
           userId,
@@ -302,6 +306,17 @@ export async function requestJoinLeague(leagueId: string, userId: string, teamNa
     return { success: false, message: 'Lega al completo' }
   }
 
+  // La lega può richiedere un'email verificata
+  if (league.requireVerifiedEmail) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { emailVerified: true },
+    })
+    if (!user?.emailVerified) {
+      return { success: false, message: 'Questa lega richiede un\'email verificata: conferma la tua email dal profilo' }
+    }
+  }
+
   // Check if user already has a membership
   const existingMembership = await prisma.leagueMember.findUnique({
     where: {
@@ -514,6 +529,10 @@ export async function updateMemberStatus(
       },
     })
 
+    await logAction(adminUserId, leagueId, 'MEMBER_STATUS_UPDATE', 'LeagueMember', memberId,
+      { status: member.status, currentBudget: member.currentBudget },
+      { action, status: MemberStatus.ACTIVE, currentBudget: member.league.initialBudget })
+
     // Send email notification to the manager (#52)
     if (member.user?.email) {
       try {
@@ -541,6 +560,9 @@ export async function updateMemberStatus(
       data: { status: MemberStatus.LEFT },
     })
 
+    await logAction(adminUserId, leagueId, 'MEMBER_STATUS_UPDATE', 'LeagueMember', memberId,
+      { status: member.status }, { action, status: MemberStatus.LEFT })
+
     // Send email notification for rejection (#126)
     if (action === 'reject' && member.user?.email) {
       try {
@@ -642,6 +664,16 @@ export async function startLeague(leagueId: string, adminUserId: string): Promis
     }
   }
 
+  // Verifica coerenza regole contrattuali (congelate all'avvio solo durante la fase CONTRATTI)
+  const rosterSlots = league.goalkeeperSlots + league.defenderSlots + league.midfielderSlots + league.forwardSlots
+  const rulesErrors = validateContractRuleset(resolveContractRuleset(league.contractRuleset), { rosterSlots })
+  if (rulesErrors.length > 0) {
+    return {
+      success: false,
+      message: `Regole contrattuali non valide: ${rulesErrors.join('; ')}`,
+    }
+  }
+
   // Avvia la lega
   await prisma.league.update({
     where: { id: leagueId },
@@ -762,6 +794,104 @@ export async function updateLeague(
   }
 }
 
+// ==================== REGOLE CONTRATTUALI ====================
+
+export async function getLeagueContractRules(leagueId: string, userId: string): Promise<ServiceResult> {
+  const member = await prisma.leagueMember.findFirst({
+    where: {
+      leagueId,
+      userId,
+      status: MemberStatus.ACTIVE,
+    },
+    include: { league: { select: { contractRuleset: true } } },
+  })
+
+  if (!member) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  return {
+    success: true,
+    data: {
+      rules: resolveContractRuleset(member.league.contractRuleset),
+      isCustom: member.league.contractRuleset !== null,
+    },
+  }
+}
+
+export async function updateLeagueContractRules(
+  leagueId: string,
+  adminUserId: string,
+  input: UpdateContractRulesInput
+): Promise<ServiceResult> {
+  const admin = await prisma.leagueMember.findFirst({
+    where: {
+      leagueId,
+      userId: adminUserId,
+      role: MemberRole.ADMIN,
+      status: MemberStatus.ACTIVE,
+    },
+    include: { league: true },
+  })
+
+  if (!admin) {
+    return { success: false, message: 'Non autorizzato' }
+  }
+
+  // Le regole non possono cambiare mentre i manager stanno rinnovando
+  const contrattiSession = await prisma.marketSession.findFirst({
+    where: {
+      leagueId,
+      status: 'ACTIVE',
+      currentPhase: 'CONTRATTI',
+    },
+  })
+
+  if (contrattiSession) {
+    return { success: false, message: 'Non puoi modificare le regole contrattuali durante la fase CONTRATTI' }
+  }
+
+  const league = admin.league
+  const previousRules = resolveContractRuleset(league.contractRuleset)
+
+  if (input.rules) {
+    const rosterSlots = league.goalkeeperSlots + league.defenderSlots + league.midfielderSlots + league.forwardSlots
+    const rules = resolveContractRuleset(input.rules)
+    const errors = validateContractRuleset(rules, { rosterSlots })
+    if (errors.length > 0) {
+      return { success: false, message: errors.join('; '), data: { errors } }
+    }
+
+    await prisma.league.update({
+      where: { id: leagueId },
+      data: { contractRuleset: rules as unknown as Prisma.InputJsonValue },
+    })
+
+    await logAction(adminUserId, leagueId, 'CONTRACT_RULES_UPDATE', 'League', leagueId, previousRules, rules)
+
+    return {
+      success: true,
+      message: 'Regole contrattuali aggiornate',
+      data: { rules, isCustom: true },
+    }
+  }
+
+  // Ripristino dei default
+  await prisma.league.update({
+    where: { id: leagueId },
+    data: { contractRuleset: Prisma.DbNull },
+  })
+
+  const rules = resolveContractRuleset(null)
+  await logAction(adminUserId, leagueId, 'CONTRACT_RULES_RESET', 'League', leagueId, previousRules, rules)
+
+  return {
+    success: true,
+    message: 'Regole contrattuali ripristinate ai valori di default',
+    data: { rules, isCustom: false },
+  }
+}
+
 export async function getAllRosters(leagueId: string, userId: string): Promise<ServiceResult> {
   // Verify user is member of league
   const membership = await prisma.leagueMember.findFirst({
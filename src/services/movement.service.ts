@@ -6,6 +6,7 @@ import type { ServiceResult } from '@/shared/types/service-result'
 // ==================== REGISTRA MOVIMENTO ====================
 
 interface MovementData {
+  id?: string
   leagueId: string
   playerId: string
   movementType: MovementType
@@ -27,6 +28,7 @@ export async function recordMovement(data: MovementData): Promise<string | null>
   try {
     const movement = await prisma.playerMovement.create({
       data: {
+        id: data.id,
         leagueId: data.leagueId,
         playerId: data.playerId,
         movementType: data.movementType,
@@ -0,0 +1,721 @@
+/**
+ * multi-party-trade.service.ts - Scambi a più squadre (N parti)
+ *
+ * Ogni partecipante cede e riceve giocatori e/o budget tramite una lista di
+ * trasferimenti (da -> a). La proposta viene eseguita solo quando tutte le parti
+ * hanno accettato, in un'unica transazione su tutte le rose, con un
+ * PlayerMovement per ogni giocatore trasferito (sottoscrittori TRADE_ACCEPTED).
+ * Una controproposta chiude l'originale (COUNTERED) e ne crea una nuova in cui
+ * solo chi la presenta risulta d'accordo: le accettazioni ripartono da zero.
+ *
+ * Scadenza, fine fase scambi e giocatori spostati sono gestiti dal sweeper
+ * (see: trade-lifecycle.service.ts). Gli scambi 1:1 restano in trade.service.ts.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { MemberStatus, RosterStatus, TradeStatus } from '@prisma/client'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { DomainEventTypes } from '@/shared/infrastructure/events'
+import type { PlayerMovement } from '@/shared/infrastructure/events'
+import { publishDomainEvent } from './domain-events.service'
+import { captureState, recordCompensation } from './compensation.service'
+import { diffSnapshots } from '../utils/compensation'
+import { isInTradePhase } from './trade.service'
+import type { ServiceResult } from '@/shared/types/service-result'
+
+// Con due sole parti si usa lo scambio classico
+const MIN_PARTIES = 3
+
+export interface MultiPartyTransferInput {
+  fromMemberId: string
+  toMemberId: string
+  rosterId?: string | null
+  budget?: number
+}
+
+const multiPartyTradeInclude = {
+  participants: {
+    include: {
+      member: { select: { id: true, userId: true, teamName: true, user: { select: { username: true } } } },
+    },
+  },
+  transfers: true,
+  marketSession: { select: { leagueId: true } },
+} satisfies Prisma.MultiPartyTradeInclude
+
+type MultiPartyTradeWithDetails = Prisma.MultiPartyTradeGetPayload<{ include: typeof multiPartyTradeInclude }>
+
+// ==================== VALIDATION ====================
+
+/**
+ * Verifica partecipanti, giocatori e budget di una proposta sullo stato attuale
+ * delle rose. Usata alla creazione e di nuovo, nella transazione, prima dell'esecuzione.
+ * Ritorna il messaggio di errore, o null se la proposta è eseguibile.
+ */
+async function validateProposal(
+  leagueId: string,
+  participantIds: string[],
+  transfers: MultiPartyTransferInput[],
+  db: Prisma.TransactionClient = prisma
+): Promise<string | null> {
+  if (participantIds.length < MIN_PARTIES) {
+    return `Uno scambio a più squadre richiede almeno ${MIN_PARTIES} partecipanti`
+  }
+
+  const members = await db.leagueMember.findMany({
+    where: { id: { in: participantIds }, leagueId, status: MemberStatus.ACTIVE },
+    include: { user: { select: { username: true } } },
+  })
+  if (members.length !== participantIds.length) {
+    return 'Alcuni partecipanti non sono membri attivi della lega'
+  }
+
+  if (transfers.length === 0) {
+    return 'Devi indicare almeno un trasferimento'
+  }
+
+  for (const transfer of transfers) {
+    if (!participantIds.includes(transfer.fromMemberId) || !participantIds.includes(transfer.toMemberId)) {
+      return 'I trasferimenti possono coinvolgere solo i partecipanti allo scambio'
+    }
+    if (transfer.fromMemberId === transfer.toMemberId) {
+      return 'Un partecipante non può cedere a se stesso'
+    }
+    const budget = transfer.budget ?? 0
+    if (!Number.isInteger(budget) || budget < 0) {
+      return 'I budget devono essere interi positivi'
+    }
+    if (!transfer.rosterId === (budget === 0)) {
+      return 'Ogni trasferimento deve essere un giocatore oppure una somma di budget'
+    }
+  }
+
+  const rosterIds = transfers.flatMap(t => (t.rosterId ? [t.rosterId] : []))
+  if (new Set(rosterIds).size !== rosterIds.length) {
+    return 'Un giocatore può comparire in un solo trasferimento'
+  }
+
+  if (rosterIds.length > 0) {
+    const rosters = await db.playerRoster.findMany({
+      where: { id: { in: rosterIds }, status: RosterStatus.ACTIVE },
+      select: { id: true, leagueMemberId: true },
+    })
+    const ownerByRoster = new Map(rosters.map(r => [r.id, r.leagueMemberId]))
+    if (transfers.some(t => t.rosterId && ownerByRoster.get(t.rosterId) !== t.fromMemberId)) {
+      return 'Alcuni giocatori non sono nella rosa di chi li cede'
+    }
+  }
+
+  const involved = new Set(transfers.flatMap(t => [t.fromMemberId, t.toMemberId]))
+  if (participantIds.some(id => !involved.has(id))) {
+    return 'Ogni partecipante deve cedere o ricevere qualcosa'
+  }
+
+  for (const member of members) {
+    const outgoing = transfers
+      .filter(t => t.fromMemberId === member.id)
+      .reduce((sum, t) => sum + (t.budget ?? 0), 0)
+    if (outgoing > member.currentBudget) {
+      return `${member.teamName || member.user.username}: budget insufficiente. Disponibile: ${member.currentBudget}`
+    }
+  }
+
+  return null
+}
+
+// ==================== CREATE ====================
+
+async function createProposal(
+  leagueId: string,
+  proposerMemberId: string,
+  proposerUserId: string,
+  participantMemberIds: string[],
+  transfers: MultiPartyTransferInput[],
+  message: string | undefined,
+  durationHours: number,
+  parentTradeId: string | null
+): Promise<ServiceResult> {
+  const participantIds = [...new Set([proposerMemberId, ...participantMemberIds])]
+
+  const validationError = await validateProposal(leagueId, participantIds, transfers)
+  if (validationError) {
+    return { success: false, message: validationError }
+  }
+
+  const activeSession = await prisma.marketSession.findFirst({
+    where: { leagueId, status: 'ACTIVE' },
+  })
+  if (!activeSession) {
+    return { success: false, message: 'Nessuna sessione di mercato attiva' }
+  }
+
+  // Anti-reverse trade rule (same session), as for 1:1 offers: the proposer cannot
+  // start a trade with a manager whose trade with them was already accepted
+  const otherIds = participantIds.filter(id => id !== proposerMemberId)
+  const others = await prisma.leagueMember.findMany({
+    where: { id: { in: otherIds } },
+    select: { userId: true },
+  })
+  const [reverseOffer, reverseMultiParty] = await Promise.all([
+    prisma.tradeOffer.findFirst({
+      where: {
+        marketSessionId: activeSession.id,
+        senderId: { in: others.map(m => m.userId) },
+        receiverId: proposerUserId,
+        status: TradeStatus.ACCEPTED,
+      },
+    }),
+    prisma.multiPartyTrade.findFirst({
+      where: {
+        marketSessionId: activeSession.id,
+        proposerId: { in: otherIds },
+        participants: { some: { memberId: proposerMemberId } },
+        status: TradeStatus.ACCEPTED,
+      },
+    }),
+  ])
+  if (reverseOffer || reverseMultiParty) {
+    return { success: false, message: 'Non puoi fare uno scambio inverso nella stessa sessione di mercato' }
+  }
+
+  const now = new Date()
+  const trade = await prisma.multiPartyTrade.create({
+    data: {
+      marketSessionId: activeSession.id,
+      proposerId: proposerMemberId,
+      involvedPlayers: transfers.flatMap(t => (t.rosterId ? [t.rosterId] : [])),
+      message,
+      expiresAt: new Date(now.getTime() + durationHours * 60 * 60 * 1000),
+      parentTradeId,
+      participants: {
+        // Chi propone è d'accordo per definizione
+        create: participantIds.map(memberId => ({
+          memberId,
+          acceptedAt: memberId === proposerMemberId ? now : null,
+        })),
+      },
+      transfers: {
+        create: transfers.map(t => ({
+          fromMemberId: t.fromMemberId,
+          toMemberId: t.toMemberId,
+          rosterId: t.rosterId || null,
+          budget: t.budget ?? 0,
+        })),
+      },
+    },
+    include: multiPartyTradeInclude,
+  })
+
+  const proposer = trade.participants.find(p => p.memberId === proposerMemberId)
+  for (const participant of trade.participants) {
+    if (participant.memberId === proposerMemberId) continue
+    await publishDomainEvent(DomainEventTypes.TRADE_OFFERED, {
+      tradeId: trade.id,
+      leagueId,
+      senderId: proposerUserId,
+      senderUsername: proposer?.member.user.username ?? '',
+      receiverId: participant.member.userId,
+    })
+  }
+
+  return {
+    success: true,
+    message: 'Proposta inviata',
+    data: trade,
+  }
+}
+
+export async function createMultiPartyTrade(
+  leagueId: string,
+  userId: string,
+  participantMemberIds: string[],
+  transfers: MultiPartyTransferInput[],
+  message?: string,
+  durationHours: number = 24
+): Promise<ServiceResult> {
+  const proposer = await prisma.leagueMember.findFirst({
+    where: { leagueId, userId, status: MemberStatus.ACTIVE },
+  })
+
+  if (!proposer) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  const inTradePhase = await isInTradePhase(leagueId)
+  if (!inTradePhase) {
+    return { success: false, message: 'Puoi fare scambi solo durante la fase SCAMBI/OFFERTE' }
+  }
+
+  return createProposal(leagueId, proposer.id, userId, participantMemberIds, transfers, message, durationHours, null)
+}
+
+// ==================== READ ====================
+
+export async function getMultiPartyTrades(leagueId: string, userId: string): Promise<ServiceResult> {
+  const member = await prisma.leagueMember.findFirst({
+    where: { leagueId, userId, status: MemberStatus.ACTIVE },
+  })
+
+  if (!member) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  const activeSession = await prisma.marketSession.findFirst({
+    where: { leagueId, status: 'ACTIVE' },
+  })
+  if (!activeSession) {
+    return { success: true, data: [] }
+  }
+
+  // Auto-expire old pending proposals before returning the list
+  await prisma.multiPartyTrade.updateMany({
+    where: {
+      marketSessionId: activeSession.id,
+      status: TradeStatus.PENDING,
+      expiresAt: { lt: new Date() },
+    },
+    data: { status: TradeStatus.EXPIRED },
+  })
+
+  const trades = await prisma.multiPartyTrade.findMany({
+    where: {
+      marketSessionId: activeSession.id,
+      status: TradeStatus.PENDING,
+      participants: { some: { memberId: member.id } },
+    },
+    include: multiPartyTradeInclude,
+    orderBy: { createdAt: 'desc' },
+  })
+
+  const rosterIds = trades.flatMap(t => t.transfers.flatMap(tr => (tr.rosterId ? [tr.rosterId] : [])))
+  const rosters = rosterIds.length > 0
+    ? await prisma.playerRoster.findMany({
+        where: { id: { in: rosterIds } },
+        include: { player: true, contract: true },
+      })
+    : []
+  const rosterMap = new Map(rosters.map(r => [r.id, r]))
+
+  return {
+    success: true,
+    data: trades.map(trade => ({
+      id: trade.id,
+      status: trade.status,
+      proposerId: trade.proposerId,
+      parentTradeId: trade.parentTradeId,
+      message: trade.message,
+      createdAt: trade.createdAt,
+      expiresAt: trade.expiresAt,
+      participants: trade.participants.map(p => ({
+        memberId: p.memberId,
+        username: p.member.user.username,
+        teamName: p.member.teamName,
+        acceptedAt: p.acceptedAt,
+      })),
+      transfers: trade.transfers.map(t => {
+        const roster = t.rosterId ? rosterMap.get(t.rosterId) : undefined
+        return {
+          id: t.id,
+          fromMemberId: t.fromMemberId,
+          toMemberId: t.toMemberId,
+          rosterId: t.rosterId,
+          budget: t.budget,
+          player: roster
+            ? {
+                id: roster.player.id,
+                name: roster.player.name,
+                team: roster.player.team,
+                position: roster.player.position,
+                contract: roster.contract ? {
+                  salary: roster.contract.salary,
+                  duration: roster.contract.duration,
+                  rescissionClause: roster.contract.rescissionClause,
+                } : null,
+              }
+            : null,
+        }
+      }),
+    })),
+  }
+}
+
+// ==================== ACCEPT / EXECUTE ====================
+
+async function loadPendingTradeForParticipant(
+  tradeId: string,
+  userId: string
+): Promise<{ trade: MultiPartyTradeWithDetails; participantId: string; memberId: string } | { error: string }> {
+  const trade = await prisma.multiPartyTrade.findUnique({
+    where: { id: tradeId },
+    include: multiPartyTradeInclude,
+  })
+
+  if (!trade) {
+    return { error: 'Proposta non trovata' }
+  }
+
+  const participant = trade.participants.find(p => p.member.userId === userId)
+  if (!participant) {
+    return { error: 'Non partecipi a questo scambio' }
+  }
+
+  if (trade.status !== TradeStatus.PENDING) {
+    return { error: 'Questa proposta non è più valida' }
+  }
+
+  return { trade, participantId: participant.id, memberId: participant.memberId }
+}
+
+class ProposalInvalidError extends Error {}
+
+/**
+ * Esegue lo scambio su tutte le rose. Lo stato PENDING viene "prenotato" nella
+ * transazione (compare-and-swap) e rose/budget vengono riverificati dentro la
+ * stessa transazione. Se due ultime accettazioni arrivano insieme lo scambio
+ * parte una volta sola e entrambi i chiamanti ricevono l'esito positivo.
+ */
+async function executeMultiPartyTrade(trade: MultiPartyTradeWithDetails, userId: string): Promise<ServiceResult> {
+  const leagueId = trade.marketSession.leagueId
+  const participantIds = trade.participants.map(p => p.memberId)
+  const participantUserIds = trade.participants.map(p => p.member.userId)
+  const playerTransfers = trade.transfers.filter(t => t.rosterId)
+  const rosterIds = playerTransfers.map(t => t.rosterId as string)
+
+  // Net budget per participant (positive: receives)
+  const budgetDelta = new Map<string, number>()
+  for (const transfer of trade.transfers) {
+    if (transfer.budget === 0) continue
+    budgetDelta.set(transfer.fromMemberId, (budgetDelta.get(transfer.fromMemberId) ?? 0) - transfer.budget)
+    budgetDelta.set(transfer.toMemberId, (budgetDelta.get(transfer.toMemberId) ?? 0) + transfer.budget)
+  }
+
+  let claimed: boolean
+  try {
+    claimed = await prisma.$transaction(async (tx) => {
+      const claim = await tx.multiPartyTrade.updateMany({
+        where: { id: trade.id, status: TradeStatus.PENDING },
+        data: { status: TradeStatus.ACCEPTED, respondedAt: new Date() },
+      })
+      if (claim.count === 0) return false
+
+      // Re-validate rosters and budgets (may have changed since the proposal)
+      const validationError = await validateProposal(leagueId, participantIds, trade.transfers, tx)
+      if (validationError) {
+        throw new ProposalInvalidError(validationError)
+      }
+
+      const contracts = await tx.playerContract.findMany({
+        where: { rosterId: { in: rosterIds } },
+        select: { id: true },
+      })
+      const journalRefs = { memberIds: participantIds, rosterIds, contractIds: contracts.map(c => c.id) }
+      const stateBefore = await captureState(tx, journalRefs)
+
+      for (const transfer of playerTransfers) {
+        await tx.playerRoster.update({
+          where: { id: transfer.rosterId as string },
+          data: {
+            leagueMemberId: transfer.toMemberId,
+            acquisitionType: 'TRADE',
+          },
+        })
+        await tx.playerContract.updateMany({
+          where: { rosterId: transfer.rosterId as string },
+          data: { leagueMemberId: transfer.toMemberId },
+        })
+      }
+
+      for (const [memberId, delta] of budgetDelta) {
+        if (delta === 0) continue
+        await tx.leagueMember.update({
+          where: { id: memberId },
+          data: { currentBudget: delta > 0 ? { increment: delta } : { decrement: -delta } },
+        })
+      }
+
+      await recordCompensation(tx, {
+        leagueId,
+        userId,
+        operation: 'MULTI_PARTY_TRADE_ACCEPTED',
+        entityType: 'MultiPartyTrade',
+        entityId: trade.id,
+        description: `Scambio a più squadre tra ${trade.participants.map(p => p.member.teamName || p.member.user.username).join(', ')}`,
+        steps: [
+          ...diffSnapshots(stateBefore, await captureState(tx, journalRefs)),
+          { kind: 'RECORD', model: 'multiPartyTrade', id: trade.id, data: { status: TradeStatus.CANCELLED } },
+          { kind: 'MOVEMENTS', filter: { tradeId: trade.id, movementTypes: ['TRADE'] } },
+        ],
+      })
+      return true
+    })
+  } catch (error) {
+    if (error instanceof ProposalInvalidError) {
+      // The claim was rolled back with the transaction
+      await prisma.multiPartyTrade.updateMany({
+        where: { id: trade.id, status: TradeStatus.PENDING },
+        data: { status: TradeStatus.INVALIDATED, respondedAt: new Date() },
+      })
+      await publishDomainEvent(DomainEventTypes.TRADE_INVALIDATED, {
+        leagueId,
+        tradeIds: [trade.id],
+        affectedUserIds: participantUserIds,
+        reason: 'PLAYER_MOVED',
+      })
+      return { success: false, message: `Lo scambio non è più eseguibile: ${error.message}. La proposta è stata invalidata.` }
+    }
+    const message = error instanceof Error ? error.message : 'Errore durante lo scambio'
+    return { success: false, message }
+  }
+
+  if (!claimed) {
+    // Another participant's acceptance completed the trade concurrently
+    const current = await prisma.multiPartyTrade.findUnique({
+      where: { id: trade.id },
+      select: { status: true },
+    })
+    if (current?.status === TradeStatus.ACCEPTED) {
+      return {
+        success: true,
+        message: 'Scambio a più squadre completato!',
+        data: { executed: true },
+      }
+    }
+    return { success: false, message: 'Questa proposta non è più valida' }
+  }
+
+  await invalidateConflictingOffers(trade, rosterIds, participantUserIds)
+
+  // One movement per transferred player (recorded by TRADE_ACCEPTED subscribers)
+  const rosters = rosterIds.length > 0
+    ? await prisma.playerRoster.findMany({
+        where: { id: { in: rosterIds } },
+        include: { contract: true },
+      })
+    : []
+  const movements: PlayerMovement[] = playerTransfers.flatMap(transfer => {
+    const roster = rosters.find(r => r.id === transfer.rosterId)
+    if (!roster) return []
+    return [{
+      leagueId,
+      playerId: roster.playerId,
+      movementType: 'TRADE',
+      fromMemberId: transfer.fromMemberId,
+      toMemberId: transfer.toMemberId,
+      oldSalary: roster.contract?.salary,
+      oldDuration: roster.contract?.duration,
+      oldClause: roster.contract?.rescissionClause,
+      newSalary: roster.contract?.salary,
+      newDuration: roster.contract?.duration,
+      newClause: roster.contract?.rescissionClause,
+      tradeId: trade.id,
+      marketSessionId: trade.marketSessionId,
+    }]
+  })
+
+  await publishDomainEvent(DomainEventTypes.TRADE_ACCEPTED, {
+    tradeId: trade.id,
+    leagueId,
+    marketSessionId: trade.marketSessionId,
+    movements,
+  })
+
+  return {
+    success: true,
+    message: 'Scambio a più squadre completato!',
+    data: { executed: true },
+  }
+}
+
+/**
+ * Invalida le offerte PENDING (1:1 e a più squadre) della sessione che
+ * coinvolgono i giocatori appena scambiati.
+ */
+async function invalidateConflictingOffers(
+  trade: MultiPartyTradeWithDetails,
+  rosterIds: string[],
+  participantUserIds: string[]
+): Promise<void> {
+  if (rosterIds.length === 0) return
+
+  const overlaps = (involved: Prisma.JsonValue) => (involved as string[]).some(id => rosterIds.includes(id))
+
+  const [pendingOffers, pendingMultiParty] = await Promise.all([
+    prisma.tradeOffer.findMany({
+      where: { marketSessionId: trade.marketSessionId, status: TradeStatus.PENDING },
+      select: { id: true, senderId: true, receiverId: true, involvedPlayers: true },
+    }),
+    prisma.multiPartyTrade.findMany({
+      where: { id: { not: trade.id }, marketSessionId: trade.marketSessionId, status: TradeStatus.PENDING },
+      select: { id: true, involvedPlayers: true, participants: { select: { member: { select: { userId: true } } } } },
+    }),
+  ])
+
+  const offersToInvalidate = pendingOffers.filter(o => overlaps(o.involvedPlayers))
+  const multiPartyToInvalidate = pendingMultiParty.filter(t => overlaps(t.involvedPlayers))
+  if (offersToInvalidate.length === 0 && multiPartyToInvalidate.length === 0) return
+
+  const now = new Date()
+  if (offersToInvalidate.length > 0) {
+    await prisma.tradeOffer.updateMany({
+      where: { id: { in: offersToInvalidate.map(o => o.id) }, status: TradeStatus.PENDING },
+      data: { status: TradeStatus.INVALIDATED, respondedAt: now },
+    })
+  }
+  if (multiPartyToInvalidate.length > 0) {
+    await prisma.multiPartyTrade.updateMany({
+      where: { id: { in: multiPartyToInvalidate.map(t => t.id) }, status: TradeStatus.PENDING },
+      data: { status: TradeStatus.INVALIDATED, respondedAt: now },
+    })
+  }
+
+  // Managers already notified by the executed trade are excluded
+  const affectedUserIds = new Set([
+    ...offersToInvalidate.flatMap(o => [o.senderId, o.receiverId]),
+    ...multiPartyToInvalidate.flatMap(t => t.participants.map(p => p.member.userId)),
+  ])
+  participantUserIds.forEach(id => affectedUserIds.delete(id))
+
+  await publishDomainEvent(DomainEventTypes.TRADE_INVALIDATED, {
+    leagueId: trade.marketSession.leagueId,
+    tradeIds: [...offersToInvalidate.map(o => o.id), ...multiPartyToInvalidate.map(t => t.id)],
+    affectedUserIds: [...affectedUserIds],
+  })
+}
+
+export async function acceptMultiPartyTrade(tradeId: string, userId: string): Promise<ServiceResult> {
+  const loaded = await loadPendingTradeForParticipant(tradeId, userId)
+  if ('error' in loaded) {
+    return { success: false, message: loaded.error }
+  }
+  const { trade, participantId } = loaded
+
+  if (trade.expiresAt && new Date() > trade.expiresAt) {
+    await prisma.multiPartyTrade.update({
+      where: { id: tradeId },
+      data: { status: TradeStatus.EXPIRED },
+    })
+    return { success: false, message: 'Questa proposta è scaduta' }
+  }
+
+  const inTradePhase = await isInTradePhase(trade.marketSession.leagueId)
+  if (!inTradePhase) {
+    return { success: false, message: 'Puoi accettare scambi solo durante la fase SCAMBI/OFFERTE' }
+  }
+
+  if (trade.participants.find(p => p.id === participantId)?.acceptedAt) {
+    return { success: false, message: 'Hai già accettato questa proposta' }
+  }
+
+  await prisma.multiPartyTradeParticipant.update({
+    where: { id: participantId },
+    data: { acceptedAt: new Date() },
+  })
+
+  // Count from the DB: other participants may have accepted in the meantime
+  const pendingCount = await prisma.multiPartyTradeParticipant.count({
+    where: { tradeId, acceptedAt: null },
+  })
+  if (pendingCount > 0) {
+    return {
+      success: true,
+      message: `Accettazione registrata. In attesa di ${pendingCount} partecipant${pendingCount === 1 ? 'e' : 'i'}`,
+      data: { executed: false, pendingCount },
+    }
+  }
+
+  return executeMultiPartyTrade(trade, userId)
+}
+
+// ==================== REJECT / CANCEL / COUNTER ====================
+
+export async function rejectMultiPartyTrade(tradeId: string, userId: string): Promise<ServiceResult> {
+  const loaded = await loadPendingTradeForParticipant(tradeId, userId)
+  if ('error' in loaded) {
+    return { success: false, message: loaded.error }
+  }
+
+  await prisma.multiPartyTrade.update({
+    where: { id: tradeId },
+    data: { status: TradeStatus.REJECTED, respondedAt: new Date() },
+  })
+
+  await publishDomainEvent(DomainEventTypes.TRADE_REJECTED, {
+    tradeId,
+    leagueId: loaded.trade.marketSession.leagueId,
+  })
+
+  return { success: true, message: 'Proposta rifiutata' }
+}
+
+export async function cancelMultiPartyTrade(tradeId: string, userId: string): Promise<ServiceResult> {
+  const loaded = await loadPendingTradeForParticipant(tradeId, userId)
+  if ('error' in loaded) {
+    return { success: false, message: loaded.error }
+  }
+
+  if (loaded.trade.proposerId !== loaded.memberId) {
+    return { success: false, message: 'Solo chi ha proposto lo scambio può annullarlo' }
+  }
+
+  await prisma.multiPartyTrade.update({
+    where: { id: tradeId },
+    data: { status: TradeStatus.CANCELLED, respondedAt: new Date() },
+  })
+
+  await publishDomainEvent(DomainEventTypes.TRADE_CANCELLED, {
+    tradeId,
+    leagueId: loaded.trade.marketSession.leagueId,
+  })
+
+  return { success: true, message: 'Proposta annullata' }
+}
+
+export async function counterMultiPartyTrade(
+  tradeId: string,
+  userId: string,
+  transfers: MultiPartyTransferInput[],
+  message?: string
+): Promise<ServiceResult> {
+  const loaded = await loadPendingTradeForParticipant(tradeId, userId)
+  if ('error' in loaded) {
+    return { success: false, message: loaded.error }
+  }
+  const { trade, memberId } = loaded
+  const leagueId = trade.marketSession.leagueId
+
+  const inTradePhase = await isInTradePhase(leagueId)
+  if (!inTradePhase) {
+    return { success: false, message: 'Puoi controffertare solo durante la fase SCAMBI/OFFERTE' }
+  }
+
+  // Same parties, new terms: everyone else has to accept again
+  const result = await createProposal(
+    leagueId,
+    memberId,
+    userId,
+    trade.participants.map(p => p.memberId),
+    transfers,
+    message || `Controproposta a scambio #${tradeId.slice(-6)}`,
+    24,
+    tradeId
+  )
+
+  if (!result.success) {
+    return result
+  }
+
+  await prisma.multiPartyTrade.update({
+    where: { id: tradeId },
+    data: { status: TradeStatus.COUNTERED, respondedAt: new Date() },
+  })
+
+  await publishDomainEvent(DomainEventTypes.COUNTER_OFFER_MADE, {
+    originalTradeId: tradeId,
+    counterTradeId: (result.data as { id: string }).id,
+    leagueId,
+  })
+
+  return { ...result, message: 'Controproposta inviata' }
+}
@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/prisma'
 import webpush from 'web-push'
+import type { TradeInvalidationReason } from '@/shared/infrastructure/events'
 
 // ==================== VAPID CONFIGURATION ====================
 
@@ -164,16 +165,24 @@ export async function notifyTradeOffer(
   })
 }
 
+const TRADE_INVALIDATED_REASONS: Record<TradeInvalidationReason, string> = {
+  PLAYER_TRADED: 'un giocatore coinvolto è stato scambiato',
+  PLAYER_MOVED: 'un giocatore coinvolto non è più nella rosa',
+  PHASE_ENDED: 'la fase scambi si è chiusa',
+  EXPIRED: 'è scaduto il tempo per rispondere',
+}
+
 export async function notifyTradeInvalidated(
   userId: string,
-  leagueName: string
+  leagueName: string,
+  reason: TradeInvalidationReason = 'PLAYER_TRADED'
 ): Promise<void> {
   const prefs = await getPreferences(userId)
   if (!prefs.pushEnabled || !prefs.tradeOffers) return
 
   await sendPushToUser(userId, {
     title: 'Offerta decaduta',
-    body: `Una tua offerta in ${leagueName} è decaduta perché un giocatore coinvolto è stato scambiato`,
+    body: `Una tua offerta in ${leagueName} è decaduta perché ${TRADE_INVALIDATED_REASONS[reason]}`,
     tag: 'trade-invalidated',
     data: { type: 'trade-invalidated' },
   })
@@ -251,3 +260,21 @@ export async function notifyContractExpiry(
     data: { type: 'contract-expiry' },
   })
 }
+
+export async function notifyIndemnityDeadline(
+  userId: string,
+  leagueName: string,
+  pendingPlayers: string[],
+  deadline: Date
+): Promise<void> {
+  const prefs = await getPreferences(userId)
+  if (!prefs.pushEnabled || !prefs.contractExpiry) return
+
+  const time = deadline.toLocaleString('it-IT', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit', timeZone: 'Europe/Rome' })
+  await sendPushToUser(userId, {
+    title: 'Decisioni indennizzi in scadenza',
+    body: `${leagueName}: decidi entro ${time} per ${pendingPlayers.join(', ')}`,
+    tag: 'indemnity-deadline',
+    data: { type: 'indemnity-deadline' },
+  })
+}
@@ -203,3 +203,103 @@ export async function getPlayersWithStats(filters: PlayerStatsFilters = {}) {
     },
   }
 }
+
+// ==================== QUOTATION HISTORY ====================
+
+export async function getQuotationHistory(playerId: string) {
+  const history = await prisma.playerQuotationHistory.findMany({
+    where: { playerId },
+    orderBy: { recordedAt: 'asc' },
+    select: { quotation: true, recordedAt: true, uploadId: true },
+  })
+
+  return history
+}
+
+export interface QuotationMover {
+  playerId: string
+  name: string
+  team: string
+  position: Position
+  previousQuotation: number
+  quotation: number
+  delta: number
+  // Solo con leagueId: manager che ha il giocatore in rosa
+  owner: { memberId: string; teamName: string | null; username: string } | null
+}
+
+/**
+ * Maggiori rialzi e ribassi tra gli ultimi due upload delle quotazioni.
+ * Con leagueId considera solo i giocatori nelle rose attive della lega.
+ */
+export async function getQuotationMovers(options: { leagueId?: string; limit?: number } = {}) {
+  const { leagueId, limit = 10 } = options
+
+  const uploads = await prisma.quotazioniUpload.findMany({
+    where: { rolledBackAt: null },
+    orderBy: { createdAt: 'desc' },
+    take: 2,
+    select: { id: true, createdAt: true },
+  })
+
+  const [latest, previous] = uploads
+  if (!latest || !previous) {
+    return { latestUpload: latest ?? null, previousUpload: null, risers: [], fallers: [] }
+  }
+
+  const rosters = leagueId
+    ? await prisma.playerRoster.findMany({
+        where: { status: 'ACTIVE', leagueMember: { leagueId } },
+        select: {
+          playerId: true,
+          leagueMember: { select: { id: true, teamName: true, user: { select: { username: true } } } },
+        },
+      })
+    : []
+  const owners = new Map(rosters.map(r => [r.playerId, {
+    memberId: r.leagueMember.id,
+    teamName: r.leagueMember.teamName,
+    username: r.leagueMember.user.username,
+  }]))
+
+  const entries = await prisma.playerQuotationHistory.findMany({
+    where: {
+      uploadId: { in: [latest.id, previous.id] },
+      ...(leagueId && { playerId: { in: [...owners.keys()] } }),
+    },
+    select: {
+      playerId: true,
+      uploadId: true,
+      quotation: true,
+      player: { select: { name: true, team: true, position: true } },
+    },
+  })
+
+  const byPlayer = new Map<string, { previous?: number; latest?: number; player: { name: string; team: string; position: Position } }>()
+  for (const entry of entries) {
+    const current = byPlayer.get(entry.playerId) ?? { player: entry.player }
+    if (entry.uploadId === latest.id) current.latest = entry.quotation
+    else current.previous = entry.quotation
+    byPlayer.set(entry.playerId, current)
+  }
+
+  const movers: QuotationMover[] = []
+  for (const [playerId, { previous: prev, latest: last, player }] of byPlayer) {
+    if (prev === undefined || last === undefined || prev === last) continue
+    movers.push({
+      playerId,
+      ...player,
+      previousQuotation: prev,
+      quotation: last,
+      delta: last - prev,
+      owner: owners.get(playerId) ?? null,
+    })
+  }
+
+  return {
+    latestUpload: latest,
+    previousUpload: previous,
+    risers: movers.filter(m => m.delta > 0).sort((a, b) => b.delta - a.delta).slice(0, limit),
+    fallers: movers.filter(m => m.delta < 0).sort((a, b) => a.delta - b.delta).slice(0, limit),
+  }
+}
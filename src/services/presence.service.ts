@@ -0,0 +1,73 @@
+/**
+ * presence.service.ts - Presenza dei manager nelle stanze d'asta
+ *
+ * Unico punto di accesso ai heartbeat per primo mercato, rubata e svincolati.
+ * Lo stato è conservato nel PresenceStore attivo (database in produzione,
+ * memoria nei test), quindi è coerente tra più istanze serverless.
+ *
+ * Le transizioni online/offline vengono annunciate alla stanza con l'evento
+ * Pusher MEMBER_CONNECTION_CHANGED: la riconnessione al primo heartbeat,
+ * la disconnessione quando lo stato viene letto dopo il timeout.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { prisma } from '@/lib/prisma'
+import { getPresenceStore, type PresenceScope } from '@/shared/infrastructure/presence'
+import { triggerMemberConnectionChanged } from './pusher.service'
+
+/**
+ * Le stanze del primo mercato sono identificate dalla sessione, quelle di
+ * rubata e svincolati dalla lega: il canale Pusher è sempre quello della sessione.
+ */
+async function resolveSessionId(scope: PresenceScope, roomId: string): Promise<string | null> {
+  if (scope === 'AUCTION') return roomId
+  const session = await prisma.marketSession.findFirst({
+    where: { leagueId: roomId, status: 'ACTIVE' },
+    select: { id: true },
+  })
+  return session?.id ?? null
+}
+
+async function announceTransitions(
+  scope: PresenceScope,
+  roomId: string,
+  memberIds: string[],
+  isConnected: boolean
+): Promise<void> {
+  if (memberIds.length === 0) return
+  const sessionId = await resolveSessionId(scope, roomId)
+  if (!sessionId) return
+
+  for (const memberId of memberIds) {
+    await triggerMemberConnectionChanged(sessionId, {
+      memberId,
+      scope,
+      isConnected,
+      timestamp: new Date().toISOString(),
+    })
+  }
+}
+
+export async function registerPresence(scope: PresenceScope, roomId: string, memberId: string): Promise<void> {
+  const reconnected = await getPresenceStore().touch(scope, roomId, memberId)
+  if (reconnected) {
+    await announceTransitions(scope, roomId, [memberId], true)
+  }
+}
+
+export async function getPresenceStatus(scope: PresenceScope, roomId: string): Promise<Map<string, boolean>> {
+  const store = getPresenceStore()
+  const wentOffline = await store.sweep(scope, roomId)
+  await announceTransitions(scope, roomId, wentOffline, false)
+  return store.getStatus(scope, roomId)
+}
+
+export async function isAllPresent(scope: PresenceScope, roomId: string, memberIds: string[]): Promise<boolean> {
+  const status = await getPresenceStatus(scope, roomId)
+  return memberIds.every(id => status.get(id) === true)
+}
+
+export async function clearPresence(scope: PresenceScope, roomId: string): Promise<void> {
+  await getPresenceStore().clear(scope, roomId)
+}
@@ -1,7 +1,24 @@
-import { MemberStatus } from '@prisma/client'
+import { MemberStatus, type Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
 import type { ServiceResult } from '@/shared/types/service-result'
 import { logInfo } from '@/services/app-log.service'
+import { DomainEventTypes } from '@/shared/infrastructure/events'
+import { publishDomainEvent } from './domain-events.service'
+import { logAction } from './admin.service'
+import { recordCompensation } from './compensation.service'
+import { getSeasonStandings } from './scoring.service'
+import { getImportedStandings } from './standings-import.service'
+import { setIndemnityCompensation } from './indemnity-phase.service'
+import {
+  applyPrizeRule,
+  describePrizeRule,
+  parsePrizeRule,
+  validatePrizeAmount,
+  validatePrizeRule,
+  type MetricValue,
+  type PrizeRule,
+  type PrizeRuleMetric,
+} from '../utils/prize-rules'
 
 
 // ==================== INIZIALIZZAZIONE FASE PREMI ====================
@@ -269,6 +286,7 @@ export async function getPrizePhaseData(
     id: cat.id,
     name: cat.name,
     isSystemPrize: cat.isSystemPrize,
+    rule: parsePrizeRule(cat.rule),
     prizes: cat.managerPrizes.map(p => ({
       memberId: p.leagueMemberId,
       teamName: p.leagueMember.teamName,
@@ -399,7 +417,8 @@ export async function updateBaseReincrement(
 export async function createPrizeCategory(
   sessionId: string,
   adminUserId: string,
-  name: string
+  name: string,
+  rule?: PrizeRule | null
 ): Promise<ServiceResult> {
   const session = await prisma.marketSession.findUnique({
     where: { id: sessionId },
@@ -447,11 +466,19 @@ export async function createPrizeCategory(
     return { success: false, message: 'Esiste già una categoria con questo nome' }
   }
 
+  if (rule) {
+    const errors = validatePrizeRule(rule)
+    if (errors.length > 0) {
+      return { success: false, message: errors.join('; ') }
+    }
+  }
+
   const category = await prisma.prizeCategory.create({
     data: {
       marketSessionId: sessionId,
       name: name.trim(),
       isSystemPrize: false,
+      ...(rule && { rule: rule as unknown as Prisma.InputJsonValue }),
     },
   })
 
@@ -515,6 +542,48 @@ export async function deletePrizeCategory(
 
 // ==================== SET MEMBER PRIZE ====================
 
+interface WrittenPrize {
+  prizeId: string
+  memberId: string
+  categoryId: string
+  amount: number
+}
+
+/**
+ * Scrive l'importo di un manager per una categoria. Percorso unico per
+ * l'inserimento manuale e per le regole: l'importo va già validato.
+ */
+async function writeMemberPrize(
+  db: Prisma.TransactionClient,
+  categoryId: string,
+  memberId: string,
+  amount: number
+): Promise<WrittenPrize> {
+  const prize = await db.sessionPrize.upsert({
+    where: {
+      prizeCategoryId_leagueMemberId: {
+        prizeCategoryId: categoryId,
+        leagueMemberId: memberId,
+      },
+    },
+    update: { amount },
+    create: {
+      prizeCategoryId: categoryId,
+      leagueMemberId: memberId,
+      amount,
+    },
+  })
+
+  return { prizeId: prize.id, memberId, categoryId, amount }
+}
+
+// Da chiamare dopo il commit: il client aggiorna i premi da questi eventi
+async function publishPrizeAssigned(prizes: WrittenPrize[]): Promise<void> {
+  for (const prize of prizes) {
+    await publishDomainEvent(DomainEventTypes.PRIZE_ASSIGNED, prize)
+  }
+}
+
 export async function setMemberPrize(
   categoryId: string,
   memberId: string,
@@ -565,25 +634,13 @@ export async function setMemberPrize(
     return { success: false, message: 'Manager non trovato' }
   }
 
-  if (!Number.isInteger(amount) || amount < 0) {
-    return { success: false, message: 'L\'importo deve essere un numero intero >= 0' }
+  const amountError = validatePrizeAmount(amount)
+  if (amountError) {
+    return { success: false, message: amountError }
   }
 
-  // Upsert prize
-  await prisma.sessionPrize.upsert({
-    where: {
-      prizeCategoryId_leagueMemberId: {
-        prizeCategoryId: categoryId,
-        leagueMemberId: memberId,
-      },
-    },
-    update: { amount },
-    create: {
-      prizeCategoryId: categoryId,
-      leagueMemberId: memberId,
-      amount,
-    },
-  })
+  const prize = await writeMemberPrize(prisma, categoryId, memberId, amount)
+  await publishPrizeAssigned([prize])
 
   return {
     success: true,
@@ -751,6 +808,16 @@ export async function adminCorrectMemberPrize(
     budgetAdjusted: shouldAdjustBudget,
   })
 
+  await logAction(adminUserId, leagueId, 'PRIZE_CORRECTION', 'PrizeCategory', categoryId, {
+    leagueMemberId,
+    amount: oldAmount,
+    currentBudget: targetMember.currentBudget,
+  }, {
+    leagueMemberId,
+    amount: newAmount,
+    currentBudget: targetMember.currentBudget + (shouldAdjustBudget ? delta : 0),
+  })
+
   return {
     success: true,
     message: config.isFinalized
@@ -862,8 +929,27 @@ export async function finalizePrizePhase(
         data: { currentBudget: { increment: memberTotals[m.id] } },
       })
     ),
+    recordCompensation(prisma, {
+      leagueId: session.leagueId,
+      userId: adminUserId,
+      operation: 'PRIZES_FINALIZED',
+      entityType: 'PrizePhaseConfig',
+      entityId: config.id,
+      description: 'Finalizzazione fase premi',
+      steps: [
+        ...members
+          .filter(m => (memberTotals[m.id] ?? 0) !== 0)
+          .map(m => ({ kind: 'BUDGET' as const, memberId: m.id, delta: -(memberTotals[m.id] ?? 0) })),
+        { kind: 'RECORD', model: 'prizePhaseConfig', id: config.id, data: { isFinalized: false, finalizedAt: null } },
+      ],
+    }),
   ])
 
+  await publishDomainEvent(DomainEventTypes.PRIZES_FINALIZED, {
+    sessionId,
+    leagueId: session.leagueId,
+  })
+
   // Get updated members for response
   const updatedMembers = await prisma.leagueMember.findMany({
     where: {
@@ -888,6 +974,309 @@ export async function finalizePrizePhase(
   }
 }
 
+// ==================== REGOLE AUTOMATICHE ====================
+
+/**
+ * Valori dei dati di lega usati dalle regole, per ogni manager attivo.
+ * Classifica e miglior giornata vengono dall'ultima stagione con giornate calcolate;
+ * per la classifica ha la precedenza l'ultima classifica importata da file.
+ */
+async function collectMetricValues(
+  leagueId: string,
+  members: Array<{ id: string; currentBudget: number }>,
+  metrics: Set<PrizeRuleMetric>
+): Promise<Map<PrizeRuleMetric, MetricValue[]>> {
+  const values = new Map<PrizeRuleMetric, MetricValue[]>()
+
+  if (metrics.has('STANDINGS') || metrics.has('BEST_ROUND')) {
+    const latest = await prisma.matchdayScore.findFirst({
+      where: { leagueId },
+      orderBy: { computedAt: 'desc' },
+      select: { season: true },
+    })
+
+    if (metrics.has('STANDINGS')) {
+      const imported = await getImportedStandings(leagueId)
+      if (imported) {
+        const byMember = new Map(imported.entries.map(e => [e.memberId, e]))
+        values.set('STANDINGS', members.map(m => ({ memberId: m.id, value: byMember.get(m.id)?.points ?? null })))
+      } else {
+        const standings = latest ? await getSeasonStandings(leagueId, latest.season) : []
+        const byMember = new Map(standings.map(s => [s.memberId, s]))
+        values.set('STANDINGS', members.map(m => {
+          const entry = byMember.get(m.id)
+          return { memberId: m.id, value: entry && entry.roundsPlayed > 0 ? entry.total : null }
+        }))
+      }
+    }
+
+    if (metrics.has('BEST_ROUND')) {
+      const scores = latest
+        ? await prisma.matchdayScore.findMany({
+            where: { leagueId, season: latest.season },
+            select: { memberId: true, total: true },
+          })
+        : []
+      const best = new Map<string, number>()
+      for (const score of scores) {
+        best.set(score.memberId, Math.max(best.get(score.memberId) ?? -Infinity, score.total))
+      }
+      values.set('BEST_ROUND', members.map(m => ({ memberId: m.id, value: best.get(m.id) ?? null })))
+    }
+  }
+
+  if (metrics.has('TOP_SCORER')) {
+    // Gol della stagione Serie A più recente, attribuiti alla rosa attuale del manager
+    const latestRating = await prisma.playerMatchRating.findFirst({
+      orderBy: { matchDate: 'desc' },
+      select: { season: true },
+    })
+    const rosters = latestRating
+      ? await prisma.playerRoster.findMany({
+          where: { leagueMemberId: { in: members.map(m => m.id) }, status: 'ACTIVE' },
+          select: { leagueMemberId: true, playerId: true },
+        })
+      : []
+    const ratings = rosters.length > 0 && latestRating
+      ? await prisma.playerMatchRating.findMany({
+          where: { season: latestRating.season, playerId: { in: rosters.map(r => r.playerId) } },
+          select: { playerId: true, goals: true },
+        })
+      : []
+    const goalsByPlayer = new Map<string, number>()
+    for (const rating of ratings) {
+      goalsByPlayer.set(rating.playerId, (goalsByPlayer.get(rating.playerId) ?? 0) + (rating.goals ?? 0))
+    }
+    const goalsByMember = new Map<string, number>()
+    for (const roster of rosters) {
+      goalsByMember.set(roster.leagueMemberId, (goalsByMember.get(roster.leagueMemberId) ?? 0) + (goalsByPlayer.get(roster.playerId) ?? 0))
+    }
+    values.set('TOP_SCORER', members.map(m => ({ memberId: m.id, value: ratings.length > 0 ? goalsByMember.get(m.id) ?? 0 : null })))
+  }
+
+  if (metrics.has('BALANCE') || metrics.has('BUDGET') || metrics.has('SALARIES')) {
+    const contracts = await prisma.playerContract.findMany({
+      where: {
+        leagueMemberId: { in: members.map(m => m.id) },
+        roster: { status: 'ACTIVE' },
+      },
+      select: { leagueMemberId: true, salary: true },
+    })
+    const salaries = new Map<string, number>()
+    for (const contract of contracts) {
+      salaries.set(contract.leagueMemberId, (salaries.get(contract.leagueMemberId) ?? 0) + contract.salary)
+    }
+
+    values.set('BUDGET', members.map(m => ({ memberId: m.id, value: m.currentBudget })))
+    values.set('SALARIES', members.map(m => ({ memberId: m.id, value: salaries.get(m.id) ?? 0 })))
+    values.set('BALANCE', members.map(m => ({ memberId: m.id, value: m.currentBudget - (salaries.get(m.id) ?? 0) })))
+  }
+
+  return values
+}
+
+interface PrizeRuleCategoryPreview {
+  categoryId: string
+  name: string
+  rule: PrizeRule
+  description: string
+  // Nessun manager con dati disponibili (es. nessuna giornata calcolata)
+  noData: boolean
+  proposed: Map<string, number>
+  changes: Array<{ memberId: string; teamName: string | null; username: string; current: number; proposed: number }>
+}
+
+/**
+ * Calcola gli importi proposti dalle categorie con regola e le differenze
+ * rispetto agli importi attuali. Non modifica nulla.
+ */
+async function buildPrizeRulePreview(
+  sessionId: string,
+  adminUserId: string
+): Promise<{ error: string } | {
+  leagueId: string
+  categories: PrizeRuleCategoryPreview[]
+  members: Array<{ memberId: string; teamName: string | null; username: string; currentTotal: number; proposedTotal: number }>
+}> {
+  const session = await prisma.marketSession.findUnique({
+    where: { id: sessionId },
+  })
+
+  if (!session) {
+    return { error: 'Sessione non trovata' }
+  }
+
+  const adminMember = await prisma.leagueMember.findFirst({
+    where: {
+      leagueId: session.leagueId,
+      userId: adminUserId,
+      role: 'ADMIN',
+      status: MemberStatus.ACTIVE,
+    },
+  })
+
+  if (!adminMember) {
+    return { error: 'Non autorizzato' }
+  }
+
+  const config = await prisma.prizePhaseConfig.findUnique({
+    where: { marketSessionId: sessionId },
+  })
+
+  if (!config) {
+    return { error: 'Fase premi non inizializzata' }
+  }
+
+  if (config.isFinalized) {
+    return { error: 'La fase premi è già stata finalizzata' }
+  }
+
+  const members = await prisma.leagueMember.findMany({
+    where: {
+      leagueId: session.leagueId,
+      status: MemberStatus.ACTIVE,
+    },
+    include: { user: { select: { username: true } } },
+    orderBy: { teamName: 'asc' },
+  })
+
+  const categories = await prisma.prizeCategory.findMany({
+    where: { marketSessionId: sessionId },
+    include: { managerPrizes: true },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  const ruleCategories = categories
+    .map(cat => ({ cat, rule: parsePrizeRule(cat.rule) }))
+    .filter((c): c is { cat: typeof categories[number]; rule: PrizeRule } => c.rule !== null && !c.cat.isSystemPrize)
+
+  const metricValues = await collectMetricValues(
+    session.leagueId,
+    members,
+    new Set(ruleCategories.map(c => c.rule.metric))
+  )
+
+  const previews: PrizeRuleCategoryPreview[] = ruleCategories.map(({ cat, rule }) => {
+    const values = metricValues.get(rule.metric) ?? []
+    const proposed = applyPrizeRule(rule, values)
+    // Senza dati (es. nessuna giornata calcolata) gli importi inseriti a mano restano invariati
+    const noData = values.every(v => v.value === null)
+    const changes = noData ? [] : members
+      .map(m => ({
+        memberId: m.id,
+        teamName: m.teamName,
+        username: m.user.username,
+        current: cat.managerPrizes.find(p => p.leagueMemberId === m.id)?.amount ?? 0,
+        proposed: proposed.get(m.id) ?? 0,
+      }))
+      .filter(c => c.current !== c.proposed)
+
+    return {
+      categoryId: cat.id,
+      name: cat.name,
+      rule,
+      description: describePrizeRule(rule),
+      noData,
+      proposed,
+      changes,
+    }
+  })
+
+  // Totali come in finalizePrizePhase: base + categorie non di sistema
+  const proposedByCategory = new Map(previews.filter(p => !p.noData).map(p => [p.categoryId, p.proposed]))
+  const memberSummaries = members.map(m => {
+    let currentTotal = config.baseReincrement
+    let proposedTotal = config.baseReincrement
+    for (const cat of categories) {
+      if (cat.isSystemPrize) continue
+      const current = cat.managerPrizes.find(p => p.leagueMemberId === m.id)?.amount ?? 0
+      const proposed = proposedByCategory.get(cat.id)
+      currentTotal += current
+      proposedTotal += proposed ? (proposed.get(m.id) ?? 0) : current
+    }
+    return { memberId: m.id, teamName: m.teamName, username: m.user.username, currentTotal, proposedTotal }
+  })
+
+  return { leagueId: session.leagueId, categories: previews, members: memberSummaries }
+}
+
+/**
+ * Anteprima delle categorie con regola: importi attuali vs calcolati.
+ * Da mostrare all'admin prima di finalizePrizePhase.
+ */
+export async function previewPrizeRules(
+  sessionId: string,
+  adminUserId: string
+): Promise<ServiceResult> {
+  const preview = await buildPrizeRulePreview(sessionId, adminUserId)
+
+  if ('error' in preview) {
+    return { success: false, message: preview.error }
+  }
+
+  return {
+    success: true,
+    data: {
+      categories: preview.categories.map(({ proposed: _proposed, ...c }) => c),
+      members: preview.members.filter(m => m.currentTotal !== m.proposedTotal),
+      hasChanges: preview.categories.some(c => c.changes.length > 0),
+    },
+  }
+}
+
+/**
+ * Scrive gli importi calcolati dalle regole sui SessionPrize, con la stessa
+ * validazione ed eventi PRIZE_ASSIGNED di setMemberPrize.
+ * I manager fuori dalla graduatoria premiata tornano a 0.
+ */
+export async function applyPrizeRules(
+  sessionId: string,
+  adminUserId: string
+): Promise<ServiceResult> {
+  const preview = await buildPrizeRulePreview(sessionId, adminUserId)
+
+  if ('error' in preview) {
+    return { success: false, message: preview.error }
+  }
+
+  const toApply = preview.categories.filter(c => c.changes.length > 0)
+
+  // Stessa validazione dell'inserimento manuale (setMemberPrize)
+  for (const category of toApply) {
+    const amountError = category.changes
+      .map(change => validatePrizeAmount(change.proposed))
+      .find(error => error !== null)
+    if (amountError) {
+      return { success: false, message: `Categoria "${category.name}": ${amountError}` }
+    }
+  }
+
+  const written = await prisma.$transaction(async (tx) => {
+    const prizes: WrittenPrize[] = []
+    for (const category of toApply) {
+      for (const change of category.changes) {
+        prizes.push(await writeMemberPrize(tx, category.categoryId, change.memberId, change.proposed))
+      }
+    }
+    return prizes
+  })
+
+  await publishPrizeAssigned(written)
+
+  const changed = toApply.reduce((sum, c) => sum + c.changes.length, 0)
+  await logAction(adminUserId, preview.leagueId, 'PRIZE_RULES_APPLY', 'MarketSession', sessionId, undefined, {
+    categories: toApply.map(c => ({ name: c.name, changes: c.changes })),
+  })
+
+  return {
+    success: true,
+    message: changed > 0
+      ? `Regole applicate: ${changed} premi aggiornati`
+      : 'Premi già allineati alle regole',
+    data: { changed },
+  }
+}
+
 // ==================== SET CUSTOM INDEMNITY ====================
 
 /**
@@ -1008,6 +1397,9 @@ export async function setCustomIndemnity(
     },
   })
 
+  // Importo usato dalla fase indennizzi al rilascio del giocatore
+  await setIndemnityCompensation(sessionId, playerId, amount)
+
   return {
     success: true,
     message: `Indennizzo per ${player.name} impostato a ${amount}M`,
@@ -0,0 +1,366 @@
+/**
+ * proxy-bid.service.ts - Offerte automatiche (proxy bidding)
+ *
+ * Un manager registra un tetto massimo per un giocatore della sessione; quando
+ * un altro manager rilancia, il server controbatte del rilancio minimo (+1)
+ * fino al tetto. Tra due proxy vince il tetto più alto; a parità di tetto
+ * vince quello impostato per primo (ceilingSetAt).
+ *
+ * I rilanci automatici passano dalle stesse funzioni delle offerte manuali
+ * (placeBid, bidOnRubataAuction, bidOnFreeAgent): budget e slot sono
+ * verificati esattamente come per un'offerta normale. Un proxy il cui
+ * rilancio viene rifiutato smette di rilanciare per quella risoluzione.
+ *
+ * I tetti sono visibili solo al proprietario finché l'asta è in corso e
+ * vengono rivelati nello storico a asta conclusa (see: history.service.ts).
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { AuctionStatus, MemberStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { logError } from './app-log.service'
+import type { ServiceResult } from '@/shared/types/service-result'
+
+// Limite di sicurezza sui giri di risoluzione (ogni giro produce al massimo 2 rilanci)
+const MAX_RESOLUTION_ROUNDS = 10
+
+// Fasi in cui le offerte manuali non verificano gli slot di ruolo
+const PHASES_WITHOUT_SLOT_CHECK = ['RUBATA', 'ASTA_SVINCOLATI']
+
+export interface ProxyContender {
+  memberId: string
+  userId: string
+  maxAmount: number
+  ceilingSetAt: Date
+}
+
+export interface PlannedProxyBid {
+  memberId: string
+  userId: string
+  amount: number
+}
+
+function compareContenders(a: ProxyContender, b: ProxyContender): number {
+  if (a.maxAmount !== b.maxAmount) return b.maxAmount - a.maxAmount
+  return a.ceilingSetAt.getTime() - b.ceilingSetAt.getTime()
+}
+
+/**
+ * Calcola i rilanci automatici a partire dallo stato attuale dell'asta.
+ * Registra solo l'esito finale della "guerra" tra proxy: l'ultimo rilancio
+ * del secondo classificato e quello vincente.
+ */
+export function planProxyBids(
+  currentPrice: number,
+  leaderId: string | null,
+  proxies: ProxyContender[]
+): PlannedProxyBid[] {
+  const challengers = proxies.filter(p => p.memberId !== leaderId && p.maxAmount > currentPrice)
+  if (challengers.length === 0) return []
+
+  // Chi è in testa senza proxy difende solo il prezzo attuale
+  const leaderProxy = proxies.find(p => p.memberId === leaderId)
+  const leader: ProxyContender = leaderProxy ?? {
+    memberId: leaderId ?? '',
+    userId: '',
+    maxAmount: currentPrice,
+    ceilingSetAt: new Date(0),
+  }
+
+  const [winner, runnerUp] = [...challengers, leader].sort(compareContenders)
+  if (!winner || !runnerUp) return []
+
+  const price = winner.maxAmount > runnerUp.maxAmount ? runnerUp.maxAmount + 1 : runnerUp.maxAmount
+  const bids: PlannedProxyBid[] = []
+
+  const runnerUpAmount = Math.min(runnerUp.maxAmount, price - 1)
+  if (runnerUp.userId && runnerUpAmount > currentPrice) {
+    bids.push({ memberId: runnerUp.memberId, userId: runnerUp.userId, amount: runnerUpAmount })
+  }
+  bids.push({ memberId: winner.memberId, userId: winner.userId, amount: price })
+
+  return bids
+}
+
+type ProxyBidPlacer = (userId: string, amount: number) => Promise<ServiceResult>
+
+/**
+ * Sceglie la funzione di offerta in base al tipo di asta.
+ * Import dinamici: i servizi d'asta importano questo modulo.
+ */
+async function getPlacer(auction: {
+  id: string
+  type: string
+  leagueId: string
+  marketSession: { currentPhase: string | null } | null
+}): Promise<ProxyBidPlacer> {
+  if (auction.type === 'RUBATA') {
+    const { bidOnRubataAuction } = await import('./rubata.service')
+    return (userId, amount) => bidOnRubataAuction(auction.leagueId, userId, amount, true)
+  }
+  if (auction.marketSession?.currentPhase === 'ASTA_SVINCOLATI') {
+    const { bidOnFreeAgent } = await import('./svincolati.service')
+    return (userId, amount) => bidOnFreeAgent(auction.id, userId, amount, true)
+  }
+  const { placeBid } = await import('./auction.service')
+  return (userId, amount) => placeBid(auction.id, userId, amount, true)
+}
+
+async function loadAuctionState(auctionId: string) {
+  return prisma.auction.findUnique({
+    where: { id: auctionId },
+    select: {
+      id: true,
+      type: true,
+      status: true,
+      leagueId: true,
+      playerId: true,
+      sellerId: true,
+      currentPrice: true,
+      marketSessionId: true,
+      marketSession: { select: { currentPhase: true } },
+      bids: {
+        where: { isWinning: true, isCancelled: false },
+        select: { bidderId: true },
+        take: 1,
+      },
+    },
+  })
+}
+
+/**
+ * Esegue i rilanci automatici sull'asta. Va chiamata dopo ogni offerta
+ * manuale e all'apertura di un'asta. Ritorna il numero di rilanci piazzati.
+ */
+export async function runProxyBidding(auctionId: string): Promise<number> {
+  let auction = await loadAuctionState(auctionId)
+  if (!auction?.marketSessionId || auction.status !== AuctionStatus.ACTIVE) return 0
+
+  const proxies = await prisma.proxyBid.findMany({
+    where: { sessionId: auction.marketSessionId, playerId: auction.playerId },
+    include: { member: { select: { userId: true, status: true } } },
+  })
+  const contenders: ProxyContender[] = proxies
+    .filter(p => p.member.status === MemberStatus.ACTIVE && p.memberId !== auction?.sellerId)
+    .map(p => ({ memberId: p.memberId, userId: p.member.userId, maxAmount: p.maxAmount, ceilingSetAt: p.ceilingSetAt }))
+  if (contenders.length === 0) return 0
+
+  const placeProxyBid = await getPlacer(auction)
+  const excluded = new Set<string>()
+  let placed = 0
+
+  for (let round = 0; round < MAX_RESOLUTION_ROUNDS && auction?.status === AuctionStatus.ACTIVE; round++) {
+    const plan = planProxyBids(
+      auction.currentPrice,
+      auction.bids[0]?.bidderId ?? null,
+      contenders.filter(c => !excluded.has(c.memberId))
+    )
+    if (plan.length === 0) break
+
+    for (const bid of plan) {
+      const result = await placeProxyBid(bid.userId, bid.amount)
+      if (!result.success) {
+        excluded.add(bid.memberId)
+        break
+      }
+      placed++
+    }
+
+    auction = await loadAuctionState(auctionId)
+  }
+
+  return placed
+}
+
+/**
+ * Variante per i servizi d'asta: un errore nei rilanci automatici non deve
+ * far fallire l'offerta manuale o l'apertura dell'asta che li ha innescati.
+ */
+export async function triggerProxyBidding(auctionId: string): Promise<void> {
+  try {
+    await runProxyBidding(auctionId)
+  } catch (error) {
+    logError('ERROR', 'Errore durante i rilanci automatici', {
+      auctionId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+// ==================== MANAGER API ====================
+
+async function getMemberAndSession(leagueId: string, userId: string) {
+  const member = await prisma.leagueMember.findFirst({
+    where: { leagueId, userId, status: MemberStatus.ACTIVE },
+  })
+  const session = await prisma.marketSession.findFirst({
+    where: { leagueId, status: 'ACTIVE' },
+  })
+  return { member, session }
+}
+
+export async function setProxyBid(
+  leagueId: string,
+  userId: string,
+  playerId: string,
+  maxAmount: number
+): Promise<ServiceResult> {
+  const { member, session } = await getMemberAndSession(leagueId, userId)
+
+  if (!member) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  if (!session) {
+    return { success: false, message: 'Nessuna sessione di mercato attiva' }
+  }
+
+  if (!Number.isInteger(maxAmount) || maxAmount < 1) {
+    return { success: false, message: 'Il tetto deve essere un intero positivo' }
+  }
+
+  const player = await prisma.serieAPlayer.findUnique({ where: { id: playerId } })
+  if (!player) {
+    return { success: false, message: 'Giocatore non trovato' }
+  }
+
+  // Bilancio = budget - monte ingaggi, come per le offerte manuali
+  const monteIngaggi = await prisma.playerContract.aggregate({
+    where: { leagueMemberId: member.id },
+    _sum: { salary: true },
+  })
+  const bilancio = member.currentBudget - (monteIngaggi._sum.salary || 0)
+  if (maxAmount > bilancio) {
+    return { success: false, message: `Tetto superiore al bilancio disponibile (${bilancio})` }
+  }
+
+  if (!session.currentPhase || !PHASES_WITHOUT_SLOT_CHECK.includes(session.currentPhase)) {
+    const { getMyRosterSlots } = await import('./auction.service')
+    const slotsResult = await getMyRosterSlots(session.id, userId)
+    const slots = (slotsResult.data as { slots?: Record<string, { filled: number; total: number }> } | undefined)?.slots
+    const slot = slots?.[player.position]
+    if (slot && slot.filled >= slot.total) {
+      return { success: false, message: `Hai già raggiunto il limite di ${slot.total} giocatori in questo ruolo` }
+    }
+  }
+
+  const activeAuction = await prisma.auction.findFirst({
+    where: { marketSessionId: session.id, playerId, status: AuctionStatus.ACTIVE },
+    select: { id: true, currentPrice: true },
+  })
+  if (activeAuction && maxAmount <= activeAuction.currentPrice) {
+    return { success: false, message: `Il tetto deve superare l'offerta attuale (${activeAuction.currentPrice})` }
+  }
+
+  const key = { sessionId: session.id, memberId: member.id, playerId }
+  const existing = await prisma.proxyBid.findUnique({
+    where: { sessionId_memberId_playerId: key },
+  })
+
+  // Cambiare il tetto fa perdere la precedenza a parità di importo
+  const proxyBid = existing
+    ? await prisma.proxyBid.update({
+        where: { id: existing.id },
+        data: existing.maxAmount === maxAmount ? {} : { maxAmount, ceilingSetAt: new Date() },
+      })
+    : await prisma.proxyBid.create({
+        data: { ...key, maxAmount },
+      })
+
+  const autoBids = activeAuction ? await runProxyBidding(activeAuction.id) : 0
+
+  return {
+    success: true,
+    message: `Offerta automatica impostata fino a ${maxAmount}`,
+    data: { playerId, maxAmount: proxyBid.maxAmount, autoBids },
+  }
+}
+
+export async function removeProxyBid(
+  leagueId: string,
+  userId: string,
+  playerId: string
+): Promise<ServiceResult> {
+  const { member, session } = await getMemberAndSession(leagueId, userId)
+
+  if (!member) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  if (!session) {
+    return { success: false, message: 'Nessuna sessione di mercato attiva' }
+  }
+
+  const { count } = await prisma.proxyBid.deleteMany({
+    where: { sessionId: session.id, memberId: member.id, playerId },
+  })
+
+  if (count === 0) {
+    return { success: false, message: 'Nessuna offerta automatica per questo giocatore' }
+  }
+
+  return { success: true, message: 'Offerta automatica rimossa' }
+}
+
+/**
+ * Solo i tetti del manager richiedente: quelli altrui restano privati.
+ */
+export async function getMyProxyBids(leagueId: string, userId: string): Promise<ServiceResult> {
+  const { member, session } = await getMemberAndSession(leagueId, userId)
+
+  if (!member) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  if (!session) {
+    return { success: true, data: [] }
+  }
+
+  const proxyBids = await prisma.proxyBid.findMany({
+    where: { sessionId: session.id, memberId: member.id },
+    include: { player: { select: { id: true, name: true, team: true, position: true } } },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  return {
+    success: true,
+    data: proxyBids.map(p => ({
+      playerId: p.playerId,
+      player: p.player,
+      maxAmount: p.maxAmount,
+      ceilingSetAt: p.ceilingSetAt,
+    })),
+  }
+}
+
+export interface RevealedProxyCeiling {
+  username: string
+  teamName: string | null
+  maxAmount: number
+}
+
+/**
+ * Tetti dei proxy per lo storico. Da usare solo per aste concluse.
+ */
+export async function getRevealedProxyCeilings(
+  sessionId: string,
+  playerIds: string[]
+): Promise<Map<string, RevealedProxyCeiling[]>> {
+  const byPlayer = new Map<string, RevealedProxyCeiling[]>()
+  if (playerIds.length === 0) return byPlayer
+
+  const proxyBids = await prisma.proxyBid.findMany({
+    where: { sessionId, playerId: { in: playerIds } },
+    include: { member: { select: { teamName: true, user: { select: { username: true } } } } },
+    orderBy: [{ maxAmount: 'desc' }, { ceilingSetAt: 'asc' }],
+  })
+
+  for (const p of proxyBids) {
+    const list = byPlayer.get(p.playerId) ?? []
+    list.push({ username: p.member.user.username, teamName: p.member.teamName, maxAmount: p.maxAmount })
+    byPlayer.set(p.playerId, list)
+  }
+
+  return byPlayer
+}
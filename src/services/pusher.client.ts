@@ -177,6 +177,29 @@ export interface TradeUpdatedData {
   timestamp: string;
 }
 
+// ==================== CHAT TYPES ====================
+
+export interface ChatMessageData {
+  id: string;
+  memberId: string;
+  username: string;
+  content: string;
+  isSystem: boolean;
+  createdAt: string;
+}
+
+export interface ChatMessageDeletedData {
+  messageId: string;
+  timestamp: string;
+}
+
+export interface ChatMuteChangedData {
+  memberId: string;
+  muted: boolean;
+  mutedMemberIds: string[];
+  timestamp: string;
+}
+
 // ==================== INDEMNITY TYPES ====================
 
 export interface IndemnityDecisionSubmittedData {
@@ -216,6 +239,12 @@ export interface AuctionEventHandlers {
   onIndemnityAllDecided?: (data: IndemnityAllDecidedData) => void;
   // Pause request event
   onPauseRequested?: (data: PauseRequestedData) => void;
+  // Presence event
+  onMemberConnectionChanged?: (data: MemberConnectionChangedData) => void;
+  // Chat events
+  onChatMessage?: (data: ChatMessageData) => void;
+  onChatMessageDeleted?: (data: ChatMessageDeletedData) => void;
+  onChatMuteChanged?: (data: ChatMuteChangedData) => void;
 }
 
 export interface PauseRequestedData {
@@ -225,6 +254,14 @@ export interface PauseRequestedData {
   serverTimestamp: number;
 }
 
+export interface MemberConnectionChangedData {
+  memberId: string;
+  scope: 'AUCTION' | 'RUBATA' | 'SVINCOLATI';
+  isConnected: boolean;
+  timestamp: string;
+  serverTimestamp: number;
+}
+
 export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'failed' | 'unavailable';
 
 // ==================== PUSHER CLIENT INITIALIZATION ====================
@@ -353,6 +390,24 @@ export function subscribeToAuction(
     channel.bind('pause-requested', handlers.onPauseRequested);
   }
 
+  // Presence event
+  if (handlers.onMemberConnectionChanged) {
+    channel.bind('member-connection-changed', handlers.onMemberConnectionChanged);
+  }
+
+  // Chat events
+  if (handlers.onChatMessage) {
+    channel.bind('chat-message', handlers.onChatMessage);
+  }
+
+  if (handlers.onChatMessageDeleted) {
+    channel.bind('chat-message-deleted', handlers.onChatMessageDeleted);
+  }
+
+  if (handlers.onChatMuteChanged) {
+    channel.bind('chat-mute-changed', handlers.onChatMuteChanged);
+  }
+
   return channel;
 }
 
@@ -450,6 +505,20 @@ export function unbindAuctionHandlers(
     if (handlers.onPauseRequested) {
       channel.unbind('pause-requested', handlers.onPauseRequested);
     }
+    // Presence event
+    if (handlers.onMemberConnectionChanged) {
+      channel.unbind('member-connection-changed', handlers.onMemberConnectionChanged);
+    }
+    // Chat events
+    if (handlers.onChatMessage) {
+      channel.unbind('chat-message', handlers.onChatMessage);
+    }
+    if (handlers.onChatMessageDeleted) {
+      channel.unbind('chat-message-deleted', handlers.onChatMessageDeleted);
+    }
+    if (handlers.onChatMuteChanged) {
+      channel.unbind('chat-mute-changed', handlers.onChatMuteChanged);
+    }
   }
 }
 
@@ -479,6 +548,8 @@ export interface UsePusherAuctionOptions {
   onIndemnityAllDecided?: (data: IndemnityAllDecidedData) => void;
   // Pause request event
   onPauseRequested?: (data: PauseRequestedData) => void;
+  // Presence event
+  onMemberConnectionChanged?: (data: MemberConnectionChangedData) => void;
 }
 
 export interface UsePusherAuctionResult {
@@ -552,6 +623,8 @@ export function usePusherAuction(
       onSvincolatiTurnAdvanced: (data) => handlersRef.current.onSvincolatiTurnAdvanced?.(data),
       // Pause request event
       onPauseRequested: (data) => handlersRef.current.onPauseRequested?.(data),
+      // Presence event
+      onMemberConnectionChanged: (data) => handlersRef.current.onMemberConnectionChanged?.(data),
     };
 
     const subscribedChannel = subscribeToAuction(sessionId, handlers);
@@ -572,6 +645,48 @@ export function usePusherAuction(
   };
 }
 
+// ==================== CHAT REACT HOOK ====================
+
+export interface UsePusherChatOptions {
+  onChatMessage?: (data: ChatMessageData) => void;
+  onChatMessageDeleted?: (data: ChatMessageDeletedData) => void;
+  onChatMuteChanged?: (data: ChatMuteChangedData) => void;
+}
+
+/**
+ * React hook for session chat events on the auction channel.
+ * Shares the channel with usePusherAuction: on cleanup only the chat handlers
+ * are unbound, so the page subscription stays alive.
+ * @param sessionId - The market session ID (null/undefined to skip subscription)
+ * @param options - Event handler callbacks
+ */
+export function usePusherChat(
+  sessionId: string | null | undefined,
+  options: UsePusherChatOptions = {}
+): void {
+  const handlersRef = useRef<UsePusherChatOptions>(options);
+
+  useEffect(() => {
+    handlersRef.current = options;
+  }, [options]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const handlers: AuctionEventHandlers = {
+      onChatMessage: (data) => handlersRef.current.onChatMessage?.(data),
+      onChatMessageDeleted: (data) => handlersRef.current.onChatMessageDeleted?.(data),
+      onChatMuteChanged: (data) => handlersRef.current.onChatMuteChanged?.(data),
+    };
+
+    subscribeToAuction(sessionId, handlers);
+
+    return () => {
+      unbindAuctionHandlers(sessionId, handlers);
+    };
+  }, [sessionId]);
+}
+
 // ==================== TRADE REACT HOOK ====================
 
 export interface UsePusherTradesOptions {
@@ -181,6 +181,12 @@ export const PUSHER_EVENTS = {
   INDEMNITY_ALL_DECIDED: 'indemnity-all-decided',
   // Pause request events
   PAUSE_REQUESTED: 'pause-requested',
+  // Presence events (disconnect/reconnect)
+  MEMBER_CONNECTION_CHANGED: 'member-connection-changed',
+  // Session chat events
+  CHAT_MESSAGE: 'chat-message',
+  CHAT_MESSAGE_DELETED: 'chat-message-deleted',
+  CHAT_MUTE_CHANGED: 'chat-mute-changed',
   // Trade events (league channel)
   TRADE_OFFER_RECEIVED: 'trade-offer-received',
   TRADE_UPDATED: 'trade-updated',
@@ -520,6 +526,78 @@ export async function triggerIndemnityAllDecided(
   return triggerEvent(sessionId, PUSHER_EVENTS.INDEMNITY_ALL_DECIDED, data)
 }
 
+// ==================== PRESENCE EVENTS ====================
+
+export interface MemberConnectionChangedData {
+  memberId: string
+  scope: 'AUCTION' | 'RUBATA' | 'SVINCOLATI'
+  isConnected: boolean
+  timestamp: string
+}
+
+/**
+ * Trigger when a manager disconnects from or reconnects to the room
+ */
+export async function triggerMemberConnectionChanged(
+  sessionId: string,
+  data: MemberConnectionChangedData
+): Promise<boolean> {
+  return triggerEvent(sessionId, PUSHER_EVENTS.MEMBER_CONNECTION_CHANGED, data)
+}
+
+// ==================== SESSION CHAT EVENTS ====================
+
+export interface ChatMessageData {
+  id: string
+  memberId: string
+  username: string
+  content: string
+  isSystem: boolean
+  createdAt: string
+}
+
+export interface ChatMessageDeletedData {
+  messageId: string
+  timestamp: string
+}
+
+export interface ChatMuteChangedData {
+  memberId: string
+  muted: boolean
+  mutedMemberIds: string[]
+  timestamp: string
+}
+
+/**
+ * Trigger when a chat message (user or system) is posted in a session
+ */
+export async function triggerChatMessage(
+  sessionId: string,
+  data: ChatMessageData
+): Promise<boolean> {
+  return triggerEvent(sessionId, PUSHER_EVENTS.CHAT_MESSAGE, data)
+}
+
+/**
+ * Trigger when an admin deletes a chat message
+ */
+export async function triggerChatMessageDeleted(
+  sessionId: string,
+  data: ChatMessageDeletedData
+): Promise<boolean> {
+  return triggerEvent(sessionId, PUSHER_EVENTS.CHAT_MESSAGE_DELETED, data)
+}
+
+/**
+ * Trigger when an admin mutes or unmutes a manager in the session chat
+ */
+export async function triggerChatMuteChanged(
+  sessionId: string,
+  data: ChatMuteChangedData
+): Promise<boolean> {
+  return triggerEvent(sessionId, PUSHER_EVENTS.CHAT_MUTE_CHANGED, data)
+}
+
 // ==================== LEAGUE CHANNEL (TRADES) ====================
 
 function getLeagueChannel(leagueId: string): string {
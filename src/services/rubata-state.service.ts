@@ -0,0 +1,274 @@
+/**
+ * rubata-state.service.ts - Stato normalizzato della fase rubata
+ *
+ * Tabellone (RubataBoard) e stato per-manager (RubataParticipant: ordine,
+ * pronto, conferme e profezie). Ogni scrittura tocca solo le righe coinvolte:
+ * due manager che si dichiarano pronti nello stesso istante aggiornano righe
+ * diverse invece di riscrivere lo stesso array JSON su MarketSession.
+ *
+ * Le funzioni di scrittura accettano il client della transazione in corso.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import type { Prisma, RubataBoard, RubataParticipant } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+// ==================== TIPI ====================
+
+export interface RubataBoardItem {
+  rosterId: string
+  memberId: string
+  playerId: string
+  playerName: string
+  playerPosition: string
+  playerTeam: string
+  playerQuotation: number | null
+  playerAge: number | null
+  playerApiFootballId: number | null
+  playerApiFootballStats: unknown
+  ownerUsername: string
+  ownerTeamName: string | null
+  rubataPrice: number
+  contractSalary: number
+  contractDuration: number
+  contractClause: number
+  stolenById: string | null
+  stolenByUsername: string | null
+  stolenPrice: number | null
+}
+
+export interface RubataStolenInfo {
+  stolenById: string
+  stolenByUsername: string
+  stolenPrice: number
+}
+
+export interface RubataProphecyEntry {
+  memberId: string
+  content: string
+  createdAt: string
+}
+
+/** Relazioni da includere nelle query di MarketSession che leggono lo stato rubata */
+export const rubataStateInclude = {
+  rubataBoardEntries: { orderBy: { orderIndex: 'asc' } },
+  rubataParticipants: true,
+} satisfies Prisma.MarketSessionInclude
+
+// ==================== LETTURA ====================
+
+function toBoardItem(entry: RubataBoard): RubataBoardItem {
+  return {
+    rosterId: entry.rosterId,
+    memberId: entry.memberId,
+    playerId: entry.playerId,
+    playerName: entry.playerName,
+    playerPosition: entry.playerPosition,
+    playerTeam: entry.playerTeam,
+    playerQuotation: entry.playerQuotation,
+    playerAge: entry.playerAge,
+    playerApiFootballId: entry.playerApiFootballId,
+    playerApiFootballStats: entry.playerApiFootballStats,
+    ownerUsername: entry.ownerUsername,
+    ownerTeamName: entry.ownerTeamName,
+    rubataPrice: entry.rubataPrice,
+    contractSalary: entry.contractSalary,
+    contractDuration: entry.contractDuration,
+    contractClause: entry.contractClause,
+    stolenById: entry.stolenById,
+    stolenByUsername: entry.stolenByUsername,
+    stolenPrice: entry.stolenPrice,
+  }
+}
+
+/**
+ * Tabellone della sessione in ordine, o null se non ancora generato
+ * (un tabellone generato può essere vuoto).
+ */
+export function toRubataBoard(session: {
+  rubataBoardGeneratedAt: Date | null
+  rubataBoardEntries: RubataBoard[]
+}): RubataBoardItem[] | null {
+  if (!session.rubataBoardGeneratedAt) return null
+  return [...session.rubataBoardEntries]
+    .sort((a, b) => a.orderIndex - b.orderIndex)
+    .map(toBoardItem)
+}
+
+/** Ordine rubata (leagueMemberId) dei manager ancora in ordine */
+export function toRubataOrder(participants: RubataParticipant[]): string[] {
+  return participants
+    .flatMap(p => (p.orderIndex !== null ? [{ memberId: p.memberId, orderIndex: p.orderIndex }] : []))
+    .sort((a, b) => a.orderIndex - b.orderIndex)
+    .map(p => p.memberId)
+}
+
+export function toRubataReadyMembers(participants: RubataParticipant[]): string[] {
+  return participants.filter(p => p.isReady).map(p => p.memberId)
+}
+
+export function toRubataAcknowledgedMembers(participants: RubataParticipant[]): string[] {
+  return participants.filter(p => p.acknowledgedAt !== null).map(p => p.memberId)
+}
+
+/** Profezie lasciate con le conferme, in ordine di conferma */
+export function toRubataProphecies(participants: RubataParticipant[]): RubataProphecyEntry[] {
+  return participants
+    .flatMap(p => (p.acknowledgedAt && p.prophecy
+      ? [{ memberId: p.memberId, content: p.prophecy, acknowledgedAt: p.acknowledgedAt }]
+      : []))
+    .sort((a, b) => a.acknowledgedAt.getTime() - b.acknowledgedAt.getTime())
+    .map(p => ({
+      memberId: p.memberId,
+      content: p.content,
+      createdAt: p.acknowledgedAt.toISOString(),
+    }))
+}
+
+/** Rilegge le righe per-manager (dopo una scrittura, per contare pronti e conferme) */
+export async function loadRubataParticipants(
+  sessionId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<RubataParticipant[]> {
+  return db.rubataParticipant.findMany({ where: { sessionId } })
+}
+
+// ==================== TABELLONE ====================
+
+/** Sostituisce il tabellone della sessione */
+export async function saveRubataBoard(
+  sessionId: string,
+  board: Array<Omit<RubataBoardItem, 'stolenById' | 'stolenByUsername' | 'stolenPrice'>>,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await db.rubataBoard.deleteMany({ where: { sessionId } })
+  if (board.length === 0) return
+
+  await db.rubataBoard.createMany({
+    data: board.map((item, orderIndex) => ({
+      sessionId,
+      orderIndex,
+      rosterId: item.rosterId,
+      memberId: item.memberId,
+      playerId: item.playerId,
+      playerName: item.playerName,
+      playerPosition: item.playerPosition,
+      playerTeam: item.playerTeam,
+      playerQuotation: item.playerQuotation,
+      playerAge: item.playerAge,
+      playerApiFootballId: item.playerApiFootballId,
+      playerApiFootballStats: (item.playerApiFootballStats ?? undefined) as Prisma.InputJsonValue | undefined,
+      ownerUsername: item.ownerUsername,
+      ownerTeamName: item.ownerTeamName,
+      rubataPrice: item.rubataPrice,
+      contractSalary: item.contractSalary,
+      contractDuration: item.contractDuration,
+      contractClause: item.contractClause,
+    })),
+  })
+}
+
+/** Registra l'esito di una rubata sulla riga del tabellone */
+export async function markRubataBoardEntryStolen(
+  sessionId: string,
+  orderIndex: number,
+  stolen: RubataStolenInfo,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await db.rubataBoard.update({
+    where: { sessionId_orderIndex: { sessionId, orderIndex } },
+    data: stolen,
+  })
+}
+
+// ==================== ORDINE ====================
+
+/** Imposta l'ordine rubata: posizione per i manager indicati, fuori ordine gli altri */
+export async function saveRubataOrder(
+  sessionId: string,
+  memberIds: string[],
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await db.rubataParticipant.updateMany({
+    where: { sessionId, memberId: { notIn: memberIds } },
+    data: { orderIndex: null },
+  })
+
+  for (const [orderIndex, memberId] of memberIds.entries()) {
+    await db.rubataParticipant.upsert({
+      where: { sessionId_memberId: { sessionId, memberId } },
+      create: { sessionId, memberId, orderIndex },
+      update: { orderIndex },
+    })
+  }
+}
+
+/** Toglie un manager dall'ordine (turno svolto) */
+export async function removeFromRubataOrder(
+  sessionId: string,
+  memberId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await db.rubataParticipant.updateMany({
+    where: { sessionId, memberId },
+    data: { orderIndex: null },
+  })
+}
+
+// ==================== PRONTI ====================
+
+/** Segna i manager come pronti (solo le loro righe) */
+export async function setRubataMembersReady(
+  sessionId: string,
+  memberIds: string[],
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const readyAt = new Date()
+  for (const memberId of memberIds) {
+    await db.rubataParticipant.upsert({
+      where: { sessionId_memberId: { sessionId, memberId } },
+      create: { sessionId, memberId, isReady: true, readyAt },
+      update: { isReady: true, readyAt },
+    })
+  }
+}
+
+/** Azzera i pronti della sessione (nuovo ready check) */
+export async function resetRubataReadyMembers(
+  sessionId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await db.rubataParticipant.updateMany({
+    where: { sessionId, isReady: true },
+    data: { isReady: false, readyAt: null },
+  })
+}
+
+// ==================== CONFERME ====================
+
+/** Registra la conferma (ed eventuale profezia) di un manager */
+export async function acknowledgeRubataMember(
+  sessionId: string,
+  memberId: string,
+  prophecy: string | null,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const acknowledgedAt = new Date()
+  await db.rubataParticipant.upsert({
+    where: { sessionId_memberId: { sessionId, memberId } },
+    create: { sessionId, memberId, acknowledgedAt, prophecy },
+    update: { acknowledgedAt, prophecy },
+  })
+}
+
+/** Azzera conferme e profezie (nuova transazione da confermare) */
+export async function resetRubataAcknowledgements(
+  sessionId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await db.rubataParticipant.updateMany({
+    where: { sessionId },
+    data: { acknowledgedAt: null, prophecy: null },
+  })
+}
@@ -1,64 +1,49 @@
 import type { Position } from '@prisma/client';
 import { MemberStatus, RosterStatus, AuctionStatus, Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
-import { recordMovement } from './movement.service'
-import { triggerRubataBidPlaced, triggerRubataStealDeclared, triggerRubataReadyChanged, triggerAuctionClosed } from './pusher.service'
+import { DomainEventTypes, type RubataAuctionClosed } from '@/shared/infrastructure/events'
+import { publishDomainEvent } from './domain-events.service'
+import { postSystemMessage } from './chat.service'
 import { computeSeasonStatsBatch, computeAutoTagsBatch, type ComputedSeasonStats, type AutoTagId } from './player-stats.service'
+import { triggerProxyBidding } from './proxy-bid.service'
 import type { ServiceResult } from '@/shared/types/service-result'
+import {
+  rubataStateInclude,
+  toRubataBoard,
+  toRubataOrder,
+  toRubataReadyMembers,
+  toRubataAcknowledgedMembers,
+  toRubataProphecies,
+  loadRubataParticipants,
+  saveRubataBoard,
+  markRubataBoardEntryStolen,
+  saveRubataOrder,
+  removeFromRubataOrder,
+  setRubataMembersReady,
+  resetRubataReadyMembers,
+  acknowledgeRubataMember,
+  resetRubataAcknowledgements,
+} from './rubata-state.service'
+import { registerPresence, getPresenceStatus, clearPresence } from './presence.service'
+import { captureState, recordCompensation } from './compensation.service'
+import { logAction } from './admin.service'
+import { diffSnapshots } from '../utils/compensation'
 
 
-// Type for rubata board items stored in session JSON
-interface RubataBoardItem {
-  rosterId: string
-  memberId: string
-  playerId: string
-  playerName: string
-  playerPosition: string
-  playerTeam: string
-  playerQuotation?: number
-  playerAge?: number | null
-  playerApiFootballId?: number | null
-  playerApiFootballStats?: unknown
-  ownerUsername: string
-  ownerTeamName?: string
-  rubataPrice: number
-  contractSalary: number
-  contractDuration: number
-  contractClause: number
-  stolenById?: string
-  stolenByUsername?: string
-  stolenPrice?: number
-}
-
 // ==================== HEARTBEAT / CONNECTION STATUS ====================
 
-// In-memory storage for heartbeats (leagueId -> memberId -> timestamp)
-const rubataHeartbeats = new Map<string, Map<string, number>>()
+// Stanza della rubata: leagueId (see: presence.service.ts)
 
-// Heartbeat timeout in milliseconds (45 seconds — 1.5× the 30s client interval)
-const RUBATA_HEARTBEAT_TIMEOUT = 45000
-
-export function registerRubataHeartbeat(leagueId: string, memberId: string): void {
-  if (!rubataHeartbeats.has(leagueId)) {
-    rubataHeartbeats.set(leagueId, new Map())
-  }
-  rubataHeartbeats.get(leagueId)!.set(memberId, Date.now())
+export async function registerRubataHeartbeat(leagueId: string, memberId: string): Promise<void> {
+  await registerPresence('RUBATA', leagueId, memberId)
 }
 
-export function getRubataConnectionStatus(leagueId: string): Map<string, boolean> {
-  const leagueHeartbeats = rubataHeartbeats.get(leagueId) || new Map()
-  const now = Date.now()
-  const status = new Map<string, boolean>()
-
-  leagueHeartbeats.forEach((timestamp, memberId) => {
-    status.set(memberId, now - timestamp < RUBATA_HEARTBEAT_TIMEOUT)
-  })
-
-  return status
+export async function getRubataConnectionStatus(leagueId: string): Promise<Map<string, boolean>> {
+  return getPresenceStatus('RUBATA', leagueId)
 }
 
-export function clearRubataHeartbeats(leagueId: string): void {
-  rubataHeartbeats.delete(leagueId)
+export async function clearRubataHeartbeats(leagueId: string): Promise<void> {
+  await clearPresence('RUBATA', leagueId)
 }
 
 // ==================== PHASE CHECK ====================
@@ -124,10 +109,7 @@ export async function setRubataOrder(
 
   // Update session rubata order and member rubataOrder fields
   await prisma.$transaction(async (tx) => {
-    await tx.marketSession.update({
-      where: { id: activeSession.id },
-      data: { rubataOrder: memberOrder },
-    })
+    await saveRubataOrder(activeSession.id, memberOrder, tx)
 
     // Update individual member rubataOrder for easy querying
     for (let i = 0; i < memberOrder.length; i++) {
@@ -209,14 +191,14 @@ export async function getCurrentRubataTurn(leagueId: string, userId: string): Pr
       leagueId,
       status: 'ACTIVE',
     },
+    include: { rubataParticipants: true },
   })
 
-  if (!activeSession || !activeSession.rubataOrder) {
+  const rubataOrder = activeSession ? toRubataOrder(activeSession.rubataParticipants) : []
+  if (!activeSession || rubataOrder.length === 0) {
     return { success: false, message: 'Ordine rubata non impostato' }
   }
 
-  const rubataOrder = activeSession.rubataOrder as string[]
-
   // Find current active rubata auction if any
   const activeAuction = await prisma.auction.findFirst({
     where: {
@@ -384,9 +366,10 @@ export async function putPlayerOnPlate(
       leagueId,
       status: 'ACTIVE',
     },
+    include: { rubataParticipants: true },
   })
 
-  if (!activeSession || !activeSession.rubataOrder) {
+  if (!activeSession || toRubataOrder(activeSession.rubataParticipants).length === 0) {
     return { success: false, message: 'Ordine rubata non impostato' }
   }
 
@@ -548,7 +531,7 @@ export async function closeRubataAuction(
       bids: {
         where: { isWinning: true },
         include: {
-          bidder: true,
+          bidder: { include: { user: { select: { username: true } } } },
         },
       },
     },
@@ -592,6 +575,10 @@ export async function closeRubataAuction(
       },
     })
 
+    if (auction.marketSessionId) {
+      void postSystemMessage(auction.marketSessionId, adminMember.id, `${auction.player.name}: nessuna offerta, resta al proprietario`)
+    }
+
     return {
       success: true,
       message: 'Nessuna offerta. Il giocatore rimane al proprietario.',
@@ -615,11 +602,19 @@ export async function closeRubataAuction(
         playerId: auction.playerId,
         status: RosterStatus.ACTIVE,
       },
-      include: { contract: true },
+      include: { contract: true, player: { select: { name: true } } },
     })
 
     if (!rosterEntry) throw new Error('Roster entry not found')
 
+    // Stato prima del trasferimento per il journal compensativo
+    const journalRefs = {
+      memberIds: [winningBid.bidderId, auction.sellerId!],
+      rosterIds: [rosterEntry.id],
+      contractIds: rosterEntry.contract ? [rosterEntry.contract.id] : [],
+    }
+    const stateBefore = await captureState(tx, journalRefs)
+
     // Decompose rubata price: PREZZO = OFFERTA + INGAGGIO (RUBATA.md §4.4)
     // Only OFFERTA moves as budget; salary is captured in monte ingaggi via contract transfer.
     const payment = auction.currentPrice
@@ -665,6 +660,20 @@ export async function closeRubataAuction(
         endsAt: new Date(),
       },
     })
+
+    await recordCompensation(tx, {
+      leagueId: auction.leagueId,
+      userId: adminUserId,
+      operation: 'RUBATA_TRANSFER',
+      entityType: 'Auction',
+      entityId: auctionId,
+      description: `Rubata di ${rosterEntry.player.name} per ${payment}`,
+      steps: [
+        ...diffSnapshots(stateBefore, await captureState(tx, journalRefs)),
+        { kind: 'RECORD', model: 'auction', id: auctionId, data: { status: AuctionStatus.NO_BIDS, winnerId: null } },
+        { kind: 'MOVEMENTS', filter: { auctionId } },
+      ],
+    })
   })
 
   // Record movement - get roster entry again for contract info
@@ -677,26 +686,42 @@ export async function closeRubataAuction(
     include: { contract: true },
   })
 
-  await recordMovement({
+  await publishDomainEvent(DomainEventTypes.RUBATA_AUCTION_CLOSED, {
+    sessionId: auction.marketSessionId,
     leagueId: auction.leagueId,
+    auctionId,
     playerId: auction.playerId,
-    movementType: 'RUBATA',
-    fromMemberId: auction.sellerId!,
-    toMemberId: winningBid.bidderId,
+    playerName: auction.player.name,
+    sellerId: auction.sellerId!,
+    winnerId: winningBid.bidderId,
+    winnerUsername: winningBid.bidder.user.username,
     price: auction.currentPrice,
-    oldSalary: completedRosterEntry?.contract?.salary,
-    oldDuration: completedRosterEntry?.contract?.duration,
-    oldClause: completedRosterEntry?.contract?.rescissionClause,
-    newSalary: completedRosterEntry?.contract?.salary,
-    newDuration: completedRosterEntry?.contract?.duration,
-    newClause: completedRosterEntry?.contract?.rescissionClause,
-    auctionId,
-    marketSessionId: auction.marketSessionId ?? undefined,
+    movement: {
+      leagueId: auction.leagueId,
+      playerId: auction.playerId,
+      movementType: 'RUBATA',
+      fromMemberId: auction.sellerId!,
+      toMemberId: winningBid.bidderId,
+      price: auction.currentPrice,
+      oldSalary: completedRosterEntry?.contract?.salary,
+      oldDuration: completedRosterEntry?.contract?.duration,
+      oldClause: completedRosterEntry?.contract?.rescissionClause,
+      newSalary: completedRosterEntry?.contract?.salary,
+      newDuration: completedRosterEntry?.contract?.duration,
+      newClause: completedRosterEntry?.contract?.rescissionClause,
+      auctionId,
+      marketSessionId: auction.marketSessionId ?? undefined,
+    },
   })
 
+  const resultMessage = `${auction.player.name} rubato da ${winningBid.bidder.teamName || 'vincitore'} per ${auction.currentPrice}`
+  if (auction.marketSessionId) {
+    void postSystemMessage(auction.marketSessionId, winningBid.bidderId, resultMessage)
+  }
+
   return {
     success: true,
-    message: `${auction.player.name} rubato da ${winningBid.bidder.teamName || 'vincitore'} per ${auction.currentPrice}`,
+    message: resultMessage,
     data: {
       player: auction.player,
       winnerId: winningBid.bidderId,
@@ -736,14 +761,14 @@ export async function skipRubataTurn(
       leagueId,
       status: 'ACTIVE',
     },
+    include: { rubataParticipants: true },
   })
 
-  if (!activeSession || !activeSession.rubataOrder) {
+  const rubataOrder = activeSession ? toRubataOrder(activeSession.rubataParticipants) : []
+  if (!activeSession || rubataOrder.length === 0) {
     return { success: false, message: 'Ordine rubata non impostato' }
   }
 
-  const rubataOrder = activeSession.rubataOrder as string[]
-
   if (rubataOrder.length <= 1) {
     return {
       success: true,
@@ -755,10 +780,7 @@ export async function skipRubataTurn(
   // Remove first member from order (advance to next)
   const newOrder = rubataOrder.slice(1)
 
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: { rubataOrder: newOrder },
-  })
+  await removeFromRubataOrder(activeSession.id, rubataOrder[0]!)
 
   const nextMember = await prisma.leagueMember.findUnique({
     where: { id: newOrder[0] },
@@ -805,17 +827,17 @@ export async function generateRubataBoard(
       status: 'ACTIVE',
       currentPhase: 'RUBATA',
     },
+    include: { rubataParticipants: true },
   })
 
   if (!activeSession) {
     return { success: false, message: 'Nessuna sessione rubata attiva' }
   }
 
-  if (!activeSession.rubataOrder) {
+  const rubataOrder = toRubataOrder(activeSession.rubataParticipants)
+  if (rubataOrder.length === 0) {
     return { success: false, message: 'Ordine rubata non impostato' }
   }
-
-  const rubataOrder = activeSession.rubataOrder as string[]
   const positionOrder: Record<Position, number> = { P: 1, D: 2, C: 3, A: 4 }
 
   // Build the board
@@ -889,14 +911,17 @@ export async function generateRubataBoard(
   }
 
   // Save the board to the session and start ready check
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: {
-      rubataBoard: board as unknown as Prisma.InputJsonValue,
-      rubataBoardIndex: 0,
-      rubataState: 'READY_CHECK',
-      rubataReadyMembers: [],
-    },
+  await prisma.$transaction(async (tx) => {
+    await saveRubataBoard(activeSession.id, board, tx)
+    await resetRubataReadyMembers(activeSession.id, tx)
+    await tx.marketSession.update({
+      where: { id: activeSession.id },
+      data: {
+        rubataBoardGeneratedAt: new Date(),
+        rubataBoardIndex: 0,
+        rubataState: 'READY_CHECK',
+      },
+    })
   })
 
   return {
@@ -930,6 +955,7 @@ export async function getRubataBoard(
       leagueId,
       status: 'ACTIVE',
     },
+    include: rubataStateInclude,
   })
 
   if (!activeSession) {
@@ -940,7 +966,7 @@ export async function getRubataBoard(
   if (
     activeSession.rubataState === 'OFFERING' &&
     activeSession.rubataTimerStartedAt &&
-    activeSession.rubataBoard
+    activeSession.rubataBoardGeneratedAt
   ) {
     const now = new Date()
     const timerStart = new Date(activeSession.rubataTimerStartedAt)
@@ -958,7 +984,7 @@ export async function getRubataBoard(
 
       if (!existingAuction) {
         // No offers were made - auto advance to next player
-        const board = activeSession.rubataBoard as Array<unknown>
+        const board = activeSession.rubataBoardEntries
         const currentIndex = activeSession.rubataBoardIndex ?? 0
         const nextIndex = currentIndex + 1
 
@@ -974,14 +1000,17 @@ export async function getRubataBoard(
         } else {
           // Advance to next player — go to READY_CHECK (not directly to OFFERING)
           // so all managers can confirm readiness before the next offering window
-          await prisma.marketSession.update({
-            where: { id: activeSession.id },
-            data: {
-              rubataBoardIndex: nextIndex,
-              rubataState: 'READY_CHECK',
-              rubataTimerStartedAt: null,
-              rubataReadyMembers: [],
-            },
+          const sessionId = activeSession.id
+          await prisma.$transaction(async (tx) => {
+            await tx.marketSession.update({
+              where: { id: sessionId },
+              data: {
+                rubataBoardIndex: nextIndex,
+                rubataState: 'READY_CHECK',
+                rubataTimerStartedAt: null,
+              },
+            })
+            await resetRubataReadyMembers(sessionId, tx)
           })
         }
 
@@ -991,6 +1020,7 @@ export async function getRubataBoard(
             leagueId,
             status: 'ACTIVE',
           },
+          include: rubataStateInclude,
         })
 
         if (!activeSession) {
@@ -1004,7 +1034,7 @@ export async function getRubataBoard(
   if (
     activeSession.rubataState === 'AUCTION' &&
     activeSession.rubataTimerStartedAt &&
-    activeSession.rubataBoard
+    activeSession.rubataBoardGeneratedAt
   ) {
     const now = new Date()
     const timerStart = new Date(activeSession.rubataTimerStartedAt)
@@ -1036,11 +1066,11 @@ export async function getRubataBoard(
 
         if (winningBid) {
           // Execute the rubata transfer (shared with closeCurrentRubataAuction)
-          await applyRubataAuctionClose(
+          const closedEvent = await applyRubataAuctionClose(
             leagueId,
             activeSession.id,
             auctionToClose,
-            winningBid.bidderId
+            winningBid
           )
 
           // Get seller info for pending ack
@@ -1050,23 +1080,10 @@ export async function getRubataBoard(
           })
 
           // Create pending acknowledgment
-          const boardForAutoClose = activeSession.rubataBoard as unknown as RubataBoardItem[]
+          const sessionId = activeSession.id
           const currentIndex = activeSession.rubataBoardIndex ?? 0
           const nextIndex = currentIndex + 1
 
-          // Update board entry with winner info
-          const updatedBoardAutoClose = boardForAutoClose.map((entry, idx) => {
-            if (idx === currentIndex) {
-              return {
-                ...entry,
-                stolenById: winningBid.bidderId,
-                stolenByUsername: winningBid.bidder.user.username,
-                stolenPrice: auctionToClose.currentPrice,
-              }
-            }
-            return entry
-          })
-
           const pendingAck = {
             auctionId: auctionToClose.id,
             playerId: auctionToClose.playerId,
@@ -1078,32 +1095,30 @@ export async function getRubataBoard(
             sellerId: auctionToClose.sellerId!,
             sellerUsername: sellerInfo?.user.username || 'Unknown',
             finalPrice: auctionToClose.currentPrice,
-            acknowledgedMembers: [],
           }
 
-          await prisma.marketSession.update({
-            where: { id: activeSession.id },
-            data: {
-              rubataBoard: updatedBoardAutoClose as unknown as Prisma.InputJsonValue,
-              rubataBoardIndex: nextIndex,
-              rubataState: 'PENDING_ACK',
-              rubataTimerStartedAt: null,
-              rubataPendingAck: pendingAck as unknown as Prisma.InputJsonValue,
-              rubataReadyMembers: [],
-            },
+          await prisma.$transaction(async (tx) => {
+            // Update board entry with winner info
+            await markRubataBoardEntryStolen(sessionId, currentIndex, {
+              stolenById: winningBid.bidderId,
+              stolenByUsername: winningBid.bidder.user.username,
+              stolenPrice: auctionToClose.currentPrice,
+            }, tx)
+            await tx.marketSession.update({
+              where: { id: sessionId },
+              data: {
+                rubataBoardIndex: nextIndex,
+                rubataState: 'PENDING_ACK',
+                rubataTimerStartedAt: null,
+                rubataPendingAck: pendingAck as unknown as Prisma.InputJsonValue,
+              },
+            })
+            await resetRubataAcknowledgements(sessionId, tx)
+            await resetRubataReadyMembers(sessionId, tx)
           })
 
-          // Trigger Pusher event for auction closed (non-blocking)
-          triggerAuctionClosed(activeSession.id, {
-            auctionId: auctionToClose.id,
-            playerId: auctionToClose.playerId,
-            playerName: auctionToClose.player.name,
-            winnerId: winningBid.bidderId,
-            winnerName: winningBid.bidder.user.username,
-            finalPrice: auctionToClose.currentPrice,
-            wasUnsold: false,
-            timestamp: new Date().toISOString(),
-          }).catch(() => { /* Error intentionally silenced */ })
+          // Movimento e broadcast dopo il PENDING_ACK: i client rileggono il tabellone aggiornato
+          await publishDomainEvent(DomainEventTypes.RUBATA_AUCTION_CLOSED, closedEvent)
         }
 
         // Re-fetch the session with updated data
@@ -1112,6 +1127,7 @@ export async function getRubataBoard(
             leagueId,
             status: 'ACTIVE',
           },
+          include: rubataStateInclude,
         })
 
         if (!activeSession) {
@@ -1131,22 +1147,25 @@ export async function getRubataBoard(
     activeSession.rubataState === 'PENDING_ACK' &&
     activeSession.rubataPendingAck
   ) {
-    const pendingAck = activeSession.rubataPendingAck as { auctionId: string; acknowledgedMembers: string[] }
+    const acknowledgedMembers = toRubataAcknowledgedMembers(activeSession.rubataParticipants)
     const allMembers = await prisma.leagueMember.findMany({
       where: { leagueId, status: MemberStatus.ACTIVE },
       select: { id: true },
     })
-    const allAcknowledged = allMembers.every(m => pendingAck.acknowledgedMembers.includes(m.id))
+    const allAcknowledged = allMembers.every(m => acknowledgedMembers.includes(m.id))
 
     if (allAcknowledged) {
       // Everyone confirmed — clear pendingAck and move to READY_CHECK for next player
-      await prisma.marketSession.update({
-        where: { id: activeSession.id },
-        data: {
-          rubataPendingAck: Prisma.DbNull,
-          rubataReadyMembers: [],
-          rubataState: 'READY_CHECK',
-        },
+      const sessionId = activeSession.id
+      await prisma.$transaction(async (tx) => {
+        await tx.marketSession.update({
+          where: { id: sessionId },
+          data: {
+            rubataPendingAck: Prisma.DbNull,
+            rubataState: 'READY_CHECK',
+          },
+        })
+        await resetRubataReadyMembers(sessionId, tx)
       })
 
       // Re-fetch the session
@@ -1155,6 +1174,7 @@ export async function getRubataBoard(
           leagueId,
           status: 'ACTIVE',
         },
+        include: rubataStateInclude,
       })
 
       if (!activeSession) {
@@ -1164,7 +1184,7 @@ export async function getRubataBoard(
   }
 
   const isRubataPhase = activeSession.currentPhase === 'RUBATA'
-  const rawBoard = activeSession.rubataBoard as unknown as RubataBoardItem[] | null
+  const rawBoard = toRubataBoard(activeSession)
 
   // Enrich board with computed stats (not stored in JSON)
   let board = rawBoard
@@ -1316,17 +1336,18 @@ export async function startRubata(
       status: 'ACTIVE',
       currentPhase: 'RUBATA',
     },
+    include: rubataStateInclude,
   })
 
   if (!activeSession) {
     return { success: false, message: 'Nessuna sessione rubata attiva' }
   }
 
-  if (!activeSession.rubataBoard) {
+  const board = toRubataBoard(activeSession)
+  if (!board) {
     return { success: false, message: 'Tabellone rubata non generato' }
   }
 
-  const board = activeSession.rubataBoard as Array<unknown>
   if (board.length === 0) {
     return { success: false, message: 'Tabellone vuoto' }
   }
@@ -1429,6 +1450,7 @@ export async function makeRubataOffer(
       status: 'ACTIVE',
       currentPhase: 'RUBATA',
     },
+    include: rubataStateInclude,
   })
 
   if (!activeSession) {
@@ -1449,7 +1471,7 @@ export async function makeRubataOffer(
     }
   }
 
-  const board = activeSession.rubataBoard as unknown as RubataBoardItem[]
+  const board = toRubataBoard(activeSession)
 
   if (!board || activeSession.rubataBoardIndex === null) {
     return { success: false, message: 'Tabellone non disponibile' }
@@ -1540,7 +1562,6 @@ export async function makeRubataOffer(
       data: {
         rubataState: 'AUCTION_READY_CHECK',
         rubataTimerStartedAt: null, // Timer will start when all ready
-        rubataReadyMembers: [],
         rubataAuctionReadyInfo: {
           bidderUsername: memberWithUser?.user.username || 'Unknown',
           playerName: currentPlayer.playerName || 'Unknown',
@@ -1551,23 +1572,23 @@ export async function makeRubataOffer(
         },
       },
     })
+    await resetRubataReadyMembers(activeSession.id, tx)
 
     return newAuction
   })
 
-  // Trigger Pusher event for real-time steal announcement (non-blocking)
-  triggerRubataStealDeclared(activeSession.id, {
+  // Broadcast Pusher della rubata dichiarata (sottoscrittori RUBATA_OFFER_PLACED)
+  await publishDomainEvent(DomainEventTypes.RUBATA_OFFER_PLACED, {
     sessionId: activeSession.id,
-    bidderId: member.id,
-    bidderUsername: memberWithUser?.user.username || 'Unknown',
     playerId: currentPlayer.playerId,
     playerName: currentPlayer.playerName || 'Unknown',
     playerTeam: currentPlayer.playerTeam || '',
     playerPosition: currentPlayer.playerPosition || '',
+    offeredById: member.id,
+    offeredByUsername: memberWithUser?.user.username || 'Unknown',
     ownerUsername: currentPlayer.ownerUsername || 'Unknown',
     basePrice: currentPlayer.rubataPrice,
-    timestamp: new Date().toISOString(),
-  }).catch(() => { /* Error intentionally silenced */ })
+  })
 
   return {
     success: true,
@@ -1578,10 +1599,22 @@ export async function makeRubataOffer(
 
 // ==================== BID ON RUBATA AUCTION (with timer reset) ====================
 
+// Rilanci automatici all'avvio dell'asta (dopo il ready-check)
+async function startRubataProxyBidding(sessionId: string): Promise<void> {
+  const auction = await prisma.auction.findFirst({
+    where: { marketSessionId: sessionId, type: 'RUBATA', status: AuctionStatus.ACTIVE },
+    select: { id: true },
+  })
+  if (auction) {
+    await triggerProxyBidding(auction.id)
+  }
+}
+
 export async function bidOnRubataAuction(
   leagueId: string,
   userId: string,
-  amount: number
+  amount: number,
+  isProxy: boolean = false
 ): Promise<ServiceResult> {
   const member = await prisma.leagueMember.findFirst({
     where: {
@@ -1669,6 +1702,7 @@ export async function bidOnRubataAuction(
         userId,
         amount,
         isWinning: true,
+        isProxy,
       },
     })
 
@@ -1685,16 +1719,20 @@ export async function bidOnRubataAuction(
     })
   })
 
-  // Trigger Pusher event for real-time update (non-blocking)
-  triggerRubataBidPlaced(activeSession.id, {
+  // Broadcast Pusher del rilancio (sottoscrittori RUBATA_BID_PLACED)
+  await publishDomainEvent(DomainEventTypes.RUBATA_BID_PLACED, {
     sessionId: activeSession.id,
     auctionId: activeAuction.id,
     bidderId: member.id,
     bidderUsername: memberWithUser?.user.username || 'Unknown',
-    amount,
     playerName: playerInfo?.name || 'Unknown',
-    timestamp: new Date().toISOString(),
-  }).catch(() => { /* Error intentionally silenced */ })
+    amount,
+  })
+
+  // Rilanci automatici degli altri manager (non per i rilanci automatici stessi)
+  if (!isProxy) {
+    await triggerProxyBidding(activeAuction.id)
+  }
 
   return {
     success: true,
@@ -1729,13 +1767,14 @@ export async function advanceRubataPlayer(
       status: 'ACTIVE',
       currentPhase: 'RUBATA',
     },
+    include: rubataStateInclude,
   })
 
   if (!activeSession) {
     return { success: false, message: 'Nessuna sessione rubata attiva' }
   }
 
-  const board = activeSession.rubataBoard as Array<unknown>
+  const board = toRubataBoard(activeSession)
   if (!board) {
     return { success: false, message: 'Tabellone non disponibile' }
   }
@@ -1841,6 +1880,12 @@ interface RubataAuctionToClose {
   playerId: string
   sellerId: string | null
   currentPrice: number
+  player: { name: string }
+}
+
+interface RubataWinningBid {
+  bidderId: string
+  bidder: { user: { username: string } }
 }
 
 /**
@@ -1856,15 +1901,18 @@ interface RubataAuctionToClose {
  *   seller.currentBudget += OFFERTA   (salary freed from monte ingaggi)
  * The contract is transferred (not recreated); the movement records old = new.
  *
- * Runs its own $transaction and records the movement afterwards (outside the
- * transaction), matching the original inlined behaviour at both call sites.
+ * Runs its own $transaction and returns the RUBATA_AUCTION_CLOSED payload:
+ * callers publish it once the board is in PENDING_ACK, so the movement and
+ * the Pusher broadcast follow every write of the close.
  */
 async function applyRubataAuctionClose(
   leagueId: string,
   marketSessionId: string,
   auction: RubataAuctionToClose,
-  winnerId: string
-): Promise<void> {
+  winningBid: RubataWinningBid
+): Promise<RubataAuctionClosed> {
+  const winnerId = winningBid.bidderId
+
   // Execute the rubata transfer
   await prisma.$transaction(async (tx) => {
     const seller = await tx.leagueMember.findUnique({
@@ -1879,11 +1927,19 @@ async function applyRubataAuctionClose(
         playerId: auction.playerId,
         status: RosterStatus.ACTIVE,
       },
-      include: { contract: true },
+      include: { contract: true, player: { select: { name: true } } },
     })
 
     if (!rosterEntry) throw new Error('Roster entry not found')
 
+    // Stato prima del trasferimento per il journal compensativo
+    const journalRefs = {
+      memberIds: [winnerId, auction.sellerId!],
+      rosterIds: [rosterEntry.id],
+      contractIds: rosterEntry.contract ? [rosterEntry.contract.id] : [],
+    }
+    const stateBefore = await captureState(tx, journalRefs)
+
     // Decompose rubata price: PREZZO = OFFERTA + INGAGGIO (RUBATA.md §4.4)
     const payment = auction.currentPrice
     const contractSalary = rosterEntry.contract?.salary ?? 0
@@ -1925,6 +1981,19 @@ async function applyRubataAuctionClose(
         endsAt: new Date(),
       },
     })
+
+    await recordCompensation(tx, {
+      leagueId,
+      operation: 'RUBATA_TRANSFER',
+      entityType: 'Auction',
+      entityId: auction.id,
+      description: `Rubata di ${rosterEntry.player.name} per ${payment}`,
+      steps: [
+        ...diffSnapshots(stateBefore, await captureState(tx, journalRefs)),
+        { kind: 'RECORD', model: 'auction', id: auction.id, data: { status: AuctionStatus.NO_BIDS, winnerId: null } },
+        { kind: 'MOVEMENTS', filter: { auctionId: auction.id } },
+      ],
+    })
   })
 
   // Record movement with contract info (old = new: contract transferred unchanged)
@@ -1937,22 +2006,33 @@ async function applyRubataAuctionClose(
     include: { contract: true },
   })
 
-  await recordMovement({
+  return {
+    sessionId: marketSessionId,
     leagueId,
+    auctionId: auction.id,
     playerId: auction.playerId,
-    movementType: 'RUBATA',
-    fromMemberId: auction.sellerId!,
-    toMemberId: winnerId,
+    playerName: auction.player.name,
+    sellerId: auction.sellerId!,
+    winnerId,
+    winnerUsername: winningBid.bidder.user.username,
     price: auction.currentPrice,
-    marketSessionId,
-    auctionId: auction.id,
-    oldSalary: transferredRoster?.contract?.salary,
-    oldDuration: transferredRoster?.contract?.duration,
-    oldClause: transferredRoster?.contract?.rescissionClause,
-    newSalary: transferredRoster?.contract?.salary,
-    newDuration: transferredRoster?.contract?.duration,
-    newClause: transferredRoster?.contract?.rescissionClause,
-  })
+    movement: {
+      leagueId,
+      playerId: auction.playerId,
+      movementType: 'RUBATA',
+      fromMemberId: auction.sellerId!,
+      toMemberId: winnerId,
+      price: auction.currentPrice,
+      marketSessionId,
+      auctionId: auction.id,
+      oldSalary: transferredRoster?.contract?.salary,
+      oldDuration: transferredRoster?.contract?.duration,
+      oldClause: transferredRoster?.contract?.rescissionClause,
+      newSalary: transferredRoster?.contract?.salary,
+      newDuration: transferredRoster?.contract?.duration,
+      newClause: transferredRoster?.contract?.rescissionClause,
+    },
+  }
 }
 
 // ==================== CLOSE CURRENT RUBATA AUCTION ====================
@@ -1982,6 +2062,7 @@ export async function closeCurrentRubataAuction(
       status: 'ACTIVE',
       currentPhase: 'RUBATA',
     },
+    include: rubataStateInclude,
   })
 
   if (!activeSession) {
@@ -2029,11 +2110,11 @@ export async function closeCurrentRubataAuction(
   }
 
   // Execute the rubata transfer (shared with getRubataBoard auto-close)
-  await applyRubataAuctionClose(
+  const closedEvent = await applyRubataAuctionClose(
     leagueId,
     activeSession.id,
     activeAuction,
-    winningBid.bidderId
+    winningBid
   )
 
   // Get seller info for pending ack
@@ -2043,40 +2124,11 @@ export async function closeCurrentRubataAuction(
   })
 
   // Create pending acknowledgment and advance board index
-  const board = activeSession.rubataBoard as Array<{
-    rosterId: string
-    memberId: string
-    playerId: string
-    playerName: string
-    playerPosition: Position
-    playerTeam: string
-    ownerUsername: string
-    ownerTeamName: string | null
-    rubataPrice: number
-    contractSalary: number
-    contractDuration: number
-    contractClause: number
-    stolenById?: string | null
-    stolenByUsername?: string | null
-    stolenPrice?: number | null
-  }>
+  const board = activeSession.rubataBoardEntries
   const currentIndex = activeSession.rubataBoardIndex ?? 0
   const nextIndex = currentIndex + 1
   const isCompleted = nextIndex >= board.length
 
-  // Update board entry with winner info
-  const updatedBoard = board.map((entry, idx) => {
-    if (idx === currentIndex) {
-      return {
-        ...entry,
-        stolenById: winningBid.bidderId,
-        stolenByUsername: winningBid.bidder.user.username,
-        stolenPrice: activeAuction.currentPrice,
-      }
-    }
-    return entry
-  })
-
   // Create pending acknowledgment
   const pendingAck = {
     auctionId: activeAuction.id,
@@ -2089,32 +2141,30 @@ export async function closeCurrentRubataAuction(
     sellerId: activeAuction.sellerId!,
     sellerUsername: seller?.user.username || 'Unknown',
     finalPrice: activeAuction.currentPrice,
-    acknowledgedMembers: [],
   }
 
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: {
-      rubataBoard: updatedBoard,
-      rubataBoardIndex: nextIndex,
-      rubataState: 'PENDING_ACK',
-      rubataTimerStartedAt: null,
-      rubataPendingAck: pendingAck,
-      rubataReadyMembers: [],
-    },
+  await prisma.$transaction(async (tx) => {
+    // Update board entry with winner info
+    await markRubataBoardEntryStolen(activeSession.id, currentIndex, {
+      stolenById: winningBid.bidderId,
+      stolenByUsername: winningBid.bidder.user.username,
+      stolenPrice: activeAuction.currentPrice,
+    }, tx)
+    await tx.marketSession.update({
+      where: { id: activeSession.id },
+      data: {
+        rubataBoardIndex: nextIndex,
+        rubataState: 'PENDING_ACK',
+        rubataTimerStartedAt: null,
+        rubataPendingAck: pendingAck,
+      },
+    })
+    await resetRubataAcknowledgements(activeSession.id, tx)
+    await resetRubataReadyMembers(activeSession.id, tx)
   })
 
-  // Trigger Pusher event for auction closed (non-blocking)
-  triggerAuctionClosed(activeSession.id, {
-    auctionId: activeAuction.id,
-    playerId: activeAuction.playerId,
-    playerName: activeAuction.player.name,
-    winnerId: winningBid.bidderId,
-    winnerName: winningBid.bidder.user.username,
-    finalPrice: activeAuction.currentPrice,
-    wasUnsold: false,
-    timestamp: new Date().toISOString(),
-  }).catch(() => { /* Error intentionally silenced */ })
+  // Movimento e broadcast dopo il PENDING_ACK: i client rileggono il tabellone aggiornato
+  await publishDomainEvent(DomainEventTypes.RUBATA_AUCTION_CLOSED, closedEvent)
 
   return {
     success: true,
@@ -2179,15 +2229,17 @@ export async function pauseRubata(
     remainingSeconds = Math.max(0, totalSeconds - elapsedSeconds)
   }
 
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: {
-      rubataPausedFromState: activeSession.rubataState,
-      rubataPausedRemainingSeconds: remainingSeconds,
-      rubataState: 'PAUSED',
-      rubataTimerStartedAt: null,
-      rubataReadyMembers: [], // Clear ready members for resume check
-    },
+  await prisma.$transaction(async (tx) => {
+    await tx.marketSession.update({
+      where: { id: activeSession.id },
+      data: {
+        rubataPausedFromState: activeSession.rubataState,
+        rubataPausedRemainingSeconds: remainingSeconds,
+        rubataState: 'PAUSED',
+        rubataTimerStartedAt: null,
+      },
+    })
+    await resetRubataReadyMembers(activeSession.id, tx) // Clear ready members for resume check
   })
 
   return {
@@ -2233,12 +2285,7 @@ export async function resumeRubata(
   // Instead of immediately resuming, wait for all managers to be ready
   // The actual resume will happen when all members are ready (via setRubataReady or forceAllRubataReady)
   // For now, just clear the ready members and keep PAUSED state - frontend will show ready check UI
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: {
-      rubataReadyMembers: [],
-    },
-  })
+  await resetRubataReadyMembers(activeSession.id)
 
   return {
     success: true,
@@ -2272,10 +2319,11 @@ export async function getRubataStatus(leagueId: string, userId: string): Promise
       leagueId,
       status: 'ACTIVE',
     },
+    include: { rubataParticipants: true },
   })
 
   const isRubataPhase = activeSession?.currentPhase === 'RUBATA'
-  const rubataOrder = (activeSession?.rubataOrder as string[]) || []
+  const rubataOrder = activeSession ? toRubataOrder(activeSession.rubataParticipants) : []
 
   // Get active auction if any
   const activeAuction = await prisma.auction.findFirst({
@@ -2363,6 +2411,7 @@ export async function getRubataReadyStatus(
       status: 'ACTIVE',
     },
     include: {
+      rubataParticipants: true,
       league: {
         include: {
           members: {
@@ -2379,10 +2428,10 @@ export async function getRubataReadyStatus(
   }
 
   const allMembers = activeSession.league.members
-  const rubataReadyMembers = (activeSession.rubataReadyMembers as string[]) || []
+  const rubataReadyMembers = toRubataReadyMembers(activeSession.rubataParticipants)
 
   // Get connection status for all managers
-  const connectionStatus = getRubataConnectionStatus(leagueId)
+  const connectionStatus = await getRubataConnectionStatus(leagueId)
 
   const readyMembers = allMembers
     .filter(m => rubataReadyMembers.includes(m.id))
@@ -2408,6 +2457,27 @@ export async function getRubataReadyStatus(
   }
 }
 
+/**
+ * Transizione di stato compare-and-set: viene applicata solo se la sessione è
+ * ancora in `fromState`, così due "pronto" simultanei non la eseguono due volte.
+ * I pronti vengono azzerati per il ready check successivo.
+ */
+async function transitionRubataState(
+  sessionId: string,
+  fromState: string,
+  data: Prisma.MarketSessionUpdateManyMutationInput
+): Promise<boolean> {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.marketSession.updateMany({
+      where: { id: sessionId, rubataState: fromState },
+      data,
+    })
+    if (count === 0) return false
+    await resetRubataReadyMembers(sessionId, tx)
+    return true
+  })
+}
+
 export async function setRubataReady(
   leagueId: string,
   userId: string
@@ -2430,6 +2500,7 @@ export async function setRubataReady(
       status: 'ACTIVE',
       currentPhase: 'RUBATA',
     },
+    include: { rubataParticipants: true },
   })
 
   if (!activeSession) {
@@ -2442,9 +2513,7 @@ export async function setRubataReady(
     return { success: false, message: 'Non è il momento di dichiararsi pronti' }
   }
 
-  const rubataReadyMembers = (activeSession.rubataReadyMembers as string[]) || []
-
-  if (rubataReadyMembers.includes(member.id)) {
+  if (toRubataReadyMembers(activeSession.rubataParticipants).includes(member.id)) {
     return { success: true, message: 'Già pronto' }
   }
 
@@ -2460,34 +2529,33 @@ export async function setRubataReady(
   })
 
   // In IN_PRESENCE mode, auto-mark all members as ready (skip ready-check)
-  const updatedReadyMembers = activeSession.auctionMode === 'IN_PRESENCE'
-    ? allMembers.map(m => m.id)
-    : [...rubataReadyMembers, member.id]
+  await setRubataMembersReady(
+    activeSession.id,
+    activeSession.auctionMode === 'IN_PRESENCE' ? allMembers.map(m => m.id) : [member.id]
+  )
 
+  // Re-read the rows: other managers may have confirmed concurrently
+  const updatedReadyMembers = toRubataReadyMembers(await loadRubataParticipants(activeSession.id))
   const allReady = allMembers.every(m => updatedReadyMembers.includes(m.id))
 
-  // Trigger Pusher event for real-time ready update (non-blocking)
-  triggerRubataReadyChanged(activeSession.id, {
+  // Broadcast Pusher del pronto (sottoscrittori RUBATA_READY_CHANGED)
+  await publishDomainEvent(DomainEventTypes.RUBATA_READY_CHANGED, {
     sessionId: activeSession.id,
     memberId: member.id,
     memberUsername: memberWithUser?.user.username || 'Unknown',
     isReady: true,
     readyCount: updatedReadyMembers.length,
     totalMembers: allMembers.length,
-    timestamp: new Date().toISOString(),
-  }).catch(() => { /* Error intentionally silenced */ })
+  })
 
   // If in AUCTION_READY_CHECK state and all ready, start the auction
   if (activeSession.rubataState === 'AUCTION_READY_CHECK' && allReady) {
-    await prisma.marketSession.update({
-      where: { id: activeSession.id },
-      data: {
-        rubataReadyMembers: [],
-        rubataAuctionReadyInfo: Prisma.DbNull,
-        rubataState: 'AUCTION',
-        rubataTimerStartedAt: new Date(),
-      },
+    await transitionRubataState(activeSession.id, 'AUCTION_READY_CHECK', {
+      rubataAuctionReadyInfo: Prisma.DbNull,
+      rubataState: 'AUCTION',
+      rubataTimerStartedAt: new Date(),
     })
+    await startRubataProxyBidding(activeSession.id)
 
     return {
       success: true,
@@ -2498,14 +2566,10 @@ export async function setRubataReady(
 
   // If in PENDING_ACK state and all ready, clear pending ack and advance
   if (activeSession.rubataState === 'PENDING_ACK' && allReady) {
-    await prisma.marketSession.update({
-      where: { id: activeSession.id },
-      data: {
-        rubataReadyMembers: [],
-        rubataPendingAck: Prisma.DbNull,
-        rubataState: 'OFFERING',
-        rubataTimerStartedAt: new Date(),
-      },
+    await transitionRubataState(activeSession.id, 'PENDING_ACK', {
+      rubataPendingAck: Prisma.DbNull,
+      rubataState: 'OFFERING',
+      rubataTimerStartedAt: new Date(),
     })
 
     return {
@@ -2529,15 +2593,11 @@ export async function setRubataReady(
     const offsetSeconds = totalSeconds - remainingSeconds
     const adjustedStartTime = new Date(Date.now() - offsetSeconds * 1000)
 
-    await prisma.marketSession.update({
-      where: { id: activeSession.id },
-      data: {
-        rubataReadyMembers: [],
-        rubataState: resumeState,
-        rubataTimerStartedAt: adjustedStartTime,
-        rubataPausedFromState: null,
-        rubataPausedRemainingSeconds: null,
-      },
+    await transitionRubataState(activeSession.id, 'PAUSED', {
+      rubataState: resumeState,
+      rubataTimerStartedAt: adjustedStartTime,
+      rubataPausedFromState: null,
+      rubataPausedRemainingSeconds: null,
     })
 
     return {
@@ -2547,11 +2607,6 @@ export async function setRubataReady(
     }
   }
 
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: { rubataReadyMembers: updatedReadyMembers },
-  })
-
   return {
     success: true,
     message: 'Pronto!',
@@ -2600,15 +2655,12 @@ export async function forceAllRubataReady(
 
   // If in AUCTION_READY_CHECK state, start the auction
   if (activeSession.rubataState === 'AUCTION_READY_CHECK') {
-    await prisma.marketSession.update({
-      where: { id: activeSession.id },
-      data: {
-        rubataReadyMembers: [],
-        rubataAuctionReadyInfo: Prisma.DbNull,
-        rubataState: 'AUCTION',
-        rubataTimerStartedAt: new Date(),
-      },
+    await transitionRubataState(activeSession.id, 'AUCTION_READY_CHECK', {
+      rubataAuctionReadyInfo: Prisma.DbNull,
+      rubataState: 'AUCTION',
+      rubataTimerStartedAt: new Date(),
     })
+    await startRubataProxyBidding(activeSession.id)
 
     return {
       success: true,
@@ -2618,14 +2670,10 @@ export async function forceAllRubataReady(
 
   // If in PENDING_ACK state, clear and advance
   if (activeSession.rubataState === 'PENDING_ACK') {
-    await prisma.marketSession.update({
-      where: { id: activeSession.id },
-      data: {
-        rubataReadyMembers: [],
-        rubataPendingAck: Prisma.DbNull,
-        rubataState: 'OFFERING',
-        rubataTimerStartedAt: new Date(),
-      },
+    await transitionRubataState(activeSession.id, 'PENDING_ACK', {
+      rubataPendingAck: Prisma.DbNull,
+      rubataState: 'OFFERING',
+      rubataTimerStartedAt: new Date(),
     })
 
     return {
@@ -2636,13 +2684,15 @@ export async function forceAllRubataReady(
 
   // If in READY_CHECK state, mark all ready and start
   if (activeSession.rubataState === 'READY_CHECK') {
-    await prisma.marketSession.update({
-      where: { id: activeSession.id },
-      data: {
-        rubataReadyMembers: allMemberIds,
-        rubataState: 'OFFERING',
-        rubataTimerStartedAt: new Date(),
-      },
+    await prisma.$transaction(async (tx) => {
+      await tx.marketSession.update({
+        where: { id: activeSession.id },
+        data: {
+          rubataState: 'OFFERING',
+          rubataTimerStartedAt: new Date(),
+        },
+      })
+      await setRubataMembersReady(activeSession.id, allMemberIds, tx)
     })
 
     return {
@@ -2663,15 +2713,11 @@ export async function forceAllRubataReady(
     const offsetSeconds = totalSeconds - remainingSeconds
     const adjustedStartTime = new Date(Date.now() - offsetSeconds * 1000)
 
-    await prisma.marketSession.update({
-      where: { id: activeSession.id },
-      data: {
-        rubataReadyMembers: [],
-        rubataState: resumeState,
-        rubataTimerStartedAt: adjustedStartTime,
-        rubataPausedFromState: null,
-        rubataPausedRemainingSeconds: null,
-      },
+    await transitionRubataState(activeSession.id, 'PAUSED', {
+      rubataState: resumeState,
+      rubataTimerStartedAt: adjustedStartTime,
+      rubataPausedFromState: null,
+      rubataPausedRemainingSeconds: null,
     })
 
     return {
@@ -2707,6 +2753,7 @@ export async function getRubataPendingAck(
       status: 'ACTIVE',
     },
     include: {
+      rubataParticipants: true,
       league: {
         include: {
           members: {
@@ -2733,19 +2780,23 @@ export async function getRubataPendingAck(
     sellerId: string
     sellerUsername: string
     finalPrice: number
-    acknowledgedMembers: string[]
-    prophecies?: Array<{ memberId: string; username: string; content: string; createdAt: string }>
   }
 
   const allMembers = activeSession.league.members
+  const acknowledgedMemberIds = toRubataAcknowledgedMembers(activeSession.rubataParticipants)
   const acknowledgedMembers = allMembers
-    .filter(m => pendingAck.acknowledgedMembers.includes(m.id))
+    .filter(m => acknowledgedMemberIds.includes(m.id))
     .map(m => ({ id: m.id, username: m.user.username }))
 
   const pendingMembers = allMembers
-    .filter(m => !pendingAck.acknowledgedMembers.includes(m.id))
+    .filter(m => !acknowledgedMemberIds.includes(m.id))
     .map(m => ({ id: m.id, username: m.user.username }))
 
+  const prophecies = toRubataProphecies(activeSession.rubataParticipants).map(p => ({
+    ...p,
+    username: allMembers.find(m => m.id === p.memberId)?.user.username || 'Unknown',
+  }))
+
   // Get contract info for the winner (for post-acquisition modification)
   let contractInfo = null
   if (pendingAck.winnerId === member.id) {
@@ -2803,9 +2854,9 @@ export async function getRubataPendingAck(
       pendingMembers,
       totalMembers: allMembers.length,
       totalAcknowledged: acknowledgedMembers.length,
-      userAcknowledged: pendingAck.acknowledgedMembers.includes(member.id),
+      userAcknowledged: acknowledgedMemberIds.includes(member.id),
       allAcknowledged: pendingMembers.length === 0,
-      prophecies: pendingAck.prophecies || [],
+      prophecies,
       // Contract info for the winner to modify after acknowledging
       winnerContractInfo: contractInfo,
     },
@@ -2835,6 +2886,7 @@ export async function acknowledgeRubataTransaction(
       status: 'ACTIVE',
       currentPhase: 'RUBATA',
     },
+    include: rubataStateInclude,
   })
 
   if (!activeSession || activeSession.rubataState !== 'PENDING_ACK') {
@@ -2851,43 +2903,22 @@ export async function acknowledgeRubataTransaction(
     playerName: string
     winnerId: string | null
     finalPrice: number
-    acknowledgedMembers: string[]
-    prophecies?: Array<{ memberId: string; username: string; content: string; createdAt: string }>
   }
 
-  if (pendingAck.acknowledgedMembers.includes(member.id)) {
+  if (toRubataAcknowledgedMembers(activeSession.rubataParticipants).includes(member.id)) {
     return { success: true, message: 'Già confermato' }
   }
 
-  // Get member username for prophecy
-  const memberWithUser = await prisma.leagueMember.findUnique({
-    where: { id: member.id },
-    include: { user: { select: { username: true } } },
-  })
-
-  // Add prophecy if provided
-  const existingProphecies = pendingAck.prophecies || []
-  const newProphecies = prophecy?.trim()
-    ? [...existingProphecies, {
-        memberId: member.id,
-        username: memberWithUser?.user.username || 'Unknown',
-        content: prophecy.trim(),
-        createdAt: new Date().toISOString(),
-      }]
-    : existingProphecies
-
-  const updatedAck = {
-    ...pendingAck,
-    acknowledgedMembers: [...pendingAck.acknowledgedMembers, member.id],
-    prophecies: newProphecies,
-  }
+  // Record acknowledgment (and prophecy, if provided) on the member's own row
+  await acknowledgeRubataMember(activeSession.id, member.id, prophecy?.trim() || null)
 
-  // Check if all members have acknowledged
+  // Check if all members have acknowledged (re-read: others may have confirmed concurrently)
+  const acknowledgedMembers = toRubataAcknowledgedMembers(await loadRubataParticipants(activeSession.id))
   const allMembers = await prisma.leagueMember.findMany({
     where: { leagueId, status: MemberStatus.ACTIVE },
   })
 
-  const allAcknowledged = allMembers.every(m => updatedAck.acknowledgedMembers.includes(m.id))
+  const allAcknowledged = allMembers.every(m => acknowledgedMembers.includes(m.id))
 
   // Get contract info for winner (for post-rubata contract modification)
   let winnerContractInfo = null
@@ -2918,20 +2949,16 @@ export async function acknowledgeRubataTransaction(
 
   if (allAcknowledged) {
     // M-9: Check if this was the last player on the board
-    const board = activeSession.rubataBoard as Array<unknown> | null
+    const board = toRubataBoard(activeSession)
     const currentIndex = activeSession.rubataBoardIndex ?? 0
     const isLastPlayer = board ? (currentIndex + 1) >= board.length : false
 
     if (isLastPlayer) {
       // Last player acknowledged — complete rubata phase
-      await prisma.marketSession.update({
-        where: { id: activeSession.id },
-        data: {
-          rubataPendingAck: Prisma.DbNull,
-          rubataReadyMembers: [],
-          rubataState: 'COMPLETED',
-          rubataTimerStartedAt: null,
-        },
+      await transitionRubataState(activeSession.id, 'PENDING_ACK', {
+        rubataPendingAck: Prisma.DbNull,
+        rubataState: 'COMPLETED',
+        rubataTimerStartedAt: null,
       })
 
       return {
@@ -2946,13 +2973,9 @@ export async function acknowledgeRubataTransaction(
     }
 
     // Clear pending ack and move to ready check for next player
-    await prisma.marketSession.update({
-      where: { id: activeSession.id },
-      data: {
-        rubataPendingAck: Prisma.DbNull,
-        rubataReadyMembers: [],
-        rubataState: 'READY_CHECK',
-      },
+    await transitionRubataState(activeSession.id, 'PENDING_ACK', {
+      rubataPendingAck: Prisma.DbNull,
+      rubataState: 'READY_CHECK',
     })
 
     return {
@@ -2965,17 +2988,12 @@ export async function acknowledgeRubataTransaction(
     }
   }
 
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: { rubataPendingAck: updatedAck },
-  })
-
   return {
     success: true,
     message: 'Confermato!',
     data: {
       allAcknowledged: false,
-      acknowledgedCount: updatedAck.acknowledgedMembers.length,
+      acknowledgedCount: acknowledgedMembers.length,
       totalMembers: allMembers.length,
       winnerContractInfo, // For contract modification modal
     },
@@ -3012,15 +3030,14 @@ export async function forceAllRubataAcknowledge(
   }
 
   // Clear pending ack and move to ready check
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: {
-      rubataPendingAck: Prisma.DbNull,
-      rubataReadyMembers: [],
-      rubataState: 'READY_CHECK',
-    },
+  await transitionRubataState(activeSession.id, 'PENDING_ACK', {
+    rubataPendingAck: Prisma.DbNull,
+    rubataState: 'READY_CHECK',
   })
 
+  await logAction(adminUserId, leagueId, 'RUBATA_FORCE_ACK', 'MarketSession', activeSession.id,
+    { rubataState: 'PENDING_ACK', rubataPendingAck: activeSession.rubataPendingAck }, { rubataState: 'READY_CHECK' })
+
   return {
     success: true,
     message: 'Conferme forzate! Pronti per il prossimo giocatore.',
@@ -3066,6 +3083,7 @@ export async function simulateRubataOffer(
       status: 'ACTIVE',
       currentPhase: 'RUBATA',
     },
+    include: rubataStateInclude,
   })
 
   if (!activeSession) {
@@ -3076,7 +3094,7 @@ export async function simulateRubataOffer(
     return { success: false, message: 'Non è il momento di fare offerte' }
   }
 
-  const board = activeSession.rubataBoard as unknown as RubataBoardItem[]
+  const board = toRubataBoard(activeSession)
 
   if (!board || activeSession.rubataBoardIndex === null) {
     return { success: false, message: 'Tabellone non disponibile' }
@@ -3165,7 +3183,6 @@ export async function simulateRubataOffer(
       data: {
         rubataState: 'AUCTION_READY_CHECK',
         rubataTimerStartedAt: null,
-        rubataReadyMembers: [],
         rubataAuctionReadyInfo: {
           bidderUsername: targetMemberWithUser?.user.username || 'Unknown',
           playerName: playerInfo?.name || 'Unknown',
@@ -3176,6 +3193,7 @@ export async function simulateRubataOffer(
         },
       },
     })
+    await resetRubataReadyMembers(activeSession.id, tx)
 
     return newAuction
   })
@@ -3331,14 +3349,14 @@ export async function completeRubataWithTransactions(
       status: 'ACTIVE',
       currentPhase: 'RUBATA',
     },
+    include: rubataStateInclude,
   })
 
-  if (!activeSession || !activeSession.rubataBoard) {
+  const board = activeSession ? toRubataBoard(activeSession) : null
+  if (!activeSession || !board) {
     return { success: false, message: 'Nessuna sessione rubata attiva' }
   }
 
-  const board = activeSession.rubataBoard as unknown as RubataBoardItem[]
-
   const currentIndex = activeSession.rubataBoardIndex ?? 0
   const remainingPlayers = board.length - currentIndex
 
@@ -3445,30 +3463,40 @@ export async function completeRubataWithTransactions(
           }
 
           // Record movement with contract info
-          await recordMovement({
+          await publishDomainEvent(DomainEventTypes.RUBATA_AUCTION_CLOSED, {
+            sessionId: activeSession.id,
             leagueId,
+            auctionId: auction.id,
             playerId: player.playerId,
-            movementType: 'RUBATA',
-            fromMemberId: player.memberId,
-            toMemberId: buyer.id,
+            playerName: player.playerName,
+            sellerId: player.memberId,
+            winnerId: buyer.id,
+            winnerUsername: buyer.user.username,
             price: bidAmount,
-            marketSessionId: activeSession.id,
-            auctionId: auction.id,
-            oldSalary: rosterEntry.contract?.salary,
-            oldDuration: rosterEntry.contract?.duration,
-            oldClause: rosterEntry.contract?.rescissionClause,
-            newSalary: rosterEntry.contract?.salary,
-            newDuration: rosterEntry.contract?.duration,
-            newClause: rosterEntry.contract?.rescissionClause,
+            movement: {
+              leagueId,
+              playerId: player.playerId,
+              movementType: 'RUBATA',
+              fromMemberId: player.memberId,
+              toMemberId: buyer.id,
+              price: bidAmount,
+              marketSessionId: activeSession.id,
+              auctionId: auction.id,
+              oldSalary: rosterEntry.contract?.salary,
+              oldDuration: rosterEntry.contract?.duration,
+              oldClause: rosterEntry.contract?.rescissionClause,
+              newSalary: rosterEntry.contract?.salary,
+              newDuration: rosterEntry.contract?.duration,
+              newClause: rosterEntry.contract?.rescissionClause,
+            },
           })
 
           // Update board with stolen info
-          board[i] = {
-            ...player,
+          await markRubataBoardEntryStolen(activeSession.id, i, {
             stolenById: buyer.id,
             stolenByUsername: buyer.user.username,
             stolenPrice: bidAmount,
-          }
+          })
 
           steals++
         }
@@ -3477,16 +3505,17 @@ export async function completeRubataWithTransactions(
   }
 
   // Mark rubata as completed
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: {
-      rubataBoard: board as unknown as Prisma.InputJsonValue,
-      rubataBoardIndex: board.length,
-      rubataState: 'COMPLETED',
-      rubataTimerStartedAt: null,
-      rubataPendingAck: Prisma.DbNull,
-      rubataReadyMembers: [],
-    },
+  await prisma.$transaction(async (tx) => {
+    await tx.marketSession.update({
+      where: { id: activeSession.id },
+      data: {
+        rubataBoardIndex: board.length,
+        rubataState: 'COMPLETED',
+        rubataTimerStartedAt: null,
+        rubataPendingAck: Prisma.DbNull,
+      },
+    })
+    await resetRubataReadyMembers(activeSession.id, tx)
   })
 
   return {
@@ -3796,18 +3825,19 @@ export async function getAllPlayersForStrategies(
       leagueId,
       status: 'ACTIVE',
     },
+    include: { rubataParticipants: true },
   })
 
   // Check if active session is in RUBATA phase with a board
   const isRubataPhase = activeSession?.currentPhase === 'RUBATA'
-  const hasRubataBoard = isRubataPhase && !!(activeSession?.rubataBoard)
+  const hasRubataBoard = isRubataPhase && !!(activeSession?.rubataBoardGeneratedAt)
 
   // Check if rubata order is set on the active session (admin has prepared rubata)
-  const rubataOrderArray = activeSession?.rubataOrder as string[] | null
-  const hasRubataOrder = !!(rubataOrderArray && rubataOrderArray.length > 0)
+  const rubataOrderArray = activeSession ? toRubataOrder(activeSession.rubataParticipants) : []
+  const hasRubataOrder = rubataOrderArray.length > 0
 
   // Find the most relevant session for preferences
-  let preferenceSession = activeSession
+  let preferenceSession: { id: string } | null = activeSession
   if (!preferenceSession) {
     preferenceSession = await prisma.marketSession.findFirst({
       where: { leagueId },
@@ -4144,13 +4174,14 @@ export async function getRubataPreviewBoard(
       status: 'ACTIVE',
       currentPhase: 'RUBATA',
     },
+    include: rubataStateInclude,
   })
 
   if (!activeSession) {
     return { success: false, message: 'Nessuna sessione rubata attiva' }
   }
 
-  const rawPreviewBoard = activeSession.rubataBoard as unknown as RubataBoardItem[] | null
+  const rawPreviewBoard = toRubataBoard(activeSession)
 
   if (!rawPreviewBoard) {
     return { success: false, message: 'Tabellone non ancora generato' }
@@ -4220,7 +4251,7 @@ export async function setRubataToPreview(
     return { success: false, message: 'Nessuna sessione rubata attiva' }
   }
 
-  if (!activeSession.rubataBoard) {
+  if (!activeSession.rubataBoardGeneratedAt) {
     return { success: false, message: 'Genera prima il tabellone rubata' }
   }
 
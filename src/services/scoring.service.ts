@@ -0,0 +1,491 @@
+/**
+ * scoring.service.ts - Fantacalcio a giornate
+ *
+ * Formazioni settimanali (modulo + titolari + panchina) scelte dalla rosa
+ * attiva, calcolo dei fantavoti dai PlayerMatchRating del round con la
+ * tabella bonus/malus della lega, sostituzioni automatiche e classifiche
+ * di giornata e di stagione.
+ *
+ * Una giornata è "bloccata" quando sono disponibili i primi voti del round
+ * o quando è già stata calcolata: da quel momento le formazioni non cambiano.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { MemberRole, MemberStatus, Prisma, RosterStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { ServiceResult } from '@/shared/types/service-result'
+import type { SubmitLineupInput, UpdateScoringRulesInput } from '../utils/validation'
+import { logAction } from './admin.service'
+import {
+  parseFormation,
+  resolveScoringRuleset,
+  scoreLineup,
+  validateScoringRuleset,
+  SCORING_ROLES,
+  type LineupSlot,
+  type MatchStats,
+  type ScoringRole,
+} from '../utils/scoring-rules'
+
+const CURRENT_SEASON = '2025-2026'
+
+export interface StandingEntry {
+  memberId: string
+  teamName: string | null
+  username: string
+  total: number
+  roundsPlayed: number
+  rank: number
+}
+
+async function getActiveMember(leagueId: string, userId: string) {
+  return prisma.leagueMember.findFirst({
+    where: {
+      leagueId,
+      userId,
+      status: MemberStatus.ACTIVE,
+    },
+    include: { league: { select: { scoringRuleset: true } } },
+  })
+}
+
+// "Regular Season - 15" → 15 (ordinamento delle giornate)
+function roundNumber(round: string): number {
+  const match = /(\d+)\s*$/.exec(round)
+  return match ? Number(match[1]) : Number.MAX_SAFE_INTEGER
+}
+
+// Giornata successiva all'ultima con voti (stesso prefisso, numero + 1)
+function nextRound(round: string): string | null {
+  const match = /^(.*?)(\d+)\s*$/.exec(round)
+  return match ? `${match[1] ?? ''}${Number(match[2]) + 1}` : null
+}
+
+async function isRoundLocked(leagueId: string, season: string, round: string): Promise<boolean> {
+  const [rating, score] = await Promise.all([
+    prisma.playerMatchRating.findFirst({ where: { season, round }, select: { id: true } }),
+    prisma.matchdayScore.findFirst({ where: { leagueId, season, round }, select: { id: true } }),
+  ])
+  return rating !== null || score !== null
+}
+
+// Posizioni a pari merito condividono il piazzamento (1, 2, 2, 4)
+function rankEntries<T extends { total: number }>(entries: T[]): Array<T & { rank: number }> {
+  const sorted = [...entries].sort((a, b) => b.total - a.total)
+  return sorted.map(entry => ({
+    ...entry,
+    rank: sorted.findIndex(e => e.total === entry.total) + 1,
+  }))
+}
+
+// ==================== TABELLA BONUS/MALUS ====================
+
+export async function getScoringRules(leagueId: string, userId: string): Promise<ServiceResult> {
+  const member = await getActiveMember(leagueId, userId)
+
+  if (!member) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  return {
+    success: true,
+    data: {
+      rules: resolveScoringRuleset(member.league.scoringRuleset),
+      isCustom: member.league.scoringRuleset !== null,
+    },
+  }
+}
+
+export async function updateScoringRules(
+  leagueId: string,
+  adminUserId: string,
+  input: UpdateScoringRulesInput
+): Promise<ServiceResult> {
+  const admin = await prisma.leagueMember.findFirst({
+    where: {
+      leagueId,
+      userId: adminUserId,
+      role: MemberRole.ADMIN,
+      status: MemberStatus.ACTIVE,
+    },
+    include: { league: { select: { scoringRuleset: true } } },
+  })
+
+  if (!admin) {
+    return { success: false, message: 'Non autorizzato' }
+  }
+
+  const previousRules = resolveScoringRuleset(admin.league.scoringRuleset)
+
+  if (input.rules) {
+    const rules = resolveScoringRuleset(input.rules)
+    const errors = validateScoringRuleset(rules)
+    if (errors.length > 0) {
+      return { success: false, message: errors.join('; '), data: { errors } }
+    }
+
+    await prisma.league.update({
+      where: { id: leagueId },
+      data: { scoringRuleset: rules as unknown as Prisma.InputJsonValue },
+    })
+
+    await logAction(adminUserId, leagueId, 'SCORING_RULES_UPDATE', 'League', leagueId, previousRules, rules)
+
+    return {
+      success: true,
+      message: 'Tabella bonus/malus aggiornata',
+      data: { rules, isCustom: true },
+    }
+  }
+
+  // Ripristino dei default
+  await prisma.league.update({
+    where: { id: leagueId },
+    data: { scoringRuleset: Prisma.DbNull },
+  })
+
+  const rules = resolveScoringRuleset(null)
+  await logAction(adminUserId, leagueId, 'SCORING_RULES_RESET', 'League', leagueId, previousRules, rules)
+
+  return {
+    success: true,
+    message: 'Tabella bonus/malus ripristinata ai valori di default',
+    data: { rules, isCustom: false },
+  }
+}
+
+// ==================== GIORNATE ====================
+
+/**
+ * Giornate della stagione con voti disponibili, stato del calcolo per la lega
+ * e prossima giornata per cui schierare la formazione.
+ */
+export async function getMatchdays(leagueId: string, userId: string, season: string = CURRENT_SEASON): Promise<ServiceResult> {
+  const member = await getActiveMember(leagueId, userId)
+
+  if (!member) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  const [ratedRounds, computedRounds] = await Promise.all([
+    prisma.playerMatchRating.findMany({
+      where: { season, round: { not: null } },
+      distinct: ['round'],
+      select: { round: true },
+    }),
+    prisma.matchdayScore.findMany({
+      where: { leagueId, season },
+      distinct: ['round'],
+      select: { round: true },
+    }),
+  ])
+
+  const computed = new Set(computedRounds.map(r => r.round))
+  const rounds = ratedRounds
+    .map(r => r.round as string)
+    .sort((a, b) => roundNumber(a) - roundNumber(b))
+    .map(round => ({ round, isComputed: computed.has(round) }))
+
+  const lastRound = rounds[rounds.length - 1]?.round
+  return {
+    success: true,
+    data: {
+      season,
+      rounds,
+      nextRound: lastRound ? nextRound(lastRound) : 'Regular Season - 1',
+      isAdmin: member.role === MemberRole.ADMIN,
+    },
+  }
+}
+
+// ==================== FORMAZIONI ====================
+
+export async function getMyLineup(leagueId: string, userId: string, season: string, round: string): Promise<ServiceResult> {
+  const member = await getActiveMember(leagueId, userId)
+
+  if (!member) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  const [lineup, roster, locked] = await Promise.all([
+    prisma.matchdayLineup.findUnique({
+      where: { memberId_season_round: { memberId: member.id, season, round } },
+      include: { players: { orderBy: { sortOrder: 'asc' } } },
+    }),
+    prisma.playerRoster.findMany({
+      where: { leagueMemberId: member.id, status: RosterStatus.ACTIVE },
+      include: { player: { select: { id: true, name: true, team: true, position: true } } },
+    }),
+    isRoundLocked(leagueId, season, round),
+  ])
+
+  return {
+    success: true,
+    data: {
+      season,
+      round,
+      locked,
+      rules: resolveScoringRuleset(member.league.scoringRuleset),
+      roster: roster.map(r => r.player),
+      lineup: lineup
+        ? {
+            formation: lineup.formation,
+            starters: lineup.players.filter(p => p.isStarter).map(p => p.playerId),
+            bench: lineup.players.filter(p => !p.isStarter).map(p => p.playerId),
+            updatedAt: lineup.updatedAt,
+          }
+        : null,
+    },
+  }
+}
+
+export async function submitLineup(leagueId: string, userId: string, input: SubmitLineupInput): Promise<ServiceResult> {
+  const member = await getActiveMember(leagueId, userId)
+
+  if (!member) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  const rules = resolveScoringRuleset(member.league.scoringRuleset)
+  const { season, round, formation, starters, bench } = input
+
+  if (!rules.formations.includes(formation)) {
+    return { success: false, message: `Modulo ${formation} non ammesso in questa lega` }
+  }
+  const required = parseFormation(formation)
+  if (!required) {
+    return { success: false, message: 'Modulo non valido' }
+  }
+
+  if (bench.length > rules.benchSize) {
+    return { success: false, message: `La panchina può avere al massimo ${rules.benchSize} giocatori` }
+  }
+
+  const allPlayers = [...starters, ...bench]
+  if (new Set(allPlayers).size !== allPlayers.length) {
+    return { success: false, message: 'Un giocatore non può essere schierato due volte' }
+  }
+
+  if (await isRoundLocked(leagueId, season, round)) {
+    return { success: false, message: 'La giornata è già iniziata: formazione non modificabile' }
+  }
+
+  const roster = await prisma.playerRoster.findMany({
+    where: { leagueMemberId: member.id, status: RosterStatus.ACTIVE, playerId: { in: allPlayers } },
+    include: { player: { select: { id: true, position: true } } },
+  })
+  const positions = new Map(roster.map(r => [r.playerId, r.player.position as ScoringRole]))
+
+  const notInRoster = allPlayers.filter(id => !positions.has(id))
+  if (notInRoster.length > 0) {
+    return { success: false, message: 'Puoi schierare solo giocatori della tua rosa attiva' }
+  }
+
+  for (const role of SCORING_ROLES) {
+    const count = starters.filter(id => positions.get(id) === role).length
+    if (count !== required[role]) {
+      return { success: false, message: `Il modulo ${formation} richiede ${required[role]} titolari nel ruolo ${role}` }
+    }
+  }
+
+  const lineup = await prisma.$transaction(async (tx) => {
+    const saved = await tx.matchdayLineup.upsert({
+      where: { memberId_season_round: { memberId: member.id, season, round } },
+      create: { leagueId, memberId: member.id, season, round, formation },
+      update: { formation },
+    })
+
+    await tx.matchdayLineupPlayer.deleteMany({ where: { lineupId: saved.id } })
+    await tx.matchdayLineupPlayer.createMany({
+      data: [
+        ...starters.map((playerId, index) => ({ lineupId: saved.id, playerId, isStarter: true, sortOrder: index })),
+        ...bench.map((playerId, index) => ({ lineupId: saved.id, playerId, isStarter: false, sortOrder: index })),
+      ],
+    })
+
+    return saved
+  })
+
+  return {
+    success: true,
+    message: 'Formazione salvata',
+    data: { lineupId: lineup.id, formation, starters, bench },
+  }
+}
+
+// ==================== CALCOLO ====================
+
+/**
+ * Calcola (o ricalcola) la giornata per tutti i manager attivi della lega.
+ * Chi non ha schierato la formazione riceve 0 punti.
+ */
+export async function computeMatchday(leagueId: string, adminUserId: string, season: string, round: string): Promise<ServiceResult> {
+  const admin = await prisma.leagueMember.findFirst({
+    where: {
+      leagueId,
+      userId: adminUserId,
+      role: MemberRole.ADMIN,
+      status: MemberStatus.ACTIVE,
+    },
+    include: { league: { select: { scoringRuleset: true } } },
+  })
+
+  if (!admin) {
+    return { success: false, message: 'Non autorizzato' }
+  }
+
+  const ratings = await prisma.playerMatchRating.findMany({ where: { season, round } })
+  if (ratings.length === 0) {
+    return { success: false, message: 'Nessun voto disponibile per questa giornata' }
+  }
+
+  // Con più partite nello stesso round (recuperi) vale quella con più minuti
+  const stats = new Map<string, MatchStats>()
+  for (const rating of ratings) {
+    const previous = stats.get(rating.playerId)
+    if (!previous || (rating.minutesPlayed ?? 0) > (previous.minutesPlayed ?? 0)) {
+      stats.set(rating.playerId, rating)
+    }
+  }
+
+  const rules = resolveScoringRuleset(admin.league.scoringRuleset)
+  const [members, lineups] = await Promise.all([
+    prisma.leagueMember.findMany({
+      where: { leagueId, status: MemberStatus.ACTIVE },
+      select: { id: true },
+    }),
+    prisma.matchdayLineup.findMany({
+      where: { leagueId, season, round },
+      include: {
+        players: {
+          orderBy: { sortOrder: 'asc' },
+          include: { player: { select: { name: true, position: true } } },
+        },
+      },
+    }),
+  ])
+  const lineupByMember = new Map(lineups.map(l => [l.memberId, l]))
+
+  // Punteggi calcolati in memoria, scritti tutti insieme: niente giornate a metà
+  const entries: Array<{ memberId: string; total: number; breakdown: Prisma.InputJsonValue }> = []
+  for (const { id: memberId } of members) {
+    const lineup = lineupByMember.get(memberId)
+    const toSlot = (p: { playerId: string; player: { position: string } }): LineupSlot =>
+      ({ playerId: p.playerId, role: p.player.position as ScoringRole })
+
+    const score = lineup
+      ? scoreLineup(
+          lineup.players.filter(p => p.isStarter).map(toSlot),
+          lineup.players.filter(p => !p.isStarter).map(toSlot),
+          stats,
+          rules
+        )
+      : { total: 0, players: [], missing: [] }
+
+    const names = new Map(lineup?.players.map(p => [p.playerId, p.player.name]))
+    const breakdown = {
+      players: score.players.map(p => ({ ...p, name: names.get(p.playerId) })),
+      missing: score.missing,
+      hasLineup: !!lineup,
+    }
+    entries.push({ memberId, total: score.total, breakdown: breakdown as unknown as Prisma.InputJsonValue })
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const computedAt = new Date()
+    for (const { memberId, total, breakdown } of entries) {
+      await tx.matchdayScore.upsert({
+        where: { memberId_season_round: { memberId, season, round } },
+        create: { leagueId, memberId, season, round, total, breakdown },
+        update: { total, breakdown, computedAt },
+      })
+    }
+  })
+
+  const results = entries.map(({ memberId, total }) => ({ memberId, total }))
+
+  await logAction(adminUserId, leagueId, 'MATCHDAY_COMPUTE', 'League', leagueId, undefined, { season, round, scores: results })
+
+  return {
+    success: true,
+    message: `Giornata calcolata per ${results.length} manager`,
+    data: { season, round, scores: results },
+  }
+}
+
+// ==================== CLASSIFICHE ====================
+
+/**
+ * Classifica di stagione: somma dei punteggi di tutte le giornate calcolate.
+ * Non verifica i permessi: usata anche dalla fase premi.
+ */
+export async function getSeasonStandings(leagueId: string, season: string = CURRENT_SEASON): Promise<StandingEntry[]> {
+  const [members, scores] = await Promise.all([
+    prisma.leagueMember.findMany({
+      where: { leagueId, status: MemberStatus.ACTIVE },
+      select: { id: true, teamName: true, user: { select: { username: true } } },
+    }),
+    prisma.matchdayScore.findMany({
+      where: { leagueId, season },
+      select: { memberId: true, total: true },
+    }),
+  ])
+
+  const totals = new Map<string, { total: number; roundsPlayed: number }>()
+  for (const score of scores) {
+    const entry = totals.get(score.memberId) ?? { total: 0, roundsPlayed: 0 }
+    entry.total += score.total
+    entry.roundsPlayed++
+    totals.set(score.memberId, entry)
+  }
+
+  return rankEntries(members.map(m => ({
+    memberId: m.id,
+    teamName: m.teamName,
+    username: m.user.username,
+    total: Math.round((totals.get(m.id)?.total ?? 0) * 100) / 100,
+    roundsPlayed: totals.get(m.id)?.roundsPlayed ?? 0,
+  })))
+}
+
+export async function getMatchdayStandings(
+  leagueId: string,
+  userId: string,
+  season: string,
+  round: string
+): Promise<ServiceResult> {
+  const member = await getActiveMember(leagueId, userId)
+
+  if (!member) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  const [scores, seasonStandings] = await Promise.all([
+    prisma.matchdayScore.findMany({
+      where: { leagueId, season, round },
+      include: { member: { select: { teamName: true, user: { select: { username: true } } } } },
+    }),
+    getSeasonStandings(leagueId, season),
+  ])
+
+  const roundStandings = rankEntries(scores.map(s => ({
+    memberId: s.memberId,
+    teamName: s.member.teamName,
+    username: s.member.user.username,
+    total: s.total,
+    breakdown: s.breakdown,
+    computedAt: s.computedAt,
+  })))
+
+  return {
+    success: true,
+    data: {
+      season,
+      round,
+      isComputed: scores.length > 0,
+      roundStandings,
+      seasonStandings,
+    },
+  }
+}
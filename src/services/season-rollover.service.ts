@@ -0,0 +1,478 @@
+/**
+ * season-rollover.service.ts - Wizard di cambio stagione della lega
+ *
+ * Chiude la stagione corrente in un unico passaggio guidato: archivia la
+ * classifica finale e gli snapshot finanziari (SEASON_END), applica la
+ * politica di budget (riporto o reset), incrementa la stagione e apre il
+ * mercato ricorrente, che decrementa le durate e svincola i contratti scaduti.
+ * L'anteprima mostra ogni modifica prima della conferma.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { MemberRole, MemberStatus, RosterStatus, type League, type Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { ServiceResult } from '@/shared/types/service-result'
+import { logAction } from './admin.service'
+import { createAuctionSession } from './auction.service'
+import { getSeasonStandings } from './scoring.service'
+import { getImportedStandings } from './standings-import.service'
+import {
+  nextSeasonBudget,
+  planContractRollover,
+  resolveSeasonBudgetPolicy,
+  type SeasonBudgetPolicy,
+} from '../utils/season-rollover'
+import type {
+  SeasonArchiveSummary,
+  SeasonRolloverPreview,
+  SeasonRolloverReport,
+  SeasonStandingEntry,
+  StandingsSource,
+} from '../types/season-rollover.types'
+
+const PLATFORM_MIN_PARTICIPANTS = 6
+
+async function getLeagueAdmin(leagueId: string, userId: string) {
+  return prisma.leagueMember.findFirst({
+    where: { leagueId, userId, role: MemberRole.ADMIN, status: MemberStatus.ACTIVE },
+  })
+}
+
+/**
+ * Classifica finale della stagione chiusa: classifica importata per quella
+ * stagione, altrimenti quella calcolata dalle giornate dell'ultima stagione
+ * con punteggi.
+ */
+async function loadFinalStandings(leagueId: string, season: number): Promise<{ source: StandingsSource; entries: SeasonStandingEntry[] }> {
+  const imported = await getImportedStandings(leagueId, season)
+  if (imported) {
+    return {
+      source: 'IMPORT',
+      entries: imported.entries.map(e => ({
+        memberId: e.memberId,
+        teamName: e.teamName,
+        username: e.username,
+        rank: e.rank,
+        points: e.points,
+      })),
+    }
+  }
+
+  const latest = await prisma.matchdayScore.findFirst({
+    where: { leagueId },
+    orderBy: { computedAt: 'desc' },
+    select: { season: true },
+  })
+  if (!latest) return { source: 'NONE', entries: [] }
+
+  const standings = await getSeasonStandings(leagueId, latest.season)
+  return {
+    source: 'MATCHDAYS',
+    entries: standings.map(s => ({
+      memberId: s.memberId,
+      teamName: s.teamName,
+      username: s.username,
+      rank: s.rank,
+      points: s.total,
+    })),
+  }
+}
+
+async function buildPreview(league: League, policy: SeasonBudgetPolicy): Promise<SeasonRolloverPreview & { lastSessionId: string | null }> {
+  const [members, contracts, activeSession, lastSession, archived, standings] = await Promise.all([
+    prisma.leagueMember.findMany({
+      where: { leagueId: league.id, status: MemberStatus.ACTIVE },
+      select: { id: true, teamName: true, currentBudget: true, user: { select: { username: true } } },
+      orderBy: { joinedAt: 'asc' },
+    }),
+    prisma.playerContract.findMany({
+      where: {
+        leagueMember: { leagueId: league.id, status: MemberStatus.ACTIVE },
+        roster: { status: RosterStatus.ACTIVE },
+      },
+      select: {
+        id: true,
+        leagueMemberId: true,
+        salary: true,
+        duration: true,
+        roster: { select: { player: { select: { name: true } } } },
+      },
+    }),
+    prisma.marketSession.findFirst({ where: { leagueId: league.id, status: 'ACTIVE' }, select: { id: true } }),
+    prisma.marketSession.findFirst({ where: { leagueId: league.id }, orderBy: { createdAt: 'desc' }, select: { id: true } }),
+    prisma.seasonArchive.findUnique({
+      where: { leagueId_season: { leagueId: league.id, season: league.currentSeason } },
+      select: { id: true },
+    }),
+    loadFinalStandings(league.id, league.currentSeason),
+  ])
+
+  const plan = planContractRollover(contracts.map(c => ({
+    contractId: c.id,
+    memberId: c.leagueMemberId,
+    playerName: c.roster.player.name,
+    salary: c.salary,
+    duration: c.duration,
+  })))
+
+  const blockers: string[] = []
+  if (league.status !== 'ACTIVE') {
+    blockers.push('La lega deve essere avviata')
+  }
+  if (activeSession) {
+    blockers.push('Chiudi la sessione di mercato attiva prima di cambiare stagione')
+  }
+  if (!lastSession) {
+    blockers.push('Nessuna sessione di mercato giocata in questa stagione')
+  }
+  if (archived) {
+    blockers.push(`La stagione ${league.currentSeason} è già stata archiviata`)
+  }
+  if (members.length < PLATFORM_MIN_PARTICIPANTS) {
+    blockers.push(`Servono almeno ${PLATFORM_MIN_PARTICIPANTS} partecipanti per aprire il nuovo mercato. Attualmente: ${members.length}`)
+  } else if (league.requireEvenNumber && members.length % 2 !== 0) {
+    blockers.push(`Il numero di partecipanti deve essere pari per aprire il nuovo mercato. Attualmente: ${members.length}`)
+  }
+
+  return {
+    season: league.currentSeason,
+    nextSeason: league.currentSeason + 1,
+    policy,
+    standingsSource: standings.source,
+    standings: standings.entries,
+    members: members.map(m => {
+      const own = contracts.filter(c => c.leagueMemberId === m.id)
+      return {
+        memberId: m.id,
+        teamName: m.teamName,
+        username: m.user.username,
+        budget: m.currentBudget,
+        newBudget: nextSeasonBudget(m.currentBudget, league.initialBudget, policy),
+        totalSalaries: own.reduce((sum, c) => sum + c.salary, 0),
+        contractCount: own.length,
+        expiringCount: plan.expiring.filter(c => c.memberId === m.id).length,
+      }
+    }),
+    contractsToDecrement: plan.decremented.length,
+    expiringContracts: plan.expiring.map(c => ({
+      contractId: c.contractId,
+      memberId: c.memberId,
+      playerName: c.playerName,
+      salary: c.salary,
+    })),
+    blockers,
+    canApply: blockers.length === 0,
+    lastSessionId: lastSession?.id ?? null,
+  }
+}
+
+// ==================== ANTEPRIMA ====================
+
+/**
+ * Anteprima del cambio stagione con la politica indicata (o quella salvata
+ * sulla lega): nuovi budget, contratti decrementati e in scadenza, classifica
+ * da archiviare ed eventuali blocchi.
+ */
+export async function previewSeasonRollover(
+  leagueId: string,
+  userId: string,
+  policy?: SeasonBudgetPolicy
+): Promise<ServiceResult> {
+  const admin = await getLeagueAdmin(leagueId, userId)
+  if (!admin) {
+    return { success: false, message: 'Non autorizzato' }
+  }
+
+  const league = await prisma.league.findUnique({ where: { id: leagueId } })
+  if (!league) {
+    return { success: false, message: 'Lega non trovata' }
+  }
+
+  const { lastSessionId: _lastSessionId, ...preview } = await buildPreview(
+    league,
+    policy ?? resolveSeasonBudgetPolicy(league.seasonBudgetPolicy)
+  )
+
+  return { success: true, data: preview }
+}
+
+// ==================== APPLICAZIONE ====================
+
+interface NextMarketResult {
+  nextSessionId: string | null
+  contractsDecremented: number
+  playersReleased: string[]
+  nextSessionError: string | null
+}
+
+/**
+ * Ultimo passo del cambio stagione, fuori dalla transazione: apre il mercato
+ * ricorrente della nuova stagione e lo collega all'archivio. Ripetibile: se una
+ * sessione della nuova stagione esiste già (tentativo interrotto prima di
+ * aggiornare l'archivio) viene collegata invece di aprirne un'altra.
+ */
+async function openNextSeasonMarket(
+  leagueId: string,
+  userId: string,
+  archive: { id: string; season: number },
+  report: object
+): Promise<NextMarketResult> {
+  const existing = await prisma.marketSession.findFirst({
+    where: { leagueId, season: archive.season + 1 },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+  })
+
+  let result: NextMarketResult
+  if (existing) {
+    result = { nextSessionId: existing.id, contractsDecremented: 0, playersReleased: [], nextSessionError: null }
+  } else {
+    const session = await createAuctionSession(leagueId, userId, true)
+    const sessionData = session.data as
+      | { session: { id: string }; contractsDecremented?: number; playersReleased?: string[] }
+      | undefined
+    result = {
+      nextSessionId: session.success ? sessionData?.session.id ?? null : null,
+      contractsDecremented: sessionData?.contractsDecremented ?? 0,
+      playersReleased: sessionData?.playersReleased ?? [],
+      nextSessionError: session.success ? null : session.message ?? 'Errore durante la creazione della sessione',
+    }
+  }
+
+  // Un archivio già collegato a una sessione non viene sovrascritto
+  await prisma.seasonArchive.updateMany({
+    where: { id: archive.id, nextSessionId: null },
+    data: {
+      nextSessionId: result.nextSessionId,
+      report: { ...report, ...result } as unknown as Prisma.InputJsonValue,
+    },
+  })
+
+  return result
+}
+
+/**
+ * Chiude la stagione: archivio e snapshot SEASON_END, nuovi budget e stagione
+ * in un'unica transazione, poi apertura del mercato ricorrente della nuova
+ * stagione (decremento durate e svincolo dei contratti scaduti). Se l'apertura
+ * fallisce si ripete con retrySeasonRolloverMarket.
+ */
+export async function applySeasonRollover(
+  leagueId: string,
+  userId: string,
+  policy: SeasonBudgetPolicy
+): Promise<ServiceResult> {
+  const admin = await getLeagueAdmin(leagueId, userId)
+  if (!admin) {
+    return { success: false, message: 'Non autorizzato' }
+  }
+
+  const league = await prisma.league.findUnique({ where: { id: leagueId } })
+  if (!league) {
+    return { success: false, message: 'Lega non trovata' }
+  }
+
+  const { lastSessionId, ...preview } = await buildPreview(league, policy)
+  if (!preview.canApply || !lastSessionId) {
+    return { success: false, message: preview.blockers[0] ?? 'Cambio stagione non applicabile', data: { blockers: preview.blockers } }
+  }
+
+  // Salvato con l'archivio: l'esito dell'apertura del mercato lo completa
+  const baseReport: SeasonRolloverReport = {
+    season: preview.season,
+    nextSeason: preview.nextSeason,
+    policy,
+    standingsSource: preview.standingsSource,
+    standings: preview.standings,
+    members: preview.members,
+    snapshotsCreated: preview.members.length,
+    nextSessionId: null,
+    contractsDecremented: 0,
+    playersReleased: [],
+    nextSessionError: null,
+  }
+
+  let archiveId: string
+  try {
+    archiveId = await prisma.$transaction(async (tx) => {
+      // La stagione può essere chiusa una sola volta anche con richieste concorrenti
+      const switched = await tx.league.updateMany({
+        where: { id: leagueId, currentSeason: preview.season },
+        data: {
+          currentSeason: preview.nextSeason,
+          seasonBudgetPolicy: policy as unknown as Prisma.InputJsonValue,
+        },
+      })
+      if (switched.count === 0) {
+        throw new Error(`La stagione ${preview.season} è già stata chiusa`)
+      }
+
+      for (const m of preview.members) {
+        await tx.managerSessionSnapshot.create({
+          data: {
+            leagueMemberId: m.memberId,
+            marketSessionId: lastSessionId,
+            snapshotType: 'SEASON_END',
+            budget: m.budget,
+            totalSalaries: m.totalSalaries,
+            balance: m.budget - m.totalSalaries,
+            contractCount: m.contractCount,
+          },
+        })
+        if (m.newBudget !== m.budget) {
+          await tx.leagueMember.update({
+            where: { id: m.memberId },
+            data: { currentBudget: { increment: m.newBudget - m.budget } },
+          })
+        }
+      }
+
+      const archive = await tx.seasonArchive.create({
+        data: {
+          leagueId,
+          season: preview.season,
+          standings: preview.standings as unknown as Prisma.InputJsonValue,
+          standingsSource: preview.standingsSource,
+          budgetPolicy: policy as unknown as Prisma.InputJsonValue,
+          report: baseReport as unknown as Prisma.InputJsonValue,
+          closedById: userId,
+        },
+      })
+      return archive.id
+    })
+  } catch (error) {
+    return { success: false, message: error instanceof Error ? error.message : 'Errore durante il cambio stagione' }
+  }
+
+  const market = await openNextSeasonMarket(leagueId, userId, { id: archiveId, season: preview.season }, baseReport)
+  const report: SeasonRolloverReport = { ...baseReport, ...market }
+
+  await logAction(
+    userId,
+    leagueId,
+    'SEASON_ROLLOVER',
+    'League',
+    leagueId,
+    { season: preview.season, budgets: Object.fromEntries(preview.members.map(m => [m.memberId, m.budget])) },
+    {
+      season: preview.nextSeason,
+      budgets: Object.fromEntries(preview.members.map(m => [m.memberId, m.newBudget])),
+      policy,
+      nextSessionId: report.nextSessionId,
+    }
+  )
+
+  return {
+    success: true,
+    message: report.nextSessionError
+      ? `Stagione ${preview.season} chiusa, ma il nuovo mercato non è stato aperto: ${report.nextSessionError}`
+      : `Stagione ${preview.season} chiusa. Mercato della stagione ${preview.nextSeason} aperto`,
+    data: report,
+  }
+}
+
+/**
+ * Ripete l'apertura del mercato per l'ultima stagione chiusa quando il cambio
+ * stagione si è fermato dopo l'archiviazione. Senza effetti se il mercato è
+ * già collegato all'archivio.
+ */
+export async function retrySeasonRolloverMarket(leagueId: string, userId: string): Promise<ServiceResult> {
+  const admin = await getLeagueAdmin(leagueId, userId)
+  if (!admin) {
+    return { success: false, message: 'Non autorizzato' }
+  }
+
+  const league = await prisma.league.findUnique({ where: { id: leagueId } })
+  if (!league) {
+    return { success: false, message: 'Lega non trovata' }
+  }
+
+  const archive = await prisma.seasonArchive.findUnique({
+    where: { leagueId_season: { leagueId, season: league.currentSeason - 1 } },
+  })
+  if (!archive) {
+    return { success: false, message: 'Nessun cambio stagione da completare' }
+  }
+  if (archive.nextSessionId) {
+    return {
+      success: true,
+      message: `Mercato della stagione ${league.currentSeason} già aperto`,
+      data: { nextSessionId: archive.nextSessionId },
+    }
+  }
+
+  const storedReport = isJsonObject(archive.report) ? archive.report : {}
+  const market = await openNextSeasonMarket(leagueId, userId, archive, storedReport)
+  if (market.nextSessionError) {
+    return { success: false, message: `Il nuovo mercato non è stato aperto: ${market.nextSessionError}` }
+  }
+
+  await logAction(userId, leagueId, 'SEASON_ROLLOVER_MARKET_OPENED', 'League', leagueId, undefined, {
+    season: league.currentSeason,
+    nextSessionId: market.nextSessionId,
+  })
+
+  return {
+    success: true,
+    message: `Mercato della stagione ${league.currentSeason} aperto`,
+    data: market,
+  }
+}
+
+// ==================== ARCHIVIO ====================
+
+function isJsonObject(value: Prisma.JsonValue): value is Prisma.JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function toStandingsSource(value: string): StandingsSource {
+  return value === 'IMPORT' || value === 'MATCHDAYS' ? value : 'NONE'
+}
+
+function toStandingEntries(value: Prisma.JsonValue): SeasonStandingEntry[] {
+  if (!Array.isArray(value)) return []
+  return value.filter(isJsonObject).flatMap(e =>
+    typeof e.memberId === 'string' && typeof e.rank === 'number'
+      ? [{
+          memberId: e.memberId,
+          teamName: typeof e.teamName === 'string' ? e.teamName : null,
+          username: typeof e.username === 'string' ? e.username : '',
+          rank: e.rank,
+          points: typeof e.points === 'number' ? e.points : 0,
+        }]
+      : []
+  )
+}
+
+export async function getSeasonArchives(leagueId: string, userId: string): Promise<ServiceResult> {
+  const member = await prisma.leagueMember.findFirst({
+    where: { leagueId, userId, status: MemberStatus.ACTIVE },
+  })
+  if (!member) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  const archives = await prisma.seasonArchive.findMany({
+    where: { leagueId },
+    orderBy: { season: 'desc' },
+    include: { closedBy: { select: { username: true } } },
+  })
+
+  const summaries: SeasonArchiveSummary[] = archives.map(a => {
+    const report = isJsonObject(a.report) ? a.report : {}
+    return {
+      id: a.id,
+      season: a.season,
+      standingsSource: toStandingsSource(a.standingsSource),
+      standings: toStandingEntries(a.standings),
+      policy: resolveSeasonBudgetPolicy(a.budgetPolicy),
+      nextSessionId: a.nextSessionId,
+      nextSessionError: typeof report.nextSessionError === 'string' ? report.nextSessionError : null,
+      closedBy: a.closedBy,
+      createdAt: a.createdAt.toISOString(),
+    }
+  })
+
+  return { success: true, data: summaries }
+}
@@ -0,0 +1,176 @@
+/**
+ * session.service.ts - Sessioni attive e dispositivi dell'utente
+ *
+ * Ogni login apre una famiglia di refresh token (familyId) che ruota a ogni
+ * refresh: il token non revocato della famiglia rappresenta la sessione, con
+ * dispositivo, IP e ultimo utilizzo. L'utente può revocare una sessione o
+ * tutte le altre; un login da un dispositivo mai visto e il riuso di un
+ * refresh token già ruotato generano un'email di sicurezza. Le revoche
+ * esplicite registrano il motivo (revokedReason): un refresh con quei token
+ * chiude la richiesta senza avviso.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { ServiceResult } from '@/shared/types/service-result'
+import type { SecurityAlertType } from '../modules/identity/domain/services/email.service.interface'
+import { createEmailService } from '../modules/identity/infrastructure/services/email.factory'
+import { describeUserAgent } from '../utils/user-agent'
+
+const MAX_USER_AGENT_LENGTH = 255
+
+/**
+ * Dispositivo da cui arriva la richiesta (dal request context)
+ */
+export interface SessionClient {
+  userAgent?: string | null
+  ipAddress?: string | null
+}
+
+// Motivi di revoca esplicita; i token ruotati non ne hanno
+export type RefreshTokenRevokeReason = 'USER_REVOKED' | 'LOGOUT' | 'TWO_FACTOR_SETUP'
+
+export interface ActiveSession {
+  id: string              // familyId
+  device: string
+  userAgent: string | null
+  ipAddress: string | null
+  lastUsedAt: Date
+  createdAt: Date
+  current: boolean
+}
+
+export function normalizeUserAgent(userAgent?: string | null): string | null {
+  return userAgent ? userAgent.slice(0, MAX_USER_AGENT_LENGTH) : null
+}
+
+// ==================== SESSIONI ====================
+
+/**
+ * Sessioni non revocate e non scadute, dalla più recente. currentFamilyId è la
+ * famiglia del refresh token della richiesta, marcata come sessione corrente.
+ */
+export async function listActiveSessions(userId: string, currentFamilyId?: string): Promise<ServiceResult> {
+  const tokens = await prisma.refreshToken.findMany({
+    where: { userId, isRevoked: false, expiresAt: { gt: new Date() } },
+    orderBy: { createdAt: 'desc' },
+  })
+
+  // Con refresh concorrenti una famiglia può avere più token attivi: vale il più recente
+  const sessions = new Map<string, ActiveSession>()
+  for (const token of tokens) {
+    if (sessions.has(token.familyId)) continue
+    sessions.set(token.familyId, {
+      id: token.familyId,
+      device: describeUserAgent(token.userAgent),
+      userAgent: token.userAgent,
+      ipAddress: token.ipAddress,
+      lastUsedAt: token.createdAt,
+      createdAt: token.sessionStartedAt,
+      current: token.familyId === currentFamilyId,
+    })
+  }
+
+  return { success: true, data: [...sessions.values()] }
+}
+
+/**
+ * Revoca una sessione diversa da quella corrente (per quella c'è il logout)
+ */
+export async function revokeSession(userId: string, familyId: string, currentFamilyId?: string): Promise<ServiceResult> {
+  if (familyId === currentFamilyId) {
+    return { success: false, message: 'Per chiudere la sessione corrente usa il logout' }
+  }
+
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { userId, familyId, isRevoked: false },
+    data: { isRevoked: true, revokedReason: 'USER_REVOKED' satisfies RefreshTokenRevokeReason },
+  })
+
+  if (count === 0) {
+    return { success: false, message: 'Sessione non trovata' }
+  }
+
+  return { success: true, message: 'Sessione revocata' }
+}
+
+/**
+ * Revoca tutte le sessioni tranne quella corrente
+ */
+export async function revokeOtherSessions(userId: string, currentFamilyId?: string): Promise<ServiceResult> {
+  const activeFamilies = await prisma.refreshToken.findMany({
+    where: {
+      userId,
+      isRevoked: false,
+      expiresAt: { gt: new Date() },
+      ...(currentFamilyId && { familyId: { not: currentFamilyId } }),
+    },
+    select: { familyId: true },
+    distinct: ['familyId'],
+  })
+
+  if (activeFamilies.length === 0) {
+    return { success: true, message: 'Nessun\'altra sessione attiva', data: { revoked: 0 } }
+  }
+
+  await prisma.refreshToken.updateMany({
+    where: { userId, familyId: { in: activeFamilies.map(f => f.familyId) }, isRevoked: false },
+    data: { isRevoked: true, revokedReason: 'USER_REVOKED' satisfies RefreshTokenRevokeReason },
+  })
+
+  return {
+    success: true,
+    message: `${activeFamilies.length} sessioni revocate`,
+    data: { revoked: activeFamilies.length },
+  }
+}
+
+// ==================== AVVISI DI SICUREZZA ====================
+
+/**
+ * Un dispositivo è nuovo se l'utente ha già sessioni registrate con user agent
+ * ma nessuna con questo. Il primo login in assoluto (o il primo dopo
+ * l'introduzione del tracciamento) non genera avvisi.
+ */
+export async function isNewDevice(userId: string, userAgent?: string | null): Promise<boolean> {
+  const normalized = normalizeUserAgent(userAgent)
+  if (!normalized) return false
+
+  const known = await prisma.refreshToken.findMany({
+    where: { userId, userAgent: { not: null } },
+    select: { userAgent: true },
+    distinct: ['userAgent'],
+  })
+
+  return known.length > 0 && !known.some(token => token.userAgent === normalized)
+}
+
+/**
+ * Email di sicurezza all'utente: un errore di invio non blocca la richiesta
+ */
+export async function sendSecurityAlert(
+  userId: string,
+  alertType: SecurityAlertType,
+  client: SessionClient
+): Promise<void> {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true },
+    })
+    if (!user) return
+
+    const baseUrl = process.env.FRONTEND_URL || 'http://localhost:5173'
+    await createEmailService().sendSecurityAlertEmail(
+      user.email,
+      alertType,
+      describeUserAgent(client.userAgent),
+      client.ipAddress ?? null,
+      new Date(),
+      `${baseUrl}/profile`
+    )
+  } catch (err) {
+    console.error('Send security alert error:', err)
+  }
+}
@@ -0,0 +1,395 @@
+/**
+ * standings-import.service.ts - Import classifiche e risultati
+ *
+ * L'admin di lega carica un file CSV/XLSX esportato da un'app di fantacalcio
+ * esterna: prima analizza il file (fogli, intestazioni, mappatura proposta e
+ * report di validazione), poi conferma l'import con la mappatura scelta e gli
+ * eventuali abbinamenti manuali delle squadre (obbligatori per gli abbinamenti
+ * incerti). Ogni import resta nello storico ed è legato alla stagione della
+ * lega (League.currentSeason): la classifica "reale" usata da premi, dashboard
+ * e cambio stagione è l'ultima classifica generale della stagione o, in
+ * mancanza, la somma dei risultati per giornata importati.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { MemberRole, MemberStatus, type Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import * as XLSX from 'xlsx'
+import type { ServiceResult } from '@/shared/types/service-result'
+import { logAction } from './admin.service'
+import {
+  buildImportReport,
+  missingRequiredFields,
+  suggestColumnMapping,
+  STANDINGS_FIELDS,
+  type ColumnMapping,
+  type StandingsImportKind,
+  type TeamCandidate,
+} from '../utils/standings-import'
+
+// Righe del file mostrate in anteprima nello step di mappatura
+const SAMPLE_ROWS = 5
+
+export interface StandingsFileOptions {
+  kind: StandingsImportKind
+  sheetName?: string
+  mapping?: ColumnMapping
+  overrides?: Record<string, string>
+}
+
+export interface ImportedStandingEntry {
+  memberId: string
+  teamName: string | null
+  username: string
+  points: number
+  rank: number
+  roundsPlayed: number
+}
+
+export interface ImportedStandings {
+  // Per i RESULTS: l'ultimo degli import aggregati
+  importId: string
+  kind: StandingsImportKind
+  season: number
+  fileName: string
+  importedAt: Date
+  entries: ImportedStandingEntry[]
+}
+
+type SheetCell = string | number | boolean | null
+
+async function getLeagueAdmin(leagueId: string, userId: string) {
+  return prisma.leagueMember.findFirst({
+    where: {
+      leagueId,
+      userId,
+      role: MemberRole.ADMIN,
+      status: MemberStatus.ACTIVE,
+    },
+  })
+}
+
+async function getCurrentSeason(leagueId: string): Promise<number | null> {
+  const league = await prisma.league.findUnique({
+    where: { id: leagueId },
+    select: { currentSeason: true },
+  })
+  return league?.currentSeason ?? null
+}
+
+async function getTeamCandidates(leagueId: string): Promise<TeamCandidate[]> {
+  const members = await prisma.leagueMember.findMany({
+    where: { leagueId, status: MemberStatus.ACTIVE },
+    select: { id: true, teamName: true, user: { select: { username: true } } },
+    orderBy: { teamName: 'asc' },
+  })
+  return members.map(m => ({ memberId: m.id, teamName: m.teamName, username: m.user.username }))
+}
+
+/**
+ * Legge il foglio richiesto (default: il primo). L'intestazione è la prima
+ * riga con almeno due celle valorizzate: gli export spesso hanno un titolo sopra.
+ */
+function readSheet(fileBuffer: Buffer, sheetName?: string): {
+  sheetNames: string[]
+  sheetName: string
+  headers: string[]
+  headerRow: number
+  rows: Array<Record<string, SheetCell>>
+} | { error: string } {
+  let workbook: XLSX.WorkBook
+  try {
+    workbook = XLSX.read(fileBuffer, { type: 'buffer' })
+  } catch {
+    return { error: 'File non leggibile: carica un file .xlsx o .csv' }
+  }
+
+  const name = sheetName ?? workbook.SheetNames[0]
+  const sheet = name ? workbook.Sheets[name] : undefined
+  if (!name || !sheet) {
+    return { error: `Foglio "${sheetName ?? ''}" non trovato. Fogli disponibili: ${workbook.SheetNames.join(', ')}` }
+  }
+
+  const matrix = XLSX.utils.sheet_to_json<SheetCell[]>(sheet, { header: 1, blankrows: false, defval: null })
+  const headerIndex = matrix.findIndex(r => r.filter(c => c !== null && String(c).trim() !== '').length >= 2)
+  if (headerIndex === -1) {
+    return { error: 'Nessuna intestazione trovata nel file' }
+  }
+
+  const headers = (matrix[headerIndex] ?? []).map((h, i) => (h === null ? `Colonna ${i + 1}` : String(h).trim()))
+  const rows = matrix
+    .slice(headerIndex + 1)
+    .map(r => Object.fromEntries(headers.map((h, i) => [h, r[i] ?? null])))
+
+  return { sheetNames: workbook.SheetNames, sheetName: name, headers, headerRow: headerIndex + 1, rows }
+}
+
+// ==================== ANALISI FILE ====================
+
+/**
+ * Step di mappatura: intestazioni del file, mappatura proposta (o quella
+ * scelta dall'admin) e, se i campi obbligatori sono mappati, il report di
+ * validazione con gli abbinamenti delle squadre. Non salva nulla.
+ */
+export async function analyzeStandingsFile(
+  leagueId: string,
+  userId: string,
+  fileBuffer: Buffer,
+  options: StandingsFileOptions
+): Promise<ServiceResult> {
+  const admin = await getLeagueAdmin(leagueId, userId)
+  if (!admin) {
+    return { success: false, message: 'Non autorizzato' }
+  }
+
+  const sheet = readSheet(fileBuffer, options.sheetName)
+  if ('error' in sheet) {
+    return { success: false, message: sheet.error }
+  }
+
+  const mapping = options.mapping ?? suggestColumnMapping(sheet.headers)
+  const missingFields = missingRequiredFields(options.kind, mapping)
+  const members = await getTeamCandidates(leagueId)
+
+  return {
+    success: true,
+    data: {
+      sheetNames: sheet.sheetNames,
+      sheetName: sheet.sheetName,
+      headers: sheet.headers,
+      sample: sheet.rows.slice(0, SAMPLE_ROWS),
+      mapping,
+      missingFields: missingFields.map(f => STANDINGS_FIELDS[f].label),
+      members,
+      report: missingFields.length === 0
+        ? buildImportReport(sheet.rows, mapping, options.kind, members, options.overrides, sheet.headerRow)
+        : null,
+    },
+  }
+}
+
+// ==================== IMPORT ====================
+
+export async function importStandingsFile(
+  leagueId: string,
+  userId: string,
+  fileBuffer: Buffer,
+  options: StandingsFileOptions & { season?: number; fileName: string }
+): Promise<ServiceResult> {
+  const admin = await getLeagueAdmin(leagueId, userId)
+  if (!admin) {
+    return { success: false, message: 'Non autorizzato' }
+  }
+
+  const sheet = readSheet(fileBuffer, options.sheetName)
+  if ('error' in sheet) {
+    return { success: false, message: sheet.error }
+  }
+
+  const mapping = options.mapping ?? suggestColumnMapping(sheet.headers)
+  const missingFields = missingRequiredFields(options.kind, mapping)
+  if (missingFields.length > 0) {
+    return {
+      success: false,
+      message: `Colonne non mappate: ${missingFields.map(f => STANDINGS_FIELDS[f].label).join(', ')}`,
+    }
+  }
+
+  const members = await getTeamCandidates(leagueId)
+  const report = buildImportReport(sheet.rows, mapping, options.kind, members, options.overrides, sheet.headerRow)
+
+  if (report.rows.length === 0) {
+    return { success: false, message: 'Nessuna riga valida nel file', data: { report } }
+  }
+
+  // Gli abbinamenti per somiglianza vanno confermati (abbinamento manuale) prima dell'import
+  if (report.unconfirmedTeams.length > 0) {
+    return {
+      success: false,
+      message: `Conferma gli abbinamenti da verificare: ${report.unconfirmedTeams.join(', ')}`,
+      data: { report },
+    }
+  }
+
+  const currentSeason = await getCurrentSeason(leagueId)
+  if (currentSeason === null) {
+    return { success: false, message: 'Lega non trovata' }
+  }
+
+  const season = options.season ?? currentSeason
+  if (season > currentSeason) {
+    return { success: false, message: `Stagione non valida: la stagione corrente è la ${currentSeason}` }
+  }
+  const standingsImport = await prisma.standingsImport.create({
+    data: {
+      leagueId,
+      uploadedById: userId,
+      kind: options.kind,
+      season,
+      fileName: options.fileName,
+      sheetName: sheet.sheetName,
+      columnMapping: mapping as Prisma.InputJsonValue,
+      rowsImported: report.rows.length,
+      totalProcessed: report.totalProcessed,
+      errors: report.errors.length > 0 ? report.errors.slice(0, 50) : undefined,
+      entries: {
+        create: report.rows.map(r => ({
+          memberId: r.memberId,
+          sourceTeam: r.sourceTeam,
+          round: r.round,
+          points: r.points,
+          rank: r.rank,
+        })),
+      },
+    },
+  })
+
+  await logAction(userId, leagueId, 'STANDINGS_IMPORT', 'StandingsImport', standingsImport.id, undefined, {
+    kind: options.kind,
+    season,
+    fileName: options.fileName,
+    rowsImported: report.rows.length,
+    errors: report.errors.length,
+  })
+
+  return {
+    success: true,
+    message: `Import completato: ${report.rows.length} righe importate${report.errors.length > 0 ? `, ${report.errors.length} scartate` : ''}`,
+    data: {
+      importId: standingsImport.id,
+      rowsImported: report.rows.length,
+      totalProcessed: report.totalProcessed,
+      errors: report.errors.length > 0 ? report.errors.slice(0, 50) : undefined,
+      missingMembers: report.missingMembers,
+    },
+  }
+}
+
+// ==================== STORICO ====================
+
+export async function getStandingsImports(leagueId: string, userId: string): Promise<ServiceResult> {
+  const admin = await getLeagueAdmin(leagueId, userId)
+  if (!admin) {
+    return { success: false, message: 'Non autorizzato' }
+  }
+
+  const imports = await prisma.standingsImport.findMany({
+    where: { leagueId },
+    include: { uploadedBy: { select: { username: true } } },
+    orderBy: { createdAt: 'desc' },
+    take: 50,
+  })
+
+  return {
+    success: true,
+    data: imports.map(i => ({
+      id: i.id,
+      kind: i.kind,
+      season: i.season,
+      fileName: i.fileName,
+      sheetName: i.sheetName,
+      rowsImported: i.rowsImported,
+      totalProcessed: i.totalProcessed,
+      errors: i.errors,
+      uploadedBy: i.uploadedBy.username,
+      createdAt: i.createdAt,
+    })),
+  }
+}
+
+// ==================== CLASSIFICA IMPORTATA ====================
+
+const importedEntriesInclude = {
+  entries: {
+    include: { member: { select: { teamName: true, status: true, user: { select: { username: true } } } } },
+  },
+} satisfies Prisma.StandingsImportInclude
+
+/**
+ * Classifica importata della stagione di lega (default: la corrente).
+ * Vale l'ultima classifica generale (STANDINGS); in mancanza si sommano
+ * i RESULTS di tutti gli import della stagione, dove un import più recente
+ * sostituisce i punti della stessa giornata.
+ * Non verifica i permessi: usata anche dalle regole premio.
+ */
+export async function getImportedStandings(leagueId: string, season?: number): Promise<ImportedStandings | null> {
+  const targetSeason = season ?? await getCurrentSeason(leagueId)
+  if (targetSeason === null) return null
+
+  const standingsImport = await prisma.standingsImport.findFirst({
+    where: { leagueId, season: targetSeason, kind: 'STANDINGS' },
+    orderBy: { createdAt: 'desc' },
+    include: importedEntriesInclude,
+  })
+
+  const imports = standingsImport
+    ? [standingsImport]
+    : await prisma.standingsImport.findMany({
+        where: { leagueId, season: targetSeason, kind: 'RESULTS' },
+        orderBy: { createdAt: 'asc' },
+        include: importedEntriesInclude,
+      })
+
+  const latest = imports[imports.length - 1]
+  if (!latest) return null
+
+  // memberId|giornata → riga dell'import più recente
+  const latestEntries = new Map<string, (typeof latest.entries)[number]>()
+  for (const entry of imports.flatMap(i => i.entries)) {
+    latestEntries.set(`${entry.memberId}|${entry.round ?? ''}`, entry)
+  }
+
+  const byMember = new Map<string, ImportedStandingEntry & { fileRank: number | null }>()
+  for (const entry of latestEntries.values()) {
+    if (entry.member.status !== MemberStatus.ACTIVE) continue
+    const current = byMember.get(entry.memberId) ?? {
+      memberId: entry.memberId,
+      teamName: entry.member.teamName,
+      username: entry.member.user.username,
+      points: 0,
+      rank: 0,
+      roundsPlayed: 0,
+      // La posizione del file vale solo per le classifiche complessive
+      fileRank: latest.kind === 'STANDINGS' ? entry.rank : null,
+    }
+    current.points += entry.points
+    current.roundsPlayed += entry.round !== null ? 1 : 0
+    byMember.set(entry.memberId, current)
+  }
+
+  // Posizione dal file se presente, altrimenti per punti (pari merito condividono il piazzamento)
+  const sorted = [...byMember.values()].sort((a, b) =>
+    a.fileRank !== null && b.fileRank !== null ? a.fileRank - b.fileRank : b.points - a.points
+  )
+  const entries = sorted.map(({ fileRank, ...entry }) => ({
+    ...entry,
+    points: Math.round(entry.points * 100) / 100,
+    rank: fileRank ?? sorted.findIndex(e => e.points === entry.points) + 1,
+  }))
+
+  return {
+    importId: latest.id,
+    kind: latest.kind,
+    season: latest.season,
+    fileName: latest.fileName,
+    importedAt: latest.createdAt,
+    entries,
+  }
+}
+
+export async function getLeagueImportedStandings(
+  leagueId: string,
+  userId: string,
+  season?: number
+): Promise<ServiceResult> {
+  const member = await prisma.leagueMember.findFirst({
+    where: { leagueId, userId, status: MemberStatus.ACTIVE },
+  })
+
+  if (!member) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  return { success: true, data: await getImportedStandings(leagueId, season) }
+}
@@ -1,7 +1,9 @@
-import type { Position, Prisma, PlayerExitReason } from '@prisma/client';
+import type { MovementType, Position, Prisma, PlayerExitReason, PlayerListStatus } from '@prisma/client';
 import { prisma } from '@/lib/prisma'
 import * as XLSX from 'xlsx'
 import type { ServiceResult } from '@/shared/types/service-result'
+import { classifyExit } from '../utils/exit-classifier'
+import type { ExitClassificationProposal } from '../utils/exit-classifier'
 
 // ==================== TYPES ====================
 
@@ -78,11 +80,102 @@ function getField(row: PlayerRow, ...keys: string[]): unknown {
   return undefined
 }
 
+type ExistingPlayer = {
+  id: string
+  externalId: string | null
+  name: string
+  team: string
+  position: Position
+  quotation: number
+  listStatus: PlayerListStatus
+  exitReason: PlayerExitReason | null
+  exitDate: Date | null
+}
+
+// Salvato in QuotazioniUpload.previousState
+interface UploadPreviousState {
+  createdIds: string[]
+  players: Array<Omit<ExistingPlayer, 'exitDate'> & { exitDate: string | null }>
+}
+
+type DiffField = 'name' | 'team' | 'position' | 'quotation' | 'listStatus'
+
+export interface QuotazioniDiff {
+  newPlayers: Array<{ name: string; team: string; position: Position; quotation: number }>
+  changedPlayers: Array<{
+    playerId: string
+    name: string
+    position: Position
+    changes: Partial<Record<DiffField, { from: string | number; to: string | number }>>
+  }>
+  // Giocatori che usciranno dalla lista: con contratti attivi andranno classificati
+  notInListPlayers: Array<{
+    playerId: string
+    name: string
+    team: string
+    position: Position
+    quotation: number
+    activeContracts: number
+  }>
+  unchangedCount: number
+}
+
+async function buildQuotazioniDiff(
+  toCreate: Array<{ name: string; team: string; position: Position; quotation: number }>,
+  toUpdate: Array<{ id: string; data: Record<DiffField, string | number> }>,
+  idsToMarkNotInList: string[],
+  byId: Map<string, ExistingPlayer>
+): Promise<QuotazioniDiff> {
+  const changedPlayers: QuotazioniDiff['changedPlayers'] = []
+  for (const { id, data } of toUpdate) {
+    const existing = byId.get(id)
+    if (!existing) continue
+    const changes: QuotazioniDiff['changedPlayers'][number]['changes'] = {}
+    for (const field of ['name', 'team', 'position', 'quotation', 'listStatus'] as DiffField[]) {
+      if (existing[field] !== data[field]) {
+        changes[field] = { from: existing[field], to: data[field] }
+      }
+    }
+    if (Object.keys(changes).length > 0) {
+      changedPlayers.push({ playerId: id, name: existing.name, position: existing.position, changes })
+    }
+  }
+
+  const contracts = idsToMarkNotInList.length > 0
+    ? await prisma.playerRoster.findMany({
+        where: { playerId: { in: idsToMarkNotInList }, status: 'ACTIVE', contract: { isNot: null } },
+        select: { playerId: true },
+      })
+    : []
+
+  return {
+    newPlayers: toCreate.map(({ name, team, position, quotation }) => ({ name, team, position, quotation })),
+    changedPlayers,
+    notInListPlayers: idsToMarkNotInList
+      .map(id => byId.get(id))
+      .filter((p): p is ExistingPlayer => !!p)
+      .map(p => ({
+        playerId: p.id,
+        name: p.name,
+        team: p.team,
+        position: p.position,
+        quotation: p.quotation,
+        activeContracts: contracts.filter(c => c.playerId === p.id).length,
+      })),
+    unchangedCount: toUpdate.length - changedPlayers.length,
+  }
+}
+
+/**
+ * Importa il file quotazioni. Con dryRun non scrive nulla e ritorna il diff
+ * (nuovi, modificati, in uscita dalla lista) da rivedere prima del commit.
+ */
 export async function importQuotazioni(
   userId: string,
   fileBuffer: Buffer,
   sheetName: string = 'Tutti',
-  fileName: string = 'quotazioni.xlsx'
+  fileName: string = 'quotazioni.xlsx',
+  dryRun: boolean = false
 ): Promise<ServiceResult> {
   // Verify superadmin
   const isSuperAdmin = await verifySuperAdmin(userId)
@@ -189,20 +282,32 @@ export async function importQuotazioni(
 
     // Load all existing players in ONE query
     const existingPlayers = await prisma.serieAPlayer.findMany({
-      select: { id: true, externalId: true, name: true, position: true, listStatus: true }
+      select: {
+        id: true,
+        externalId: true,
+        name: true,
+        team: true,
+        position: true,
+        quotation: true,
+        listStatus: true,
+        exitReason: true,
+        exitDate: true,
+      }
     })
 
     // Track IDs of players that were IN_LIST before this import (for NOT_IN_LIST marking)
     const previouslyInListIds = new Set<string>()
 
     // Create lookup maps for fast matching
-    const byExternalId = new Map<string, { id: string; externalId: string | null; name: string; position: Position }>()
-    const byNamePosition = new Map<string, { id: string; externalId: string | null; name: string; position: Position }>()
+    const byId = new Map<string, ExistingPlayer>()
+    const byExternalId = new Map<string, ExistingPlayer>()
+    const byNamePosition = new Map<string, ExistingPlayer>()
 
     for (const p of existingPlayers) {
       if (p.listStatus === 'IN_LIST') {
         previouslyInListIds.add(p.id)
       }
+      byId.set(p.id, p)
       if (p.externalId) {
         byExternalId.set(p.externalId, p)
       }
@@ -263,14 +368,34 @@ export async function importQuotazioni(
       }
     }
 
+    // Only affect players that were IN_LIST BEFORE this import and weren't updated
+    const idsToMarkNotInList = Array.from(previouslyInListIds).filter(id => !processedIds.has(id))
+
+    if (dryRun) {
+      const diff = await buildQuotazioniDiff(toCreate, toUpdate, idsToMarkNotInList, byId)
+      return {
+        success: true,
+        message: `Anteprima: ${diff.newPlayers.length} nuovi, ${diff.changedPlayers.length} modificati, ${diff.notInListPlayers.length} non più in lista`,
+        data: {
+          dryRun: true,
+          ...diff,
+          errors: stats.errors.length > 0 ? stats.errors.slice(0, 10) : undefined,
+          totalProcessed: rows.length,
+        },
+      }
+    }
+
     // Execute all operations in a transaction
     await prisma.$transaction(async (tx) => {
       // Batch create new players
+      let createdIds: string[] = []
       if (toCreate.length > 0) {
-        await tx.serieAPlayer.createMany({
+        const created = await tx.serieAPlayer.createManyAndReturn({
           data: toCreate,
           skipDuplicates: true,
+          select: { id: true },
         })
+        createdIds = created.map(p => p.id)
         stats.created = toCreate.length
       }
 
@@ -288,8 +413,6 @@ export async function importQuotazioni(
       stats.updated = toUpdate.length
 
       // Mark players not in new list as NOT_IN_LIST
-      // Only affect players that were IN_LIST BEFORE this import and weren't updated
-      const idsToMarkNotInList = Array.from(previouslyInListIds).filter(id => !processedIds.has(id))
       if (idsToMarkNotInList.length > 0) {
         const notInListResult = await tx.serieAPlayer.updateMany({
           where: {
@@ -300,8 +423,17 @@ export async function importQuotazioni(
         stats.notInList = notInListResult.count
       }
 
+      // Values before this import, restored by rollbackLastQuotazioniUpload
+      const previousState: UploadPreviousState = {
+        createdIds,
+        players: [...toUpdate.map(u => u.id), ...idsToMarkNotInList]
+          .map(id => byId.get(id))
+          .filter((p): p is ExistingPlayer => !!p)
+          .map(p => ({ ...p, exitDate: p.exitDate?.toISOString() ?? null })),
+      }
+
       // Save upload record
-      await tx.quotazioniUpload.create({
+      const upload = await tx.quotazioniUpload.create({
         data: {
           uploadedById: userId,
           fileName,
@@ -311,8 +443,24 @@ export async function importQuotazioni(
           playersNotInList: stats.notInList,
           totalProcessed: rows.length,
           errors: stats.errors.length > 0 ? stats.errors.slice(0, 10) : undefined,
+          previousState: previousState as unknown as Prisma.InputJsonValue,
         },
       })
+
+      // Snapshot quotations of every player in list, linked to this upload
+      const inListPlayers = await tx.serieAPlayer.findMany({
+        where: { listStatus: 'IN_LIST' },
+        select: { id: true, quotation: true },
+      })
+      await tx.playerQuotationHistory.createMany({
+        data: inListPlayers.map(p => ({
+          playerId: p.id,
+          uploadId: upload.id,
+          quotation: p.quotation,
+          recordedAt: upload.createdAt,
+        })),
+        skipDuplicates: true,
+      })
     }, { timeout: 25000 }) // 25 second timeout for transaction
 
     // After import, find players that need exit classification
@@ -339,6 +487,147 @@ export async function importQuotazioni(
   }
 }
 
+// ==================== ROLLBACK QUOTAZIONI ====================
+
+function parsePreviousState(value: Prisma.JsonValue | null): UploadPreviousState | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const state = value as unknown as UploadPreviousState
+  return Array.isArray(state.createdIds) && Array.isArray(state.players) ? state : null
+}
+
+// Movimenti che chiudono o indennizzano un contratto per l'uscita del giocatore
+const EXIT_MOVEMENT_TYPES: MovementType[] = [
+  'RELEASE',
+  'RETIREMENT',
+  'RELEGATION_RELEASE',
+  'RELEGATION_KEEP',
+  'ABROAD_COMPENSATION',
+  'ABROAD_KEEP',
+]
+
+/**
+ * Giocatori dell'upload su cui sono state fatte operazioni dopo il caricamento:
+ * classificazione dell'uscita, svincoli o decisioni di indennizzo. Il rollback
+ * ne riporterebbe lo stato lista senza annullare quelle operazioni.
+ */
+async function findPlayersChangedAfterUpload(
+  playerIds: string[],
+  since: Date
+): Promise<Array<{ playerId: string; name: string; changes: string[] }>> {
+  const [classified, movements, decisions] = await Promise.all([
+    prisma.serieAPlayer.findMany({
+      where: { id: { in: playerIds }, exitDate: { gt: since } },
+      select: { id: true, name: true },
+    }),
+    prisma.playerMovement.findMany({
+      where: { playerId: { in: playerIds }, movementType: { in: EXIT_MOVEMENT_TYPES }, createdAt: { gt: since } },
+      select: { playerId: true, movementType: true, player: { select: { name: true } } },
+    }),
+    prisma.indemnityDecision.findMany({
+      where: { playerId: { in: playerIds }, decidedAt: { gt: since } },
+      select: { playerId: true, player: { select: { name: true } } },
+    }),
+  ])
+
+  const affected = new Map<string, { playerId: string; name: string; changes: string[] }>()
+  const add = (playerId: string, name: string, change: string) => {
+    const entry = affected.get(playerId) ?? { playerId, name, changes: [] }
+    if (!entry.changes.includes(change)) entry.changes.push(change)
+    affected.set(playerId, entry)
+  }
+  for (const player of classified) add(player.id, player.name, 'classificato')
+  for (const movement of movements) {
+    add(movement.playerId, movement.player.name, movement.movementType === 'RELEASE' ? 'svincolato' : 'uscita applicata')
+  }
+  for (const decision of decisions) add(decision.playerId, decision.player.name, 'indennizzo deciso')
+
+  return [...affected.values()]
+}
+
+/**
+ * Annulla l'ultimo upload non ancora annullato: i giocatori modificati tornano
+ * ai valori precedenti (quotazione, squadra, ruolo, stato lista, motivo uscita)
+ * e quelli creati escono dalla lista. Ripetibile sugli upload precedenti.
+ * Rifiutato se nel frattempo qualche giocatore dell'upload è stato
+ * classificato, svincolato o indennizzato: la risposta li elenca.
+ */
+export async function rollbackLastQuotazioniUpload(userId: string): Promise<ServiceResult> {
+  const isSuperAdmin = await verifySuperAdmin(userId)
+  if (!isSuperAdmin) {
+    return { success: false, message: 'Non autorizzato. Solo i superadmin possono annullare un caricamento.' }
+  }
+
+  const upload = await prisma.quotazioniUpload.findFirst({
+    where: { rolledBackAt: null },
+    orderBy: { createdAt: 'desc' },
+  })
+  if (!upload) {
+    return { success: false, message: 'Nessun caricamento da annullare' }
+  }
+
+  const previousState = parsePreviousState(upload.previousState)
+  if (!previousState) {
+    return { success: false, message: 'Questo caricamento è precedente al rollback in app e non può essere annullato' }
+  }
+
+  const affectedPlayers = await findPlayersChangedAfterUpload(
+    [...previousState.players.map(p => p.id), ...previousState.createdIds],
+    upload.createdAt
+  )
+  if (affectedPlayers.length > 0) {
+    return {
+      success: false,
+      message: `Impossibile annullare "${upload.fileName}": dopo il caricamento ci sono state operazioni su ${affectedPlayers.length} giocatori (${affectedPlayers.map(p => `${p.name}: ${p.changes.join(', ')}`).join('; ')})`,
+      data: { uploadId: upload.id, affectedPlayers },
+    }
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const CHUNK_SIZE = 50
+      for (let i = 0; i < previousState.players.length; i += CHUNK_SIZE) {
+        const chunk = previousState.players.slice(i, i + CHUNK_SIZE)
+        await Promise.all(
+          chunk.map(({ id, exitDate, ...values }) => tx.serieAPlayer.updateMany({
+            where: { id },
+            data: { ...values, exitDate: exitDate ? new Date(exitDate) : null },
+          }))
+        )
+      }
+
+      // Players created by the upload didn't exist before: take them out of the list
+      if (previousState.createdIds.length > 0) {
+        await tx.serieAPlayer.updateMany({
+          where: { id: { in: previousState.createdIds } },
+          data: { listStatus: 'NOT_IN_LIST' },
+        })
+      }
+
+      await tx.playerQuotationHistory.deleteMany({ where: { uploadId: upload.id } })
+
+      await tx.quotazioniUpload.update({
+        where: { id: upload.id },
+        data: { rolledBackAt: new Date(), rolledBackById: userId },
+      })
+    }, { timeout: 25000 })
+
+    return {
+      success: true,
+      message: `Caricamento "${upload.fileName}" annullato: ${previousState.players.length} giocatori ripristinati, ${previousState.createdIds.length} nuovi rimossi dalla lista`,
+      data: {
+        uploadId: upload.id,
+        restored: previousState.players.length,
+        removed: previousState.createdIds.length,
+      },
+    }
+  } catch (error) {
+    return {
+      success: false,
+      message: `Errore durante il rollback: ${error instanceof Error ? error.message : 'Errore sconosciuto'}`,
+    }
+  }
+}
+
 // ==================== DETECT PLAYERS NEEDING CLASSIFICATION ====================
 
 export async function detectPlayersNeedingClassification(): Promise<ExitedPlayerInfo[]> {
@@ -443,6 +732,87 @@ export async function classifyExitedPlayers(
   }
 }
 
+// ==================== EXIT CLASSIFICATION PROPOSALS ====================
+
+/**
+ * Proposte automatiche per i giocatori da classificare: club attuale da
+ * API-Football (lookup opzionale, consuma quota) e squadre ancora presenti
+ * nella lista quotazioni. Il superadmin conferma in blocco con classifyExitedPlayers.
+ */
+export async function getExitClassificationProposals(
+  userId: string,
+  options: { lookup?: boolean } = {}
+): Promise<ServiceResult> {
+  const isSuperAdmin = await verifySuperAdmin(userId)
+  if (!isSuperAdmin) {
+    return { success: false, message: 'Non autorizzato' }
+  }
+
+  const players = await detectPlayersNeedingClassification()
+  if (players.length === 0) {
+    return { success: true, data: { proposals: [], lookedUp: 0, skipped: 0, apiCallsUsed: 0 } }
+  }
+
+  const dbPlayers = await prisma.serieAPlayer.findMany({
+    where: { id: { in: players.map(p => p.playerId) } },
+    select: { id: true, age: true, apiFootballId: true },
+  })
+  const dbById = new Map(dbPlayers.map(p => [p.id, p]))
+  const apiIds = dbPlayers.flatMap(p => (p.apiFootballId !== null ? [p.apiFootballId] : []))
+
+  let lookup = { lookedUp: 0, skipped: 0, apiCallsUsed: 0 }
+  if (options.lookup && apiIds.length > 0) {
+    try {
+      const { lookupCurrentClubs } = await import('./api-football.service')
+      lookup = await lookupCurrentClubs(apiIds)
+    } catch (error) {
+      return {
+        success: false,
+        message: `Errore API-Football: ${error instanceof Error ? error.message : 'Errore sconosciuto'}`,
+      }
+    }
+  }
+
+  const [caches, teamsInList] = await Promise.all([
+    prisma.apiFootballPlayerCache.findMany({ where: { id: { in: apiIds } } }),
+    prisma.serieAPlayer.findMany({
+      where: { listStatus: 'IN_LIST' },
+      select: { team: true },
+      distinct: ['team'],
+    }),
+  ])
+  const cacheById = new Map(caches.map(c => [c.id, c]))
+  const listedTeams = new Set(teamsInList.map(t => t.team))
+  const now = new Date()
+
+  const proposals: ExitClassificationProposal[] = players.map(player => {
+    const db = dbById.get(player.playerId)
+    const cache = db?.apiFootballId != null ? cacheById.get(db.apiFootballId) : undefined
+    const proposal = classifyExit({
+      age: cache?.age ?? db?.age ?? null,
+      previousTeam: player.team,
+      previousTeamOutOfList: !listedTeams.has(player.team),
+      club: cache?.lookedUpAt
+        ? {
+            team: cache.leagueId !== null ? cache.team : null,
+            leagueId: cache.leagueId,
+            leagueName: cache.leagueName,
+            leagueCountry: cache.leagueCountry,
+            lookedUpAt: cache.lookedUpAt,
+          }
+        : null,
+    }, now)
+
+    return { playerId: player.playerId, apiFootballId: db?.apiFootballId ?? null, ...proposal }
+  })
+
+  return {
+    success: true,
+    ...(options.lookup && { message: `${lookup.lookedUp} giocatori cercati su API-Football (${lookup.apiCallsUsed} chiamate)` }),
+    data: { proposals, ...lookup },
+  }
+}
+
 // ==================== GET PLAYERS NEEDING CLASSIFICATION ====================
 
 export async function getPlayersNeedingClassification(userId: string): Promise<ServiceResult> {
@@ -479,21 +849,44 @@ export async function getUploadHistory(userId: string): Promise<ServiceResult> {
   }
 
   const uploads = await prisma.quotazioniUpload.findMany({
-    include: {
+    select: {
+      id: true,
+      fileName: true,
+      sheetName: true,
+      playersCreated: true,
+      playersUpdated: true,
+      playersNotInList: true,
+      totalProcessed: true,
+      errors: true,
+      createdAt: true,
+      rolledBackAt: true,
       uploadedBy: {
         select: {
           id: true,
           username: true,
         },
       },
+      rolledBackBy: {
+        select: { username: true },
+      },
     },
     orderBy: { createdAt: 'desc' },
     take: 50, // Last 50 uploads
   })
 
+  // Only the latest upload still in effect can be rolled back, if it saved its previous state
+  const rollbackCandidate = uploads.find(u => !u.rolledBackAt)
+  const candidateState = rollbackCandidate
+    ? await prisma.quotazioniUpload.findUnique({ where: { id: rollbackCandidate.id }, select: { previousState: true } })
+    : null
+  const canRollback = !!candidateState && parsePreviousState(candidateState.previousState) !== null
+
   return {
     success: true,
-    data: { uploads },
+    data: {
+      uploads,
+      rollbackUploadId: canRollback ? rollbackCandidate!.id : null,
+    },
   }
 }
 
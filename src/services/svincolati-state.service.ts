@@ -0,0 +1,182 @@
+/**
+ * svincolati-state.service.ts - Stato normalizzato della fase svincolati
+ *
+ * Ordine turni e stato per-manager (SvincolatiTurnOrder: pronto, passato,
+ * finito, conferme). I dichiarati "finito" o "passo" aggiornano solo la riga
+ * del manager, senza riscrivere array JSON condivisi su MarketSession.
+ *
+ * Le funzioni di scrittura accettano il client della transazione in corso.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import type { Prisma, SvincolatiTurnOrder } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+// ==================== TIPI ====================
+
+/** Vista dello stato turni con gli stessi array esposti dall'API */
+export interface SvincolatiTurnState {
+  turnOrder: string[]
+  readyMembers: string[]
+  passedMembers: string[]
+  finishedMembers: string[]
+  acknowledgedMembers: string[]
+}
+
+/**
+ * Intestazione dell'asta chiusa in attesa di conferma, scritta una volta alla
+ * chiusura. Le conferme sono sulle righe SvincolatiTurnOrder.
+ */
+export interface SvincolatiPendingAckHeader {
+  auctionId: string
+  playerId: string
+  playerName: string
+  winnerId: string | null
+  winnerUsername: string | null
+  price: number
+  noBids: boolean
+  pendingMembers: string[] // Manager tenuti a confermare (ordine turni alla chiusura)
+}
+
+/** Relazioni da includere nelle query di MarketSession che leggono lo stato svincolati */
+export const svincolatiStateInclude = {
+  svincolatiTurns: { orderBy: { orderIndex: 'asc' } },
+} satisfies Prisma.MarketSessionInclude
+
+// ==================== LETTURA ====================
+
+export function toSvincolatiTurnState(turns: SvincolatiTurnOrder[]): SvincolatiTurnState {
+  const turnOrder = turns
+    .flatMap(t => (t.orderIndex !== null ? [{ memberId: t.memberId, orderIndex: t.orderIndex }] : []))
+    .sort((a, b) => a.orderIndex - b.orderIndex)
+    .map(t => t.memberId)
+
+  return {
+    turnOrder,
+    readyMembers: turns.filter(t => t.isReady).map(t => t.memberId),
+    passedMembers: turns.filter(t => t.hasPassed).map(t => t.memberId),
+    finishedMembers: turns.filter(t => t.hasFinished).map(t => t.memberId),
+    acknowledgedMembers: turns.filter(t => t.acknowledgedAt !== null).map(t => t.memberId),
+  }
+}
+
+/** Rilegge lo stato turni della sessione */
+export async function loadSvincolatiTurnState(
+  sessionId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<SvincolatiTurnState> {
+  const turns = await db.svincolatiTurnOrder.findMany({ where: { sessionId } })
+  return toSvincolatiTurnState(turns)
+}
+
+// ==================== ORDINE ====================
+
+/**
+ * Imposta l'ordine turni: posizione per i manager indicati, fuori ordine gli
+ * altri. Pronti e passati vengono azzerati; i "finito" restano.
+ */
+export async function saveSvincolatiTurnOrder(
+  sessionId: string,
+  memberIds: string[],
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await db.svincolatiTurnOrder.updateMany({
+    where: { sessionId },
+    data: { orderIndex: null, isReady: false, readyAt: null, hasPassed: false },
+  })
+
+  for (const [orderIndex, memberId] of memberIds.entries()) {
+    await db.svincolatiTurnOrder.upsert({
+      where: { sessionId_memberId: { sessionId, memberId } },
+      create: { sessionId, memberId, orderIndex },
+      update: { orderIndex },
+    })
+  }
+}
+
+// ==================== PRONTI ====================
+
+/** Segna i manager come pronti (solo le loro righe) */
+export async function setSvincolatiMembersReady(
+  sessionId: string,
+  memberIds: string[],
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const readyAt = new Date()
+  for (const memberId of memberIds) {
+    await db.svincolatiTurnOrder.upsert({
+      where: { sessionId_memberId: { sessionId, memberId } },
+      create: { sessionId, memberId, isReady: true, readyAt },
+      update: { isReady: true, readyAt },
+    })
+  }
+}
+
+/** Azzera i pronti della sessione */
+export async function resetSvincolatiReadyMembers(
+  sessionId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await db.svincolatiTurnOrder.updateMany({
+    where: { sessionId, isReady: true },
+    data: { isReady: false, readyAt: null },
+  })
+}
+
+// ==================== PASSO / FINITO ====================
+
+export async function setSvincolatiMemberPassed(
+  sessionId: string,
+  memberId: string,
+  hasPassed: boolean,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await db.svincolatiTurnOrder.upsert({
+    where: { sessionId_memberId: { sessionId, memberId } },
+    create: { sessionId, memberId, hasPassed },
+    update: { hasPassed },
+  })
+}
+
+export async function setSvincolatiMembersFinished(
+  sessionId: string,
+  memberIds: string[],
+  hasFinished: boolean,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  for (const memberId of memberIds) {
+    await db.svincolatiTurnOrder.upsert({
+      where: { sessionId_memberId: { sessionId, memberId } },
+      create: { sessionId, memberId, hasFinished },
+      update: { hasFinished },
+    })
+  }
+}
+
+// ==================== CONFERME ====================
+
+/** Registra la conferma dell'asta chiusa da parte di un manager */
+export async function acknowledgeSvincolatiMember(
+  sessionId: string,
+  memberId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const acknowledgedAt = new Date()
+  await db.svincolatiTurnOrder.upsert({
+    where: { sessionId_memberId: { sessionId, memberId } },
+    create: { sessionId, memberId, acknowledgedAt },
+    update: { acknowledgedAt },
+  })
+}
+
+/** Azzera le conferme (nuova asta da confermare) */
+export async function resetSvincolatiAcknowledgements(
+  sessionId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await db.svincolatiTurnOrder.updateMany({
+    where: { sessionId },
+    data: { acknowledgedAt: null },
+  })
+}
@@ -1,48 +1,47 @@
 import type { Position } from '@prisma/client';
 import { MemberStatus, AuctionStatus, Prisma, RosterStatus } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
-import { recordMovement } from './movement.service'
 import { calculateDefaultSalary, calculateRescissionClause } from './contract.service'
-import { logAction } from './admin.service'
+import { resolveContractRuleset } from '../utils/contract-rules'
 import {
-  triggerSvincolatiNomination,
-  triggerSvincolatiBidPlaced,
-  triggerSvincolatiReadyChanged,
-  triggerSvincolatiAuctionClosed,
-  triggerSvincolatiTurnAdvanced,
-} from './pusher.service'
+  svincolatiStateInclude,
+  toSvincolatiTurnState,
+  loadSvincolatiTurnState,
+  saveSvincolatiTurnOrder,
+  setSvincolatiMembersReady,
+  resetSvincolatiReadyMembers,
+  setSvincolatiMemberPassed,
+  setSvincolatiMembersFinished,
+  acknowledgeSvincolatiMember,
+  resetSvincolatiAcknowledgements,
+  type SvincolatiPendingAckHeader,
+} from './svincolati-state.service'
+import { toRubataOrder } from './rubata-state.service'
+import { logAction } from './admin.service'
+import { captureState, recordCompensation } from './compensation.service'
+import { diffSnapshots } from '../utils/compensation'
+import { postSystemMessage } from './chat.service'
+import { DomainEventTypes } from '@/shared/infrastructure/events'
+import { publishDomainEvent } from './domain-events.service'
+import { triggerProxyBidding } from './proxy-bid.service'
+import { registerPresence, getPresenceStatus, clearPresence } from './presence.service'
 import type { ServiceResult } from '@/shared/types/service-result'
 
 
 // ==================== HEARTBEAT / CONNECTION STATUS ====================
 
-// In-memory storage for heartbeats (leagueId -> memberId -> timestamp)
-const svincolatiHeartbeats = new Map<string, Map<string, number>>()
+// Stanza degli svincolati: leagueId (see: presence.service.ts)
 
-// Heartbeat timeout in milliseconds (45 seconds — 1.5× the 30s client interval)
-const SVINCOLATI_HEARTBEAT_TIMEOUT = 45000
-
-export function registerSvincolatiHeartbeat(leagueId: string, memberId: string): void {
-  if (!svincolatiHeartbeats.has(leagueId)) {
-    svincolatiHeartbeats.set(leagueId, new Map())
-  }
-  svincolatiHeartbeats.get(leagueId)!.set(memberId, Date.now())
+export async function registerSvincolatiHeartbeat(leagueId: string, memberId: string): Promise<void> {
+  await registerPresence('SVINCOLATI', leagueId, memberId)
 }
 
-export function getSvincolatiConnectionStatus(leagueId: string): Map<string, boolean> {
-  const leagueHeartbeats = svincolatiHeartbeats.get(leagueId) || new Map()
-  const now = Date.now()
-  const status = new Map<string, boolean>()
-
-  leagueHeartbeats.forEach((timestamp, memberId) => {
-    status.set(memberId, now - timestamp < SVINCOLATI_HEARTBEAT_TIMEOUT)
-  })
-
-  return status
+export async function getSvincolatiConnectionStatus(leagueId: string): Promise<Map<string, boolean>> {
+  return getPresenceStatus('SVINCOLATI', leagueId)
 }
 
-export function clearSvincolatiHeartbeats(leagueId: string): void {
-  svincolatiHeartbeats.delete(leagueId)
+export async function clearSvincolatiHeartbeats(leagueId: string): Promise<void> {
+  await clearPresence('SVINCOLATI', leagueId)
 }
 
 // ==================== GET FREE AGENTS POOL ====================
@@ -146,17 +145,19 @@ export async function getTeams(): Promise<ServiceResult> {
 export async function bidOnFreeAgent(
   auctionId: string,
   userId: string,
-  amount: number
+  amount: number,
+  isProxy: boolean = false
 ): Promise<ServiceResult> {
   const auction = await prisma.auction.findUnique({
     where: { id: auctionId },
     include: {
       player: true,
+      league: true,
       bids: {
         orderBy: { amount: 'desc' },
         take: 1,
       },
-      marketSession: true,
+      marketSession: { include: svincolatiStateInclude },
     },
   })
 
@@ -187,11 +188,10 @@ export async function bidOnFreeAgent(
 
   // Check if member has declared finished or passed turn (can't bid anymore)
   if (auction.marketSession) {
-    const finishedMembers = (auction.marketSession.svincolatiFinishedMembers as string[] | null) || []
+    const { finishedMembers, passedMembers } = toSvincolatiTurnState(auction.marketSession.svincolatiTurns)
     if (finishedMembers.includes(bidder.id)) {
       return { success: false, message: 'Hai dichiarato di aver finito questa fase. Non puoi più fare offerte.' }
     }
-    const passedMembers = (auction.marketSession.svincolatiPassedMembers as string[] | null) || []
     if (passedMembers.includes(bidder.id)) {
       return { success: false, message: 'Hai rinunciato al turno. Non puoi più fare offerte.' }
     }
@@ -208,8 +208,9 @@ export async function bidOnFreeAgent(
     _sum: { salary: true },
   })
   const bilancioBid = bidder.currentBudget - (monteIngaggiBid._sum.salary || 0)
-  if (amount + calculateDefaultSalary(amount) > bilancioBid) {
-    return { success: false, message: `Budget insufficiente. Offerta massima: ${bilancioBid - calculateDefaultSalary(amount)}` }
+  const rules = resolveContractRuleset(auction.league.contractRuleset)
+  if (amount + calculateDefaultSalary(amount, rules) > bilancioBid) {
+    return { success: false, message: `Budget insufficiente. Offerta massima: ${bilancioBid - calculateDefaultSalary(amount, rules)}` }
   }
 
   // Check if this is a turn-based svincolati auction (no slot limits)
@@ -268,6 +269,7 @@ export async function bidOnFreeAgent(
         userId,
         amount,
         isWinning: true,
+        isProxy,
       },
     })
 
@@ -282,23 +284,27 @@ export async function bidOnFreeAgent(
     })
   })
 
-  // Trigger Pusher event for real-time bid (non-blocking)
+  // Broadcast Pusher del rilancio (sottoscrittori SVINCOLATI_BID_PLACED)
   const bidderWithUser = await prisma.leagueMember.findUnique({
     where: { id: bidder.id },
     include: { user: { select: { username: true } } },
   })
-  triggerSvincolatiBidPlaced(auction.marketSessionId ?? auctionId, {
-    sessionId: auction.marketSessionId ?? auctionId,
+  await publishDomainEvent(DomainEventTypes.SVINCOLATI_BID_PLACED, {
+    sessionId: auction.marketSessionId,
     auctionId,
     playerId: auction.playerId,
     playerName: auction.player.name,
     bidderId: bidder.id,
     bidderUsername: bidderWithUser?.user.username || 'Unknown',
     amount,
-    timerExpiresAt: newTimerExpires.toISOString(),
+    timerExpiresAt: newTimerExpires,
     timerSeconds,
-    timestamp: new Date().toISOString(),
-  }).catch(() => { /* Error intentionally silenced */ })
+  })
+
+  // Rilanci automatici degli altri manager (non per i rilanci automatici stessi)
+  if (!isProxy) {
+    await triggerProxyBidding(auctionId)
+  }
 
   return {
     success: true,
@@ -390,6 +396,7 @@ export async function setSvincolatiTurnOrder(
       status: 'ACTIVE',
       currentPhase: 'ASTA_SVINCOLATI',
     },
+    include: { rubataParticipants: true },
   })
 
   if (!activeSession) {
@@ -399,8 +406,8 @@ export async function setSvincolatiTurnOrder(
   // M-4: If no explicit order provided, auto-reverse rubata order
   let finalMemberIds = memberIds
   if (!memberIds || memberIds.length === 0) {
-    const rubataOrder = activeSession.rubataOrder as string[] | null
-    if (rubataOrder && rubataOrder.length > 0) {
+    const rubataOrder = toRubataOrder(activeSession.rubataParticipants)
+    if (rubataOrder.length > 0) {
       finalMemberIds = [...rubataOrder].reverse()
     } else {
       // Fallback: use all active members in default order
@@ -426,19 +433,19 @@ export async function setSvincolatiTurnOrder(
   }
 
   // Update session with turn order
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: {
-      svincolatiTurnOrder: finalMemberIds,
-      svincolatiCurrentTurnIndex: 0,
-      svincolatiState: 'READY_CHECK',
-      svincolatiReadyMembers: [],
-      svincolatiPassedMembers: [],
-      svincolatiPendingPlayerId: null,
-      svincolatiPendingNominatorId: null,
-      svincolatiNominatorConfirmed: false,
-      svincolatiPendingAck: Prisma.DbNull,
-    },
+  await prisma.$transaction(async (tx) => {
+    await tx.marketSession.update({
+      where: { id: activeSession.id },
+      data: {
+        svincolatiCurrentTurnIndex: 0,
+        svincolatiState: 'READY_CHECK',
+        svincolatiPendingPlayerId: null,
+        svincolatiPendingNominatorId: null,
+        svincolatiNominatorConfirmed: false,
+        svincolatiPendingAck: Prisma.DbNull,
+      },
+    })
+    await saveSvincolatiTurnOrder(activeSession.id, finalMemberIds, tx)
   })
 
   return {
@@ -474,6 +481,7 @@ export async function getSvincolatiBoard(
       status: 'ACTIVE',
       currentPhase: 'ASTA_SVINCOLATI',
     },
+    include: svincolatiStateInclude,
   })
 
   if (!activeSession) {
@@ -496,7 +504,8 @@ export async function getSvincolatiBoard(
   }
 
   // Get turn order members with usernames
-  const turnOrder = (activeSession.svincolatiTurnOrder as string[] | null) || []
+  const { turnOrder, readyMembers, passedMembers, finishedMembers, acknowledgedMembers } =
+    toSvincolatiTurnState(activeSession.svincolatiTurns)
   const turnOrderMembers = await prisma.leagueMember.findMany({
     where: { id: { in: turnOrder } },
     include: { user: { select: { username: true } } },
@@ -572,21 +581,18 @@ export async function getSvincolatiBoard(
     nominatorUsername = nominator?.user.username || null
   }
 
-  // Parse pending ack
-  const pendingAck = activeSession.svincolatiPendingAck as {
-    auctionId: string
-    playerId: string
-    playerName: string
-    winnerId: string | null
-    winnerUsername: string | null
-    price: number
-    noBids: boolean
-    acknowledgedMembers: string[]
-    pendingMembers: string[]
-  } | null
+  // Parse pending ack (confirmations are tracked per member on the turn rows)
+  const pendingAckHeader = activeSession.svincolatiPendingAck as SvincolatiPendingAckHeader | null
+  const pendingAck = pendingAckHeader
+    ? {
+        ...pendingAckHeader,
+        acknowledgedMembers,
+        pendingMembers: pendingAckHeader.pendingMembers.filter(id => !acknowledgedMembers.includes(id)),
+      }
+    : null
 
   // Get connection status for all managers
-  const connectionStatus = getSvincolatiConnectionStatus(leagueId)
+  const connectionStatus = await getSvincolatiConnectionStatus(leagueId)
 
   return {
     success: true,
@@ -598,7 +604,7 @@ export async function getSvincolatiBoard(
         id: m!.id,
         username: m!.user.username,
         budget: m!.currentBudget,
-        hasPassed: ((activeSession.svincolatiPassedMembers as string[] | null) || []).includes(m!.id),
+        hasPassed: passedMembers.includes(m!.id),
         isConnected: connectionStatus.get(m!.id) ?? false,
       })),
       currentTurnIndex,
@@ -607,10 +613,10 @@ export async function getSvincolatiBoard(
       myMemberId: member.id,
       isMyTurn: currentTurnMemberId === member.id,
       isAdmin: member.role === 'ADMIN',
-      readyMembers: (activeSession.svincolatiReadyMembers as string[] | null) || [],
-      passedMembers: (activeSession.svincolatiPassedMembers as string[] | null) || [],
-      finishedMembers: (activeSession.svincolatiFinishedMembers as string[] | null) || [],
-      isFinished: ((activeSession.svincolatiFinishedMembers as string[] | null) || []).includes(member.id),
+      readyMembers,
+      passedMembers,
+      finishedMembers,
+      isFinished: finishedMembers.includes(member.id),
       pendingPlayer,
       pendingNominatorId: activeSession.svincolatiPendingNominatorId,
       nominatorUsername,
@@ -652,6 +658,7 @@ export async function nominateFreeAgent(
       status: 'ACTIVE',
       currentPhase: 'ASTA_SVINCOLATI',
     },
+    include: svincolatiStateInclude,
   })
 
   if (!activeSession) {
@@ -664,7 +671,7 @@ export async function nominateFreeAgent(
   }
 
   // Check it's this member's turn
-  const turnOrder = (activeSession.svincolatiTurnOrder as string[] | null) || []
+  const { turnOrder } = toSvincolatiTurnState(activeSession.svincolatiTurns)
   const currentTurnIndex = activeSession.svincolatiCurrentTurnIndex ?? 0
   const currentTurnMemberId = turnOrder[currentTurnIndex]
 
@@ -704,15 +711,17 @@ export async function nominateFreeAgent(
   }
 
   // Set pending nomination
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: {
-      svincolatiState: 'NOMINATION',
-      svincolatiPendingPlayerId: playerId,
-      svincolatiPendingNominatorId: member.id,
-      svincolatiNominatorConfirmed: false,
-      svincolatiReadyMembers: [],
-    },
+  await prisma.$transaction(async (tx) => {
+    await tx.marketSession.update({
+      where: { id: activeSession.id },
+      data: {
+        svincolatiState: 'NOMINATION',
+        svincolatiPendingPlayerId: playerId,
+        svincolatiPendingNominatorId: member.id,
+        svincolatiNominatorConfirmed: false,
+      },
+    })
+    await resetSvincolatiReadyMembers(activeSession.id, tx)
   })
 
   return {
@@ -746,6 +755,7 @@ export async function confirmSvincolatiNomination(
       status: 'ACTIVE',
       currentPhase: 'ASTA_SVINCOLATI',
     },
+    include: svincolatiStateInclude,
   })
 
   if (!activeSession) {
@@ -762,15 +772,16 @@ export async function confirmSvincolatiNomination(
   }
 
   // Confirm and add nominator to ready
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: {
-      svincolatiNominatorConfirmed: true,
-      svincolatiReadyMembers: [member.id],
-    },
+  await prisma.$transaction(async (tx) => {
+    await tx.marketSession.update({
+      where: { id: activeSession.id },
+      data: { svincolatiNominatorConfirmed: true },
+    })
+    await resetSvincolatiReadyMembers(activeSession.id, tx)
+    await setSvincolatiMembersReady(activeSession.id, [member.id], tx)
   })
 
-  // Trigger Pusher event for confirmed nomination (non-blocking)
+  // Broadcast Pusher della chiamata (sottoscrittori FREE_AGENT_NOMINATED)
   if (activeSession.svincolatiPendingPlayerId) {
     const [nominatedPlayer, nominatorWithUser] = await Promise.all([
       prisma.serieAPlayer.findUnique({ where: { id: activeSession.svincolatiPendingPlayerId } }),
@@ -779,21 +790,19 @@ export async function confirmSvincolatiNomination(
         include: { user: { select: { username: true } } },
       }),
     ])
-    triggerSvincolatiNomination(activeSession.id, {
+    await publishDomainEvent(DomainEventTypes.FREE_AGENT_NOMINATED, {
       sessionId: activeSession.id,
       playerId: activeSession.svincolatiPendingPlayerId,
       playerName: nominatedPlayer?.name || 'Unknown',
       playerRole: nominatedPlayer?.position || '',
       nominatorId: member.id,
       nominatorUsername: nominatorWithUser?.user.username || 'Unknown',
-      confirmed: true,
-      timestamp: new Date().toISOString(),
-    }).catch(() => { /* Error intentionally silenced */ })
+    })
   }
 
   // In IN_PRESENCE mode, auto-start auction (skip ready-check)
   if (activeSession.auctionMode === 'IN_PRESENCE') {
-    const turnOrder = (activeSession.svincolatiTurnOrder as string[] | null) || []
+    const { turnOrder } = toSvincolatiTurnState(activeSession.svincolatiTurns)
     return await startSvincolatiAuction(activeSession.id, turnOrder)
   }
 
@@ -846,15 +855,17 @@ export async function cancelSvincolatiNomination(
   }
 
   // Reset to ready check
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: {
-      svincolatiState: 'READY_CHECK',
-      svincolatiPendingPlayerId: null,
-      svincolatiPendingNominatorId: null,
-      svincolatiNominatorConfirmed: false,
-      svincolatiReadyMembers: [],
-    },
+  await prisma.$transaction(async (tx) => {
+    await tx.marketSession.update({
+      where: { id: activeSession.id },
+      data: {
+        svincolatiState: 'READY_CHECK',
+        svincolatiPendingPlayerId: null,
+        svincolatiPendingNominatorId: null,
+        svincolatiNominatorConfirmed: false,
+      },
+    })
+    await resetSvincolatiReadyMembers(activeSession.id, tx)
   })
 
   return {
@@ -887,6 +898,7 @@ export async function markReadyForSvincolati(
       status: 'ACTIVE',
       currentPhase: 'ASTA_SVINCOLATI',
     },
+    include: svincolatiStateInclude,
   })
 
   if (!activeSession) {
@@ -901,19 +913,19 @@ export async function markReadyForSvincolati(
     return { success: false, message: 'Il nominatore non ha ancora confermato' }
   }
 
-  const readyMembers = (activeSession.svincolatiReadyMembers as string[] | null) || []
+  const { turnOrder, readyMembers } = toSvincolatiTurnState(activeSession.svincolatiTurns)
   if (readyMembers.includes(member.id)) {
     return { success: false, message: 'Sei già pronto' }
   }
 
-  // Check if all members are ready
-  const turnOrder = (activeSession.svincolatiTurnOrder as string[] | null) || []
-
   // In IN_PRESENCE mode, auto-mark all members as ready (skip ready-check)
-  const newReadyMembers = activeSession.auctionMode === 'IN_PRESENCE'
-    ? [...turnOrder]
-    : [...readyMembers, member.id]
+  await setSvincolatiMembersReady(
+    activeSession.id,
+    activeSession.auctionMode === 'IN_PRESENCE' ? turnOrder : [member.id]
+  )
 
+  // Check if all members are ready (re-read: others may have confirmed concurrently)
+  const newReadyMembers = (await loadSvincolatiTurnState(activeSession.id)).readyMembers
   const allReady = turnOrder.every(id => newReadyMembers.includes(id))
 
   if (allReady) {
@@ -921,26 +933,19 @@ export async function markReadyForSvincolati(
     return await startSvincolatiAuction(activeSession.id, newReadyMembers)
   }
 
-  // Update ready members
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: { svincolatiReadyMembers: newReadyMembers },
-  })
-
-  // Trigger Pusher event for ready status change (non-blocking)
+  // Broadcast Pusher del pronto (sottoscrittori SVINCOLATI_READY_CHANGED)
   const readyMemberWithUser = await prisma.leagueMember.findUnique({
     where: { id: member.id },
     include: { user: { select: { username: true } } },
   })
-  triggerSvincolatiReadyChanged(activeSession.id, {
+  await publishDomainEvent(DomainEventTypes.SVINCOLATI_READY_CHANGED, {
     sessionId: activeSession.id,
     memberId: member.id,
     memberUsername: readyMemberWithUser?.user.username || 'Unknown',
     isReady: true,
     readyCount: newReadyMembers.length,
     totalMembers: turnOrder.length,
-    timestamp: new Date().toISOString(),
-  }).catch(() => { /* Error intentionally silenced */ })
+  })
 
   return {
     success: true,
@@ -985,6 +990,19 @@ async function startSvincolatiAuction(
 
   // Create auction with initial bid from nominator
   const auction = await prisma.$transaction(async (tx) => {
+    // Claim the NOMINATION -> AUCTION transition: with simultaneous "ready"
+    // only the first caller creates the auction
+    const { count } = await tx.marketSession.updateMany({
+      where: { id: sessionId, svincolatiState: 'NOMINATION' },
+      data: {
+        svincolatiState: 'AUCTION',
+        svincolatiTimerStartedAt: new Date(),
+      },
+    })
+    if (count === 0) return null
+
+    await setSvincolatiMembersReady(sessionId, readyMembers, tx)
+
     // Create the auction
     const newAuction = await tx.auction.create({
       data: {
@@ -1016,15 +1034,11 @@ async function startSvincolatiAuction(
     return newAuction
   })
 
-  // Update session state
-  await prisma.marketSession.update({
-    where: { id: sessionId },
-    data: {
-      svincolatiState: 'AUCTION',
-      svincolatiTimerStartedAt: new Date(),
-      svincolatiReadyMembers: readyMembers,
-    },
-  })
+  if (!auction) {
+    return { success: true, message: 'Asta già avviata' }
+  }
+
+  await triggerProxyBidding(auction.id)
 
   return {
     success: true,
@@ -1057,6 +1071,7 @@ export async function passSvincolatiTurn(
       status: 'ACTIVE',
       currentPhase: 'ASTA_SVINCOLATI',
     },
+    include: svincolatiStateInclude,
   })
 
   if (!activeSession) {
@@ -1068,7 +1083,7 @@ export async function passSvincolatiTurn(
   }
 
   // Check it's this member's turn
-  const turnOrder = (activeSession.svincolatiTurnOrder as string[] | null) || []
+  const { turnOrder, passedMembers, finishedMembers } = toSvincolatiTurnState(activeSession.svincolatiTurns)
   const currentTurnIndex = activeSession.svincolatiCurrentTurnIndex ?? 0
   const currentTurnMemberId = turnOrder[currentTurnIndex]
 
@@ -1077,8 +1092,6 @@ export async function passSvincolatiTurn(
   }
 
   // Add to passed members
-  const passedMembers = (activeSession.svincolatiPassedMembers as string[] | null) || []
-  const finishedMembers = (activeSession.svincolatiFinishedMembers as string[] | null) || []
   const newPassedMembers = passedMembers.includes(member.id)
     ? passedMembers
     : [...passedMembers, member.id]
@@ -1087,22 +1100,21 @@ export async function passSvincolatiTurn(
   const activeMembersAfterPass = turnOrder.filter(id => !newPassedMembers.includes(id) && !finishedMembers.includes(id))
   if (activeMembersAfterPass.length === 0) {
     // All passed or finished - complete svincolati phase
-    await prisma.marketSession.update({
-      where: { id: activeSession.id },
-      data: {
-        svincolatiState: 'COMPLETED',
-        svincolatiPassedMembers: newPassedMembers,
-      },
+    await prisma.$transaction(async (tx) => {
+      await tx.marketSession.update({
+        where: { id: activeSession.id },
+        data: { svincolatiState: 'COMPLETED' },
+      })
+      await setSvincolatiMemberPassed(activeSession.id, member.id, true, tx)
     })
 
-    triggerSvincolatiTurnAdvanced(activeSession.id, {
+    await publishDomainEvent(DomainEventTypes.SVINCOLATI_TURN_ADVANCED, {
       sessionId: activeSession.id,
       state: 'COMPLETED',
       nextTurnMemberId: null,
       nextTurnUsername: null,
       completed: true,
-      timestamp: new Date().toISOString(),
-    }).catch(() => { /* Error intentionally silenced */ })
+    })
 
     return {
       success: true,
@@ -1122,12 +1134,12 @@ export async function passSvincolatiTurn(
     searchCount++
   }
 
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: {
-      svincolatiCurrentTurnIndex: searchIndex,
-      svincolatiPassedMembers: newPassedMembers,
-    },
+  await prisma.$transaction(async (tx) => {
+    await tx.marketSession.update({
+      where: { id: activeSession.id },
+      data: { svincolatiCurrentTurnIndex: searchIndex },
+    })
+    await setSvincolatiMemberPassed(activeSession.id, member.id, true, tx)
   })
 
   const nextMember = await prisma.leagueMember.findUnique({
@@ -1135,15 +1147,14 @@ export async function passSvincolatiTurn(
     include: { user: { select: { username: true } } },
   })
 
-  // Trigger Pusher event for turn advancement after a pass (non-blocking)
-  triggerSvincolatiTurnAdvanced(activeSession.id, {
+  // Broadcast Pusher del turno (sottoscrittori SVINCOLATI_TURN_ADVANCED)
+  await publishDomainEvent(DomainEventTypes.SVINCOLATI_TURN_ADVANCED, {
     sessionId: activeSession.id,
     state: 'READY_CHECK',
     nextTurnMemberId: turnOrder[searchIndex] ?? null,
     nextTurnUsername: nextMember?.user.username ?? null,
     completed: false,
-    timestamp: new Date().toISOString(),
-  }).catch(() => { /* Error intentionally silenced */ })
+  })
 
   return {
     success: true,
@@ -1181,6 +1192,7 @@ export async function forceAllReadyForSvincolati(
       status: 'ACTIVE',
       currentPhase: 'ASTA_SVINCOLATI',
     },
+    include: svincolatiStateInclude,
   })
 
   if (!activeSession) {
@@ -1195,7 +1207,7 @@ export async function forceAllReadyForSvincolati(
     return { success: false, message: 'Il nominatore non ha ancora confermato' }
   }
 
-  const turnOrder = (activeSession.svincolatiTurnOrder as string[] | null) || []
+  const { turnOrder } = toSvincolatiTurnState(activeSession.svincolatiTurns)
 
   // Start auction with all members ready
   return await startSvincolatiAuction(activeSession.id, turnOrder)
@@ -1211,6 +1223,7 @@ export async function closeSvincolatiAuction(
     where: { id: auctionId },
     include: {
       player: true,
+      league: true,
       bids: {
         where: { isWinning: true, isCancelled: false },
         include: {
@@ -1219,7 +1232,7 @@ export async function closeSvincolatiAuction(
           },
         },
       },
-      marketSession: true,
+      marketSession: { include: svincolatiStateInclude },
     },
   })
 
@@ -1248,7 +1261,7 @@ export async function closeSvincolatiAuction(
   }
 
   const winningBid = auction.bids[0]
-  const turnOrder = (auction.marketSession?.svincolatiTurnOrder as string[] | null) || []
+  const { turnOrder } = toSvincolatiTurnState(auction.marketSession?.svincolatiTurns ?? [])
 
   if (!winningBid) {
     // No bids - player stays free
@@ -1262,37 +1275,42 @@ export async function closeSvincolatiAuction(
       })
 
       // Set pending ack
+      const pendingAck: SvincolatiPendingAckHeader = {
+        auctionId,
+        playerId: auction.playerId,
+        playerName: auction.player.name,
+        winnerId: null,
+        winnerUsername: null,
+        price: 0,
+        noBids: true,
+        pendingMembers: turnOrder,
+      }
       await tx.marketSession.update({
         where: { id: auction.marketSessionId! },
         data: {
           svincolatiState: 'PENDING_ACK',
-          svincolatiPendingAck: {
-            auctionId,
-            playerId: auction.playerId,
-            playerName: auction.player.name,
-            winnerId: null,
-            winnerUsername: null,
-            price: 0,
-            noBids: true,
-            acknowledgedMembers: [],
-            pendingMembers: turnOrder,
-          },
+          svincolatiPendingAck: pendingAck as unknown as Prisma.InputJsonValue,
         },
       })
+      await resetSvincolatiAcknowledgements(auction.marketSessionId!, tx)
     })
 
-    // Trigger Pusher event for auction closed - unsold (non-blocking)
-    triggerSvincolatiAuctionClosed(auction.marketSessionId ?? auctionId, {
-      sessionId: auction.marketSessionId ?? auctionId,
+    // Broadcast Pusher invenduto (sottoscrittori SVINCOLATI_AUCTION_CLOSED)
+    await publishDomainEvent(DomainEventTypes.SVINCOLATI_AUCTION_CLOSED, {
+      sessionId: auction.marketSessionId,
+      leagueId: auction.leagueId,
       auctionId,
       playerId: auction.playerId,
       playerName: auction.player.name,
       winnerId: null,
       winnerUsername: null,
       finalPrice: null,
-      wasUnsold: true,
-      timestamp: new Date().toISOString(),
-    }).catch(() => { /* Error intentionally silenced */ })
+      movement: null,
+    })
+
+    if (auction.marketSessionId && auction.nominatorId) {
+      void postSystemMessage(auction.marketSessionId, auction.nominatorId, `Nessuna offerta per ${auction.player.name}: resta svincolato`)
+    }
 
     return {
       success: true,
@@ -1301,8 +1319,13 @@ export async function closeSvincolatiAuction(
     }
   }
 
+  // Contratto automatico secondo le regole della lega (default: 10% ingaggio, 3 semestri)
+  const rules = resolveContractRuleset(auction.league.contractRuleset)
+
   // Assign player to winner
   await prisma.$transaction(async (tx) => {
+    const stateBefore = await captureState(tx, { memberIds: [winningBid.bidderId] })
+
     // Deduct budget from winner
     await tx.leagueMember.update({
       where: { id: winningBid.bidderId },
@@ -1320,12 +1343,12 @@ export async function closeSvincolatiAuction(
       },
     })
 
-    // Create contract automatically: 10% salary (integer, min 1), 3 semesters (svincolati default)
-    const salary = calculateDefaultSalary(auction.currentPrice)
-    const duration = 3
-    const rescissionClause = calculateRescissionClause(salary, duration)
+    // Create contract automatically (league defaults, salary integer min 1)
+    const salary = calculateDefaultSalary(auction.currentPrice, rules)
+    const duration = rules.defaultDuration
+    const rescissionClause = calculateRescissionClause(salary, duration, rules)
 
-    await tx.playerContract.create({
+    const contract = await tx.playerContract.create({
       data: {
         rosterId: rosterEntry.id,
         leagueMemberId: winningBid.bidderId,
@@ -1348,55 +1371,76 @@ export async function closeSvincolatiAuction(
     })
 
     // Set pending ack
+    const pendingAck: SvincolatiPendingAckHeader = {
+      auctionId,
+      playerId: auction.playerId,
+      playerName: auction.player.name,
+      winnerId: winningBid.bidderId,
+      winnerUsername: winningBid.bidder.user.username,
+      price: auction.currentPrice,
+      noBids: false,
+      pendingMembers: turnOrder,
+    }
     await tx.marketSession.update({
       where: { id: auction.marketSessionId! },
       data: {
         svincolatiState: 'PENDING_ACK',
-        svincolatiPendingAck: {
-          auctionId,
-          playerId: auction.playerId,
-          playerName: auction.player.name,
-          winnerId: winningBid.bidderId,
-          winnerUsername: winningBid.bidder.user.username,
-          price: auction.currentPrice,
-          noBids: false,
-          acknowledgedMembers: [],
-          pendingMembers: turnOrder,
-        },
+        svincolatiPendingAck: pendingAck as unknown as Prisma.InputJsonValue,
       },
     })
+    await resetSvincolatiAcknowledgements(auction.marketSessionId!, tx)
+
+    await recordCompensation(tx, {
+      leagueId: auction.leagueId,
+      userId: adminUserId,
+      operation: 'SVINCOLATI_ACQUISITION',
+      entityType: 'Auction',
+      entityId: auctionId,
+      description: `Svincolati: ${auction.player.name} a ${winningBid.bidder.user.username} per ${auction.currentPrice}`,
+      steps: [
+        ...diffSnapshots(stateBefore, await captureState(tx, {
+          memberIds: [winningBid.bidderId],
+          rosterIds: [rosterEntry.id],
+          contractIds: [contract.id],
+        })),
+        { kind: 'RECORD', model: 'auction', id: auctionId, data: { status: AuctionStatus.NO_BIDS, winnerId: null } },
+        { kind: 'MOVEMENTS', filter: { auctionId } },
+      ],
+    })
   })
 
   // Record movement with contract values
-  const movementSalary2 = calculateDefaultSalary(auction.currentPrice)
-  const movementDuration2 = 3
-  const movementClause2 = calculateRescissionClause(movementSalary2, movementDuration2)
+  const movementSalary2 = calculateDefaultSalary(auction.currentPrice, rules)
+  const movementDuration2 = rules.defaultDuration
+  const movementClause2 = calculateRescissionClause(movementSalary2, movementDuration2, rules)
 
-  await recordMovement({
+  // Movimento + broadcast Pusher (sottoscrittori SVINCOLATI_AUCTION_CLOSED)
+  await publishDomainEvent(DomainEventTypes.SVINCOLATI_AUCTION_CLOSED, {
+    sessionId: auction.marketSessionId,
     leagueId: auction.leagueId,
-    playerId: auction.playerId,
-    movementType: 'SVINCOLATI',
-    toMemberId: winningBid.bidderId,
-    price: auction.currentPrice,
-    auctionId,
-    marketSessionId: auction.marketSessionId ?? undefined,
-    newSalary: movementSalary2,
-    newDuration: movementDuration2,
-    newClause: movementClause2,
-  })
-
-  // Trigger Pusher event for auction closed - assigned (non-blocking)
-  triggerSvincolatiAuctionClosed(auction.marketSessionId ?? auctionId, {
-    sessionId: auction.marketSessionId ?? auctionId,
     auctionId,
     playerId: auction.playerId,
     playerName: auction.player.name,
     winnerId: winningBid.bidderId,
     winnerUsername: winningBid.bidder.user.username,
     finalPrice: auction.currentPrice,
-    wasUnsold: false,
-    timestamp: new Date().toISOString(),
-  }).catch(() => { /* Error intentionally silenced */ })
+    movement: {
+      leagueId: auction.leagueId,
+      playerId: auction.playerId,
+      movementType: 'SVINCOLATI',
+      toMemberId: winningBid.bidderId,
+      price: auction.currentPrice,
+      auctionId,
+      marketSessionId: auction.marketSessionId ?? undefined,
+      newSalary: movementSalary2,
+      newDuration: movementDuration2,
+      newClause: movementClause2,
+    },
+  })
+
+  if (auction.marketSessionId) {
+    void postSystemMessage(auction.marketSessionId, winningBid.bidderId, `${auction.player.name} aggiudicato a ${winningBid.bidder.user.username} per ${auction.currentPrice}`)
+  }
 
   return {
     success: true,
@@ -1434,6 +1478,7 @@ export async function acknowledgeSvincolatiAuction(
       status: 'ACTIVE',
       currentPhase: 'ASTA_SVINCOLATI',
     },
+    include: svincolatiStateInclude,
   })
 
   if (!activeSession) {
@@ -1444,28 +1489,21 @@ export async function acknowledgeSvincolatiAuction(
     return { success: false, message: 'Non ci sono aste da confermare' }
   }
 
-  const pendingAck = activeSession.svincolatiPendingAck as {
-    auctionId: string
-    playerId: string
-    playerName: string
-    winnerId: string | null
-    winnerUsername: string | null
-    price: number
-    noBids: boolean
-    acknowledgedMembers: string[]
-    pendingMembers: string[]
-  }
+  const pendingAck = activeSession.svincolatiPendingAck as SvincolatiPendingAckHeader | null
 
   if (!pendingAck) {
     return { success: false, message: 'Nessun ack pendente' }
   }
 
-  if (pendingAck.acknowledgedMembers.includes(member.id)) {
+  if (toSvincolatiTurnState(activeSession.svincolatiTurns).acknowledgedMembers.includes(member.id)) {
     return { success: false, message: 'Hai già confermato' }
   }
 
-  const newAcknowledged = [...pendingAck.acknowledgedMembers, member.id]
-  const newPending = pendingAck.pendingMembers.filter(id => id !== member.id)
+  // Record the acknowledgment on the member's own row, then re-read:
+  // other managers may have confirmed concurrently
+  await acknowledgeSvincolatiMember(activeSession.id, member.id)
+  const newAcknowledged = (await loadSvincolatiTurnState(activeSession.id)).acknowledgedMembers
+  const newPending = pendingAck.pendingMembers.filter(id => !newAcknowledged.includes(id))
 
   // Get contract info for winner (for post-acquisition modification)
   let winnerContractInfo = null
@@ -1508,18 +1546,6 @@ export async function acknowledgeSvincolatiAuction(
     }
   }
 
-  // Update pending ack
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: {
-      svincolatiPendingAck: {
-        ...pendingAck,
-        acknowledgedMembers: newAcknowledged,
-        pendingMembers: newPending,
-      },
-    },
-  })
-
   return {
     success: true,
     message: 'Conferma registrata',
@@ -1575,6 +1601,7 @@ export async function forceAllSvincolatiAck(
 async function advanceSvincolatiToNextTurn(sessionId: string): Promise<ServiceResult> {
   const session = await prisma.marketSession.findUnique({
     where: { id: sessionId },
+    include: svincolatiStateInclude,
   })
 
   if (!session) {
@@ -1606,17 +1633,16 @@ async function advanceSvincolatiToNextTurn(sessionId: string): Promise<ServiceRe
         svincolatiPendingNominatorId: null,
         svincolatiNominatorConfirmed: false,
         svincolatiPendingAck: Prisma.DbNull,
-        svincolatiReadyMembers: [],
       },
     })
-    triggerSvincolatiTurnAdvanced(sessionId, {
+    await resetSvincolatiReadyMembers(sessionId)
+    await publishDomainEvent(DomainEventTypes.SVINCOLATI_TURN_ADVANCED, {
       sessionId,
       state: 'COMPLETED',
       nextTurnMemberId: null,
       nextTurnUsername: null,
       completed: true,
-      timestamp: new Date().toISOString(),
-    }).catch(() => { /* Error intentionally silenced */ })
+    })
 
     return {
       success: true,
@@ -1650,17 +1676,16 @@ async function advanceSvincolatiToNextTurn(sessionId: string): Promise<ServiceRe
         svincolatiPendingNominatorId: null,
         svincolatiNominatorConfirmed: false,
         svincolatiPendingAck: Prisma.DbNull,
-        svincolatiReadyMembers: [],
       },
     })
-    triggerSvincolatiTurnAdvanced(sessionId, {
+    await resetSvincolatiReadyMembers(sessionId)
+    await publishDomainEvent(DomainEventTypes.SVINCOLATI_TURN_ADVANCED, {
       sessionId,
       state: 'COMPLETED',
       nextTurnMemberId: null,
       nextTurnUsername: null,
       completed: true,
-      timestamp: new Date().toISOString(),
-    }).catch(() => { /* Error intentionally silenced */ })
+    })
 
     return {
       success: true,
@@ -1669,9 +1694,7 @@ async function advanceSvincolatiToNextTurn(sessionId: string): Promise<ServiceRe
     }
   }
 
-  const turnOrder = (session.svincolatiTurnOrder as string[] | null) || []
-  const passedMembers = (session.svincolatiPassedMembers as string[] | null) || []
-  const finishedMembers = (session.svincolatiFinishedMembers as string[] | null) || []
+  const { turnOrder, passedMembers, finishedMembers } = toSvincolatiTurnState(session.svincolatiTurns)
   const currentTurnIndex = session.svincolatiCurrentTurnIndex ?? 0
 
   // Reset the pass state for the member who just called (they didn't pass)
@@ -1725,9 +1748,9 @@ async function advanceSvincolatiToNextTurn(sessionId: string): Promise<ServiceRe
         svincolatiPendingNominatorId: null,
         svincolatiNominatorConfirmed: false,
         svincolatiPendingAck: Prisma.DbNull,
-        svincolatiReadyMembers: [],
       },
     })
+    await resetSvincolatiReadyMembers(sessionId)
 
     return {
       success: true,
@@ -1736,35 +1759,45 @@ async function advanceSvincolatiToNextTurn(sessionId: string): Promise<ServiceRe
     }
   }
 
-  // Update to next turn
-  await prisma.marketSession.update({
-    where: { id: sessionId },
-    data: {
-      svincolatiState: 'READY_CHECK',
-      svincolatiCurrentTurnIndex: nextIndex,
-      svincolatiPendingPlayerId: null,
-      svincolatiPendingNominatorId: null,
-      svincolatiNominatorConfirmed: false,
-      svincolatiPendingAck: Prisma.DbNull,
-      svincolatiReadyMembers: [],
-      svincolatiPassedMembers: newPassedMembers,
-    },
+  // Update to next turn (compare-and-set on the state read above: with
+  // simultaneous final acknowledgments only the first caller advances)
+  const advanced = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.marketSession.updateMany({
+      where: { id: sessionId, svincolatiState: session.svincolatiState },
+      data: {
+        svincolatiState: 'READY_CHECK',
+        svincolatiCurrentTurnIndex: nextIndex,
+        svincolatiPendingPlayerId: null,
+        svincolatiPendingNominatorId: null,
+        svincolatiNominatorConfirmed: false,
+        svincolatiPendingAck: Prisma.DbNull,
+      },
+    })
+    if (count === 0) return false
+    await resetSvincolatiReadyMembers(sessionId, tx)
+    if (previousNominatorId) {
+      await setSvincolatiMemberPassed(sessionId, previousNominatorId, false, tx)
+    }
+    return true
   })
 
+  if (!advanced) {
+    return { success: true, message: 'Turno già avanzato' }
+  }
+
   const nextMember = await prisma.leagueMember.findUnique({
     where: { id: turnOrder[nextIndex]! },
     include: { user: { select: { username: true } } },
   })
 
-  // Trigger Pusher event for turn advancement (non-blocking)
-  triggerSvincolatiTurnAdvanced(sessionId, {
+  // Broadcast Pusher del turno (sottoscrittori SVINCOLATI_TURN_ADVANCED)
+  await publishDomainEvent(DomainEventTypes.SVINCOLATI_TURN_ADVANCED, {
     sessionId,
     state: 'READY_CHECK',
     nextTurnMemberId: turnOrder[nextIndex] ?? null,
     nextTurnUsername: nextMember?.user.username ?? null,
     completed: false,
-    timestamp: new Date().toISOString(),
-  }).catch(() => { /* Error intentionally silenced */ })
+  })
 
   return {
     success: true,
@@ -1893,6 +1926,7 @@ export async function botNominateSvincolati(
       status: 'ACTIVE',
       currentPhase: 'ASTA_SVINCOLATI',
     },
+    include: svincolatiStateInclude,
   })
 
   if (!activeSession) {
@@ -1904,7 +1938,7 @@ export async function botNominateSvincolati(
   }
 
   // Get current turn member
-  const turnOrder = (activeSession.svincolatiTurnOrder as string[] | null) || []
+  const { turnOrder } = toSvincolatiTurnState(activeSession.svincolatiTurns)
   const currentTurnIndex = activeSession.svincolatiCurrentTurnIndex ?? 0
   const currentTurnMemberId = turnOrder[currentTurnIndex]
 
@@ -1950,15 +1984,17 @@ export async function botNominateSvincolati(
   const randomPlayer = freeAgents[Math.floor(Math.random() * freeAgents.length)]!
 
   // Set pending nomination
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: {
-      svincolatiState: 'NOMINATION',
-      svincolatiPendingPlayerId: randomPlayer.id,
-      svincolatiPendingNominatorId: currentTurnMemberId,
-      svincolatiNominatorConfirmed: false,
-      svincolatiReadyMembers: [],
-    },
+  await prisma.$transaction(async (tx) => {
+    await tx.marketSession.update({
+      where: { id: activeSession.id },
+      data: {
+        svincolatiState: 'NOMINATION',
+        svincolatiPendingPlayerId: randomPlayer.id,
+        svincolatiPendingNominatorId: currentTurnMemberId,
+        svincolatiNominatorConfirmed: false,
+      },
+    })
+    await resetSvincolatiReadyMembers(activeSession.id, tx)
   })
 
   return {
@@ -2017,30 +2053,30 @@ export async function botConfirmSvincolatiNomination(
     : null
 
   // Confirm and add nominator to ready
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: {
-      svincolatiNominatorConfirmed: true,
-      svincolatiReadyMembers: [activeSession.svincolatiPendingNominatorId],
-    },
+  const nominatorId = activeSession.svincolatiPendingNominatorId
+  await prisma.$transaction(async (tx) => {
+    await tx.marketSession.update({
+      where: { id: activeSession.id },
+      data: { svincolatiNominatorConfirmed: true },
+    })
+    await resetSvincolatiReadyMembers(activeSession.id, tx)
+    await setSvincolatiMembersReady(activeSession.id, [nominatorId], tx)
   })
 
-  // Trigger Pusher event for confirmed nomination (non-blocking)
+  // Broadcast Pusher della chiamata (sottoscrittori FREE_AGENT_NOMINATED)
   if (activeSession.svincolatiPendingPlayerId) {
     const botNominator = await prisma.leagueMember.findUnique({
       where: { id: activeSession.svincolatiPendingNominatorId },
       include: { user: { select: { username: true } } },
     })
-    triggerSvincolatiNomination(activeSession.id, {
+    await publishDomainEvent(DomainEventTypes.FREE_AGENT_NOMINATED, {
       sessionId: activeSession.id,
       playerId: activeSession.svincolatiPendingPlayerId,
       playerName: player?.name || 'Unknown',
       playerRole: player?.position || '',
       nominatorId: activeSession.svincolatiPendingNominatorId,
       nominatorUsername: botNominator?.user.username || 'Unknown',
-      confirmed: true,
-      timestamp: new Date().toISOString(),
-    }).catch(() => { /* Error intentionally silenced */ })
+    })
   }
 
   return {
@@ -2093,13 +2129,14 @@ export async function botBidSvincolati(
       status: 'ACTIVE',
       currentPhase: 'ASTA_SVINCOLATI',
     },
+    include: svincolatiStateInclude,
   })
 
   if (!activeSession) {
     return { success: false, message: 'Nessuna sessione attiva' }
   }
 
-  const turnOrder = (activeSession.svincolatiTurnOrder as string[] | null) || []
+  const { turnOrder } = toSvincolatiTurnState(activeSession.svincolatiTurns)
 
   // Get all members in turn order
   const members = await prisma.leagueMember.findMany({
@@ -2176,8 +2213,8 @@ export async function botBidSvincolati(
     })
   })
 
-  // Trigger Pusher event for bot bid (non-blocking)
-  triggerSvincolatiBidPlaced(activeSession.id, {
+  // Broadcast Pusher del rilancio (sottoscrittori SVINCOLATI_BID_PLACED)
+  await publishDomainEvent(DomainEventTypes.SVINCOLATI_BID_PLACED, {
     sessionId: activeSession.id,
     auctionId,
     playerId: auction.playerId,
@@ -2185,10 +2222,9 @@ export async function botBidSvincolati(
     bidderId: randomBidder.id,
     bidderUsername: randomBidder.user.username,
     amount: newBidAmount,
-    timerExpiresAt: newTimerExpires.toISOString(),
+    timerExpiresAt: newTimerExpires,
     timerSeconds,
-    timestamp: new Date().toISOString(),
-  }).catch(() => { /* Error intentionally silenced */ })
+  })
 
   return {
     success: true,
@@ -2232,26 +2268,21 @@ export async function declareSvincolatiFinished(
       status: 'ACTIVE',
       currentPhase: 'ASTA_SVINCOLATI',
     },
+    include: svincolatiStateInclude,
   })
 
   if (!activeSession) {
     return { success: false, message: 'Nessuna sessione svincolati attiva' }
   }
 
-  const finishedMembers = (activeSession.svincolatiFinishedMembers as string[] | null) || []
+  const { finishedMembers } = toSvincolatiTurnState(activeSession.svincolatiTurns)
 
   if (finishedMembers.includes(member.id)) {
     return { success: false, message: 'Hai già dichiarato di aver finito' }
   }
 
-  const newFinishedMembers = [...finishedMembers, member.id]
-
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: {
-      svincolatiFinishedMembers: newFinishedMembers,
-    },
-  })
+  await setSvincolatiMembersFinished(activeSession.id, [member.id], true)
+  const newFinishedMembers = (await loadSvincolatiTurnState(activeSession.id)).finishedMembers
 
   // M-7: Audit log for declare finished
   logAction(userId, leagueId, 'SVINCOLATI_DECLARE_FINISHED', 'MarketSession', activeSession.id, undefined, { memberId: member.id }).catch(() => {})
@@ -2305,26 +2336,20 @@ export async function undoSvincolatiFinished(
       status: 'ACTIVE',
       currentPhase: 'ASTA_SVINCOLATI',
     },
+    include: svincolatiStateInclude,
   })
 
   if (!activeSession) {
     return { success: false, message: 'Nessuna sessione svincolati attiva' }
   }
 
-  const finishedMembers = (activeSession.svincolatiFinishedMembers as string[] | null) || []
+  const { finishedMembers } = toSvincolatiTurnState(activeSession.svincolatiTurns)
 
   if (!finishedMembers.includes(member.id)) {
     return { success: false, message: 'Non hai ancora dichiarato di aver finito' }
   }
 
-  const newFinishedMembers = finishedMembers.filter(id => id !== member.id)
-
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: {
-      svincolatiFinishedMembers: newFinishedMembers,
-    },
-  })
+  await setSvincolatiMembersFinished(activeSession.id, [member.id], false)
 
   // M-7: Audit log for undo finished
   logAction(userId, leagueId, 'SVINCOLATI_UNDO_FINISHED', 'MarketSession', activeSession.id, undefined, { memberId: member.id }).catch(() => {})
@@ -2377,11 +2402,8 @@ export async function forceAllSvincolatiFinished(
 
   const allMemberIds = allMembers.map(m => m.id)
 
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: {
-      svincolatiFinishedMembers: allMemberIds,
-    },
+  await prisma.$transaction(async (tx) => {
+    await setSvincolatiMembersFinished(activeSession.id, allMemberIds, true, tx)
   })
 
   return {
@@ -2439,15 +2461,17 @@ export async function pauseSvincolati(
     remainingSeconds = Math.max(0, activeSession.svincolatiTimerSeconds - elapsedSeconds)
   }
 
-  await prisma.marketSession.update({
-    where: { id: activeSession.id },
-    data: {
-      svincolatiPausedFromState: activeSession.svincolatiState,
-      svincolatiPausedRemainingSeconds: remainingSeconds,
-      svincolatiState: 'PAUSED',
-      svincolatiTimerStartedAt: null,
-      svincolatiReadyMembers: [],
-    },
+  await prisma.$transaction(async (tx) => {
+    await tx.marketSession.update({
+      where: { id: activeSession.id },
+      data: {
+        svincolatiPausedFromState: activeSession.svincolatiState,
+        svincolatiPausedRemainingSeconds: remainingSeconds,
+        svincolatiState: 'PAUSED',
+        svincolatiTimerStartedAt: null,
+      },
+    })
+    await resetSvincolatiReadyMembers(activeSession.id, tx)
   })
 
   // M-7: Audit log
@@ -0,0 +1,208 @@
+/**
+ * trade-lifecycle.service.ts - Chiusura automatica delle offerte di scambio
+ *
+ * Il sweeper chiude le offerte PENDING (1:1 e a più squadre) che non possono
+ * più essere accettate:
+ * - scadute (expiresAt superato) -> EXPIRED
+ * - sessione non più in fase OFFERTE_PRE_RINNOVO/OFFERTE_POST_ASTA_SVINCOLATI -> CANCELLED
+ * - giocatori non più nella rosa di chi li cede -> INVALIDATED
+ *
+ * Tutte le parti vengono avvisate tramite l'evento TRADE_INVALIDATED
+ * (push + broadcast Pusher, see: domain-events.service.ts).
+ * Invocato dal cron locale (see: shared/infrastructure/cron/trade-expiry-job.ts)
+ * e dall'endpoint Vercel Cron /api/cron/expire-trade-offers.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { RosterStatus, TradeStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { DomainEventTypes } from '@/shared/infrastructure/events'
+import type { TradeInvalidationReason } from '@/shared/infrastructure/events'
+import { publishDomainEvent } from './domain-events.service'
+import type { ServiceResult } from '@/shared/types/service-result'
+
+const TRADE_PHASES = ['OFFERTE_PRE_RINNOVO', 'OFFERTE_POST_ASTA_SVINCOLATI']
+
+// Offerta 1:1 (TradeOffer) o proposta a più squadre (MultiPartyTrade)
+interface SweptOffer {
+  id: string
+  kind: 'offer' | 'multiParty'
+  leagueId: string
+  userIds: string[]
+}
+
+export interface TradeSweepResult {
+  expired: number
+  cancelled: number
+  invalidated: number
+}
+
+interface SessionState {
+  leagueId: string
+  status: string
+  currentPhase: string | null
+}
+
+function isPhaseEnded(session: SessionState): boolean {
+  return session.status !== 'ACTIVE'
+    || !session.currentPhase
+    || !TRADE_PHASES.includes(session.currentPhase)
+}
+
+/**
+ * Chiude le offerte e notifica tutte le parti, un evento per lega.
+ * Aggiornamento condizionato su status PENDING offerta per offerta: quelle
+ * accettate/rifiutate nel frattempo non vengono toccate né notificate.
+ */
+async function closeOffers(
+  offers: SweptOffer[],
+  status: TradeStatus,
+  reason: TradeInvalidationReason,
+  now: Date
+): Promise<number> {
+  if (offers.length === 0) return 0
+
+  const closed: SweptOffer[] = []
+  for (const offer of offers) {
+    const where = { id: offer.id, status: TradeStatus.PENDING }
+    const data = { status, respondedAt: now }
+    const result = offer.kind === 'offer'
+      ? await prisma.tradeOffer.updateMany({ where, data })
+      : await prisma.multiPartyTrade.updateMany({ where, data })
+    if (result.count > 0) closed.push(offer)
+  }
+
+  const byLeague = new Map<string, SweptOffer[]>()
+  for (const offer of closed) {
+    const leagueOffers = byLeague.get(offer.leagueId) ?? []
+    leagueOffers.push(offer)
+    byLeague.set(offer.leagueId, leagueOffers)
+  }
+
+  for (const [leagueId, leagueOffers] of byLeague) {
+    await publishDomainEvent(DomainEventTypes.TRADE_INVALIDATED, {
+      leagueId,
+      tradeIds: leagueOffers.map(o => o.id),
+      affectedUserIds: [...new Set(leagueOffers.flatMap(o => o.userIds))],
+      reason,
+    })
+  }
+
+  return closed.length
+}
+
+/**
+ * Esegue un passaggio completo del sweeper su offerte 1:1 e proposte a più
+ * squadre. Le tre verifiche sono in ordine: un'offerta scaduta non viene anche
+ * annullata o invalidata.
+ */
+export async function sweepTradeOffers(now: Date = new Date()): Promise<ServiceResult> {
+  const sessionSelect = { select: { leagueId: true, status: true, currentPhase: true } } as const
+  const [pendingOffers, pendingMultiParty] = await Promise.all([
+    prisma.tradeOffer.findMany({
+      where: { status: TradeStatus.PENDING },
+      select: {
+        id: true,
+        senderId: true,
+        receiverId: true,
+        offeredPlayers: true,
+        requestedPlayers: true,
+        expiresAt: true,
+        marketSession: sessionSelect,
+      },
+    }),
+    prisma.multiPartyTrade.findMany({
+      where: { status: TradeStatus.PENDING },
+      select: {
+        id: true,
+        expiresAt: true,
+        transfers: { select: { fromMemberId: true, rosterId: true } },
+        participants: { select: { member: { select: { userId: true } } } },
+        marketSession: sessionSelect,
+      },
+    }),
+  ])
+
+  const expired: SweptOffer[] = []
+  const phaseEnded: SweptOffer[] = []
+  const stillOpenOffers: typeof pendingOffers = []
+  const stillOpenMultiParty: typeof pendingMultiParty = []
+
+  // 1. Scadute  2. Sessione uscita dalla fase scambi
+  for (const offer of pendingOffers) {
+    const swept: SweptOffer = {
+      id: offer.id,
+      kind: 'offer',
+      leagueId: offer.marketSession.leagueId,
+      userIds: [offer.senderId, offer.receiverId],
+    }
+    if (offer.expiresAt && offer.expiresAt < now) expired.push(swept)
+    else if (isPhaseEnded(offer.marketSession)) phaseEnded.push(swept)
+    else stillOpenOffers.push(offer)
+  }
+  for (const trade of pendingMultiParty) {
+    const swept: SweptOffer = {
+      id: trade.id,
+      kind: 'multiParty',
+      leagueId: trade.marketSession.leagueId,
+      userIds: trade.participants.map(p => p.member.userId),
+    }
+    if (trade.expiresAt && trade.expiresAt < now) expired.push(swept)
+    else if (isPhaseEnded(trade.marketSession)) phaseEnded.push(swept)
+    else stillOpenMultiParty.push(trade)
+  }
+
+  // 3. Giocatori spostati altrove (asta, svincolo, scambio non tracciato)
+  const rosterIds = [...new Set([
+    ...stillOpenOffers.flatMap(o => [
+      ...(o.offeredPlayers as string[]),
+      ...(o.requestedPlayers as string[]),
+    ]),
+    ...stillOpenMultiParty.flatMap(t => t.transfers.flatMap(tr => (tr.rosterId ? [tr.rosterId] : []))),
+  ])]
+  const rosters = rosterIds.length > 0
+    ? await prisma.playerRoster.findMany({
+        where: { id: { in: rosterIds } },
+        select: { id: true, status: true, leagueMemberId: true, leagueMember: { select: { userId: true } } },
+      })
+    : []
+  const activeRosters = new Map(
+    rosters
+      .filter(r => r.status === RosterStatus.ACTIVE)
+      .map(r => [r.id, r])
+  )
+  const playersMoved: SweptOffer[] = [
+    ...stillOpenOffers
+      .filter(o =>
+        (o.offeredPlayers as string[]).some(id => activeRosters.get(id)?.leagueMember.userId !== o.senderId)
+        || (o.requestedPlayers as string[]).some(id => activeRosters.get(id)?.leagueMember.userId !== o.receiverId)
+      )
+      .map(o => ({
+        id: o.id,
+        kind: 'offer' as const,
+        leagueId: o.marketSession.leagueId,
+        userIds: [o.senderId, o.receiverId],
+      })),
+    ...stillOpenMultiParty
+      .filter(t => t.transfers.some(tr => tr.rosterId && activeRosters.get(tr.rosterId)?.leagueMemberId !== tr.fromMemberId))
+      .map(t => ({
+        id: t.id,
+        kind: 'multiParty' as const,
+        leagueId: t.marketSession.leagueId,
+        userIds: t.participants.map(p => p.member.userId),
+      })),
+  ]
+
+  const result: TradeSweepResult = {
+    expired: await closeOffers(expired, TradeStatus.EXPIRED, 'EXPIRED', now),
+    cancelled: await closeOffers(phaseEnded, TradeStatus.CANCELLED, 'PHASE_ENDED', now),
+    invalidated: await closeOffers(playersMoved, TradeStatus.INVALIDATED, 'PLAYER_MOVED', now),
+  }
+
+  return {
+    success: true,
+    message: `Offerte scadute: ${result.expired}, annullate: ${result.cancelled}, invalidate: ${result.invalidated}`,
+    data: result,
+  }
+}
@@ -1,14 +1,91 @@
 import { MemberStatus, RosterStatus, TradeStatus } from '@prisma/client'
 import type { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
-import { recordMovement } from './movement.service'
-import { notifyTradeOffer, notifyTradeInvalidated } from './notification.service'
-import { triggerTradeOfferReceived, triggerTradeUpdated } from './pusher.service'
+import { DomainEventTypes } from '@/shared/infrastructure/events'
+import type { PlayerMovement } from '@/shared/infrastructure/events'
+import { publishDomainEvent } from './domain-events.service'
+import { modifyContractPostAcquisition, validatePostAcquisitionTerms } from './contract.service'
+import { captureState, recordCompensation } from './compensation.service'
+import { logAction } from './admin.service'
+import { diffSnapshots } from '../utils/compensation'
+import { resolveContractRuleset } from '../utils/contract-rules'
 import type { ServiceResult } from '@/shared/types/service-result'
 
+// ==================== TYPES ====================
+
+/**
+ * Clausola contrattuale concordata nello scambio: chi riceve il giocatore
+ * rinegozia ingaggio/durata all'arrivo (regole di modifica post-acquisizione).
+ */
+export interface TradeContractTerm {
+  rosterId: string
+  salary: number
+  duration: number
+}
+
+export interface TradeExtraTerms {
+  deferredOfferedBudget?: number
+  deferredRequestedBudget?: number
+  contractTerms?: TradeContractTerm[]
+}
+
+function getContractTerms(contractTerms: Prisma.JsonValue | null): TradeContractTerm[] {
+  return (contractTerms ?? []) as unknown as TradeContractTerm[]
+}
+
+export function getAgreedContract(contractTerms: Prisma.JsonValue | null, rosterId: string): { salary: number; duration: number } | null {
+  const term = getContractTerms(contractTerms).find(t => t.rosterId === rosterId)
+  return term ? { salary: term.salary, duration: term.duration } : null
+}
+
+/**
+ * Verifica le clausole contrattuali sui contratti attuali dei giocatori scambiati.
+ * Ritorna il messaggio di errore, o null se tutte le clausole sono applicabili.
+ */
+async function validateContractTerms(
+  leagueId: string,
+  contractTerms: TradeContractTerm[],
+  involvedPlayerIds: string[]
+): Promise<string | null> {
+  if (contractTerms.length === 0) return null
+
+  const rosterIds = contractTerms.map(t => t.rosterId)
+  if (new Set(rosterIds).size !== rosterIds.length) {
+    return 'Una sola clausola contrattuale per giocatore'
+  }
+  if (rosterIds.some(id => !involvedPlayerIds.includes(id))) {
+    return 'Le clausole contrattuali possono riguardare solo giocatori inclusi nello scambio'
+  }
+
+  const [league, rosters] = await Promise.all([
+    prisma.league.findUnique({ where: { id: leagueId }, select: { contractRuleset: true } }),
+    prisma.playerRoster.findMany({
+      where: { id: { in: rosterIds } },
+      include: { player: true, contract: true },
+    }),
+  ])
+  const rules = resolveContractRuleset(league?.contractRuleset)
+
+  for (const term of contractTerms) {
+    const roster = rosters.find(r => r.id === term.rosterId)
+    if (!roster?.contract) {
+      return 'Clausola contrattuale su un giocatore senza contratto'
+    }
+    if (!Number.isInteger(term.salary) || !Number.isInteger(term.duration)) {
+      return 'Ingaggio e durata delle clausole devono essere numeri interi'
+    }
+    const error = validatePostAcquisitionTerms(roster.contract, term.salary, term.duration, rules.maxDuration)
+    if (error) {
+      return `${roster.player.name}: ${error}`
+    }
+  }
+
+  return null
+}
+
 // ==================== PHASE CHECK ====================
 
-async function isInTradePhase(leagueId: string): Promise<boolean> {
+export async function isInTradePhase(leagueId: string): Promise<boolean> {
   const activeSession = await prisma.marketSession.findFirst({
     where: {
       leagueId,
@@ -32,8 +109,13 @@ export async function createTradeOffer(
   offeredBudget: number = 0,
   requestedBudget: number = 0,
   message?: string,
-  durationHours: number = 24 // Default 24 hours
+  durationHours: number = 24, // Default 24 hours
+  extraTerms: TradeExtraTerms = {}
 ): Promise<ServiceResult> {
+  const deferredOfferedBudget = extraTerms.deferredOfferedBudget ?? 0
+  const deferredRequestedBudget = extraTerms.deferredRequestedBudget ?? 0
+  const contractTerms = extraTerms.contractTerms ?? []
+
   // Verify sender membership
   const fromMember = await prisma.leagueMember.findFirst({
     where: {
@@ -106,6 +188,17 @@ export async function createTradeOffer(
     return { success: false, message: `Non hai abbastanza budget. Disponibile: ${fromMember.currentBudget}` }
   }
 
+  // Deferred budget is paid at the next session: only sign and integrity are checked here
+  if (!Number.isInteger(deferredOfferedBudget) || !Number.isInteger(deferredRequestedBudget)
+      || deferredOfferedBudget < 0 || deferredRequestedBudget < 0) {
+    return { success: false, message: 'I budget differiti devono essere interi positivi' }
+  }
+
+  const contractTermsError = await validateContractTerms(leagueId, contractTerms, [...offeredPlayerIds, ...requestedPlayerIds])
+  if (contractTermsError) {
+    return { success: false, message: contractTermsError }
+  }
+
   // Get active session (required for trade offer)
   const activeSession = await prisma.marketSession.findFirst({
     where: {
@@ -128,7 +221,17 @@ export async function createTradeOffer(
     },
   })
 
-  if (reverseTrade) {
+  // Same rule for multi-party trades proposed by the receiver to the sender
+  const reverseMultiParty = reverseTrade ? null : await prisma.multiPartyTrade.findFirst({
+    where: {
+      marketSessionId: activeSession.id,
+      proposerId: toMember.id,
+      participants: { some: { member: { userId: fromUserId } } },
+      status: TradeStatus.ACCEPTED,
+    },
+  })
+
+  if (reverseTrade || reverseMultiParty) {
     return { success: false, message: 'Non puoi fare uno scambio inverso nella stessa sessione di mercato' }
   }
 
@@ -172,6 +275,9 @@ export async function createTradeOffer(
       requestedPlayers: requestedPlayerIds,
       offeredBudget,
       requestedBudget,
+      deferredOfferedBudget,
+      deferredRequestedBudget,
+      contractTerms: contractTerms.length > 0 ? (contractTerms as unknown as Prisma.InputJsonValue) : undefined,
       involvedPlayers,
       message,
       status: TradeStatus.PENDING,
@@ -183,21 +289,14 @@ export async function createTradeOffer(
     },
   })
 
-  // Send push notification to receiver (fire-and-forget)
-  const league = await prisma.league.findUnique({ where: { id: leagueId }, select: { name: true } })
-  notifyTradeOffer(
-    toMember.userId,
-    trade.sender.username,
-    league?.name || 'Lega'
-  ).catch(() => {}) // non-blocking
-
-  // Real-time Pusher notification (fire-and-forget)
-  triggerTradeOfferReceived(leagueId, {
+  // Push notification + Pusher al destinatario (sottoscrittori TRADE_OFFERED)
+  await publishDomainEvent(DomainEventTypes.TRADE_OFFERED, {
     tradeId: trade.id,
+    leagueId,
+    senderId: fromUserId,
     senderUsername: trade.sender.username,
-    receiverUserId: toMember.userId,
-    timestamp: new Date().toISOString(),
-  }).catch(() => {})
+    receiverId: toMember.userId,
+  })
 
   return {
     success: true,
@@ -273,6 +372,8 @@ export async function getReceivedOffers(leagueId: string, userId: string): Promi
         sender: offer.sender,
         offeredBudget: offer.offeredBudget,
         requestedBudget: offer.requestedBudget,
+        deferredOfferedBudget: offer.deferredOfferedBudget,
+        deferredRequestedBudget: offer.deferredRequestedBudget,
         message: offer.message,
         status: offer.status,
         createdAt: offer.createdAt,
@@ -287,6 +388,7 @@ export async function getReceivedOffers(leagueId: string, userId: string): Promi
             duration: r.contract.duration,
             rescissionClause: r.contract.rescissionClause,
           } : null,
+          agreedContract: getAgreedContract(offer.contractTerms, r.id),
         })),
         requestedPlayerDetails: requestedPlayers.map(r => ({
           id: r.player.id,
@@ -298,6 +400,7 @@ export async function getReceivedOffers(leagueId: string, userId: string): Promi
             duration: r.contract.duration,
             rescissionClause: r.contract.rescissionClause,
           } : null,
+          agreedContract: getAgreedContract(offer.contractTerms, r.id),
         })),
       }
     })
@@ -373,6 +476,8 @@ export async function getSentOffers(leagueId: string, userId: string): Promise<S
         receiver: offer.receiver,
         offeredBudget: offer.offeredBudget,
         requestedBudget: offer.requestedBudget,
+        deferredOfferedBudget: offer.deferredOfferedBudget,
+        deferredRequestedBudget: offer.deferredRequestedBudget,
         message: offer.message,
         status: offer.status,
         createdAt: offer.createdAt,
@@ -387,6 +492,7 @@ export async function getSentOffers(leagueId: string, userId: string): Promise<S
             duration: r.contract.duration,
             rescissionClause: r.contract.rescissionClause,
           } : null,
+          agreedContract: getAgreedContract(offer.contractTerms, r.id),
         })),
         requestedPlayerDetails: requestedPlayers.map(r => ({
           id: r.player.id,
@@ -398,6 +504,7 @@ export async function getSentOffers(leagueId: string, userId: string): Promise<S
             duration: r.contract.duration,
             rescissionClause: r.contract.rescissionClause,
           } : null,
+          agreedContract: getAgreedContract(offer.contractTerms, r.id),
         })),
       }
     })
@@ -489,11 +596,11 @@ export async function acceptTrade(tradeId: string, userId: string): Promise<Serv
         where: { id: tradeId },
         data: { status: TradeStatus.INVALIDATED, respondedAt: new Date() },
       })
-      triggerTradeUpdated(leagueId, {
-        tradeId,
-        newStatus: 'INVALIDATED',
-        timestamp: new Date().toISOString(),
-      }).catch(() => {})
+      await publishDomainEvent(DomainEventTypes.TRADE_INVALIDATED, {
+        leagueId,
+        tradeIds: [tradeId],
+        affectedUserIds: [],
+      })
       return { success: false, message: 'Alcuni giocatori offerti non sono più nella rosa del mittente. L\'offerta è stata invalidata.' }
     }
   }
@@ -511,106 +618,176 @@ export async function acceptTrade(tradeId: string, userId: string): Promise<Serv
         where: { id: tradeId },
         data: { status: TradeStatus.INVALIDATED, respondedAt: new Date() },
       })
-      triggerTradeUpdated(leagueId, {
-        tradeId,
-        newStatus: 'INVALIDATED',
-        timestamp: new Date().toISOString(),
-      }).catch(() => {})
+      await publishDomainEvent(DomainEventTypes.TRADE_INVALIDATED, {
+        leagueId,
+        tradeIds: [tradeId],
+        affectedUserIds: [],
+      })
       return { success: false, message: 'Alcuni giocatori richiesti non sono più nella rosa del destinatario. L\'offerta è stata invalidata.' }
     }
   }
 
+  // Contract terms may no longer apply if contracts changed since the offer was made
+  const contractTerms = getContractTerms(trade.contractTerms)
+  const contractTermsError = await validateContractTerms(leagueId, contractTerms, [...offeredPlayerIds, ...requestedPlayerIds])
+  if (contractTermsError) {
+    return { success: false, message: `Clausole contrattuali non più applicabili: ${contractTermsError}` }
+  }
+
+  // Snapshot contracts before the trade (old values for movements)
+  const contractsBefore = await prisma.playerContract.findMany({
+    where: { rosterId: { in: [...offeredPlayerIds, ...requestedPlayerIds] } },
+  })
+  const contractBeforeByRoster = new Map(contractsBefore.map(c => [c.rosterId, c]))
+
+  const journalRefs = {
+    memberIds: [senderMember.id, receiverMember.id],
+    rosterIds: [...offeredPlayerIds, ...requestedPlayerIds],
+    contractIds: contractsBefore.map(c => c.id),
+  }
+
   // Execute trade in transaction
-  await prisma.$transaction(async (tx) => {
-    // Transfer offered players (from sender to receiver)
-    for (const rosterId of offeredPlayerIds) {
-      await tx.playerRoster.update({
-        where: { id: rosterId },
-        data: {
-          leagueMemberId: receiverMember.id,
-          acquisitionType: 'TRADE', // Mark as acquired via trade - contract cannot be modified
-        },
-      })
-      // Update contract ownership
-      await tx.playerContract.updateMany({
-        where: { rosterId },
-        data: { leagueMemberId: receiverMember.id },
-      })
-    }
+  try {
+    await prisma.$transaction(async (tx) => {
+      const stateBefore = await captureState(tx, journalRefs)
+
+      // Transfer offered players (from sender to receiver)
+      for (const rosterId of offeredPlayerIds) {
+        await tx.playerRoster.update({
+          where: { id: rosterId },
+          data: {
+            leagueMemberId: receiverMember.id,
+            acquisitionType: 'TRADE', // Mark as acquired via trade - contract cannot be modified
+          },
+        })
+        // Update contract ownership
+        await tx.playerContract.updateMany({
+          where: { rosterId },
+          data: { leagueMemberId: receiverMember.id },
+        })
+      }
+
+      // Transfer requested players (from receiver to sender)
+      for (const rosterId of requestedPlayerIds) {
+        await tx.playerRoster.update({
+          where: { id: rosterId },
+          data: {
+            leagueMemberId: senderMember.id,
+            acquisitionType: 'TRADE', // Mark as acquired via trade - contract cannot be modified
+          },
+        })
+        // Update contract ownership
+        await tx.playerContract.updateMany({
+          where: { rosterId },
+          data: { leagueMemberId: senderMember.id },
+        })
+      }
+
+      // Transfer budget
+      if (trade.offeredBudget > 0) {
+        await tx.leagueMember.update({
+          where: { id: senderMember.id },
+          data: { currentBudget: { decrement: trade.offeredBudget } },
+        })
+        await tx.leagueMember.update({
+          where: { id: receiverMember.id },
+          data: { currentBudget: { increment: trade.offeredBudget } },
+        })
+      }
 
-    // Transfer requested players (from receiver to sender)
-    for (const rosterId of requestedPlayerIds) {
-      await tx.playerRoster.update({
-        where: { id: rosterId },
+      if (trade.requestedBudget > 0) {
+        await tx.leagueMember.update({
+          where: { id: receiverMember.id },
+          data: { currentBudget: { decrement: trade.requestedBudget } },
+        })
+        await tx.leagueMember.update({
+          where: { id: senderMember.id },
+          data: { currentBudget: { increment: trade.requestedBudget } },
+        })
+      }
+
+      // Apply contract terms: the new owner renegotiates on arrival
+      for (const term of contractTerms) {
+        const contract = contractBeforeByRoster.get(term.rosterId)
+        const newOwnerUserId = offeredPlayerIds.includes(term.rosterId) ? trade.receiverId : trade.senderId
+        if (!contract) {
+          throw new Error('Contratto non trovato')
+        }
+        const modification = await modifyContractPostAcquisition(contract.id, newOwnerUserId, term.salary, term.duration, tx)
+        if (!modification.success) {
+          throw new Error(modification.message)
+        }
+      }
+
+      // Mark trade as accepted
+      await tx.tradeOffer.update({
+        where: { id: tradeId },
         data: {
-          leagueMemberId: senderMember.id,
-          acquisitionType: 'TRADE', // Mark as acquired via trade - contract cannot be modified
+          status: TradeStatus.ACCEPTED,
+          respondedAt: new Date(),
         },
       })
-      // Update contract ownership
-      await tx.playerContract.updateMany({
-        where: { rosterId },
-        data: { leagueMemberId: senderMember.id },
-      })
-    }
-
-    // Transfer budget
-    if (trade.offeredBudget > 0) {
-      await tx.leagueMember.update({
-        where: { id: senderMember.id },
-        data: { currentBudget: { decrement: trade.offeredBudget } },
-      })
-      await tx.leagueMember.update({
-        where: { id: receiverMember.id },
-        data: { currentBudget: { increment: trade.offeredBudget } },
-      })
-    }
 
-    if (trade.requestedBudget > 0) {
-      await tx.leagueMember.update({
-        where: { id: receiverMember.id },
-        data: { currentBudget: { decrement: trade.requestedBudget } },
-      })
-      await tx.leagueMember.update({
-        where: { id: senderMember.id },
-        data: { currentBudget: { increment: trade.requestedBudget } },
+      await recordCompensation(tx, {
+        leagueId,
+        userId,
+        operation: 'TRADE_ACCEPTED',
+        entityType: 'TradeOffer',
+        entityId: tradeId,
+        description: `Scambio tra ${trade.sender.username} e ${trade.receiver.username}`,
+        steps: [
+          ...diffSnapshots(stateBefore, await captureState(tx, journalRefs)),
+          { kind: 'RECORD', model: 'tradeOffer', id: tradeId, data: { status: TradeStatus.CANCELLED } },
+          // Solo i trasferimenti: i pagamenti differiti hanno una voce propria
+          { kind: 'MOVEMENTS', filter: { tradeId, movementTypes: ['TRADE'] } },
+        ],
       })
-    }
-
-    // Mark trade as accepted
-    await tx.tradeOffer.update({
-      where: { id: tradeId },
-      data: {
-        status: TradeStatus.ACCEPTED,
-        respondedAt: new Date(),
-      },
     })
-  })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Errore durante lo scambio'
+    return { success: false, message }
+  }
 
   // === AUTO-INVALIDATE CONFLICTING OFFERS ===
   const allInvolvedPlayerIds = [...offeredPlayerIds, ...requestedPlayerIds]
+  const overlaps = (involved: Prisma.JsonValue) => (involved as string[]).some(pid => allInvolvedPlayerIds.includes(pid))
 
-  // Find all PENDING offers in this session that may overlap
-  const conflictingOffers = await prisma.tradeOffer.findMany({
-    where: {
-      id: { not: tradeId },
-      marketSessionId: trade.marketSessionId,
-      status: TradeStatus.PENDING,
-    },
-  })
+  // Find all PENDING offers (1:1 and multi-party) in this session that may overlap
+  const [conflictingOffers, conflictingMultiParty] = await Promise.all([
+    prisma.tradeOffer.findMany({
+      where: {
+        id: { not: tradeId },
+        marketSessionId: trade.marketSessionId,
+        status: TradeStatus.PENDING,
+      },
+    }),
+    prisma.multiPartyTrade.findMany({
+      where: {
+        marketSessionId: trade.marketSessionId,
+        status: TradeStatus.PENDING,
+      },
+      select: { id: true, involvedPlayers: true, participants: { select: { member: { select: { userId: true } } } } },
+    }),
+  ])
 
   // Filter by involvedPlayers overlap (JSON field)
-  const offersToInvalidate = conflictingOffers.filter(offer => {
-    const involved = offer.involvedPlayers as string[]
-    return involved.some(pid => allInvolvedPlayerIds.includes(pid))
-  })
+  const offersToInvalidate = conflictingOffers.filter(offer => overlaps(offer.involvedPlayers))
+  const multiPartyToInvalidate = conflictingMultiParty.filter(t => overlaps(t.involvedPlayers))
 
-  if (offersToInvalidate.length > 0) {
+  if (offersToInvalidate.length > 0 || multiPartyToInvalidate.length > 0) {
     // Bulk update to INVALIDATED
-    await prisma.tradeOffer.updateMany({
-      where: { id: { in: offersToInvalidate.map(o => o.id) } },
-      data: { status: TradeStatus.INVALIDATED, respondedAt: new Date() },
-    })
+    if (offersToInvalidate.length > 0) {
+      await prisma.tradeOffer.updateMany({
+        where: { id: { in: offersToInvalidate.map(o => o.id) } },
+        data: { status: TradeStatus.INVALIDATED, respondedAt: new Date() },
+      })
+    }
+    if (multiPartyToInvalidate.length > 0) {
+      await prisma.multiPartyTrade.updateMany({
+        where: { id: { in: multiPartyToInvalidate.map(t => t.id) }, status: TradeStatus.PENDING },
+        data: { status: TradeStatus.INVALIDATED, respondedAt: new Date() },
+      })
+    }
 
     // Collect affected managers (exclude the 2 already in the accepted trade)
     const affectedUserIds = new Set<string>()
@@ -618,28 +795,23 @@ export async function acceptTrade(tradeId: string, userId: string): Promise<Serv
       affectedUserIds.add(offer.senderId)
       affectedUserIds.add(offer.receiverId)
     }
+    for (const multiParty of multiPartyToInvalidate) {
+      multiParty.participants.forEach(p => affectedUserIds.add(p.member.userId))
+    }
     affectedUserIds.delete(trade.senderId)
     affectedUserIds.delete(trade.receiverId)
 
-    // Send Pusher events for each invalidated offer
-    for (const offer of offersToInvalidate) {
-      triggerTradeUpdated(leagueId, {
-        tradeId: offer.id,
-        newStatus: 'INVALIDATED',
-        timestamp: new Date().toISOString(),
-      }).catch(() => {})
-    }
-
-    // Send push notifications to affected managers
-    if (affectedUserIds.size > 0) {
-      const league = await prisma.league.findUnique({ where: { id: leagueId }, select: { name: true } })
-      for (const uid of affectedUserIds) {
-        notifyTradeInvalidated(uid, league?.name || 'Lega').catch(() => {})
-      }
-    }
+    // Pusher per ogni offerta invalidata + push ai manager coinvolti
+    await publishDomainEvent(DomainEventTypes.TRADE_INVALIDATED, {
+      leagueId,
+      tradeIds: [...offersToInvalidate.map(o => o.id), ...multiPartyToInvalidate.map(t => t.id)],
+      affectedUserIds: [...affectedUserIds],
+    })
   }
 
-  // Record movements for each traded player
+  // Movements for each traded player (recorded by TRADE_ACCEPTED subscribers)
+  const movements: PlayerMovement[] = []
+
   // Get offered players details
   const offeredRosters = await prisma.playerRoster.findMany({
     where: { id: { in: offeredPlayerIds } },
@@ -647,15 +819,15 @@ export async function acceptTrade(tradeId: string, userId: string): Promise<Serv
   })
 
   for (const roster of offeredRosters) {
-    await recordMovement({
+    movements.push({
       leagueId,
       playerId: roster.playerId,
       movementType: 'TRADE',
       fromMemberId: senderMember.id,
       toMemberId: receiverMember.id,
-      oldSalary: roster.contract?.salary,
-      oldDuration: roster.contract?.duration,
-      oldClause: roster.contract?.rescissionClause,
+      oldSalary: contractBeforeByRoster.get(roster.id)?.salary,
+      oldDuration: contractBeforeByRoster.get(roster.id)?.duration,
+      oldClause: contractBeforeByRoster.get(roster.id)?.rescissionClause,
       newSalary: roster.contract?.salary,
       newDuration: roster.contract?.duration,
       newClause: roster.contract?.rescissionClause,
@@ -671,15 +843,15 @@ export async function acceptTrade(tradeId: string, userId: string): Promise<Serv
   })
 
   for (const roster of requestedRosters) {
-    await recordMovement({
+    movements.push({
       leagueId,
       playerId: roster.playerId,
       movementType: 'TRADE',
       fromMemberId: receiverMember.id,
       toMemberId: senderMember.id,
-      oldSalary: roster.contract?.salary,
-      oldDuration: roster.contract?.duration,
-      oldClause: roster.contract?.rescissionClause,
+      oldSalary: contractBeforeByRoster.get(roster.id)?.salary,
+      oldDuration: contractBeforeByRoster.get(roster.id)?.duration,
+      oldClause: contractBeforeByRoster.get(roster.id)?.rescissionClause,
       newSalary: roster.contract?.salary,
       newDuration: roster.contract?.duration,
       newClause: roster.contract?.rescissionClause,
@@ -712,12 +884,12 @@ export async function acceptTrade(tradeId: string, userId: string): Promise<Serv
     } : null,
   }))
 
-  // Real-time Pusher notification (fire-and-forget)
-  triggerTradeUpdated(leagueId, {
+  await publishDomainEvent(DomainEventTypes.TRADE_ACCEPTED, {
     tradeId,
-    newStatus: 'ACCEPTED',
-    timestamp: new Date().toISOString(),
-  }).catch(() => {})
+    leagueId,
+    marketSessionId: trade.marketSessionId,
+    movements,
+  })
 
   return {
     success: true,
@@ -757,12 +929,10 @@ export async function rejectTrade(tradeId: string, userId: string): Promise<Serv
     include: { marketSession: { select: { leagueId: true } } },
   })
 
-  // Real-time Pusher notification (fire-and-forget)
-  triggerTradeUpdated(updatedTrade.marketSession.leagueId, {
+  await publishDomainEvent(DomainEventTypes.TRADE_REJECTED, {
     tradeId,
-    newStatus: 'REJECTED',
-    timestamp: new Date().toISOString(),
-  }).catch(() => {})
+    leagueId: updatedTrade.marketSession.leagueId,
+  })
 
   return {
     success: true,
@@ -779,7 +949,8 @@ export async function counterOffer(
   requestedPlayerIds: string[],
   offeredBudget: number = 0,
   requestedBudget: number = 0,
-  message?: string
+  message?: string,
+  extraTerms: TradeExtraTerms = {}
 ): Promise<ServiceResult> {
   const originalTrade = await prisma.tradeOffer.findUnique({
     where: { id: tradeId },
@@ -837,11 +1008,18 @@ export async function counterOffer(
     requestedPlayerIds,
     offeredBudget,
     requestedBudget,
-    message || `Controofferta a offerta #${tradeId.slice(-6)}`
+    message || `Controofferta a offerta #${tradeId.slice(-6)}`,
+    undefined,
+    extraTerms
   )
 
   if (result.success) {
     result.message = 'Controofferta inviata'
+    await publishDomainEvent(DomainEventTypes.COUNTER_OFFER_MADE, {
+      originalTradeId: tradeId,
+      counterTradeId: (result.data as { id: string }).id,
+      leagueId,
+    })
   }
 
   return result
@@ -898,6 +1076,8 @@ export async function getTradeHistory(leagueId: string, userId: string): Promise
         receiver: trade.receiver,
         offeredBudget: trade.offeredBudget,
         requestedBudget: trade.requestedBudget,
+        deferredOfferedBudget: trade.deferredOfferedBudget,
+        deferredRequestedBudget: trade.deferredRequestedBudget,
         message: trade.message,
         status: trade.status,
         createdAt: trade.createdAt,
@@ -912,6 +1092,7 @@ export async function getTradeHistory(leagueId: string, userId: string): Promise
             duration: r.contract.duration,
             rescissionClause: r.contract.rescissionClause,
           } : null,
+          agreedContract: getAgreedContract(trade.contractTerms, r.id),
         })),
         requestedPlayerDetails: requestedPlayers.map(r => ({
           id: r.player.id,
@@ -923,6 +1104,7 @@ export async function getTradeHistory(leagueId: string, userId: string): Promise
             duration: r.contract.duration,
             rescissionClause: r.contract.rescissionClause,
           } : null,
+          agreedContract: getAgreedContract(trade.contractTerms, r.id),
         })),
       }
     })
@@ -964,12 +1146,10 @@ export async function cancelTradeOffer(tradeId: string, userId: string): Promise
     include: { marketSession: { select: { leagueId: true } } },
   })
 
-  // Real-time Pusher notification (fire-and-forget)
-  triggerTradeUpdated(cancelledTrade.marketSession.leagueId, {
+  await publishDomainEvent(DomainEventTypes.TRADE_CANCELLED, {
     tradeId,
-    newStatus: 'CANCELLED',
-    timestamp: new Date().toISOString(),
-  }).catch(() => {})
+    leagueId: cancelledTrade.marketSession.leagueId,
+  })
 
   return {
     success: true,
@@ -1043,3 +1223,155 @@ export async function getOngoingTradesIndicator(
     },
   }
 }
+
+// ==================== DEFERRED BUDGET ====================
+
+/**
+ * Applica i budget differiti degli scambi accettati nelle sessioni precedenti.
+ * Invocato all'apertura di una nuova sessione di mercato (see: auction.service.ts).
+ * Il pagamento è un impegno già accettato: viene applicato anche se porta il
+ * budget del pagante in negativo (segnalato nei warnings). Se una delle due
+ * parti non è più attiva nella lega il pagamento viene chiuso senza trasferimento.
+ */
+export async function settleDeferredTradePayments(
+  leagueId: string,
+  sessionId: string,
+  adminUserId: string | null = null
+): Promise<ServiceResult> {
+  const trades = await prisma.tradeOffer.findMany({
+    where: {
+      status: TradeStatus.ACCEPTED,
+      deferredSettledAt: null,
+      marketSessionId: { not: sessionId },
+      marketSession: { leagueId },
+      OR: [
+        { deferredOfferedBudget: { gt: 0 } },
+        { deferredRequestedBudget: { gt: 0 } },
+      ],
+    },
+    orderBy: { respondedAt: 'asc' },
+  })
+
+  if (trades.length === 0) {
+    return { success: true, data: { settled: 0, skipped: 0 } }
+  }
+
+  const members = await prisma.leagueMember.findMany({
+    where: {
+      leagueId,
+      userId: { in: [...new Set(trades.flatMap(t => [t.senderId, t.receiverId]))] },
+      status: MemberStatus.ACTIVE,
+    },
+  })
+  const memberByUserId = new Map(members.map(m => [m.userId, m]))
+
+  // Il movimento del pagamento è agganciato al primo giocatore dello scambio
+  const firstRosterIds = trades
+    .map(t => (t.involvedPlayers as string[])[0])
+    .filter((id): id is string => !!id)
+  const rosters = firstRosterIds.length > 0
+    ? await prisma.playerRoster.findMany({
+        where: { id: { in: firstRosterIds } },
+        select: { id: true, playerId: true },
+      })
+    : []
+  const playerIdByRoster = new Map(rosters.map(r => [r.id, r.playerId]))
+
+  let settled = 0
+  let skipped = 0
+  const budgetDelta = new Map<string, number>()
+  const settlements: Array<{ tradeId: string; settled: boolean; payerMemberId?: string; payeeMemberId?: string; amount: number }> = []
+
+  await prisma.$transaction(async (tx) => {
+    const now = new Date()
+    for (const trade of trades) {
+      const senderMember = memberByUserId.get(trade.senderId)
+      const receiverMember = memberByUserId.get(trade.receiverId)
+
+      if (senderMember && receiverMember) {
+        // Net amount paid by the sender (negative: paid by the receiver)
+        const net = trade.deferredOfferedBudget - trade.deferredRequestedBudget
+        if (net !== 0) {
+          await tx.leagueMember.update({
+            where: { id: senderMember.id },
+            data: { currentBudget: { decrement: net } },
+          })
+          await tx.leagueMember.update({
+            where: { id: receiverMember.id },
+            data: { currentBudget: { increment: net } },
+          })
+          budgetDelta.set(senderMember.id, (budgetDelta.get(senderMember.id) ?? 0) - net)
+          budgetDelta.set(receiverMember.id, (budgetDelta.get(receiverMember.id) ?? 0) + net)
+
+          const payer = net > 0 ? senderMember : receiverMember
+          const payee = net > 0 ? receiverMember : senderMember
+          const playerId = playerIdByRoster.get((trade.involvedPlayers as string[])[0] ?? '')
+          const movement = playerId
+            ? await tx.playerMovement.create({
+                data: {
+                  leagueId,
+                  playerId,
+                  movementType: 'DEFERRED_PAYMENT',
+                  fromMemberId: payer.id,
+                  toMemberId: payee.id,
+                  price: Math.abs(net),
+                  tradeId: trade.id,
+                  marketSessionId: sessionId,
+                },
+              })
+            : null
+
+          await recordCompensation(tx, {
+            leagueId,
+            userId: adminUserId,
+            operation: 'TRADE_DEFERRED_PAYMENT_SETTLED',
+            entityType: 'TradeOffer',
+            entityId: trade.id,
+            description: `Pagamento differito di ${Math.abs(net)} da ${payer.teamName || 'manager'} a ${payee.teamName || 'manager'}`,
+            steps: [
+              { kind: 'BUDGET', memberId: senderMember.id, delta: net },
+              { kind: 'BUDGET', memberId: receiverMember.id, delta: -net },
+              { kind: 'RECORD', model: 'tradeOffer', id: trade.id, data: { deferredSettledAt: null, deferredSettledSessionId: null } },
+              ...(movement ? [{ kind: 'MOVEMENTS' as const, ids: [movement.id] }] : []),
+            ],
+          })
+          settlements.push({ tradeId: trade.id, settled: true, payerMemberId: payer.id, payeeMemberId: payee.id, amount: Math.abs(net) })
+        } else {
+          settlements.push({ tradeId: trade.id, settled: true, amount: 0 })
+        }
+        settled++
+      } else {
+        settlements.push({ tradeId: trade.id, settled: false, amount: 0 })
+        skipped++
+      }
+
+      await tx.tradeOffer.update({
+        where: { id: trade.id },
+        data: { deferredSettledAt: now, deferredSettledSessionId: sessionId },
+      })
+    }
+  })
+
+  for (const settlement of settlements) {
+    await logAction(
+      adminUserId,
+      leagueId,
+      settlement.settled ? 'TRADE_DEFERRED_PAYMENT_SETTLED' : 'TRADE_DEFERRED_PAYMENT_CANCELLED',
+      'TradeOffer',
+      settlement.tradeId,
+      undefined,
+      { ...settlement, sessionId }
+    )
+  }
+
+  const warnings = members
+    .filter(m => m.currentBudget + (budgetDelta.get(m.id) ?? 0) < 0)
+    .map(m => `${m.teamName || m.userId}: budget negativo dopo i pagamenti differiti (${m.currentBudget + (budgetDelta.get(m.id) ?? 0)})`)
+
+  return {
+    success: true,
+    message: `Pagamenti differiti applicati: ${settled}${skipped > 0 ? `, annullati: ${skipped}` : ''}`,
+    data: { settled, skipped },
+    warnings: warnings.length > 0 ? warnings : undefined,
+  }
+}
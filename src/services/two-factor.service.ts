@@ -0,0 +1,370 @@
+/**
+ * two-factor.service.ts - Autenticazione a due fattori (TOTP)
+ *
+ * Configurazione tramite QR code per le app authenticator, codici di
+ * recupero monouso e dispositivi attendibili che saltano la verifica per
+ * 30 giorni. La 2FA è obbligatoria per i superadmin e per gli ADMIN delle
+ * leghe che la richiedono (requireAdminTwoFactor): in quel caso il login
+ * passa dalla configurazione prima di emettere i token.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import crypto from 'crypto'
+import QRCode from 'qrcode'
+import { MemberRole, MemberStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { ServiceResult } from '@/shared/types/service-result'
+import { hashToken, type TwoFactorChallengePurpose } from '../utils/jwt'
+import {
+  buildOtpauthUrl,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from '../utils/totp'
+
+const TOTP_ISSUER = 'Fantacontratti'
+
+export const TRUSTED_DEVICE_TTL_MS = 30 * 24 * 60 * 60 * 1000 // 30 giorni
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt: Date | null
+  required: boolean
+  recoveryCodesRemaining: number
+  trustedDevices: number
+}
+
+// ==================== OBBLIGATORIETÀ ====================
+
+/**
+ * La 2FA è obbligatoria per i superadmin e per gli ADMIN attivi di almeno una
+ * lega con requireAdminTwoFactor.
+ */
+export async function isTwoFactorRequired(user: { id: string; isSuperAdmin: boolean }): Promise<boolean> {
+  if (user.isSuperAdmin) return true
+
+  const enforcingLeagues = await prisma.leagueMember.count({
+    where: {
+      userId: user.id,
+      role: MemberRole.ADMIN,
+      status: MemberStatus.ACTIVE,
+      league: { requireAdminTwoFactor: true },
+    },
+  })
+
+  return enforcingLeagues > 0
+}
+
+/**
+ * Passo a due fattori richiesto dopo una password corretta: VERIFY se la 2FA è
+ * attiva e il dispositivo non è attendibile, SETUP se è obbligatoria ma non
+ * ancora configurata, null se si possono emettere subito i token.
+ */
+export async function resolveLoginTwoFactorStep(
+  user: { id: string; isSuperAdmin: boolean; twoFactorEnabledAt: Date | null },
+  trustedDeviceToken?: string
+): Promise<TwoFactorChallengePurpose | null> {
+  if (user.twoFactorEnabledAt) {
+    if (trustedDeviceToken && await isTrustedDevice(user.id, trustedDeviceToken)) {
+      return null
+    }
+    return 'VERIFY'
+  }
+
+  return await isTwoFactorRequired(user) ? 'SETUP' : null
+}
+
+/**
+ * 2FA obbligatoria ma non ancora configurata: le sessioni aperte prima
+ * dell'obbligo non vengono rinnovate finché l'utente non la configura.
+ */
+export async function isTwoFactorSetupPending(userId: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, isSuperAdmin: true, twoFactorEnabledAt: true },
+  })
+
+  return !!user && !user.twoFactorEnabledAt && await isTwoFactorRequired(user)
+}
+
+// ==================== CONFIGURAZIONE ====================
+
+export async function getTwoFactorStatus(userId: string): Promise<ServiceResult> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      isSuperAdmin: true,
+      twoFactorEnabledAt: true,
+      twoFactorRecoveryCodes: true,
+      _count: { select: { trustedDevices: { where: { expiresAt: { gt: new Date() } } } } },
+    },
+  })
+
+  if (!user) {
+    return { success: false, message: 'Utente non trovato' }
+  }
+
+  const status: TwoFactorStatus = {
+    enabled: !!user.twoFactorEnabledAt,
+    enabledAt: user.twoFactorEnabledAt,
+    required: await isTwoFactorRequired(user),
+    recoveryCodesRemaining: user.twoFactorRecoveryCodes.length,
+    trustedDevices: user._count.trustedDevices,
+  }
+
+  return { success: true, data: status }
+}
+
+/**
+ * Genera un nuovo segreto (in attesa di conferma) e il QR code da scansionare.
+ * Il segreto diventa attivo solo con enableTwoFactor.
+ */
+export async function setupTwoFactor(userId: string): Promise<ServiceResult> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, twoFactorEnabledAt: true },
+  })
+
+  if (!user) {
+    return { success: false, message: 'Utente non trovato' }
+  }
+
+  if (user.twoFactorEnabledAt) {
+    return { success: false, message: 'Autenticazione a due fattori già attiva' }
+  }
+
+  const secret = generateTotpSecret()
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorSecret: secret, twoFactorLastStep: null },
+  })
+
+  const otpauthUrl = buildOtpauthUrl(secret, user.email, TOTP_ISSUER)
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl)
+
+  return { success: true, data: { secret, otpauthUrl, qrCodeDataUrl } }
+}
+
+/**
+ * Conferma la configurazione con il primo codice dell'app e restituisce i
+ * codici di recupero, mostrati una sola volta.
+ */
+export async function enableTwoFactor(userId: string, code: string): Promise<ServiceResult> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorSecret: true, twoFactorEnabledAt: true },
+  })
+
+  if (!user) {
+    return { success: false, message: 'Utente non trovato' }
+  }
+
+  if (user.twoFactorEnabledAt) {
+    return { success: false, message: 'Autenticazione a due fattori già attiva' }
+  }
+
+  if (!user.twoFactorSecret) {
+    return { success: false, message: 'Configurazione non avviata: genera prima il QR code' }
+  }
+
+  const step = verifyTotp(user.twoFactorSecret, code)
+  if (step === null) {
+    return { success: false, message: 'Codice non valido' }
+  }
+
+  const recoveryCodes = generateRecoveryCodes()
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorEnabledAt: new Date(),
+      twoFactorLastStep: step,
+      twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+    },
+  })
+
+  return {
+    success: true,
+    message: 'Autenticazione a due fattori attivata',
+    data: { recoveryCodes },
+  }
+}
+
+/**
+ * Disattiva la 2FA (non consentito se obbligatoria) e revoca i dispositivi attendibili.
+ */
+export async function disableTwoFactor(userId: string, code: string): Promise<ServiceResult> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, isSuperAdmin: true, twoFactorEnabledAt: true },
+  })
+
+  if (!user) {
+    return { success: false, message: 'Utente non trovato' }
+  }
+
+  if (!user.twoFactorEnabledAt) {
+    return { success: false, message: 'Autenticazione a due fattori non attiva' }
+  }
+
+  if (await isTwoFactorRequired(user)) {
+    return { success: false, message: 'L\'autenticazione a due fattori è obbligatoria per il tuo account' }
+  }
+
+  const verification = await verifyTwoFactorCode(userId, code)
+  if (!verification.success) {
+    return verification
+  }
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorLastStep: null,
+        twoFactorRecoveryCodes: [],
+      },
+    }),
+    prisma.trustedDevice.deleteMany({ where: { userId } }),
+  ])
+
+  return { success: true, message: 'Autenticazione a due fattori disattivata' }
+}
+
+/**
+ * Sostituisce i codici di recupero (i precedenti non sono più validi).
+ */
+export async function regenerateRecoveryCodes(userId: string, code: string): Promise<ServiceResult> {
+  const verification = await verifyTwoFactorCode(userId, code)
+  if (!verification.success) {
+    return verification
+  }
+
+  const recoveryCodes = generateRecoveryCodes()
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) },
+  })
+
+  return {
+    success: true,
+    message: 'Nuovi codici di recupero generati',
+    data: { recoveryCodes },
+  }
+}
+
+// ==================== VERIFICA ====================
+
+/**
+ * Verifica un codice dell'app (non riutilizzabile nello stesso intervallo) o un
+ * codice di recupero (consumato all'uso).
+ */
+export async function verifyTwoFactorCode(userId: string, code: string): Promise<ServiceResult> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorSecret: true, twoFactorEnabledAt: true, twoFactorRecoveryCodes: true },
+  })
+
+  if (!user?.twoFactorEnabledAt || !user.twoFactorSecret) {
+    return { success: false, message: 'Autenticazione a due fattori non attiva' }
+  }
+
+  const step = verifyTotp(user.twoFactorSecret, code)
+  if (step !== null) {
+    // Aggiornamento condizionato: lo stesso codice non vale due volte, anche con richieste concorrenti
+    const updated = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+      },
+      data: { twoFactorLastStep: step },
+    })
+    if (updated.count === 0) {
+      return { success: false, message: 'Codice già utilizzato: attendi il codice successivo' }
+    }
+    return { success: true, data: { method: 'TOTP', recoveryCodesRemaining: user.twoFactorRecoveryCodes.length } }
+  }
+
+  const recoveryHash = hashRecoveryCode(code)
+  if (!user.twoFactorRecoveryCodes.includes(recoveryHash)) {
+    return { success: false, message: 'Codice non valido' }
+  }
+
+  // Rilettura e aggiornamento condizionato sulla lista letta nella stessa transazione:
+  // un codice consumato in parallelo non viene ripristinato e il conteggio è quello salvato
+  const consumed = await prisma.$transaction(async (tx) => {
+    const current = await tx.user.findUnique({
+      where: { id: userId },
+      select: { twoFactorRecoveryCodes: true },
+    })
+    if (!current?.twoFactorRecoveryCodes.includes(recoveryHash)) {
+      return { success: false, message: 'Codice non valido' }
+    }
+
+    const remaining = current.twoFactorRecoveryCodes.filter(hash => hash !== recoveryHash)
+    const updated = await tx.user.updateMany({
+      where: { id: userId, twoFactorRecoveryCodes: { equals: current.twoFactorRecoveryCodes } },
+      data: { twoFactorRecoveryCodes: remaining },
+    })
+    if (updated.count === 0) {
+      return { success: false, message: 'Codici di recupero modificati da un\'altra richiesta: riprova' }
+    }
+    return { success: true, remaining: remaining.length }
+  })
+
+  if (!consumed.success) {
+    return { success: false, message: consumed.message }
+  }
+
+  return { success: true, data: { method: 'RECOVERY', recoveryCodesRemaining: consumed.remaining } }
+}
+
+// ==================== DISPOSITIVI ATTENDIBILI ====================
+
+/**
+ * Registra il dispositivo corrente: il token restituito va nel cookie trustedDevice.
+ */
+export async function createTrustedDevice(userId: string, userAgent?: string): Promise<string> {
+  const token = crypto.randomBytes(32).toString('hex')
+
+  await prisma.trustedDevice.create({
+    data: {
+      userId,
+      tokenHash: hashToken(token),
+      userAgent: userAgent?.slice(0, 255),
+      expiresAt: new Date(Date.now() + TRUSTED_DEVICE_TTL_MS),
+    },
+  })
+
+  return token
+}
+
+export async function isTrustedDevice(userId: string, token: string): Promise<boolean> {
+  const device = await prisma.trustedDevice.findUnique({
+    where: { tokenHash: hashToken(token) },
+  })
+
+  if (!device || device.userId !== userId || device.expiresAt <= new Date()) {
+    return false
+  }
+
+  await prisma.trustedDevice.update({
+    where: { id: device.id },
+    data: { lastUsedAt: new Date() },
+  })
+
+  return true
+}
+
+export async function revokeTrustedDevices(userId: string): Promise<ServiceResult> {
+  const { count } = await prisma.trustedDevice.deleteMany({ where: { userId } })
+
+  return {
+    success: true,
+    message: count > 0 ? `${count} dispositivi attendibili revocati` : 'Nessun dispositivo attendibile',
+    data: { revoked: count },
+  }
+}
@@ -79,17 +79,30 @@ export async function updateProfile(userId: string, input: UpdateProfileInput):
     return { success: false, message: 'Nessun dato da aggiornare' }
   }
 
+  // Nuova email: va verificata di nuovo (le leghe con requireVerifiedEmail la controllano)
+  const current = email
+    ? await prisma.user.findUnique({ where: { id: userId }, select: { email: true } })
+    : null
+  const emailChanged = !!email && current?.email !== email
+
   const user = await prisma.user.update({
     where: { id: userId },
-    data: updateData,
+    data: emailChanged
+      ? { ...updateData, emailVerified: false, emailVerificationToken: null, emailVerificationExpires: null }
+      : updateData,
     select: {
       id: true,
       email: true,
       username: true,
+      emailVerified: true,
     },
   })
 
-  return { success: true, message: 'Profilo aggiornato', data: user }
+  return {
+    success: true,
+    message: emailChanged ? 'Profilo aggiornato. Verifica la nuova email con il link che ti abbiamo inviato' : 'Profilo aggiornato',
+    data: { ...user, emailChanged },
+  }
 }
 
 export async function updateProfilePhoto(userId: string, photoData: string): Promise<ServiceResult> {
@@ -0,0 +1,563 @@
+/**
+ * watchlist.service.ts - Persistent Watchlist Service
+ *
+ * Watchlist di lega persistente tra le sessioni di mercato.
+ * Ogni manager organizza i giocatori in categorie (di sistema o personali)
+ * con priorità, prezzo obiettivo, offerta massima e note.
+ * All'apertura di una nuova sessione le voci alimentano RubataPreference
+ * e AuctionObjective della sessione.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { MemberStatus, RosterStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { ServiceResult } from '@/shared/types/service-result'
+
+// Categorie di sistema, allineate ai codici di RubataPreference.watchlistCategory
+export const DEFAULT_WATCHLIST_CATEGORIES = [
+  { code: 'DA_RUBARE', name: 'Da Rubare', icon: '🎯', color: '#ef4444' },
+  { code: 'SOTTO_OSSERVAZIONE', name: 'Sotto Osservazione', icon: '👀', color: '#eab308' },
+  { code: 'POTENZIALE_ACQUISTO', name: 'Potenziale Acquisto', icon: '🛒', color: '#22c55e' },
+  { code: 'SCAMBIO', name: 'Scambio', icon: '🔄', color: '#3b82f6' },
+  { code: 'DA_VENDERE', name: 'Da Vendere', icon: '💰', color: '#a855f7' },
+] as const
+
+export const WATCHLIST_MIN_PRIORITY = 1
+export const WATCHLIST_MAX_PRIORITY = 5
+
+export interface WatchlistCategoryInput {
+  name: string
+  description?: string | null
+  icon?: string | null
+  color?: string | null
+}
+
+export interface WatchlistEntryInput {
+  playerId: string
+  categoryId: string
+  priority?: number
+  targetPrice?: number | null
+  maxBid?: number | null
+  notes?: string | null
+}
+
+export interface UpdateWatchlistEntryInput {
+  categoryId?: string
+  priority?: number
+  targetPrice?: number | null
+  maxBid?: number | null
+  notes?: string | null
+}
+
+async function getActiveMember(leagueId: string, userId: string) {
+  return prisma.leagueMember.findFirst({
+    where: {
+      leagueId,
+      userId,
+      status: MemberStatus.ACTIVE,
+    },
+  })
+}
+
+/**
+ * Crea le categorie di sistema della lega se mancanti (idempotente: con
+ * chiamate concorrenti il vincolo [leagueId, code] e skipDuplicates lasciano
+ * una sola categoria per codice)
+ */
+export async function ensureDefaultCategories(leagueId: string): Promise<void> {
+  const existing = await prisma.watchlistCategory.findMany({
+    where: { leagueId, isSystemDefault: true },
+    select: { code: true },
+  })
+  const existingCodes = new Set(existing.map(c => c.code))
+
+  const missing = DEFAULT_WATCHLIST_CATEGORIES
+    .map((category, index) => ({ ...category, sortOrder: index }))
+    .filter(category => !existingCodes.has(category.code))
+
+  if (missing.length === 0) return
+
+  await prisma.watchlistCategory.createMany({
+    data: missing.map(category => ({
+      leagueId,
+      name: category.name,
+      code: category.code,
+      icon: category.icon,
+      color: category.color,
+      isSystemDefault: true,
+      sortOrder: category.sortOrder,
+    })),
+    skipDuplicates: true,
+  })
+}
+
+// Categorie visibili al manager: di sistema + personali
+function visibleCategoriesWhere(leagueId: string, memberId: string) {
+  return {
+    leagueId,
+    OR: [{ memberId: null }, { memberId }],
+  }
+}
+
+function validatePriority(priority: number | undefined): string | null {
+  if (priority === undefined) return null
+  if (!Number.isInteger(priority) || priority < WATCHLIST_MIN_PRIORITY || priority > WATCHLIST_MAX_PRIORITY) {
+    return `La priorità deve essere tra ${WATCHLIST_MIN_PRIORITY} e ${WATCHLIST_MAX_PRIORITY}`
+  }
+  return null
+}
+
+function validatePrice(value: number | null | undefined, label: string): string | null {
+  if (value === undefined || value === null) return null
+  if (!Number.isInteger(value) || value < 0) {
+    return `${label} non valido`
+  }
+  return null
+}
+
+// ==================== READ ====================
+
+/**
+ * Watchlist del manager: categorie visibili e voci con dati giocatore
+ */
+export async function getWatchlist(leagueId: string, userId: string): Promise<ServiceResult> {
+  const member = await getActiveMember(leagueId, userId)
+  if (!member) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  await ensureDefaultCategories(leagueId)
+
+  const [categories, entries] = await Promise.all([
+    prisma.watchlistCategory.findMany({
+      where: visibleCategoriesWhere(leagueId, member.id),
+      orderBy: [{ isSystemDefault: 'desc' }, { sortOrder: 'asc' }, { createdAt: 'asc' }],
+    }),
+    prisma.watchlistEntry.findMany({
+      where: { memberId: member.id },
+      include: {
+        player: {
+          select: {
+            id: true,
+            name: true,
+            team: true,
+            position: true,
+            quotation: true,
+          },
+        },
+      },
+      orderBy: [{ priority: 'desc' }, { addedAt: 'asc' }],
+    }),
+  ])
+
+  return {
+    success: true,
+    data: {
+      categories: categories.map(category => ({
+        ...category,
+        isOwn: category.memberId === member.id,
+        entryCount: entries.filter(e => e.categoryId === category.id).length,
+      })),
+      entries,
+    },
+  }
+}
+
+// ==================== CATEGORIES ====================
+
+/**
+ * Crea una categoria personale
+ */
+export async function createWatchlistCategory(
+  leagueId: string,
+  userId: string,
+  input: WatchlistCategoryInput
+): Promise<ServiceResult> {
+  const member = await getActiveMember(leagueId, userId)
+  if (!member) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  const name = input.name.trim()
+  if (!name) {
+    return { success: false, message: 'Il nome della categoria è obbligatorio' }
+  }
+
+  const duplicate = await prisma.watchlistCategory.findFirst({
+    where: {
+      ...visibleCategoriesWhere(leagueId, member.id),
+      name: { equals: name, mode: 'insensitive' },
+    },
+  })
+
+  if (duplicate) {
+    return { success: false, message: 'Esiste già una categoria con questo nome' }
+  }
+
+  const count = await prisma.watchlistCategory.count({
+    where: { leagueId, memberId: member.id },
+  })
+
+  const category = await prisma.watchlistCategory.create({
+    data: {
+      leagueId,
+      memberId: member.id,
+      name,
+      description: input.description,
+      icon: input.icon,
+      color: input.color,
+      sortOrder: DEFAULT_WATCHLIST_CATEGORIES.length + count,
+    },
+  })
+
+  return { success: true, message: 'Categoria creata', data: category }
+}
+
+/**
+ * Modifica una categoria personale (le categorie di sistema non sono modificabili)
+ */
+export async function updateWatchlistCategory(
+  categoryId: string,
+  userId: string,
+  input: Partial<WatchlistCategoryInput>
+): Promise<ServiceResult> {
+  const category = await prisma.watchlistCategory.findUnique({
+    where: { id: categoryId },
+    include: { member: true },
+  })
+
+  if (!category) {
+    return { success: false, message: 'Categoria non trovata' }
+  }
+
+  if (category.isSystemDefault || category.member?.userId !== userId) {
+    return { success: false, message: 'Non autorizzato' }
+  }
+
+  const name = input.name?.trim()
+  if (input.name !== undefined && !name) {
+    return { success: false, message: 'Il nome della categoria è obbligatorio' }
+  }
+
+  if (name && name.toLowerCase() !== category.name.toLowerCase()) {
+    const duplicate = await prisma.watchlistCategory.findFirst({
+      where: {
+        ...visibleCategoriesWhere(category.leagueId, category.memberId!),
+        name: { equals: name, mode: 'insensitive' },
+      },
+    })
+    if (duplicate) {
+      return { success: false, message: 'Esiste già una categoria con questo nome' }
+    }
+  }
+
+  const updated = await prisma.watchlistCategory.update({
+    where: { id: categoryId },
+    data: {
+      ...(name && { name }),
+      ...(input.description !== undefined && { description: input.description }),
+      ...(input.icon !== undefined && { icon: input.icon }),
+      ...(input.color !== undefined && { color: input.color }),
+    },
+  })
+
+  return { success: true, message: 'Categoria aggiornata', data: updated }
+}
+
+/**
+ * Elimina una categoria personale e le sue voci
+ */
+export async function deleteWatchlistCategory(
+  categoryId: string,
+  userId: string
+): Promise<ServiceResult> {
+  const category = await prisma.watchlistCategory.findUnique({
+    where: { id: categoryId },
+    include: { member: true },
+  })
+
+  if (!category) {
+    return { success: false, message: 'Categoria non trovata' }
+  }
+
+  if (category.isSystemDefault || category.member?.userId !== userId) {
+    return { success: false, message: 'Non autorizzato' }
+  }
+
+  await prisma.watchlistCategory.delete({ where: { id: categoryId } })
+
+  return { success: true, message: 'Categoria eliminata' }
+}
+
+// ==================== ENTRIES ====================
+
+/**
+ * Aggiunge (o aggiorna) un giocatore in una categoria della watchlist
+ */
+export async function upsertWatchlistEntry(
+  leagueId: string,
+  userId: string,
+  input: WatchlistEntryInput
+): Promise<ServiceResult> {
+  const member = await getActiveMember(leagueId, userId)
+  if (!member) {
+    return { success: false, message: 'Non sei membro di questa lega' }
+  }
+
+  const validationError = validatePriority(input.priority)
+    ?? validatePrice(input.targetPrice, 'Prezzo obiettivo')
+    ?? validatePrice(input.maxBid, 'Offerta massima')
+  if (validationError) {
+    return { success: false, message: validationError }
+  }
+
+  const category = await prisma.watchlistCategory.findFirst({
+    where: { id: input.categoryId, ...visibleCategoriesWhere(leagueId, member.id) },
+  })
+
+  if (!category) {
+    return { success: false, message: 'Categoria non trovata' }
+  }
+
+  const player = await prisma.serieAPlayer.findUnique({
+    where: { id: input.playerId },
+  })
+
+  if (!player) {
+    return { success: false, message: 'Giocatore non trovato' }
+  }
+
+  const entry = await prisma.watchlistEntry.upsert({
+    where: {
+      categoryId_memberId_playerId: {
+        categoryId: category.id,
+        memberId: member.id,
+        playerId: player.id,
+      },
+    },
+    create: {
+      categoryId: category.id,
+      memberId: member.id,
+      playerId: player.id,
+      priority: input.priority ?? 3,
+      targetPrice: input.targetPrice,
+      maxBid: input.maxBid,
+      notes: input.notes,
+      statsAtAdd: { quotation: player.quotation, age: player.age, team: player.team },
+    },
+    update: {
+      ...(input.priority !== undefined && { priority: input.priority }),
+      ...(input.targetPrice !== undefined && { targetPrice: input.targetPrice }),
+      ...(input.maxBid !== undefined && { maxBid: input.maxBid }),
+      ...(input.notes !== undefined && { notes: input.notes }),
+    },
+    include: {
+      player: {
+        select: {
+          id: true,
+          name: true,
+          team: true,
+          position: true,
+          quotation: true,
+        },
+      },
+    },
+  })
+
+  return { success: true, message: `${player.name} aggiunto a ${category.name}`, data: entry }
+}
+
+/**
+ * Modifica una voce della watchlist (anche spostandola di categoria)
+ */
+export async function updateWatchlistEntry(
+  entryId: string,
+  userId: string,
+  input: UpdateWatchlistEntryInput
+): Promise<ServiceResult> {
+  const entry = await prisma.watchlistEntry.findUnique({
+    where: { id: entryId },
+    include: { member: true },
+  })
+
+  if (!entry || entry.member.userId !== userId) {
+    return { success: false, message: 'Voce non trovata' }
+  }
+
+  const validationError = validatePriority(input.priority)
+    ?? validatePrice(input.targetPrice, 'Prezzo obiettivo')
+    ?? validatePrice(input.maxBid, 'Offerta massima')
+  if (validationError) {
+    return { success: false, message: validationError }
+  }
+
+  if (input.categoryId && input.categoryId !== entry.categoryId) {
+    const category = await prisma.watchlistCategory.findFirst({
+      where: { id: input.categoryId, ...visibleCategoriesWhere(entry.member.leagueId, entry.memberId) },
+    })
+    if (!category) {
+      return { success: false, message: 'Categoria non trovata' }
+    }
+
+    const duplicate = await prisma.watchlistEntry.findUnique({
+      where: {
+        categoryId_memberId_playerId: {
+          categoryId: input.categoryId,
+          memberId: entry.memberId,
+          playerId: entry.playerId,
+        },
+      },
+    })
+    if (duplicate) {
+      return { success: false, message: 'Giocatore già presente in questa categoria' }
+    }
+  }
+
+  const updated = await prisma.watchlistEntry.update({
+    where: { id: entryId },
+    data: {
+      ...(input.categoryId !== undefined && { categoryId: input.categoryId }),
+      ...(input.priority !== undefined && { priority: input.priority }),
+      ...(input.targetPrice !== undefined && { targetPrice: input.targetPrice }),
+      ...(input.maxBid !== undefined && { maxBid: input.maxBid }),
+      ...(input.notes !== undefined && { notes: input.notes }),
+    },
+  })
+
+  return { success: true, message: 'Voce aggiornata', data: updated }
+}
+
+/**
+ * Rimuove una voce dalla watchlist
+ */
+export async function removeWatchlistEntry(
+  entryId: string,
+  userId: string
+): Promise<ServiceResult> {
+  const entry = await prisma.watchlistEntry.findUnique({
+    where: { id: entryId },
+    include: { member: true },
+  })
+
+  if (!entry || entry.member.userId !== userId) {
+    return { success: false, message: 'Voce non trovata' }
+  }
+
+  await prisma.watchlistEntry.delete({ where: { id: entryId } })
+
+  return { success: true, message: 'Giocatore rimosso dalla watchlist' }
+}
+
+// ==================== SESSION SEEDING ====================
+
+// Watchlist 1-5 (5 = massima) → AuctionObjective 1-3 (1 = alta)
+export function toObjectivePriority(priority: number): number {
+  if (priority >= 4) return 1
+  if (priority === 3) return 2
+  return 3
+}
+
+/**
+ * Copia la watchlist di tutti i manager nella nuova sessione:
+ * - giocatori in rosa di un altro manager → RubataPreference (watchlist)
+ * - giocatori liberi → AuctionObjective
+ * I giocatori già in rosa del manager stesso vengono ignorati.
+ * Se un giocatore è in più categorie vale la voce con priorità più alta.
+ */
+export async function seedSessionFromWatchlist(
+  sessionId: string
+): Promise<{ preferences: number; objectives: number }> {
+  const session = await prisma.marketSession.findUnique({
+    where: { id: sessionId },
+    select: { id: true, leagueId: true },
+  })
+
+  if (!session) {
+    return { preferences: 0, objectives: 0 }
+  }
+
+  const entries = await prisma.watchlistEntry.findMany({
+    where: {
+      member: { leagueId: session.leagueId, status: MemberStatus.ACTIVE },
+    },
+    include: { category: { select: { code: true } } },
+    orderBy: { priority: 'desc' },
+  })
+
+  if (entries.length === 0) {
+    return { preferences: 0, objectives: 0 }
+  }
+
+  const rosters = await prisma.playerRoster.findMany({
+    where: {
+      status: RosterStatus.ACTIVE,
+      playerId: { in: Array.from(new Set(entries.map(e => e.playerId))) },
+      leagueMember: { leagueId: session.leagueId },
+    },
+    select: { playerId: true, leagueMemberId: true },
+  })
+  const ownerByPlayer = new Map(rosters.map(r => [r.playerId, r.leagueMemberId]))
+
+  const seen = new Set<string>()
+  const preferences: Array<{
+    sessionId: string
+    memberId: string
+    playerId: string
+    isWatchlist: boolean
+    maxBid: number | null
+    priority: number
+    notes: string | null
+    watchlistCategory: string | null
+  }> = []
+  const objectives: Array<{
+    sessionId: string
+    memberId: string
+    playerId: string
+    priority: number
+    notes: string | null
+    maxPrice: number | null
+  }> = []
+
+  for (const entry of entries) {
+    const key = `${entry.memberId}:${entry.playerId}`
+    if (seen.has(key)) continue
+    seen.add(key)
+
+    const ownerId = ownerByPlayer.get(entry.playerId)
+    if (ownerId === entry.memberId) continue
+
+    if (ownerId) {
+      preferences.push({
+        sessionId,
+        memberId: entry.memberId,
+        playerId: entry.playerId,
+        isWatchlist: true,
+        maxBid: entry.maxBid,
+        priority: entry.priority,
+        notes: entry.notes,
+        watchlistCategory: entry.category.code,
+      })
+    } else {
+      objectives.push({
+        sessionId,
+        memberId: entry.memberId,
+        playerId: entry.playerId,
+        priority: toObjectivePriority(entry.priority),
+        notes: entry.notes,
+        maxPrice: entry.maxBid ?? entry.targetPrice,
+      })
+    }
+  }
+
+  const [createdPreferences, createdObjectives] = await Promise.all([
+    preferences.length > 0
+      ? prisma.rubataPreference.createMany({ data: preferences, skipDuplicates: true })
+      : Promise.resolve({ count: 0 }),
+    objectives.length > 0
+      ? prisma.auctionObjective.createMany({ data: objectives, skipDuplicates: true })
+      : Promise.resolve({ count: 0 }),
+  ])
+
+  return { preferences: createdPreferences.count, objectives: createdObjectives.count }
+}
@@ -0,0 +1,46 @@
+/**
+ * Feedback Issue Sync Job for FANTACONTRATTI
+ *
+ * Periodic sync of the issues linked to user feedback: closed issues resolve
+ * the feedback, reopened issues put it back in progress.
+ *
+ * Only runs in local dev (persistent Express server).
+ * On Vercel, the same logic is invoked via Vercel Cron endpoint.
+ */
+
+import { cronJobManager } from './cron-job'
+
+/**
+ * Interval: sync every 30 minutes (1800000 ms)
+ */
+const FEEDBACK_ISSUE_SYNC_INTERVAL_MS = 30 * 60 * 1000
+
+export const FEEDBACK_ISSUE_SYNC_JOB_NAME = 'feedback-issue-sync'
+
+export function registerFeedbackIssueSyncJob(): void {
+  cronJobManager.register(
+    FEEDBACK_ISSUE_SYNC_JOB_NAME,
+    FEEDBACK_ISSUE_SYNC_INTERVAL_MS,
+    async () => {
+      const { syncFeedbackIssues } = await import('../../../services/feedback.service')
+
+      const result = await syncFeedbackIssues()
+      const updated = (result.data as { updated: number } | undefined)?.updated ?? 0
+      if (updated > 0) {
+        console.log(`[CRON] Feedback issue sync: ${result.message ?? ''}`)
+      }
+    }
+  )
+}
+
+export function startFeedbackIssueSyncJob(): void {
+  cronJobManager.start(FEEDBACK_ISSUE_SYNC_JOB_NAME)
+}
+
+export function stopFeedbackIssueSyncJob(): void {
+  cronJobManager.stop(FEEDBACK_ISSUE_SYNC_JOB_NAME)
+}
+
+export function getFeedbackIssueSyncJobStatus() {
+  return cronJobManager.getStatus(FEEDBACK_ISSUE_SYNC_JOB_NAME)
+}
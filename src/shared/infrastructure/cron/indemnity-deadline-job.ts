@@ -0,0 +1,48 @@
+/**
+ * Indemnity Deadline Job for FANTACONTRATTI
+ *
+ * Periodic check of the indemnity phase deadlines: push reminders to
+ * managers with missing KEEP/RELEASE decisions in the last 24 hours, and
+ * admin review for phases whose deadline has passed.
+ *
+ * Only runs in local dev (persistent Express server).
+ * On Vercel, the same logic is invoked via Vercel Cron endpoint.
+ */
+
+import { cronJobManager } from './cron-job'
+import type { IndemnityDeadlineResult } from '@/services/indemnity-phase.service'
+
+/**
+ * Interval: check every 15 minutes (900000 ms)
+ */
+const INDEMNITY_DEADLINE_INTERVAL_MS = 15 * 60 * 1000
+
+export const INDEMNITY_DEADLINE_JOB_NAME = 'indemnity-deadline'
+
+export function registerIndemnityDeadlineJob(): void {
+  cronJobManager.register(
+    INDEMNITY_DEADLINE_JOB_NAME,
+    INDEMNITY_DEADLINE_INTERVAL_MS,
+    async () => {
+      const { processIndemnityDeadlines } = await import('../../../services/indemnity-phase.service')
+
+      const result = await processIndemnityDeadlines()
+      const { reminded, closed } = result.data as IndemnityDeadlineResult
+      if (reminded + closed > 0) {
+        console.log(`[CRON] Indemnity deadlines: ${result.message ?? ''}`)
+      }
+    }
+  )
+}
+
+export function startIndemnityDeadlineJob(): void {
+  cronJobManager.start(INDEMNITY_DEADLINE_JOB_NAME)
+}
+
+export function stopIndemnityDeadlineJob(): void {
+  cronJobManager.stop(INDEMNITY_DEADLINE_JOB_NAME)
+}
+
+export function getIndemnityDeadlineJobStatus() {
+  return cronJobManager.getStatus(INDEMNITY_DEADLINE_JOB_NAME)
+}
@@ -25,3 +25,30 @@ export {
   getApiFootballSyncJobStatus,
   API_FOOTBALL_SYNC_JOB_NAME,
 } from './api-football-sync-job'
+
+// Trade Expiry Job
+export {
+  registerTradeExpiryJob,
+  startTradeExpiryJob,
+  stopTradeExpiryJob,
+  getTradeExpiryJobStatus,
+  TRADE_EXPIRY_JOB_NAME,
+} from './trade-expiry-job'
+
+// Feedback Issue Sync Job
+export {
+  registerFeedbackIssueSyncJob,
+  startFeedbackIssueSyncJob,
+  stopFeedbackIssueSyncJob,
+  getFeedbackIssueSyncJobStatus,
+  FEEDBACK_ISSUE_SYNC_JOB_NAME,
+} from './feedback-issue-sync-job'
+
+// Indemnity Deadline Job
+export {
+  registerIndemnityDeadlineJob,
+  startIndemnityDeadlineJob,
+  stopIndemnityDeadlineJob,
+  getIndemnityDeadlineJobStatus,
+  INDEMNITY_DEADLINE_JOB_NAME,
+} from './indemnity-deadline-job'
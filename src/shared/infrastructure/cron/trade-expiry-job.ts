@@ -0,0 +1,48 @@
+/**
+ * Trade Expiry Job for FANTACONTRATTI
+ *
+ * Periodic sweep of pending trade offers: expires stale offers, cancels
+ * offers of sessions that left the trade phase and invalidates offers whose
+ * players changed roster.
+ *
+ * Only runs in local dev (persistent Express server).
+ * On Vercel, the same logic is invoked via Vercel Cron endpoint.
+ */
+
+import { cronJobManager } from './cron-job'
+import type { TradeSweepResult } from '@/services/trade-lifecycle.service'
+
+/**
+ * Interval: sweep every 5 minutes (300000 ms)
+ */
+const TRADE_EXPIRY_INTERVAL_MS = 5 * 60 * 1000
+
+export const TRADE_EXPIRY_JOB_NAME = 'trade-expiry'
+
+export function registerTradeExpiryJob(): void {
+  cronJobManager.register(
+    TRADE_EXPIRY_JOB_NAME,
+    TRADE_EXPIRY_INTERVAL_MS,
+    async () => {
+      const { sweepTradeOffers } = await import('../../../services/trade-lifecycle.service')
+
+      const result = await sweepTradeOffers()
+      const { expired, cancelled, invalidated } = result.data as TradeSweepResult
+      if (expired + cancelled + invalidated > 0) {
+        console.log(`[CRON] Trade sweep: ${result.message ?? ''}`)
+      }
+    }
+  )
+}
+
+export function startTradeExpiryJob(): void {
+  cronJobManager.start(TRADE_EXPIRY_JOB_NAME)
+}
+
+export function stopTradeExpiryJob(): void {
+  cronJobManager.stop(TRADE_EXPIRY_JOB_NAME)
+}
+
+export function getTradeExpiryJobStatus() {
+  return cronJobManager.getStatus(TRADE_EXPIRY_JOB_NAME)
+}
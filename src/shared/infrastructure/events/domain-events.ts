@@ -4,7 +4,45 @@
  * All domain events are defined here as TypeScript types.
  * These events are used for communication between modules (Bounded Contexts)
  * following the Clean Architecture and Domain-Driven Design patterns.
+ *
+ * Events are published by the services only after their transactions have
+ * committed, so subscribers always observe persisted state.
+ */
+
+import type { CreateContractHistoryInput } from '@/types/contract-history'
+
+// =============================================================================
+// Shared Payloads
+// =============================================================================
+
+/**
+ * A player transfer or contract change, as it must appear in the movement
+ * history. Carried by every event that changes a roster.
+ */
+export type PlayerMovement = {
+  // Preassigned when the publishing operation records it in the compensation journal
+  id?: string
+  leagueId: string
+  playerId: string
+  movementType: MovementType
+  fromMemberId?: string | null
+  toMemberId?: string | null
+  price?: number
+  oldSalary?: number
+  oldDuration?: number
+  oldClause?: number
+  newSalary?: number
+  newDuration?: number
+  newClause?: number
+  auctionId?: string
+  tradeId?: string
+  marketSessionId?: string
+}
+
+/**
+ * A contract history entry produced by a contract lifecycle event
  */
+export type ContractHistoryRecord = CreateContractHistoryInput
 
 // =============================================================================
 // Identity Events
@@ -77,6 +115,8 @@ export type PlayerRemovedFromRoster = {
   rosterId: string
   playerId: string
   memberId: string
+  leagueId: string
+  movement: PlayerMovement
 }
 
 /**
@@ -87,14 +127,59 @@ export type ContractRenewed = {
   playerId: string
   newSalary: number
   newDuration: number
+  leagueId: string
+  memberId: string
+  movement: PlayerMovement
 }
 
 /**
- * Emitted when a contract is consolidated
+ * Emitted when a member consolidates their contracts at the end of the
+ * CONTRATTI phase (renewals, releases and exited-player decisions)
  */
 export type ContractConsolidated = {
-  contractId: string
-  playerId: string
+  leagueId: string
+  sessionId: string
+  memberId: string
+  historyEntries: ContractHistoryRecord[]
+  movements: PlayerMovement[]
+}
+
+/**
+ * Emitted when contract durations are decremented at the start of a session
+ * (expired contracts are released automatically)
+ */
+export type ContractDurationsDecremented = {
+  leagueId: string
+  sessionId: string
+  historyEntries: ContractHistoryRecord[]
+  movements: PlayerMovement[]
+}
+
+/**
+ * Emitted when a manager (or the admin in review) records KEEP/RELEASE
+ * decisions for exited players during the indemnity phase
+ */
+export type IndemnityDecisionsSubmitted = {
+  leagueId: string
+  sessionId: string
+  memberId: string
+  memberUsername: string
+  decidedCount: number
+  totalCount: number
+  // true when every exited player of every manager has a decision
+  allDecided: boolean
+  totalMembers: number
+}
+
+/**
+ * Emitted when the admin consolidates the indemnity phase (releases,
+ * compensations and KEEP decisions of every manager)
+ */
+export type IndemnitiesConsolidated = {
+  leagueId: string
+  sessionId: string
+  historyEntries: ContractHistoryRecord[]
+  movements: PlayerMovement[]
 }
 
 // =============================================================================
@@ -124,8 +209,14 @@ export type BidPlaced = {
  */
 export type AuctionClosed = {
   auctionId: string
+  sessionId: string | null
+  leagueId: string
+  playerId: string
+  playerName: string
   winnerId: string | null
+  winnerName: string | null
   finalAmount: number
+  movement: PlayerMovement | null
 }
 
 /**
@@ -164,12 +255,43 @@ export type RubataStarted = {
 }
 
 /**
- * Emitted when an offer is placed during rubata
+ * Emitted when a member declares a steal on the current board player
+ * (the rubata auction waits for the ready-check)
  */
 export type RubataOfferPlaced = {
   sessionId: string
   playerId: string
+  playerName: string
+  playerTeam: string
+  playerPosition: string
   offeredById: string
+  offeredByUsername: string
+  ownerUsername: string
+  basePrice: number
+}
+
+/**
+ * Emitted when a bid is placed on the active rubata auction
+ */
+export type RubataBidPlaced = {
+  sessionId: string
+  auctionId: string
+  bidderId: string
+  bidderUsername: string
+  playerName: string
+  amount: number
+}
+
+/**
+ * Emitted when a member confirms to be ready during a rubata ready-check
+ */
+export type RubataReadyChanged = {
+  sessionId: string
+  memberId: string
+  memberUsername: string
+  isReady: boolean
+  readyCount: number
+  totalMembers: number
 }
 
 /**
@@ -180,6 +302,22 @@ export type RubataAuctionStarted = {
   playerId: string
 }
 
+/**
+ * Emitted when a player is stolen at the end of a rubata auction
+ */
+export type RubataAuctionClosed = {
+  sessionId: string | null
+  leagueId: string
+  auctionId: string
+  playerId: string
+  playerName: string
+  sellerId: string
+  winnerId: string
+  winnerUsername: string
+  price: number
+  movement: PlayerMovement
+}
+
 /**
  * Emitted when the rubata phase is completed
  */
@@ -199,21 +337,69 @@ export type SvincolatiStarted = {
 }
 
 /**
- * Emitted when a free agent is nominated by a member
+ * Emitted when the nomination of a free agent is confirmed by its nominator
  */
 export type FreeAgentNominated = {
   sessionId: string
   playerId: string
+  playerName: string
+  playerRole: string
   nominatorId: string
+  nominatorUsername: string
+}
+
+/**
+ * Emitted when a bid is placed on a svincolati auction
+ */
+export type SvincolatiBidPlaced = {
+  sessionId: string | null
+  auctionId: string
+  playerId: string
+  playerName: string
+  bidderId: string
+  bidderUsername: string
+  amount: number
+  timerExpiresAt: Date
+  timerSeconds: number
+}
+
+/**
+ * Emitted when a member confirms to be ready for the nominated free agent
+ */
+export type SvincolatiReadyChanged = {
+  sessionId: string
+  memberId: string
+  memberUsername: string
+  isReady: boolean
+  readyCount: number
+  totalMembers: number
+}
+
+/**
+ * Emitted when the svincolati turn passes to the next member
+ * (completed when nobody can nominate anymore)
+ */
+export type SvincolatiTurnAdvanced = {
+  sessionId: string
+  state: string
+  nextTurnMemberId: string | null
+  nextTurnUsername: string | null
+  completed: boolean
 }
 
 /**
  * Emitted when a svincolati auction is closed
  */
 export type SvincolatiAuctionClosed = {
-  sessionId: string
+  sessionId: string | null
+  leagueId: string
+  auctionId: string
   playerId: string
+  playerName: string
   winnerId: string | null
+  winnerUsername: string | null
+  finalPrice: number | null
+  movement: PlayerMovement | null
 }
 
 /**
@@ -232,15 +418,20 @@ export type SvincolatiCompleted = {
  */
 export type TradeOffered = {
   tradeId: string
+  leagueId: string
   senderId: string
+  senderUsername: string
   receiverId: string
 }
 
 /**
- * Emitted when a trade is accepted
+ * Emitted when a trade is accepted and executed
  */
 export type TradeAccepted = {
   tradeId: string
+  leagueId: string
+  marketSessionId: string
+  movements: PlayerMovement[]
 }
 
 /**
@@ -248,6 +439,36 @@ export type TradeAccepted = {
  */
 export type TradeRejected = {
   tradeId: string
+  leagueId: string
+}
+
+/**
+ * Emitted when a trade is cancelled by its sender
+ */
+export type TradeCancelled = {
+  tradeId: string
+  leagueId: string
+}
+
+/**
+ * Why pending trades were closed without a response:
+ * - PLAYER_TRADED: a player involved was moved by another accepted trade
+ * - PLAYER_MOVED: a player left the owner's roster (auction, release, ...)
+ * - PHASE_ENDED: the session left the trade phase (offers are CANCELLED)
+ * - EXPIRED: the offer passed its expiresAt (offers are EXPIRED)
+ */
+export type TradeInvalidationReason = 'PLAYER_TRADED' | 'PLAYER_MOVED' | 'PHASE_ENDED' | 'EXPIRED'
+
+/**
+ * Emitted when pending trades are invalidated because their players are no
+ * longer available, or closed by the lifecycle sweeper.
+ * affectedUserIds are the managers to notify. reason defaults to PLAYER_TRADED.
+ */
+export type TradeInvalidated = {
+  leagueId: string
+  tradeIds: string[]
+  affectedUserIds: string[]
+  reason?: TradeInvalidationReason
 }
 
 /**
@@ -256,6 +477,7 @@ export type TradeRejected = {
 export type CounterOfferMade = {
   originalTradeId: string
   counterTradeId: string
+  leagueId: string
 }
 
 // =============================================================================
@@ -277,6 +499,7 @@ export type PrizeAssigned = {
  */
 export type PrizesFinalized = {
   sessionId: string
+  leagueId: string
 }
 
 // =============================================================================
@@ -286,7 +509,19 @@ export type PrizesFinalized = {
 /**
  * Movement types for player transfers
  */
-export type MovementType = 'AUCTION' | 'RUBATA' | 'SVINCOLATI' | 'TRADE' | 'RELEASE'
+export type MovementType =
+  | 'FIRST_MARKET'
+  | 'TRADE'
+  | 'RUBATA'
+  | 'SVINCOLATI'
+  | 'RELEASE'
+  | 'CONTRACT_RENEW'
+  | 'RETIREMENT'
+  | 'RELEGATION_RELEASE'
+  | 'RELEGATION_KEEP'
+  | 'ABROAD_COMPENSATION'
+  | 'ABROAD_KEEP'
+  | 'DEFERRED_PAYMENT'
 
 /**
  * Emitted when a player movement is recorded (cross-cutting event)
@@ -326,6 +561,9 @@ export const DomainEventTypes = {
   PLAYER_REMOVED_FROM_ROSTER: 'roster.player.removed',
   CONTRACT_RENEWED: 'roster.contract.renewed',
   CONTRACT_CONSOLIDATED: 'roster.contract.consolidated',
+  CONTRACT_DURATIONS_DECREMENTED: 'roster.contract.durationsDecremented',
+  INDEMNITY_DECISIONS_SUBMITTED: 'roster.indemnity.decisionsSubmitted',
+  INDEMNITIES_CONSOLIDATED: 'roster.indemnity.consolidated',
 
   // Auction
   AUCTION_CREATED: 'auction.created',
@@ -338,12 +576,18 @@ export const DomainEventTypes = {
   // Rubata
   RUBATA_STARTED: 'rubata.started',
   RUBATA_OFFER_PLACED: 'rubata.offer.placed',
+  RUBATA_BID_PLACED: 'rubata.bid.placed',
+  RUBATA_READY_CHANGED: 'rubata.member.readyChanged',
   RUBATA_AUCTION_STARTED: 'rubata.auction.started',
+  RUBATA_AUCTION_CLOSED: 'rubata.auction.closed',
   RUBATA_COMPLETED: 'rubata.completed',
 
   // Svincolati
   SVINCOLATI_STARTED: 'svincolati.started',
   FREE_AGENT_NOMINATED: 'svincolati.freeAgent.nominated',
+  SVINCOLATI_BID_PLACED: 'svincolati.bid.placed',
+  SVINCOLATI_READY_CHANGED: 'svincolati.member.readyChanged',
+  SVINCOLATI_TURN_ADVANCED: 'svincolati.turn.advanced',
   SVINCOLATI_AUCTION_CLOSED: 'svincolati.auction.closed',
   SVINCOLATI_COMPLETED: 'svincolati.completed',
 
@@ -351,6 +595,8 @@ export const DomainEventTypes = {
   TRADE_OFFERED: 'trade.offered',
   TRADE_ACCEPTED: 'trade.accepted',
   TRADE_REJECTED: 'trade.rejected',
+  TRADE_CANCELLED: 'trade.cancelled',
+  TRADE_INVALIDATED: 'trade.invalidated',
   COUNTER_OFFER_MADE: 'trade.counterOffer.made',
 
   // Prize
@@ -389,6 +635,9 @@ export interface DomainEventMap {
   [DomainEventTypes.PLAYER_REMOVED_FROM_ROSTER]: PlayerRemovedFromRoster
   [DomainEventTypes.CONTRACT_RENEWED]: ContractRenewed
   [DomainEventTypes.CONTRACT_CONSOLIDATED]: ContractConsolidated
+  [DomainEventTypes.CONTRACT_DURATIONS_DECREMENTED]: ContractDurationsDecremented
+  [DomainEventTypes.INDEMNITY_DECISIONS_SUBMITTED]: IndemnityDecisionsSubmitted
+  [DomainEventTypes.INDEMNITIES_CONSOLIDATED]: IndemnitiesConsolidated
 
   // Auction
   [DomainEventTypes.AUCTION_CREATED]: AuctionCreated
@@ -401,12 +650,18 @@ export interface DomainEventMap {
   // Rubata
   [DomainEventTypes.RUBATA_STARTED]: RubataStarted
   [DomainEventTypes.RUBATA_OFFER_PLACED]: RubataOfferPlaced
+  [DomainEventTypes.RUBATA_BID_PLACED]: RubataBidPlaced
+  [DomainEventTypes.RUBATA_READY_CHANGED]: RubataReadyChanged
   [DomainEventTypes.RUBATA_AUCTION_STARTED]: RubataAuctionStarted
+  [DomainEventTypes.RUBATA_AUCTION_CLOSED]: RubataAuctionClosed
   [DomainEventTypes.RUBATA_COMPLETED]: RubataCompleted
 
   // Svincolati
   [DomainEventTypes.SVINCOLATI_STARTED]: SvincolatiStarted
   [DomainEventTypes.FREE_AGENT_NOMINATED]: FreeAgentNominated
+  [DomainEventTypes.SVINCOLATI_BID_PLACED]: SvincolatiBidPlaced
+  [DomainEventTypes.SVINCOLATI_READY_CHANGED]: SvincolatiReadyChanged
+  [DomainEventTypes.SVINCOLATI_TURN_ADVANCED]: SvincolatiTurnAdvanced
   [DomainEventTypes.SVINCOLATI_AUCTION_CLOSED]: SvincolatiAuctionClosed
   [DomainEventTypes.SVINCOLATI_COMPLETED]: SvincolatiCompleted
 
@@ -414,6 +669,8 @@ export interface DomainEventMap {
   [DomainEventTypes.TRADE_OFFERED]: TradeOffered
   [DomainEventTypes.TRADE_ACCEPTED]: TradeAccepted
   [DomainEventTypes.TRADE_REJECTED]: TradeRejected
+  [DomainEventTypes.TRADE_CANCELLED]: TradeCancelled
+  [DomainEventTypes.TRADE_INVALIDATED]: TradeInvalidated
   [DomainEventTypes.COUNTER_OFFER_MADE]: CounterOfferMade
 
   // Prize
@@ -13,6 +13,9 @@ export {
   DomainEventTypes,
   type DomainEventType,
   type DomainEventMap,
+  // Shared Payloads
+  type PlayerMovement,
+  type ContractHistoryRecord,
   // Identity Events
   type UserRegistered,
   type UserLoggedIn,
@@ -25,6 +28,9 @@ export {
   type PlayerRemovedFromRoster,
   type ContractRenewed,
   type ContractConsolidated,
+  type ContractDurationsDecremented,
+  type IndemnityDecisionsSubmitted,
+  type IndemnitiesConsolidated,
   // Auction Events
   type AuctionCreated,
   type BidPlaced,
@@ -35,17 +41,26 @@ export {
   // Rubata Events
   type RubataStarted,
   type RubataOfferPlaced,
+  type RubataBidPlaced,
+  type RubataReadyChanged,
   type RubataAuctionStarted,
+  type RubataAuctionClosed,
   type RubataCompleted,
   // Svincolati Events
   type SvincolatiStarted,
   type FreeAgentNominated,
+  type SvincolatiBidPlaced,
+  type SvincolatiReadyChanged,
+  type SvincolatiTurnAdvanced,
   type SvincolatiAuctionClosed,
   type SvincolatiCompleted,
   // Trade Events
   type TradeOffered,
   type TradeAccepted,
   type TradeRejected,
+  type TradeCancelled,
+  type TradeInvalidated,
+  type TradeInvalidationReason,
   type CounterOfferMade,
   // Prize Events
   type PrizeAssigned,
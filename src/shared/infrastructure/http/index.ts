@@ -31,6 +31,10 @@ export {
   notFoundHandler,
 } from './error-handler'
 
+// Request context (IP/user agent for the audit trail)
+export { runWithRequestContext, getRequestContext } from './request-context'
+export type { RequestContext } from './request-context'
+
 // Result type for use cases
 export {
   Success,
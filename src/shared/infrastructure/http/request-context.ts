@@ -0,0 +1,38 @@
+/**
+ * Request context for the audit trail
+ *
+ * Keeps the client IP and user agent of the current HTTP request available to
+ * services (e.g. logAction) without threading them through every call, and
+ * remembers whether the request already wrote an audit entry.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+export interface RequestContext {
+  ipAddress?: string
+  userAgent?: string
+  /**
+   * Set by logAction: the generic admin audit middleware skips requests
+   * whose service already wrote a structured entry
+   */
+  auditLogged: boolean
+}
+
+const storage = new AsyncLocalStorage<RequestContext>()
+
+/**
+ * Run fn (and everything it awaits) within the given request context
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn)
+}
+
+/**
+ * Context of the request being handled, undefined outside HTTP requests
+ * (cron jobs, scripts, tests)
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore()
+}
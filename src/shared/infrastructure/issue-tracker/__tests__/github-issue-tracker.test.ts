@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { GitHubIssueTracker } from '../github-issue-tracker'
+import { createIssueTracker } from '../issue-tracker.factory'
+import { StubIssueTracker } from '../stub-issue-tracker'
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+describe('GitHubIssueTracker', () => {
+  const fetchMock = vi.fn<typeof fetch>()
+  let tracker: GitHubIssueTracker
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock)
+    fetchMock.mockReset()
+    tracker = new GitHubIssueTracker('token-1', 'owner/repo')
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should create an issue on the configured repository', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(201, { number: 42, html_url: 'https://github.com/owner/repo/issues/42', state: 'open' }))
+
+    const issue = await tracker.createIssue({ title: 'Bug', body: 'Details', labels: ['bug'] })
+
+    expect(issue).toEqual({ number: 42, url: 'https://github.com/owner/repo/issues/42', state: 'open', closeReason: null })
+    const [url, init] = fetchMock.mock.calls[0]!
+    expect(url).toBe('https://api.github.com/repos/owner/repo/issues')
+    expect(init?.method).toBe('POST')
+    expect(init?.body).toBe(JSON.stringify({ title: 'Bug', body: 'Details', labels: ['bug'] }))
+    expect(init?.headers).toMatchObject({ Authorization: 'Bearer token-1', 'Content-Type': 'application/json' })
+  })
+
+  it('should map the close reason of closed issues', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { number: 42, html_url: 'u', state: 'closed', state_reason: 'not_planned' }))
+
+    expect(await tracker.getIssue(42)).toMatchObject({ state: 'closed', closeReason: 'not_planned' })
+  })
+
+  it('should return null for deleted issues and throw on other errors', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(410, {}))
+    expect(await tracker.getIssue(42)).toBeNull()
+
+    fetchMock.mockResolvedValueOnce(jsonResponse(401, {}))
+    await expect(tracker.getIssue(42)).rejects.toThrow('GitHub HTTP 401')
+  })
+})
+
+describe('createIssueTracker', () => {
+  const env = { ...process.env }
+
+  afterEach(() => {
+    process.env = { ...env }
+  })
+
+  it('should select the provider from the environment', () => {
+    delete process.env.ISSUE_TRACKER_PROVIDER
+    delete process.env.GITHUB_ISSUES_TOKEN
+    delete process.env.GITHUB_ISSUES_REPO
+    expect(createIssueTracker()).toBeNull()
+
+    process.env.GITHUB_ISSUES_TOKEN = 'token-1'
+    process.env.GITHUB_ISSUES_REPO = 'owner/repo'
+    expect(createIssueTracker()).toBeInstanceOf(GitHubIssueTracker)
+
+    process.env.ISSUE_TRACKER_PROVIDER = 'stub'
+    expect(createIssueTracker()).toBeInstanceOf(StubIssueTracker)
+  })
+})
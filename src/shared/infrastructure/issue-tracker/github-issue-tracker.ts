@@ -0,0 +1,77 @@
+import type { CreateIssueInput, IIssueTracker, TrackerIssue } from './issue-tracker.interface'
+
+const GITHUB_API_BASE = 'https://api.github.com'
+
+interface GitHubIssueResponse {
+  number: number
+  html_url: string
+  state: 'open' | 'closed'
+  state_reason?: string | null
+}
+
+/**
+ * GitHub Issue Tracker Implementation
+ * Uses the GitHub REST API (issues endpoints) of a single repository
+ */
+export class GitHubIssueTracker implements IIssueTracker {
+  readonly provider = 'github'
+
+  /**
+   * @param token - Token with issues read/write permission on the repository
+   * @param repository - Repository in "owner/name" form
+   */
+  constructor(
+    private readonly token: string,
+    private readonly repository: string
+  ) {}
+
+  async createIssue(input: CreateIssueInput): Promise<TrackerIssue> {
+    const res = await this.request('/issues', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    })
+
+    if (!res.ok) {
+      throw new Error(`GitHub HTTP ${res.status}: ${res.statusText}`)
+    }
+
+    return this.toIssue(await res.json() as GitHubIssueResponse)
+  }
+
+  async getIssue(issueNumber: number): Promise<TrackerIssue | null> {
+    const res = await this.request(`/issues/${issueNumber}`)
+
+    // Deleted or transferred issues
+    if (res.status === 404 || res.status === 410) {
+      return null
+    }
+    if (!res.ok) {
+      throw new Error(`GitHub HTTP ${res.status}: ${res.statusText}`)
+    }
+
+    return this.toIssue(await res.json() as GitHubIssueResponse)
+  }
+
+  private request(path: string, init: RequestInit = {}): Promise<Response> {
+    return fetch(`${GITHUB_API_BASE}/repos/${this.repository}${path}`, {
+      ...init,
+      headers: {
+        Accept: 'application/vnd.github+json',
+        Authorization: `Bearer ${this.token}`,
+        'X-GitHub-Api-Version': '2022-11-28',
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      },
+    })
+  }
+
+  private toIssue(data: GitHubIssueResponse): TrackerIssue {
+    return {
+      number: data.number,
+      url: data.html_url,
+      state: data.state,
+      closeReason: data.state !== 'closed'
+        ? null
+        : data.state_reason === 'not_planned' ? 'not_planned' : 'completed',
+    }
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Issue tracker infrastructure module
+ *
+ * Pluggable adapter used to promote user feedback to issues and to sync
+ * their state back (GitHub REST, in-memory stub for tests).
+ */
+
+export type {
+  IIssueTracker,
+  TrackerIssue,
+  IssueState,
+  IssueCloseReason,
+  CreateIssueInput,
+} from './issue-tracker.interface'
+
+export { GitHubIssueTracker } from './github-issue-tracker'
+export { StubIssueTracker } from './stub-issue-tracker'
+export { createIssueTracker, getIssueTracker, resetIssueTracker } from './issue-tracker.factory'
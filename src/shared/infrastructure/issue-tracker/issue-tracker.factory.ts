@@ -0,0 +1,52 @@
+import type { IIssueTracker } from './issue-tracker.interface'
+import { GitHubIssueTracker } from './github-issue-tracker'
+import { StubIssueTracker } from './stub-issue-tracker'
+
+/**
+ * Issue Tracker Factory
+ * Creates the issue tracker based on environment configuration
+ *
+ * Priority:
+ * 1. ISSUE_TRACKER_PROVIDER env var (explicit choice: "github" or "stub")
+ * 2. Auto-detect GitHub when GITHUB_ISSUES_TOKEN and GITHUB_ISSUES_REPO are set
+ *
+ * Returns null when no tracker is configured: feedback cannot be promoted.
+ */
+export function createIssueTracker(): IIssueTracker | null {
+  const provider = process.env.ISSUE_TRACKER_PROVIDER?.toLowerCase()
+  const token = process.env.GITHUB_ISSUES_TOKEN
+  const repository = process.env.GITHUB_ISSUES_REPO
+
+  if (provider === 'stub') {
+    return new StubIssueTracker()
+  }
+
+  if (provider === 'github' || (!provider && token && repository)) {
+    if (!token || !repository) {
+      console.warn('[IssueTracker] GITHUB_ISSUES_TOKEN or GITHUB_ISSUES_REPO not configured')
+      return null
+    }
+    return new GitHubIssueTracker(token, repository)
+  }
+
+  return null
+}
+
+let instance: IIssueTracker | null | undefined
+
+/**
+ * Shared issue tracker, created on first use
+ */
+export function getIssueTracker(): IIssueTracker | null {
+  if (instance === undefined) {
+    instance = createIssueTracker()
+  }
+  return instance
+}
+
+/**
+ * Drop the shared instance so the next call re-reads the configuration (tests)
+ */
+export function resetIssueTracker(): void {
+  instance = undefined
+}
@@ -0,0 +1,44 @@
+/**
+ * Issue Tracker Interface
+ * Abstracts the external tracker where user feedback is promoted to issues
+ */
+
+export type IssueState = 'open' | 'closed'
+
+/**
+ * Why a closed issue was closed (GitHub state_reason)
+ */
+export type IssueCloseReason = 'completed' | 'not_planned'
+
+export interface TrackerIssue {
+  number: number
+  url: string
+  state: IssueState
+  closeReason: IssueCloseReason | null
+}
+
+export interface CreateIssueInput {
+  title: string
+  body: string
+  labels: string[]
+}
+
+export interface IIssueTracker {
+  /**
+   * Provider name, e.g. "github" or "stub"
+   */
+  readonly provider: string
+
+  /**
+   * Create a new issue
+   * @param input - Title, markdown body and labels
+   */
+  createIssue(input: CreateIssueInput): Promise<TrackerIssue>
+
+  /**
+   * Get the current state of an issue
+   * @param issueNumber - Issue number returned by createIssue
+   * @returns The issue, or null if it no longer exists
+   */
+  getIssue(issueNumber: number): Promise<TrackerIssue | null>
+}
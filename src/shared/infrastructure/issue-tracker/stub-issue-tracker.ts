@@ -0,0 +1,47 @@
+import type { CreateIssueInput, IIssueTracker, IssueCloseReason, TrackerIssue } from './issue-tracker.interface'
+
+/**
+ * Stub Issue Tracker Implementation
+ * Keeps issues in memory: used in tests and local development
+ */
+export class StubIssueTracker implements IIssueTracker {
+  readonly provider = 'stub'
+
+  private issues = new Map<number, TrackerIssue & { input: CreateIssueInput }>()
+  private nextNumber = 1
+
+  createIssue(input: CreateIssueInput): Promise<TrackerIssue> {
+    const number = this.nextNumber++
+    const issue = { number, url: `https://issues.local/${number}`, state: 'open' as const, closeReason: null, input }
+    this.issues.set(number, issue)
+    return Promise.resolve(this.toIssue(issue))
+  }
+
+  getIssue(issueNumber: number): Promise<TrackerIssue | null> {
+    const issue = this.issues.get(issueNumber)
+    return Promise.resolve(issue ? this.toIssue(issue) : null)
+  }
+
+  /**
+   * Created issues with their input, in creation order
+   */
+  getCreatedIssues(): Array<TrackerIssue & { input: CreateIssueInput }> {
+    return Array.from(this.issues.values())
+  }
+
+  /**
+   * Simulate a state change made on the tracker
+   */
+  setIssueState(issueNumber: number, state: TrackerIssue['state'], closeReason: IssueCloseReason = 'completed'): void {
+    const issue = this.issues.get(issueNumber)
+    if (!issue) {
+      throw new Error(`Issue #${issueNumber} not found`)
+    }
+    issue.state = state
+    issue.closeReason = state === 'closed' ? closeReason : null
+  }
+
+  private toIssue({ number, url, state, closeReason }: TrackerIssue): TrackerIssue {
+    return { number, url, state, closeReason }
+  }
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    presenceHeartbeat: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+
+import { InMemoryPresenceStore, DatabasePresenceStore, PRESENCE_TIMEOUT_MS } from '../presence-store'
+
+describe('InMemoryPresenceStore', () => {
+  let store: InMemoryPresenceStore
+  let now: number
+
+  beforeEach(() => {
+    store = new InMemoryPresenceStore()
+    now = 1_000_000
+    vi.spyOn(Date, 'now').mockImplementation(() => now)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should report the first heartbeat as a connection', async () => {
+    expect(await store.touch('AUCTION', 'session-1', 'member-1')).toBe(true)
+    expect(await store.touch('AUCTION', 'session-1', 'member-1')).toBe(false)
+  })
+
+  it('should mark members offline after the timeout', async () => {
+    await store.touch('AUCTION', 'session-1', 'member-1')
+
+    now += PRESENCE_TIMEOUT_MS - 1
+    expect((await store.getStatus('AUCTION', 'session-1')).get('member-1')).toBe(true)
+
+    now += 1
+    expect((await store.getStatus('AUCTION', 'session-1')).get('member-1')).toBe(false)
+  })
+
+  it('should report a disconnection only once', async () => {
+    await store.touch('RUBATA', 'league-1', 'member-1')
+    now += PRESENCE_TIMEOUT_MS
+
+    expect(await store.sweep('RUBATA', 'league-1')).toEqual(['member-1'])
+    expect(await store.sweep('RUBATA', 'league-1')).toEqual([])
+  })
+
+  it('should report a heartbeat after a disconnection as a reconnection', async () => {
+    await store.touch('RUBATA', 'league-1', 'member-1')
+    now += PRESENCE_TIMEOUT_MS
+    await store.sweep('RUBATA', 'league-1')
+
+    expect(await store.touch('RUBATA', 'league-1', 'member-1')).toBe(true)
+  })
+
+  it('should keep scopes and rooms separate', async () => {
+    await store.touch('RUBATA', 'league-1', 'member-1')
+    await store.touch('SVINCOLATI', 'league-1', 'member-2')
+
+    await store.clear('RUBATA', 'league-1')
+
+    expect((await store.getStatus('RUBATA', 'league-1')).size).toBe(0)
+    expect((await store.getStatus('SVINCOLATI', 'league-1')).get('member-2')).toBe(true)
+  })
+})
+
+describe('DatabasePresenceStore', () => {
+  let store: DatabasePresenceStore
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    store = new DatabasePresenceStore()
+  })
+
+  it('should upsert the heartbeat and detect a reconnection from the stored state', async () => {
+    mockPrisma.presenceHeartbeat.findUnique.mockResolvedValue({ lastSeenAt: new Date(), isOnline: false })
+
+    const reconnected = await store.touch('AUCTION', 'session-1', 'member-1')
+
+    expect(reconnected).toBe(true)
+    expect(mockPrisma.presenceHeartbeat.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { scope_roomId_memberId: { scope: 'AUCTION', roomId: 'session-1', memberId: 'member-1' } },
+      update: expect.objectContaining({ isOnline: true }) as unknown,
+    }))
+  })
+
+  it('should not report a member that is still online', async () => {
+    mockPrisma.presenceHeartbeat.findUnique.mockResolvedValue({ lastSeenAt: new Date(), isOnline: true })
+
+    expect(await store.touch('AUCTION', 'session-1', 'member-1')).toBe(false)
+  })
+
+  it('should only report disconnections claimed by this instance', async () => {
+    mockPrisma.presenceHeartbeat.findMany.mockResolvedValue([{ memberId: 'member-1' }, { memberId: 'member-2' }])
+    mockPrisma.presenceHeartbeat.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 })
+
+    expect(await store.sweep('RUBATA', 'league-1')).toEqual(['member-1'])
+  })
+
+  it('should compute the status from the last heartbeat', async () => {
+    mockPrisma.presenceHeartbeat.findMany.mockResolvedValue([
+      { memberId: 'member-1', lastSeenAt: new Date() },
+      { memberId: 'member-2', lastSeenAt: new Date(Date.now() - PRESENCE_TIMEOUT_MS - 1000) },
+    ])
+
+    const status = await store.getStatus('SVINCOLATI', 'league-1')
+
+    expect(status.get('member-1')).toBe(true)
+    expect(status.get('member-2')).toBe(false)
+  })
+})
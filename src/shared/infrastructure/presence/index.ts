@@ -0,0 +1,22 @@
+/**
+ * Presence infrastructure module
+ *
+ * Pluggable heartbeat store shared by the first market, rubata and svincolati rooms.
+ */
+
+export {
+  // Stores
+  InMemoryPresenceStore,
+  DatabasePresenceStore,
+
+  // Active store
+  getPresenceStore,
+  setPresenceStore,
+
+  // Types
+  type PresenceStore,
+  type PresenceScope,
+
+  // Constants
+  PRESENCE_TIMEOUT_MS,
+} from './presence-store'
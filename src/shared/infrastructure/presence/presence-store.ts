@@ -0,0 +1,182 @@
+/**
+ * Presence Store Infrastructure for FANTACONTRATTI
+ *
+ * Tracks which managers are connected to an auction room through periodic
+ * heartbeats. The store is pluggable: the database-backed implementation is
+ * shared by every serverless instance, the in-memory one is used by tests.
+ *
+ * Besides the connection status, each store remembers the last state that was
+ * announced to the room, so that disconnect/reconnect transitions are reported
+ * exactly once.
+ *
+ * Creato il: 18/10/2026
+ */
+
+import type { PresenceScope } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+export type { PresenceScope }
+
+/**
+ * Heartbeat timeout in milliseconds (45 seconds — 1.5× the 30s client interval)
+ */
+export const PRESENCE_TIMEOUT_MS = 45000
+
+/**
+ * PresenceStore - storage contract for heartbeats
+ */
+export interface PresenceStore {
+  /**
+   * Record a heartbeat for a member in a room
+   *
+   * @returns true if the member was not online before (connect/reconnect)
+   */
+  touch(scope: PresenceScope, roomId: string, memberId: string): Promise<boolean>
+
+  /**
+   * Connection status of every member that ever sent a heartbeat to the room
+   */
+  getStatus(scope: PresenceScope, roomId: string): Promise<Map<string, boolean>>
+
+  /**
+   * Mark members whose heartbeat expired as offline
+   *
+   * @returns memberIds that just went offline (not yet announced)
+   */
+  sweep(scope: PresenceScope, roomId: string): Promise<string[]>
+
+  /**
+   * Remove all heartbeats of a room
+   */
+  clear(scope: PresenceScope, roomId: string): Promise<void>
+}
+
+interface PresenceEntry {
+  lastSeenAt: number
+  isOnline: boolean
+}
+
+/**
+ * InMemoryPresenceStore - per-process store (tests and single-instance dev)
+ */
+export class InMemoryPresenceStore implements PresenceStore {
+  private rooms = new Map<string, Map<string, PresenceEntry>>()
+
+  constructor(private readonly timeoutMs: number = PRESENCE_TIMEOUT_MS) {}
+
+  private room(scope: PresenceScope, roomId: string): Map<string, PresenceEntry> {
+    const key = `${scope}:${roomId}`
+    let room = this.rooms.get(key)
+    if (!room) {
+      room = new Map()
+      this.rooms.set(key, room)
+    }
+    return room
+  }
+
+  touch(scope: PresenceScope, roomId: string, memberId: string): Promise<boolean> {
+    const now = Date.now()
+    const room = this.room(scope, roomId)
+    const previous = room.get(memberId)
+    room.set(memberId, { lastSeenAt: now, isOnline: true })
+    return Promise.resolve(!previous || !previous.isOnline || now - previous.lastSeenAt >= this.timeoutMs)
+  }
+
+  getStatus(scope: PresenceScope, roomId: string): Promise<Map<string, boolean>> {
+    const now = Date.now()
+    const status = new Map<string, boolean>()
+    this.rooms.get(`${scope}:${roomId}`)?.forEach((entry, memberId) => {
+      status.set(memberId, now - entry.lastSeenAt < this.timeoutMs)
+    })
+    return Promise.resolve(status)
+  }
+
+  sweep(scope: PresenceScope, roomId: string): Promise<string[]> {
+    const now = Date.now()
+    const wentOffline: string[] = []
+    this.rooms.get(`${scope}:${roomId}`)?.forEach((entry, memberId) => {
+      if (entry.isOnline && now - entry.lastSeenAt >= this.timeoutMs) {
+        entry.isOnline = false
+        wentOffline.push(memberId)
+      }
+    })
+    return Promise.resolve(wentOffline)
+  }
+
+  clear(scope: PresenceScope, roomId: string): Promise<void> {
+    this.rooms.delete(`${scope}:${roomId}`)
+    return Promise.resolve()
+  }
+}
+
+/**
+ * DatabasePresenceStore - shared store backed by the PresenceHeartbeat table
+ */
+export class DatabasePresenceStore implements PresenceStore {
+  constructor(private readonly timeoutMs: number = PRESENCE_TIMEOUT_MS) {}
+
+  async touch(scope: PresenceScope, roomId: string, memberId: string): Promise<boolean> {
+    const now = new Date()
+    const key = { scope_roomId_memberId: { scope, roomId, memberId } }
+    const previous = await prisma.presenceHeartbeat.findUnique({ where: key })
+
+    await prisma.presenceHeartbeat.upsert({
+      where: key,
+      create: { scope, roomId, memberId, lastSeenAt: now, isOnline: true },
+      update: { lastSeenAt: now, isOnline: true },
+    })
+
+    return !previous || !previous.isOnline || now.getTime() - previous.lastSeenAt.getTime() >= this.timeoutMs
+  }
+
+  async getStatus(scope: PresenceScope, roomId: string): Promise<Map<string, boolean>> {
+    const now = Date.now()
+    const rows = await prisma.presenceHeartbeat.findMany({
+      where: { scope, roomId },
+      select: { memberId: true, lastSeenAt: true },
+    })
+    return new Map(rows.map(r => [r.memberId, now - r.lastSeenAt.getTime() < this.timeoutMs]))
+  }
+
+  async sweep(scope: PresenceScope, roomId: string): Promise<string[]> {
+    const cutoff = new Date(Date.now() - this.timeoutMs)
+    const stale = await prisma.presenceHeartbeat.findMany({
+      where: { scope, roomId, isOnline: true, lastSeenAt: { lte: cutoff } },
+      select: { memberId: true },
+    })
+
+    // Claim each transition so that concurrent instances announce it only once
+    const wentOffline: string[] = []
+    for (const { memberId } of stale) {
+      const { count } = await prisma.presenceHeartbeat.updateMany({
+        where: { scope, roomId, memberId, isOnline: true, lastSeenAt: { lte: cutoff } },
+        data: { isOnline: false },
+      })
+      if (count > 0) wentOffline.push(memberId)
+    }
+    return wentOffline
+  }
+
+  async clear(scope: PresenceScope, roomId: string): Promise<void> {
+    await prisma.presenceHeartbeat.deleteMany({ where: { scope, roomId } })
+  }
+}
+
+// Tests run against the in-memory store unless they inject another one
+let presenceStore: PresenceStore = process.env.NODE_ENV === 'test'
+  ? new InMemoryPresenceStore()
+  : new DatabasePresenceStore()
+
+/**
+ * Get the active presence store
+ */
+export function getPresenceStore(): PresenceStore {
+  return presenceStore
+}
+
+/**
+ * Replace the active presence store (tests, alternative backends)
+ */
+export function setPresenceStore(store: PresenceStore): void {
+  presenceStore = store
+}
@@ -0,0 +1,24 @@
+export interface AuditLogEntry {
+  id: string
+  userId: string | null
+  user: { username: string } | null
+  action: string
+  entityType: string | null
+  entityId: string | null
+  oldValues: Record<string, unknown> | null
+  newValues: Record<string, unknown> | null
+  // Fase di mercato attiva al momento dell'azione
+  phase: string | null
+  ipAddress: string | null
+  userAgent: string | null
+  createdAt: string
+}
+
+export interface AuditLogFilters {
+  userId?: string
+  entityType?: string
+  phase?: string
+  // Date ISO (yyyy-mm-dd), estremi inclusi
+  from?: string
+  to?: string
+}
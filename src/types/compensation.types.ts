@@ -0,0 +1,25 @@
+export interface CompensationJournalEntry {
+  id: string
+  // Operazione originale (es. RUBATA_TRANSFER, TRADE_ACCEPTED)
+  operation: string
+  entityType: string
+  entityId: string
+  description: string
+  stepCount: number
+  performedBy: string | null
+  createdAt: string
+  reversedAt: string | null
+  reversedBy: string | null
+  reverseReason: string | null
+}
+
+export interface CompensationPreview {
+  id: string
+  description: string
+  alreadyReversed: boolean
+  changes: string[]
+  // Righe modificate dopo l'operazione: il rollback non è applicabile
+  conflicts: string[]
+  warnings: string[]
+  canApply: boolean
+}
@@ -70,6 +70,7 @@ export interface ManagerSessionSnapshot {
 
 // Input for creating contract history entries
 export interface CreateContractHistoryInput {
+  id?: string; // Preassigned when recorded in the compensation journal
   contractId?: string;
   playerId: string;
   leagueMemberId: string;
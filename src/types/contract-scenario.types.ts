@@ -0,0 +1,69 @@
+export interface ScenarioAction {
+  type: 'RENEW' | 'RELEASE'
+  contractId: string
+  semester: number
+  salary?: number
+  duration?: number
+}
+
+export interface SimulatedContract {
+  contractId: string
+  playerName: string
+  position: string
+  team: string
+  salary: number
+  duration: number
+  initialSalary: number
+}
+
+export interface ProjectedContract {
+  contractId: string
+  playerName: string
+  position: string
+  team: string
+  salary: number
+  duration: number
+  clause: number
+}
+
+export interface SemesterProjection {
+  semester: number
+  inflow: number
+  releaseCosts: number
+  budget: number
+  totalSalaries: number
+  balance: number
+  totalClauses: number
+  contracts: ProjectedContract[]
+  expired: string[]
+  renewed: string[]
+  released: string[]
+}
+
+export interface ScenarioProjection {
+  semesters: SemesterProjection[]
+  errors: string[]
+  finalBalance: number
+  minBalance: number
+}
+
+export interface ContractScenarioInput {
+  horizon: number
+  inflowPerSemester: number
+  actions: ScenarioAction[]
+}
+
+export interface SavedContractScenario extends ContractScenarioInput {
+  id: string
+  name: string
+  updatedAt: string
+  projection: ScenarioProjection
+}
+
+export interface ContractSimulatorData {
+  budget: number
+  contracts: SimulatedContract[]
+  defaultInflow: number
+  maxDuration: number
+  scenarios: SavedContractScenario[]
+}
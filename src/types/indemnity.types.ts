@@ -0,0 +1,45 @@
+export type IndemnityPhaseStatus = 'OPEN' | 'DECISIONS' | 'ADMIN_REVIEW' | 'CONSOLIDATED'
+export type IndemnityChoice = 'KEEP' | 'RELEASE'
+
+export interface IndemnityPlayerRow {
+  id: string
+  rosterId: string
+  playerId: string
+  playerName: string
+  position: string
+  team: string
+  exitReason: 'RETROCESSO' | 'ESTERO'
+  memberId: string
+  teamName: string | null
+  username: string
+  contract: { salary: number; duration: number } | null
+  hasDecided: boolean
+  // Null anche quando la scelta di un altro manager non è ancora visibile
+  decision: IndemnityChoice | null
+  decidedAt: string | null
+  decidedByAdmin: boolean
+  expectedCompensation: number
+  compensationPaid: number | null
+}
+
+export interface IndemnityPhaseData {
+  phaseId: string
+  sessionId: string
+  leagueName: string
+  status: IndemnityPhaseStatus
+  decisionDeadline: string | null
+  openedAt: string
+  decisionsOpenedAt: string | null
+  reviewStartedAt: string | null
+  consolidatedAt: string | null
+  isAdmin: boolean
+  myMemberId: string
+  players: IndemnityPlayerRow[]
+  totals: {
+    players: number
+    decided: number
+    released: number
+    kept: number
+    compensationPaid: number
+  }
+}
@@ -0,0 +1,63 @@
+import type { ScoringRole, ScoringRuleset, ScoredSlot } from '../utils/scoring-rules'
+
+export interface MatchdayRound {
+  round: string
+  isComputed: boolean
+}
+
+export interface MatchdaysData {
+  season: string
+  rounds: MatchdayRound[]
+  nextRound: string | null
+  isAdmin: boolean
+}
+
+export interface LineupPlayer {
+  id: string
+  name: string
+  team: string
+  position: ScoringRole
+}
+
+export interface MatchdayLineupData {
+  season: string
+  round: string
+  locked: boolean
+  rules: ScoringRuleset
+  roster: LineupPlayer[]
+  lineup: {
+    formation: string
+    starters: string[]
+    bench: string[]
+    updatedAt: string
+  } | null
+}
+
+export interface MatchdayStanding {
+  memberId: string
+  teamName: string | null
+  username: string
+  total: number
+  rank: number
+}
+
+export interface RoundStanding extends MatchdayStanding {
+  breakdown: {
+    players: Array<ScoredSlot & { name?: string }>
+    missing: string[]
+    hasLineup: boolean
+  }
+  computedAt: string
+}
+
+export interface SeasonStanding extends MatchdayStanding {
+  roundsPlayed: number
+}
+
+export interface MatchdayStandingsData {
+  season: string
+  round: string
+  isComputed: boolean
+  roundStandings: RoundStanding[]
+  seasonStandings: SeasonStanding[]
+}
@@ -0,0 +1,23 @@
+export interface QuotationHistoryPoint {
+  quotation: number
+  recordedAt: string
+  uploadId: string
+}
+
+export interface QuotationMover {
+  playerId: string
+  name: string
+  team: string
+  position: string
+  previousQuotation: number
+  quotation: number
+  delta: number
+  owner: { memberId: string; teamName: string | null; username: string } | null
+}
+
+export interface QuotationMoversData {
+  latestUpload: { id: string; createdAt: string } | null
+  previousUpload: { id: string; createdAt: string } | null
+  risers: QuotationMover[]
+  fallers: QuotationMover[]
+}
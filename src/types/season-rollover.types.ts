@@ -0,0 +1,74 @@
+import type { SeasonBudgetPolicy } from '../utils/season-rollover'
+
+export type { SeasonBudgetMode, SeasonBudgetPolicy } from '../utils/season-rollover'
+
+export type StandingsSource = 'IMPORT' | 'MATCHDAYS' | 'NONE'
+
+export interface SeasonStandingEntry {
+  memberId: string
+  teamName: string | null
+  username: string
+  rank: number
+  points: number
+}
+
+export interface SeasonMemberChange {
+  memberId: string
+  teamName: string | null
+  username: string
+  budget: number
+  newBudget: number
+  totalSalaries: number
+  contractCount: number
+  // Contratti in scadenza (durata residua 1) svincolati all'apertura del mercato
+  expiringCount: number
+}
+
+export interface ExpiringContract {
+  contractId: string
+  memberId: string
+  playerName: string
+  salary: number
+}
+
+export interface SeasonRolloverPreview {
+  season: number
+  nextSeason: number
+  policy: SeasonBudgetPolicy
+  standingsSource: StandingsSource
+  standings: SeasonStandingEntry[]
+  members: SeasonMemberChange[]
+  contractsToDecrement: number
+  expiringContracts: ExpiringContract[]
+  // Motivi per cui il cambio stagione non può essere applicato
+  blockers: string[]
+  canApply: boolean
+}
+
+export interface SeasonRolloverReport {
+  season: number
+  nextSeason: number
+  policy: SeasonBudgetPolicy
+  standingsSource: StandingsSource
+  standings: SeasonStandingEntry[]
+  members: SeasonMemberChange[]
+  snapshotsCreated: number
+  nextSessionId: string | null
+  // Esito dell'apertura del mercato (decremento durate e svincoli per scadenza)
+  contractsDecremented: number
+  playersReleased: string[]
+  nextSessionError: string | null
+}
+
+export interface SeasonArchiveSummary {
+  id: string
+  season: number
+  standingsSource: StandingsSource
+  standings: SeasonStandingEntry[]
+  policy: SeasonBudgetPolicy
+  // null finché il mercato della nuova stagione non è stato aperto
+  nextSessionId: string | null
+  nextSessionError: string | null
+  closedBy: { username: string } | null
+  createdAt: string
+}
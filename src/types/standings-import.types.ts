@@ -0,0 +1,56 @@
+import type {
+  ColumnMapping,
+  StandingsImportKind,
+  StandingsImportReport,
+  TeamCandidate,
+} from '../utils/standings-import'
+
+export interface StandingsFileAnalysis {
+  sheetNames: string[]
+  sheetName: string
+  headers: string[]
+  sample: Array<Record<string, string | number | boolean | null>>
+  mapping: ColumnMapping
+  // Etichette dei campi obbligatori non ancora mappati
+  missingFields: string[]
+  members: TeamCandidate[]
+  report: StandingsImportReport | null
+}
+
+export interface StandingsFileOptions {
+  kind: StandingsImportKind
+  sheetName?: string
+  // Stagione di lega (default: la corrente)
+  season?: number
+  mapping?: ColumnMapping
+  overrides?: Record<string, string>
+}
+
+export interface StandingsImportHistoryItem {
+  id: string
+  kind: StandingsImportKind
+  season: number
+  fileName: string
+  sheetName: string
+  rowsImported: number
+  totalProcessed: number
+  errors: string[] | null
+  uploadedBy: string
+  createdAt: string
+}
+
+export interface ImportedStandingsData {
+  importId: string
+  kind: StandingsImportKind
+  season: number
+  fileName: string
+  importedAt: string
+  entries: Array<{
+    memberId: string
+    teamName: string | null
+    username: string
+    points: number
+    rank: number
+    roundsPlayed: number
+  }>
+}
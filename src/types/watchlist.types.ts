@@ -0,0 +1,45 @@
+export interface WatchlistCategory {
+  id: string
+  leagueId: string
+  memberId: string | null
+  name: string
+  description: string | null
+  icon: string | null
+  color: string | null
+  code: string | null
+  isSystemDefault: boolean
+  sortOrder: number
+  isOwn: boolean
+  entryCount: number
+}
+
+export interface WatchlistEntry {
+  id: string
+  categoryId: string
+  memberId: string
+  playerId: string
+  maxBid: number | null
+  targetPrice: number | null
+  priority: number
+  notes: string | null
+  addedAt: string
+  player: {
+    id: string
+    name: string
+    team: string
+    position: string
+    quotation: number
+  }
+}
+
+export interface WatchlistData {
+  categories: WatchlistCategory[]
+  entries: WatchlistEntry[]
+}
+
+export interface WatchlistStrategy {
+  priority?: number
+  targetPrice?: number | null
+  maxBid?: number | null
+  notes?: string | null
+}
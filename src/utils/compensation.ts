@@ -0,0 +1,115 @@
+// Journal delle operazioni compensative (CompensatingAction.steps).
+// Modulo puro: i service fotografano rose, contratti e budget prima e dopo
+// un'operazione; il rollback ripristina lo stato "prima" solo se lo stato
+// attuale coincide ancora con quello "dopo".
+
+// Riga serializzata (date come stringhe ISO), senza timestamp di sistema
+export type SnapshotRow = Record<string, unknown>
+
+export type SnapshotTable = 'roster' | 'contract'
+
+export interface StateSnapshot {
+  roster: Record<string, SnapshotRow>
+  contract: Record<string, SnapshotRow>
+  budgets: Record<string, number>
+}
+
+// Record aggiornati o eliminati dal rollback oltre a rose e contratti
+export type CompensationRecordModel =
+  | 'auction'
+  | 'tradeOffer'
+  | 'prizePhaseConfig'
+  | 'contractConsolidation'
+  | 'leagueMember'
+  | 'indemnityPhase'
+  | 'multiPartyTrade'
+
+export interface MovementFilter {
+  auctionId?: string
+  tradeId?: string
+  marketSessionId?: string
+  memberId?: string
+  movementTypes?: string[]
+}
+
+export type CompensationStep =
+  // Variazione di budget da applicare (già invertita)
+  | { kind: 'BUDGET'; memberId: string; delta: number }
+  // Riga prima/dopo l'operazione: before null = creata, after null = eliminata
+  | { kind: 'ROW'; table: SnapshotTable; id: string; before: SnapshotRow | null; after: SnapshotRow | null }
+  // Movimenti registrati dall'operazione: ids assegnati prima della creazione
+  // (anche se li scrivono i sottoscrittori degli eventi); filter solo per
+  // asta/scambio o per le voci registrate prima degli id
+  | { kind: 'MOVEMENTS'; ids?: string[]; filter?: MovementFilter }
+  // Voci dello storico contratti registrate dall'operazione (da eliminare)
+  | { kind: 'HISTORY'; ids: string[] }
+  // Campi da ripristinare su un record; data null = elimina il record
+  | { kind: 'RECORD'; model: CompensationRecordModel; id: string; data: SnapshotRow | null }
+
+export type RowStep = Extract<CompensationStep, { kind: 'ROW' }>
+
+const SYSTEM_FIELDS = new Set(['createdAt', 'updatedAt'])
+
+export function emptySnapshot(): StateSnapshot {
+  return { roster: {}, contract: {}, budgets: {} }
+}
+
+export function toSnapshotRow(row: object): SnapshotRow {
+  const json = JSON.parse(JSON.stringify(row)) as SnapshotRow
+  return Object.fromEntries(Object.entries(json).filter(([key]) => !SYSTEM_FIELDS.has(key)))
+}
+
+/**
+ * Una riga corrisponde allo stato atteso se tutti i campi registrati hanno
+ * lo stesso valore (null = la riga non deve esistere).
+ */
+export function rowMatches(current: SnapshotRow | null, expected: SnapshotRow | null): boolean {
+  if (!current || !expected) return current === expected
+  const normalized = toSnapshotRow(current)
+  return Object.keys(expected).every(key => JSON.stringify(normalized[key]) === JSON.stringify(expected[key]))
+}
+
+/**
+ * Passi inversi di un'operazione a partire dalle due fotografie: righe
+ * create, eliminate o modificate e differenze di budget.
+ */
+export function diffSnapshots(before: StateSnapshot, after: StateSnapshot): CompensationStep[] {
+  const steps: CompensationStep[] = []
+
+  for (const table of ['roster', 'contract'] as const) {
+    const ids = new Set([...Object.keys(before[table]), ...Object.keys(after[table])])
+    for (const id of ids) {
+      const previous = before[table][id] ?? null
+      const next = after[table][id] ?? null
+      if (!rowMatches(next, previous)) {
+        steps.push({ kind: 'ROW', table, id, before: previous, after: next })
+      }
+    }
+  }
+
+  for (const [memberId, budget] of Object.entries(after.budgets)) {
+    const delta = (before.budgets[memberId] ?? budget) - budget
+    if (delta !== 0) {
+      steps.push({ kind: 'BUDGET', memberId, delta })
+    }
+  }
+
+  return steps
+}
+
+// Righe il cui stato attuale non è più quello lasciato dall'operazione
+export function conflictingRows(steps: CompensationStep[], current: StateSnapshot): RowStep[] {
+  return steps.filter((s): s is RowStep => s.kind === 'ROW' && !rowMatches(current[s.table][s.id] ?? null, s.after))
+}
+
+/**
+ * Assegna gli id alle righe (movimenti, storico contratti) che i sottoscrittori
+ * degli eventi creeranno dopo il commit, per registrarli nel journal.
+ */
+export function assignJournalIds(rows: Array<{ id?: string }>): string[] {
+  return rows.map(row => (row.id ??= crypto.randomUUID()))
+}
+
+export function parseCompensationSteps(value: unknown): CompensationStep[] {
+  return Array.isArray(value) ? (value as CompensationStep[]) : []
+}
@@ -0,0 +1,155 @@
+// Regole contrattuali configurabili per lega (League.contractRuleset).
+// Modulo puro: usato sia dai service lato server sia dalle pagine (Contracts, Rules, AdminPanel).
+
+export interface ContractRuleset {
+  // Semestri → moltiplicatore clausola rescissoria
+  durationMultipliers: Record<number, number>
+  // Durata massima di un contratto (semestri)
+  maxDuration: number
+  // Ingaggio minimo per acquisti non-PRIMO MERCATO (% del prezzo d'acquisto)
+  minSalaryPercent: number
+  // Ingaggio del contratto automatico post-asta (% del prezzo d'asta)
+  defaultSalaryPercent: number
+  // Durata del contratto automatico post-asta (semestri)
+  defaultDuration: number
+  // Costo taglio = ingaggio × durata residua × releaseCostPercent / 100
+  releaseCostPercent: number
+  // Massimo giocatori in rosa dopo consolidamento
+  maxRosterSize: number
+}
+
+export const DEFAULT_CONTRACT_RULESET: ContractRuleset = {
+  durationMultipliers: {
+    4: 11,  // 4 semestri = moltiplicatore 11
+    3: 9,   // 3 semestri = moltiplicatore 9
+    2: 7,   // 2 semestri = moltiplicatore 7
+    1: 3,   // 1 semestre = moltiplicatore 3
+  },
+  maxDuration: 4,
+  minSalaryPercent: 10,
+  defaultSalaryPercent: 10,
+  defaultDuration: 3,
+  releaseCostPercent: 50,
+  maxRosterSize: 29,
+}
+
+// Limiti di piattaforma (non configurabili)
+export const CONTRACT_RULESET_LIMITS = {
+  maxDuration: 8,
+  maxMultiplier: 50,
+  minRosterSize: 1,
+  maxRosterSize: 60,
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0
+}
+
+function isPercent(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100
+}
+
+/**
+ * Unisce il ruleset salvato sulla lega (JSON, anche parziale) ai default.
+ * I campi mancanti o di tipo errato ricadono sul valore di default;
+ * la coerenza complessiva si verifica con validateContractRuleset.
+ */
+export function resolveContractRuleset(raw: unknown): ContractRuleset {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ...DEFAULT_CONTRACT_RULESET, durationMultipliers: { ...DEFAULT_CONTRACT_RULESET.durationMultipliers } }
+  }
+
+  const stored = raw as Partial<Record<keyof ContractRuleset, unknown>>
+  const pick = <K extends keyof ContractRuleset>(key: K, guard: (v: unknown) => boolean): ContractRuleset[K] =>
+    guard(stored[key]) ? stored[key] as ContractRuleset[K] : DEFAULT_CONTRACT_RULESET[key]
+
+  let durationMultipliers = { ...DEFAULT_CONTRACT_RULESET.durationMultipliers }
+  if (stored.durationMultipliers && typeof stored.durationMultipliers === 'object') {
+    durationMultipliers = {}
+    for (const [key, value] of Object.entries(stored.durationMultipliers as Record<string, unknown>)) {
+      const duration = Number(key)
+      if (isPositiveInteger(duration) && typeof value === 'number') {
+        durationMultipliers[duration] = value
+      }
+    }
+  }
+
+  return {
+    durationMultipliers,
+    maxDuration: pick('maxDuration', isPositiveInteger),
+    minSalaryPercent: pick('minSalaryPercent', isPercent),
+    defaultSalaryPercent: pick('defaultSalaryPercent', isPercent),
+    defaultDuration: pick('defaultDuration', isPositiveInteger),
+    releaseCostPercent: pick('releaseCostPercent', isPercent),
+    maxRosterSize: pick('maxRosterSize', isPositiveInteger),
+  }
+}
+
+/**
+ * Verifica la coerenza di un ruleset. Ritorna l'elenco degli errori (vuoto se valido).
+ * rosterSlots (somma slot P/D/C/A della lega) serve a garantire che la rosa
+ * completa del primo mercato possa essere consolidata.
+ */
+export function validateContractRuleset(rules: ContractRuleset, options: { rosterSlots?: number } = {}): string[] {
+  const errors: string[] = []
+
+  if (!isPositiveInteger(rules.maxDuration) || rules.maxDuration > CONTRACT_RULESET_LIMITS.maxDuration) {
+    errors.push(`Durata massima deve essere tra 1 e ${CONTRACT_RULESET_LIMITS.maxDuration} semestri`)
+  } else {
+    for (let duration = 1; duration <= rules.maxDuration; duration++) {
+      const multiplier = rules.durationMultipliers[duration]
+      if (!isPositiveInteger(multiplier) || multiplier > CONTRACT_RULESET_LIMITS.maxMultiplier) {
+        errors.push(`Moltiplicatore clausola per ${duration} semestr${duration === 1 ? 'e' : 'i'} deve essere un intero tra 1 e ${CONTRACT_RULESET_LIMITS.maxMultiplier}`)
+      }
+    }
+    const extraDurations = Object.keys(rules.durationMultipliers).map(Number).filter(d => d > rules.maxDuration)
+    if (extraDurations.length > 0) {
+      errors.push(`Moltiplicatori definiti oltre la durata massima: ${extraDurations.join(', ')}`)
+    }
+    if (!isPositiveInteger(rules.defaultDuration) || rules.defaultDuration > rules.maxDuration) {
+      errors.push(`Durata contratto automatico deve essere tra 1 e ${rules.maxDuration} semestri`)
+    }
+  }
+
+  if (!isPercent(rules.minSalaryPercent)) {
+    errors.push('Ingaggio minimo (%) deve essere tra 0 e 100')
+  }
+  if (!isPercent(rules.defaultSalaryPercent) || rules.defaultSalaryPercent === 0) {
+    errors.push('Ingaggio contratto automatico (%) deve essere tra 1 e 100')
+  }
+  if (!isPercent(rules.releaseCostPercent)) {
+    errors.push('Costo taglio (%) deve essere tra 0 e 100')
+  }
+
+  if (!isPositiveInteger(rules.maxRosterSize) || rules.maxRosterSize > CONTRACT_RULESET_LIMITS.maxRosterSize) {
+    errors.push(`Rosa massima deve essere tra ${CONTRACT_RULESET_LIMITS.minRosterSize} e ${CONTRACT_RULESET_LIMITS.maxRosterSize} giocatori`)
+  } else if (options.rosterSlots !== undefined && rules.maxRosterSize < options.rosterSlots) {
+    errors.push(`Rosa massima (${rules.maxRosterSize}) inferiore agli slot della lega (${options.rosterSlots})`)
+  }
+
+  return errors
+}
+
+// Moltiplicatore clausola per una durata; fuori tabella si usa quello di 1 semestre
+export function getClauseMultiplier(duration: number, rules: ContractRuleset = DEFAULT_CONTRACT_RULESET): number {
+  return rules.durationMultipliers[duration] ?? rules.durationMultipliers[1] ?? 1
+}
+
+// Costo taglio = (ingaggio × durata rimanente) × percentuale (default 50% = diviso 2)
+export function getReleaseCost(salary: number, duration: number, rules: ContractRuleset = DEFAULT_CONTRACT_RULESET): number {
+  return Math.ceil((salary * duration * rules.releaseCostPercent) / 100)
+}
+
+// Descrizione leggibile della formula del taglio (es. "(Ingaggio × Durata residua) / 2")
+export function describeReleaseCostFormula(rules: ContractRuleset): string {
+  if (rules.releaseCostPercent === 50) return '(Ingaggio × Durata residua) / 2'
+  if (rules.releaseCostPercent === 100) return 'Ingaggio × Durata residua'
+  return `(Ingaggio × Durata residua) × ${rules.releaseCostPercent}%`
+}
+
+// Calcolo del taglio per un contratto specifico (es. "8×2/2")
+export function formatReleaseCostCalculation(salary: number, duration: number, rules: ContractRuleset): string {
+  if (rules.releaseCostPercent === 50) return `${salary}×${duration}/2`
+  if (rules.releaseCostPercent === 100) return `${salary}×${duration}`
+  return `${salary}×${duration}×${rules.releaseCostPercent}%`
+}
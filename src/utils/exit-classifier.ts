@@ -0,0 +1,133 @@
+// Proposta automatica del motivo di uscita dalla lista quotazioni (PlayerExitReason).
+// Modulo puro: usato dal service superadmin e dal modale di classificazione.
+
+export type ExitReason = 'RITIRATO' | 'RETROCESSO' | 'ESTERO'
+
+// ID campionati API-Football
+export const SERIE_A_LEAGUE_ID = 135
+export const SERIE_B_LEAGUE_ID = 136
+
+// Sopra questa soglia la proposta si può confermare in blocco
+export const EXIT_PROPOSAL_CONFIDENT = 80
+
+// Età da cui l'assenza di una squadra fa pensare a un ritiro
+const RETIREMENT_AGE = 35
+const LATE_CAREER_AGE = 32
+
+// Dopo 30 giorni il club in cache può essere cambiato
+const STALE_LOOKUP_MS = 30 * 24 * 60 * 60 * 1000
+const STALE_PENALTY = 15
+
+export interface CurrentClub {
+  // null = nessuna squadra nella stagione corrente
+  team: string | null
+  leagueId: number | null
+  leagueName: string | null
+  leagueCountry: string | null
+  lookedUpAt: Date
+}
+
+export interface ExitClassificationInput {
+  age: number | null
+  previousTeam: string
+  // Nessun giocatore della squadra nell'ultima lista quotazioni (squadra retrocessa)
+  previousTeamOutOfList: boolean
+  // Club attuale da API-Football; null se il giocatore non è abbinato o mai cercato
+  club: CurrentClub | null
+}
+
+export interface ExitProposal {
+  // null = nessuna proposta, serve la scelta manuale
+  exitReason: ExitReason | null
+  confidence: number  // 0-100
+  evidence: string[]
+}
+
+export interface ExitClassificationProposal extends ExitProposal {
+  playerId: string
+  apiFootballId: number | null
+}
+
+// Risposta delle proposte (see: getExitClassificationProposals)
+export interface ExitProposalsData {
+  proposals: ExitClassificationProposal[]
+  lookedUp: number
+  // Giocatori non cercati per la quota API-Football esaurita
+  skipped: number
+  apiCallsUsed: number
+}
+
+function fromClub(input: ExitClassificationInput, club: CurrentClub): ExitProposal {
+  const { age, previousTeam, previousTeamOutOfList } = input
+
+  if (club.team === null || club.leagueId === null) {
+    const evidence = ['Nessuna squadra per la stagione corrente su API-Football']
+    if (age !== null) evidence.push(`Età: ${age} anni`)
+
+    if (age !== null && age >= RETIREMENT_AGE) {
+      return { exitReason: 'RITIRATO', confidence: 80, evidence }
+    }
+    if (previousTeamOutOfList) {
+      evidence.push(`${previousTeam} non è più nella lista quotazioni`)
+      return { exitReason: 'RETROCESSO', confidence: 50, evidence }
+    }
+    return { exitReason: 'RITIRATO', confidence: age !== null && age >= LATE_CAREER_AGE ? 55 : 30, evidence }
+  }
+
+  const where = `${club.team} (${club.leagueName ?? 'campionato sconosciuto'}, ${club.leagueCountry ?? '?'})`
+
+  if (club.leagueCountry && club.leagueCountry !== 'Italy') {
+    return { exitReason: 'ESTERO', confidence: 90, evidence: [`Gioca con ${where}`] }
+  }
+
+  if (club.leagueId === SERIE_B_LEAGUE_ID) {
+    const evidence = [`Gioca con ${where}`]
+    if (previousTeamOutOfList) evidence.push(`${previousTeam} non è più nella lista quotazioni`)
+    return { exitReason: 'RETROCESSO', confidence: previousTeamOutOfList ? 95 : 90, evidence }
+  }
+
+  if (club.leagueId === SERIE_A_LEAGUE_ID) {
+    return {
+      exitReason: null,
+      confidence: 0,
+      evidence: [`Risulta ancora in Serie A con ${club.team}: verifica la lista quotazioni`],
+    }
+  }
+
+  // Campionato italiano inferiore alla Serie B
+  return { exitReason: 'RETROCESSO', confidence: 75, evidence: [`Gioca con ${where}`] }
+}
+
+function withoutClub(input: ExitClassificationInput): ExitProposal {
+  const { age, previousTeam, previousTeamOutOfList } = input
+  const evidence = ['Club attuale sconosciuto (nessun dato API-Football)']
+
+  if (previousTeamOutOfList) {
+    evidence.push(`${previousTeam} non è più nella lista quotazioni`)
+    return { exitReason: 'RETROCESSO', confidence: 60, evidence }
+  }
+  if (age !== null && age >= RETIREMENT_AGE) {
+    evidence.push(`Età: ${age} anni`)
+    return { exitReason: 'RITIRATO', confidence: 40, evidence }
+  }
+  return { exitReason: null, confidence: 0, evidence }
+}
+
+/**
+ * Propone il motivo di uscita di un giocatore non più in lista: campionato
+ * estero -> ESTERO, Serie B o inferiore -> RETROCESSO, nessuna squadra ed età
+ * avanzata -> RITIRATO. La confidenza scende se il club in cache è vecchio.
+ */
+export function classifyExit(input: ExitClassificationInput, now: Date = new Date()): ExitProposal {
+  if (!input.club) return withoutClub(input)
+
+  const proposal = fromClub(input, input.club)
+  if (proposal.exitReason && now.getTime() - input.club.lookedUpAt.getTime() > STALE_LOOKUP_MS) {
+    return {
+      ...proposal,
+      confidence: Math.max(0, proposal.confidence - STALE_PENALTY),
+      evidence: [...proposal.evidence, `Dato API-Football del ${input.club.lookedUpAt.toLocaleDateString('it-IT')}`],
+    }
+  }
+  return proposal
+}
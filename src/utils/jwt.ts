@@ -54,3 +54,28 @@ export function generateTokens(payload: TokenPayload, familyId?: string): { acce
 export function hashToken(token: string): string {
   return crypto.createHash('sha256').update(token).digest('hex')
 }
+
+// Token intermedio del login a due fattori: password verificata, codice TOTP ancora da fornire
+// (VERIFY) oppure configurazione 2FA obbligatoria da completare (SETUP). Firmato con un segreto
+// distinto così non può essere usato come access token.
+const TWO_FACTOR_TOKEN_SECRET = process.env.JWT_TWO_FACTOR_SECRET || `${ACCESS_TOKEN_SECRET}-two-factor`
+const TWO_FACTOR_TOKEN_EXPIRY = '5m'
+
+export type TwoFactorChallengePurpose = 'VERIFY' | 'SETUP'
+
+export interface TwoFactorChallengePayload extends TokenPayload {
+  purpose: TwoFactorChallengePurpose
+}
+
+export function generateTwoFactorChallengeToken(payload: TokenPayload, purpose: TwoFactorChallengePurpose): string {
+  const { userId, email, username } = payload
+  return jwt.sign({ userId, email, username, purpose }, TWO_FACTOR_TOKEN_SECRET, { expiresIn: TWO_FACTOR_TOKEN_EXPIRY })
+}
+
+export function verifyTwoFactorChallengeToken(token: string): TwoFactorChallengePayload | null {
+  try {
+    return jwt.verify(token, TWO_FACTOR_TOKEN_SECRET) as TwoFactorChallengePayload
+  } catch {
+    return null
+  }
+}
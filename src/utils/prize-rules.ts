@@ -0,0 +1,139 @@
+// Regole di calcolo automatico delle categorie premio (PrizeCategory.rule).
+// Modulo puro: usato dal service della fase premi e da PrizePhaseManager.
+
+// Dato di lega da cui si ricava la graduatoria
+export type PrizeRuleMetric = 'STANDINGS' | 'BEST_ROUND' | 'TOP_SCORER' | 'BALANCE' | 'BUDGET' | 'SALARIES'
+
+// TOP = dal valore più alto (1° in classifica), BOTTOM = dal più basso (peggior bilancio)
+export type PrizeRuleDirection = 'TOP' | 'BOTTOM'
+
+export interface PrizeRule {
+  metric: PrizeRuleMetric
+  direction: PrizeRuleDirection
+  // amounts[i] va al manager in posizione i+1 della graduatoria (negativo = penalità)
+  amounts: number[]
+}
+
+export const PRIZE_RULE_METRICS: Record<PrizeRuleMetric, { label: string; description: string }> = {
+  STANDINGS: { label: 'Classifica', description: 'Punti della classifica importata o, in mancanza, delle giornate calcolate' },
+  BEST_ROUND: { label: 'Miglior giornata', description: 'Punteggio più alto in una singola giornata' },
+  TOP_SCORER: { label: 'Squadra più prolifica', description: 'Gol stagionali segnati dai giocatori in rosa' },
+  BALANCE: { label: 'Bilancio', description: 'Budget meno ingaggi annui' },
+  BUDGET: { label: 'Budget', description: 'Budget residuo' },
+  SALARIES: { label: 'Monte ingaggi', description: 'Somma degli ingaggi annui' },
+}
+
+// Limiti di piattaforma (non configurabili)
+export const PRIZE_RULE_LIMITS = {
+  maxPositions: 20,
+  maxAmount: 500,
+}
+
+// Risposta dell'anteprima (see: previewPrizeRules)
+export interface PrizeRulePreview {
+  categories: Array<{
+    categoryId: string
+    name: string
+    rule: PrizeRule
+    description: string
+    noData: boolean
+    changes: Array<{ memberId: string; teamName: string | null; username: string; current: number; proposed: number }>
+  }>
+  members: Array<{ memberId: string; teamName: string | null; username: string; currentTotal: number; proposedTotal: number }>
+  hasChanges: boolean
+}
+
+export interface MetricValue {
+  memberId: string
+  // null = dato non disponibile per il manager (escluso dalla graduatoria)
+  value: number | null
+}
+
+/**
+ * Verifica l'importo di un singolo premio (manuale o calcolato da regola).
+ * Negativo = penalità. Ritorna il messaggio d'errore o null se valido.
+ */
+export function validatePrizeAmount(amount: number): string | null {
+  if (!Number.isInteger(amount) || Math.abs(amount) > PRIZE_RULE_LIMITS.maxAmount) {
+    return `L'importo deve essere un numero intero tra -${PRIZE_RULE_LIMITS.maxAmount} e ${PRIZE_RULE_LIMITS.maxAmount}`
+  }
+  return null
+}
+
+/**
+ * Verifica una regola ricevuta dal client. Ritorna l'elenco degli errori (vuoto se valida).
+ */
+export function validatePrizeRule(rule: PrizeRule): string[] {
+  const errors: string[] = []
+
+  if (!(rule.metric in PRIZE_RULE_METRICS)) {
+    errors.push('Dato di riferimento non valido')
+  }
+  if (rule.direction !== 'TOP' && rule.direction !== 'BOTTOM') {
+    errors.push('Ordine della graduatoria non valido')
+  }
+  if (rule.amounts.length === 0 || rule.amounts.length > PRIZE_RULE_LIMITS.maxPositions) {
+    errors.push(`Indica da 1 a ${PRIZE_RULE_LIMITS.maxPositions} importi`)
+  }
+  if (rule.amounts.some(a => validatePrizeAmount(a) !== null)) {
+    errors.push(`Gli importi devono essere interi tra -${PRIZE_RULE_LIMITS.maxAmount} e ${PRIZE_RULE_LIMITS.maxAmount}`)
+  }
+
+  return errors
+}
+
+/**
+ * Legge la regola salvata sulla categoria (JSON). null = categoria a importi manuali.
+ */
+export function parsePrizeRule(raw: unknown): PrizeRule | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null
+  const stored = raw as Partial<Record<keyof PrizeRule, unknown>>
+  if (typeof stored.metric !== 'string' || typeof stored.direction !== 'string' || !Array.isArray(stored.amounts)) {
+    return null
+  }
+  const rule = {
+    metric: stored.metric as PrizeRuleMetric,
+    direction: stored.direction as PrizeRuleDirection,
+    amounts: stored.amounts.filter((a): a is number => typeof a === 'number'),
+  }
+  return validatePrizeRule(rule).length === 0 ? rule : null
+}
+
+/**
+ * Applica la regola alla graduatoria. A pari merito i manager si dividono
+ * gli importi delle posizioni occupate (media arrotondata).
+ *
+ * @returns memberId → importo, solo per i manager premiati o penalizzati
+ */
+export function applyPrizeRule(rule: PrizeRule, values: MetricValue[]): Map<string, number> {
+  const ranked = values
+    .filter((v): v is { memberId: string; value: number } => v.value !== null)
+    .sort((a, b) => (rule.direction === 'TOP' ? b.value - a.value : a.value - b.value))
+
+  const result = new Map<string, number>()
+  let position = 0
+  while (position < ranked.length && position < rule.amounts.length) {
+    const value = ranked[position]!.value
+    let end = position
+    while (end < ranked.length && ranked[end]!.value === value) end++
+
+    const shared = rule.amounts.slice(position, end)
+    const amount = Math.round(shared.reduce((sum, a) => sum + a, 0) / (end - position))
+    if (amount !== 0) {
+      for (const { memberId } of ranked.slice(position, end)) {
+        result.set(memberId, amount)
+      }
+    }
+    position = end
+  }
+
+  return result
+}
+
+// Descrizione leggibile (es. "Classifica: 1° 80, 2° 60")
+export function describePrizeRule(rule: PrizeRule): string {
+  const label = PRIZE_RULE_METRICS[rule.metric].label
+  const prefix = rule.direction === 'TOP' ? label : `${label} (dal peggiore)`
+  const amounts = rule.amounts.map((a, i) => `${i + 1}° ${a > 0 ? '+' : ''}${a}`).join(', ')
+  return `${prefix}: ${amounts}`
+}
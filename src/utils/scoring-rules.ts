@@ -0,0 +1,281 @@
+// Tabella bonus/malus del fantacalcio a giornate, configurabile per lega (League.scoringRuleset).
+// Modulo puro: usato dal service di calcolo (scoring.service) e dalla pagina Giornate.
+
+export type ScoringRole = 'P' | 'D' | 'C' | 'A'
+
+export const SCORING_ROLES: ScoringRole[] = ['P', 'D', 'C', 'A']
+
+export interface ScoringRuleset {
+  // Bonus per gol segnato, per ruolo
+  goalBonus: Record<ScoringRole, number>
+  // Bonus per assist
+  assistBonus: number
+  // Bonus porta inviolata, per ruolo (0 = nessun bonus)
+  cleanSheetBonus: Record<ScoringRole, number>
+  // Minuti minimi giocati per il bonus porta inviolata
+  cleanSheetMinMinutes: number
+  // Malus per gol subito (solo portieri)
+  goalConcededMalus: number
+  yellowCardMalus: number
+  redCardMalus: number
+  // Moduli ammessi (D-C-A, il portiere è sempre uno)
+  formations: string[]
+  // Giocatori in panchina
+  benchSize: number
+  // Sostituzioni automatiche massime per giornata
+  maxSubstitutions: number
+}
+
+export const DEFAULT_SCORING_RULESET: ScoringRuleset = {
+  goalBonus: { P: 3, D: 3, C: 3, A: 3 },
+  assistBonus: 1,
+  cleanSheetBonus: { P: 1, D: 0, C: 0, A: 0 },
+  cleanSheetMinMinutes: 60,
+  goalConcededMalus: -1,
+  yellowCardMalus: -0.5,
+  redCardMalus: -1,
+  formations: ['3-4-3', '3-5-2', '4-3-3', '4-4-2', '4-5-1', '5-3-2', '5-4-1'],
+  benchSize: 7,
+  maxSubstitutions: 3,
+}
+
+// Limiti di piattaforma (non configurabili)
+export const SCORING_RULESET_LIMITS = {
+  maxBonus: 10,
+  maxBenchSize: 12,
+  maxSubstitutions: 5,
+  starters: 11,
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
+
+function resolveRoleTable(raw: unknown, fallback: Record<ScoringRole, number>): Record<ScoringRole, number> {
+  const table = { ...fallback }
+  if (raw && typeof raw === 'object' && !Array.isArray(raw)) {
+    for (const role of SCORING_ROLES) {
+      const value = (raw as Record<string, unknown>)[role]
+      if (isNumber(value)) table[role] = value
+    }
+  }
+  return table
+}
+
+/**
+ * Modulo "D-C-A" → numero di titolari per ruolo (portiere incluso).
+ * Ritorna null se il formato non è valido o i titolari non sono 11.
+ */
+export function parseFormation(formation: string): Record<ScoringRole, number> | null {
+  const match = /^(\d)-(\d)-(\d)$/.exec(formation)
+  if (!match) return null
+  const [d, c, a] = match.slice(1).map(Number) as [number, number, number]
+  if (1 + d + c + a !== SCORING_RULESET_LIMITS.starters) return null
+  return { P: 1, D: d, C: c, A: a }
+}
+
+/**
+ * Unisce la tabella salvata sulla lega (JSON, anche parziale) ai default.
+ * I campi mancanti o di tipo errato ricadono sul valore di default;
+ * la coerenza complessiva si verifica con validateScoringRuleset.
+ */
+export function resolveScoringRuleset(raw: unknown): ScoringRuleset {
+  const defaults = DEFAULT_SCORING_RULESET
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return {
+      ...defaults,
+      goalBonus: { ...defaults.goalBonus },
+      cleanSheetBonus: { ...defaults.cleanSheetBonus },
+      formations: [...defaults.formations],
+    }
+  }
+
+  const stored = raw as Partial<Record<keyof ScoringRuleset, unknown>>
+  const pick = <K extends keyof ScoringRuleset>(key: K, guard: (v: unknown) => boolean): ScoringRuleset[K] =>
+    guard(stored[key]) ? stored[key] as ScoringRuleset[K] : defaults[key]
+
+  const formations = Array.isArray(stored.formations) && stored.formations.every(f => typeof f === 'string')
+    ? [...stored.formations]
+    : [...defaults.formations]
+
+  return {
+    goalBonus: resolveRoleTable(stored.goalBonus, defaults.goalBonus),
+    assistBonus: pick('assistBonus', isNumber),
+    cleanSheetBonus: resolveRoleTable(stored.cleanSheetBonus, defaults.cleanSheetBonus),
+    cleanSheetMinMinutes: pick('cleanSheetMinMinutes', isNonNegativeInteger),
+    goalConcededMalus: pick('goalConcededMalus', isNumber),
+    yellowCardMalus: pick('yellowCardMalus', isNumber),
+    redCardMalus: pick('redCardMalus', isNumber),
+    formations,
+    benchSize: pick('benchSize', isNonNegativeInteger),
+    maxSubstitutions: pick('maxSubstitutions', isNonNegativeInteger),
+  }
+}
+
+/**
+ * Verifica la coerenza di una tabella. Ritorna l'elenco degli errori (vuoto se valida).
+ */
+export function validateScoringRuleset(rules: ScoringRuleset): string[] {
+  const errors: string[] = []
+  const { maxBonus } = SCORING_RULESET_LIMITS
+
+  for (const role of SCORING_ROLES) {
+    if (!isNumber(rules.goalBonus[role]) || rules.goalBonus[role] < 0 || rules.goalBonus[role] > maxBonus) {
+      errors.push(`Bonus gol (${role}) deve essere tra 0 e ${maxBonus}`)
+    }
+    if (!isNumber(rules.cleanSheetBonus[role]) || rules.cleanSheetBonus[role] < 0 || rules.cleanSheetBonus[role] > maxBonus) {
+      errors.push(`Bonus porta inviolata (${role}) deve essere tra 0 e ${maxBonus}`)
+    }
+  }
+  if (!isNumber(rules.assistBonus) || rules.assistBonus < 0 || rules.assistBonus > maxBonus) {
+    errors.push(`Bonus assist deve essere tra 0 e ${maxBonus}`)
+  }
+  for (const [label, value] of [
+    ['gol subito', rules.goalConcededMalus],
+    ['ammonizione', rules.yellowCardMalus],
+    ['espulsione', rules.redCardMalus],
+  ] as const) {
+    if (!isNumber(value) || value > 0 || value < -maxBonus) {
+      errors.push(`Malus ${label} deve essere tra -${maxBonus} e 0`)
+    }
+  }
+  if (!isNonNegativeInteger(rules.cleanSheetMinMinutes) || rules.cleanSheetMinMinutes > 90) {
+    errors.push('Minuti minimi per la porta inviolata devono essere tra 0 e 90')
+  }
+
+  if (rules.formations.length === 0) {
+    errors.push('Serve almeno un modulo ammesso')
+  }
+  const invalidFormations = rules.formations.filter(f => !parseFormation(f))
+  if (invalidFormations.length > 0) {
+    errors.push(`Moduli non validi: ${invalidFormations.join(', ')}`)
+  }
+
+  if (!isNonNegativeInteger(rules.benchSize) || rules.benchSize > SCORING_RULESET_LIMITS.maxBenchSize) {
+    errors.push(`Panchina deve essere tra 0 e ${SCORING_RULESET_LIMITS.maxBenchSize} giocatori`)
+  }
+  if (!isNonNegativeInteger(rules.maxSubstitutions) || rules.maxSubstitutions > SCORING_RULESET_LIMITS.maxSubstitutions) {
+    errors.push(`Sostituzioni massime devono essere tra 0 e ${SCORING_RULESET_LIMITS.maxSubstitutions}`)
+  }
+
+  return errors
+}
+
+// Statistiche di un giocatore nella giornata (see: PlayerMatchRating)
+export interface MatchStats {
+  rating: number | null
+  minutesPlayed: number | null
+  goals: number | null
+  assists: number | null
+  goalsConceded: number | null
+  yellowCards: number | null
+  redCards: number | null
+}
+
+export interface Fantavoto {
+  baseRating: number
+  bonus: number
+  fantavoto: number
+}
+
+/**
+ * Fantavoto = voto + bonus/malus. Ritorna null se il giocatore è senza voto
+ * (non ha giocato o ha giocato troppo poco per essere valutato).
+ */
+export function computeFantavoto(stats: MatchStats | undefined, role: ScoringRole, rules: ScoringRuleset): Fantavoto | null {
+  if (!stats || stats.rating === null) return null
+
+  const minutes = stats.minutesPlayed ?? 0
+  const conceded = stats.goalsConceded ?? 0
+  let bonus = (stats.goals ?? 0) * rules.goalBonus[role]
+    + (stats.assists ?? 0) * rules.assistBonus
+    + (stats.yellowCards ?? 0) * rules.yellowCardMalus
+    + (stats.redCards ?? 0) * rules.redCardMalus
+
+  if (role === 'P') {
+    bonus += conceded * rules.goalConcededMalus
+  }
+  // Voti sincronizzati prima dei gol subiti (goalsConceded null): nessun bonus porta inviolata
+  if (stats.goalsConceded === 0 && minutes >= rules.cleanSheetMinMinutes) {
+    bonus += rules.cleanSheetBonus[role]
+  }
+
+  // Arrotondamento al centesimo per evitare residui floating point (es. 0.1 + 0.2)
+  bonus = Math.round(bonus * 100) / 100
+  return {
+    baseRating: stats.rating,
+    bonus,
+    fantavoto: Math.round((stats.rating + bonus) * 100) / 100,
+  }
+}
+
+export interface LineupSlot {
+  playerId: string
+  role: ScoringRole
+}
+
+export interface ScoredSlot extends Fantavoto {
+  playerId: string
+  role: ScoringRole
+  // Titolare sostituito da questo giocatore della panchina
+  substituteFor?: string
+}
+
+export interface LineupScore {
+  total: number
+  // Giocatori che hanno contribuito al punteggio (titolari a voto + subentrati)
+  players: ScoredSlot[]
+  // Titolari senza voto e senza sostituto disponibile
+  missing: string[]
+}
+
+/**
+ * Calcola il punteggio di una formazione. I titolari senza voto vengono
+ * sostituiti, nell'ordine di schieramento, dal primo panchinaro dello stesso
+ * ruolo che ha preso voto, fino a maxSubstitutions.
+ */
+export function scoreLineup(
+  starters: LineupSlot[],
+  bench: LineupSlot[],
+  stats: Map<string, MatchStats>,
+  rules: ScoringRuleset
+): LineupScore {
+  const players: ScoredSlot[] = []
+  const missing: string[] = []
+  const usedBench = new Set<string>()
+  let substitutions = 0
+
+  for (const starter of starters) {
+    const vote = computeFantavoto(stats.get(starter.playerId), starter.role, rules)
+    if (vote) {
+      players.push({ ...starter, ...vote })
+      continue
+    }
+
+    let substitute: ScoredSlot | null = null
+    if (substitutions < rules.maxSubstitutions) {
+      for (const candidate of bench) {
+        if (candidate.role !== starter.role || usedBench.has(candidate.playerId)) continue
+        const candidateVote = computeFantavoto(stats.get(candidate.playerId), candidate.role, rules)
+        if (!candidateVote) continue
+        substitute = { ...candidate, ...candidateVote, substituteFor: starter.playerId }
+        break
+      }
+    }
+
+    if (substitute) {
+      usedBench.add(substitute.playerId)
+      substitutions++
+      players.push(substitute)
+    } else {
+      missing.push(starter.playerId)
+    }
+  }
+
+  const total = Math.round(players.reduce((sum, p) => sum + p.fantavoto, 0) * 100) / 100
+  return { total, players, missing }
+}
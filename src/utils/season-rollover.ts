@@ -0,0 +1,73 @@
+// Cambio stagione della lega (League.seasonBudgetPolicy, SeasonArchive).
+// Modulo puro: usato dal wizard lato server (anteprima e applicazione) e dal pannello admin.
+
+export type SeasonBudgetMode = 'CARRY_OVER' | 'RESET'
+
+export interface SeasonBudgetPolicy {
+  // CARRY_OVER = budget residuo riportato (in percentuale), RESET = budget iniziale della lega
+  mode: SeasonBudgetMode
+  // Quota del budget residuo riportata nella nuova stagione (solo CARRY_OVER)
+  carryOverPercent: number
+  // Bonus fisso accreditato a ogni manager a inizio stagione
+  seasonBonus: number
+}
+
+export const DEFAULT_SEASON_BUDGET_POLICY: SeasonBudgetPolicy = {
+  mode: 'CARRY_OVER',
+  carryOverPercent: 100,
+  seasonBonus: 0,
+}
+
+/**
+ * Politica salvata sulla lega (JSON, anche parziale) unita ai default.
+ */
+export function resolveSeasonBudgetPolicy(raw: unknown): SeasonBudgetPolicy {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ...DEFAULT_SEASON_BUDGET_POLICY }
+  }
+
+  const stored = raw as Partial<Record<keyof SeasonBudgetPolicy, unknown>>
+  const isAmount = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v) && v >= 0
+
+  return {
+    mode: stored.mode === 'RESET' ? 'RESET' : 'CARRY_OVER',
+    carryOverPercent: isAmount(stored.carryOverPercent) && stored.carryOverPercent <= 100
+      ? stored.carryOverPercent
+      : DEFAULT_SEASON_BUDGET_POLICY.carryOverPercent,
+    seasonBonus: isAmount(stored.seasonBonus) ? stored.seasonBonus : DEFAULT_SEASON_BUDGET_POLICY.seasonBonus,
+  }
+}
+
+/**
+ * Budget del manager nella nuova stagione. Un budget negativo non viene
+ * riportato: il debito resta a carico del manager.
+ */
+export function nextSeasonBudget(currentBudget: number, initialBudget: number, policy: SeasonBudgetPolicy): number {
+  if (policy.mode === 'RESET') {
+    return initialBudget + policy.seasonBonus
+  }
+  const carried = currentBudget > 0 ? Math.floor(currentBudget * policy.carryOverPercent / 100) : currentBudget
+  return carried + policy.seasonBonus
+}
+
+export interface RolloverContract {
+  contractId: string
+  memberId: string
+  playerName: string
+  salary: number
+  duration: number
+}
+
+/**
+ * Contratti all'apertura del mercato della nuova stagione: la durata scala di
+ * un semestre e quelli con durata residua 1 scadono (svincolo senza costi).
+ */
+export function planContractRollover(contracts: RolloverContract[]): {
+  decremented: Array<RolloverContract & { newDuration: number }>
+  expiring: RolloverContract[]
+} {
+  return {
+    decremented: contracts.filter(c => c.duration > 1).map(c => ({ ...c, newDuration: c.duration - 1 })),
+    expiring: contracts.filter(c => c.duration <= 1),
+  }
+}
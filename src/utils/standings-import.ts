@@ -0,0 +1,235 @@
+// Import di classifiche e risultati da file esterni (CSV/XLSX).
+// Modulo puro: mappatura delle colonne, abbinamento delle squadre ai manager
+// della lega e report di validazione. Usato dal service e dalla UI admin.
+
+export type StandingsImportKind = 'STANDINGS' | 'RESULTS'
+
+export type StandingsField = 'team' | 'points' | 'rank' | 'round'
+
+// Campo → intestazione della colonna nel file
+export type ColumnMapping = Partial<Record<StandingsField, string>>
+
+export const STANDINGS_FIELDS: Record<StandingsField, { label: string }> = {
+  team: { label: 'Squadra' },
+  points: { label: 'Punti' },
+  rank: { label: 'Posizione' },
+  round: { label: 'Giornata' },
+}
+
+export const REQUIRED_FIELDS: Record<StandingsImportKind, StandingsField[]> = {
+  STANDINGS: ['team', 'points'],
+  RESULTS: ['team', 'round', 'points'],
+}
+
+// Intestazioni riconosciute in automatico (già normalizzate)
+const HEADER_ALIASES: Record<StandingsField, string[]> = {
+  team: ['squadra', 'team', 'fantasquadra', 'nome squadra', 'club', 'partecipante'],
+  points: ['punti', 'pt', 'pti', 'pts', 'points', 'totale', 'punteggio', 'fantapunti', 'tot'],
+  rank: ['pos', 'posizione', 'rank', 'classifica', 'n'],
+  round: ['giornata', 'round', 'gg', 'turno', 'matchday'],
+}
+
+export interface TeamCandidate {
+  memberId: string
+  teamName: string | null
+  username: string
+}
+
+// EXACT = nome identico, HIGH = un nome contiene l'altro, LOW = simile (refusi)
+export type TeamMatchConfidence = 'EXACT' | 'HIGH' | 'LOW'
+
+export interface TeamMatch {
+  memberId: string
+  confidence: TeamMatchConfidence
+}
+
+export interface ImportedRow {
+  row: number            // Numero di riga nel file (1 = intestazione)
+  sourceTeam: string
+  memberId: string
+  confidence: TeamMatchConfidence | 'MANUAL'
+  round: string | null
+  points: number
+  rank: number | null
+}
+
+export interface StandingsImportReport {
+  rows: ImportedRow[]
+  errors: string[]
+  // Nomi presenti nel file senza un manager abbinato
+  unmatchedTeams: string[]
+  // Nomi abbinati per somiglianza (LOW): da confermare con un abbinamento manuale
+  unconfirmedTeams: string[]
+  // Manager attivi assenti dal file
+  missingMembers: TeamCandidate[]
+  totalProcessed: number
+}
+
+export function normalizeTeamName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')  // Remove diacritics
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a.charAt(i - 1) === b.charAt(j - 1)
+        ? previous[j - 1]!
+        : Math.min(previous[j - 1]!, previous[j]!, current[j - 1]!) + 1
+    }
+    previous = current
+  }
+  return previous[b.length]!
+}
+
+/**
+ * Propone la mappatura delle colonne riconoscendo le intestazioni più comuni.
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  for (const field of Object.keys(HEADER_ALIASES) as StandingsField[]) {
+    const header = headers.find(h => HEADER_ALIASES[field].includes(normalizeTeamName(h)))
+    if (header !== undefined) mapping[field] = header
+  }
+  return mapping
+}
+
+export function missingRequiredFields(kind: StandingsImportKind, mapping: ColumnMapping): StandingsField[] {
+  return REQUIRED_FIELDS[kind].filter(field => !mapping[field])
+}
+
+/**
+ * Abbina il nome squadra del file a un manager, confrontandolo con nome
+ * squadra e username. Ritorna null se nessun abbinamento è univoco.
+ */
+export function matchTeam(raw: string, candidates: TeamCandidate[]): TeamMatch | null {
+  const name = normalizeTeamName(raw)
+  if (!name) return null
+
+  const names = candidates.map(c => ({
+    memberId: c.memberId,
+    keys: [c.teamName, c.username].filter((k): k is string => !!k).map(normalizeTeamName).filter(Boolean),
+  }))
+
+  const unique = (matches: typeof names): string | null => (matches.length === 1 ? matches[0]!.memberId : null)
+
+  const exact = unique(names.filter(n => n.keys.includes(name)))
+  if (exact) return { memberId: exact, confidence: 'EXACT' }
+
+  const contained = unique(names.filter(n => n.keys.some(k =>
+    Math.min(k.length, name.length) >= 3 && (k.includes(name) || name.includes(k))
+  )))
+  if (contained) return { memberId: contained, confidence: 'HIGH' }
+
+  // Refusi: distanza entro il 25% della lunghezza, solo se il migliore è unico
+  const scored = names
+    .map(n => ({ memberId: n.memberId, distance: Math.min(...n.keys.map(k => levenshteinDistance(k, name))) }))
+    .filter(s => s.distance <= Math.max(1, Math.floor(name.length * 0.25)))
+    .sort((a, b) => a.distance - b.distance)
+  if (scored.length > 0 && (scored.length === 1 || scored[0]!.distance < scored[1]!.distance)) {
+    return { memberId: scored[0]!.memberId, confidence: 'LOW' }
+  }
+
+  return null
+}
+
+// Accetta numeri o stringhe con virgola decimale ("72,5")
+function parseNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value !== 'string' || !value.trim()) return null
+  const parsed = Number(value.trim().replace(',', '.'))
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function cellText(value: unknown): string {
+  return typeof value === 'string' || typeof value === 'number' ? String(value).trim() : ''
+}
+
+/**
+ * Valida le righe del file con la mappatura scelta e abbina le squadre.
+ * overrides: nome squadra del file → memberId, scelti a mano dall'admin.
+ * headerRow: riga dell'intestazione nel file, per numerare gli errori.
+ */
+export function buildImportReport(
+  rows: Array<Record<string, unknown>>,
+  mapping: ColumnMapping,
+  kind: StandingsImportKind,
+  candidates: TeamCandidate[],
+  overrides: Record<string, string> = {},
+  headerRow: number = 1
+): StandingsImportReport {
+  const report: StandingsImportReport = {
+    rows: [],
+    errors: [],
+    unmatchedTeams: [],
+    unconfirmedTeams: [],
+    missingMembers: [],
+    totalProcessed: rows.length,
+  }
+  const seen = new Set<string>()
+  const validIds = new Set(candidates.map(c => c.memberId))
+
+  rows.forEach((data, index) => {
+    const row = headerRow + index + 1
+    const sourceTeam = mapping.team ? cellText(data[mapping.team]) : ''
+    if (!sourceTeam) {
+      report.errors.push(`Riga ${row}: squadra mancante`)
+      return
+    }
+
+    const points = mapping.points ? parseNumber(data[mapping.points]) : null
+    if (points === null) {
+      report.errors.push(`Riga ${row}: punti non validi per ${sourceTeam}`)
+      return
+    }
+
+    const round = kind === 'RESULTS' && mapping.round ? cellText(data[mapping.round]) : null
+    if (kind === 'RESULTS' && !round) {
+      report.errors.push(`Riga ${row}: giornata mancante per ${sourceTeam}`)
+      return
+    }
+
+    const override = overrides[sourceTeam]
+    const match: TeamMatch | { memberId: string; confidence: 'MANUAL' } | null = override && validIds.has(override)
+      ? { memberId: override, confidence: 'MANUAL' }
+      : matchTeam(sourceTeam, candidates)
+    if (!match) {
+      if (!report.unmatchedTeams.includes(sourceTeam)) report.unmatchedTeams.push(sourceTeam)
+      report.errors.push(`Riga ${row}: squadra "${sourceTeam}" non abbinata a nessun manager`)
+      return
+    }
+
+    const key = `${match.memberId}|${round ?? ''}`
+    if (seen.has(key)) {
+      report.errors.push(`Riga ${row}: ${sourceTeam} compare più volte${round ? ` nella giornata ${round}` : ''}`)
+      return
+    }
+    seen.add(key)
+    if (match.confidence === 'LOW' && !report.unconfirmedTeams.includes(sourceTeam)) {
+      report.unconfirmedTeams.push(sourceTeam)
+    }
+
+    const rank = mapping.rank ? parseNumber(data[mapping.rank]) : null
+    report.rows.push({
+      row,
+      sourceTeam,
+      memberId: match.memberId,
+      confidence: match.confidence,
+      round,
+      points,
+      rank: rank !== null ? Math.trunc(rank) : null,
+    })
+  })
+
+  const imported = new Set(report.rows.map(r => r.memberId))
+  report.missingMembers = candidates.filter(c => !imported.has(c.memberId))
+
+  return report
+}
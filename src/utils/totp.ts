@@ -0,0 +1,123 @@
+import crypto from 'crypto'
+
+// TOTP (RFC 6238) con i parametri di default delle app authenticator:
+// HMAC-SHA1, intervalli di 30 secondi, codici a 6 cifre.
+export const TOTP_STEP_SECONDS = 30
+export const TOTP_DIGITS = 6
+// Intervalli adiacenti accettati per tollerare lo sfasamento degli orologi
+const TOTP_WINDOW = 1
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET.charAt((value >>> (bits - 5)) & 31)
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET.charAt((value << (5 - bits)) & 31)
+  }
+
+  return output
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '')
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error(`Carattere base32 non valido: ${char}`)
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+// Segreto da 160 bit, come raccomandato dalla RFC 4226
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20))
+}
+
+export function totpStep(timestamp: number = Date.now()): number {
+  return Math.floor(timestamp / 1000 / TOTP_STEP_SECONDS)
+}
+
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest()
+  const offset = hmac[hmac.length - 1]! & 0x0f
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0')
+}
+
+// Restituisce l'intervallo in cui il codice è valido (da salvare per impedirne il riuso), o null
+export function verifyTotp(secret: string, code: string, timestamp: number = Date.now()): number | null {
+  const normalized = code.replace(/\s/g, '')
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null
+  }
+
+  const current = totpStep(timestamp)
+  for (let delta = -TOTP_WINDOW; delta <= TOTP_WINDOW; delta++) {
+    const expected = Buffer.from(totpCode(secret, current + delta))
+    if (crypto.timingSafeEqual(expected, Buffer.from(normalized))) {
+      return current + delta
+    }
+  }
+
+  return null
+}
+
+// URL otpauth:// letto dalle app authenticator (Google Authenticator, Authy, 1Password...)
+export function buildOtpauthUrl(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
+
+// Codici di recupero monouso nel formato XXXXX-XXXXX (senza caratteri ambigui)
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+export const RECOVERY_CODE_COUNT = 10
+
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const chars = Array.from(crypto.randomBytes(10), byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length])
+    return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`
+  })
+}
+
+export function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+export function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex')
+}
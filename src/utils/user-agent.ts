@@ -0,0 +1,44 @@
+/**
+ * user-agent.ts - Descrizione leggibile del dispositivo di una sessione
+ *
+ * Riconosce solo i browser e i sistemi più comuni: basta per mostrare
+ * "Chrome su Windows" nella lista delle sessioni e nelle email di sicurezza.
+ *
+ * Creato il: 18/10/2026
+ */
+
+export const UNKNOWN_DEVICE = 'Dispositivo sconosciuto'
+
+// L'ordine conta: Edge e Opera dichiarano anche Chrome, Chrome dichiara anche Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+]
+
+// iOS prima di macOS: gli iPhone dichiarano "like Mac OS X"
+const OPERATING_SYSTEMS: Array<[RegExp, string]> = [
+  [/Windows/, 'Windows'],
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+]
+
+function match(userAgent: string, candidates: Array<[RegExp, string]>): string | null {
+  return candidates.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null
+}
+
+export function describeUserAgent(userAgent: string | null | undefined): string {
+  if (!userAgent) return UNKNOWN_DEVICE
+
+  const browser = match(userAgent, BROWSERS)
+  const os = match(userAgent, OPERATING_SYSTEMS)
+
+  if (browser && os) return `${browser} su ${os}`
+  return browser ?? os ?? UNKNOWN_DEVICE
+}
@@ -24,6 +24,29 @@ export const loginSchema = z.object({
   password: z.string().min(1, 'Password richiesta'),
 })
 
+// Codice dell'app authenticator (6 cifre) o codice di recupero (XXXXX-XXXXX)
+const twoFactorCode = z.string().trim().min(6, 'Codice richiesto').max(20, 'Codice non valido')
+
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, 'Sessione di accesso mancante'),
+  code: twoFactorCode,
+  trustDevice: z.boolean().optional().default(false),
+})
+
+// challengeToken presente solo nella configurazione obbligatoria durante il login
+export const twoFactorSetupSchema = z.object({
+  challengeToken: z.string().min(1).optional(),
+})
+
+export const twoFactorEnableSchema = z.object({
+  challengeToken: z.string().min(1).optional(),
+  code: z.string().trim().regex(/^\d{6}$/, 'Inserisci il codice a 6 cifre'),
+})
+
+export const twoFactorCodeSchema = z.object({
+  code: twoFactorCode,
+})
+
 export const updateProfileSchema = z.object({
   email: z.email('Email non valida').optional(),
   username: z
@@ -59,10 +82,193 @@ export const createLeagueSchema = z.object({
   midfielderSlots: z.number().int().min(3).max(12).default(8),
   forwardSlots: z.number().int().min(2).max(8).default(6),
   isPublic: z.boolean().optional().default(false),
+  requireVerifiedEmail: z.boolean().optional(),
+  requireAdminTwoFactor: z.boolean().optional(),
 })
 
 export const updateLeagueSchema = createLeagueSchema.partial()
 
+// Regole contrattuali della lega (coerenza verificata da validateContractRuleset, see: utils/contract-rules.ts)
+export const contractRulesetSchema = z.object({
+  durationMultipliers: z.record(z.string().regex(/^\d+$/, 'Durata non valida'), z.number().int().min(1)),
+  maxDuration: z.number().int().min(1),
+  minSalaryPercent: z.number().min(0).max(100),
+  defaultSalaryPercent: z.number().min(1).max(100),
+  defaultDuration: z.number().int().min(1),
+  releaseCostPercent: z.number().min(0).max(100),
+  maxRosterSize: z.number().int().min(1),
+})
+
+// null = ripristina le regole di default
+export const updateContractRulesSchema = z.object({
+  rules: contractRulesetSchema.nullable(),
+})
+
+// Tabella bonus/malus della lega (coerenza verificata da validateScoringRuleset, see: utils/scoring-rules.ts)
+const scoringRoleTableSchema = z.object({
+  P: z.number(),
+  D: z.number(),
+  C: z.number(),
+  A: z.number(),
+})
+
+export const scoringRulesetSchema = z.object({
+  goalBonus: scoringRoleTableSchema,
+  assistBonus: z.number(),
+  cleanSheetBonus: scoringRoleTableSchema,
+  cleanSheetMinMinutes: z.number().int().min(0),
+  goalConcededMalus: z.number(),
+  yellowCardMalus: z.number(),
+  redCardMalus: z.number(),
+  formations: z.array(z.string()),
+  benchSize: z.number().int().min(0),
+  maxSubstitutions: z.number().int().min(0),
+})
+
+// null = ripristina la tabella di default
+export const updateScoringRulesSchema = z.object({
+  rules: scoringRulesetSchema.nullable(),
+})
+
+// Regola automatica di una categoria premio (see: utils/prize-rules.ts)
+export const prizeRuleSchema = z.object({
+  metric: z.enum(['STANDINGS', 'BEST_ROUND', 'TOP_SCORER', 'BALANCE', 'BUDGET', 'SALARIES']),
+  direction: z.enum(['TOP', 'BOTTOM']),
+  amounts: z.array(z.number().int()).min(1, 'Indica almeno un importo'),
+})
+
+// Giornata di Serie A (stringhe di PlayerMatchRating, es. "2025-2026" / "Regular Season - 15")
+export const matchdaySchema = z.object({
+  season: z.string().min(1, 'Stagione obbligatoria'),
+  round: z.string().min(1, 'Giornata obbligatoria'),
+})
+
+export const submitLineupSchema = matchdaySchema.extend({
+  formation: z.string().min(1, 'Modulo obbligatorio'),
+  starters: z.array(z.string().min(1)).length(11, 'Servono 11 titolari'),
+  bench: z.array(z.string().min(1)),
+})
+
+// Import classifiche/risultati (campi multipart: mapping e overrides arrivano come JSON)
+export const standingsFileSchema = z.object({
+  kind: z.enum(['STANDINGS', 'RESULTS']),
+  sheetName: z.string().min(1).optional(),
+  mapping: z.object({
+    team: z.string().min(1).optional(),
+    points: z.string().min(1).optional(),
+    rank: z.string().min(1).optional(),
+    round: z.string().min(1).optional(),
+  }).optional(),
+  overrides: z.record(z.string(), z.string()).optional(),
+})
+
+export const standingsImportSchema = standingsFileSchema.extend({
+  // Stagione di lega (default: la corrente). Arriva come stringa dal multipart
+  season: z.coerce.number().int().min(1, 'Stagione non valida').optional(),
+})
+
+// Simulatore contratti: azioni ipotetiche per semestre (0 = fase CONTRATTI attuale)
+const scenarioActionSchema = z.object({
+  type: z.enum(['RENEW', 'RELEASE']),
+  contractId: z.string().min(1, 'Contratto obbligatorio'),
+  semester: z.number().int().min(0),
+  salary: z.number().int().min(1).optional(),
+  duration: z.number().int().min(1).optional(),
+}).refine(a => a.type === 'RELEASE' || (a.salary !== undefined && a.duration !== undefined), {
+  message: 'Il rinnovo richiede ingaggio e durata',
+})
+
+export const contractScenarioSchema = z.object({
+  horizon: z.number().int().min(1, 'Almeno 1 semestre').max(6, 'Massimo 6 semestri'),
+  inflowPerSemester: z.number().int().min(0).max(1000),
+  actions: z.array(scenarioActionSchema).max(100),
+}).refine(s => s.actions.every(a => a.semester <= s.horizon), {
+  message: 'Azione oltre l\'orizzonte della simulazione',
+  path: ['actions'],
+})
+
+export const saveContractScenarioSchema = contractScenarioSchema.and(z.object({
+  name: z.string().trim().min(1, 'Nome obbligatorio').max(60),
+}))
+
+// Chat di sessione
+export const chatMessageSchema = z.object({
+  content: z.string().trim().min(1, 'Il messaggio non può essere vuoto').max(500, 'Il messaggio non può superare 500 caratteri'),
+})
+
+export const chatMuteSchema = z.object({
+  memberId: z.string().min(1, 'Manager obbligatorio'),
+  muted: z.boolean(),
+})
+
+// Watchlist persistente
+export const watchlistCategorySchema = z.object({
+  name: z.string().trim().min(1, 'Il nome della categoria è obbligatorio').max(40, 'Nome categoria troppo lungo'),
+  description: z.string().max(200).nullable().optional(),
+  icon: z.string().max(8).nullable().optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Colore non valido').nullable().optional(),
+})
+
+const watchlistStrategySchema = z.object({
+  priority: z.number().int().min(1).max(5).optional(),
+  targetPrice: z.number().int().min(0).nullable().optional(),
+  maxBid: z.number().int().min(0).nullable().optional(),
+  notes: z.string().max(500).nullable().optional(),
+})
+
+export const watchlistEntrySchema = watchlistStrategySchema.extend({
+  playerId: z.string().min(1, 'Giocatore obbligatorio'),
+  categoryId: z.string().min(1, 'Categoria obbligatoria'),
+})
+
+export const updateWatchlistEntrySchema = watchlistStrategySchema.extend({
+  categoryId: z.string().min(1).optional(),
+})
+
+// Rollback di un'operazione dal journal compensativo
+export const compensationRollbackSchema = z.object({
+  reason: z.string().trim().min(3, 'Indica il motivo del rollback').max(500, 'Motivo troppo lungo'),
+})
+
+// Filtri del visualizzatore audit log (query string)
+export const auditLogQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+  action: z.string().min(1).optional(),
+  userId: z.string().min(1).optional(),
+  entityType: z.string().min(1).optional(),
+  phase: z.enum([
+    'ASTA_LIBERA', 'OFFERTE_PRE_RINNOVO', 'PREMI', 'CONTRATTI', 'RUBATA', 'ASTA_SVINCOLATI', 'OFFERTE_POST_ASTA_SVINCOLATI',
+  ]).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+})
+
+// Politica di budget del cambio stagione (see: src/utils/season-rollover.ts)
+export const seasonBudgetPolicySchema = z.object({
+  mode: z.enum(['CARRY_OVER', 'RESET']),
+  carryOverPercent: z.number().int().min(0).max(100),
+  seasonBonus: z.number().int().min(0).max(10000),
+})
+
+// Fase indennizzi dei giocatori usciti (see: src/services/indemnity-phase.service.ts)
+const indemnityChoiceSchema = z.enum(['KEEP', 'RELEASE'])
+
+export const indemnityDecisionsSchema = z.object({
+  decisions: z.array(z.object({
+    rosterId: z.string().min(1),
+    decision: indemnityChoiceSchema,
+  })).min(1, 'Nessuna decisione inviata'),
+})
+
+export const indemnityDeadlineSchema = z.object({
+  deadline: z.coerce.date().nullable(),
+})
+
+export const indemnityReviewSchema = z.object({
+  decision: indemnityChoiceSchema,
+})
+
 // Types inferred from schemas
 export type RegisterInput = z.infer<typeof registerSchema>
 export type LoginInput = z.infer<typeof loginSchema>
@@ -70,3 +276,10 @@ export type UpdateProfileInput = z.infer<typeof updateProfileSchema>
 export type ChangePasswordInput = z.infer<typeof changePasswordSchema>
 export type CreateLeagueInput = z.infer<typeof createLeagueSchema>
 export type UpdateLeagueInput = z.infer<typeof updateLeagueSchema>
+export type UpdateContractRulesInput = z.infer<typeof updateContractRulesSchema>
+export type UpdateScoringRulesInput = z.infer<typeof updateScoringRulesSchema>
+export type SubmitLineupInput = z.infer<typeof submitLineupSchema>
+export type ChatMessageInput = z.infer<typeof chatMessageSchema>
+export type ContractScenarioInput = z.infer<typeof contractScenarioSchema>
+export type SaveContractScenarioInput = z.infer<typeof saveContractScenarioSchema>
+export type ChatMuteInput = z.infer<typeof chatMuteSchema>
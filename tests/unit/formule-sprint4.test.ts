@@ -75,7 +75,7 @@ describe('P1-1/P1-2: Svincolati bid budget checks use bilancio', () => {
 
     // Should check passedMembers (not just finishedMembers)
     expect(fnBody).toContain('passedMembers')
-    expect(fnBody).toContain('svincolatiPassedMembers')
+    expect(fnBody).toContain('toSvincolatiTurnState')
     // Should have a rejection message for passed members
     expect(fnBody).toMatch(/rinunciato al turno/)
   })
@@ -137,7 +137,7 @@ describe('P1-3: advanceSvincolatiToNextTurn and passSvincolatiTurn skip finished
     expect(fnStart).toBeGreaterThan(-1)
 
     const fnBody = code.slice(fnStart, fnStart + 6000)
-    expect(fnBody).toContain('svincolatiFinishedMembers')
+    expect(fnBody).toContain('toSvincolatiTurnState')
   })
 
   it('advanceSvincolatiToNextTurn while loop should skip finishedMembers', () => {
@@ -167,7 +167,7 @@ describe('P1-3: advanceSvincolatiToNextTurn and passSvincolatiTurn skip finished
     expect(fnStart).toBeGreaterThan(-1)
 
     const fnBody = code.slice(fnStart, fnStart + 2000)
-    expect(fnBody).toContain('svincolatiFinishedMembers')
+    expect(fnBody).toContain('toSvincolatiTurnState')
   })
 
   it('passSvincolatiTurn while loop should skip finishedMembers', () => {
@@ -212,12 +212,12 @@ describe('P1-4: Rubata auto-advance from OFFERING goes to READY_CHECK, not OFFER
     expect(guardComment).toBeGreaterThan(-1)
 
     // From this guard comment, the rubataState assignment is within the next few lines
-    const afterGuard = code.slice(guardComment, guardComment + 500)
+    const afterGuard = code.slice(guardComment, guardComment + 700)
 
     // Must set READY_CHECK, not OFFERING
     expect(afterGuard).toContain("rubataState: 'READY_CHECK'")
     // Should also reset ready members and timer
-    expect(afterGuard).toContain('rubataReadyMembers')
+    expect(afterGuard).toContain('resetRubataReadyMembers')
     expect(afterGuard).toContain('rubataTimerStartedAt: null')
   })
 })